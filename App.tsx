@@ -41,6 +41,7 @@ import {
   SettingsScreen,
   BenchmarkScreen,
   AboutScreen,
+  StorageScreen,
 
   // Dev tools screen. Only available in debug mode.
   DevToolsScreen,
@@ -176,6 +177,15 @@ const App = observer(() => {
                               title: currentL10n.screenTitles.appInfo,
                             }}
                           />
+                          <Drawer.Screen
+                            name={ROUTES.STORAGE}
+                            component={gestureHandlerRootHOC(StorageScreen)}
+                            options={{
+                              headerStyle: styles.headerWithoutDivider,
+                              title: currentL10n.screenTitles.storage,
+                              drawerItemStyle: {display: 'none'},
+                            }}
+                          />
 
                           {/* Only show Dev Tools screen in debug mode */}
                           {isDebugMode && (
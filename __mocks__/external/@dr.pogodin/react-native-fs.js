@@ -18,6 +18,7 @@ export const exists = jest.fn().mockImplementation(path => {
   return Promise.resolve(fileExists);
 });
 export const stopDownload = jest.fn();
+export const readDir = jest.fn().mockResolvedValue([]);
 export const readFile = jest.fn(path => {
   if (path.includes('session-metadata.json')) {
     // Return valid session metadata JSON
@@ -57,6 +58,10 @@ export const __setDocumentDirectoryPath = path => {
   });
 };
 export const copyFile = jest.fn().mockResolvedValue(true);
+export const moveFile = jest.fn().mockResolvedValue(undefined);
+export const read = jest.fn().mockResolvedValue('');
+export const appendFile = jest.fn().mockResolvedValue(undefined);
+export const hash = jest.fn().mockResolvedValue('');
 
 // Expose method to reset state for tests
 export const __resetMockState = () => {
@@ -70,6 +75,7 @@ const RNFS = {
   unlink,
   exists,
   stopDownload,
+  readDir,
   readFile,
   writeFile,
   downloadFile,
@@ -77,6 +83,10 @@ const RNFS = {
   LibraryDirectoryPath,
   MainBundlePath,
   copyFile,
+  moveFile,
+  read,
+  appendFile,
+  hash,
   __resetMockState,
   __setDocumentDirectoryPath,
 };
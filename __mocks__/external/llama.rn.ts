@@ -39,6 +39,8 @@ class MockLlamaContext {
   });
   initMultimodal = jest.fn().mockResolvedValue(true);
   isMultimodalEnabled = jest.fn().mockResolvedValue(false);
+  applyLoraAdapters = jest.fn().mockResolvedValue(undefined);
+  removeLoraAdapters = jest.fn().mockResolvedValue(undefined);
   // Add other methods if needed.
 }
 
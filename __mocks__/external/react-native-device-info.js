@@ -11,6 +11,7 @@ export default {
   getVersion: jest.fn(() => deviceInfo.version),
   getBuildNumber: jest.fn(() => deviceInfo.buildNumber),
   isEmulator: jest.fn(() => false),
+  isBatteryCharging: jest.fn(() => true),
   getBrand: jest.fn(() => 'Apple'),
   getDevice: jest.fn(() => 'iPhone 12'),
   getDeviceId: jest.fn(() => 'test-device-id'),
@@ -105,6 +105,14 @@ class ChatSessionRepository {
     return; // Mock: do nothing
   }
 
+  async searchMessages(query, filters) {
+    return []; // Mock: no matches
+  }
+
+  async buildSearchIndex() {
+    return; // Mock: do nothing
+  }
+
   async setSessionActivePal(sessionId, palId) {
     return; // Mock: do nothing
   }
@@ -10,6 +10,8 @@ export const downloadManager = {
   }),
   startDownload: jest.fn().mockResolvedValue(undefined),
   cancelDownload: jest.fn(),
+  discardPartialDownload: jest.fn().mockResolvedValue(undefined),
   setCallbacks: jest.fn(),
   syncWithActiveDownloads: jest.fn(),
+  activeJobs: [],
 };
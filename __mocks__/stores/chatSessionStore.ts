@@ -68,6 +68,13 @@ export const mockChatSessionStore = {
   exitEditMode: jest.fn(),
   enterEditMode: jest.fn(),
   removeMessagesFromId: jest.fn(),
+  branchFrom: jest.fn(),
+  switchBranch: jest.fn(),
+  // Opening search results
+  focusedMessageId: null as string | null,
+  openMessage: jest.fn().mockResolvedValue(undefined),
+  clearFocusedMessage: jest.fn(),
+  searchMessages: jest.fn().mockResolvedValue([]),
   setIsGenerating: jest.fn(),
   setIsStopping: jest.fn(),
   isStopping: false,
@@ -125,6 +132,11 @@ export const mockChatSessionStore = {
   appendToolCall: jest.fn().mockResolvedValue(undefined),
   appendToolOutcome: jest.fn().mockResolvedValue(undefined),
   finalizeActiveStep: jest.fn().mockResolvedValue(undefined),
+  // Tool approval prompt
+  pendingToolApproval: null as {messageId: string; callId: string} | null,
+  requestToolApproval: jest.fn().mockResolvedValue(true),
+  answerToolApproval: jest.fn(),
+  cancelToolApproval: jest.fn(),
   // Context-limit banner state
   lastCompletionResult: undefined as CompletionResultSnapshot | undefined,
   dismissedBannerVariants: new Set<BannerVariant>(),
@@ -147,6 +159,16 @@ Object.defineProperty(mockChatSessionStore, 'currentSessionMessages', {
   configurable: true,
 });
 
+Object.defineProperty(mockChatSessionStore, 'activeBranchPositions', {
+  get: jest.fn(() => new Map()),
+  configurable: true,
+});
+
+Object.defineProperty(mockChatSessionStore, 'contextSummaryBoundaryId', {
+  get: jest.fn(() => undefined),
+  configurable: true,
+});
+
 Object.defineProperty(mockChatSessionStore, 'activePalId', {
   get: jest.fn(() => null),
   configurable: true,
@@ -0,0 +1,71 @@
+import {makeAutoObservable} from 'mobx';
+
+import {DocumentCollection, DocumentInfo, Model} from '../../src/utils/types';
+
+class MockDocumentStore {
+  collections: DocumentCollection[] = [];
+  embeddingModelId: string | undefined = undefined;
+  documents: DocumentInfo[] = [];
+  indexing: {
+    collectionId: string;
+    title: string;
+    done: number;
+    total: number;
+  } | null = null;
+  embeddingModelOptions: Model[] = [];
+
+  loadDocuments: jest.Mock;
+  setEmbeddingModel: jest.Mock;
+  createCollection: jest.Mock;
+  renameCollection: jest.Mock;
+  deleteCollection: jest.Mock;
+  addDocument: jest.Mock;
+  importFile: jest.Mock;
+  removeDocument: jest.Mock;
+  reindexStaleDocuments: jest.Mock;
+  search: jest.Mock;
+
+  constructor() {
+    makeAutoObservable(this, {
+      loadDocuments: false,
+      setEmbeddingModel: false,
+      createCollection: false,
+      renameCollection: false,
+      deleteCollection: false,
+      addDocument: false,
+      importFile: false,
+      removeDocument: false,
+      reindexStaleDocuments: false,
+      search: false,
+    });
+
+    this.loadDocuments = jest.fn().mockResolvedValue(undefined);
+    this.setEmbeddingModel = jest.fn();
+    this.createCollection = jest.fn().mockReturnValue('collection-new');
+    this.renameCollection = jest.fn();
+    this.deleteCollection = jest.fn().mockResolvedValue(undefined);
+    this.addDocument = jest.fn().mockResolvedValue(undefined);
+    this.importFile = jest.fn().mockResolvedValue(undefined);
+    this.removeDocument = jest.fn().mockResolvedValue(undefined);
+    this.reindexStaleDocuments = jest.fn().mockResolvedValue(undefined);
+    this.search = jest.fn().mockResolvedValue([]);
+  }
+
+  get embeddingModel(): Model | undefined {
+    return this.embeddingModelOptions.find(
+      model => model.id === this.embeddingModelId,
+    );
+  }
+
+  get staleDocuments(): DocumentInfo[] {
+    return this.documents.filter(
+      doc => doc.embeddingModel !== this.embeddingModelId,
+    );
+  }
+
+  documentsIn(collectionId: string): DocumentInfo[] {
+    return this.documents.filter(doc => doc.collectionId === collectionId);
+  }
+}
+
+export const mockDocumentStore = new MockDocumentStore();
@@ -0,0 +1,71 @@
+import {makeAutoObservable} from 'mobx';
+
+import {QueuedDownload} from '../../src/store/DownloadQueueStore';
+
+class MockDownloadQueueStore {
+  queue: QueuedDownload[] = [];
+  inFlight: string[] = [];
+  maxConcurrent = 2;
+  unmeteredOnly = false;
+  chargingOnly = false;
+  waitingForCharger = false;
+
+  enqueue: jest.Mock;
+  remove: jest.Mock;
+  move: jest.Mock;
+  pause: jest.Mock;
+  resume: jest.Mock;
+  setMaxConcurrent: jest.Mock;
+  setUnmeteredOnly: jest.Mock;
+  setChargingOnly: jest.Mock;
+  finish: jest.Mock;
+  restore: jest.Mock;
+  pump: jest.Mock;
+
+  constructor() {
+    makeAutoObservable(this, {
+      enqueue: false,
+      remove: false,
+      move: false,
+      pause: false,
+      resume: false,
+      setMaxConcurrent: false,
+      setUnmeteredOnly: false,
+      setChargingOnly: false,
+      finish: false,
+      restore: false,
+      pump: false,
+    });
+
+    this.enqueue = jest.fn().mockReturnValue(true);
+    this.remove = jest.fn();
+    this.move = jest.fn();
+    this.pause = jest.fn();
+    this.resume = jest.fn();
+    this.setMaxConcurrent = jest.fn();
+    this.setUnmeteredOnly = jest.fn();
+    this.setChargingOnly = jest.fn();
+    this.finish = jest.fn();
+    this.restore = jest.fn();
+    this.pump = jest.fn().mockResolvedValue(undefined);
+  }
+
+  isQueued(modelId: string): boolean {
+    return this.queue.some(item => item.modelId === modelId);
+  }
+
+  positionOf(modelId: string): number | undefined {
+    const index = this.queue.findIndex(item => item.modelId === modelId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  isPaused(modelId: string): boolean {
+    return !!this.queue.find(item => item.modelId === modelId)?.paused;
+  }
+
+  started(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+export const mockDownloadQueueStore = new MockDownloadQueueStore();
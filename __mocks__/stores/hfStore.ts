@@ -11,6 +11,7 @@ export const mockHFStore = {
   queryConfig: true,
   hfToken: '',
   useHfToken: true,
+  mirrorUrl: '',
   searchFilters: {
     author: '',
     sortBy: 'relevance' as const,
@@ -24,6 +25,7 @@ export const mockHFStore = {
   },
 
   setUseHfToken: jest.fn(),
+  setMirrorUrl: jest.fn().mockReturnValue(true),
   setToken: jest.fn().mockResolvedValue(Promise.resolve(true)),
   clearToken: jest.fn().mockResolvedValue(Promise.resolve(true)),
 
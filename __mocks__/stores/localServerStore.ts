@@ -0,0 +1,42 @@
+import {makeAutoObservable} from 'mobx';
+
+class MockLocalServerStore {
+  port: number = 8080;
+  isRunning: boolean = false;
+  isStarting: boolean = false;
+  addresses: string[] = [];
+  activeRequests: number = 0;
+  queuedRequests: number = 0;
+  apiKey: string | undefined = undefined;
+  error: string | undefined = undefined;
+
+  setPort: jest.Mock;
+  start: jest.Mock;
+  stop: jest.Mock;
+  stopCompletion: jest.Mock;
+  regenerateApiKey: jest.Mock;
+
+  constructor() {
+    makeAutoObservable(this, {
+      setPort: false,
+      start: false,
+      stop: false,
+      stopCompletion: false,
+      regenerateApiKey: false,
+    });
+
+    this.setPort = jest.fn();
+    this.start = jest.fn().mockResolvedValue(undefined);
+    this.stop = jest.fn().mockResolvedValue(undefined);
+    this.stopCompletion = jest.fn().mockResolvedValue(undefined);
+    this.regenerateApiKey = jest.fn().mockResolvedValue(undefined);
+  }
+
+  get baseUrl(): string | undefined {
+    return this.addresses.length > 0
+      ? `http://${this.addresses[0]}:${this.port}/v1`
+      : undefined;
+  }
+}
+
+export const mockLocalServerStore = new MockLocalServerStore();
@@ -0,0 +1,48 @@
+import {makeAutoObservable} from 'mobx';
+
+import type {McpServerStatus} from '../../src/store/McpStore';
+import {McpServerConfig} from '../../src/utils/types';
+
+class MockMcpStore {
+  servers: McpServerConfig[] = [];
+  status: Record<string, McpServerStatus> = {};
+
+  addServer: jest.Mock;
+  updateServer: jest.Mock;
+  setServerEnabled: jest.Mock;
+  removeServer: jest.Mock;
+  setToken: jest.Mock;
+  getToken: jest.Mock;
+  removeToken: jest.Mock;
+  connectServer: jest.Mock;
+  disconnectServer: jest.Mock;
+  connectAll: jest.Mock;
+
+  constructor() {
+    makeAutoObservable(this, {
+      addServer: false,
+      updateServer: false,
+      setServerEnabled: false,
+      removeServer: false,
+      setToken: false,
+      getToken: false,
+      removeToken: false,
+      connectServer: false,
+      disconnectServer: false,
+      connectAll: false,
+    });
+
+    this.addServer = jest.fn().mockResolvedValue('mcp-new');
+    this.updateServer = jest.fn().mockResolvedValue(undefined);
+    this.setServerEnabled = jest.fn().mockResolvedValue(undefined);
+    this.removeServer = jest.fn().mockResolvedValue(undefined);
+    this.setToken = jest.fn().mockResolvedValue(undefined);
+    this.getToken = jest.fn().mockResolvedValue(undefined);
+    this.removeToken = jest.fn().mockResolvedValue(undefined);
+    this.connectServer = jest.fn().mockResolvedValue(undefined);
+    this.disconnectServer = jest.fn();
+    this.connectAll = jest.fn().mockResolvedValue(undefined);
+  }
+}
+
+export const mockMcpStore = new MockMcpStore();
@@ -8,11 +8,17 @@ import {mockServerStore} from './serverStore';
 import {
   Model,
   ContextInitParams,
+  LoraAdapterSetting,
+  ModelUpdate,
   RemoteSessionBinding,
+  WarmContext,
 } from '../../src/utils/types';
 import {LlamaContext} from 'llama.rn';
 import {CompletionEngine} from '../../src/utils/completionTypes';
-import {createDefaultContextInitParams} from '../../src/utils/contextInitParamsVersions';
+import {
+  applyLoadProfile,
+  createDefaultContextInitParams,
+} from '../../src/utils/contextInitParamsVersions';
 import {
   draftCacheDefaults,
   effectiveDraftModeOf,
@@ -29,6 +35,12 @@ class MockModelStore {
   max_threads = 4;
   MIN_CONTEXT_SIZE = 200;
   useAutoRelease = true;
+  keepModelsWarm = false;
+  maxWarmContexts = 1;
+  warmContexts: WarmContext[] = [];
+  activeContextMemoryBytes: number | undefined = undefined;
+  activeLoraAdapters: LoraAdapterSetting[] = [];
+  modelUpdates: Record<string, ModelUpdate> = {};
   activeModelId: string | undefined;
   inferencing = false;
   isStreaming = false;
@@ -44,9 +56,13 @@ class MockModelStore {
 
   refreshDownloadStatuses: jest.Mock;
   addLocalModel: jest.Mock;
+  addUrlModel: jest.Mock;
   removeModelByFullPath: jest.Mock;
   setNContext: jest.Mock;
   updateUseAutoRelease: jest.Mock;
+  setKeepModelsWarm: jest.Mock;
+  setMaxWarmContexts: jest.Mock;
+  releaseWarmContexts: jest.Mock;
   setNoGpuDevices: jest.Mock;
   setDevices: jest.Mock;
   setFlashAttnType: jest.Mock;
@@ -68,6 +84,8 @@ class MockModelStore {
   deleteModel: jest.Mock;
   removeModelFromList: jest.Mock;
   canDeleteProjectionModel: jest.Mock;
+  scanStorage: jest.Mock;
+  reclaimStorage: jest.Mock;
   setDefaultProjectionModel: jest.Mock;
   updateModelChatTemplate: jest.Mock;
   resetModelChatTemplate: jest.Mock;
@@ -92,6 +110,9 @@ class MockModelStore {
   exitBenchmarkMode: jest.Mock;
   recordReasoningObserved: jest.Mock;
   setReasoningOverride: jest.Mock;
+  addLoadProfile: jest.Mock;
+  removeLoadProfile: jest.Mock;
+  setActiveLoadProfile: jest.Mock;
   benchmarkActive: boolean = false;
   isContextLoading: boolean = false;
   loadingModel: Model | undefined;
@@ -101,9 +122,13 @@ class MockModelStore {
       engine: observable.ref,
       refreshDownloadStatuses: false,
       addLocalModel: false,
+      addUrlModel: false,
       removeModelByFullPath: false,
       setNContext: false,
       updateUseAutoRelease: false,
+      setKeepModelsWarm: false,
+      setMaxWarmContexts: false,
+      releaseWarmContexts: false,
 
       setNGPULayers: false,
       resetModels: false,
@@ -122,6 +147,8 @@ class MockModelStore {
       deleteModel: false,
       removeModelFromList: false,
       canDeleteProjectionModel: false,
+      scanStorage: false,
+      reclaimStorage: false,
       setDefaultProjectionModel: false,
       updateModelChatTemplate: false,
       resetModelChatTemplate: false,
@@ -146,6 +173,14 @@ class MockModelStore {
       exitBenchmarkMode: false,
       recordReasoningObserved: false,
       setReasoningOverride: false,
+      addLoadProfile: false,
+      removeLoadProfile: false,
+      setActiveLoadProfile: false,
+      getCompatibleLoraAdapters: false,
+      setModelLoraAdapters: false,
+      syncLoraAdapters: false,
+      checkForModelUpdates: false,
+      updateModel: false,
       contextId: computed,
       lastUsedModel: computed,
       activeModel: computed,
@@ -159,9 +194,13 @@ class MockModelStore {
     });
     this.refreshDownloadStatuses = jest.fn();
     this.addLocalModel = jest.fn();
+    this.addUrlModel = jest.fn();
     this.removeModelByFullPath = jest.fn();
     this.setNContext = jest.fn();
     this.updateUseAutoRelease = jest.fn();
+    this.setKeepModelsWarm = jest.fn();
+    this.setMaxWarmContexts = jest.fn();
+    this.releaseWarmContexts = jest.fn().mockResolvedValue(undefined);
     this.setNoGpuDevices = jest.fn();
     this.setDevices = jest.fn();
     this.setFlashAttnType = jest.fn();
@@ -202,6 +241,10 @@ class MockModelStore {
       reason: null,
       dependentModels: [],
     });
+    this.scanStorage = jest
+      .fn()
+      .mockResolvedValue({issues: [], reclaimableBytes: 0});
+    this.reclaimStorage = jest.fn().mockResolvedValue(0);
     this.setDefaultProjectionModel = jest.fn();
     this.updateModelChatTemplate = jest.fn();
     this.resetModelChatTemplate = jest.fn();
@@ -236,8 +279,19 @@ class MockModelStore {
       localModel.reasoning = cap;
       localModel.supportsThinking = cap.isReasoning === 'yes';
     });
+    this.addLoadProfile = jest.fn();
+    this.removeLoadProfile = jest.fn();
+    this.setActiveLoadProfile = jest.fn();
   }
 
+  getModelContextInitParams = (modelId?: string): ContextInitParams => {
+    const model = this.models.find(m => m.id === modelId);
+    return applyLoadProfile(
+      this.contextInitParams,
+      model?.loadProfiles?.find(p => p.id === model.activeLoadProfileId),
+    );
+  };
+
   setActiveModel = (modelId: string) => {
     this.activeModelId = modelId;
   };
@@ -349,6 +403,11 @@ class MockModelStore {
   getModelVisionPreference = jest.fn().mockReturnValue(true);
   setModelVisionEnabled = jest.fn().mockResolvedValue(undefined);
   getDownloadedLLMsUsingProjectionModel = jest.fn().mockReturnValue([]);
+  getCompatibleLoraAdapters = jest.fn().mockReturnValue([]);
+  setModelLoraAdapters = jest.fn().mockResolvedValue(undefined);
+  syncLoraAdapters = jest.fn().mockResolvedValue(undefined);
+  checkForModelUpdates = jest.fn().mockResolvedValue(undefined);
+  updateModel = jest.fn().mockResolvedValue(undefined);
 }
 
 export const mockModelStore = new MockModelStore();
@@ -0,0 +1,44 @@
+import {makeAutoObservable} from 'mobx';
+
+import {PalMemoryEntry} from '../../src/types/pal';
+
+class MockPalMemoryStore {
+  memories: PalMemoryEntry[] = [];
+
+  loadMemories: jest.Mock;
+  search: jest.Mock;
+  remember: jest.Mock;
+  updateMemory: jest.Mock;
+  forget: jest.Mock;
+  forgetAll: jest.Mock;
+  exportMemories: jest.Mock;
+  importMemories: jest.Mock;
+
+  constructor() {
+    makeAutoObservable(this, {
+      loadMemories: false,
+      search: false,
+      remember: false,
+      updateMemory: false,
+      forget: false,
+      forgetAll: false,
+      exportMemories: false,
+      importMemories: false,
+    });
+
+    this.loadMemories = jest.fn().mockResolvedValue(undefined);
+    this.search = jest.fn().mockReturnValue([]);
+    this.remember = jest.fn();
+    this.updateMemory = jest.fn().mockResolvedValue(undefined);
+    this.forget = jest.fn().mockResolvedValue(undefined);
+    this.forgetAll = jest.fn().mockResolvedValue(undefined);
+    this.exportMemories = jest.fn().mockReturnValue([]);
+    this.importMemories = jest.fn().mockResolvedValue(0);
+  }
+
+  memoriesFor(palId: string): PalMemoryEntry[] {
+    return this.memories.filter(memory => memory.palId === palId);
+  }
+}
+
+export const mockPalMemoryStore = new MockPalMemoryStore();
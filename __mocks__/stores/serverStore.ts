@@ -1,6 +1,11 @@
 import {makeAutoObservable, observable} from 'mobx';
 
-import {RemoteModelCaps, ServerConfig} from '../../src/utils/types';
+import {
+  ModelGroup,
+  RemoteModelCaps,
+  ServerConfig,
+  ServerHealth,
+} from '../../src/utils/types';
 import {ReasoningCapability} from '../../src/utils/reasoningCapability';
 import {RemoteModelInfo} from '../../src/api/openai';
 import {deriveListCapsMap} from '../../src/utils/listCaps';
@@ -20,6 +25,8 @@ class MockServerStore {
   userSelectedModels: Array<{serverId: string; remoteModelId: string}> = [];
   remoteReasoning: Record<string, ReasoningCapability> = {};
   remoteCaps: Record<string, RemoteModelCaps> = {};
+  modelGroups: Record<string, ModelGroup> = {};
+  serverHealth: Record<string, ServerHealth> = {};
   isLoading = false;
   error: string | null = null;
   privacyNoticeAcknowledged = false;
@@ -42,6 +49,10 @@ class MockServerStore {
   getUserSelectedModelsForServer: jest.Mock;
   recordRemoteReasoningObserved: jest.Mock;
   setRemoteReasoningOverride: jest.Mock;
+  setModelGroup: jest.Mock;
+  removeModelGroup: jest.Mock;
+  checkServerHealth: jest.Mock;
+  recordServerFailure: jest.Mock;
 
   constructor() {
     makeAutoObservable(this, {
@@ -63,6 +74,10 @@ class MockServerStore {
       getUserSelectedModelsForServer: false,
       recordRemoteReasoningObserved: false,
       setRemoteReasoningOverride: false,
+      setModelGroup: false,
+      removeModelGroup: false,
+      checkServerHealth: false,
+      recordServerFailure: false,
     });
     this.addServer = jest.fn().mockReturnValue('mock-server-id');
     this.updateServer = jest.fn();
@@ -84,6 +99,12 @@ class MockServerStore {
     this.getUserSelectedModelsForServer = jest.fn().mockReturnValue([]);
     this.recordRemoteReasoningObserved = jest.fn();
     this.setRemoteReasoningOverride = jest.fn();
+    this.setModelGroup = jest.fn();
+    this.removeModelGroup = jest.fn();
+    this.checkServerHealth = jest
+      .fn()
+      .mockResolvedValue({ok: true, latencyMs: 20, checkedAt: 0});
+    this.recordServerFailure = jest.fn();
   }
 }
 
@@ -26,6 +26,7 @@ export const mockUiStore = {
   l10n: l10n.en,
   setValue: jest.fn(),
   displayMemUsage: false,
+  iOSBackgroundDownloading: true,
   setAutoNavigateToChat: jest.fn(),
   setColorScheme: jest.fn(),
   setDisplayMemUsage: jest.fn(),
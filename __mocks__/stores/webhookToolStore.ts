@@ -0,0 +1,49 @@
+import {makeAutoObservable} from 'mobx';
+
+import {WebhookToolConfig} from '../../src/utils/types';
+
+class MockWebhookToolStore {
+  tools: WebhookToolConfig[] = [];
+
+  isNameAvailable: jest.Mock;
+  addTool: jest.Mock;
+  updateTool: jest.Mock;
+  removeTool: jest.Mock;
+  exportTools: jest.Mock;
+  importableTools: jest.Mock;
+  importTools: jest.Mock;
+  setSecrets: jest.Mock;
+  getSecrets: jest.Mock;
+  removeSecrets: jest.Mock;
+  registerAll: jest.Mock;
+
+  constructor() {
+    makeAutoObservable(this, {
+      isNameAvailable: false,
+      addTool: false,
+      updateTool: false,
+      removeTool: false,
+      exportTools: false,
+      importableTools: false,
+      importTools: false,
+      setSecrets: false,
+      getSecrets: false,
+      removeSecrets: false,
+      registerAll: false,
+    });
+
+    this.isNameAvailable = jest.fn().mockReturnValue(true);
+    this.addTool = jest.fn().mockResolvedValue('webhook-new');
+    this.updateTool = jest.fn().mockResolvedValue(undefined);
+    this.removeTool = jest.fn().mockResolvedValue(undefined);
+    this.exportTools = jest.fn().mockReturnValue([]);
+    this.importableTools = jest.fn((tools: unknown[]) => tools);
+    this.importTools = jest.fn().mockResolvedValue(0);
+    this.setSecrets = jest.fn().mockResolvedValue(undefined);
+    this.getSecrets = jest.fn().mockResolvedValue({});
+    this.removeSecrets = jest.fn().mockResolvedValue(undefined);
+    this.registerAll = jest.fn();
+  }
+}
+
+export const mockWebhookToolStore = new MockWebhookToolStore();
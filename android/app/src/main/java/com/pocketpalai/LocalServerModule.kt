@@ -0,0 +1,384 @@
+package com.pocketpal
+
+import android.util.Log
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.WritableMap
+import com.facebook.react.module.annotations.ReactModule
+import com.facebook.react.modules.core.DeviceEventManagerModule
+import com.pocketpal.specs.NativeLocalServerSpec
+import org.json.JSONObject
+import java.io.BufferedInputStream
+import java.io.ByteArrayOutputStream
+import java.io.InputStream
+import java.net.Inet4Address
+import java.net.InetSocketAddress
+import java.net.NetworkInterface
+import java.net.ServerSocket
+import java.net.Socket
+import java.security.MessageDigest
+import java.util.UUID
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.ExecutorService
+import java.util.concurrent.Executors
+import java.util.concurrent.TimeUnit
+
+/**
+ * Minimal HTTP/1.1 listener for the OpenAI-compatible local server. Requests
+ * are read whole and handed to JS; JS answers through sendResponse or the
+ * stream methods. Every response closes its connection, so streamed bodies
+ * need neither a length nor chunked encoding. Requests without the API key
+ * are refused before their body is read.
+ */
+@ReactModule(name = NativeLocalServerSpec.NAME)
+class LocalServerModule(reactContext: ReactApplicationContext) :
+    NativeLocalServerSpec(reactContext) {
+
+  companion object {
+    private const val TAG = "LocalServerModule"
+    private const val MAX_HEADER_BYTES = 64 * 1024
+    private const val MAX_BODY_BYTES = 2 * 1024 * 1024
+    // A streamed response holds its connection thread until it ends.
+    private const val MAX_CONNECTIONS = 16
+    // Time a client has to send its whole request, head and body together
+    private const val READ_TIMEOUT_MS = 30_000L
+    private const val UNAUTHORIZED_BODY =
+        "{\"error\":{\"message\":\"Invalid API key\",\"type\":\"authentication_error\"," +
+            "\"param\":null,\"code\":\"invalid_api_key\"}}"
+  }
+
+  private var serverSocket: ServerSocket? = null
+  private val connections = ConcurrentHashMap<String, Socket>()
+  private var connectionPool: ExecutorService? = null
+  @Volatile private var apiKey = ""
+  // Writes are serialized so chunks go out in the order JS sent them.
+  private val writer = Executors.newSingleThreadExecutor()
+  // Closes connections that are still sending their request at the deadline.
+  private val readDeadlines = Executors.newSingleThreadScheduledExecutor()
+
+  override fun addListener(eventName: String) {}
+
+  override fun removeListeners(count: Double) {}
+
+  override fun start(port: Double, apiKey: String, promise: Promise) {
+    if (serverSocket != null) {
+      promise.reject("ALREADY_RUNNING", "The local server is already running")
+      return
+    }
+    this.apiKey = apiKey
+    try {
+      val socket = ServerSocket()
+      socket.reuseAddress = true
+      socket.bind(InetSocketAddress(port.toInt()))
+      serverSocket = socket
+      val pool = Executors.newFixedThreadPool(MAX_CONNECTIONS)
+      connectionPool = pool
+      Thread({ acceptLoop(socket, pool) }, "LocalServerAccept").start()
+
+      val result = Arguments.createMap()
+      result.putDouble("port", socket.localPort.toDouble())
+      result.putArray("addresses", Arguments.fromList(lanAddresses()))
+      promise.resolve(result)
+    } catch (e: Exception) {
+      Log.e(TAG, "Failed to start on port $port", e)
+      serverSocket = null
+      promise.reject("START_FAILED", e.message, e)
+    }
+  }
+
+  override fun stop(promise: Promise) {
+    closeAll()
+    promise.resolve(null)
+  }
+
+  override fun setApiKey(apiKey: String, promise: Promise) {
+    this.apiKey = apiKey
+    promise.resolve(null)
+  }
+
+  override fun sendResponse(
+      requestId: String,
+      status: Double,
+      headers: String,
+      body: String,
+      promise: Promise
+  ) {
+    val socket = connections.remove(requestId)
+    if (socket == null) {
+      promise.resolve(null)
+      return
+    }
+    writer.execute {
+      try {
+        val bytes = body.toByteArray(Charsets.UTF_8)
+        val head = statusAndHeaders(status.toInt(), headers, bytes.size.toLong())
+        socket.getOutputStream().apply {
+          write(head)
+          write(bytes)
+          flush()
+        }
+      } catch (e: Exception) {
+        Log.w(TAG, "Failed to send response for $requestId", e)
+      } finally {
+        closeQuietly(socket)
+        promise.resolve(null)
+      }
+    }
+  }
+
+  override fun beginStream(requestId: String, status: Double, headers: String, promise: Promise) {
+    val socket = connections[requestId]
+    if (socket == null) {
+      promise.resolve(null)
+      return
+    }
+    write(requestId, socket, statusAndHeaders(status.toInt(), headers, null), promise)
+  }
+
+  override fun writeStream(requestId: String, chunk: String, promise: Promise) {
+    val socket = connections[requestId]
+    if (socket == null) {
+      promise.resolve(null)
+      return
+    }
+    write(requestId, socket, chunk.toByteArray(Charsets.UTF_8), promise)
+  }
+
+  override fun endStream(requestId: String, promise: Promise) {
+    val socket = connections.remove(requestId)
+    writer.execute {
+      socket?.let { closeQuietly(it) }
+      promise.resolve(null)
+    }
+  }
+
+  override fun invalidate() {
+    closeAll()
+    writer.shutdown()
+    readDeadlines.shutdownNow()
+    super.invalidate()
+  }
+
+  private fun write(requestId: String, socket: Socket, bytes: ByteArray, promise: Promise) {
+    writer.execute {
+      try {
+        socket.getOutputStream().apply {
+          write(bytes)
+          flush()
+        }
+        promise.resolve(null)
+      } catch (e: Exception) {
+        if (connections.remove(requestId) != null) {
+          closeQuietly(socket)
+          sendClientClosed(requestId)
+        }
+        promise.reject("WRITE_FAILED", e.message, e)
+      }
+    }
+  }
+
+  private fun acceptLoop(server: ServerSocket, pool: ExecutorService) {
+    while (!server.isClosed) {
+      try {
+        val socket = server.accept()
+        pool.execute { handleConnection(socket) }
+      } catch (e: Exception) {
+        if (!server.isClosed) {
+          Log.w(TAG, "Accept failed", e)
+        }
+      }
+    }
+  }
+
+  private fun handleConnection(socket: Socket) {
+    val requestId = UUID.randomUUID().toString()
+    // A socket read timeout would only bound the gap between bytes, so a
+    // client trickling its request could hold a pool thread indefinitely.
+    val deadline = readDeadlines.schedule(
+        { closeQuietly(socket) }, READ_TIMEOUT_MS, TimeUnit.MILLISECONDS)
+    try {
+      val input = BufferedInputStream(socket.getInputStream())
+      val head = readHead(input) ?: return closeQuietly(socket)
+      val lines = head.split("\r\n")
+      val requestLine = lines[0].split(" ")
+      if (requestLine.size < 3) {
+        return rejectConnection(socket, 400, "Bad Request")
+      }
+
+      val headers = JSONObject()
+      for (line in lines.drop(1)) {
+        val colon = line.indexOf(':')
+        if (colon > 0) {
+          headers.put(line.substring(0, colon).trim().lowercase(), line.substring(colon + 1).trim())
+        }
+      }
+      if (requestLine[0] != "OPTIONS" && !isAuthorized(headers.optString("authorization"))) {
+        return rejectConnection(socket, 401, "Unauthorized", UNAUTHORIZED_BODY)
+      }
+      if (headers.optString("transfer-encoding").isNotEmpty()) {
+        return rejectConnection(socket, 411, "Length Required")
+      }
+      val length = headers.optString("content-length").toLongOrNull() ?: 0L
+      if (length > MAX_BODY_BYTES) {
+        return rejectConnection(socket, 413, "Payload Too Large")
+      }
+      val body = readBody(input, length.toInt())
+          ?: return closeQuietly(socket)
+
+      // The response may take as long as the completion does.
+      if (!deadline.cancel(false)) {
+        return
+      }
+      connections[requestId] = socket
+      val event = Arguments.createMap().apply {
+        putString("requestId", requestId)
+        putString("method", requestLine[0])
+        putString("path", requestLine[1])
+        putString("headers", headers.toString())
+        putString("body", body)
+      }
+      sendEvent("onLocalServerRequest", event)
+
+      // Nothing more is expected from the client; reading until EOF is how a
+      // disconnect shows up while the response is still being produced.
+      while (input.read() != -1) {
+        // Discard pipelined bytes.
+      }
+    } catch (e: Exception) {
+      // Socket closed, by either side.
+    } finally {
+      deadline.cancel(false)
+    }
+    if (connections.remove(requestId) != null) {
+      closeQuietly(socket)
+      sendClientClosed(requestId)
+    }
+  }
+
+  /** Reads up to the blank line ending the headers, or null on EOF/oversize. */
+  private fun readHead(input: InputStream): String? {
+    val buffer = ByteArrayOutputStream()
+    var matched = 0
+    val terminator = byteArrayOf('\r'.code.toByte(), '\n'.code.toByte(), '\r'.code.toByte(), '\n'.code.toByte())
+    while (matched < terminator.size) {
+      val byte = input.read()
+      if (byte == -1 || buffer.size() > MAX_HEADER_BYTES) {
+        return null
+      }
+      buffer.write(byte)
+      matched = if (byte.toByte() == terminator[matched]) matched + 1
+          else if (byte.toByte() == terminator[0]) 1
+          else 0
+    }
+    return buffer.toString("UTF-8").trimEnd()
+  }
+
+  private fun readBody(input: InputStream, length: Int): String? {
+    val bytes = ByteArray(length)
+    var read = 0
+    while (read < length) {
+      val count = input.read(bytes, read, length - read)
+      if (count == -1) {
+        return null
+      }
+      read += count
+    }
+    return String(bytes, Charsets.UTF_8)
+  }
+
+  private fun isAuthorized(header: String): Boolean {
+    if (apiKey.isEmpty() || !header.startsWith("bearer ", ignoreCase = true)) {
+      return false
+    }
+    val token = header.substring("bearer ".length).trim()
+    return MessageDigest.isEqual(token.toByteArray(Charsets.UTF_8), apiKey.toByteArray(Charsets.UTF_8))
+  }
+
+  private fun rejectConnection(socket: Socket, status: Int, reason: String, body: String = "") {
+    try {
+      val bytes = body.toByteArray(Charsets.UTF_8)
+      val head = StringBuilder("HTTP/1.1 $status $reason\r\n")
+      if (body.isNotEmpty()) {
+        head.append("Content-Type: application/json\r\nAccess-Control-Allow-Origin: *\r\n")
+      }
+      head.append("Content-Length: ${bytes.size}\r\nConnection: close\r\n\r\n")
+      socket.getOutputStream().apply {
+        write(head.toString().toByteArray())
+        write(bytes)
+        flush()
+      }
+    } catch (e: Exception) {
+      // Client already gone.
+    }
+    closeQuietly(socket)
+  }
+
+  private fun statusAndHeaders(status: Int, headersJson: String, contentLength: Long?): ByteArray {
+    val builder = StringBuilder("HTTP/1.1 $status ${reasonPhrase(status)}\r\n")
+    try {
+      val headers = JSONObject(headersJson)
+      headers.keys().forEach { name -> builder.append("$name: ${headers.getString(name)}\r\n") }
+    } catch (e: Exception) {
+      Log.w(TAG, "Ignoring malformed headers", e)
+    }
+    contentLength?.let { builder.append("Content-Length: $it\r\n") }
+    builder.append("Connection: close\r\n\r\n")
+    return builder.toString().toByteArray(Charsets.UTF_8)
+  }
+
+  private fun reasonPhrase(status: Int): String = when (status) {
+    200 -> "OK"
+    204 -> "No Content"
+    400 -> "Bad Request"
+    401 -> "Unauthorized"
+    404 -> "Not Found"
+    405 -> "Method Not Allowed"
+    500 -> "Internal Server Error"
+    503 -> "Service Unavailable"
+    else -> "Status"
+  }
+
+  private fun lanAddresses(): List<String> {
+    return try {
+      NetworkInterface.getNetworkInterfaces().toList()
+          .filter { it.isUp && !it.isLoopback }
+          .flatMap { it.inetAddresses.toList() }
+          .filterIsInstance<Inet4Address>()
+          .map { it.hostAddress ?: "" }
+          .filter { it.isNotEmpty() }
+    } catch (e: Exception) {
+      Log.w(TAG, "Failed to list network interfaces", e)
+      emptyList()
+    }
+  }
+
+  private fun closeAll() {
+    serverSocket?.let { closeQuietly(it) }
+    serverSocket = null
+    connections.values.forEach { closeQuietly(it) }
+    connections.clear()
+    connectionPool?.shutdownNow()
+    connectionPool = null
+  }
+
+  private fun closeQuietly(closeable: java.io.Closeable) {
+    try {
+      closeable.close()
+    } catch (e: Exception) {
+      // Already closed.
+    }
+  }
+
+  private fun sendClientClosed(requestId: String) {
+    sendEvent("onLocalServerClientClosed", Arguments.createMap().apply {
+      putString("requestId", requestId)
+    })
+  }
+
+  private fun sendEvent(eventName: String, params: WritableMap) {
+    reactApplicationContext
+        .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+        .emit(eventName, params)
+  }
+}
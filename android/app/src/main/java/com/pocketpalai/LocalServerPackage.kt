@@ -0,0 +1,35 @@
+package com.pocketpal
+
+import com.facebook.react.TurboReactPackage
+import com.facebook.react.bridge.NativeModule
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.module.model.ReactModuleInfo
+import com.facebook.react.module.model.ReactModuleInfoProvider
+import com.pocketpal.specs.NativeLocalServerSpec
+
+class LocalServerPackage : TurboReactPackage() {
+  override fun getModule(name: String, reactContext: ReactApplicationContext): NativeModule? {
+    return if (name == NativeLocalServerSpec.NAME) {
+      LocalServerModule(reactContext)
+    } else {
+      null
+    }
+  }
+
+  override fun getReactModuleInfoProvider(): ReactModuleInfoProvider {
+    return ReactModuleInfoProvider {
+      mapOf(
+        NativeLocalServerSpec.NAME to ReactModuleInfo(
+          NativeLocalServerSpec.NAME,
+          NativeLocalServerSpec.NAME,
+          false, // canOverrideExistingModule
+          false, // needsEagerInit
+          false, // hasConstants
+          false, // isCxxModule
+          true   // isTurboModule
+        )
+      )
+    }
+  }
+}
+
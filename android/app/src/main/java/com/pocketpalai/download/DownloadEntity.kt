@@ -16,7 +16,8 @@ data class DownloadEntity(
     val networkType: NetworkType,
     val createdAt: Long,
     val error: String? = null,
-    val authToken: String? = null
+    val authToken: String? = null,
+    val headers: String? = null // JSON object of extra request headers
 )
 
 enum class DownloadStatus {
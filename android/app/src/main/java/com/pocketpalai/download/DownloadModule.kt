@@ -9,7 +9,6 @@ import com.facebook.react.modules.core.DeviceEventManagerModule
 import com.pocketpal.specs.NativeDownloadModuleSpec
 import kotlinx.coroutines.*
 import kotlinx.coroutines.flow.first
-import java.io.File
 import java.util.*
 import androidx.concurrent.futures.await
 
@@ -71,6 +70,9 @@ class DownloadModule(reactContext: ReactApplicationContext) : NativeDownloadModu
                     Log.d(TAG, "Authorization token provided for download")
                 }
 
+                // Extra request headers (JSON object) if provided
+                val headers = if (config.hasKey("headers")) config.getString("headers") else null
+
                 val networkType = when (config.getString("networkType")) {
                     "WIFI" -> NetworkType.WIFI
                     else -> NetworkType.ANY
@@ -98,7 +100,8 @@ class DownloadModule(reactContext: ReactApplicationContext) : NativeDownloadModu
                     priority = priority,
                     networkType = networkType,
                     createdAt = System.currentTimeMillis(),
-                    authToken = authToken
+                    authToken = authToken,
+                    headers = headers
                 )
 
                 withContext(Dispatchers.IO) {
@@ -106,7 +109,7 @@ class DownloadModule(reactContext: ReactApplicationContext) : NativeDownloadModu
                     downloadDao.insertDownload(download)
                 }
 
-                val workRequest = DownloadWorker.createWorkRequest(downloadId, progressInterval)
+                val workRequest = DownloadWorker.createWorkRequest(downloadId, progressInterval, networkType)
                 Log.d(TAG, "Created work request: ${workRequest.id}")
                 
                 createAndRegisterObserver(downloadId)
@@ -238,7 +241,7 @@ class DownloadModule(reactContext: ReactApplicationContext) : NativeDownloadModu
                         val workInfo = workManager.getWorkInfosForUniqueWork(workName).await().firstOrNull()
                         if (workInfo == null || workInfo.state.isFinished) {
                             Log.d(TAG, "Creating new work request for: $downloadId")
-                            val workRequest = DownloadWorker.createWorkRequest(downloadId)
+                            val workRequest = DownloadWorker.createWorkRequest(downloadId, networkType = download.networkType)
                             workManager.enqueueUniqueWork(
                                 workName,
                                 androidx.work.ExistingWorkPolicy.REPLACE,
@@ -269,7 +272,7 @@ class DownloadModule(reactContext: ReactApplicationContext) : NativeDownloadModu
                         Log.d(TAG, "Updating status to QUEUED for: $downloadId")
                         downloadDao.updateStatus(downloadId, DownloadStatus.QUEUED)
                         Log.d(TAG, "Creating new work request for: $downloadId")
-                        val workRequest = DownloadWorker.createWorkRequest(downloadId)
+                        val workRequest = DownloadWorker.createWorkRequest(downloadId, networkType = download.networkType)
                         workManager.enqueue(workRequest)
                     } else {
                         Log.w(TAG, "No download found to retry: $downloadId")
@@ -293,13 +296,9 @@ class DownloadModule(reactContext: ReactApplicationContext) : NativeDownloadModu
                     if (download != null) {
                         Log.d(TAG, "Updating status to CANCELLED for download: $downloadId")
                         downloadDao.updateStatus(downloadId, DownloadStatus.CANCELLED, "Download cancelled by user")
-                        
-                        // Clean up the partial download file
-                        val file = File(download.destination)
-                        if (file.exists()) {
-                            Log.d(TAG, "Deleting partial download file: ${file.absolutePath}")
-                            file.delete()
-                        }
+
+                        // The partial file is kept so a later download of the same
+                        // file resumes from it; JS deletes it with the model.
                     }
                 }
 
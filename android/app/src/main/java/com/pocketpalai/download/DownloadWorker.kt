@@ -7,6 +7,7 @@ import androidx.work.*
 import kotlinx.coroutines.Dispatchers
 import kotlinx.coroutines.withContext
 import okhttp3.*
+import org.json.JSONObject
 import java.io.File
 import java.io.FileOutputStream
 import java.io.IOException
@@ -85,6 +86,14 @@ class DownloadWorker(
                         addHeader("Range", range)
                     }
                     
+                    // Add extra headers, e.g. the auth of a model imported from a URL
+                    download.headers?.let { json ->
+                        val headers = JSONObject(json)
+                        headers.keys().forEach { name ->
+                            addHeader(name, headers.getString(name))
+                        }
+                    }
+
                     // Add authorization header if token is available
                     download.authToken?.let { token ->
                         Log.d(TAG, "Adding Authorization header for authenticated download")
@@ -270,10 +279,19 @@ class DownloadWorker(
         const val KEY_PROGRESS_INTERVAL = "progress_interval"
         const val DEFAULT_PROGRESS_INTERVAL = 1000L // 1 second default
 
-        fun createWorkRequest(downloadId: String, progressInterval: Long = DEFAULT_PROGRESS_INTERVAL): OneTimeWorkRequest {
-            Log.d(TAG, "Creating work request for download ID: $downloadId with progress interval: $progressInterval ms")
+        fun createWorkRequest(
+            downloadId: String,
+            progressInterval: Long = DEFAULT_PROGRESS_INTERVAL,
+            networkType: NetworkType = NetworkType.ANY
+        ): OneTimeWorkRequest {
+            Log.d(TAG, "Creating work request for download ID: $downloadId with progress interval: $progressInterval ms, network: $networkType")
+            // WIFI stands for any unmetered network.
+            val requiredNetwork = when (networkType) {
+                NetworkType.WIFI -> androidx.work.NetworkType.UNMETERED
+                NetworkType.ANY -> androidx.work.NetworkType.CONNECTED
+            }
             val constraints = Constraints.Builder()
-                .setRequiredNetworkType(androidx.work.NetworkType.CONNECTED)
+                .setRequiredNetworkType(requiredNetwork)
                 .build()
 
             return OneTimeWorkRequestBuilder<DownloadWorker>()
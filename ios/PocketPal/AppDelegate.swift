@@ -40,6 +40,17 @@ class AppDelegate: UIResponder, UIApplicationDelegate {
     return true
   }
 
+  // MARK: - Background Downloads
+
+  func application(
+    _ application: UIApplication,
+    handleEventsForBackgroundURLSession identifier: String,
+    completionHandler: @escaping () -> Void
+  ) {
+    // DownloadModule calls this once the session's events are handled
+    DownloadModule.backgroundCompletionHandlers[identifier] = completionHandler
+  }
+
   // MARK: - Deep Linking Support
 
   func application(
@@ -290,6 +290,12 @@ class PalDataProvider {
             return newPath
         }
 
+        // For URL imports, files live under the model's id
+        if origin == "url" {
+            let modelId = dict["id"] as? String ?? "unknown"
+            return documentsPath.appendingPathComponent("models/url/\(modelId)/\(filename)").path
+        }
+
         // Fallback (shouldn't reach here)
         print("[PalDataProvider] Warning: Unexpected model origin, using fallback path")
         let fallbackPath = documentsPath.appendingPathComponent(filename).path
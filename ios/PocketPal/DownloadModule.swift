@@ -0,0 +1,541 @@
+//
+//  DownloadModule.swift
+//  PocketPal
+//
+//  iOS side of NativeDownloadModule. Each file is one URLSession download
+//  task writing the `.part` destination JS passes in: a fresh file is
+//  moved there when the task finishes, and with a partial file in place
+//  the task asks for the rest (Range from its size to the end) and the
+//  bytes are appended natively. A task that stops early leaves its resume
+//  data next to the destination, so the next start carries on from there.
+//
+
+import Foundation
+import React
+
+@objc(DownloadModule)
+class DownloadModule: RCTEventEmitter, URLSessionDownloadDelegate {
+
+    // Set by the app delegate when the system wakes the app for a
+    // background session; called once that session's events are handled.
+    static var backgroundCompletionHandlers: [String: () -> Void] = [:]
+
+    private static let backgroundIdentifierPrefix = "com.pocketpal.download."
+    private static let appendChunkBytes = 8 * 1024 * 1024
+
+    private static let userAgent: String = {
+        let version =
+            Bundle.main.object(forInfoDictionaryKey: "CFBundleShortVersionString") as? String ?? ""
+        return "PocketPal/\(version) (ai.pocketpal)"
+    }()
+
+    // Kept as the task description, so a background task still maps to its
+    // download after the app is relaunched.
+    private struct Download: Codable {
+        let id: String
+        let url: String
+        let destination: String
+        // Size of the partial file when the task started
+        let offset: Int64
+        let progressInterval: Double
+    }
+
+    private struct Options {
+        let url: URL
+        let destination: String
+        let headers: [String: String]
+        let background: Bool
+        let cellular: Bool
+        let progressInterval: Double
+    }
+
+    private let queue = DispatchQueue(label: "com.pocketpal.download")
+    private lazy var delegateQueue: OperationQueue = {
+        let operationQueue = OperationQueue()
+        operationQueue.maxConcurrentOperationCount = 1
+        operationQueue.underlyingQueue = queue
+        return operationQueue
+    }()
+    // Left once the tasks of a previous launch are known.
+    private let restored = DispatchGroup()
+    private var hasListeners = false
+
+    // Only touched on `queue`.
+    private var sessions: [String: URLSession] = [:]
+    private var tasks: [String: URLSessionDownloadTask] = [:]
+    // Requests of the downloads started by this launch, to start them again.
+    private var options: [String: Options] = [:]
+    private var lastProgressAt: [String: Date] = [:]
+    // Tasks stopped on purpose: no failure event.
+    private var stoppedTasks = Set<ObjectIdentifier>()
+    // Files a finished task could not put in place.
+    private var failures: [ObjectIdentifier: String] = [:]
+
+    override init() {
+        super.init()
+        restored.enter()
+        queue.async {
+            self.restoreBackgroundTasks()
+        }
+    }
+
+    @objc
+    override static func requiresMainQueueSetup() -> Bool {
+        return false
+    }
+
+    override func supportedEvents() -> [String]! {
+        return ["onDownloadProgress", "onDownloadComplete", "onDownloadFailed"]
+    }
+
+    override func startObserving() {
+        hasListeners = true
+    }
+
+    override func stopObserving() {
+        hasListeners = false
+    }
+
+    @objc
+    func startDownload(
+        _ url: String,
+        config: NSDictionary,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        guard let fromUrl = URL(string: url), let destination = config["destination"] as? String
+        else {
+            reject("invalid_config", "A download needs a url and a destination", nil)
+            return
+        }
+        var headers = ["User-Agent": DownloadModule.userAgent]
+        if let json = (config["headers"] as? String)?.data(using: .utf8),
+           let extra = (try? JSONSerialization.jsonObject(with: json)) as? [String: String] {
+            headers.merge(extra) { _, value in value }
+        }
+        if let token = config["authToken"] as? String, !token.isEmpty {
+            headers["Authorization"] = "Bearer \(token)"
+        }
+        let options = Options(
+            url: fromUrl,
+            destination: destination,
+            headers: headers,
+            background: config["background"] as? Bool ?? true,
+            cellular: config["networkType"] as? String != "WIFI",
+            progressInterval: config["progressInterval"] as? Double ?? 1000)
+
+        queue.async {
+            let id = UUID().uuidString
+            self.options[id] = options
+            self.launch(id)
+            resolve(["downloadId": id])
+        }
+    }
+
+    @objc
+    func pauseDownload(
+        _ downloadId: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            resolve(self.stop(downloadId))
+        }
+    }
+
+    @objc
+    func resumeDownload(
+        _ downloadId: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            resolve(self.relaunch(downloadId))
+        }
+    }
+
+    @objc
+    func retryDownload(
+        _ downloadId: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            resolve(self.relaunch(downloadId))
+        }
+    }
+
+    @objc
+    func cancelDownload(
+        _ downloadId: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            self.options.removeValue(forKey: downloadId)
+            resolve(self.stop(downloadId))
+        }
+    }
+
+    @objc
+    func getActiveDownloads(
+        _ resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        restored.notify(queue: queue) {
+            resolve(self.tasks.compactMap { id, task -> [String: Any]? in
+                guard let download = DownloadModule.download(of: task) else {
+                    return nil
+                }
+                let base = DownloadModule.appends(task, download) ? download.offset : 0
+                let expected = task.countOfBytesExpectedToReceive
+                return [
+                    "id": id,
+                    "url": download.url,
+                    "destination": download.destination,
+                    "progress": expected > 0
+                        ? Double(base + task.countOfBytesReceived) / Double(base + expected) * 100
+                        : 0,
+                    "status": task.state == .suspended ? "PAUSED" : "RUNNING",
+                ]
+            })
+        }
+    }
+
+    @objc
+    func reattachDownloadObserver(
+        _ downloadId: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        // Session events reach JS whenever it listens; nothing to attach.
+        restored.notify(queue: queue) {
+            resolve(self.tasks[downloadId] != nil)
+        }
+    }
+
+    @objc
+    func logDownloadDatabase(
+        _ resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            for (id, task) in self.tasks {
+                NSLog(
+                    "DownloadModule: %@ %@ %lld/%lld bytes", id,
+                    task.originalRequest?.url?.absoluteString ?? "",
+                    task.countOfBytesReceived, task.countOfBytesExpectedToReceive)
+            }
+            resolve(true)
+        }
+    }
+
+    // MARK: - Tasks (on `queue`)
+
+    private func launch(_ id: String) {
+        guard let options = options[id] else {
+            return
+        }
+        let offset = DownloadModule.fileSize(options.destination)
+        let session = self.session(background: options.background, cellular: options.cellular)
+        let task: URLSessionDownloadTask
+        if let resumeData = takeResumeData(
+            url: options.url.absoluteString, destination: options.destination, offset: offset) {
+            task = session.downloadTask(withResumeData: resumeData)
+        } else {
+            var request = URLRequest(url: options.url)
+            for (name, value) in options.headers {
+                request.setValue(value, forHTTPHeaderField: name)
+            }
+            if offset > 0 {
+                request.setValue("bytes=\(offset)-", forHTTPHeaderField: "Range")
+            }
+            task = session.downloadTask(with: request)
+        }
+        let download = Download(
+            id: id,
+            url: options.url.absoluteString,
+            destination: options.destination,
+            offset: offset,
+            progressInterval: options.progressInterval)
+        task.taskDescription = (try? JSONEncoder().encode(download))
+            .flatMap { String(data: $0, encoding: .utf8) }
+        tasks[id] = task
+        task.resume()
+    }
+
+    private func relaunch(_ id: String) -> Bool {
+        guard options[id] != nil, tasks[id] == nil else {
+            return false
+        }
+        launch(id)
+        return true
+    }
+
+    // Stops a task on purpose, keeping what it fetched for the next start.
+    private func stop(_ id: String) -> Bool {
+        guard let task = tasks.removeValue(forKey: id),
+              let download = DownloadModule.download(of: task)
+        else {
+            return false
+        }
+        stoppedTasks.insert(ObjectIdentifier(task))
+        task.cancel { resumeData in
+            guard let resumeData = resumeData else {
+                return
+            }
+            self.queue.async {
+                self.saveResumeData(resumeData, for: download)
+            }
+        }
+        return true
+    }
+
+    private func session(background: Bool, cellular: Bool) -> URLSession {
+        let key = "\(background ? "background" : "foreground").\(cellular ? "any" : "unmetered")"
+        if let session = sessions[key] {
+            return session
+        }
+        let configuration = background
+            ? URLSessionConfiguration.background(
+                withIdentifier: DownloadModule.backgroundIdentifierPrefix + key)
+            : URLSessionConfiguration.default
+        // Unmetered only keeps off cellular, personal hotspots and Low Data
+        // Mode; the task waits for another network instead of failing.
+        configuration.allowsCellularAccess = cellular
+        configuration.allowsExpensiveNetworkAccess = cellular
+        configuration.allowsConstrainedNetworkAccess = cellular
+        configuration.waitsForConnectivity = true
+        if background {
+            configuration.sessionSendsLaunchEvents = true
+        }
+        let session = URLSession(
+            configuration: configuration, delegate: self, delegateQueue: delegateQueue)
+        sessions[key] = session
+        return session
+    }
+
+    // Background tasks outlive the app; picks up those of a previous launch
+    // so their events reach JS again.
+    private func restoreBackgroundTasks() {
+        let sessionTasks = DispatchGroup()
+        for cellular in [true, false] {
+            sessionTasks.enter()
+            session(background: true, cellular: cellular).getAllTasks { found in
+                self.queue.async {
+                    for case let task as URLSessionDownloadTask in found {
+                        if let download = DownloadModule.download(of: task),
+                           self.tasks[download.id] == nil {
+                            self.tasks[download.id] = task
+                        }
+                    }
+                    sessionTasks.leave()
+                }
+            }
+        }
+        sessionTasks.notify(queue: queue) {
+            self.restored.leave()
+        }
+    }
+
+    private func send(_ name: String, _ body: [String: Any]) {
+        guard hasListeners else {
+            return
+        }
+        sendEvent(withName: name, body: body)
+    }
+
+    // MARK: - Resume data (on `queue`)
+
+    private static func resumePath(_ destination: String) -> String {
+        return "\(destination).resume"
+    }
+
+    private func saveResumeData(_ data: Data, for download: Download) {
+        let record: [String: Any] = [
+            "url": download.url,
+            "offset": NSNumber(value: download.offset),
+            "data": data,
+        ]
+        guard let plist = try? PropertyListSerialization.data(
+            fromPropertyList: record, format: .binary, options: 0)
+        else {
+            return
+        }
+        try? plist.write(
+            to: URL(fileURLWithPath: DownloadModule.resumePath(download.destination)),
+            options: .atomic)
+    }
+
+    // Resume data only fits while the partial file is as its task left it.
+    private func takeResumeData(url: String, destination: String, offset: Int64) -> Data? {
+        let path = DownloadModule.resumePath(destination)
+        guard let plist = FileManager.default.contents(atPath: path) else {
+            return nil
+        }
+        try? FileManager.default.removeItem(atPath: path)
+        guard let record = (try? PropertyListSerialization.propertyList(from: plist, format: nil))
+                as? [String: Any],
+              record["url"] as? String == url,
+              (record["offset"] as? NSNumber)?.int64Value == offset
+        else {
+            return nil
+        }
+        return record["data"] as? Data
+    }
+
+    // MARK: - URLSessionDownloadDelegate (on `queue`)
+
+    func urlSession(
+        _ session: URLSession,
+        downloadTask: URLSessionDownloadTask,
+        didWriteData bytesWritten: Int64,
+        totalBytesWritten: Int64,
+        totalBytesExpectedToWrite: Int64
+    ) {
+        guard let download = DownloadModule.download(of: downloadTask) else {
+            return
+        }
+        let now = Date()
+        if let last = lastProgressAt[download.id],
+           now.timeIntervalSince(last) * 1000 < download.progressInterval {
+            return
+        }
+        lastProgressAt[download.id] = now
+
+        let base = DownloadModule.appends(downloadTask, download) ? download.offset : 0
+        let written = base + totalBytesWritten
+        let total = totalBytesExpectedToWrite > 0 ? base + totalBytesExpectedToWrite : 0
+        send("onDownloadProgress", [
+            "downloadId": download.id,
+            "bytesWritten": Double(written),
+            "totalBytes": Double(total),
+            "progress": total > 0 ? Double(written) / Double(total) * 100 : 0,
+        ])
+    }
+
+    func urlSession(
+        _ session: URLSession,
+        downloadTask: URLSessionDownloadTask,
+        didFinishDownloadingTo location: URL
+    ) {
+        guard let download = DownloadModule.download(of: downloadTask) else {
+            return
+        }
+        let status = (downloadTask.response as? HTTPURLResponse)?.statusCode ?? 0
+        let destination = URL(fileURLWithPath: download.destination)
+        do {
+            switch status {
+            case 206 where download.offset > 0:
+                try DownloadModule.append(location, to: destination, at: download.offset)
+            case 200, 206:
+                // A 200 is the whole file, also when a range was asked for.
+                try? FileManager.default.removeItem(at: destination)
+                try FileManager.default.moveItem(at: location, to: destination)
+            case 416 where download.offset > 0
+                && DownloadModule.rangeTotal(downloadTask.response) == download.offset:
+                // The partial file already is the whole file, e.g. the app
+                // was not running when its task finished.
+                break
+            case 416:
+                // The partial file no longer fits the file on the server.
+                try? FileManager.default.removeItem(at: destination)
+                failures[ObjectIdentifier(downloadTask)] = "Download failed with status: 416"
+            default:
+                failures[ObjectIdentifier(downloadTask)] = "Download failed with status: \(status)"
+            }
+        } catch {
+            failures[ObjectIdentifier(downloadTask)] = error.localizedDescription
+        }
+    }
+
+    func urlSession(
+        _ session: URLSession,
+        task: URLSessionTask,
+        didCompleteWithError error: Error?
+    ) {
+        guard let download = DownloadModule.download(of: task) else {
+            return
+        }
+        let id = download.id
+        let failure = failures.removeValue(forKey: ObjectIdentifier(task))
+        lastProgressAt.removeValue(forKey: id)
+        // A paused download may already run again as a newer task.
+        if tasks[id] === task {
+            tasks.removeValue(forKey: id)
+        }
+        if let resumeData = (error as NSError?)?.userInfo[NSURLSessionDownloadTaskResumeData]
+            as? Data {
+            saveResumeData(resumeData, for: download)
+        }
+        if stoppedTasks.remove(ObjectIdentifier(task)) != nil {
+            return
+        }
+
+        if let message = error?.localizedDescription ?? failure {
+            send("onDownloadFailed", ["downloadId": id, "error": message])
+            return
+        }
+        options.removeValue(forKey: id)
+        send("onDownloadComplete", ["downloadId": id, "filePath": download.destination])
+    }
+
+    func urlSessionDidFinishEvents(forBackgroundURLSession session: URLSession) {
+        guard let identifier = session.configuration.identifier else {
+            return
+        }
+        DispatchQueue.main.async {
+            DownloadModule.backgroundCompletionHandlers.removeValue(forKey: identifier)?()
+        }
+    }
+
+    // MARK: - Helpers
+
+    private static func download(of task: URLSessionTask) -> Download? {
+        guard let description = task.taskDescription?.data(using: .utf8) else {
+            return nil
+        }
+        return try? JSONDecoder().decode(Download.self, from: description)
+    }
+
+    // Whether the task fetched the rest of its partial file.
+    private static func appends(_ task: URLSessionTask, _ download: Download) -> Bool {
+        return download.offset > 0 && (task.response as? HTTPURLResponse)?.statusCode == 206
+    }
+
+    private static func fileSize(_ path: String) -> Int64 {
+        let attributes = try? FileManager.default.attributesOfItem(atPath: path)
+        return (attributes?[.size] as? NSNumber)?.int64Value ?? 0
+    }
+
+    // Total size from a Content-Range header such as "bytes */1000".
+    private static func rangeTotal(_ response: URLResponse?) -> Int64? {
+        guard let value = (response as? HTTPURLResponse)?.value(forHTTPHeaderField: "Content-Range"),
+              let total = value.split(separator: "/").last
+        else {
+            return nil
+        }
+        return Int64(total.trimmingCharacters(in: .whitespaces))
+    }
+
+    private static func append(_ source: URL, to destination: URL, at offset: Int64) throws {
+        let output = try FileHandle(forWritingTo: destination)
+        defer { try? output.close() }
+        // The range was asked for this size; anything else is another file.
+        guard try output.seekToEnd() == UInt64(offset) else {
+            throw NSError(
+                domain: "DownloadModule", code: 1,
+                userInfo: [NSLocalizedDescriptionKey: "The partial download changed while it was resumed"])
+        }
+        let input = try FileHandle(forReadingFrom: source)
+        defer { try? input.close() }
+        var done = false
+        while !done {
+            try autoreleasepool {
+                let data = try input.read(upToCount: appendChunkBytes) ?? Data()
+                try output.write(contentsOf: data)
+                done = data.isEmpty
+            }
+        }
+    }
+}
@@ -0,0 +1,440 @@
+//
+//  LocalServerModule.swift
+//  PocketPal
+//
+//  Minimal HTTP/1.1 listener for the OpenAI-compatible local server.
+//  Requests are read whole and handed to JS; JS answers through
+//  sendResponse or the stream methods. Every response closes its
+//  connection, so streamed bodies need neither a length nor chunked
+//  encoding. Requests without the API key are refused before their body
+//  is read.
+//
+
+import Foundation
+import Network
+import React
+
+@objc(LocalServerModule)
+class LocalServerModule: RCTEventEmitter {
+
+    private static let maxHeaderBytes = 64 * 1024
+    private static let maxBodyBytes = 2 * 1024 * 1024
+    // Time a client has to send its whole request, head and body together
+    private static let readTimeout: TimeInterval = 30
+    private static let unauthorizedBody =
+        #"{"error":{"message":"Invalid API key","type":"authentication_error","param":null,"code":"invalid_api_key"}}"#
+
+    private var listener: NWListener?
+    // Only touched on `queue`.
+    private var connections: [String: NWConnection] = [:]
+    // Requests still being read
+    private var reading = Set<String>()
+    private var apiKey = ""
+    private let queue = DispatchQueue(label: "com.pocketpal.localserver")
+    private var hasListeners = false
+
+    @objc
+    override static func requiresMainQueueSetup() -> Bool {
+        return false
+    }
+
+    override func supportedEvents() -> [String]! {
+        return ["onLocalServerRequest", "onLocalServerClientClosed"]
+    }
+
+    override func startObserving() {
+        hasListeners = true
+    }
+
+    override func stopObserving() {
+        hasListeners = false
+    }
+
+    @objc
+    func start(
+        _ port: Double,
+        apiKey: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            if self.listener != nil {
+                reject("already_running", "The local server is already running", nil)
+                return
+            }
+            self.apiKey = apiKey
+            guard let nwPort = NWEndpoint.Port(rawValue: UInt16(clamping: Int(port))) else {
+                reject("invalid_port", "Invalid port \(port)", nil)
+                return
+            }
+            let parameters = NWParameters.tcp
+            parameters.allowLocalEndpointReuse = true
+            let listener: NWListener
+            do {
+                listener = try NWListener(using: parameters, on: nwPort)
+            } catch {
+                reject("start_failed", error.localizedDescription, error)
+                return
+            }
+
+            var settled = false
+            listener.stateUpdateHandler = { [weak self] state in
+                switch state {
+                case .ready:
+                    if !settled {
+                        settled = true
+                        resolve([
+                            "port": Int(listener.port?.rawValue ?? nwPort.rawValue),
+                            "addresses": LocalServerModule.lanAddresses(),
+                        ])
+                    }
+                case .failed(let error):
+                    self?.closeAll()
+                    if !settled {
+                        settled = true
+                        reject("start_failed", error.localizedDescription, error)
+                    }
+                default:
+                    break
+                }
+            }
+            listener.newConnectionHandler = { [weak self] connection in
+                self?.accept(connection)
+            }
+            self.listener = listener
+            listener.start(queue: self.queue)
+        }
+    }
+
+    @objc
+    func stop(
+        _ resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            self.closeAll()
+            resolve(nil)
+        }
+    }
+
+    @objc
+    func setApiKey(
+        _ apiKey: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            self.apiKey = apiKey
+            resolve(nil)
+        }
+    }
+
+    @objc
+    func sendResponse(
+        _ requestId: String,
+        status: Double,
+        headers: String,
+        body: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            guard let connection = self.connections.removeValue(forKey: requestId) else {
+                resolve(nil)
+                return
+            }
+            let bodyData = Data(body.utf8)
+            var data = LocalServerModule.statusAndHeaders(
+                status: Int(status), headersJson: headers, contentLength: bodyData.count)
+            data.append(bodyData)
+            connection.send(content: data, completion: .contentProcessed { _ in
+                connection.cancel()
+                resolve(nil)
+            })
+        }
+    }
+
+    @objc
+    func beginStream(
+        _ requestId: String,
+        status: Double,
+        headers: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            self.write(
+                requestId,
+                LocalServerModule.statusAndHeaders(
+                    status: Int(status), headersJson: headers, contentLength: nil),
+                resolve,
+                reject)
+        }
+    }
+
+    @objc
+    func writeStream(
+        _ requestId: String,
+        chunk: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            self.write(requestId, Data(chunk.utf8), resolve, reject)
+        }
+    }
+
+    @objc
+    func endStream(
+        _ requestId: String,
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            guard let connection = self.connections.removeValue(forKey: requestId) else {
+                resolve(nil)
+                return
+            }
+            // Sends are ordered, so this goes out after every queued chunk.
+            connection.send(
+                content: nil, contentContext: .finalMessage, isComplete: true,
+                completion: .contentProcessed { _ in
+                    connection.cancel()
+                    resolve(nil)
+                })
+        }
+    }
+
+    // MARK: - Connections (on `queue`)
+
+    private func write(
+        _ requestId: String,
+        _ data: Data,
+        _ resolve: @escaping RCTPromiseResolveBlock,
+        _ reject: @escaping RCTPromiseRejectBlock
+    ) {
+        guard let connection = connections[requestId] else {
+            resolve(nil)
+            return
+        }
+        connection.send(content: data, completion: .contentProcessed { [weak self] error in
+            guard let error = error else {
+                resolve(nil)
+                return
+            }
+            self?.queue.async {
+                self?.dropConnection(requestId)
+            }
+            reject("write_failed", error.localizedDescription, error)
+        })
+    }
+
+    private func accept(_ connection: NWConnection) {
+        let requestId = UUID().uuidString
+        reading.insert(requestId)
+        connection.start(queue: queue)
+        receiveRequest(connection, requestId: requestId, buffer: Data())
+        queue.asyncAfter(deadline: .now() + LocalServerModule.readTimeout) { [weak self] in
+            if self?.reading.remove(requestId) != nil {
+                connection.cancel()
+            }
+        }
+    }
+
+    private func receiveRequest(_ connection: NWConnection, requestId: String, buffer: Data) {
+        connection.receive(minimumIncompleteLength: 1, maximumLength: 65536) {
+            [weak self] data, _, isComplete, error in
+            guard let self = self else { return }
+            var buffer = buffer
+            if let data = data {
+                buffer.append(data)
+            }
+
+            let separator = Data("\r\n\r\n".utf8)
+            guard self.reading.contains(requestId) else {
+                return
+            }
+            guard let headEnd = buffer.range(of: separator) else {
+                if isComplete || error != nil || buffer.count > LocalServerModule.maxHeaderBytes {
+                    self.reading.remove(requestId)
+                    connection.cancel()
+                } else {
+                    self.receiveRequest(connection, requestId: requestId, buffer: buffer)
+                }
+                return
+            }
+
+            let head = String(decoding: buffer[..<headEnd.lowerBound], as: UTF8.self)
+            var lines = head.components(separatedBy: "\r\n")
+            let requestLine = lines.removeFirst().split(separator: " ")
+            guard requestLine.count >= 3 else {
+                self.reject(connection, requestId: requestId, status: 400, reason: "Bad Request")
+                return
+            }
+            var headers: [String: String] = [:]
+            for line in lines {
+                guard let colon = line.firstIndex(of: ":") else { continue }
+                let name = line[..<colon].trimmingCharacters(in: .whitespaces).lowercased()
+                headers[name] = line[line.index(after: colon)...]
+                    .trimmingCharacters(in: .whitespaces)
+            }
+            if requestLine[0] != "OPTIONS" && !self.isAuthorized(headers["authorization"]) {
+                self.reject(
+                    connection, requestId: requestId, status: 401, reason: "Unauthorized",
+                    body: LocalServerModule.unauthorizedBody)
+                return
+            }
+            if headers["transfer-encoding"] != nil {
+                self.reject(connection, requestId: requestId, status: 411, reason: "Length Required")
+                return
+            }
+            let length = Int(headers["content-length"] ?? "0") ?? 0
+            if length > LocalServerModule.maxBodyBytes {
+                self.reject(connection, requestId: requestId, status: 413, reason: "Payload Too Large")
+                return
+            }
+            let body = buffer[headEnd.upperBound...]
+            if body.count < length {
+                if isComplete || error != nil {
+                    self.reading.remove(requestId)
+                    connection.cancel()
+                } else {
+                    self.receiveRequest(connection, requestId: requestId, buffer: buffer)
+                }
+                return
+            }
+
+            self.reading.remove(requestId)
+            self.connections[requestId] = connection
+            let headersJson = (try? JSONSerialization.data(withJSONObject: headers))
+                .flatMap { String(data: $0, encoding: .utf8) } ?? "{}"
+            self.emit("onLocalServerRequest", [
+                "requestId": requestId,
+                "method": String(requestLine[0]),
+                "path": String(requestLine[1]),
+                "headers": headersJson,
+                "body": String(decoding: body.prefix(length), as: UTF8.self),
+            ])
+            self.watchForClose(connection, requestId: requestId)
+        }
+    }
+
+    /// Nothing more is expected from the client; reading until EOF is how a
+    /// disconnect shows up while the response is still being produced.
+    private func watchForClose(_ connection: NWConnection, requestId: String) {
+        connection.receive(minimumIncompleteLength: 1, maximumLength: 65536) {
+            [weak self] _, _, isComplete, error in
+            guard let self = self else { return }
+            if isComplete || error != nil {
+                self.dropConnection(requestId)
+            } else {
+                self.watchForClose(connection, requestId: requestId)
+            }
+        }
+    }
+
+    private func dropConnection(_ requestId: String) {
+        guard let connection = connections.removeValue(forKey: requestId) else { return }
+        connection.cancel()
+        emit("onLocalServerClientClosed", ["requestId": requestId])
+    }
+
+    private func isAuthorized(_ header: String?) -> Bool {
+        guard !apiKey.isEmpty, let header = header,
+            header.lowercased().hasPrefix("bearer ")
+        else { return false }
+        return header.dropFirst("bearer ".count).trimmingCharacters(in: .whitespaces) == apiKey
+    }
+
+    private func reject(
+        _ connection: NWConnection, requestId: String, status: Int, reason: String,
+        body: String = ""
+    ) {
+        reading.remove(requestId)
+        let bodyData = Data(body.utf8)
+        var response = "HTTP/1.1 \(status) \(reason)\r\n"
+        if !body.isEmpty {
+            response += "Content-Type: application/json\r\nAccess-Control-Allow-Origin: *\r\n"
+        }
+        response += "Content-Length: \(bodyData.count)\r\nConnection: close\r\n\r\n"
+        var data = Data(response.utf8)
+        data.append(bodyData)
+        connection.send(content: data, completion: .contentProcessed { _ in
+            connection.cancel()
+        })
+    }
+
+    private func closeAll() {
+        listener?.cancel()
+        listener = nil
+        connections.values.forEach { $0.cancel() }
+        connections.removeAll()
+        reading.removeAll()
+    }
+
+    private func emit(_ name: String, _ body: [String: Any]) {
+        guard hasListeners else { return }
+        sendEvent(withName: name, body: body)
+    }
+
+    // MARK: - Helpers
+
+    private static func statusAndHeaders(
+        status: Int, headersJson: String, contentLength: Int?
+    ) -> Data {
+        var head = "HTTP/1.1 \(status) \(reasonPhrase(status))\r\n"
+        if let data = headersJson.data(using: .utf8),
+            let headers = (try? JSONSerialization.jsonObject(with: data)) as? [String: String]
+        {
+            for (name, value) in headers {
+                head += "\(name): \(value)\r\n"
+            }
+        }
+        if let contentLength = contentLength {
+            head += "Content-Length: \(contentLength)\r\n"
+        }
+        head += "Connection: close\r\n\r\n"
+        return Data(head.utf8)
+    }
+
+    private static func reasonPhrase(_ status: Int) -> String {
+        switch status {
+        case 200: return "OK"
+        case 204: return "No Content"
+        case 400: return "Bad Request"
+        case 401: return "Unauthorized"
+        case 404: return "Not Found"
+        case 405: return "Method Not Allowed"
+        case 500: return "Internal Server Error"
+        case 503: return "Service Unavailable"
+        default: return "Status"
+        }
+    }
+
+    /// IPv4 addresses of the interfaces that are up, loopback excluded.
+    private static func lanAddresses() -> [String] {
+        var addresses: [String] = []
+        var ifaddr: UnsafeMutablePointer<ifaddrs>?
+        guard getifaddrs(&ifaddr) == 0, let first = ifaddr else { return [] }
+        defer { freeifaddrs(ifaddr) }
+
+        for pointer in sequence(first: first, next: { $0.pointee.ifa_next }) {
+            let interface = pointer.pointee
+            let flags = Int32(interface.ifa_flags)
+            guard let addr = interface.ifa_addr,
+                addr.pointee.sa_family == UInt8(AF_INET),
+                (flags & IFF_UP) != 0,
+                (flags & IFF_LOOPBACK) == 0
+            else { continue }
+
+            var host = [CChar](repeating: 0, count: Int(NI_MAXHOST))
+            if getnameinfo(
+                addr, socklen_t(addr.pointee.sa_len), &host, socklen_t(host.count),
+                nil, 0, NI_NUMERICHOST) == 0
+            {
+                addresses.append(String(cString: host))
+            }
+        }
+        return addresses
+    }
+}
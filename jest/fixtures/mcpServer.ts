@@ -0,0 +1,159 @@
+import type {McpCallToolResult, McpTool} from '../../src/api/mcp';
+
+/**
+ * In-process stand-in for an MCP server speaking the Streamable HTTP
+ * transport. Install its `fetch` as `global.fetch`; every request is
+ * answered from here, so tests exercise the real client end to end.
+ */
+export interface StubMcpServerOptions {
+  tools: McpTool[];
+  onCall?: (
+    name: string,
+    args: Record<string, any>,
+  ) => McpCallToolResult | Promise<McpCallToolResult>;
+  /** Frame responses as SSE instead of a JSON body. */
+  sse?: boolean;
+  /** Split `tools/list` into pages of this size. */
+  pageSize?: number;
+  /** Require `Authorization: Bearer <token>`. */
+  token?: string;
+  protocolVersion?: string;
+}
+
+export interface StubMcpRequest {
+  method: string; // HTTP method
+  headers: Record<string, string>;
+  message?: any; // parsed JSON-RPC body
+}
+
+export interface StubMcpServer {
+  fetch: jest.Mock;
+  requests: StubMcpRequest[];
+  /** Drop the current session, as a restarted server would. */
+  expireSession(): void;
+  readonly sessionCount: number;
+}
+
+const response = (
+  status: number,
+  body: string,
+  headers: Record<string, string> = {},
+) => {
+  const lower = Object.fromEntries(
+    Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]),
+  );
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: {get: (name: string) => lower[name.toLowerCase()] ?? null},
+    text: () => Promise.resolve(body),
+  };
+};
+
+export function createStubMcpServer(
+  options: StubMcpServerOptions,
+): StubMcpServer {
+  const requests: StubMcpRequest[] = [];
+  let session: string | undefined;
+  let sessionCount = 0;
+
+  const reply = (
+    id: number,
+    payload: {result?: any; error?: any},
+    extraHeaders: Record<string, string> = {},
+  ) => {
+    const message = JSON.stringify({jsonrpc: '2.0', id, ...payload});
+    if (options.sse) {
+      // A progress notification first: the client must skip it.
+      const note = JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: {progress: 1},
+      });
+      return response(200, `data: ${note}\n\ndata: ${message}\n\n`, {
+        'Content-Type': 'text/event-stream',
+        ...extraHeaders,
+      });
+    }
+    return response(200, message, {
+      'Content-Type': 'application/json',
+      ...extraHeaders,
+    });
+  };
+
+  const fetch = jest.fn(async (_url: string, init: RequestInit) => {
+    const headers = (init.headers ?? {}) as Record<string, string>;
+    const message = init.body ? JSON.parse(String(init.body)) : undefined;
+    requests.push({method: init.method ?? 'GET', headers, message});
+
+    if (options.token && headers.Authorization !== `Bearer ${options.token}`) {
+      return response(401, '');
+    }
+    if (init.method === 'DELETE') {
+      session = undefined;
+      return response(200, '');
+    }
+    if (message?.method === 'initialize') {
+      sessionCount += 1;
+      session = `session-${sessionCount}`;
+      return reply(
+        message.id,
+        {
+          result: {
+            protocolVersion: options.protocolVersion ?? '2025-06-18',
+            capabilities: {tools: {}},
+            serverInfo: {name: 'stub', version: '1.0.0'},
+          },
+        },
+        {'Mcp-Session-Id': session},
+      );
+    }
+    if (headers['Mcp-Session-Id'] !== session) {
+      return response(404, '');
+    }
+    if (message?.id === undefined) {
+      return response(202, '');
+    }
+
+    switch (message.method) {
+      case 'tools/list': {
+        const pageSize = options.pageSize ?? options.tools.length;
+        const start = Number(message.params?.cursor ?? 0);
+        const end = start + pageSize;
+        return reply(message.id, {
+          result: {
+            tools: options.tools.slice(start, end),
+            ...(end < options.tools.length ? {nextCursor: String(end)} : {}),
+          },
+        });
+      }
+      case 'tools/call': {
+        const {name, arguments: args} = message.params;
+        if (!options.tools.some(tool => tool.name === name)) {
+          return reply(message.id, {
+            error: {code: -32602, message: `Unknown tool: ${name}`},
+          });
+        }
+        const result = options.onCall
+          ? await options.onCall(name, args ?? {})
+          : {content: [{type: 'text', text: `${name} ok`}]};
+        return reply(message.id, {result});
+      }
+      default:
+        return reply(message.id, {
+          error: {code: -32601, message: 'Method not found'},
+        });
+    }
+  });
+
+  return {
+    fetch,
+    requests,
+    expireSession: () => {
+      session = undefined;
+    },
+    get sessionCount() {
+      return sessionCount;
+    },
+  };
+}
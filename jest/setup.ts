@@ -62,6 +62,12 @@ import {mockServerStore} from '../__mocks__/stores/serverStore';
 import {mockTTSStore} from '../__mocks__/stores/ttsStore';
 import {checkoutFlowStore as mockCheckoutFlowStore} from '../__mocks__/stores/checkoutFlowStore';
 import {mockSearchProviderStore} from '../__mocks__/stores/searchProviderStore';
+import {mockMcpStore} from '../__mocks__/stores/mcpStore';
+import {mockWebhookToolStore} from '../__mocks__/stores/webhookToolStore';
+import {mockDocumentStore} from '../__mocks__/stores/documentStore';
+import {mockPalMemoryStore} from '../__mocks__/stores/palMemoryStore';
+import {mockDownloadQueueStore} from '../__mocks__/stores/downloadQueueStore';
+import {mockLocalServerStore} from '../__mocks__/stores/localServerStore';
 
 jest.mock('@react-native-clipboard/clipboard', () => mockClipboard);
 
@@ -121,6 +127,13 @@ jest.mock('../src/store', () => {
     ttsStore: mockTTSStore,
     checkoutFlowStore: mockCheckoutFlowStore,
     searchProviderStore: mockSearchProviderStore,
+    mcpStore: mockMcpStore,
+    webhookToolStore: mockWebhookToolStore,
+    documentStore: mockDocumentStore,
+    palMemoryStore: mockPalMemoryStore,
+    downloadQueueStore: mockDownloadQueueStore,
+    localServerStore: mockLocalServerStore,
+    MAX_CONCURRENT_DOWNLOADS_LIMIT: 3,
     defaultCompletionSettings: mockDefaultCompletionSettings,
   };
 });
@@ -0,0 +1,552 @@
+import {
+  DEFAULT_MAX_TOKENS,
+  buildMessagesRequest,
+  streamMessages,
+  toAnthropicMessages,
+} from '../anthropic';
+
+// Mock XMLHttpRequest standing in for an Anthropic-style server
+type XHREventHandler = (() => void) | null;
+
+class MockXHR {
+  static instances: MockXHR[] = [];
+  static HEADERS_RECEIVED = 2;
+  static DONE = 4;
+
+  method = '';
+  url = '';
+  requestHeaders: Record<string, string> = {};
+  requestBody = '';
+  responseText = '';
+  readyState = 0;
+  status = 0;
+
+  onreadystatechange: XHREventHandler = null;
+  onprogress: XHREventHandler = null;
+  onload: XHREventHandler = null;
+  onerror: XHREventHandler = null;
+  onabort: XHREventHandler = null;
+
+  constructor() {
+    MockXHR.instances.push(this);
+  }
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(key: string, value: string) {
+    this.requestHeaders[key] = value;
+  }
+
+  send(body?: string) {
+    this.requestBody = body || '';
+  }
+
+  abort() {
+    this.onabort?.();
+  }
+
+  simulateHeaders(status: number) {
+    this.readyState = 2;
+    this.status = status;
+    this.onreadystatechange?.();
+  }
+
+  simulateErrorResponse(status: number, body: object) {
+    this.simulateHeaders(status);
+    this.responseText = JSON.stringify(body);
+    this.readyState = 4;
+    this.onreadystatechange?.();
+  }
+
+  /** Sends each event the way the server frames it: `event:` + `data:`. */
+  simulateEvents(...events: Array<{type: string; [key: string]: any}>) {
+    this.responseText += events
+      .map(e => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`)
+      .join('');
+    this.onprogress?.();
+  }
+
+  simulateLoad() {
+    this.readyState = 4;
+    this.onload?.();
+  }
+}
+
+const textDelta = (index: number, text: string) => ({
+  type: 'content_block_delta',
+  index,
+  delta: {type: 'text_delta', text},
+});
+
+describe('toAnthropicMessages', () => {
+  it('lifts system messages and merges tool results into one user turn', () => {
+    const {system, messages} = toAnthropicMessages([
+      {role: 'system', content: 'Be brief.'},
+      {role: 'user', content: 'Weather in Oslo and Rome?'},
+      {
+        role: 'assistant',
+        content: 'Checking.',
+        tool_calls: [
+          {
+            id: 'toolu_1',
+            type: 'function',
+            function: {name: 'weather', arguments: '{"city":"Oslo"}'},
+          },
+          {
+            id: 'toolu_2',
+            type: 'function',
+            function: {name: 'weather', arguments: 'not json'},
+          },
+        ],
+      },
+      {role: 'tool', tool_call_id: 'toolu_1', content: 'Rain'},
+      {role: 'tool', tool_call_id: 'toolu_2', content: 'Sun'},
+    ]);
+
+    expect(system).toBe('Be brief.');
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [{type: 'text', text: 'Weather in Oslo and Rome?'}],
+      },
+      {
+        role: 'assistant',
+        content: [
+          {type: 'text', text: 'Checking.'},
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'weather',
+            input: {city: 'Oslo'},
+          },
+          {type: 'tool_use', id: 'toolu_2', name: 'weather', input: {}},
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          {type: 'tool_result', tool_use_id: 'toolu_1', content: 'Rain'},
+          {type: 'tool_result', tool_use_id: 'toolu_2', content: 'Sun'},
+        ],
+      },
+    ]);
+  });
+
+  it('maps image parts to base64 and url sources', () => {
+    const {messages} = toAnthropicMessages([
+      {
+        role: 'user',
+        content: [
+          {type: 'text', text: 'Compare'},
+          {type: 'image_url', image_url: {url: 'data:image/png;base64,AAAA'}},
+          {type: 'image_url', image_url: {url: 'https://x.test/a.jpg'}},
+        ],
+      },
+    ]);
+
+    expect(messages[0].content).toEqual([
+      {type: 'text', text: 'Compare'},
+      {
+        type: 'image',
+        source: {type: 'base64', media_type: 'image/png', data: 'AAAA'},
+      },
+      {type: 'image', source: {type: 'url', url: 'https://x.test/a.jpg'}},
+    ]);
+  });
+
+  it('resends reasoning only as the signed blocks it resolves to', () => {
+    const signed = [{type: 'thinking', thinking: 'Hmm', signature: 's1'}];
+    const resolveThinking = (reasoning: string) =>
+      reasoning === 'Hmm' ? (signed as any) : undefined;
+
+    const {messages} = toAnthropicMessages(
+      [
+        {role: 'user', content: 'Q1'},
+        {role: 'assistant', content: 'A1', reasoning_content: 'Old thoughts'},
+        {role: 'user', content: 'Q2'},
+        {role: 'assistant', content: 'A2', reasoning_content: 'Hmm'},
+      ],
+      resolveThinking,
+    );
+
+    expect(messages[1].content).toEqual([{type: 'text', text: 'A1'}]);
+    expect(messages[3].content).toEqual([
+      ...signed,
+      {type: 'text', text: 'A2'},
+    ]);
+  });
+
+  it('drops messages left without content', () => {
+    const {system, messages} = toAnthropicMessages([
+      {role: 'user', content: 'Hi'},
+      {role: 'assistant', content: ''},
+      {role: 'user', content: 'Again'},
+    ]);
+
+    expect(system).toBeUndefined();
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          {type: 'text', text: 'Hi'},
+          {type: 'text', text: 'Again'},
+        ],
+      },
+    ]);
+  });
+});
+
+describe('buildMessagesRequest', () => {
+  const messages = [{role: 'user' as const, content: 'Hi'}];
+
+  it('defaults max_tokens and drops unusable stop sequences', () => {
+    const body = buildMessagesRequest({
+      messages,
+      model: 'claude-test',
+      max_tokens: -1,
+      temperature: 1.4,
+      top_p: 0.9,
+      stop: ['</s>', '\n', ''],
+    });
+
+    expect(body).toEqual({
+      model: 'claude-test',
+      messages: [{role: 'user', content: [{type: 'text', text: 'Hi'}]}],
+      stream: true,
+      max_tokens: DEFAULT_MAX_TOKENS,
+      temperature: 1,
+      stop_sequences: ['</s>'],
+    });
+  });
+
+  it('sends top_p only without a temperature', () => {
+    const body = buildMessagesRequest({messages, model: 'm', top_p: 0.9});
+
+    expect(body.top_p).toBe(0.9);
+    expect(body).not.toHaveProperty('temperature');
+  });
+
+  it('maps tools and tool_choice', () => {
+    const tools = [
+      {
+        type: 'function' as const,
+        function: {
+          name: 'weather',
+          description: 'Current weather',
+          parameters: {type: 'object', properties: {city: {type: 'string'}}},
+        },
+      },
+      {type: 'function' as const, function: {name: 'now'}},
+    ];
+
+    const body = buildMessagesRequest({
+      messages,
+      model: 'm',
+      tools,
+      tool_choice: {type: 'function', function: {name: 'weather'}},
+    });
+
+    expect(body.tools).toEqual([
+      {
+        name: 'weather',
+        description: 'Current weather',
+        input_schema: {
+          type: 'object',
+          properties: {city: {type: 'string'}},
+        },
+      },
+      {
+        name: 'now',
+        description: undefined,
+        input_schema: {type: 'object', properties: {}},
+      },
+    ]);
+    expect(body.tool_choice).toEqual({type: 'tool', name: 'weather'});
+    expect(
+      buildMessagesRequest({
+        messages,
+        model: 'm',
+        tools,
+        tool_choice: 'required',
+      }).tool_choice,
+    ).toEqual({type: 'any'});
+  });
+
+  it('sends top_k and drops the samplers the API lacks', () => {
+    const body = buildMessagesRequest({
+      messages,
+      model: 'm',
+      sampler: {top_k: 40, min_p: 0.05, seed: 42},
+    });
+
+    expect(body.top_k).toBe(40);
+    expect(body).not.toHaveProperty('min_p');
+    expect(body).not.toHaveProperty('seed');
+  });
+
+  it('requests thinking for an explicit effort and leaves sampling to the API', () => {
+    const body = buildMessagesRequest({
+      messages,
+      model: 'm',
+      temperature: 0.7,
+      max_tokens: 1000,
+      reasoning: {enabled: true, effort: 'medium'},
+      sampler: {top_k: 40},
+    });
+
+    expect(body.thinking).toEqual({type: 'enabled', budget_tokens: 8192});
+    expect(body.max_tokens).toBe(9192);
+    expect(body).not.toHaveProperty('temperature');
+    expect(body).not.toHaveProperty('top_k');
+  });
+
+  it('does not request thinking without an effort or when a tool is forced', () => {
+    expect(
+      buildMessagesRequest({
+        messages,
+        model: 'm',
+        reasoning: {enabled: true},
+      }),
+    ).not.toHaveProperty('thinking');
+    expect(
+      buildMessagesRequest({
+        messages,
+        model: 'm',
+        tools: [{type: 'function', function: {name: 'now'}}],
+        tool_choice: 'required',
+        reasoning: {enabled: true, effort: 'high'},
+      }),
+    ).not.toHaveProperty('thinking');
+  });
+});
+
+describe('streamMessages', () => {
+  let originalXHR: typeof XMLHttpRequest;
+
+  beforeEach(() => {
+    MockXHR.instances = [];
+    originalXHR = global.XMLHttpRequest;
+    (global as any).XMLHttpRequest = MockXHR;
+  });
+
+  afterEach(() => {
+    global.XMLHttpRequest = originalXHR;
+  });
+
+  it('posts to /v1/messages with Anthropic auth headers', async () => {
+    const promise = streamMessages(
+      {messages: [{role: 'user', content: 'Hi'}], model: 'claude-test'},
+      'http://localhost:4000/',
+      'sk-ant',
+    );
+    const xhr = MockXHR.instances[0];
+
+    expect(xhr.method).toBe('POST');
+    expect(xhr.url).toBe('http://localhost:4000/v1/messages');
+    expect(xhr.requestHeaders['x-api-key']).toBe('sk-ant');
+    expect(xhr.requestHeaders['anthropic-version']).toBe('2023-06-01');
+    expect(xhr.requestHeaders.Authorization).toBeUndefined();
+    expect(JSON.parse(xhr.requestBody).model).toBe('claude-test');
+
+    xhr.simulateHeaders(200);
+    xhr.simulateEvents({type: 'message_stop'});
+    xhr.simulateLoad();
+    await promise;
+  });
+
+  it('folds text, thinking and tool_use blocks into the result', async () => {
+    const onToken = jest.fn();
+    const promise = streamMessages(
+      {messages: [{role: 'user', content: 'Weather?'}], model: 'm'},
+      'http://localhost:4000',
+      undefined,
+      undefined,
+      onToken,
+    );
+    const xhr = MockXHR.instances[0];
+    xhr.simulateHeaders(200);
+
+    xhr.simulateEvents(
+      {type: 'message_start', message: {usage: {input_tokens: 12}}},
+      {
+        type: 'content_block_start',
+        index: 0,
+        content_block: {type: 'thinking', thinking: ''},
+      },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: {type: 'thinking_delta', thinking: 'Use the tool.'},
+      },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: {type: 'signature_delta', signature: 'sig-1'},
+      },
+      {type: 'content_block_stop', index: 0},
+      {
+        type: 'content_block_start',
+        index: 1,
+        content_block: {type: 'text', text: ''},
+      },
+      textDelta(1, 'Let me '),
+      textDelta(1, 'check.'),
+      {type: 'content_block_stop', index: 1},
+      {type: 'ping'},
+      {
+        type: 'content_block_start',
+        index: 2,
+        content_block: {type: 'tool_use', id: 'toolu_1', name: 'weather'},
+      },
+      {
+        type: 'content_block_delta',
+        index: 2,
+        delta: {type: 'input_json_delta', partial_json: '{"city":'},
+      },
+      {
+        type: 'content_block_delta',
+        index: 2,
+        delta: {type: 'input_json_delta', partial_json: '"Oslo"}'},
+      },
+      {type: 'content_block_stop', index: 2},
+      {
+        type: 'content_block_start',
+        index: 3,
+        content_block: {
+          type: 'tool_use',
+          id: 'toolu_2',
+          name: 'now',
+          input: {},
+        },
+      },
+      {type: 'content_block_stop', index: 3},
+      {
+        type: 'message_delta',
+        delta: {stop_reason: 'tool_use'},
+        usage: {output_tokens: 40},
+      },
+      {type: 'message_stop'},
+    );
+    xhr.simulateLoad();
+
+    const result = await promise;
+
+    expect(result.content).toBe('Let me check.');
+    expect(result.reasoning_content).toBe('Use the tool.');
+    expect(result.tool_calls).toEqual([
+      {
+        id: 'toolu_1',
+        type: 'function',
+        function: {name: 'weather', arguments: '{"city":"Oslo"}'},
+      },
+      {
+        id: 'toolu_2',
+        type: 'function',
+        function: {name: 'now', arguments: '{}'},
+      },
+    ]);
+    expect(result.thinking_blocks).toEqual([
+      {type: 'thinking', thinking: 'Use the tool.', signature: 'sig-1'},
+    ]);
+    expect(result.tokens_evaluated).toBe(12);
+    expect(result.tokens_predicted).toBe(40);
+    expect(result.stopped_eos).toBe(true);
+
+    // content is accumulated, token is the delta
+    expect(onToken).toHaveBeenCalledWith(
+      expect.objectContaining({
+        token: 'check.',
+        content: 'Let me check.',
+        reasoning_content: 'Use the tool.',
+      }),
+    );
+    expect(onToken).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tool_calls: [
+          {
+            id: 'toolu_1',
+            type: 'function',
+            function: {name: 'weather', arguments: ''},
+          },
+        ],
+      }),
+    );
+  });
+
+  it('maps stop reasons', async () => {
+    const run = async (delta: object) => {
+      const promise = streamMessages(
+        {messages: [{role: 'user', content: 'Hi'}], model: 'm'},
+        'http://localhost:4000',
+      );
+      const xhr = MockXHR.instances[MockXHR.instances.length - 1];
+      xhr.simulateHeaders(200);
+      xhr.simulateEvents({type: 'message_delta', delta, usage: {}});
+      xhr.simulateLoad();
+      return promise;
+    };
+
+    expect((await run({stop_reason: 'max_tokens'})).stopped_limit).toBe(1);
+    expect((await run({stop_reason: 'refusal'})).interrupted).toBe(true);
+    const stopped = await run({
+      stop_reason: 'stop_sequence',
+      stop_sequence: 'END',
+    });
+    expect(stopped.stopped_eos).toBe(true);
+    expect(stopped.stopping_word).toBe('END');
+  });
+
+  it('rejects on an error event mid-stream', async () => {
+    const promise = streamMessages(
+      {messages: [{role: 'user', content: 'Hi'}], model: 'm'},
+      'http://localhost:4000',
+    );
+    const xhr = MockXHR.instances[0];
+    xhr.simulateHeaders(200);
+    xhr.simulateEvents(
+      {type: 'message_start', message: {usage: {input_tokens: 1}}},
+      {
+        type: 'error',
+        error: {type: 'overloaded_error', message: 'Overloaded'},
+      },
+    );
+
+    await expect(promise).rejects.toThrow('Server error: Overloaded');
+  });
+
+  it('surfaces the error message of a failed request', async () => {
+    const promise = streamMessages(
+      {messages: [{role: 'user', content: 'Hi'}], model: 'm'},
+      'http://localhost:4000',
+    );
+    MockXHR.instances[0].simulateErrorResponse(400, {
+      type: 'error',
+      error: {type: 'invalid_request_error', message: 'max_tokens: too big'},
+    });
+
+    await expect(promise).rejects.toThrow(
+      'Server error: 400 — max_tokens: too big',
+    );
+  });
+
+  it('resolves with partial content when aborted', async () => {
+    const controller = new AbortController();
+    const promise = streamMessages(
+      {messages: [{role: 'user', content: 'Hi'}], model: 'm'},
+      'http://localhost:4000',
+      undefined,
+      controller.signal,
+    );
+    const xhr = MockXHR.instances[0];
+    xhr.simulateHeaders(200);
+    xhr.simulateEvents(textDelta(0, 'Partial'));
+    controller.abort();
+
+    const result = await promise;
+    expect(result.content).toBe('Partial');
+    expect(result.interrupted).toBe(true);
+  });
+});
@@ -1,16 +1,26 @@
 import {LlamaContext} from 'llama.rn';
 
 import {
+  AnthropicCompletionEngine,
+  CompletionRoute,
   LocalCompletionEngine,
+  ModelGroupCompletionEngine,
   OpenAICompletionEngine,
 } from '../completionEngines';
+import * as anthropicModule from '../anthropic';
 import * as openaiModule from '../openai';
 
 jest.mock('../openai', () => ({
+  ...jest.requireActual('../openai'),
   streamChatCompletion: jest.fn(),
 }));
 
+jest.mock('../anthropic', () => ({
+  streamMessages: jest.fn(),
+}));
+
 const mockedStreamChat = openaiModule.streamChatCompletion as jest.Mock;
+const mockedStreamMessages = anthropicModule.streamMessages as jest.Mock;
 
 describe('LocalCompletionEngine', () => {
   let mockContext: LlamaContext;
@@ -92,6 +102,22 @@ describe('LocalCompletionEngine', () => {
     expect(result.draft_tokens_accepted).toBeUndefined();
   });
 
+  it('maps completion_probabilities to token_probs', async () => {
+    (mockContext.completion as jest.Mock).mockResolvedValueOnce({
+      text: 'Hi',
+      content: 'Hi',
+      completion_probabilities: [
+        {content: 'Hi', probs: [{tok_str: 'Hi', prob: 0.8}]},
+      ],
+    });
+
+    const result = await engine.completion({n_probs: 1} as any);
+
+    expect(result.token_probs).toEqual([
+      {token: 'Hi', prob: 0.8, top: [{token: 'Hi', prob: 0.8}]},
+    ]);
+  });
+
   it('passes callback to LlamaContext and maps token data', async () => {
     const mockResult = {
       text: 'result',
@@ -163,6 +189,8 @@ describe('OpenAICompletionEngine', () => {
       top_p: 0.95,
       n_predict: 200,
       stop: ['</s>'],
+      top_k: 40,
+      seed: 7,
     } as any;
 
     const result = await engine.completion(params, onToken);
@@ -177,6 +205,7 @@ describe('OpenAICompletionEngine', () => {
         stop: ['</s>'],
         stream: true,
         reasoning: undefined,
+        sampler: {top_k: 40, seed: 7},
       },
       'http://localhost:1234',
       'sk-key',
@@ -391,3 +420,215 @@ describe('OpenAICompletionEngine', () => {
     );
   });
 });
+
+describe('AnthropicCompletionEngine', () => {
+  let engine: AnthropicCompletionEngine;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    engine = new AnthropicCompletionEngine(
+      'http://localhost:4000',
+      'claude-test',
+      'sk-ant',
+      600000,
+    );
+  });
+
+  it('maps params onto streamMessages and forwards transport options', async () => {
+    mockedStreamMessages.mockResolvedValueOnce({text: 'Hi', content: 'Hi'});
+    const callback = jest.fn();
+
+    const result = await engine.completion(
+      {
+        messages: [{role: 'user', content: 'Hello'}],
+        temperature: 0.5,
+        n_predict: 256,
+        stop: ['</s>'],
+        reasoning: {enabled: true, effort: 'low'},
+      } as any,
+      callback,
+    );
+
+    expect(result).toEqual({text: 'Hi', content: 'Hi'});
+    expect(mockedStreamMessages).toHaveBeenCalledWith(
+      expect.objectContaining({
+        messages: [{role: 'user', content: 'Hello'}],
+        model: 'claude-test',
+        temperature: 0.5,
+        max_tokens: 256,
+        stop: ['</s>'],
+        reasoning: {enabled: true, effort: 'low'},
+      }),
+      'http://localhost:4000',
+      'sk-ant',
+      expect.any(Object), // AbortSignal
+      callback,
+      600000,
+    );
+  });
+
+  it('hands signed thinking back for reasoning it received', async () => {
+    const thinking = [
+      {type: 'thinking', thinking: 'Need the weather.', signature: 'sig'},
+    ];
+    mockedStreamMessages.mockResolvedValueOnce({
+      text: '',
+      content: '',
+      reasoning_content: 'Need the weather.',
+      thinking_blocks: thinking,
+    });
+
+    const first = await engine.completion({messages: []} as any);
+    expect(first).not.toHaveProperty('thinking_blocks');
+
+    mockedStreamMessages.mockResolvedValueOnce({text: 'Sunny', content: ''});
+    await engine.completion({messages: []} as any);
+
+    const {resolveThinking} = mockedStreamMessages.mock.calls[1][0];
+    expect(resolveThinking('Need the weather.')).toEqual(thinking);
+    expect(resolveThinking('Something else')).toBeUndefined();
+  });
+
+  it('aborts the in-flight request on stopCompletion', async () => {
+    let signal: AbortSignal | undefined;
+    mockedStreamMessages.mockImplementationOnce((_params, _url, _key, s) => {
+      signal = s;
+      return Promise.resolve({text: '', content: ''});
+    });
+
+    await engine.completion({messages: []} as any);
+    await engine.stopCompletion();
+
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe('ModelGroupCompletionEngine', () => {
+  const backend = (serverId: string) => ({
+    modelId: `${serverId}/qwen3-8b`,
+    name: serverId,
+    serverId,
+    isLocal: false,
+  });
+
+  const route = (serverId: string, engine: any): CompletionRoute => ({
+    backend: backend(serverId),
+    createEngine: jest.fn().mockResolvedValue(engine),
+  });
+
+  const fakeEngine = (completion: jest.Mock) => ({
+    completion,
+    stopCompletion: jest.fn().mockResolvedValue(undefined),
+  });
+
+  it('tags the result with the backend that answered', async () => {
+    const lan = fakeEngine(
+      jest.fn().mockResolvedValue({text: 'Hi', content: 'Hi'}),
+    );
+    const engine = new ModelGroupCompletionEngine(async () => [
+      route('lan', lan),
+    ]);
+
+    const result = await engine.completion({messages: []} as any);
+
+    expect(result).toEqual({
+      text: 'Hi',
+      content: 'Hi',
+      backend: backend('lan'),
+    });
+  });
+
+  it('fails over to the next backend when one fails before streaming', async () => {
+    const onRouteFailed = jest.fn();
+    const lan = fakeEngine(
+      jest.fn().mockRejectedValue(new Error('Network error')),
+    );
+    const cloud = fakeEngine(
+      jest.fn().mockResolvedValue({text: 'Hi', content: 'Hi'}),
+    );
+    const engine = new ModelGroupCompletionEngine(
+      async () => [route('lan', lan), route('cloud', cloud)],
+      onRouteFailed,
+    );
+
+    const result = await engine.completion({messages: []} as any, jest.fn());
+
+    expect(result.backend).toEqual(backend('cloud'));
+    expect(onRouteFailed).toHaveBeenCalledWith(
+      backend('lan'),
+      expect.any(Error),
+    );
+  });
+
+  it('does not fail over once a token has streamed', async () => {
+    const lan = fakeEngine(
+      jest.fn(async (_params, callback) => {
+        callback({token: 'Hi', content: 'Hi'});
+        throw new Error('Idle timeout: no data received');
+      }),
+    );
+    const cloud = fakeEngine(jest.fn());
+    const engine = new ModelGroupCompletionEngine(async () => [
+      route('lan', lan),
+      route('cloud', cloud),
+    ]);
+
+    await expect(
+      engine.completion({messages: []} as any, jest.fn()),
+    ).rejects.toThrow('Idle timeout');
+    expect(cloud.completion).not.toHaveBeenCalled();
+  });
+
+  it('skips a backend that is gone and throws the last error when none answer', async () => {
+    const cloud = fakeEngine(
+      jest.fn().mockRejectedValue(new Error('Network error')),
+    );
+    const engine = new ModelGroupCompletionEngine(async () => [
+      route('gone', undefined),
+      route('cloud', cloud),
+    ]);
+
+    await expect(engine.completion({messages: []} as any)).rejects.toThrow(
+      'Network error',
+    );
+  });
+
+  it('builds each backend engine once', async () => {
+    const lan = fakeEngine(
+      jest.fn().mockResolvedValue({text: '', content: ''}),
+    );
+    const lanRoute = route('lan', lan);
+    const engine = new ModelGroupCompletionEngine(async () => [lanRoute]);
+
+    await engine.completion({messages: []} as any);
+    await engine.completion({messages: []} as any);
+
+    expect(lanRoute.createEngine).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops the running backend and does not fail over after a stop', async () => {
+    let rejectLan: (error: Error) => void = () => {};
+    const lan = fakeEngine(
+      jest.fn(
+        () =>
+          new Promise((_resolve, reject) => {
+            rejectLan = reject;
+          }),
+      ),
+    );
+    const cloud = fakeEngine(jest.fn());
+    const engine = new ModelGroupCompletionEngine(async () => [
+      route('lan', lan),
+      route('cloud', cloud),
+    ]);
+
+    const pending = engine.completion({messages: []} as any);
+    await new Promise(resolve => setImmediate(resolve));
+    await engine.stopCompletion();
+    rejectLan(new Error('Completion aborted'));
+
+    await expect(pending).rejects.toThrow('Completion aborted');
+    expect(lan.stopCompletion).toHaveBeenCalled();
+    expect(cloud.completion).not.toHaveBeenCalled();
+  });
+});
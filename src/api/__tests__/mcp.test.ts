@@ -0,0 +1,296 @@
+import {McpClient, McpError, McpUnsupportedTransportError} from '../mcp';
+import {createStubMcpServer} from '../../../jest/fixtures/mcpServer';
+import type {McpTool} from '../mcp';
+
+const URL = 'http://192.168.1.10:8000/mcp';
+
+const tool = (name: string): McpTool => ({
+  name,
+  description: `${name} tool`,
+  inputSchema: {type: 'object', properties: {q: {type: 'string'}}},
+});
+
+describe('McpClient', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('runs the initialize handshake and sends the session id afterwards', async () => {
+    const server = createStubMcpServer({tools: [tool('echo')]});
+    global.fetch = server.fetch as any;
+
+    const client = new McpClient({url: URL, clientVersion: '1.2.3'});
+    const info = await client.connect();
+    await client.listTools();
+
+    expect(info).toEqual({name: 'stub', version: '1.0.0'});
+    const [init, initialized, list] = server.requests;
+    expect(init.message).toMatchObject({
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-06-18',
+        clientInfo: {name: 'PocketPal', version: '1.2.3'},
+      },
+    });
+    expect(init.headers['Mcp-Session-Id']).toBeUndefined();
+    expect(initialized.message.method).toBe('notifications/initialized');
+    expect(list.headers['Mcp-Session-Id']).toBe('session-1');
+    expect(list.headers['MCP-Protocol-Version']).toBe('2025-06-18');
+  });
+
+  it('follows tools/list pagination cursors', async () => {
+    const server = createStubMcpServer({
+      tools: [tool('a'), tool('b'), tool('c')],
+      pageSize: 2,
+    });
+    global.fetch = server.fetch as any;
+
+    const tools = await new McpClient({url: URL}).listTools();
+
+    expect(tools.map(t => t.name)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('reads responses framed as SSE, skipping interleaved notifications', async () => {
+    const server = createStubMcpServer({
+      tools: [tool('echo')],
+      sse: true,
+      onCall: (_name, args) => ({content: [{type: 'text', text: args.q}]}),
+    });
+    global.fetch = server.fetch as any;
+
+    const result = await new McpClient({url: URL}).callTool('echo', {
+      q: 'hi',
+    });
+
+    expect(result).toEqual({
+      content: [{type: 'text', text: 'hi'}],
+      isError: false,
+    });
+  });
+
+  it('sends the bearer token and reports a rejected one', async () => {
+    const server = createStubMcpServer({tools: [], token: 'secret'});
+    global.fetch = server.fetch as any;
+
+    await expect(
+      new McpClient({url: URL, token: 'secret'}).listTools(),
+    ).resolves.toEqual([]);
+    await expect(
+      new McpClient({url: URL, token: 'wrong'}).listTools(),
+    ).rejects.toThrow('Unauthorized');
+  });
+
+  it('surfaces JSON-RPC errors as McpError', async () => {
+    const server = createStubMcpServer({tools: [tool('echo')]});
+    global.fetch = server.fetch as any;
+
+    const call = new McpClient({url: URL}).callTool('missing', {});
+
+    await expect(call).rejects.toBeInstanceOf(McpError);
+    await expect(call).rejects.toThrow('Unknown tool: missing');
+  });
+
+  it('rejects a server that negotiates an unsupported protocol version', async () => {
+    const server = createStubMcpServer({
+      tools: [],
+      protocolVersion: '1999-01-01',
+    });
+    global.fetch = server.fetch as any;
+
+    await expect(new McpClient({url: URL}).connect()).rejects.toThrow(
+      'Unsupported MCP protocol version',
+    );
+  });
+
+  it('starts a new session and retries once when the server forgot it', async () => {
+    const server = createStubMcpServer({tools: [tool('echo')]});
+    global.fetch = server.fetch as any;
+    const client = new McpClient({url: URL});
+    await client.connect();
+
+    server.expireSession();
+    const result = await client.callTool('echo', {});
+
+    expect(result.content).toEqual([{type: 'text', text: 'echo ok'}]);
+    expect(server.sessionCount).toBe(2);
+  });
+
+  it('does not fetch when the caller signal is already aborted', async () => {
+    const server = createStubMcpServer({tools: [tool('echo')]});
+    global.fetch = server.fetch as any;
+    const client = new McpClient({url: URL});
+    await client.connect();
+    const calls = server.fetch.mock.calls.length;
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      client.callTool('echo', {}, {signal: controller.signal}),
+    ).rejects.toThrow('cancelled');
+    expect(server.fetch.mock.calls.length).toBe(calls);
+  });
+
+  it('refuses a response declared too large without reading it', async () => {
+    const server = createStubMcpServer({tools: [tool('echo')]});
+    global.fetch = server.fetch as any;
+    const client = new McpClient({url: URL});
+    await client.connect();
+    const text = jest.fn();
+    global.fetch = jest.fn().mockResolvedValue({
+      status: 200,
+      headers: {
+        get: (name: string) =>
+          name === 'content-length' ? String(64 * 1024 * 1024) : null,
+      },
+      text,
+    }) as any;
+
+    await expect(client.callTool('echo', {q: 'hi'})).rejects.toThrow(
+      'response too large',
+    );
+    expect(text).not.toHaveBeenCalled();
+  });
+
+  it('tells the server when an in-flight call is cancelled', async () => {
+    const controller = new AbortController();
+    const server = createStubMcpServer({tools: [tool('slow')]});
+    const stubFetch = server.fetch.getMockImplementation()!;
+    global.fetch = jest.fn((url: string, init: RequestInit) => {
+      const message = init.body ? JSON.parse(String(init.body)) : undefined;
+      if (message?.method === 'tools/call') {
+        return new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            const error = new Error('aborted');
+            error.name = 'AbortError';
+            reject(error);
+          });
+          controller.abort();
+        });
+      }
+      return stubFetch(url, init);
+    }) as any;
+
+    const client = new McpClient({url: URL});
+    await expect(
+      client.callTool('slow', {}, {signal: controller.signal}),
+    ).rejects.toThrow('cancelled');
+
+    const cancelled = server.requests.find(
+      r => r.message?.method === 'notifications/cancelled',
+    );
+    expect(cancelled?.message.params).toEqual({
+      requestId: expect.any(Number),
+      reason: 'cancelled',
+    });
+  });
+
+  describe('legacy HTTP+SSE servers', () => {
+    const originalXHR = global.XMLHttpRequest;
+
+    // A GET on the URL answers with this status and streamed body.
+    class StreamXHR {
+      static HEADERS_RECEIVED = 2;
+      static DONE = 4;
+      static status = 200;
+      static body = '';
+      static instances: StreamXHR[] = [];
+
+      headers: Record<string, string> = {};
+      readyState = 0;
+      status = 0;
+      responseText = '';
+      aborted = false;
+      onreadystatechange: (() => void) | null = null;
+      onprogress: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+
+      constructor() {
+        StreamXHR.instances.push(this);
+      }
+      open() {}
+      setRequestHeader(key: string, value: string) {
+        this.headers[key] = value;
+      }
+      send() {
+        this.readyState = 2;
+        this.status = StreamXHR.status;
+        this.onreadystatechange?.();
+        if (!this.aborted) {
+          this.readyState = 3;
+          this.responseText = StreamXHR.body;
+          this.onprogress?.();
+        }
+      }
+      abort() {
+        this.aborted = true;
+      }
+    }
+
+    const respond = (status: number) =>
+      jest.fn().mockResolvedValue({
+        status,
+        headers: {get: () => null},
+        text: () => Promise.resolve(''),
+      }) as any;
+
+    beforeEach(() => {
+      StreamXHR.instances = [];
+      (global as any).XMLHttpRequest = StreamXHR;
+    });
+
+    afterEach(() => {
+      global.XMLHttpRequest = originalXHR;
+    });
+
+    it('reports a server that refuses POST as an unsupported transport', async () => {
+      global.fetch = respond(405);
+
+      await expect(new McpClient({url: URL}).connect()).rejects.toThrow(
+        McpUnsupportedTransportError,
+      );
+      expect(StreamXHR.instances).toHaveLength(0);
+    });
+
+    it('asks the stream for the endpoint event on other 4xx answers', async () => {
+      global.fetch = respond(404);
+      StreamXHR.status = 200;
+      StreamXHR.body =
+        'event: endpoint\r\ndata: /messages?session_id=1\r\n\r\n';
+
+      await expect(
+        new McpClient({url: URL, token: 'secret'}).connect(),
+      ).rejects.toThrow(McpUnsupportedTransportError);
+      const [probe] = StreamXHR.instances;
+      expect(probe.headers).toEqual({
+        Accept: 'text/event-stream',
+        Authorization: 'Bearer secret',
+      });
+      expect(probe.aborted).toBe(true);
+    });
+
+    it('keeps the server error when the stream is not a legacy one', async () => {
+      global.fetch = respond(404);
+      StreamXHR.status = 404;
+
+      await expect(new McpClient({url: URL}).connect()).rejects.toThrow(
+        'Server error: 404',
+      );
+    });
+  });
+
+  it('ends the session with DELETE on close', async () => {
+    const server = createStubMcpServer({tools: []});
+    global.fetch = server.fetch as any;
+    const client = new McpClient({url: URL});
+    await client.connect();
+
+    await client.close();
+
+    const last = server.requests[server.requests.length - 1];
+    expect(last.method).toBe('DELETE');
+    expect(last.headers['Mcp-Session-Id']).toBe('session-1');
+    expect(client.isConnected).toBe(false);
+  });
+});
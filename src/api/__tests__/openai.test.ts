@@ -6,6 +6,8 @@ import {
   testConnection,
   streamChatCompletion,
   buildReasoningPayload,
+  buildSamplerPayload,
+  isSamplerParamIgnored,
   __clearRemoteImageCache,
 } from '../openai';
 import {
@@ -837,6 +839,48 @@ describe('streamChatCompletion', () => {
     );
   });
 
+  it('collects logprobs into token_probs', async () => {
+    const resultPromise = streamChatCompletion(
+      {
+        messages: [{role: 'user', content: 'Hi'}],
+        model: 'test-model',
+        sampler: {n_probs: 2},
+      },
+      'http://localhost:1234',
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      'OpenAI',
+    );
+    const xhr = MockXHR.instances[0];
+    expect(JSON.parse(xhr.requestBody)).toMatchObject({
+      logprobs: true,
+      top_logprobs: 2,
+    });
+
+    xhr.simulateHeaders(200);
+    xhr.simulateProgress(
+      'data: {"choices":[{"delta":{"content":"Yes"},"logprobs":{"content":[{"token":"Yes","logprob":0,"top_logprobs":[{"token":"Yes","logprob":0},{"token":"No","logprob":-5}]}]},"finish_reason":null}]}\n\n',
+    );
+    xhr.simulateProgress(
+      'data: {"choices":[{"delta":{},"finish_reason":"stop"}]}\n\ndata: [DONE]\n\n',
+    );
+    xhr.simulateLoad();
+
+    const result = await resultPromise;
+    expect(result.token_probs).toEqual([
+      {
+        token: 'Yes',
+        prob: 1,
+        top: [
+          {token: 'Yes', prob: 1},
+          {token: 'No', prob: Math.exp(-5)},
+        ],
+      },
+    ]);
+  });
+
   it('sends correct request headers and body', async () => {
     const resultPromise = streamChatCompletion(
       {
@@ -2111,3 +2155,191 @@ describe('streamChatCompletion reasoning payload', () => {
     await resultPromise;
   });
 });
+
+describe('buildSamplerPayload (per-serverType mapping)', () => {
+  const sampler = {
+    top_k: 40,
+    min_p: 0.05,
+    xtc_threshold: 0.1,
+    xtc_probability: 0.5,
+    typical_p: 0.9,
+    penalty_last_n: 64,
+    penalty_repeat: 1.1,
+    penalty_freq: 0.2,
+    penalty_present: 0.3,
+    mirostat: 2,
+    mirostat_tau: 5,
+    mirostat_eta: 0.1,
+    seed: 42,
+    n_probs: 5,
+    dry_multiplier: 0.8,
+    dry_base: 1.75,
+    dry_allowed_length: 2,
+    dry_penalty_last_n: -1,
+    dry_sequence_breakers: ['\n'],
+  };
+
+  it('sends everything to llama.cpp under its native names', () => {
+    expect(buildSamplerPayload('llama.cpp', sampler)).toEqual({
+      top_k: 40,
+      min_p: 0.05,
+      xtc_threshold: 0.1,
+      xtc_probability: 0.5,
+      typical_p: 0.9,
+      repeat_last_n: 64,
+      repeat_penalty: 1.1,
+      frequency_penalty: 0.2,
+      presence_penalty: 0.3,
+      mirostat: 2,
+      mirostat_tau: 5,
+      mirostat_eta: 0.1,
+      seed: 42,
+      logprobs: true,
+      top_logprobs: 5,
+      dry_multiplier: 0.8,
+      dry_base: 1.75,
+      dry_allowed_length: 2,
+      dry_penalty_last_n: -1,
+      dry_sequence_breakers: ['\n'],
+    });
+  });
+
+  it('puts the native Ollama samplers under options', () => {
+    expect(buildSamplerPayload('Ollama', sampler)).toEqual({
+      frequency_penalty: 0.2,
+      presence_penalty: 0.3,
+      seed: 42,
+      options: {
+        top_k: 40,
+        min_p: 0.05,
+        typical_p: 0.9,
+        repeat_last_n: 64,
+        repeat_penalty: 1.1,
+        mirostat: 2,
+        mirostat_tau: 5,
+        mirostat_eta: 0.1,
+      },
+    });
+  });
+
+  it('sends OpenAI only its subset, with n_probs as top_logprobs', () => {
+    expect(buildSamplerPayload('OpenAI', {...sampler, n_probs: 50})).toEqual({
+      frequency_penalty: 0.2,
+      presence_penalty: 0.3,
+      seed: 42,
+      logprobs: true,
+      top_logprobs: 20,
+    });
+  });
+
+  it('maps the LM Studio and vLLM subsets', () => {
+    expect(buildSamplerPayload('LM Studio', sampler)).toEqual({
+      top_k: 40,
+      repeat_penalty: 1.1,
+      frequency_penalty: 0.2,
+      presence_penalty: 0.3,
+      seed: 42,
+    });
+    expect(buildSamplerPayload('vLLM', sampler)).toEqual({
+      top_k: 40,
+      min_p: 0.05,
+      repetition_penalty: 1.1,
+      frequency_penalty: 0.2,
+      presence_penalty: 0.3,
+      seed: 42,
+      logprobs: true,
+      top_logprobs: 5,
+    });
+  });
+
+  it('omits switched-off samplers and the settings that tune them', () => {
+    expect(
+      buildSamplerPayload('llama.cpp', {
+        top_k: 40,
+        xtc_threshold: 0.1,
+        xtc_probability: 0,
+        penalty_repeat: 1,
+        mirostat: 0,
+        mirostat_tau: 5,
+        seed: -1,
+        n_probs: 0,
+        dry_multiplier: 0,
+        dry_base: 1.75,
+      }),
+    ).toEqual({top_k: 40});
+  });
+
+  it('sends nothing to an unknown server', () => {
+    expect(buildSamplerPayload(undefined, sampler)).toEqual({});
+    expect(buildSamplerPayload('unknown', sampler)).toEqual({});
+    expect(buildSamplerPayload('llama.cpp', undefined)).toEqual({});
+  });
+
+  it('reports which settings a server type ignores', () => {
+    expect(isSamplerParamIgnored('OpenAI', 'top_k')).toBe(true);
+    expect(isSamplerParamIgnored('OpenAI', 'seed')).toBe(false);
+    expect(isSamplerParamIgnored('llama.cpp', 'dry_base')).toBe(false);
+    expect(isSamplerParamIgnored('unknown', 'min_p')).toBe(true);
+    // Settings every server takes are never ignored.
+    expect(isSamplerParamIgnored('unknown', 'temperature')).toBe(false);
+  });
+});
+
+describe('streamChatCompletion sampler payload', () => {
+  let originalXHR: typeof XMLHttpRequest;
+  beforeEach(() => {
+    originalXHR = global.XMLHttpRequest;
+    (global as any).XMLHttpRequest = MockXHR;
+    MockXHR.instances = [];
+  });
+  afterEach(() => {
+    global.XMLHttpRequest = originalXHR;
+  });
+
+  const send = (serverType: string | undefined) => {
+    const resultPromise = streamChatCompletion(
+      {
+        messages: [{role: 'user', content: 'Hi'}],
+        model: 'm',
+        temperature: 0.7,
+        sampler: {top_k: 20, min_p: 0.1, seed: 3},
+      },
+      'http://localhost:1234',
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      serverType,
+    );
+    const xhr = MockXHR.instances[0];
+    const body = JSON.parse(xhr.requestBody);
+
+    xhr.simulateHeaders(200);
+    xhr.simulateProgress(
+      'data: {"choices":[{"delta":{},"finish_reason":"stop"}]}\n\ndata: [DONE]\n\n',
+    );
+    xhr.simulateLoad();
+    return resultPromise.then(() => body);
+  };
+
+  it('adds the mapped samplers to the request body', async () => {
+    const body = await send('Ollama');
+    expect(body).toMatchObject({
+      temperature: 0.7,
+      seed: 3,
+      options: {top_k: 20, min_p: 0.1},
+    });
+    // The internal carrier is never sent on the wire.
+    expect(body).not.toHaveProperty('sampler');
+  });
+
+  it('keeps the body to the common settings for an unknown server', async () => {
+    const body = await send(undefined);
+    expect(body).toEqual({
+      model: 'm',
+      messages: [{role: 'user', content: 'Hi'}],
+      stream: true,
+      temperature: 0.7,
+    });
+  });
+});
@@ -0,0 +1,684 @@
+import {
+  CONNECTION_TIMEOUT_MS,
+  IDLE_TIMEOUT_MS,
+  buildHeaders,
+  buildSamplerPayload,
+  encodeMessagesForRemote,
+  hasLocalImageAttachment,
+  normalizeUrl,
+  resolveTimeout,
+  type OpenAIToolChoice,
+  type OpenAIToolDefinition,
+  type SamplerParams,
+} from './openai';
+import {SSEParser} from './sseParser';
+
+import type {
+  CompletionResult,
+  CompletionStreamData,
+  ReasoningIntent,
+  ToolCall,
+} from '../utils/completionTypes';
+import type {ChatMessage} from '../utils/types';
+
+/**
+ * Client for Anthropic-style servers: POST /v1/messages with content blocks.
+ *
+ * The app speaks OpenAI-shaped chat messages everywhere, so this module
+ * translates at the wire: system messages become the top-level `system`,
+ * assistant tool_calls become `tool_use` blocks, role:'tool' messages become
+ * `tool_result` blocks on a user turn, and reasoning travels as `thinking`
+ * blocks. Going back, the streamed blocks are folded into the same
+ * CompletionResult the OpenAI path returns.
+ */
+
+/** A thinking block as the server sent it; only signed ones can be resent. */
+export type AnthropicThinkingBlock =
+  | {type: 'thinking'; thinking: string; signature: string}
+  | {type: 'redacted_thinking'; data: string};
+
+export type AnthropicContentBlock =
+  | {type: 'text'; text: string}
+  | {
+      type: 'image';
+      source:
+        | {type: 'base64'; media_type: string; data: string}
+        | {type: 'url'; url: string};
+    }
+  | {type: 'tool_use'; id: string; name: string; input: object}
+  | {type: 'tool_result'; tool_use_id: string; content: string}
+  | AnthropicThinkingBlock;
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+/** Parameters for a streamed /v1/messages request */
+export interface StreamMessagesParams {
+  messages: ChatMessage[];
+  model: string;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string | string[];
+  tools?: OpenAIToolDefinition[];
+  tool_choice?: OpenAIToolChoice;
+  reasoning?: ReasoningIntent;
+  sampler?: SamplerParams;
+  /**
+   * Signed thinking blocks for an assistant message's reasoning, when this
+   * client received them. Reasoning without them is not resent: the server
+   * rejects thinking blocks it cannot verify.
+   */
+  resolveThinking?: (
+    reasoningContent: string,
+  ) => AnthropicThinkingBlock[] | undefined;
+}
+
+export interface StreamMessagesResult extends CompletionResult {
+  /** The response's thinking blocks, for handing back on the next request. */
+  thinking_blocks?: AnthropicThinkingBlock[];
+}
+
+// `max_tokens` is required by the API; llama.rn's n_predict of -1 means
+// "until done", which has no equivalent.
+export const DEFAULT_MAX_TOKENS = 4096;
+
+// The API accepts budgets from 1024 up; effort levels map onto a doubling
+// ladder from there.
+const THINKING_BUDGETS: Record<string, number> = {
+  minimal: 1024,
+  low: 2048,
+  medium: 8192,
+  high: 16384,
+  xhigh: 32768,
+  max: 65536,
+};
+
+function toImageBlock(url: string): AnthropicContentBlock {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+  if (match) {
+    return {
+      type: 'image',
+      source: {type: 'base64', media_type: match[1], data: match[2]},
+    };
+  }
+  return {type: 'image', source: {type: 'url', url}};
+}
+
+function toContentBlocks(
+  content: ChatMessage['content'] | undefined,
+): AnthropicContentBlock[] {
+  if (typeof content === 'string') {
+    return content ? [{type: 'text', text: content}] : [];
+  }
+  const blocks: AnthropicContentBlock[] = [];
+  for (const part of content ?? []) {
+    if (part.type === 'text' && part.text) {
+      blocks.push({type: 'text', text: part.text});
+    } else if (part.type === 'image_url' && part.image_url?.url) {
+      blocks.push(toImageBlock(part.image_url.url));
+    }
+  }
+  return blocks;
+}
+
+function textOf(content: ChatMessage['content'] | undefined): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return (content ?? [])
+    .map(part => part.text ?? '')
+    .filter(Boolean)
+    .join('\n');
+}
+
+function parseToolInput(args: string | undefined): object {
+  try {
+    const input = JSON.parse(args || '{}');
+    return input && typeof input === 'object' && !Array.isArray(input)
+      ? input
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Translate OpenAI-shaped chat messages into `system` plus alternating
+ * user/assistant messages. Consecutive messages of one role are merged
+ * (tool results followed by a user message land in one user turn), and
+ * messages left without blocks are dropped — the API rejects empty content.
+ */
+export function toAnthropicMessages(
+  messages: ChatMessage[],
+  resolveThinking?: StreamMessagesParams['resolveThinking'],
+): {system?: string; messages: AnthropicMessage[]} {
+  const system: string[] = [];
+  const result: AnthropicMessage[] = [];
+
+  const append = (
+    role: AnthropicMessage['role'],
+    blocks: AnthropicContentBlock[],
+  ) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last?.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({role, content: blocks});
+    }
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system': {
+        const text = textOf(message.content);
+        if (text) {
+          system.push(text);
+        }
+        break;
+      }
+      case 'tool':
+        append('user', [
+          {
+            type: 'tool_result',
+            tool_use_id: message.tool_call_id ?? '',
+            content: textOf(message.content),
+          },
+        ]);
+        break;
+      case 'assistant': {
+        const blocks: AnthropicContentBlock[] = [];
+        if (message.reasoning_content) {
+          blocks.push(...(resolveThinking?.(message.reasoning_content) ?? []));
+        }
+        blocks.push(...toContentBlocks(message.content));
+        for (const call of message.tool_calls ?? []) {
+          blocks.push({
+            type: 'tool_use',
+            id: call.id ?? '',
+            name: call.function.name,
+            input: parseToolInput(call.function.arguments),
+          });
+        }
+        append('assistant', blocks);
+        break;
+      }
+      default:
+        append('user', toContentBlocks(message.content));
+    }
+  }
+
+  return {
+    system: system.length > 0 ? system.join('\n\n') : undefined,
+    messages: result,
+  };
+}
+
+function toAnthropicToolChoice(choice: OpenAIToolChoice): Record<string, any> {
+  if (typeof choice === 'object') {
+    return {type: 'tool', name: choice.function.name};
+  }
+  switch (choice) {
+    case 'required':
+      return {type: 'any'};
+    case 'none':
+      return {type: 'none'};
+    default:
+      return {type: 'auto'};
+  }
+}
+
+/**
+ * Build the /v1/messages request body. Only fields with meaningful values
+ * are sent, as on the OpenAI path.
+ *
+ * - Thinking is requested only for an explicit effort: a plain "on" is the
+ *   app default and would 400 on models that cannot think. It is skipped
+ *   when a tool is forced, which the API does not allow together.
+ * - With thinking on, temperature, top_p and top_k are omitted (the API pins
+ *   them).
+ *   Otherwise temperature is clamped to the API's 0–1 range, and top_p is
+ *   only sent without a temperature since newer models refuse both.
+ * - response_format has no equivalent and is dropped.
+ */
+export function buildMessagesRequest(
+  params: StreamMessagesParams,
+): Record<string, any> {
+  const {system, messages} = toAnthropicMessages(
+    params.messages,
+    params.resolveThinking,
+  );
+  let maxTokens =
+    params.max_tokens != null && params.max_tokens > 0
+      ? params.max_tokens
+      : DEFAULT_MAX_TOKENS;
+
+  const body: Record<string, any> = {
+    model: params.model,
+    messages,
+    stream: true,
+  };
+  if (system) {
+    body.system = system;
+  }
+
+  const forcesTool =
+    params.tool_choice === 'required' || typeof params.tool_choice === 'object';
+  const budget =
+    params.reasoning?.enabled && params.reasoning.effort && !forcesTool
+      ? THINKING_BUDGETS[params.reasoning.effort]
+      : undefined;
+  if (budget) {
+    // The budget counts against max_tokens and must stay below it.
+    if (maxTokens <= budget) {
+      maxTokens += budget;
+    }
+    body.thinking = {type: 'enabled', budget_tokens: budget};
+  } else if (params.temperature != null) {
+    body.temperature = Math.min(Math.max(params.temperature, 0), 1);
+  } else if (params.top_p != null) {
+    body.top_p = params.top_p;
+  }
+  if (!budget) {
+    Object.assign(body, buildSamplerPayload('Anthropic', params.sampler));
+  }
+  body.max_tokens = maxTokens;
+
+  // The API rejects whitespace-only stop sequences.
+  const stop = (
+    typeof params.stop === 'string' ? [params.stop] : (params.stop ?? [])
+  ).filter(s => s.trim());
+  if (stop.length > 0) {
+    body.stop_sequences = stop;
+  }
+  if (params.tools && params.tools.length > 0) {
+    body.tools = params.tools.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters ?? {
+        type: 'object',
+        properties: {},
+      },
+    }));
+    if (params.tool_choice !== undefined) {
+      body.tool_choice = toAnthropicToolChoice(params.tool_choice);
+    }
+  }
+  return body;
+}
+
+/** Per-index state of a content block while it streams. */
+type StreamedBlock =
+  | {type: 'text'}
+  | {type: 'thinking'; thinking: string; signature: string}
+  | {type: 'redacted_thinking'; data: string}
+  | {type: 'tool_use'; id: string; name: string; input: object; json: string[]};
+
+/**
+ * Stream a message from an Anthropic-style server.
+ * POST /v1/messages with stream: true
+ *
+ * Same XMLHttpRequest transport, timeouts and abort semantics as
+ * streamChatCompletion; an aborted stream resolves with what arrived.
+ */
+export async function streamMessages(
+  params: StreamMessagesParams,
+  serverUrl: string,
+  apiKey?: string,
+  signal?: AbortSignal,
+  onToken?: (data: CompletionStreamData) => void,
+  timeoutMs?: number,
+): Promise<StreamMessagesResult> {
+  const url = `${normalizeUrl(serverUrl)}/v1/messages`;
+  const connectionTimeoutMs = resolveTimeout(timeoutMs, CONNECTION_TIMEOUT_MS);
+  const idleTimeoutMs = resolveTimeout(timeoutMs, IDLE_TIMEOUT_MS);
+  const messages = hasLocalImageAttachment(params.messages)
+    ? ((await encodeMessagesForRemote(params.messages)) as ChatMessage[])
+    : params.messages;
+  const requestBody = buildMessagesRequest({...params, messages});
+
+  return new Promise<StreamMessagesResult>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    for (const [key, value] of Object.entries(
+      buildHeaders(apiKey, 'Anthropic'),
+    )) {
+      xhr.setRequestHeader(key, value);
+    }
+
+    const parser = new SSEParser();
+    const blocks = new Map<number, StreamedBlock>();
+    let fullContent = '';
+    let fullReasoningContent = '';
+    let textDeltas = 0;
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    let stopReason: string | null = null;
+    let stopSequence: string | null = null;
+    let lastProcessedLength = 0;
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      cleanup();
+      reject(error);
+      xhr.abort();
+    };
+
+    const connectionTimer = setTimeout(() => {
+      fail(new Error('Connection timed out'));
+    }, connectionTimeoutMs);
+
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+    const resetIdleTimer = () => {
+      if (idleTimer) {
+        clearTimeout(idleTimer);
+      }
+      idleTimer = setTimeout(() => {
+        fail(new Error('Idle timeout: no data received'));
+      }, idleTimeoutMs);
+    };
+
+    const onAbort = () => {
+      xhr.abort();
+    };
+    if (signal) {
+      if (signal.aborted) {
+        reject(new Error('Completion aborted'));
+        return;
+      }
+      signal.addEventListener('abort', onAbort, {once: true});
+    }
+
+    const cleanup = () => {
+      clearTimeout(connectionTimer);
+      if (idleTimer) {
+        clearTimeout(idleTimer);
+      }
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    };
+
+    const toolCalls = (): ToolCall[] | undefined => {
+      const calls = Array.from(blocks.entries())
+        .sort(([a], [b]) => a - b)
+        .flatMap(([, block]) =>
+          block.type === 'tool_use'
+            ? [
+                {
+                  id: block.id,
+                  type: 'function' as const,
+                  function: {
+                    name: block.name,
+                    // Input arrives as JSON fragments; a call with no
+                    // arguments streams none and keeps its start input.
+                    arguments:
+                      block.json.length > 0
+                        ? block.json.join('')
+                        : JSON.stringify(block.input),
+                  },
+                },
+              ]
+            : [],
+        );
+      return calls.length > 0 ? calls : undefined;
+    };
+
+    const thinkingBlocks = (): AnthropicThinkingBlock[] =>
+      Array.from(blocks.entries())
+        .sort(([a], [b]) => a - b)
+        .flatMap(([, block]): AnthropicThinkingBlock[] =>
+          block.type === 'thinking'
+            ? [
+                {
+                  type: 'thinking' as const,
+                  thinking: block.thinking,
+                  signature: block.signature,
+                },
+              ]
+            : block.type === 'redacted_thinking'
+              ? [block]
+              : [],
+        );
+
+    const emit = (token: string, toolCallsDelta?: ToolCall[]) => {
+      onToken?.({
+        token,
+        // Accumulated, like llama.rn and the OpenAI path.
+        content: fullContent || undefined,
+        reasoning_content: fullReasoningContent || undefined,
+        tool_calls: toolCallsDelta,
+      });
+    };
+
+    const handleEvent = (event: any) => {
+      switch (event?.type) {
+        case 'message_start':
+          inputTokens = event.message?.usage?.input_tokens;
+          break;
+        case 'content_block_start': {
+          const block = event.content_block ?? {};
+          if (block.type === 'tool_use') {
+            blocks.set(event.index, {
+              type: 'tool_use',
+              id: block.id ?? '',
+              name: block.name ?? '',
+              input: block.input ?? {},
+              json: [],
+            });
+            // Same per-chunk snapshot shape as the OpenAI path: the agent
+            // loop only reads the name mid-stream.
+            emit('', [
+              {
+                id: block.id ?? '',
+                type: 'function',
+                function: {name: block.name ?? '', arguments: ''},
+              },
+            ]);
+          } else if (block.type === 'thinking') {
+            blocks.set(event.index, {
+              type: 'thinking',
+              thinking: '',
+              signature: block.signature ?? '',
+            });
+          } else if (block.type === 'redacted_thinking') {
+            blocks.set(event.index, {
+              type: 'redacted_thinking',
+              data: block.data ?? '',
+            });
+          } else {
+            blocks.set(event.index, {type: 'text'});
+          }
+          break;
+        }
+        case 'content_block_delta': {
+          const block = blocks.get(event.index);
+          const delta = event.delta ?? {};
+          if (delta.type === 'text_delta' && delta.text) {
+            fullContent += delta.text;
+            textDeltas++;
+            emit(delta.text);
+          } else if (delta.type === 'thinking_delta' && delta.thinking) {
+            if (block?.type === 'thinking') {
+              block.thinking += delta.thinking;
+            }
+            fullReasoningContent += delta.thinking;
+            emit(delta.thinking);
+          } else if (delta.type === 'signature_delta') {
+            if (block?.type === 'thinking') {
+              block.signature += delta.signature ?? '';
+            }
+          } else if (delta.type === 'input_json_delta') {
+            if (block?.type === 'tool_use' && delta.partial_json) {
+              block.json.push(delta.partial_json);
+              emit('', [
+                {
+                  id: block.id,
+                  type: 'function',
+                  function: {name: block.name, arguments: delta.partial_json},
+                },
+              ]);
+            }
+          }
+          break;
+        }
+        case 'message_delta':
+          stopReason = event.delta?.stop_reason ?? stopReason;
+          stopSequence = event.delta?.stop_sequence ?? stopSequence;
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case 'error':
+          fail(
+            new Error(
+              `Server error: ${event.error?.message || event.error?.type || 'unknown'}`,
+            ),
+          );
+          break;
+        // ping, content_block_stop and message_stop carry nothing we need.
+      }
+    };
+
+    const processChunk = (chunk: string) => {
+      for (const event of parser.feed(chunk)) {
+        if (event === 'done') {
+          continue;
+        }
+        resetIdleTimer();
+        handleEvent(event);
+      }
+    };
+
+    const buildResult = (): StreamMessagesResult => {
+      const thinking = thinkingBlocks();
+      return {
+        text: fullContent,
+        content: fullContent,
+        reasoning_content: fullReasoningContent || undefined,
+        tool_calls: toolCalls(),
+        tokens_evaluated: inputTokens,
+        tokens_predicted: outputTokens ?? textDeltas,
+        thinking_blocks: thinking.length > 0 ? thinking : undefined,
+      };
+    };
+
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+        clearTimeout(connectionTimer);
+        if (xhr.status === 200) {
+          resetIdleTimer();
+        }
+      }
+
+      if (
+        xhr.readyState === XMLHttpRequest.DONE &&
+        xhr.status !== 200 &&
+        xhr.status !== 0
+      ) {
+        if (xhr.status === 401) {
+          fail(new Error('Unauthorized: Invalid or missing API key'));
+          return;
+        }
+        let detail = xhr.responseText.substring(0, 200);
+        try {
+          // {type: 'error', error: {type, message}}
+          const errorBody = JSON.parse(xhr.responseText);
+          detail = errorBody?.error?.message || errorBody?.error || detail;
+        } catch {
+          // Not JSON; keep the raw text.
+        }
+        fail(
+          new Error(
+            detail
+              ? `Server error: ${xhr.status} — ${detail}`
+              : `Server error: ${xhr.status}`,
+          ),
+        );
+      }
+    };
+
+    xhr.onprogress = () => {
+      if (signal?.aborted) {
+        lastProcessedLength = xhr.responseText.length;
+        return;
+      }
+      const newText = xhr.responseText.substring(lastProcessedLength);
+      lastProcessedLength = xhr.responseText.length;
+      if (newText) {
+        processChunk(newText);
+      }
+    };
+
+    xhr.onload = () => {
+      if (settled) {
+        return;
+      }
+      const remaining = xhr.responseText.substring(lastProcessedLength);
+      if (remaining) {
+        processChunk(remaining);
+      }
+      for (const event of parser.flush()) {
+        if (event !== 'done') {
+          handleEvent(event);
+        }
+      }
+      // An error event in the tail has already rejected.
+      if (settled) {
+        return;
+      }
+      settled = true;
+      cleanup();
+
+      const result = buildResult();
+      if (signal?.aborted) {
+        resolve({...result, interrupted: true});
+        return;
+      }
+      switch (stopReason) {
+        case 'end_turn':
+        case 'tool_use':
+          result.stopped_eos = true;
+          break;
+        case 'stop_sequence':
+          result.stopped_eos = true;
+          if (stopSequence) {
+            result.stopped_word = stopSequence;
+            result.stopping_word = stopSequence;
+          }
+          break;
+        case 'max_tokens':
+          result.stopped_limit = 1;
+          break;
+        case 'refusal':
+          result.interrupted = true;
+          break;
+      }
+      resolve(result);
+    };
+
+    xhr.onerror = () => {
+      fail(new Error(signal?.aborted ? 'Completion aborted' : 'Network error'));
+    };
+
+    xhr.onabort = () => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      cleanup();
+      if (signal?.aborted) {
+        resolve({...buildResult(), interrupted: true});
+      }
+    };
+
+    xhr.send(JSON.stringify(requestBody));
+  });
+}
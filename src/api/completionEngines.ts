@@ -1,12 +1,16 @@
 import {LlamaContext} from 'llama.rn';
 
-import {streamChatCompletion} from './openai';
+import {streamMessages, type AnthropicThinkingBlock} from './anthropic';
+import {pickSamplerParams, streamChatCompletion} from './openai';
 import {
   ApiCompletionParams,
+  CompletionBackend,
   CompletionEngine,
   CompletionResult,
   CompletionStreamData,
 } from '../utils/completionTypes';
+import {fromCompletionProbabilities} from '../utils/tokenProbs';
+import type {ChatMessage} from '../utils/types';
 
 export class LocalCompletionEngine implements CompletionEngine {
   constructor(private context: LlamaContext) {}
@@ -46,6 +50,7 @@ export class LocalCompletionEngine implements CompletionEngine {
       stopping_word: result.stopping_word,
       context_full: result.context_full,
       interrupted: result.interrupted,
+      token_probs: fromCompletionProbabilities(result.completion_probabilities),
     };
   }
 
@@ -87,6 +92,7 @@ export class OpenAICompletionEngine implements CompletionEngine {
         response_format: (params as any).response_format,
         // Reasoning intent carried on the params; openai.ts owns the wire shape.
         reasoning: params.reasoning,
+        sampler: pickSamplerParams(params),
       },
       this.serverUrl,
       this.apiKey,
@@ -102,3 +108,155 @@ export class OpenAICompletionEngine implements CompletionEngine {
     this.abortController = null;
   }
 }
+
+// Responses whose signed thinking blocks are kept for resending; a tool loop
+// only ever hands back the latest few.
+const MAX_REMEMBERED_THINKING = 8;
+
+export class AnthropicCompletionEngine implements CompletionEngine {
+  private abortController: AbortController | null = null;
+  // Thinking blocks this engine received, keyed by their joined reasoning
+  // text, which is all the app keeps of them in the next request's history.
+  private thinkingBlocks = new Map<string, AnthropicThinkingBlock[]>();
+
+  constructor(
+    private serverUrl: string,
+    private modelId: string,
+    private apiKey?: string,
+    private timeoutMs?: number,
+  ) {}
+
+  async completion(
+    params: ApiCompletionParams,
+    callback?: (data: CompletionStreamData) => void,
+  ): Promise<CompletionResult> {
+    this.abortController = new AbortController();
+
+    const {thinking_blocks, ...result} = await streamMessages(
+      {
+        messages: (params.messages || []) as ChatMessage[],
+        model: this.modelId,
+        temperature: params.temperature,
+        top_p: params.top_p,
+        max_tokens: params.n_predict,
+        stop: params.stop,
+        tools: (params as any).tools,
+        tool_choice: (params as any).tool_choice,
+        reasoning: params.reasoning,
+        sampler: pickSamplerParams(params),
+        resolveThinking: reasoning => this.thinkingBlocks.get(reasoning),
+      },
+      this.serverUrl,
+      this.apiKey,
+      this.abortController.signal,
+      callback,
+      this.timeoutMs,
+    );
+
+    if (thinking_blocks && result.reasoning_content) {
+      this.thinkingBlocks.set(result.reasoning_content, thinking_blocks);
+      if (this.thinkingBlocks.size > MAX_REMEMBERED_THINKING) {
+        const oldest = this.thinkingBlocks.keys().next().value;
+        this.thinkingBlocks.delete(oldest!);
+      }
+    }
+    return result;
+  }
+
+  async stopCompletion(): Promise<void> {
+    this.abortController?.abort();
+    this.abortController = null;
+  }
+}
+
+/**
+ * One backend a model group can run a turn on. `createEngine` runs at most
+ * once per group engine, and resolves undefined when the backend is gone
+ * (server removed, local model deleted), which skips it.
+ */
+export interface CompletionRoute {
+  backend: CompletionBackend;
+  createEngine: () => Promise<CompletionEngine | undefined>;
+}
+
+/**
+ * Runs a model group's turn on the first backend that answers, and tags the
+ * result with it. `resolveRoutes` runs per turn, so the order follows the
+ * latest health checks. A backend is only given up on when it fails before
+ * streaming anything: past the first token the user has seen its answer, and
+ * another backend would write a different one. A stopped turn never fails
+ * over.
+ */
+export class ModelGroupCompletionEngine implements CompletionEngine {
+  private engines = new Map<string, CompletionEngine>();
+  private current: CompletionEngine | null = null;
+  private stopped = false;
+
+  constructor(
+    private resolveRoutes: () => Promise<CompletionRoute[]>,
+    private onRouteFailed?: (
+      backend: CompletionBackend,
+      error: unknown,
+    ) => void,
+  ) {}
+
+  async completion(
+    params: ApiCompletionParams,
+    callback?: (data: CompletionStreamData) => void,
+  ): Promise<CompletionResult> {
+    this.stopped = false;
+    let lastError: unknown = new Error('No backend of this model answered');
+
+    for (const route of await this.resolveRoutes()) {
+      if (this.stopped) {
+        return {text: '', content: '', interrupted: true};
+      }
+      let streamed = false;
+      try {
+        const engine = await this.engineFor(route);
+        if (!engine) {
+          continue;
+        }
+        this.current = engine;
+        const result = await engine.completion(
+          params,
+          callback
+            ? data => {
+                streamed = true;
+                callback(data);
+              }
+            : undefined,
+        );
+        return {...result, backend: route.backend};
+      } catch (error) {
+        if (streamed || this.stopped) {
+          throw error;
+        }
+        this.onRouteFailed?.(route.backend, error);
+        lastError = error;
+      } finally {
+        this.current = null;
+      }
+    }
+    throw lastError;
+  }
+
+  async stopCompletion(): Promise<void> {
+    this.stopped = true;
+    await this.current?.stopCompletion();
+  }
+
+  private async engineFor(
+    route: CompletionRoute,
+  ): Promise<CompletionEngine | undefined> {
+    const cached = this.engines.get(route.backend.modelId);
+    if (cached) {
+      return cached;
+    }
+    const engine = await route.createEngine();
+    if (engine) {
+      this.engines.set(route.backend.modelId, engine);
+    }
+    return engine;
+  }
+}
@@ -0,0 +1,442 @@
+import {SSEParser} from './sseParser';
+
+/**
+ * Minimal Model Context Protocol client for the Streamable HTTP transport:
+ * every message is a POST to one endpoint, answered either with a JSON body
+ * or an SSE-framed body carrying the JSON-RPC response. The legacy
+ * HTTP+SSE transport needs a long-lived GET stream, which RN's XHR-backed
+ * fetch cannot read incrementally, so it is not supported; `connect`
+ * recognizes such servers and fails with `McpUnsupportedTransportError`.
+ *
+ * Only the tool surface is implemented (initialize, tools/list,
+ * tools/call); the client advertises no capabilities of its own.
+ */
+
+/** Newest first; the first entry is what `initialize` asks for. */
+export const MCP_PROTOCOL_VERSIONS = [
+  '2025-06-18',
+  '2025-03-26',
+  '2024-11-05',
+] as const;
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Tool calls are bounded by the agent runner's per-talent deadline through
+// the caller's signal; this is only a backstop.
+const TOOL_CALL_TIMEOUT_MS = 120000;
+
+// Tool results may carry base64 images; cap well above that but far below
+// anything that could pressure a device holding a loaded model. A declared
+// Content-Length over the cap is refused before the body is read; a body
+// without one is only measured once read.
+const MAX_BODY_CHARS = 8 * 1024 * 1024;
+
+// The legacy probe only needs the first event of a stream that never ends.
+const LEGACY_PROBE_TIMEOUT_MS = 5000;
+const LEGACY_PROBE_MAX_CHARS = 64 * 1024;
+const LEGACY_ENDPOINT_EVENT = /^event:[ \t]*endpoint[ \t]*\r?$/m;
+
+/** Tool as advertised by `tools/list`. */
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  /** JSON Schema for the arguments object. */
+  inputSchema: Record<string, any>;
+}
+
+export type McpContent =
+  | {type: 'text'; text: string}
+  | {type: 'image'; data: string; mimeType: string}
+  | {type: 'audio'; data: string; mimeType: string}
+  | {
+      type: 'resource';
+      resource: {uri: string; mimeType?: string; text?: string; blob?: string};
+    }
+  | {type: 'resource_link'; uri: string; name?: string; mimeType?: string};
+
+export interface McpCallToolResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+export interface McpServerInfo {
+  name: string;
+  version?: string;
+}
+
+export interface McpClientOptions {
+  url: string;
+  /** Sent as a bearer token when set. */
+  token?: string;
+  clientName?: string;
+  clientVersion?: string;
+}
+
+export interface McpRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/** JSON-RPC error returned by the server (as opposed to a transport failure). */
+export class McpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number,
+  ) {
+    super(message);
+    this.name = 'McpError';
+  }
+}
+
+/** The URL speaks the legacy HTTP+SSE transport, which is not supported. */
+export class McpUnsupportedTransportError extends Error {
+  constructor() {
+    super('Unsupported MCP transport: legacy HTTP+SSE');
+    this.name = 'McpUnsupportedTransportError';
+  }
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string;
+  result?: any;
+  error?: {code: number; message: string};
+}
+
+const isResponseFor = (msg: any, id: number): msg is JsonRpcResponse =>
+  !!msg &&
+  typeof msg === 'object' &&
+  msg.id === id &&
+  ('result' in msg || 'error' in msg);
+
+/** Pull the response for `id` out of a JSON or SSE-framed body. */
+function extractResponse(
+  body: string,
+  contentType: string,
+  id: number,
+): JsonRpcResponse | undefined {
+  if (contentType.includes('text/event-stream')) {
+    // Servers may interleave notifications/requests before the answer.
+    const parser = new SSEParser();
+    for (const msg of [...parser.feed(body), ...parser.flush()]) {
+      if (isResponseFor(msg, id)) {
+        return msg;
+      }
+    }
+    return undefined;
+  }
+  const parsed = JSON.parse(body);
+  const messages = Array.isArray(parsed) ? parsed : [parsed];
+  return messages.find(msg => isResponseFor(msg, id));
+}
+
+export class McpClient {
+  private sessionId: string | undefined;
+  private protocolVersion: string | undefined;
+  private nextId = 1;
+  private connecting: Promise<McpServerInfo> | undefined;
+
+  serverInfo: McpServerInfo | undefined;
+
+  constructor(private readonly options: McpClientOptions) {}
+
+  get isConnected(): boolean {
+    return this.protocolVersion !== undefined;
+  }
+
+  /** Run the initialize handshake. Concurrent callers share one attempt. */
+  connect(opts?: McpRequestOptions): Promise<McpServerInfo> {
+    if (!this.connecting) {
+      this.connecting = this.initialize(opts).catch(error => {
+        this.connecting = undefined;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+
+  /** Every tool the server lists, following pagination cursors. */
+  async listTools(opts?: McpRequestOptions): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request(
+        'tools/list',
+        cursor ? {cursor} : {},
+        opts,
+      );
+      for (const tool of result?.tools ?? []) {
+        if (tool && typeof tool.name === 'string') {
+          tools.push({...tool, inputSchema: tool.inputSchema ?? {}});
+        }
+      }
+      cursor =
+        typeof result?.nextCursor === 'string' ? result.nextCursor : undefined;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, any>,
+    opts?: McpRequestOptions,
+  ): Promise<McpCallToolResult> {
+    const result = await this.request(
+      'tools/call',
+      {name, arguments: args},
+      {timeoutMs: TOOL_CALL_TIMEOUT_MS, ...opts},
+    );
+    return {
+      content: Array.isArray(result?.content) ? result.content : [],
+      isError: result?.isError === true,
+    };
+  }
+
+  /** End the session. Best effort — the server may already be gone. */
+  async close(): Promise<void> {
+    const sessionId = this.sessionId;
+    this.reset();
+    if (!sessionId) {
+      return;
+    }
+    try {
+      await this.post(undefined, {method: 'DELETE', sessionId});
+    } catch {
+      // Nothing to clean up on our side.
+    }
+  }
+
+  private reset() {
+    this.sessionId = undefined;
+    this.protocolVersion = undefined;
+    this.connecting = undefined;
+    this.serverInfo = undefined;
+  }
+
+  private async initialize(opts?: McpRequestOptions): Promise<McpServerInfo> {
+    this.sessionId = undefined;
+    const id = this.nextId++;
+    const res = await this.post(
+      {
+        jsonrpc: '2.0',
+        id,
+        method: 'initialize',
+        params: {
+          protocolVersion: MCP_PROTOCOL_VERSIONS[0],
+          capabilities: {},
+          clientInfo: {
+            name: this.options.clientName ?? 'PocketPal',
+            version: this.options.clientVersion ?? '0.0.0',
+          },
+        },
+      },
+      opts,
+    );
+    // A legacy server has no POST endpoint at its stream URL (405), and
+    // any other 4xx may still be one: the spec's fallback asks the stream.
+    if (
+      res.status === 405 ||
+      (res.status >= 400 &&
+        res.status < 500 &&
+        res.status !== 401 &&
+        res.status !== 403 &&
+        (await this.probeLegacyTransport()))
+    ) {
+      throw new McpUnsupportedTransportError();
+    }
+    const response = this.readResponse(res, id);
+    const version = response.protocolVersion;
+    if (!(MCP_PROTOCOL_VERSIONS as readonly string[]).includes(version)) {
+      throw new Error(`Unsupported MCP protocol version: ${version}`);
+    }
+    this.sessionId = res.sessionId;
+    this.protocolVersion = version;
+    this.serverInfo = {
+      name: response.serverInfo?.name ?? 'MCP server',
+      version: response.serverInfo?.version,
+    };
+    await this.post(
+      {jsonrpc: '2.0', method: 'notifications/initialized'},
+      opts,
+    );
+    return this.serverInfo;
+  }
+
+  /**
+   * True when a GET on the URL opens an SSE stream starting with the
+   * legacy `endpoint` event. The stream never ends, so it is read through
+   * XHR's incremental events and aborted as soon as the answer is known.
+   */
+  private probeLegacyTransport(): Promise<boolean> {
+    return new Promise(resolve => {
+      const xhr = new XMLHttpRequest();
+      let settled = false;
+      const settle = (legacy: boolean) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        resolve(legacy);
+        xhr.abort();
+      };
+      const timer = setTimeout(() => settle(false), LEGACY_PROBE_TIMEOUT_MS);
+
+      xhr.open('GET', this.options.url);
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+      if (this.options.token) {
+        xhr.setRequestHeader('Authorization', `Bearer ${this.options.token}`);
+      }
+      xhr.onreadystatechange = () => {
+        if (
+          xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED &&
+          xhr.status !== 200
+        ) {
+          settle(false);
+        } else if (xhr.readyState === XMLHttpRequest.DONE) {
+          settle(LEGACY_ENDPOINT_EVENT.test(xhr.responseText));
+        }
+      };
+      xhr.onprogress = () => {
+        if (LEGACY_ENDPOINT_EVENT.test(xhr.responseText)) {
+          settle(true);
+        } else if (xhr.responseText.length > LEGACY_PROBE_MAX_CHARS) {
+          settle(false);
+        }
+      };
+      xhr.onerror = () => settle(false);
+      xhr.send();
+    });
+  }
+
+  private async request(
+    method: string,
+    params: Record<string, any>,
+    opts?: McpRequestOptions,
+    retried = false,
+  ): Promise<any> {
+    await this.connect(opts);
+    const id = this.nextId++;
+    const onAbort = () => {
+      // Let the server stop work we no longer want. Fire-and-forget.
+      this.post({
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: {requestId: id, reason: 'cancelled'},
+      }).catch(() => {});
+    };
+    opts?.signal?.addEventListener('abort', onAbort);
+    try {
+      const res = await this.post({jsonrpc: '2.0', id, method, params}, opts);
+      // The server forgot our session (restart, idle expiry): start a new
+      // one and retry once, as the transport spec asks.
+      if (res.status === 404 && this.sessionId && !retried) {
+        this.reset();
+        return this.request(method, params, opts, true);
+      }
+      return this.readResponse(res, id);
+    } finally {
+      opts?.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private readResponse(
+    res: {status: number; body: string; contentType: string},
+    id: number,
+  ): any {
+    if (res.status === 401 || res.status === 403) {
+      throw new Error('Unauthorized: invalid or missing token');
+    }
+    if (res.status < 200 || res.status >= 300) {
+      throw new Error(`Server error: ${res.status}`);
+    }
+    let response: JsonRpcResponse | undefined;
+    try {
+      response = extractResponse(res.body, res.contentType, id);
+    } catch {
+      throw new Error('Malformed MCP response');
+    }
+    if (!response) {
+      throw new Error('Malformed MCP response');
+    }
+    if (response.error) {
+      throw new McpError(
+        response.error.message ?? 'MCP error',
+        response.error.code,
+      );
+    }
+    return response.result;
+  }
+
+  private async post(
+    message: Record<string, any> | undefined,
+    opts?: McpRequestOptions & {method?: string; sessionId?: string},
+  ): Promise<{
+    status: number;
+    body: string;
+    contentType: string;
+    sessionId?: string;
+  }> {
+    const external = opts?.signal;
+    if (external?.aborted) {
+      throw new Error('cancelled');
+    }
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    };
+    if (this.options.token) {
+      headers.Authorization = `Bearer ${this.options.token}`;
+    }
+    const sessionId = opts?.sessionId ?? this.sessionId;
+    if (sessionId) {
+      headers['Mcp-Session-Id'] = sessionId;
+    }
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(),
+      opts?.timeoutMs ?? REQUEST_TIMEOUT_MS,
+    );
+    const onExternalAbort = () => controller.abort();
+    external?.addEventListener('abort', onExternalAbort);
+    try {
+      const response = await fetch(this.options.url, {
+        method: opts?.method ?? 'POST',
+        headers,
+        body: message ? JSON.stringify(message) : undefined,
+        signal: controller.signal,
+      });
+      const length = Number(response.headers?.get?.('content-length'));
+      if (length > MAX_BODY_CHARS) {
+        // Drops the connection instead of downloading the body.
+        controller.abort();
+        throw new Error('response too large');
+      }
+      const body = response.status === 202 ? '' : await response.text();
+      if (body.length > MAX_BODY_CHARS) {
+        throw new Error('response too large');
+      }
+      return {
+        status: response.status,
+        body,
+        contentType: response.headers?.get?.('content-type') ?? '',
+        sessionId: response.headers?.get?.('mcp-session-id') ?? undefined,
+      };
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new Error(
+          external?.aborted ? 'cancelled' : 'Connection timed out',
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      external?.removeEventListener('abort', onExternalAbort);
+    }
+  }
+}
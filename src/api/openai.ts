@@ -5,14 +5,18 @@ import {
   CompletionResult,
   CompletionStreamData,
   ReasoningIntent,
+  TokenProbability,
   ToolCall,
 } from '../utils/completionTypes';
+import {MAX_STORED_TOKEN_PROBS, fromLogprobs} from '../utils/tokenProbs';
 import {RemoteModelCaps} from '../utils/types';
 
 /**
  * Raw API response shape from OpenAI /v1/models. The optional fields are what
  * a llama.cpp server adds: the first three arrive on the row itself, the last
  * is lifted from the sibling `models[]` array a single-model server emits.
+ * An Anthropic-style server lists rows as `{id, type: 'model', display_name}`
+ * instead, without `object` or `owned_by`.
  */
 export interface RemoteModelInfo {
   id: string;
@@ -22,6 +26,8 @@ export interface RemoteModelInfo {
   architecture?: {input_modalities?: string[]; output_modalities?: string[]};
   meta?: {n_ctx?: number; n_ctx_train?: number; [key: string]: unknown};
   capabilities?: string[];
+  type?: string;
+  display_name?: string;
 }
 
 /** Chat message type compatible with OpenAI API format */
@@ -67,6 +73,35 @@ export type OpenAIResponseFormat =
       };
     };
 
+/** The llama.rn sampler settings a remote server may also honour. */
+export const SAMPLER_PARAM_KEYS = [
+  'top_k',
+  'min_p',
+  'xtc_threshold',
+  'xtc_probability',
+  'typical_p',
+  'penalty_last_n',
+  'penalty_repeat',
+  'penalty_freq',
+  'penalty_present',
+  'mirostat',
+  'mirostat_tau',
+  'mirostat_eta',
+  'seed',
+  'n_probs',
+  'dry_multiplier',
+  'dry_base',
+  'dry_allowed_length',
+  'dry_penalty_last_n',
+  'dry_sequence_breakers',
+] as const;
+
+export type SamplerParamKey = (typeof SAMPLER_PARAM_KEYS)[number];
+
+export type SamplerParams = Partial<
+  Record<Exclude<SamplerParamKey, 'dry_sequence_breakers'>, number>
+> & {dry_sequence_breakers?: string[]};
+
 /** Parameters for streaming chat completion */
 export interface StreamChatParams {
   messages: OpenAIChatMessage[];
@@ -81,6 +116,8 @@ export interface StreamChatParams {
   response_format?: OpenAIResponseFormat;
   /** Reasoning on/off + effort intent; translated to a per-serverType payload. */
   reasoning?: ReasoningIntent;
+  /** Sampler settings beyond the four above; translated per serverType. */
+  sampler?: SamplerParams;
 }
 
 /**
@@ -159,8 +196,8 @@ function assembleFinalToolCalls(
     }));
 }
 
-const CONNECTION_TIMEOUT_MS = 30000;
-const IDLE_TIMEOUT_MS = 60000;
+export const CONNECTION_TIMEOUT_MS = 30000;
+export const IDLE_TIMEOUT_MS = 60000;
 
 /**
  * Single normalization site for a per-server timeout. An undefined, NaN,
@@ -168,7 +205,7 @@ const IDLE_TIMEOUT_MS = 60000;
  * Callers (stores, engine, sheets) forward raw values; only this layer
  * enforces the floor.
  */
-function resolveTimeout(
+export function resolveTimeout(
   timeoutMs: number | undefined,
   fallback: number,
 ): number {
@@ -194,13 +231,27 @@ function isValidChatChunk(parsed: any): boolean {
   return choice.delta !== undefined || choice.finish_reason !== undefined;
 }
 
+/** Pinned `anthropic-version` header for Anthropic-style servers. */
+export const ANTHROPIC_VERSION = '2023-06-01';
+
 /**
- * Build headers for OpenAI-compatible API requests.
+ * Build headers for OpenAI-compatible API requests. An Anthropic-style
+ * server takes the key as `x-api-key` and wants the API version pinned.
  */
-function buildHeaders(apiKey?: string): Record<string, string> {
+export function buildHeaders(
+  apiKey?: string,
+  serverType?: string,
+): Record<string, string> {
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
   };
+  if (serverType === 'Anthropic') {
+    headers['anthropic-version'] = ANTHROPIC_VERSION;
+    if (apiKey) {
+      headers['x-api-key'] = apiKey;
+    }
+    return headers;
+  }
   if (apiKey) {
     headers.Authorization = `Bearer ${apiKey}`;
   }
@@ -210,7 +261,7 @@ function buildHeaders(apiKey?: string): Record<string, string> {
 /**
  * Normalize server URL: remove trailing slash.
  */
-function normalizeUrl(serverUrl: string): string {
+export function normalizeUrl(serverUrl: string): string {
   return serverUrl.replace(/\/+$/, '');
 }
 
@@ -247,12 +298,14 @@ function liftModelEntryCapabilities(
 
 /**
  * Fetch available models and response headers from an OpenAI-compatible server.
- * GET /v1/models
+ * GET /v1/models. `serverType` only picks the auth headers; Anthropic-style
+ * servers answer the same path.
  */
 export async function fetchModelsWithHeaders(
   serverUrl: string,
   apiKey?: string,
   timeoutMs?: number,
+  serverType?: string,
 ): Promise<FetchModelsResult> {
   const url = `${normalizeUrl(serverUrl)}/v1/models`;
   const controller = new AbortController();
@@ -264,7 +317,7 @@ export async function fetchModelsWithHeaders(
   try {
     const response = await fetch(url, {
       method: 'GET',
-      headers: buildHeaders(apiKey),
+      headers: buildHeaders(apiKey, serverType),
       signal: controller.signal,
     });
 
@@ -308,8 +361,14 @@ export async function fetchModels(
   serverUrl: string,
   apiKey?: string,
   timeoutMs?: number,
+  serverType?: string,
 ): Promise<RemoteModelInfo[]> {
-  const {models} = await fetchModelsWithHeaders(serverUrl, apiKey, timeoutMs);
+  const {models} = await fetchModelsWithHeaders(
+    serverUrl,
+    apiKey,
+    timeoutMs,
+    serverType,
+  );
   return models;
 }
 
@@ -389,9 +448,10 @@ export async function testConnection(
   serverUrl: string,
   apiKey?: string,
   timeoutMs?: number,
+  serverType?: string,
 ): Promise<{ok: boolean; modelCount: number; error?: string}> {
   try {
-    const models = await fetchModels(serverUrl, apiKey, timeoutMs);
+    const models = await fetchModels(serverUrl, apiKey, timeoutMs, serverType);
     return {ok: true, modelCount: models.length};
   } catch (error: any) {
     return {ok: false, modelCount: 0, error: error.message || 'Unknown error'};
@@ -409,8 +469,9 @@ export const PROPS_TIMEOUT_MS = 5000;
  * Checks (cheapest first):
  * 1. Server header === 'llama.cpp'
  * 2. Any model owned_by === 'organization_owner' → LM Studio
- * 3. GET / body === 'Ollama is running' → Ollama
- * 4. Unknown → ''
+ * 3. Rows shaped `{type: 'model'}` with no `object` → Anthropic
+ * 4. GET / body === 'Ollama is running' → Ollama
+ * 5. Unknown → ''
  */
 export async function detectServerType(
   serverUrl: string,
@@ -428,7 +489,12 @@ export async function detectServerType(
     return 'LM Studio';
   }
 
-  // 3. Ollama responds with 'Ollama is running' at GET /
+  // 3. Anthropic-style /v1/models rows carry `type` where OpenAI has `object`
+  if (models.length > 0 && models.every(m => m.type === 'model' && !m.object)) {
+    return 'Anthropic';
+  }
+
+  // 4. Ollama responds with 'Ollama is running' at GET /
   try {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), DETECT_TIMEOUT_MS);
@@ -524,6 +590,192 @@ export function buildReasoningPayload(
   }
 }
 
+// Wire name of each sampler setting a server type accepts. A setting missing
+// from a server's map is not sent, and CompletionSettings marks it as ignored.
+// Unknown servers get none of them — omit beats a 400.
+const SAMPLER_WIRE_NAMES: Record<
+  string,
+  Partial<Record<SamplerParamKey, string>>
+> = {
+  'llama.cpp': {
+    top_k: 'top_k',
+    min_p: 'min_p',
+    xtc_threshold: 'xtc_threshold',
+    xtc_probability: 'xtc_probability',
+    typical_p: 'typical_p',
+    penalty_last_n: 'repeat_last_n',
+    penalty_repeat: 'repeat_penalty',
+    penalty_freq: 'frequency_penalty',
+    penalty_present: 'presence_penalty',
+    mirostat: 'mirostat',
+    mirostat_tau: 'mirostat_tau',
+    mirostat_eta: 'mirostat_eta',
+    seed: 'seed',
+    n_probs: 'top_logprobs',
+    dry_multiplier: 'dry_multiplier',
+    dry_base: 'dry_base',
+    dry_allowed_length: 'dry_allowed_length',
+    dry_penalty_last_n: 'dry_penalty_last_n',
+    dry_sequence_breakers: 'dry_sequence_breakers',
+  },
+  'LM Studio': {
+    top_k: 'top_k',
+    penalty_repeat: 'repeat_penalty',
+    penalty_freq: 'frequency_penalty',
+    penalty_present: 'presence_penalty',
+    seed: 'seed',
+  },
+  Ollama: {
+    top_k: 'top_k',
+    min_p: 'min_p',
+    typical_p: 'typical_p',
+    penalty_last_n: 'repeat_last_n',
+    penalty_repeat: 'repeat_penalty',
+    penalty_freq: 'frequency_penalty',
+    penalty_present: 'presence_penalty',
+    mirostat: 'mirostat',
+    mirostat_tau: 'mirostat_tau',
+    mirostat_eta: 'mirostat_eta',
+    seed: 'seed',
+  },
+  vLLM: {
+    top_k: 'top_k',
+    min_p: 'min_p',
+    penalty_repeat: 'repetition_penalty',
+    penalty_freq: 'frequency_penalty',
+    penalty_present: 'presence_penalty',
+    seed: 'seed',
+    n_probs: 'top_logprobs',
+  },
+  OpenAI: {
+    penalty_freq: 'frequency_penalty',
+    penalty_present: 'presence_penalty',
+    seed: 'seed',
+    n_probs: 'top_logprobs',
+  },
+  Anthropic: {
+    top_k: 'top_k',
+  },
+};
+
+// Ollama's /v1 endpoint takes these three at the top level; its native
+// samplers go under `options`.
+const OLLAMA_TOP_LEVEL_SAMPLERS = new Set<SamplerParamKey>([
+  'penalty_freq',
+  'penalty_present',
+  'seed',
+]);
+
+// Values that leave a sampler switched off. They are not sent, so the server
+// keeps its own default and a strict server only sees settings in use.
+const NEUTRAL_SAMPLER_VALUES: Partial<Record<SamplerParamKey, number>> = {
+  top_k: 0,
+  min_p: 0,
+  xtc_probability: 0,
+  typical_p: 1,
+  penalty_repeat: 1,
+  penalty_freq: 0,
+  penalty_present: 0,
+  mirostat: 0,
+  n_probs: 0,
+  dry_multiplier: 0,
+};
+
+// Settings that only tune another sampler, sent only while that one is on.
+const SAMPLER_DEPENDENCIES: Partial<Record<SamplerParamKey, SamplerParamKey>> =
+  {
+    xtc_threshold: 'xtc_probability',
+    mirostat_tau: 'mirostat',
+    mirostat_eta: 'mirostat',
+    dry_base: 'dry_multiplier',
+    dry_allowed_length: 'dry_multiplier',
+    dry_penalty_last_n: 'dry_multiplier',
+    dry_sequence_breakers: 'dry_multiplier',
+  };
+
+// OpenAI caps top_logprobs at 20.
+const MAX_TOP_LOGPROBS = 20;
+
+function isSamplerParamKey(name: string): name is SamplerParamKey {
+  return (SAMPLER_PARAM_KEYS as readonly string[]).includes(name);
+}
+
+function isSamplerActive(sampler: SamplerParams, key: SamplerParamKey) {
+  const value = sampler[key];
+  if (value == null || value === NEUTRAL_SAMPLER_VALUES[key]) {
+    return false;
+  }
+  if (key === 'seed' && (value as number) < 0) {
+    return false;
+  }
+  const dependency = SAMPLER_DEPENDENCIES[key];
+  return !dependency || isSamplerActive(sampler, dependency);
+}
+
+/** Pick the sampler settings out of a full set of completion params. */
+export function pickSamplerParams(params: Record<string, any>): SamplerParams {
+  const sampler: Record<string, any> = {};
+  for (const key of SAMPLER_PARAM_KEYS) {
+    if (params[key] != null) {
+      sampler[key] = params[key];
+    }
+  }
+  return sampler as SamplerParams;
+}
+
+/**
+ * True when `name` is a sampler setting a server of this type never receives.
+ * Settings every server takes (temperature, top_p, …) are never ignored.
+ */
+export function isSamplerParamIgnored(
+  serverType: string | undefined,
+  name: string,
+): boolean {
+  return (
+    isSamplerParamKey(name) && !SAMPLER_WIRE_NAMES[serverType ?? '']?.[name]
+  );
+}
+
+/**
+ * Translate the sampler settings into the per-serverType wire payload, keyed
+ * on the persisted serverType like buildReasoningPayload.
+ *
+ * - llama.cpp: every setting, under the server's native names, except n_probs
+ *   which goes as logprobs + top_logprobs so the chat stream carries them.
+ * - Ollama: frequency/presence penalty and seed at the top level, the native
+ *   samplers under `options`.
+ * - LM Studio / vLLM: the extra samplers each documents.
+ * - OpenAI: penalties, seed and n_probs as logprobs + top_logprobs.
+ * - Anthropic: top_k (see api/anthropic.ts).
+ * - unknown: nothing.
+ */
+export function buildSamplerPayload(
+  serverType: string | undefined,
+  sampler: SamplerParams | undefined,
+): Record<string, any> {
+  const wireNames = SAMPLER_WIRE_NAMES[serverType ?? ''];
+  if (!sampler || !wireNames) {
+    return {};
+  }
+  const payload: Record<string, any> = {};
+  for (const key of SAMPLER_PARAM_KEYS) {
+    const wireName = wireNames[key];
+    if (!wireName || !isSamplerActive(sampler, key)) {
+      continue;
+    }
+    if (serverType === 'Ollama' && !OLLAMA_TOP_LEVEL_SAMPLERS.has(key)) {
+      payload.options = {...payload.options, [wireName]: sampler[key]};
+    } else {
+      payload[wireName] = sampler[key];
+    }
+  }
+  if (payload.top_logprobs != null) {
+    payload.logprobs = true;
+    payload.top_logprobs = Math.min(payload.top_logprobs, MAX_TOP_LOGPROBS);
+  }
+  return payload;
+}
+
 /** A local image path needs inlining: not already a data: or http(s): url. */
 function isLocalImageUrl(url: string | undefined): url is string {
   return (
@@ -535,7 +787,9 @@ function isLocalImageUrl(url: string | undefined): url is string {
 }
 
 /** True when any message carries a local-path image that must be encoded. */
-function hasLocalImageAttachment(messages: OpenAIChatMessage[]): boolean {
+export function hasLocalImageAttachment(
+  messages: OpenAIChatMessage[],
+): boolean {
   return messages.some(
     m =>
       Array.isArray(m.content) &&
@@ -654,7 +908,7 @@ async function encodeImagePart(part: {
  * Encodes sequentially (outer messages and inner parts) so peak heap is one
  * base64 buffer at a time on a long or multi-image history.
  */
-async function encodeMessagesForRemote(
+export async function encodeMessagesForRemote(
   messages: OpenAIChatMessage[],
 ): Promise<OpenAIChatMessage[]> {
   const encoded: OpenAIChatMessage[] = [];
@@ -709,6 +963,16 @@ export async function streamChatCompletion(
     let lastProcessedLength = 0;
     let settled = false;
     let serverTimings: CompletionResult['timings'] | undefined;
+    // Present when top_logprobs was requested; capped at what a message keeps.
+    const tokenProbs: TokenProbability[] = [];
+    const appendLogprobs = (logprobs: any) => {
+      if (
+        Array.isArray(logprobs?.content) &&
+        tokenProbs.length < MAX_STORED_TOKEN_PROBS
+      ) {
+        tokenProbs.push(...fromLogprobs(logprobs.content));
+      }
+    };
     // OpenAI streams partial tool_calls across chunks, indexed by
     // `delta.tool_calls[i].index`. Rebuild the per-call shape here so
     // the final result carries fully formed tool_calls and the streaming
@@ -795,6 +1059,7 @@ export async function streamChatCompletion(
         if (choice.finish_reason) {
           finishReason = choice.finish_reason;
         }
+        appendLogprobs(choice.logprobs);
 
         // Extract server-side timings (llama.cpp includes these at event level)
         if (parsed.timings) {
@@ -933,6 +1198,7 @@ export async function streamChatCompletion(
         if (choice.finish_reason) {
           finishReason = choice.finish_reason;
         }
+        appendLogprobs(choice.logprobs);
         if (parsed.timings) {
           serverTimings = parsed.timings;
         }
@@ -954,6 +1220,7 @@ export async function streamChatCompletion(
           tool_calls: finalToolCalls,
           tokens_predicted: tokensPredicted,
           interrupted: true,
+          token_probs: tokenProbs.length > 0 ? tokenProbs : undefined,
         });
         return;
       }
@@ -969,6 +1236,7 @@ export async function streamChatCompletion(
         tokens_evaluated: serverTimings?.prompt_n,
         tokens_predicted: serverTimings?.predicted_n ?? tokensPredicted,
         timings: serverTimings,
+        token_probs: tokenProbs.length > 0 ? tokenProbs : undefined,
       };
 
       switch (finishReason) {
@@ -1022,6 +1290,7 @@ export async function streamChatCompletion(
           reasoning_content: fullReasoningContent || undefined,
           tokens_predicted: tokensPredicted,
           interrupted: true,
+          token_probs: tokenProbs.length > 0 ? tokenProbs : undefined,
         });
       }
       // If not externally aborted, the reject was already called
@@ -1090,6 +1359,7 @@ export async function streamChatCompletion(
         requestBody[key] = value;
       }
     }
+    Object.assign(requestBody, buildSamplerPayload(serverType, params.sampler));
     xhr.send(JSON.stringify(requestBody));
   });
 }
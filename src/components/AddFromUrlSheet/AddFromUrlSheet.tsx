@@ -0,0 +1,226 @@
+import React, {useState, useContext, useEffect} from 'react';
+import {View} from 'react-native';
+import {Text, Button, ActivityIndicator, Icon} from 'react-native-paper';
+import {observer} from 'mobx-react';
+
+import {Sheet, TextInput} from '..';
+import {useTheme} from '../../hooks';
+import {modelStore} from '../../store';
+import {L10nContext, formatBytes} from '../../utils';
+import {isLocalHost} from '../../utils/network';
+import {
+  UrlModelProbe,
+  normalizeModelUrl,
+  parseHeaderLines,
+  probeModelUrl,
+} from '../../utils/urlImport';
+import {t} from '../../locales';
+
+import {createStyles} from './styles';
+
+interface AddFromUrlSheetProps {
+  isVisible: boolean;
+  onDismiss: () => void;
+}
+
+/**
+ * Imports a GGUF from a direct link: a hub other than Hugging Face, or a plain
+ * HTTP server on the local network. The header is read before anything is
+ * downloaded, so the user sees what the link serves first.
+ */
+export const AddFromUrlSheet: React.FC<AddFromUrlSheetProps> = observer(
+  ({isVisible, onDismiss}) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const styles = createStyles(theme);
+    const strings = l10n.components.addFromUrlSheet;
+
+    const [url, setUrl] = useState('');
+    const [headers, setHeaders] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [probe, setProbe] = useState<UrlModelProbe | null>(null);
+    const [isProbing, setIsProbing] = useState(false);
+    const [isAdding, setIsAdding] = useState(false);
+
+    useEffect(() => {
+      if (isVisible) {
+        setUrl('');
+        setHeaders('');
+        setError(null);
+        setProbe(null);
+        setIsProbing(false);
+        setIsAdding(false);
+      }
+    }, [isVisible]);
+
+    // A probe only vouches for the link and headers it was made with.
+    const handleChangeUrl = (text: string) => {
+      setUrl(text);
+      setProbe(null);
+      setError(null);
+    };
+
+    const handleChangeHeaders = (text: string) => {
+      setHeaders(text);
+      setProbe(null);
+      setError(null);
+    };
+
+    const handleCheck = async () => {
+      if (!normalizeModelUrl(url)) {
+        setError(strings.invalidUrl);
+        return;
+      }
+      const parsedHeaders = parseHeaderLines(headers);
+      if (!parsedHeaders) {
+        setError(strings.invalidHeaders);
+        return;
+      }
+      setIsProbing(true);
+      setError(null);
+      try {
+        setProbe(await probeModelUrl(url, parsedHeaders));
+      } catch (e) {
+        setError(
+          t(strings.probeFailed, {
+            message: e instanceof Error ? e.message : String(e),
+          }),
+        );
+      } finally {
+        setIsProbing(false);
+      }
+    };
+
+    const handleDownload = async () => {
+      if (!probe) {
+        return;
+      }
+      setIsAdding(true);
+      try {
+        await modelStore.addUrlModel(probe, parseHeaderLines(headers) ?? {});
+        onDismiss();
+      } catch (e) {
+        setError(
+          t(strings.addFailed, {
+            message: e instanceof Error ? e.message : String(e),
+          }),
+        );
+      } finally {
+        setIsAdding(false);
+      }
+    };
+
+    const showHttpWarning =
+      url.trim().startsWith('http://') &&
+      !isLocalHost(url.trim()) &&
+      headers.trim().length > 0;
+
+    return (
+      <Sheet
+        isVisible={isVisible}
+        onClose={onDismiss}
+        title={strings.title}
+        snapPoints={['80%']}>
+        <Sheet.ScrollView contentContainerStyle={styles.container}>
+          <Text style={styles.description}>{strings.description}</Text>
+
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="model-url-input"
+              label={strings.urlLabel}
+              defaultValue={url}
+              onChangeText={handleChangeUrl}
+              placeholder={strings.urlPlaceholder}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          </View>
+
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="model-url-headers-input"
+              label={strings.headersLabel}
+              defaultValue={headers}
+              onChangeText={handleChangeHeaders}
+              placeholder={strings.headersPlaceholder}
+              autoCapitalize="none"
+              autoCorrect={false}
+              spellCheck={false}
+              multiline
+            />
+            <Text style={styles.hint}>{strings.headersHint}</Text>
+          </View>
+
+          {showHttpWarning && (
+            <View style={styles.warningContainer}>
+              <Text style={styles.warningText}>{strings.httpWarning}</Text>
+            </View>
+          )}
+
+          {isProbing && (
+            <View style={styles.statusRow}>
+              <ActivityIndicator size="small" />
+              <Text style={styles.statusText}>{strings.checking}</Text>
+            </View>
+          )}
+
+          {error && (
+            <View style={styles.statusRow}>
+              <Icon
+                source="alert-circle-outline"
+                size={16}
+                color={theme.colors.error}
+              />
+              <Text
+                testID="model-url-error"
+                style={[styles.statusText, styles.errorText]}>
+                {error}
+              </Text>
+            </View>
+          )}
+
+          {probe && (
+            <View testID="model-url-probe" style={styles.probeCard}>
+              <Text style={styles.probeName}>{probe.filename}</Text>
+              <Text style={styles.probeDetail}>{probe.host}</Text>
+              <Text style={styles.probeDetail}>
+                {t(strings.architecture, {
+                  architecture: probe.architecture ?? strings.unknown,
+                })}
+              </Text>
+              <Text style={styles.probeDetail}>
+                {t(strings.size, {size: formatBytes(probe.size)})}
+              </Text>
+            </View>
+          )}
+        </Sheet.ScrollView>
+        <Sheet.Actions>
+          <View style={styles.buttonsContainer}>
+            {probe ? (
+              <Button
+                testID="model-url-download-button"
+                mode="contained"
+                onPress={handleDownload}
+                loading={isAdding}
+                disabled={isAdding}
+                style={styles.button}>
+                {strings.download}
+              </Button>
+            ) : (
+              <Button
+                testID="model-url-check-button"
+                mode="contained"
+                onPress={handleCheck}
+                loading={isProbing}
+                disabled={isProbing || !url.trim()}
+                style={styles.button}>
+                {strings.check}
+              </Button>
+            )}
+          </View>
+        </Sheet.Actions>
+      </Sheet>
+    );
+  },
+);
@@ -0,0 +1,90 @@
+import React from 'react';
+import {render, fireEvent, waitFor} from '../../../../jest/test-utils';
+import {AddFromUrlSheet} from '../AddFromUrlSheet';
+import {modelStore} from '../../../store';
+import {probeModelUrl} from '../../../utils/urlImport';
+
+jest.mock('../../../utils/urlImport', () => ({
+  ...jest.requireActual('../../../utils/urlImport'),
+  probeModelUrl: jest.fn(),
+}));
+
+jest.mock('../../Sheet', () => {
+  const {View} = require('react-native');
+  const MockSheet = ({children, isVisible}) =>
+    isVisible ? <View testID="sheet">{children}</View> : null;
+  MockSheet.ScrollView = ({children}) => <View>{children}</View>;
+  MockSheet.Actions = ({children}) => <View>{children}</View>;
+  return {Sheet: MockSheet};
+});
+
+const URL = 'http://nas.local/models/tiny-Q8_0.gguf';
+const probe = {
+  downloadUrl: URL,
+  filename: 'tiny-Q8_0.gguf',
+  host: 'nas.local',
+  size: 1000,
+  architecture: 'llama',
+};
+
+describe('AddFromUrlSheet', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('probes the link with the headers, then adds the model', async () => {
+    (probeModelUrl as jest.Mock).mockResolvedValue(probe);
+    (modelStore.addUrlModel as jest.Mock).mockResolvedValue({id: 'url-1'});
+    const onDismiss = jest.fn();
+    const {getByTestId} = render(
+      <AddFromUrlSheet isVisible={true} onDismiss={onDismiss} />,
+    );
+
+    fireEvent.changeText(getByTestId('model-url-input'), URL);
+    fireEvent.changeText(
+      getByTestId('model-url-headers-input'),
+      'Authorization: Bearer abc',
+    );
+    fireEvent.press(getByTestId('model-url-check-button'));
+
+    await waitFor(() => expect(getByTestId('model-url-probe')).toBeTruthy());
+    expect(probeModelUrl).toHaveBeenCalledWith(URL, {
+      Authorization: 'Bearer abc',
+    });
+
+    fireEvent.press(getByTestId('model-url-download-button'));
+
+    await waitFor(() => expect(onDismiss).toHaveBeenCalled());
+    expect(modelStore.addUrlModel).toHaveBeenCalledWith(probe, {
+      Authorization: 'Bearer abc',
+    });
+  });
+
+  it('rejects a link that is not a GGUF without probing it', async () => {
+    const {getByTestId} = render(
+      <AddFromUrlSheet isVisible={true} onDismiss={jest.fn()} />,
+    );
+
+    fireEvent.changeText(getByTestId('model-url-input'), 'https://host/a.md');
+    fireEvent.press(getByTestId('model-url-check-button'));
+
+    await waitFor(() => expect(getByTestId('model-url-error')).toBeTruthy());
+    expect(probeModelUrl).not.toHaveBeenCalled();
+  });
+
+  it('shows why the probe failed', async () => {
+    (probeModelUrl as jest.Mock).mockRejectedValue(new Error('HTTP 401'));
+    const {getByTestId} = render(
+      <AddFromUrlSheet isVisible={true} onDismiss={jest.fn()} />,
+    );
+
+    fireEvent.changeText(getByTestId('model-url-input'), URL);
+    fireEvent.press(getByTestId('model-url-check-button'));
+
+    await waitFor(() =>
+      expect(getByTestId('model-url-error').props.children).toContain(
+        'HTTP 401',
+      ),
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import {StyleSheet} from 'react-native';
+import {Theme} from '../../utils/types';
+
+export const createStyles = (theme: Theme) => {
+  return StyleSheet.create({
+    container: {
+      padding: 16,
+      paddingBottom: 32,
+    },
+    description: {
+      marginBottom: 16,
+      color: theme.colors.onSurface,
+    },
+    inputSpacing: {
+      marginBottom: 12,
+    },
+    hint: {
+      marginTop: 4,
+      color: theme.colors.onSurfaceVariant,
+      fontSize: 12,
+    },
+    warningContainer: {
+      marginBottom: 12,
+      backgroundColor: theme.colors.errorContainer,
+      padding: 12,
+      borderRadius: 8,
+    },
+    warningText: {
+      color: theme.colors.onErrorContainer,
+      fontSize: 12,
+    },
+    statusRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    statusText: {
+      flex: 1,
+      fontSize: 12,
+      marginLeft: 4,
+      color: theme.colors.onSurfaceVariant,
+    },
+    errorText: {
+      color: theme.colors.error,
+    },
+    probeCard: {
+      backgroundColor: theme.colors.surfaceContainerLow,
+      padding: 12,
+      borderRadius: 8,
+      gap: 2,
+    },
+    probeName: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: theme.colors.onSurface,
+    },
+    probeDetail: {
+      fontSize: 12,
+      color: theme.colors.onSurfaceVariant,
+    },
+    buttonsContainer: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      alignItems: 'center',
+      width: '100%',
+    },
+    button: {
+      flex: 1,
+    },
+  });
+};
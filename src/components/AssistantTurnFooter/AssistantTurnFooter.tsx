@@ -31,8 +31,14 @@ export const AssistantTurnFooter: React.FC<AssistantTurnFooterProps> = observer(
   ({message}) => {
     const theme = useTheme();
     const l10n = useContext(L10nContext);
-    const {copyable, timings, interrupted, truncationLikely, completionResult} =
-      message.metadata || {};
+    const {
+      copyable,
+      timings,
+      interrupted,
+      truncationLikely,
+      completionResult,
+      backend,
+    } = message.metadata || {};
 
     if (!timings && !copyable && !interrupted) {
       return null;
@@ -116,6 +122,11 @@ export const AssistantTurnFooter: React.FC<AssistantTurnFooterProps> = observer(
             {draftString}
           </Text>
         ) : null}
+        {backend ? (
+          <Text style={componentStyles.timing} testID="footer-backend">
+            {t(l10n.components.bubble.answeredBy, {name: backend.name})}
+          </Text>
+        ) : null}
         {interrupted ? (
           <Text
             style={componentStyles.interruptedStatus}
@@ -166,6 +166,22 @@ describe('AssistantTurnFooter', () => {
     expect(queryByTestId('message-draft-tokens')).toBeNull();
   });
 
+  it('names the backend a model group answered from', () => {
+    const message = baseTurn({
+      metadata: {
+        copyable: true,
+        backend: {
+          modelId: 'server-2/qwen3-8b',
+          name: 'Cloud box',
+          serverId: 'server-2',
+          isLocal: false,
+        },
+      },
+    });
+    const {getByTestId} = render(<AssistantTurnFooter message={message} />);
+    expect(getByTestId('footer-backend').props.children).toBe('via Cloud box');
+  });
+
   it('renders "Interrupted" status when metadata.interrupted is set', () => {
     const message = baseTurn({
       metadata: {copyable: true, interrupted: true},
@@ -0,0 +1,77 @@
+import React, {useContext} from 'react';
+import {TouchableOpacity, View} from 'react-native';
+
+import {observer} from 'mobx-react';
+import {Text} from 'react-native-paper';
+
+import {ChevronLeftSmIcon, ChevronRightSmIcon} from '../../assets/icons';
+import {useTheme} from '../../hooks';
+
+import {styles} from './styles';
+
+import {chatSessionStore} from '../../store';
+import {L10nContext} from '../../utils';
+import {t} from '../../locales';
+
+interface BranchNavigatorProps {
+  messageId: string;
+  /** Sit on the right, under the current user's own messages. */
+  alignEnd?: boolean;
+}
+
+/**
+ * "< 2/3 >" switcher shown under a message that has alternate versions,
+ * from regenerating a reply or editing a message. Renders nothing for
+ * messages without siblings.
+ */
+export const BranchNavigator: React.FC<BranchNavigatorProps> = observer(
+  ({messageId, alignEnd = false}) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const position = chatSessionStore.activeBranchPositions.get(messageId);
+
+    if (!position) {
+      return null;
+    }
+
+    const componentStyles = styles({alignEnd, theme});
+    const locked = chatSessionStore.isGenerating;
+    const canGoBack = !locked && position.index > 0;
+    const canGoForward = !locked && position.index < position.count - 1;
+
+    return (
+      <View style={componentStyles.container} testID="branch-navigator">
+        <TouchableOpacity
+          onPress={() => chatSessionStore.switchBranch(messageId, -1)}
+          disabled={!canGoBack}
+          style={!canGoBack && componentStyles.disabled}
+          accessibilityLabel={l10n.components.branchNavigator.previous}
+          testID="branch-previous">
+          <ChevronLeftSmIcon
+            stroke={theme.colors.textSecondary}
+            width={16}
+            height={16}
+          />
+        </TouchableOpacity>
+        <Text style={componentStyles.position} testID="branch-position">
+          {t(l10n.components.branchNavigator.position, {
+            index: position.index + 1,
+            count: position.count,
+          })}
+        </Text>
+        <TouchableOpacity
+          onPress={() => chatSessionStore.switchBranch(messageId, 1)}
+          disabled={!canGoForward}
+          style={!canGoForward && componentStyles.disabled}
+          accessibilityLabel={l10n.components.branchNavigator.next}
+          testID="branch-next">
+          <ChevronRightSmIcon
+            stroke={theme.colors.textSecondary}
+            width={16}
+            height={16}
+          />
+        </TouchableOpacity>
+      </View>
+    );
+  },
+);
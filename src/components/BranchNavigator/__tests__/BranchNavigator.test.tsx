@@ -0,0 +1,66 @@
+import React from 'react';
+
+import {render, fireEvent} from '../../../../jest/test-utils';
+
+import {chatSessionStore} from '../../../store';
+
+import {BranchNavigator} from '../BranchNavigator';
+
+const withPositions = (
+  positions: Array<[string, {index: number; count: number}]>,
+) => {
+  jest
+    .spyOn(chatSessionStore, 'activeBranchPositions', 'get')
+    .mockReturnValue(new Map(positions));
+};
+
+describe('BranchNavigator', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    chatSessionStore.isGenerating = false;
+  });
+
+  it('renders nothing for a message without alternate versions', () => {
+    withPositions([]);
+    const {queryByTestId} = render(<BranchNavigator messageId="m-1" />);
+    expect(queryByTestId('branch-navigator')).toBeNull();
+  });
+
+  it('shows the one-based position among siblings', () => {
+    withPositions([['m-1', {index: 1, count: 3}]]);
+    const {getByTestId} = render(<BranchNavigator messageId="m-1" />);
+    expect(getByTestId('branch-position')).toHaveTextContent('2/3');
+  });
+
+  it('switches to the previous and next version', () => {
+    withPositions([['m-1', {index: 1, count: 3}]]);
+    const {getByTestId} = render(<BranchNavigator messageId="m-1" />);
+
+    fireEvent.press(getByTestId('branch-previous'));
+    expect(chatSessionStore.switchBranch).toHaveBeenCalledWith('m-1', -1);
+
+    fireEvent.press(getByTestId('branch-next'));
+    expect(chatSessionStore.switchBranch).toHaveBeenCalledWith('m-1', 1);
+  });
+
+  it('disables the buttons at either end', () => {
+    withPositions([['m-1', {index: 0, count: 2}]]);
+    const {getByTestId} = render(<BranchNavigator messageId="m-1" />);
+
+    fireEvent.press(getByTestId('branch-previous'));
+    expect(chatSessionStore.switchBranch).not.toHaveBeenCalled();
+
+    fireEvent.press(getByTestId('branch-next'));
+    expect(chatSessionStore.switchBranch).toHaveBeenCalledWith('m-1', 1);
+  });
+
+  it('locks switching while a reply is generating', () => {
+    withPositions([['m-1', {index: 1, count: 3}]]);
+    chatSessionStore.isGenerating = true;
+    const {getByTestId} = render(<BranchNavigator messageId="m-1" />);
+
+    fireEvent.press(getByTestId('branch-previous'));
+    fireEvent.press(getByTestId('branch-next'));
+    expect(chatSessionStore.switchBranch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,21 @@
+import {StyleSheet} from 'react-native';
+
+import {Theme} from '../../utils/types';
+
+export const styles = ({alignEnd, theme}: {alignEnd: boolean; theme: Theme}) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: alignEnd ? 'flex-end' : 'flex-start',
+      gap: 2,
+      paddingVertical: 2,
+    },
+    position: {
+      color: theme.colors.textSecondary,
+      fontSize: 10,
+    },
+    disabled: {
+      opacity: 0.3,
+    },
+  });
@@ -5,6 +5,7 @@ import {CompletionParams} from '../../utils/completionTypes';
 import {
   chatSessionStore,
   defaultCompletionSettings,
+  modelStore,
   palStore,
 } from '../../store';
 import {styles} from './styles';
@@ -122,6 +123,11 @@ export const ChatGenerationSettingsSheet = ({
     : null;
 
   const isUsingPalSettings = effectiveSettingsSource === 'pal';
+  // A remote server without a stored type receives no extra samplers.
+  const remoteBinding = modelStore.activeRemoteBinding;
+  const remoteServerType = remoteBinding
+    ? (remoteBinding.serverType ?? 'unknown')
+    : undefined;
   const showSettingsToggle = !!activePal; // Show toggle whenever there's an active pal
 
   // Reset and sync local state when session changes
@@ -351,6 +357,7 @@ export const ChatGenerationSettingsSheet = ({
           settings={settings}
           onChange={updateSettings}
           disabled={isUsingPalSettings}
+          remoteServerType={remoteServerType}
         />
       </Sheet.ScrollView>
       <Sheet.Actions>
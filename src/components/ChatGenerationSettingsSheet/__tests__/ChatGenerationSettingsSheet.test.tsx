@@ -84,6 +84,9 @@ jest.mock('../../../store', () => ({
     top_k: 40,
     top_p: 0.9,
   },
+  modelStore: {
+    activeRemoteBinding: undefined,
+  },
 }));
 
 describe('ChatGenerationSettingsSheet', () => {
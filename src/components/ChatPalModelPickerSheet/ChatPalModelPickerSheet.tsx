@@ -12,7 +12,7 @@ import {useTheme} from '../../hooks';
 import {createStyles} from './styles';
 import {modelStore, palStore, chatSessionStore} from '../../store';
 import {CustomBackdrop} from '../Sheet/CustomBackdrop';
-import {getModelSkills, L10nContext, Model} from '../../utils';
+import {formatBytes, getModelSkills, L10nContext, Model} from '../../utils';
 import {t} from '../../locales';
 import type {Pal} from '../../types/pal';
 import {CloseIcon, SettingsIcon} from '../../assets/icons';
@@ -228,6 +228,11 @@ export const ChatPalModelPickerSheet = observer(
         const modelSkills = getModelSkills(model)
           .flatMap(skill => skill.labelKey)
           .join(', ');
+        // Memory held by a loaded context: the active one or a warm one
+        const loadedBytes = isActiveModel
+          ? modelStore.activeContextMemoryBytes
+          : modelStore.warmContexts.find(w => w.modelId === model.id)
+              ?.memoryBytes;
         return (
           <Pressable
             key={model.id}
@@ -241,12 +246,27 @@ export const ChatPalModelPickerSheet = observer(
                 ]}>
                 {model.name}
               </Text>
+              {loadedBytes !== undefined && (
+                <Text
+                  testID={`model-loaded-memory-${model.id}`}
+                  style={[
+                    styles.itemSubtitle,
+                    isActiveModel && styles.activeItemSubtitle,
+                  ]}>
+                  {t(
+                    isActiveModel
+                      ? l10n.components.chatPalModelPickerSheet.loadedMemory
+                      : l10n.components.chatPalModelPickerSheet.warmMemory,
+                    {size: formatBytes(loadedBytes)},
+                  )}
+                </Text>
+              )}
               {modelSkills && <ObservedSkillsDisplay model={model} />}
             </View>
           </Pressable>
         );
       },
-      [styles, handleModelSelect],
+      [styles, handleModelSelect, l10n.components.chatPalModelPickerSheet],
     );
 
     const getCapabilityText = React.useCallback(
@@ -27,6 +27,8 @@ jest.mock('../../../store', () => ({
     ],
     activeModel: {id: 'model1', name: 'Test Model 1'},
     activeModelId: 'model1',
+    activeContextMemoryBytes: 2.5e9,
+    warmContexts: [{modelId: 'model2', memoryBytes: 1.2e9}],
     initContext: jest.fn(),
     selectModel: jest.fn(),
     hasRequiredProjectionModel: jest.fn().mockReturnValue(true),
@@ -250,6 +252,23 @@ describe('ChatPalModelPickerSheet', () => {
     });
   });
 
+  it('shows the memory held by the active and warm contexts', () => {
+    const {getByTestId} = render(
+      <UserContext.Provider value={user}>
+        <L10nContext.Provider value={l10n.en}>
+          <ChatPalModelPickerSheet {...defaultProps} />
+        </L10nContext.Provider>
+      </UserContext.Provider>,
+    );
+
+    expect(getByTestId('model-loaded-memory-model1')).toHaveTextContent(
+      /^Loaded · /,
+    );
+    expect(getByTestId('model-loaded-memory-model2')).toHaveTextContent(
+      /^Warm · /,
+    );
+  });
+
   it('calls onPalSelect when pal is selected', async () => {
     const {getByText} = render(
       <UserContext.Provider value={user}>
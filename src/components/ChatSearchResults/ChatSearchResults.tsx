@@ -0,0 +1,175 @@
+import React, {useContext, useEffect, useMemo, useState} from 'react';
+import {FlatList, ScrollView, TouchableOpacity, View} from 'react-native';
+
+import {observer} from 'mobx-react';
+import {Text} from 'react-native-paper';
+import {subMonths, subWeeks, subYears} from 'date-fns';
+
+import {useTheme} from '../../hooks';
+
+import {createStyles} from './styles';
+import {Dropdown} from '../ui';
+
+import {chatSessionStore, modelStore, palStore} from '../../store';
+import {L10nContext} from '../../utils';
+import {buildSnippet, queryTerms} from '../../utils/messageSearch';
+import {MessageSearchHit} from '../../utils/types';
+
+// Wait for a pause in typing before querying the database.
+const SEARCH_DEBOUNCE_MS = 250;
+
+type DateRange = 'any' | 'week' | 'month' | 'year';
+
+const rangeStart = (range: DateRange): number | undefined => {
+  const now = new Date();
+  switch (range) {
+    case 'week':
+      return subWeeks(now, 1).getTime();
+    case 'month':
+      return subMonths(now, 1).getTime();
+    case 'year':
+      return subYears(now, 1).getTime();
+    default:
+      return undefined;
+  }
+};
+
+interface ChatSearchResultsProps {
+  query: string;
+  onOpenResult: (sessionId: string, messageId: string) => void;
+}
+
+/**
+ * Search results across all chats for the sidebar, with Pal, model and
+ * date filters. Each result shows the chat title and a snippet of the
+ * message with the query terms highlighted.
+ */
+export const ChatSearchResults: React.FC<ChatSearchResultsProps> = observer(
+  ({query, onOpenResult}) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const styles = createStyles(theme);
+    const [palId, setPalId] = useState('');
+    const [modelId, setModelId] = useState('');
+    const [range, setRange] = useState<DateRange>('any');
+    const [results, setResults] = useState<MessageSearchHit[] | null>(null);
+
+    useEffect(() => {
+      let cancelled = false;
+      const timer = setTimeout(async () => {
+        const hits = await chatSessionStore.searchMessages(query, {
+          palId: palId || undefined,
+          modelId: modelId || undefined,
+          from: rangeStart(range),
+        });
+        if (!cancelled) {
+          setResults(hits);
+        }
+      }, SEARCH_DEBOUNCE_MS);
+      return () => {
+        cancelled = true;
+        clearTimeout(timer);
+      };
+    }, [query, palId, modelId, range]);
+
+    const terms = useMemo(() => queryTerms(query), [query]);
+    const labels = l10n.components.sidebarContent.search;
+
+    const palOptions = [
+      {value: '', label: labels.allPals},
+      ...palStore.pals.map(pal => ({value: pal.id, label: pal.name})),
+    ];
+    const modelOptions = [
+      {value: '', label: labels.allModels},
+      ...modelStore.availableModels.map(model => ({
+        value: model.id,
+        label: model.name,
+      })),
+    ];
+    const rangeOptions = [
+      {value: 'any', label: labels.anyTime},
+      {value: 'week', label: labels.pastWeek},
+      {value: 'month', label: labels.pastMonth},
+      {value: 'year', label: labels.pastYear},
+    ];
+
+    const renderResult = ({item}: {item: MessageSearchHit}) => {
+      const session = chatSessionStore.sessions.find(
+        s => s.id === item.sessionId,
+      );
+      return (
+        <TouchableOpacity
+          style={styles.result}
+          onPress={() => onOpenResult(item.sessionId, item.messageId)}
+          testID={`search-result-${item.messageId}`}>
+          <View style={styles.resultHeader}>
+            <Text style={styles.sessionTitle} numberOfLines={1}>
+              {session?.title}
+            </Text>
+            <Text style={styles.date}>
+              {new Date(item.createdAt).toLocaleDateString()}
+            </Text>
+          </View>
+          <Text style={styles.snippet} numberOfLines={3}>
+            {buildSnippet(item.content, terms).map((part, index) =>
+              part.match ? (
+                <Text key={index} style={styles.highlight}>
+                  {part.text}
+                </Text>
+              ) : (
+                part.text
+              ),
+            )}
+          </Text>
+        </TouchableOpacity>
+      );
+    };
+
+    return (
+      <View style={styles.container} testID="chat-search-results">
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filters}
+          contentContainerStyle={styles.filtersContent}>
+          <Dropdown
+            testID="search-filter-pal"
+            size="s"
+            value={palId}
+            options={palOptions}
+            onChange={setPalId}
+          />
+          <Dropdown
+            testID="search-filter-model"
+            size="s"
+            value={modelId}
+            options={modelOptions}
+            onChange={setModelId}
+          />
+          <Dropdown
+            testID="search-filter-date"
+            size="s"
+            value={range}
+            options={rangeOptions.map(option => ({
+              ...option,
+              testID: `search-filter-date-${option.value}`,
+            }))}
+            onChange={value => setRange(value as DateRange)}
+          />
+        </ScrollView>
+        <FlatList
+          data={results ?? []}
+          keyExtractor={item => item.messageId}
+          renderItem={renderResult}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            results ? (
+              <Text style={styles.empty}>{labels.noResults}</Text>
+            ) : null
+          }
+        />
+      </View>
+    );
+  },
+);
@@ -0,0 +1,67 @@
+import React from 'react';
+
+import {fireEvent, render, waitFor} from '../../../../jest/test-utils';
+
+import {ChatSearchResults} from '../ChatSearchResults';
+
+import {chatSessionStore} from '../../../store';
+
+const hit = {
+  messageId: 'm1',
+  sessionId: 'session-1',
+  content: 'We talked about the café near the station.',
+  createdAt: new Date('2026-01-02').getTime(),
+};
+
+describe('ChatSearchResults', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (chatSessionStore.searchMessages as jest.Mock).mockResolvedValue([hit]);
+  });
+
+  it('highlights the query terms in the snippet', async () => {
+    const {findByText, getByText} = render(
+      <ChatSearchResults query="Cafe" onOpenResult={jest.fn()} />,
+    );
+
+    expect(await findByText('café')).toBeTruthy();
+    expect(getByText('Session 1')).toBeTruthy();
+  });
+
+  it('reports the pressed result', async () => {
+    const onOpenResult = jest.fn();
+    const {findByTestId} = render(
+      <ChatSearchResults query="station" onOpenResult={onOpenResult} />,
+    );
+
+    fireEvent.press(await findByTestId('search-result-m1'));
+
+    expect(onOpenResult).toHaveBeenCalledWith('session-1', 'm1');
+  });
+
+  it('searches again with a date range', async () => {
+    const {getByTestId, findByTestId} = render(
+      <ChatSearchResults query="station" onOpenResult={jest.fn()} />,
+    );
+    await findByTestId('search-result-m1');
+
+    fireEvent.press(getByTestId('search-filter-date'));
+    fireEvent.press(await findByTestId('search-filter-date-week'));
+
+    await waitFor(() => {
+      expect(chatSessionStore.searchMessages).toHaveBeenLastCalledWith(
+        'station',
+        expect.objectContaining({from: expect.any(Number)}),
+      );
+    });
+  });
+
+  it('says when nothing matches', async () => {
+    (chatSessionStore.searchMessages as jest.Mock).mockResolvedValue([]);
+    const {findByText} = render(
+      <ChatSearchResults query="nothing" onOpenResult={jest.fn()} />,
+    );
+
+    expect(await findByText('No messages match your search.')).toBeTruthy();
+  });
+});
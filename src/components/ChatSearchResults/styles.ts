@@ -0,0 +1,58 @@
+import {StyleSheet} from 'react-native';
+
+import {Theme} from '../../utils/types';
+
+export const createStyles = (theme: Theme) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    filters: {
+      flexGrow: 0,
+      marginBottom: 8,
+    },
+    filtersContent: {
+      paddingHorizontal: 16,
+      gap: 8,
+    },
+    listContent: {
+      paddingBottom: 16,
+    },
+    result: {
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    resultHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 8,
+      marginBottom: 4,
+    },
+    sessionTitle: {
+      flex: 1,
+      color: theme.colors.onSurface,
+      fontSize: 14,
+      fontWeight: '600',
+    },
+    date: {
+      color: theme.colors.textSecondary,
+      fontSize: 12,
+    },
+    snippet: {
+      color: theme.colors.textSecondary,
+      fontSize: 13,
+      lineHeight: 18,
+    },
+    highlight: {
+      color: theme.colors.onSurface,
+      backgroundColor: theme.colors.primaryContainer,
+      fontWeight: '600',
+    },
+    empty: {
+      color: theme.colors.textSecondary,
+      paddingHorizontal: 16,
+      paddingVertical: 24,
+      textAlign: 'center',
+    },
+  });
@@ -81,9 +81,11 @@ import {
   ContentReportSheet,
   GreetingBubble,
   SuggestedPromptsRow,
+  TokenProbsSheet,
 } from '..';
 import {
   AlertIcon,
+  BenchmarkIcon,
   CopyIcon,
   GridIcon,
   PencilLineIcon,
@@ -158,6 +160,9 @@ export interface ChatProps extends ChatTopLevelProps {
   activePal?: Pal;
   /** Called when pal sheet should be opened */
   onPalSettingsSelect?: (pal: Pal) => void;
+  /** Answers the newest user message again, used by "Try again". The old
+   * reply is kept as an alternate branch. */
+  onRegeneratePress?: (message: MessageType.PartialText) => Promise<void>;
   /** Show user names for received messages. Useful for a group chat. Will be
    * shown only on text messages. */
   showUserNames?: boolean;
@@ -218,6 +223,7 @@ export const ChatView = observer(
     activePal,
     onPalSettingsSelect,
     onPreviewDataFetched,
+    onRegeneratePress,
     onSendPress,
     onStopPress,
     renderBubble,
@@ -273,6 +279,8 @@ export const ChatView = observer(
       React.useState<MessageType.Any | null>(null);
     const [isReportSheetVisible, setIsReportSheetVisible] =
       React.useState(false);
+    const [tokenProbsMessage, setTokenProbsMessage] =
+      React.useState<MessageType.Any | null>(null);
 
     // Pagination state
     const [isNextPageLoading, setNextPageLoading] = React.useState(false);
@@ -531,11 +539,18 @@ export const ChatView = observer(
       chatSessionStore.exitEditMode();
     }, []);
 
+    const wrappedOnRegeneratePress = React.useCallback(
+      async (message: MessageType.PartialText) => {
+        await onRegeneratePress?.(message);
+      },
+      [onRegeneratePress],
+    );
+
     const {handleCopy, handleEdit, handleTryAgain, handleTryAgainWith} =
       useMessageActions({
         user,
         messages,
-        handleSendPress: wrappedOnSendPress,
+        handleRegeneratePress: wrappedOnRegeneratePress,
         setInputText,
         setInputImages,
       });
@@ -556,6 +571,48 @@ export const ChatView = observer(
       // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [chatMessages]);
 
+    // ============ SCROLL TO AN OPENED SEARCH RESULT ============
+    const focusedMessageId = chatSessionStore.focusedMessageId;
+    const focusRetried = React.useRef(false);
+    React.useEffect(() => {
+      if (!focusedMessageId) {
+        return;
+      }
+      const index = chatMessages.findIndex(
+        message => message.id === focusedMessageId,
+      );
+      if (index === -1) {
+        // Not loaded yet; runs again when the messages arrive.
+        return;
+      }
+      chatSessionStore.clearFocusedMessage();
+      focusRetried.current = false;
+      list.current?.scrollToIndex({index, animated: true, viewPosition: 0.5});
+    }, [focusedMessageId, chatMessages]);
+
+    // Messages outside the rendered window have no layout yet: jump near
+    // the message, then try once more after it renders.
+    const handleScrollToIndexFailed = React.useCallback(
+      (info: {index: number; averageItemLength: number}) => {
+        list.current?.scrollToOffset({
+          animated: false,
+          offset: info.averageItemLength * info.index,
+        });
+        if (focusRetried.current) {
+          return;
+        }
+        focusRetried.current = true;
+        setTimeout(() => {
+          list.current?.scrollToIndex({
+            index: info.index,
+            animated: true,
+            viewPosition: 0.5,
+          });
+        }, 100);
+      },
+      [],
+    );
+
     // ============ LAYOUT ANIMATION SETUP ============
     // Untestable
     /* istanbul ignore next */
@@ -668,6 +725,7 @@ export const ChatView = observer(
       regenerateWith: regenerateWithLabel,
       edit: editLabel,
       reportContent: reportContentLabel,
+      tokenProbs: tokenProbsLabel,
     } = l10n.components.chatView.menuItems;
 
     const menuItems = React.useMemo((): MenuItem[] => {
@@ -733,6 +791,19 @@ export const ChatView = observer(
         });
       }
 
+      // Captured only when the session's completion settings ask for n_probs
+      if (selectedMessage.metadata?.tokenProbs?.length) {
+        baseItems.push({
+          label: tokenProbsLabel,
+          onPress: () => {
+            setTokenProbsMessage(selectedMessage);
+            handleMenuDismiss();
+          },
+          icon: () => <BenchmarkIcon stroke={theme.colors.primary} />,
+          disabled: false,
+        });
+      }
+
       baseItems.push({
         label: reportContentLabel,
         onPress: () => {
@@ -759,6 +830,7 @@ export const ChatView = observer(
       regenerateWithLabel,
       editLabel,
       reportContentLabel,
+      tokenProbsLabel,
     ]);
 
     // ============ RENDER FUNCTIONS ============
@@ -814,11 +886,13 @@ export const ChatView = observer(
       agentStatus === 'prefill' ||
       agentStatus === 'streaming_text' ||
       agentStatus === 'generating_tool_call' ||
-      agentStatus === 'executing_tool';
+      agentStatus === 'executing_tool' ||
+      agentStatus === 'awaiting_approval';
     // The PendingIndicator covers every dead zone: prefill (initial
     // and follow-up), generating_tool_call, executing_tool. Hidden in
-    // streaming_text and done so it doesn't compete with the visible
-    // token stream / final footer.
+    // streaming_text, awaiting_approval (the inline prompt is the
+    // feedback) and done so it doesn't compete with the visible token
+    // stream / final footer.
     const isPending =
       agentStatus === 'prefill' ||
       agentStatus === 'generating_tool_call' ||
@@ -1003,6 +1077,7 @@ export const ChatView = observer(
               style={[styles.flatList, {marginBottom: bottomComponentHeight}]}
               showsVerticalScrollIndicator={false}
               onScroll={handleScroll}
+              onScrollToIndexFailed={handleScrollToIndexFailed}
               {...unwrap(flatListProps)}
               data={chatMessages}
               inverted={chatMessages.length > 0}
@@ -1069,6 +1144,7 @@ export const ChatView = observer(
         flatListProps,
         keyExtractor,
         handleEndReached,
+        handleScrollToIndexFailed,
         renderMessage,
         isStreaming,
         scrollToBottomAnimatedStyle,
@@ -1240,6 +1316,12 @@ export const ChatView = observer(
             onClose={() => setIsReportSheetVisible(false)}
           />
 
+          <TokenProbsSheet
+            isVisible={tokenProbsMessage !== null}
+            onDismiss={() => setTokenProbsMessage(null)}
+            tokenProbs={tokenProbsMessage?.metadata?.tokenProbs}
+          />
+
           {increaseSheetOpen && activeModel && currentNCtx !== undefined ? (
             <IncreaseContextSheet
               isVisible={increaseSheetOpen}
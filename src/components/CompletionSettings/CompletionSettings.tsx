@@ -15,23 +15,45 @@ import {
   COMPLETION_PARAMS_METADATA,
   validateNumericField,
 } from '../../utils/modelSettings';
-import {CompletionParams} from '../../utils/completionTypes';
+import {CompletionParams, ContextStrategy} from '../../utils/completionTypes';
+import {isSamplerParamIgnored} from '../../api/openai';
+
+const CONTEXT_STRATEGIES: ContextStrategy[] = [
+  'off',
+  'summarize',
+  'sliding_window',
+  'drop_tool_outputs',
+];
 
 interface Props {
   settings: CompletionParams;
   onChange: (name: string, value: any) => void;
   disabled?: boolean;
+  /** Server type of the active remote model; marks the settings it ignores. */
+  remoteServerType?: string;
 }
 
 export const CompletionSettings: React.FC<Props> = ({
   settings,
   onChange,
   disabled = false,
+  remoteServerType,
 }) => {
   const theme = useTheme();
   const styles = createStyles(theme);
   const l10n = React.useContext(L10nContext);
 
+  const renderIgnoredNote = (name: string) =>
+    remoteServerType !== undefined &&
+    isSamplerParamIgnored(remoteServerType, name) ? (
+      <Text style={styles.ignoredNote} testID={`${name}-ignored`}>
+        {l10n.components.completionSettings.ignoredByServer.replace(
+          '{{serverType}}',
+          remoteServerType,
+        )}
+      </Text>
+    ) : null;
+
   const renderSlider = ({name, step = 0.01}: {name: string; step?: number}) => (
     <View style={styles.settingItem}>
       <InputSlider
@@ -48,6 +70,7 @@ export const CompletionSettings: React.FC<Props> = ({
         debounceMs={300} // Enable debouncing for sliders
         disabled={disabled}
       />
+      {renderIgnoredNote(name)}
     </View>
   );
 
@@ -79,6 +102,7 @@ export const CompletionSettings: React.FC<Props> = ({
           editable={!disabled}
           testID={`${String(name)}-input`}
         />
+        {renderIgnoredNote(String(name))}
       </View>
     );
   };
@@ -136,10 +160,37 @@ export const CompletionSettings: React.FC<Props> = ({
           ]}
           style={styles.segmentedButtons}
         />
+        {renderIgnoredNote('mirostat')}
       </View>
     );
   };
 
+  const contextStrategy = settings.context_strategy ?? 'off';
+
+  const renderContextStrategySelector = () => (
+    <View style={styles.settingItem}>
+      <Text variant="labelSmall" style={styles.settingLabel}>
+        CONTEXT STRATEGY
+      </Text>
+      <Text style={styles.description}>
+        {l10n.completionParams.context_strategy}
+      </Text>
+      <SegmentedButtons
+        value={contextStrategy}
+        onValueChange={
+          disabled ? () => {} : value => onChange('context_strategy', value)
+        }
+        density="high"
+        buttons={CONTEXT_STRATEGIES.map(strategy => ({
+          value: strategy,
+          label: l10n.completionParams[`context_strategy_${strategy}`],
+          testID: `context_strategy-${strategy}-btn`,
+        }))}
+        style={styles.segmentedButtons}
+      />
+    </View>
+  );
+
   const isUnlimited = settings.n_predict === -1;
 
   const renderNPredictField = () => {
@@ -201,6 +252,8 @@ export const CompletionSettings: React.FC<Props> = ({
     <View style={styles.container} testID="completion-settings">
       {renderNPredictField()}
       {renderSwitch('include_thinking_in_context')}
+      {renderContextStrategySelector()}
+      {contextStrategy !== 'off' && renderSlider({name: 'context_threshold'})}
       {renderSlider({name: 'temperature'})}
       {renderSlider({name: 'top_k', step: 1})}
       {renderSlider({name: 'top_p'})}
@@ -220,6 +273,7 @@ export const CompletionSettings: React.FC<Props> = ({
         </>
       )}
       {renderIntegerInput({name: 'seed'})}
+      {renderSlider({name: 'n_probs', step: 1})}
       {renderSwitch('jinja')}
     </View>
   );
@@ -166,4 +166,61 @@ describe('CompletionSettings', () => {
     fireEvent.press(mirostatV2Button);
     expect(mockOnChange).toHaveBeenCalledWith('mirostat', 2);
   });
+
+  it('selects a context strategy', () => {
+    const mockOnChange = jest.fn();
+    const {getByText, queryByTestId} = render(
+      <CompletionSettings
+        settings={mockCompletionParams}
+        onChange={mockOnChange}
+      />,
+    );
+
+    expect(queryByTestId('context_threshold-slider')).toBeNull();
+    fireEvent.press(getByText('Summarize'));
+    expect(mockOnChange).toHaveBeenCalledWith('context_strategy', 'summarize');
+  });
+
+  it('shows the threshold slider once a context strategy is on', () => {
+    const {getByTestId} = render(
+      <CompletionSettings
+        settings={{
+          ...mockCompletionParams,
+          context_strategy: 'sliding_window',
+          context_threshold: 0.7,
+        }}
+        onChange={jest.fn()}
+      />,
+    );
+
+    expect(getByTestId('context_threshold-slider').props.value).toBe(0.7);
+  });
+
+  it('marks the settings the remote server ignores', () => {
+    const {getByTestId, queryByTestId} = render(
+      <CompletionSettings
+        settings={mockCompletionParams}
+        onChange={jest.fn()}
+        remoteServerType="OpenAI"
+      />,
+    );
+
+    expect(getByTestId('top_k-ignored')).toHaveTextContent(
+      'Ignored by OpenAI servers',
+    );
+    expect(getByTestId('mirostat-ignored')).toBeTruthy();
+    expect(queryByTestId('seed-ignored')).toBeNull();
+    expect(queryByTestId('temperature-ignored')).toBeNull();
+  });
+
+  it('marks nothing for a local model', () => {
+    const {queryByTestId} = render(
+      <CompletionSettings
+        settings={mockCompletionParams}
+        onChange={jest.fn()}
+      />,
+    );
+
+    expect(queryByTestId('top_k-ignored')).toBeNull();
+  });
 });
@@ -72,4 +72,9 @@ export const createStyles = (theme: Theme) =>
       marginTop: 2,
       marginBottom: 8,
     },
+    ignoredNote: {
+      fontSize: 12,
+      color: theme.colors.error,
+      marginTop: 4,
+    },
   });
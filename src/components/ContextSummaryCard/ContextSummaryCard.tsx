@@ -0,0 +1,50 @@
+import React, {useContext, useState} from 'react';
+import {TouchableOpacity, View} from 'react-native';
+
+import {Text} from 'react-native-paper';
+
+import {ChevronDownIcon, ChevronUpIcon} from '../../assets/icons';
+import {useTheme} from '../../hooks';
+
+import {createStyles} from './styles';
+
+import {L10nContext} from '../../utils';
+import {MessageType} from '../../utils/types';
+
+interface ContextSummaryCardProps {
+  message: MessageType.Text;
+}
+
+/**
+ * Collapsed card for a context summary row (see `utils/contextStrategy`).
+ * Tapping it shows the summary the model now gets instead of the older
+ * messages.
+ */
+export const ContextSummaryCard: React.FC<ContextSummaryCardProps> = ({
+  message,
+}) => {
+  const theme = useTheme();
+  const l10n = useContext(L10nContext);
+  const styles = createStyles(theme);
+  const [expanded, setExpanded] = useState(false);
+  const Chevron = expanded ? ChevronUpIcon : ChevronDownIcon;
+
+  return (
+    <View style={styles.container} testID="context-summary-card">
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded(value => !value)}
+        accessibilityRole="button"
+        accessibilityState={{expanded}}
+        testID="context-summary-toggle">
+        <Text style={styles.title}>{l10n.chat.contextSummaryTitle}</Text>
+        <Chevron stroke={theme.colors.textSecondary} width={16} height={16} />
+      </TouchableOpacity>
+      {expanded && (
+        <Text style={styles.summary} selectable testID="context-summary-text">
+          {message.text}
+        </Text>
+      )}
+    </View>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+
+import {render, fireEvent} from '../../../../jest/test-utils';
+
+import {assistant} from '../../../utils/chat';
+import {MessageType} from '../../../utils/types';
+
+import {ContextSummaryCard} from '../ContextSummaryCard';
+
+const summary: MessageType.Text = {
+  id: 's-1',
+  author: assistant,
+  createdAt: 0,
+  type: 'text',
+  text: 'We planned a trip to Lisbon.',
+  metadata: {system: true, contextSummary: {throughId: 'm-1'}},
+};
+
+describe('ContextSummaryCard', () => {
+  it('starts collapsed', () => {
+    const {getByText, queryByTestId} = render(
+      <ContextSummaryCard message={summary} />,
+    );
+    expect(getByText('Earlier messages summarized')).toBeTruthy();
+    expect(queryByTestId('context-summary-text')).toBeNull();
+  });
+
+  it('toggles the summary text', () => {
+    const {getByTestId, queryByTestId} = render(
+      <ContextSummaryCard message={summary} />,
+    );
+
+    fireEvent.press(getByTestId('context-summary-toggle'));
+    expect(getByTestId('context-summary-text')).toHaveTextContent(
+      'We planned a trip to Lisbon.',
+    );
+
+    fireEvent.press(getByTestId('context-summary-toggle'));
+    expect(queryByTestId('context-summary-text')).toBeNull();
+  });
+});
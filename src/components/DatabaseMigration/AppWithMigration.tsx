@@ -17,6 +17,9 @@ export const AppWithMigration: React.FC<{children: React.ReactNode}> = ({
 
         // Migrate all settings to the latest version
         await chatSessionRepository.migrateAllSettings();
+
+        // Index chats from before search across chats existed
+        await chatSessionRepository.buildSearchIndex();
       } catch (error) {
         console.error('Failed to migrate settings:', error);
       }
@@ -0,0 +1,286 @@
+import React, {useState, useContext, useEffect} from 'react';
+import {View, Alert} from 'react-native';
+import {Text, Button} from 'react-native-paper';
+import {observer} from 'mobx-react';
+
+import {Sheet, TextInput} from '..';
+import {IconButton} from '../ui';
+import {useTheme} from '../../hooks';
+import {documentStore} from '../../store';
+import {L10nContext} from '../../utils';
+import {pickTextDocument} from '../../utils/importUtils';
+import {t} from '../../locales';
+import {TrashIcon} from '../../assets/icons';
+
+import {createStyles} from './styles';
+
+interface DocumentCollectionSheetProps {
+  isVisible: boolean;
+  onDismiss: () => void;
+  /** Collection to edit; `null` creates a new one. */
+  collectionId: string | null;
+}
+
+export const DocumentCollectionSheet: React.FC<DocumentCollectionSheetProps> =
+  observer(({isVisible, onDismiss, collectionId}) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const styles = createStyles(theme);
+    const strings = l10n.settings.documents;
+
+    // A new collection switches the sheet into edit mode once created, so
+    // documents can be added straight away.
+    const [activeId, setActiveId] = useState<string | null>(collectionId);
+    const [name, setName] = useState('');
+    const [pasteTitle, setPasteTitle] = useState('');
+    const [pasteText, setPasteText] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const collection = activeId
+      ? documentStore.collections.find(item => item.id === activeId)
+      : undefined;
+    const documents = collection
+      ? documentStore.documentsIn(collection.id)
+      : [];
+    const indexing =
+      documentStore.indexing?.collectionId === activeId
+        ? documentStore.indexing
+        : null;
+
+    useEffect(() => {
+      if (!isVisible) {
+        return;
+      }
+      const existing = collectionId
+        ? documentStore.collections.find(item => item.id === collectionId)
+        : undefined;
+      setActiveId(collectionId);
+      setName(existing?.name ?? '');
+      setPasteTitle('');
+      setPasteText('');
+      setError(null);
+      setIsBusy(false);
+      // Only reload when the sheet opens or switches collection.
+    }, [isVisible, collectionId]);
+
+    const run = async (action: () => Promise<void>) => {
+      setError(null);
+      setIsBusy(true);
+      try {
+        await action();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setIsBusy(false);
+      }
+    };
+
+    const handleSave = () => {
+      const trimmed = name.trim();
+      if (!trimmed) {
+        setError(strings.nameRequired);
+        return;
+      }
+      if (collection) {
+        documentStore.renameCollection(collection.id, trimmed);
+        onDismiss();
+        return;
+      }
+      setActiveId(documentStore.createCollection(trimmed));
+      setError(null);
+    };
+
+    const handleImportFile = () =>
+      run(async () => {
+        const file = await pickTextDocument();
+        if (file && collection) {
+          await documentStore.importFile(collection.id, file);
+        }
+      });
+
+    const handleAddText = () => {
+      if (!pasteText.trim()) {
+        setError(strings.textRequired);
+        return;
+      }
+      return run(async () => {
+        if (!collection) {
+          return;
+        }
+        await documentStore.addDocument(collection.id, {
+          title: pasteTitle || strings.untitled,
+          text: pasteText,
+        });
+        setPasteTitle('');
+        setPasteText('');
+      });
+    };
+
+    const handleRemove = () => {
+      if (!collection) {
+        return;
+      }
+      const {id, name: collectionName} = collection;
+      // Dismiss first so the native alert is not hidden behind the sheet's
+      // overlay on iOS.
+      onDismiss();
+      setTimeout(() => {
+        Alert.alert(
+          strings.removeTitle,
+          t(strings.removeMessage, {collectionName}),
+          [
+            {text: l10n.common.cancel, style: 'cancel'},
+            {
+              text: l10n.common.delete,
+              style: 'destructive',
+              onPress: () => {
+                documentStore.deleteCollection(id);
+              },
+            },
+          ],
+        );
+      }, 300);
+    };
+
+    return (
+      <Sheet
+        isVisible={isVisible}
+        onClose={onDismiss}
+        title={collection ? collection.name : strings.addTitle}
+        snapPoints={['90%']}>
+        <Sheet.ScrollView contentContainerStyle={styles.container}>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="document-collection-name-input"
+              label={strings.nameLabel}
+              value={name}
+              onChangeText={setName}
+              placeholder={strings.namePlaceholder}
+            />
+          </View>
+          {collection && (
+            <>
+              <Text variant="labelMedium" style={styles.sectionLabel}>
+                {strings.documentsLabel}
+              </Text>
+              {documents.length === 0 && (
+                <Text
+                  style={styles.description}
+                  testID="document-collection-empty">
+                  {strings.noDocuments}
+                </Text>
+              )}
+              {documents.map(document => (
+                <View
+                  key={document.id}
+                  style={styles.documentRow}
+                  testID={`document-row-${document.id}`}>
+                  <View style={styles.documentInfo}>
+                    <Text variant="bodyMedium">{document.title}</Text>
+                    <Text style={styles.description}>
+                      {document.chunkCount === 1
+                        ? strings.passagesCountOne
+                        : t(strings.passagesCount, {
+                            count: document.chunkCount,
+                          })}
+                    </Text>
+                    {document.embeddingModel !==
+                      documentStore.embeddingModelId && (
+                      <Text style={styles.staleText}>{strings.stale}</Text>
+                    )}
+                  </View>
+                  <IconButton
+                    testID={`document-remove-${document.id}`}
+                    accessibilityLabel={t(strings.removeDocument, {
+                      title: document.title,
+                    })}
+                    disabled={isBusy}
+                    icon={<TrashIcon stroke={theme.colors.error} />}
+                    onPress={() =>
+                      run(() => documentStore.removeDocument(document.id))
+                    }
+                  />
+                </View>
+              ))}
+              {indexing && (
+                <Text style={styles.description} testID="document-indexing">
+                  {t(strings.indexing, {
+                    title: indexing.title,
+                    done: indexing.done,
+                    total: indexing.total,
+                  })}
+                </Text>
+              )}
+              <View style={styles.inputSpacing}>
+                <Button
+                  testID="document-import-file-button"
+                  mode="outlined"
+                  icon="file-document-outline"
+                  disabled={isBusy}
+                  onPress={handleImportFile}>
+                  {strings.importFile}
+                </Button>
+                <Text style={styles.description}>
+                  {strings.importFileDescription}
+                </Text>
+              </View>
+              <View style={styles.inputSpacing}>
+                <TextInput
+                  testID="document-paste-title-input"
+                  label={strings.pasteTitleLabel}
+                  value={pasteTitle}
+                  onChangeText={setPasteTitle}
+                />
+              </View>
+              <View style={styles.inputSpacing}>
+                <TextInput
+                  testID="document-paste-text-input"
+                  label={strings.pasteTextLabel}
+                  value={pasteText}
+                  onChangeText={setPasteText}
+                  placeholder={strings.pasteTextPlaceholder}
+                  multiline
+                  numberOfLines={6}
+                />
+              </View>
+              <Button
+                testID="document-add-text-button"
+                mode="outlined"
+                disabled={isBusy}
+                onPress={handleAddText}>
+                {strings.addText}
+              </Button>
+            </>
+          )}
+          {error && (
+            <Text style={styles.errorText} testID="document-collection-error">
+              {error}
+            </Text>
+          )}
+        </Sheet.ScrollView>
+        <Sheet.Actions>
+          <View style={styles.buttonsContainer}>
+            {collection && (
+              <Button
+                testID="document-collection-remove-button"
+                mode="text"
+                textColor={theme.colors.error}
+                onPress={handleRemove}
+                style={styles.removeButton}>
+                {strings.removeTitle}
+              </Button>
+            )}
+            <Button
+              testID="document-collection-save-button"
+              mode="contained"
+              onPress={handleSave}
+              disabled={isBusy}
+              style={styles.saveButton}>
+              {collection ? l10n.settings.saveChanges : strings.addCollection}
+            </Button>
+          </View>
+        </Sheet.Actions>
+      </Sheet>
+    );
+  });
@@ -0,0 +1,218 @@
+import React from 'react';
+import {Alert} from 'react-native';
+import {runInAction} from 'mobx';
+import {render, fireEvent, waitFor, act} from '../../../../jest/test-utils';
+import {DocumentCollectionSheet} from '../DocumentCollectionSheet';
+import {documentStore} from '../../../store';
+import {pickTextDocument} from '../../../utils/importUtils';
+
+jest.mock('../../../utils/importUtils', () => ({
+  pickTextDocument: jest.fn(),
+}));
+
+jest.mock('../../Sheet', () => {
+  const {View, Button} = require('react-native');
+  const MockSheet = ({children, isVisible, onClose, title}: any) => {
+    if (!isVisible) {
+      return null;
+    }
+    return (
+      <View testID="sheet">
+        <View testID="sheet-title">{title}</View>
+        <Button title="Close" onPress={onClose} testID="sheet-close-button" />
+        {children}
+      </View>
+    );
+  };
+  MockSheet.ScrollView = ({children}: any) => (
+    <View testID="sheet-scroll-view">{children}</View>
+  );
+  MockSheet.Actions = ({children}: any) => (
+    <View testID="sheet-actions">{children}</View>
+  );
+  return {Sheet: MockSheet};
+});
+
+const collection = {id: 'collection-1', name: 'Notes', createdAt: 1};
+const document = {
+  id: 'doc-1',
+  collectionId: 'collection-1',
+  title: 'Tea guide',
+  charCount: 100,
+  chunkCount: 3,
+  embeddingModel: 'embedder',
+  createdAt: 1,
+};
+
+describe('DocumentCollectionSheet', () => {
+  const onDismiss = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runInAction(() => {
+      documentStore.collections = [collection];
+      documentStore.documents = [document];
+      documentStore.embeddingModelId = 'embedder';
+      documentStore.indexing = null;
+    });
+  });
+
+  it('creates a collection and switches to editing it', async () => {
+    (documentStore.createCollection as jest.Mock).mockImplementation(
+      (name: string) => {
+        runInAction(() => {
+          documentStore.collections.push({
+            id: 'collection-new',
+            name,
+            createdAt: 2,
+          });
+        });
+        return 'collection-new';
+      },
+    );
+    const {getByTestId, queryByTestId} = render(
+      <DocumentCollectionSheet
+        isVisible
+        onDismiss={onDismiss}
+        collectionId={null}
+      />,
+    );
+    expect(queryByTestId('document-add-text-button')).toBeNull();
+
+    fireEvent.press(getByTestId('document-collection-save-button'));
+    expect(getByTestId('document-collection-error')).toHaveTextContent(
+      'Name is required',
+    );
+
+    fireEvent.changeText(
+      getByTestId('document-collection-name-input'),
+      'Recipes',
+    );
+    fireEvent.press(getByTestId('document-collection-save-button'));
+
+    expect(documentStore.createCollection).toHaveBeenCalledWith('Recipes');
+    await waitFor(() => {
+      expect(getByTestId('document-collection-empty')).toBeTruthy();
+    });
+    expect(onDismiss).not.toHaveBeenCalled();
+  });
+
+  it('lists documents and flags ones embedded with another model', () => {
+    runInAction(() => {
+      documentStore.embeddingModelId = 'newer';
+    });
+    const {getByTestId, getByText} = render(
+      <DocumentCollectionSheet
+        isVisible
+        onDismiss={onDismiss}
+        collectionId="collection-1"
+      />,
+    );
+
+    expect(getByTestId('document-row-doc-1')).toHaveTextContent(/Tea guide/);
+    expect(getByText('3 passages')).toBeTruthy();
+    expect(getByText(/Embedded with another model/)).toBeTruthy();
+  });
+
+  it('adds pasted text and imports a picked file', async () => {
+    (pickTextDocument as jest.Mock).mockResolvedValue({
+      uri: 'file:///notes.md',
+      name: 'notes.md',
+    });
+    const {getByTestId} = render(
+      <DocumentCollectionSheet
+        isVisible
+        onDismiss={onDismiss}
+        collectionId="collection-1"
+      />,
+    );
+
+    fireEvent.press(getByTestId('document-add-text-button'));
+    expect(getByTestId('document-collection-error')).toHaveTextContent(
+      'Paste some text first',
+    );
+
+    fireEvent.changeText(getByTestId('document-paste-text-input'), 'Sencha.');
+    fireEvent.press(getByTestId('document-add-text-button'));
+    await waitFor(() => {
+      expect(documentStore.addDocument).toHaveBeenCalledWith('collection-1', {
+        title: 'Untitled',
+        text: 'Sencha.',
+      });
+    });
+    await waitFor(() => {
+      expect(getByTestId('document-paste-text-input').props.value).toBe('');
+    });
+
+    fireEvent.press(getByTestId('document-import-file-button'));
+    await waitFor(() => {
+      expect(documentStore.importFile).toHaveBeenCalledWith('collection-1', {
+        uri: 'file:///notes.md',
+        name: 'notes.md',
+      });
+    });
+  });
+
+  it('shows indexing failures', async () => {
+    (documentStore.addDocument as jest.Mock).mockRejectedValueOnce(
+      new Error('No embedding model selected.'),
+    );
+    const {getByTestId} = render(
+      <DocumentCollectionSheet
+        isVisible
+        onDismiss={onDismiss}
+        collectionId="collection-1"
+      />,
+    );
+
+    fireEvent.changeText(getByTestId('document-paste-text-input'), 'Sencha.');
+    fireEvent.press(getByTestId('document-add-text-button'));
+
+    await waitFor(() => {
+      expect(getByTestId('document-collection-error')).toHaveTextContent(
+        'No embedding model selected.',
+      );
+    });
+  });
+
+  it('removes a document', async () => {
+    const {getByTestId} = render(
+      <DocumentCollectionSheet
+        isVisible
+        onDismiss={onDismiss}
+        collectionId="collection-1"
+      />,
+    );
+
+    fireEvent.press(getByTestId('document-remove-doc-1'));
+
+    await waitFor(() => {
+      expect(documentStore.removeDocument).toHaveBeenCalledWith('doc-1');
+    });
+  });
+
+  it('confirms before deleting a collection', () => {
+    jest.useFakeTimers();
+    const alertSpy = jest.spyOn(Alert, 'alert');
+    const {getByTestId} = render(
+      <DocumentCollectionSheet
+        isVisible
+        onDismiss={onDismiss}
+        collectionId="collection-1"
+      />,
+    );
+
+    fireEvent.press(getByTestId('document-collection-remove-button'));
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(onDismiss).toHaveBeenCalled();
+    const buttons = alertSpy.mock.calls[0][2]!;
+    buttons[1].onPress!();
+    expect(documentStore.deleteCollection).toHaveBeenCalledWith('collection-1');
+
+    alertSpy.mockRestore();
+    jest.useRealTimers();
+  });
+});
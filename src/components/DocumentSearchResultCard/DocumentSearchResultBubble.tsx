@@ -0,0 +1,70 @@
+import React, {useContext, useState} from 'react';
+import {TouchableOpacity} from 'react-native';
+
+import {Text} from 'react-native-paper';
+
+import {ChevronRightIcon, SearchIcon} from '../../assets/icons';
+import {useTheme} from '../../hooks';
+
+import {DocumentSearchResultsSheet} from './DocumentSearchResultsSheet';
+import {styles} from './styles';
+
+import {L10nContext} from '../../utils';
+import {t} from '../../locales';
+import {DocumentSearchResultItem} from '../../services/talents/types';
+
+interface DocumentSearchResultBubbleProps {
+  query: string;
+  passages: DocumentSearchResultItem[];
+}
+
+export const DocumentSearchResultBubble: React.FC<
+  DocumentSearchResultBubbleProps
+> = ({query, passages}) => {
+  const theme = useTheme();
+  const l10n = useContext(L10nContext);
+  const [sheetVisible, setSheetVisible] = useState(false);
+
+  const componentStyles = styles({theme});
+  const strings = l10n.chat.documentSearch;
+
+  return (
+    <>
+      <TouchableOpacity
+        style={componentStyles.row}
+        hitSlop={{top: 12, bottom: 12}}
+        onPress={() => setSheetVisible(true)}
+        accessibilityRole="button"
+        accessibilityLabel={t(strings.showPassagesAccessibilityLabel, {query})}
+        testID="document-search-result-trigger">
+        <SearchIcon
+          width={14}
+          height={14}
+          stroke={theme.colors.textSecondary}
+        />
+        {/* Split so a long query truncates but the count never does. */}
+        <Text style={componentStyles.label} numberOfLines={1}>
+          {t(strings.searched, {query})}
+        </Text>
+        <Text style={componentStyles.count} numberOfLines={1}>
+          {'·  '}
+          {passages.length === 1
+            ? strings.passagesCountOne
+            : t(strings.passagesCount, {count: passages.length})}
+        </Text>
+        <ChevronRightIcon
+          width={14}
+          height={14}
+          stroke={theme.colors.textSecondary}
+        />
+      </TouchableOpacity>
+
+      <DocumentSearchResultsSheet
+        isVisible={sheetVisible}
+        query={query}
+        passages={passages}
+        onDismiss={() => setSheetVisible(false)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,63 @@
+import React, {useContext} from 'react';
+import {View} from 'react-native';
+
+import {Text} from 'react-native-paper';
+
+import {Sheet} from '../Sheet';
+import {useTheme} from '../../hooks';
+
+import {sheetStyles} from './styles';
+
+import {L10nContext} from '../../utils';
+import {t} from '../../locales';
+import {DocumentSearchResultItem} from '../../services/talents/types';
+
+interface DocumentSearchResultsSheetProps {
+  isVisible: boolean;
+  query: string;
+  passages: DocumentSearchResultItem[];
+  onDismiss: () => void;
+}
+
+export const DocumentSearchResultsSheet: React.FC<
+  DocumentSearchResultsSheetProps
+> = ({isVisible, query, passages, onDismiss}) => {
+  const theme = useTheme();
+  const l10n = useContext(L10nContext);
+
+  const styles = sheetStyles({theme});
+  const strings = l10n.chat.documentSearch;
+
+  return (
+    <Sheet
+      isVisible={isVisible}
+      onClose={onDismiss}
+      title={strings.passagesTitle}
+      snapPoints={['60%']}>
+      <Sheet.ScrollView
+        contentContainerStyle={styles.container}
+        testID="document-search-results-sheet">
+        <Text style={styles.subtitle} numberOfLines={1}>
+          {t(strings.searched, {query})}
+        </Text>
+        {passages.map((item, i) => (
+          <View
+            key={`${item.title}-${i}`}
+            style={styles.passage}
+            testID="document-search-result-row">
+            <Text variant="labelMedium" style={styles.title}>
+              {item.title}
+            </Text>
+            <Text style={styles.collection} numberOfLines={1}>
+              {item.collection}
+            </Text>
+            <Text style={styles.snippet} numberOfLines={4}>
+              {item.snippet}
+            </Text>
+          </View>
+        ))}
+        <View style={styles.bottomSpacer} />
+      </Sheet.ScrollView>
+    </Sheet>
+  );
+};
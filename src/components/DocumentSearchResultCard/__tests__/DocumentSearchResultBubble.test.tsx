@@ -0,0 +1,68 @@
+import React from 'react';
+
+import {fireEvent, render} from '../../../../jest/test-utils';
+
+import {DocumentSearchResultBubble} from '../DocumentSearchResultBubble';
+
+jest.mock('../../../assets/icons', () => {
+  const {Text} = require('react-native-paper');
+  return {
+    SearchIcon: () => <Text>search-icon</Text>,
+    ChevronRightIcon: () => <Text>chevron-icon</Text>,
+  };
+});
+
+// Render the Sheet body inline when visible so the passage rows are reachable.
+jest.mock('../../Sheet/Sheet', () => {
+  const {View} = require('react-native');
+  const MockSheet = ({children, isVisible, title}: any) =>
+    isVisible ? (
+      <View testID="sheet">
+        <View testID="sheet-title">{title}</View>
+        {children}
+      </View>
+    ) : null;
+  MockSheet.ScrollView = ({children, ...props}: any) => (
+    <View {...props}>{children}</View>
+  );
+  return {Sheet: MockSheet};
+});
+
+const passages = [
+  {title: 'Tea guide', collection: 'Notes', snippet: 'Green tea is steamed.'},
+  {title: 'Menu', collection: 'Cafe', snippet: 'Oolong, sencha.'},
+];
+
+describe('DocumentSearchResultBubble', () => {
+  it('renders a compact trigger with the query and passage count', () => {
+    const {getByText, queryByTestId} = render(
+      <DocumentSearchResultBubble query="tea" passages={passages} />,
+    );
+
+    expect(getByText(/Searched documents: tea/)).toBeTruthy();
+    expect(getByText(/2 passages/)).toBeTruthy();
+    expect(queryByTestId('document-search-results-sheet')).toBeNull();
+  });
+
+  it('uses the singular label for one passage', () => {
+    const {getByText} = render(
+      <DocumentSearchResultBubble query="tea" passages={[passages[0]]} />,
+    );
+
+    expect(getByText(/1 passage$/)).toBeTruthy();
+  });
+
+  it('lists every passage with its document and collection in the sheet', () => {
+    const {getByTestId, getAllByTestId, getByText} = render(
+      <DocumentSearchResultBubble query="tea" passages={passages} />,
+    );
+
+    fireEvent.press(getByTestId('document-search-result-trigger'));
+
+    expect(getByTestId('document-search-results-sheet')).toBeTruthy();
+    expect(getAllByTestId('document-search-result-row')).toHaveLength(2);
+    expect(getByText('Tea guide')).toBeTruthy();
+    expect(getByText(/Cafe/)).toBeTruthy();
+    expect(getByText('Oolong, sencha.')).toBeTruthy();
+  });
+});
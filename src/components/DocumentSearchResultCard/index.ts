@@ -0,0 +1,2 @@
+export {DocumentSearchResultBubble} from './DocumentSearchResultBubble';
+export {DocumentSearchResultsSheet} from './DocumentSearchResultsSheet';
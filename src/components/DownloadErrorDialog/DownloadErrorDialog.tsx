@@ -54,6 +54,7 @@ export const DownloadErrorDialog: React.FC<DownloadErrorDialogProps> = ({
     | 'unauthorized'
     | 'forbidden'
     | 'noToken'
+    | 'corrupted'
     | 'other' => {
     if (!error) {
       return 'other';
@@ -68,6 +69,8 @@ export const DownloadErrorDialog: React.FC<DownloadErrorDialogProps> = ({
       return 'forbidden';
     } else if (error.code === 'server') {
       return 'forbidden';
+    } else if (error.code === 'corrupted') {
+      return 'corrupted';
     }
     return 'other';
   };
@@ -90,6 +93,8 @@ export const DownloadErrorDialog: React.FC<DownloadErrorDialogProps> = ({
         return alerts.forbiddenTitle;
       case 'noToken':
         return alerts.getTokenTitle;
+      case 'corrupted':
+        return alerts.corruptedTitle;
       default:
         return alerts.downloadFailedTitle;
     }
@@ -111,6 +116,8 @@ export const DownloadErrorDialog: React.FC<DownloadErrorDialogProps> = ({
         return alerts.forbiddenMessage;
       case 'noToken':
         return alerts.getTokenMessage;
+      case 'corrupted':
+        return alerts.corruptedMessage;
       default:
         return !error?.message
           ? t(alerts.downloadFailedMessage, {message: ''})
@@ -6,7 +6,11 @@ import {Linking} from 'react-native';
 import {hfStore} from '../../../store';
 import {createModel} from '../../../../jest/fixtures/models';
 import {l10n} from '../../../locales';
-import {createErrorState, ErrorState} from '../../../utils/errors';
+import {
+  createErrorState,
+  DownloadCorruptedError,
+  ErrorState,
+} from '../../../utils/errors';
 
 // Mock Linking - need to spy on the actual Linking object
 const mockOpenURL = jest.fn().mockImplementation(() => Promise.resolve());
@@ -217,4 +221,33 @@ describe('DownloadErrorDialog', () => {
       'Something unexpected happened',
     );
   });
+
+  it('renders the corrupted download state with a retry', () => {
+    const error: ErrorState = createErrorState(
+      new DownloadCorruptedError('test-model', 'abc', 'def'),
+      'download',
+      'huggingface',
+      {modelId: 'test-model'},
+    );
+    expect(error.code).toBe('corrupted');
+
+    const {getByText, queryByTestId} = render(
+      <DownloadErrorDialog
+        visible={true}
+        onDismiss={mockDismiss}
+        error={error}
+        model={mockModel}
+        onTryAgain={mockTryAgain}
+      />,
+    );
+
+    const alerts = l10n.en.components.downloadErrorDialog;
+    expect(getByText(alerts.corruptedTitle)).toBeTruthy();
+    expect(getByText(alerts.corruptedMessage)).toBeTruthy();
+    // The hashes are not useful to show.
+    expect(queryByTestId('error-message-text')).toBeNull();
+
+    fireEvent.press(getByText(alerts.tryAgain));
+    expect(mockTryAgain).toHaveBeenCalled();
+  });
 });
@@ -6,11 +6,13 @@ import {reaction} from 'mobx';
 
 import {modelStore, uiStore} from '../../store';
 import {DownloadBanner} from './DownloadBanner';
+import {LocalServerBanner} from './LocalServerBanner';
 import {overlayStyles as createStyles} from './styles';
 import {useTheme} from '../../hooks';
 
 /**
- * Mounts the DownloadBanner over the navigator. Persists across navigation
+ * Mounts the DownloadBanner, and the LocalServerBanner below it while the
+ * LAN server runs, over the navigator. Persists across navigation
  * because it's rendered above the App-level SwitchPoint. The banner
  * self-hides when there's no non-dismissed active download. Multi-download
  * UI lives on the Models screen — the banner sends users there via its
@@ -43,6 +45,7 @@ export const DownloadOverlay: React.FC = observer(() => {
   return (
     <View pointerEvents="box-none" style={styles.root}>
       <DownloadBanner />
+      <LocalServerBanner />
     </View>
   );
 });
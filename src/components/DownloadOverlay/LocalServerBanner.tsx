@@ -0,0 +1,69 @@
+import React, {useContext} from 'react';
+import {Pressable, Text, View} from 'react-native';
+import {observer} from 'mobx-react';
+import {useNavigation, NavigationProp} from '@react-navigation/native';
+
+import {useTheme} from '../../hooks';
+import {localServerStore} from '../../store';
+import {L10nContext} from '../../utils';
+import {ROUTES} from '../../utils/navigationConstants';
+import {bannerStyles as createStyles} from './styles';
+
+/**
+ * Shown while "Serve on LAN" is on, so the model is never reachable from
+ * the network without the user seeing it. Body tap → Settings; the Stop
+ * pill is the kill switch and shuts the server down at once.
+ */
+export const LocalServerBanner: React.FC = observer(() => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const navigation = useNavigation<NavigationProp<any>>();
+  const l10n = useContext(L10nContext);
+
+  if (!localServerStore.isRunning) {
+    return null;
+  }
+
+  const address = localServerStore.addresses[0]
+    ? `${localServerStore.addresses[0]}:${localServerStore.port}`
+    : `:${localServerStore.port}`;
+  const title = l10n.localServerBanner.title.replace('{{address}}', address);
+  const {activeRequests, queuedRequests} = localServerStore;
+  const status =
+    queuedRequests > 0
+      ? l10n.localServerBanner.queued.replace(
+          '{{count}}',
+          String(queuedRequests),
+        )
+      : activeRequests > 0
+        ? l10n.localServerBanner.busy
+        : '';
+
+  return (
+    <View style={styles.root}>
+      <Pressable
+        testID="local-server-banner"
+        accessibilityRole="button"
+        accessibilityLabel={status ? `${title}, ${status}` : title}
+        onPress={() => navigation.navigate(ROUTES.SETTINGS as never)}
+        style={styles.body}>
+        <View
+          style={[styles.serverDot, activeRequests > 0 && styles.serverDotBusy]}
+        />
+        <Text style={styles.title} numberOfLines={1} ellipsizeMode="tail">
+          {title}
+        </Text>
+        {status ? <Text style={styles.eta}>{status}</Text> : null}
+      </Pressable>
+      <Pressable
+        testID="local-server-banner-stop"
+        accessibilityRole="button"
+        accessibilityLabel={l10n.common.stop}
+        onPress={() => localServerStore.stop()}
+        style={styles.stop}
+        hitSlop={8}>
+        <Text style={styles.stopText}>{l10n.common.stop}</Text>
+      </Pressable>
+    </View>
+  );
+});
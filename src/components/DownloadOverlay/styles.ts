@@ -10,6 +10,7 @@ export const overlayStyles = (theme: Theme, topInset: number) =>
       left: 50,
       right: 45,
       zIndex: 100,
+      gap: theme.spacing.s,
     },
   });
 
@@ -104,4 +105,13 @@ export const bannerStyles = (theme: Theme) =>
       ...theme.typography.captionS,
       color: theme.colors.onBackground,
     },
+    serverDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: theme.colors.accent.greenStrong,
+    },
+    serverDotBusy: {
+      backgroundColor: theme.colors.primary,
+    },
   });
@@ -9,6 +9,8 @@ export type DownloadProgressCardProps = {
   modelName: string;
   /** Right-aligned size string (e.g., `800 MB`). Empty to hide. */
   sizeLabel?: string;
+  /** Place in the download queue while waiting (e.g., `Queued · #2`). */
+  queueLabel?: string;
   /** 0..100. */
   progress: number;
   /** Left caption (e.g., `358 MB · 0.6 MB/s`). */
@@ -28,6 +30,7 @@ export type DownloadProgressCardProps = {
 export const DownloadProgressCard: React.FC<DownloadProgressCardProps> = ({
   modelName,
   sizeLabel,
+  queueLabel,
   progress,
   bytesLabel,
   etaLabel,
@@ -44,6 +47,11 @@ export const DownloadProgressCard: React.FC<DownloadProgressCardProps> = ({
         <Text style={styles.title} numberOfLines={1} ellipsizeMode="tail">
           {modelName}
         </Text>
+        {queueLabel ? (
+          <Text testID="download-progress-queue" style={styles.queue}>
+            {queueLabel}
+          </Text>
+        ) : null}
         {sizeLabel ? <Text style={styles.size}>{sizeLabel}</Text> : null}
       </View>
       <View style={styles.actionRow}>
@@ -31,6 +31,14 @@ export const createStyles = (theme: Theme) =>
       ...theme.typography.captionM,
       color: theme.colors.onSurfaceVariant,
     },
+    queue: {
+      ...theme.typography.captionS,
+      color: theme.colors.onSurfaceVariant,
+      backgroundColor: theme.colors.secondaryDefault,
+      borderRadius: theme.radius.xxl,
+      paddingHorizontal: theme.spacing.s,
+      overflow: 'hidden',
+    },
     actionRow: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -0,0 +1,127 @@
+import {View} from 'react-native';
+import React, {useContext, useState} from 'react';
+
+import {observer} from 'mobx-react';
+import {Button, Chip, Text} from 'react-native-paper';
+
+import {TextInput} from '../TextInput';
+
+import {useTheme} from '../../hooks';
+
+import {createStyles} from './styles';
+
+import {modelStore} from '../../store';
+
+import {Model} from '../../utils/types';
+import {L10nContext} from '../../utils';
+import {t} from '../../locales';
+import {applyLoadProfile} from '../../utils/contextInitParamsVersions';
+
+interface LoadProfileSelectorProps {
+  model: Model;
+  selectedProfileId?: string; // undefined = global settings
+  onSelect: (profileId?: string) => void;
+  editable?: boolean; // Allows saving and removing profiles
+}
+
+/**
+ * Picks which of a model's load profiles (or the global settings) it loads
+ * with, and shows what that resolves to.
+ */
+export const LoadProfileSelector = observer(
+  ({
+    model,
+    selectedProfileId,
+    onSelect,
+    editable = false,
+  }: LoadProfileSelectorProps) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const styles = createStyles(theme);
+
+    const [newProfileName, setNewProfileName] = useState('');
+
+    const profiles = model.loadProfiles ?? [];
+    const selectedProfile = profiles.find(p => p.id === selectedProfileId);
+    const resolved = applyLoadProfile(
+      modelStore.contextInitParams,
+      selectedProfile,
+    );
+
+    const handleAdd = () => {
+      const name = newProfileName.trim();
+      if (!name) {
+        return;
+      }
+      const profile = modelStore.addLoadProfile(model.id, name);
+      if (profile) {
+        onSelect(profile.id);
+      }
+      setNewProfileName('');
+    };
+
+    const handleRemove = (profileId: string) => {
+      modelStore.removeLoadProfile(model.id, profileId);
+      if (profileId === selectedProfileId) {
+        onSelect(undefined);
+      }
+    };
+
+    return (
+      <View testID="load-profile-selector">
+        <View style={styles.chipsRow}>
+          <Chip
+            testID="load-profile-chip-global"
+            selected={!selectedProfile}
+            showSelectedCheck
+            onPress={() => onSelect(undefined)}>
+            {l10n.components.loadProfileSelector.globalSettings}
+          </Chip>
+          {profiles.map(profile => (
+            <Chip
+              key={profile.id}
+              testID={`load-profile-chip-${profile.id}`}
+              selected={profile.id === selectedProfile?.id}
+              showSelectedCheck
+              onPress={() => onSelect(profile.id)}
+              onClose={editable ? () => handleRemove(profile.id) : undefined}>
+              {profile.name}
+            </Chip>
+          ))}
+        </View>
+        <Text
+          variant="bodySmall"
+          style={styles.summary}
+          testID="load-profile-summary">
+          {t(l10n.components.loadProfileSelector.summary, {
+            n_ctx: resolved.n_ctx.toString(),
+            cache_k: resolved.cache_type_k,
+            cache_v: resolved.cache_type_v,
+            n_gpu_layers: resolved.n_gpu_layers.toString(),
+          })}
+        </Text>
+        {editable && (
+          <View style={styles.addRow}>
+            <View style={styles.nameInput}>
+              <TextInput
+                testID="load-profile-name-input"
+                value={newProfileName}
+                onChangeText={setNewProfileName}
+                placeholder={
+                  l10n.components.loadProfileSelector.namePlaceholder
+                }
+              />
+            </View>
+            <Button
+              testID="load-profile-save-button"
+              mode="text"
+              onPress={handleAdd}
+              disabled={!newProfileName.trim()}>
+              {l10n.components.loadProfileSelector.saveCurrent}
+            </Button>
+          </View>
+        )}
+      </View>
+    );
+  },
+);
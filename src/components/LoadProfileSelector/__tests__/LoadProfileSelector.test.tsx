@@ -0,0 +1,90 @@
+import React from 'react';
+
+import {render, fireEvent} from '../../../../jest/test-utils';
+import {createModel} from '../../../../jest/fixtures/models';
+
+import {modelStore} from '../../../store';
+
+import {LoadProfileSelector} from '../LoadProfileSelector';
+
+const longContext = {
+  id: 'profile-long',
+  name: 'Long context',
+  version: '2.3',
+  overrides: {n_ctx: 32768, cache_type_k: 'q8_0', cache_type_v: 'q8_0'},
+};
+
+const model = createModel({
+  id: 'model-1',
+  loadProfiles: [longContext],
+});
+
+describe('LoadProfileSelector', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('summarises the global settings when no profile is selected', () => {
+    const {getByTestId} = render(
+      <LoadProfileSelector model={model} onSelect={jest.fn()} />,
+    );
+    expect(getByTestId('load-profile-summary')).toHaveTextContent(
+      `Context ${modelStore.contextInitParams.n_ctx}`,
+      {exact: false},
+    );
+  });
+
+  it('summarises the selected profile on top of the globals', () => {
+    const {getByTestId} = render(
+      <LoadProfileSelector
+        model={model}
+        selectedProfileId="profile-long"
+        onSelect={jest.fn()}
+      />,
+    );
+    expect(getByTestId('load-profile-summary')).toHaveTextContent(
+      'Context 32768 · KV cache q8_0/q8_0',
+      {exact: false},
+    );
+  });
+
+  it('reports the picked profile, or undefined for the globals', () => {
+    const onSelect = jest.fn();
+    const {getByTestId} = render(
+      <LoadProfileSelector
+        model={model}
+        selectedProfileId="profile-long"
+        onSelect={onSelect}
+      />,
+    );
+
+    fireEvent.press(getByTestId('load-profile-chip-global'));
+    expect(onSelect).toHaveBeenLastCalledWith(undefined);
+
+    fireEvent.press(getByTestId('load-profile-chip-profile-long'));
+    expect(onSelect).toHaveBeenLastCalledWith('profile-long');
+  });
+
+  it('only offers saving when editable', () => {
+    const {queryByTestId} = render(
+      <LoadProfileSelector model={model} onSelect={jest.fn()} />,
+    );
+    expect(queryByTestId('load-profile-save-button')).toBeNull();
+  });
+
+  it('saves the current settings as a named profile and selects it', () => {
+    (modelStore.addLoadProfile as jest.Mock).mockReturnValue({
+      id: 'profile-new',
+    });
+    const onSelect = jest.fn();
+    const {getByTestId} = render(
+      <LoadProfileSelector model={model} onSelect={onSelect} editable />,
+    );
+
+    fireEvent.changeText(getByTestId('load-profile-name-input'), ' Fast ');
+    fireEvent.press(getByTestId('load-profile-save-button'));
+
+    expect(modelStore.addLoadProfile).toHaveBeenCalledWith('model-1', 'Fast');
+    expect(onSelect).toHaveBeenCalledWith('profile-new');
+  });
+});
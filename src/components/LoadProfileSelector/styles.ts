@@ -0,0 +1,24 @@
+import {StyleSheet} from 'react-native';
+import {Theme} from '../../utils';
+
+export const createStyles = (theme: Theme) =>
+  StyleSheet.create({
+    chipsRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 8,
+    },
+    summary: {
+      color: theme.colors.onSurfaceVariant,
+      marginBottom: 12,
+    },
+    addRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    nameInput: {
+      flex: 1,
+    },
+  });
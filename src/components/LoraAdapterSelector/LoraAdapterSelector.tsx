@@ -0,0 +1,145 @@
+import {View, TouchableOpacity, Alert} from 'react-native';
+import React, {useContext} from 'react';
+
+import {observer} from 'mobx-react';
+import {Switch, Text} from 'react-native-paper';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import {InputSlider} from '../InputSlider';
+
+import {useTheme} from '../../hooks';
+
+import {createStyles} from './styles';
+
+import {modelStore} from '../../store';
+
+import {LoraAdapterSetting, Model} from '../../utils/types';
+import {L10nContext, formatBytes} from '../../utils';
+import {t} from '../../locales';
+import {DEFAULT_LORA_SCALE} from '../../utils/loraAdapters';
+
+interface LoraAdapterSelectorProps {
+  model: Model; // Base model the adapters apply to
+  value: LoraAdapterSetting[];
+  onChange: (settings: LoraAdapterSetting[]) => void;
+  showDeleteActions?: boolean;
+}
+
+/**
+ * Toggles and scales the downloaded LoRA adapters that fit a base model's
+ * architecture. Renders nothing when there are none.
+ */
+export const LoraAdapterSelector = observer(
+  ({
+    model,
+    value,
+    onChange,
+    showDeleteActions = false,
+  }: LoraAdapterSelectorProps) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const styles = createStyles(theme);
+
+    const adapters = modelStore.getCompatibleLoraAdapters(model.id);
+    if (adapters.length === 0) {
+      return null;
+    }
+
+    const handleToggle = (adapterId: string, enabled: boolean) => {
+      const others = value.filter(s => s.id !== adapterId);
+      onChange(
+        enabled
+          ? [...others, {id: adapterId, scale: DEFAULT_LORA_SCALE}]
+          : others,
+      );
+    };
+
+    const handleScale = (adapterId: string, scale: number) => {
+      onChange(value.map(s => (s.id === adapterId ? {...s, scale} : s)));
+    };
+
+    const handleDelete = (adapter: Model) => {
+      Alert.alert(
+        l10n.components.loraAdapterSelector.deleteTitle,
+        t(l10n.components.loraAdapterSelector.deleteMessage, {
+          name: adapter.name,
+        }),
+        [
+          {text: l10n.common.cancel, style: 'cancel'},
+          {
+            text: l10n.common.delete,
+            style: 'destructive',
+            onPress: async () => {
+              onChange(value.filter(s => s.id !== adapter.id));
+              try {
+                await modelStore.deleteModel(adapter);
+              } catch (error) {
+                console.error('Failed to delete LoRA adapter:', error);
+              }
+            },
+          },
+        ],
+      );
+    };
+
+    return (
+      <View testID="lora-adapter-selector" style={styles.container}>
+        <Text style={styles.title}>
+          {l10n.components.loraAdapterSelector.title}
+        </Text>
+        {adapters.map(adapter => {
+          const setting = value.find(s => s.id === adapter.id);
+          return (
+            <View
+              key={adapter.id}
+              testID={`lora-adapter-item-${adapter.id}`}
+              style={[styles.item, setting && styles.enabledItem]}>
+              <View style={styles.itemRow}>
+                <View style={styles.info}>
+                  <Text
+                    style={styles.name}
+                    numberOfLines={2}
+                    ellipsizeMode="tail">
+                    {adapter.name}
+                  </Text>
+                  <Text style={styles.size}>{formatBytes(adapter.size)}</Text>
+                </View>
+                <Switch
+                  testID={`lora-adapter-switch-${adapter.id}`}
+                  value={Boolean(setting)}
+                  onValueChange={enabled => handleToggle(adapter.id, enabled)}
+                />
+                {showDeleteActions && (
+                  <TouchableOpacity
+                    testID={`lora-adapter-delete-${adapter.id}`}
+                    onPress={() => handleDelete(adapter)}
+                    style={styles.deleteArea}
+                    activeOpacity={0.7}>
+                    <Icon
+                      name="delete-outline"
+                      size={16}
+                      color={theme.colors.error}
+                    />
+                  </TouchableOpacity>
+                )}
+              </View>
+              {setting && (
+                <InputSlider
+                  testID={`lora-adapter-scale-${adapter.id}`}
+                  label={l10n.components.loraAdapterSelector.scale}
+                  labelVariant="bodySmall"
+                  value={setting.scale}
+                  onValueChange={scale => handleScale(adapter.id, scale)}
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  precision={2}
+                />
+              )}
+            </View>
+          );
+        })}
+      </View>
+    );
+  },
+);
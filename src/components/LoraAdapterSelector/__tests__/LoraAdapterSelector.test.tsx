@@ -0,0 +1,115 @@
+import React from 'react';
+import {Alert} from 'react-native';
+
+import {render, fireEvent, waitFor} from '../../../../jest/test-utils';
+import {createModel} from '../../../../jest/fixtures/models';
+
+import {modelStore} from '../../../store';
+
+import {ModelType} from '../../../utils/types';
+
+import {LoraAdapterSelector} from '../LoraAdapterSelector';
+
+const base = createModel({id: 'model-1'});
+
+const adapter = createModel({
+  id: 'author/repo/pirate-lora.gguf',
+  name: 'Pirate LoRA',
+  size: 50 * 1024 * 1024,
+  isDownloaded: true,
+  modelType: ModelType.LORA,
+  adapterArchitecture: 'llama',
+});
+
+describe('LoraAdapterSelector', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (modelStore.getCompatibleLoraAdapters as jest.Mock).mockReturnValue([
+      adapter,
+    ]);
+  });
+
+  afterEach(() => {
+    (modelStore.getCompatibleLoraAdapters as jest.Mock).mockReturnValue([]);
+    jest.restoreAllMocks();
+  });
+
+  it('renders nothing without compatible adapters', () => {
+    (modelStore.getCompatibleLoraAdapters as jest.Mock).mockReturnValue([]);
+    const {queryByTestId} = render(
+      <LoraAdapterSelector model={base} value={[]} onChange={jest.fn()} />,
+    );
+    expect(queryByTestId('lora-adapter-selector')).toBeNull();
+  });
+
+  it('lists compatible adapters with their size', () => {
+    const {getByText, queryByTestId} = render(
+      <LoraAdapterSelector model={base} value={[]} onChange={jest.fn()} />,
+    );
+    expect(modelStore.getCompatibleLoraAdapters).toHaveBeenCalledWith(
+      'model-1',
+    );
+    expect(getByText('Pirate LoRA')).toBeTruthy();
+    expect(getByText('52.43 MB')).toBeTruthy();
+    expect(queryByTestId(`lora-adapter-scale-${adapter.id}`)).toBeNull();
+  });
+
+  it('enables an adapter at the default scale and disables it again', () => {
+    const onChange = jest.fn();
+    const {getByTestId, rerender} = render(
+      <LoraAdapterSelector model={base} value={[]} onChange={onChange} />,
+    );
+
+    fireEvent(
+      getByTestId(`lora-adapter-switch-${adapter.id}`),
+      'valueChange',
+      true,
+    );
+    expect(onChange).toHaveBeenLastCalledWith([{id: adapter.id, scale: 1}]);
+
+    rerender(
+      <LoraAdapterSelector
+        model={base}
+        value={[{id: adapter.id, scale: 0.5}]}
+        onChange={onChange}
+      />,
+    );
+    expect(getByTestId(`lora-adapter-scale-${adapter.id}`)).toBeTruthy();
+
+    fireEvent(
+      getByTestId(`lora-adapter-switch-${adapter.id}`),
+      'valueChange',
+      false,
+    );
+    expect(onChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('only offers deletion when asked to', () => {
+    const {queryByTestId} = render(
+      <LoraAdapterSelector model={base} value={[]} onChange={jest.fn()} />,
+    );
+    expect(queryByTestId(`lora-adapter-delete-${adapter.id}`)).toBeNull();
+  });
+
+  it('deletes an adapter after confirmation', async () => {
+    jest.spyOn(Alert, 'alert').mockImplementation((_title, _msg, buttons) => {
+      buttons?.find(b => b.style === 'destructive')?.onPress?.();
+    });
+    const onChange = jest.fn();
+    const {getByTestId} = render(
+      <LoraAdapterSelector
+        model={base}
+        value={[{id: adapter.id, scale: 1}]}
+        onChange={onChange}
+        showDeleteActions
+      />,
+    );
+
+    fireEvent.press(getByTestId(`lora-adapter-delete-${adapter.id}`));
+
+    await waitFor(() => {
+      expect(modelStore.deleteModel).toHaveBeenCalledWith(adapter);
+    });
+    expect(onChange).toHaveBeenCalledWith([]);
+  });
+});
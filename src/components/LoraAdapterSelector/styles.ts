@@ -0,0 +1,54 @@
+import {StyleSheet} from 'react-native';
+import {Theme} from '../../utils';
+
+export const createStyles = (theme: Theme) =>
+  StyleSheet.create({
+    container: {
+      marginTop: 8,
+      gap: 8,
+    },
+    title: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: theme.colors.primary,
+    },
+    item: {
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      backgroundColor: theme.colors.surfaceVariant + '20',
+      borderRadius: 8,
+      borderLeftWidth: 3,
+      borderLeftColor: 'transparent',
+    },
+    enabledItem: {
+      borderLeftColor: theme.colors.primary,
+    },
+    itemRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    info: {
+      flex: 1,
+      marginRight: 8,
+    },
+    name: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: theme.colors.onSurface,
+      marginBottom: 2,
+    },
+    size: {
+      fontSize: 11,
+      color: theme.colors.onSurfaceVariant,
+    },
+    deleteArea: {
+      padding: 6,
+      borderRadius: 6,
+      backgroundColor: theme.colors.errorContainer + '20',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minWidth: 32,
+      minHeight: 32,
+    },
+  });
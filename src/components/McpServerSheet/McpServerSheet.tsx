@@ -0,0 +1,228 @@
+import React, {useState, useContext, useEffect} from 'react';
+import {View, Alert} from 'react-native';
+import {Text, Button, TextInput as PaperTextInput} from 'react-native-paper';
+import {observer} from 'mobx-react';
+
+import {Sheet, TextInput} from '..';
+import {useTheme} from '../../hooks';
+import {mcpStore} from '../../store';
+import {L10nContext} from '../../utils';
+import {t} from '../../locales';
+import {EyeIcon, EyeOffIcon} from '../../assets/icons';
+
+import {createStyles} from './styles';
+
+interface McpServerSheetProps {
+  isVisible: boolean;
+  onDismiss: () => void;
+  /** Server to edit; `null` adds a new one. */
+  serverId: string | null;
+}
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const parsed = new URL(value);
+    return (
+      (parsed.protocol === 'http:' || parsed.protocol === 'https:') &&
+      parsed.hostname.length > 0
+    );
+  } catch {
+    return false;
+  }
+};
+
+export const McpServerSheet: React.FC<McpServerSheetProps> = observer(
+  ({isVisible, onDismiss, serverId}) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const styles = createStyles(theme);
+    const strings = l10n.settings.mcpServers;
+
+    const [name, setName] = useState('');
+    const [url, setUrl] = useState('');
+    const [token, setToken] = useState('');
+    const [secureTextEntry, setSecureTextEntry] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const server = serverId
+      ? mcpStore.servers.find(s => s.id === serverId)
+      : undefined;
+    const status = serverId ? mcpStore.status[serverId] : undefined;
+
+    useEffect(() => {
+      if (!isVisible) {
+        return;
+      }
+      setName(server?.name ?? '');
+      setUrl(server?.url ?? '');
+      setToken('');
+      setError(null);
+      setSecureTextEntry(true);
+      setIsSaving(false);
+      if (serverId) {
+        mcpStore.getToken(serverId).then(saved => setToken(saved ?? ''));
+      }
+      // Only reload when the sheet opens or switches server.
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isVisible, serverId]);
+
+    const handleSave = async () => {
+      const trimmedName = name.trim();
+      const trimmedUrl = url.trim();
+      if (!trimmedName) {
+        setError(strings.nameRequired);
+        return;
+      }
+      if (!isHttpUrl(trimmedUrl)) {
+        setError(l10n.settings.serverUrlInvalid);
+        return;
+      }
+      setIsSaving(true);
+      try {
+        const trimmedToken = token.trim();
+        if (serverId) {
+          if (trimmedToken) {
+            await mcpStore.setToken(serverId, trimmedToken);
+          } else {
+            await mcpStore.removeToken(serverId);
+          }
+          onDismiss();
+          // Reconnects; status shows on the settings card.
+          mcpStore.updateServer(serverId, {
+            name: trimmedName,
+            url: trimmedUrl,
+          });
+        } else {
+          onDismiss();
+          mcpStore.addServer(
+            {name: trimmedName, url: trimmedUrl},
+            trimmedToken || undefined,
+          );
+        }
+      } finally {
+        setIsSaving(false);
+      }
+    };
+
+    const handleRemove = () => {
+      if (!serverId || !server) {
+        return;
+      }
+      const serverName = server.name;
+      // Dismiss first so the native alert is not hidden behind the sheet's
+      // overlay on iOS.
+      onDismiss();
+      setTimeout(() => {
+        Alert.alert(
+          strings.removeTitle,
+          t(strings.removeMessage, {serverName}),
+          [
+            {text: l10n.common.cancel, style: 'cancel'},
+            {
+              text: l10n.common.delete,
+              style: 'destructive',
+              onPress: () => {
+                mcpStore.removeServer(serverId);
+              },
+            },
+          ],
+        );
+      }, 300);
+    };
+
+    return (
+      <Sheet
+        isVisible={isVisible}
+        onClose={onDismiss}
+        title={server ? server.name : strings.addTitle}
+        snapPoints={['70%']}>
+        <Sheet.ScrollView contentContainerStyle={styles.container}>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="mcp-server-name-input"
+              label={l10n.settings.serverName}
+              value={name}
+              onChangeText={setName}
+              autoCorrect={false}
+            />
+            <Text style={styles.description}>{strings.nameDescription}</Text>
+          </View>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="mcp-server-url-input"
+              label={l10n.settings.serverUrl}
+              value={url}
+              onChangeText={setUrl}
+              placeholder={strings.urlPlaceholder}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            {status?.unsupportedTransport && url.trim() === server?.url && (
+              <Text
+                style={styles.errorText}
+                testID="mcp-server-unsupported-transport">
+                {strings.unsupportedTransport}
+              </Text>
+            )}
+          </View>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="mcp-server-token-input"
+              label={strings.tokenLabel}
+              value={token}
+              onChangeText={setToken}
+              placeholder={strings.tokenPlaceholder}
+              autoCapitalize="none"
+              autoCorrect={false}
+              spellCheck={false}
+              secureTextEntry={secureTextEntry}
+              right={
+                <PaperTextInput.Icon
+                  testID="mcp-server-token-toggle"
+                  icon={({color}) =>
+                    secureTextEntry ? (
+                      <EyeIcon width={24} height={24} stroke={color} />
+                    ) : (
+                      <EyeOffIcon width={24} height={24} stroke={color} />
+                    )
+                  }
+                  onPress={() => setSecureTextEntry(prev => !prev)}
+                />
+              }
+            />
+          </View>
+          {error && (
+            <Text style={styles.errorText} testID="mcp-server-error">
+              {error}
+            </Text>
+          )}
+        </Sheet.ScrollView>
+        <Sheet.Actions>
+          <View style={styles.buttonsContainer}>
+            {server && (
+              <Button
+                testID="mcp-server-remove-button"
+                mode="text"
+                textColor={theme.colors.error}
+                onPress={handleRemove}
+                style={styles.removeButton}>
+                {strings.removeTitle}
+              </Button>
+            )}
+            <Button
+              testID="mcp-server-save-button"
+              mode="contained"
+              onPress={handleSave}
+              loading={isSaving}
+              disabled={isSaving}
+              style={styles.saveButton}>
+              {server ? l10n.settings.saveChanges : strings.addServer}
+            </Button>
+          </View>
+        </Sheet.Actions>
+      </Sheet>
+    );
+  },
+);
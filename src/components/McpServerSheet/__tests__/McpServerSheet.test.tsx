@@ -0,0 +1,165 @@
+import React from 'react';
+import {Alert} from 'react-native';
+import {runInAction} from 'mobx';
+import {render, fireEvent, waitFor, act} from '../../../../jest/test-utils';
+import {McpServerSheet} from '../McpServerSheet';
+import {mcpStore} from '../../../store';
+
+jest.mock('../../Sheet', () => {
+  const {View, Button} = require('react-native');
+  const MockSheet = ({children, isVisible, onClose, title}: any) => {
+    if (!isVisible) {
+      return null;
+    }
+    return (
+      <View testID="sheet">
+        <View testID="sheet-title">{title}</View>
+        <Button title="Close" onPress={onClose} testID="sheet-close-button" />
+        {children}
+      </View>
+    );
+  };
+  MockSheet.ScrollView = ({children}: any) => (
+    <View testID="sheet-scroll-view">{children}</View>
+  );
+  MockSheet.Actions = ({children}: any) => (
+    <View testID="sheet-actions">{children}</View>
+  );
+  return {Sheet: MockSheet};
+});
+
+describe('McpServerSheet', () => {
+  const onDismiss = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runInAction(() => {
+      mcpStore.servers = [
+        {id: 'mcp-1', name: 'nas', url: 'http://nas.local/mcp', enabled: true},
+      ];
+    });
+    (mcpStore.getToken as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  it('requires a name and an http(s) url', async () => {
+    const {getByTestId} = render(
+      <McpServerSheet isVisible onDismiss={onDismiss} serverId={null} />,
+    );
+
+    fireEvent.press(getByTestId('mcp-server-save-button'));
+    await waitFor(() => {
+      expect(getByTestId('mcp-server-error')).toHaveTextContent(
+        'Name is required',
+      );
+    });
+
+    fireEvent.changeText(getByTestId('mcp-server-name-input'), 'nas');
+    fireEvent.changeText(getByTestId('mcp-server-url-input'), 'ftp://nas');
+    fireEvent.press(getByTestId('mcp-server-save-button'));
+    await waitFor(() => {
+      expect(getByTestId('mcp-server-error')).toBeTruthy();
+    });
+    expect(mcpStore.addServer).not.toHaveBeenCalled();
+  });
+
+  it('adds a server with its token', async () => {
+    const {getByTestId} = render(
+      <McpServerSheet isVisible onDismiss={onDismiss} serverId={null} />,
+    );
+
+    fireEvent.changeText(getByTestId('mcp-server-name-input'), ' home ');
+    fireEvent.changeText(
+      getByTestId('mcp-server-url-input'),
+      'https://home.example/mcp',
+    );
+    fireEvent.changeText(getByTestId('mcp-server-token-input'), 'secret');
+    fireEvent.press(getByTestId('mcp-server-save-button'));
+
+    await waitFor(() => {
+      expect(mcpStore.addServer).toHaveBeenCalledWith(
+        {name: 'home', url: 'https://home.example/mcp'},
+        'secret',
+      );
+    });
+    expect(onDismiss).toHaveBeenCalled();
+  });
+
+  it('prefills an existing server and clears a removed token', async () => {
+    (mcpStore.getToken as jest.Mock).mockResolvedValue('old-token');
+    const {getByTestId} = render(
+      <McpServerSheet isVisible onDismiss={onDismiss} serverId="mcp-1" />,
+    );
+
+    await waitFor(() => {
+      expect(getByTestId('mcp-server-token-input').props.value).toBe(
+        'old-token',
+      );
+    });
+    expect(getByTestId('mcp-server-name-input').props.value).toBe('nas');
+
+    fireEvent.changeText(getByTestId('mcp-server-token-input'), '');
+    fireEvent.press(getByTestId('mcp-server-save-button'));
+
+    await waitFor(() => {
+      expect(mcpStore.updateServer).toHaveBeenCalledWith('mcp-1', {
+        name: 'nas',
+        url: 'http://nas.local/mcp',
+      });
+    });
+    expect(mcpStore.removeToken).toHaveBeenCalledWith('mcp-1');
+  });
+
+  it('explains an unsupported transport until the url is changed', async () => {
+    runInAction(() => {
+      mcpStore.status = {
+        'mcp-1': {
+          state: 'error',
+          toolNames: [],
+          error: 'Unsupported MCP transport: legacy HTTP+SSE',
+          unsupportedTransport: true,
+        },
+      };
+    });
+    const {getByTestId, queryByTestId} = render(
+      <McpServerSheet isVisible onDismiss={onDismiss} serverId="mcp-1" />,
+    );
+
+    await waitFor(() => {
+      expect(getByTestId('mcp-server-url-input').props.value).toBe(
+        'http://nas.local/mcp',
+      );
+    });
+    expect(getByTestId('mcp-server-unsupported-transport')).toBeTruthy();
+
+    fireEvent.changeText(
+      getByTestId('mcp-server-url-input'),
+      'http://nas.local/mcp/v2',
+    );
+    expect(queryByTestId('mcp-server-unsupported-transport')).toBeNull();
+
+    runInAction(() => {
+      mcpStore.status = {};
+    });
+  });
+
+  it('confirms before removing a server', async () => {
+    jest.useFakeTimers();
+    const alertSpy = jest.spyOn(Alert, 'alert');
+    const {getByTestId} = render(
+      <McpServerSheet isVisible onDismiss={onDismiss} serverId="mcp-1" />,
+    );
+
+    fireEvent.press(getByTestId('mcp-server-remove-button'));
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(onDismiss).toHaveBeenCalled();
+    const buttons = alertSpy.mock.calls[0][2]!;
+    buttons[1].onPress!();
+    expect(mcpStore.removeServer).toHaveBeenCalledWith('mcp-1');
+
+    alertSpy.mockRestore();
+    jest.useRealTimers();
+  });
+});
@@ -11,17 +11,25 @@ import styles, {turnBlockStyles} from './styles';
 import {
   AssistantTurnFooter,
   Avatar,
+  BranchNavigator,
+  ContextSummaryCard,
   StatusIcon,
   FileMessage,
   ImageMessage,
   ReasoningBlock,
   TalentSurface,
+  TextDivider,
   TextMessage,
   TextMessageTopLevelProps,
 } from '..';
 
+import {chatSessionStore} from '../../store';
 import {MessageType} from '../../utils/types';
-import {excludeDerivedMessageProps, UserContext} from '../../utils';
+import {
+  excludeDerivedMessageProps,
+  L10nContext,
+  UserContext,
+} from '../../utils';
 
 const hapticOptions = {
   enableVibrateFallback: true,
@@ -129,6 +137,7 @@ export const Message = observer(
     usePreviewData,
   }: MessageProps) => {
     const user = React.useContext(UserContext);
+    const l10n = React.useContext(L10nContext);
     const theme = useTheme();
     const scaleAnim = React.useRef(new Animated.Value(1)).current;
 
@@ -175,6 +184,10 @@ export const Message = observer(
       );
     }
 
+    if (message.type === 'text' && message.metadata?.contextSummary) {
+      return <ContextSummaryCard message={message} />;
+    }
+
     const renderBubbleContainer = () => {
       const child = renderMessage();
 
@@ -415,7 +428,7 @@ export const Message = observer(
         </>
       );
 
-    return (
+    const row = (
       <View style={container}>
         <Avatar
           {...{
@@ -438,6 +451,10 @@ export const Message = observer(
           onPressOut={handlePressOut}
           style={pressable}>
           {innerContent}
+          <BranchNavigator
+            messageId={message.id}
+            alignEnd={currentUserIsAuthor}
+          />
         </Pressable>
         <StatusIcon
           {...{
@@ -449,5 +466,19 @@ export const Message = observer(
         />
       </View>
     );
+
+    // This message and everything before it reach the model only through
+    // the context summary further down.
+    if (chatSessionStore.contextSummaryBoundaryId === message.id) {
+      return (
+        <View>
+          {row}
+          <View testID="context-summary-boundary">
+            <TextDivider text={l10n.chat.contextSummaryBoundary} />
+          </View>
+        </View>
+      );
+    }
+    return row;
   },
 );
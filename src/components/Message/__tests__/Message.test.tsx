@@ -2,6 +2,7 @@ import {render} from '@testing-library/react-native';
 import * as React from 'react';
 
 import {derivedTextMessage} from '../../../../jest/fixtures';
+import {chatSessionStore} from '../../../store';
 import {Message} from '../Message';
 
 describe('message', () => {
@@ -40,4 +41,39 @@ describe('message', () => {
     expect(ContentContainer).toBeDefined();
     expect(ContentContainer.props.children).toBeNull();
   });
+
+  it('renders a context summary as a card', () => {
+    const {getByTestId, queryByTestId} = render(
+      <Message
+        message={{
+          ...derivedTextMessage,
+          metadata: {system: true, contextSummary: {throughId: 'm-1'}},
+        }}
+        messageWidth={440}
+        roundBorder
+        showAvatar
+        showName
+        showStatus
+      />,
+    );
+    expect(getByTestId('context-summary-card')).toBeDefined();
+    expect(queryByTestId('ContentContainer')).toBeNull();
+  });
+
+  it('marks the last message covered by a context summary', () => {
+    jest
+      .spyOn(chatSessionStore, 'contextSummaryBoundaryId', 'get')
+      .mockReturnValue(derivedTextMessage.id);
+    const {getByTestId} = render(
+      <Message
+        message={{...derivedTextMessage, type: 'custom'}}
+        messageWidth={440}
+        roundBorder
+        showAvatar
+        showName
+        showStatus
+      />,
+    );
+    expect(getByTestId('context-summary-boundary')).toBeDefined();
+  });
 });
@@ -0,0 +1,260 @@
+import React, {useState, useContext, useEffect} from 'react';
+import {View} from 'react-native';
+import {Text, Button, Checkbox, SegmentedButtons} from 'react-native-paper';
+import {observer} from 'mobx-react';
+
+import {Sheet} from '..';
+import {Dropdown} from '../ui';
+import {useTheme} from '../../hooks';
+import {modelStore, serverStore} from '../../store';
+import {L10nContext} from '../../utils';
+import {t} from '../../locales';
+import {
+  ModelOrigin,
+  ModelRoutingPolicy,
+  RemoteModelRef,
+} from '../../utils/types';
+
+import {createStyles} from './styles';
+
+interface ModelGroupSheetProps {
+  isVisible: boolean;
+  onDismiss: () => void;
+  /** Full id of the remote model whose failover backends are edited. */
+  modelId: string | null;
+}
+
+const POLICIES: ModelRoutingPolicy[] = ['priority', 'latency'];
+
+// Dropdown value for "no local fallback"; model ids are never empty.
+const NO_LOCAL_MODEL = '';
+
+const refKey = (ref: RemoteModelRef) => `${ref.serverId}/${ref.remoteModelId}`;
+
+export const ModelGroupSheet: React.FC<ModelGroupSheetProps> = observer(
+  ({isVisible, onDismiss, modelId}) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const styles = createStyles(theme);
+    const strings = l10n.components.modelGroupSheet;
+
+    const [backends, setBackends] = useState<RemoteModelRef[]>([]);
+    const [policy, setPolicy] = useState<ModelRoutingPolicy>('priority');
+    const [localModelId, setLocalModelId] = useState(NO_LOCAL_MODEL);
+    const [isChecking, setIsChecking] = useState(false);
+
+    const model = modelId
+      ? modelStore.availableModels.find(
+          m => m.id === modelId && m.origin === ModelOrigin.REMOTE,
+        )
+      : undefined;
+
+    useEffect(() => {
+      if (!isVisible || !modelId) {
+        return;
+      }
+      const group = serverStore.modelGroups[modelId];
+      setBackends(group?.backends ?? []);
+      setPolicy(group?.policy ?? 'priority');
+      setLocalModelId(group?.localModelId ?? NO_LOCAL_MODEL);
+      setIsChecking(false);
+    }, [isVisible, modelId]);
+
+    if (!model) {
+      return null;
+    }
+
+    // Copies of the model on other servers; the same server is no failover
+    const candidates = serverStore.userSelectedModels.filter(
+      ref => ref.serverId !== model.serverId,
+    );
+    const localOptions = [
+      {value: NO_LOCAL_MODEL, label: strings.noLocalFallback},
+      ...modelStore.availableModels
+        .filter(m => m.origin !== ModelOrigin.REMOTE)
+        .map(m => ({value: m.id, label: m.name})),
+    ];
+
+    const serverName = (serverId: string) =>
+      serverStore.servers.find(s => s.id === serverId)?.name ?? serverId;
+
+    const toggleBackend = (ref: RemoteModelRef) => {
+      setBackends(current =>
+        current.some(b => refKey(b) === refKey(ref))
+          ? current.filter(b => refKey(b) !== refKey(ref))
+          : [...current, ref],
+      );
+    };
+
+    const healthLabel = (serverId: string) => {
+      const health = serverStore.serverHealth[serverId];
+      if (!health) {
+        return undefined;
+      }
+      return health.ok
+        ? t(strings.latency, {ms: String(health.latencyMs ?? 0)})
+        : strings.unreachable;
+    };
+
+    const handleCheck = async () => {
+      setIsChecking(true);
+      try {
+        const refs = [
+          {serverId: model.serverId!, remoteModelId: model.remoteModelId!},
+          ...candidates,
+        ];
+        await Promise.all(
+          refs.map(ref =>
+            serverStore.checkServerHealth(
+              ref.serverId,
+              ref.remoteModelId,
+              true,
+            ),
+          ),
+        );
+      } finally {
+        setIsChecking(false);
+      }
+    };
+
+    const handleSave = () => {
+      serverStore.setModelGroup(model.id, {
+        backends,
+        policy,
+        localModelId: localModelId || undefined,
+      });
+      onDismiss();
+    };
+
+    const renderHealth = (serverId: string) => {
+      const label = healthLabel(serverId);
+      return label ? (
+        <Text
+          style={[
+            styles.health,
+            serverStore.serverHealth[serverId]?.ok === false &&
+              styles.unreachable,
+          ]}
+          testID={`model-group-health-${serverId}`}>
+          {label}
+        </Text>
+      ) : null;
+    };
+
+    return (
+      <Sheet
+        isVisible={isVisible}
+        onClose={onDismiss}
+        title={strings.title}
+        snapPoints={['80%']}>
+        <Sheet.ScrollView contentContainerStyle={styles.container}>
+          <Text style={styles.description}>
+            {t(strings.description, {model: model.name})}
+          </Text>
+
+          <View style={styles.section}>
+            <Text variant="labelMedium" style={styles.label}>
+              {strings.policyLabel}
+            </Text>
+            <SegmentedButtons
+              density="small"
+              value={policy}
+              onValueChange={value => setPolicy(value as ModelRoutingPolicy)}
+              buttons={POLICIES.map(item => ({
+                value: item,
+                label: strings.policies[item],
+                testID: `model-group-policy-${item}`,
+              }))}
+            />
+            <Text style={styles.description}>
+              {strings.policyDescriptions[policy]}
+            </Text>
+          </View>
+
+          <View style={styles.section}>
+            <Text variant="labelMedium" style={styles.label}>
+              {strings.backendsLabel}
+            </Text>
+            <View style={styles.row}>
+              <View style={styles.order} />
+              <View style={styles.rowText}>
+                <Text style={styles.rowTitle}>{model.remoteModelId}</Text>
+                <Text style={styles.rowSubtitle}>
+                  {t(strings.primaryBackend, {
+                    server: serverName(model.serverId!),
+                  })}
+                </Text>
+              </View>
+              {renderHealth(model.serverId!)}
+            </View>
+            {candidates.length === 0 ? (
+              <Text style={styles.description}>{strings.noCandidates}</Text>
+            ) : (
+              candidates.map(ref => {
+                const index = backends.findIndex(
+                  b => refKey(b) === refKey(ref),
+                );
+                return (
+                  <View
+                    key={refKey(ref)}
+                    style={styles.row}
+                    testID={`model-group-backend-${refKey(ref)}`}>
+                    <Checkbox
+                      testID={`model-group-toggle-${refKey(ref)}`}
+                      status={index >= 0 ? 'checked' : 'unchecked'}
+                      onPress={() => toggleBackend(ref)}
+                    />
+                    <View style={styles.rowText}>
+                      <Text style={styles.rowTitle}>
+                        {index >= 0 ? `${index + 2}. ` : ''}
+                        {ref.remoteModelId}
+                      </Text>
+                      <Text style={styles.rowSubtitle}>
+                        {serverName(ref.serverId)}
+                      </Text>
+                    </View>
+                    {renderHealth(ref.serverId)}
+                  </View>
+                );
+              })
+            )}
+            <Button
+              testID="model-group-check-button"
+              mode="text"
+              onPress={handleCheck}
+              loading={isChecking}
+              disabled={isChecking}>
+              {strings.checkServers}
+            </Button>
+          </View>
+
+          <View style={styles.section}>
+            <Text variant="labelMedium" style={styles.label}>
+              {strings.localFallbackLabel}
+            </Text>
+            <Dropdown
+              testID="model-group-local-dropdown"
+              value={localModelId}
+              options={localOptions}
+              onChange={setLocalModelId}
+            />
+            <Text style={styles.description}>
+              {strings.localFallbackDescription}
+            </Text>
+          </View>
+        </Sheet.ScrollView>
+        <Sheet.Actions>
+          <View style={styles.buttonsContainer}>
+            <Button
+              testID="model-group-save-button"
+              mode="contained"
+              onPress={handleSave}
+              style={styles.saveButton}>
+              {l10n.settings.saveChanges}
+            </Button>
+          </View>
+        </Sheet.Actions>
+      </Sheet>
+    );
+  },
+);
@@ -0,0 +1,176 @@
+import React from 'react';
+import {runInAction} from 'mobx';
+import {render, fireEvent, waitFor} from '../../../../jest/test-utils';
+import {ModelGroupSheet} from '../ModelGroupSheet';
+import {modelStore, serverStore} from '../../../store';
+import {ModelOrigin} from '../../../utils/types';
+
+jest.mock('../../Sheet', () => {
+  const {View, Button} = require('react-native');
+  const MockSheet = ({children, isVisible, onClose, title}: any) => {
+    if (!isVisible) {
+      return null;
+    }
+    return (
+      <View testID="sheet">
+        <View testID="sheet-title">{title}</View>
+        <Button title="Close" onPress={onClose} testID="sheet-close-button" />
+        {children}
+      </View>
+    );
+  };
+  MockSheet.ScrollView = ({children}: any) => (
+    <View testID="sheet-scroll-view">{children}</View>
+  );
+  MockSheet.Actions = ({children}: any) => (
+    <View testID="sheet-actions">{children}</View>
+  );
+  return {Sheet: MockSheet};
+});
+
+const remoteModel = {
+  id: 'lan/qwen3-8b',
+  name: 'qwen3-8b',
+  origin: ModelOrigin.REMOTE,
+  isDownloaded: true,
+  serverId: 'lan',
+  serverName: 'LAN box',
+  remoteModelId: 'qwen3-8b',
+} as any;
+
+const localModel = {
+  id: 'local-qwen',
+  name: 'Qwen3 8B',
+  origin: ModelOrigin.LOCAL,
+  isDownloaded: true,
+} as any;
+
+describe('ModelGroupSheet', () => {
+  const onDismiss = jest.fn();
+  let savedModels: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    savedModels = modelStore.models;
+    runInAction(() => {
+      modelStore.models = [remoteModel, localModel];
+      serverStore.servers = [
+        {id: 'lan', name: 'LAN box', url: 'http://lan:8080'},
+        {id: 'cloud', name: 'Cloud', url: 'http://cloud:11434'},
+      ];
+      serverStore.userSelectedModels = [
+        {serverId: 'lan', remoteModelId: 'qwen3-8b'},
+        {serverId: 'cloud', remoteModelId: 'qwen3:8b'},
+      ];
+      serverStore.modelGroups = {};
+      serverStore.serverHealth = {};
+    });
+  });
+
+  afterEach(() => {
+    runInAction(() => {
+      modelStore.models = savedModels;
+      serverStore.servers = [];
+      serverStore.userSelectedModels = [];
+    });
+  });
+
+  it('offers the model on other servers only', () => {
+    const {getByTestId, queryByTestId} = render(
+      <ModelGroupSheet
+        isVisible
+        onDismiss={onDismiss}
+        modelId={remoteModel.id}
+      />,
+    );
+
+    expect(getByTestId('model-group-backend-cloud/qwen3:8b')).toBeTruthy();
+    expect(queryByTestId('model-group-backend-lan/qwen3-8b')).toBeNull();
+  });
+
+  it('saves the checked backends and the policy', () => {
+    const {getByTestId} = render(
+      <ModelGroupSheet
+        isVisible
+        onDismiss={onDismiss}
+        modelId={remoteModel.id}
+      />,
+    );
+
+    fireEvent.press(getByTestId('model-group-toggle-cloud/qwen3:8b'));
+    fireEvent.press(getByTestId('model-group-policy-latency'));
+    fireEvent.press(getByTestId('model-group-save-button'));
+
+    expect(serverStore.setModelGroup).toHaveBeenCalledWith('lan/qwen3-8b', {
+      backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+      policy: 'latency',
+      localModelId: undefined,
+    });
+    expect(onDismiss).toHaveBeenCalled();
+  });
+
+  it('loads an existing group', () => {
+    runInAction(() => {
+      serverStore.modelGroups = {
+        'lan/qwen3-8b': {
+          backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+          policy: 'priority',
+          localModelId: 'local-qwen',
+        },
+      };
+    });
+    const {getByTestId} = render(
+      <ModelGroupSheet
+        isVisible
+        onDismiss={onDismiss}
+        modelId={remoteModel.id}
+      />,
+    );
+
+    fireEvent.press(getByTestId('model-group-save-button'));
+
+    expect(serverStore.setModelGroup).toHaveBeenCalledWith('lan/qwen3-8b', {
+      backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+      policy: 'priority',
+      localModelId: 'local-qwen',
+    });
+  });
+
+  it('checks every server on demand and shows the result', async () => {
+    (serverStore.checkServerHealth as jest.Mock).mockImplementation(
+      async (serverId: string) => {
+        const health =
+          serverId === 'lan'
+            ? {ok: false, checkedAt: 0}
+            : {ok: true, latencyMs: 42, checkedAt: 0};
+        runInAction(() => {
+          serverStore.serverHealth[serverId] = health;
+        });
+        return health;
+      },
+    );
+    const {getByTestId} = render(
+      <ModelGroupSheet
+        isVisible
+        onDismiss={onDismiss}
+        modelId={remoteModel.id}
+      />,
+    );
+
+    fireEvent.press(getByTestId('model-group-check-button'));
+
+    await waitFor(() => {
+      expect(getByTestId('model-group-health-cloud').props.children).toBe(
+        '42 ms',
+      );
+    });
+    expect(getByTestId('model-group-health-lan').props.children).toBe(
+      'Unreachable',
+    );
+    expect(serverStore.checkServerHealth).toHaveBeenCalledWith(
+      'lan',
+      'qwen3-8b',
+      true,
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import {StyleSheet} from 'react-native';
+import {Theme} from '../../utils/types';
+
+export const createStyles = (theme: Theme) => {
+  return StyleSheet.create({
+    container: {
+      padding: 16,
+      paddingBottom: 32,
+    },
+    section: {
+      marginTop: 12,
+    },
+    label: {
+      marginBottom: 6,
+    },
+    description: {
+      marginTop: 4,
+      color: theme.colors.onSurfaceVariant,
+      fontSize: 12,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 4,
+    },
+    // Lines the primary backend up with the checkbox rows
+    order: {
+      width: 36,
+    },
+    rowText: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 14,
+      color: theme.colors.onSurface,
+    },
+    rowSubtitle: {
+      fontSize: 12,
+      color: theme.colors.onSurfaceVariant,
+    },
+    health: {
+      fontSize: 12,
+      color: theme.colors.primary,
+      marginLeft: 8,
+    },
+    unreachable: {
+      color: theme.colors.error,
+    },
+    buttonsContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      width: '100%',
+    },
+    saveButton: {
+      flex: 1,
+    },
+  });
+};
@@ -4,7 +4,9 @@ import {Button, Text, Divider, Switch, Chip} from 'react-native-paper';
 import {ModelSettings} from '../../screens/ModelsScreen/ModelSettings';
 import {Sheet} from '../Sheet';
 import {ProjectionModelSelector} from '../ProjectionModelSelector';
-import {Model, ModelOrigin} from '../../utils/types';
+import {LoadProfileSelector} from '../LoadProfileSelector';
+import {LoraAdapterSelector} from '../LoraAdapterSelector';
+import {LoraAdapterSetting, Model, ModelOrigin} from '../../utils/types';
 import {modelStore, serverStore} from '../../store';
 import {chatTemplates} from '../../utils/chat';
 import {
@@ -33,6 +35,12 @@ export const ModelSettingsSheet: React.FC<ModelSettingsSheetProps> = memo(
     const [tempStopWords, setTempStopWords] = useState<string[]>(
       model?.stopWords || [],
     );
+    const [tempLoadProfileId, setTempLoadProfileId] = useState(
+      model?.activeLoadProfileId,
+    );
+    const [tempLoraAdapters, setTempLoraAdapters] = useState<
+      LoraAdapterSetting[]
+    >(model?.loraAdapters ?? []);
     const l10n = useContext(L10nContext);
 
     // Remote models have no local-only settings (chat template, stop words,
@@ -89,6 +97,8 @@ export const ModelSettingsSheet: React.FC<ModelSettingsSheetProps> = memo(
         setTempModelName(model.name);
         setTempChatTemplate(model.chatTemplate);
         setTempStopWords(model.stopWords || []);
+        setTempLoadProfileId(model.activeLoadProfileId);
+        setTempLoraAdapters(model.loraAdapters ?? []);
         const cap = resolveReasoningCapability(
           model,
           serverStore.remoteReasoning,
@@ -118,6 +128,15 @@ export const ModelSettingsSheet: React.FC<ModelSettingsSheetProps> = memo(
           modelStore.updateModelName(model.id, tempModelName);
           modelStore.updateModelChatTemplate(model.id, tempChatTemplate);
           modelStore.updateModelStopWords(model.id, tempStopWords);
+          if (tempLoadProfileId !== model.activeLoadProfileId) {
+            modelStore.setActiveLoadProfile(model.id, tempLoadProfileId);
+          }
+          if (
+            JSON.stringify(tempLoraAdapters) !==
+            JSON.stringify(model.loraAdapters ?? [])
+          ) {
+            modelStore.setModelLoraAdapters(model.id, tempLoraAdapters);
+          }
         }
         // Persist a source:'user' reasoning override only when the user
         // actually touched a reasoning control. Otherwise leave the existing
@@ -143,6 +162,8 @@ export const ModelSettingsSheet: React.FC<ModelSettingsSheetProps> = memo(
         setTempModelName(model.name);
         setTempChatTemplate(model.chatTemplate);
         setTempStopWords(model.stopWords || []);
+        setTempLoadProfileId(model.activeLoadProfileId);
+        setTempLoraAdapters(model.loraAdapters ?? []);
       }
       onClose();
     };
@@ -185,6 +206,38 @@ export const ModelSettingsSheet: React.FC<ModelSettingsSheetProps> = memo(
             />
           )}
 
+          {/* Load profile: which context-init preset this model loads with. */}
+          {!isRemote && (
+            <>
+              <Divider style={styles.multimodalDivider} />
+              <Text style={styles.multimodalSectionTitle}>
+                {l10n.components.modelSettingsSheet.loadProfileSection}
+              </Text>
+              <Text variant="bodySmall" style={styles.reasoningHelp}>
+                {l10n.components.modelSettingsSheet.loadProfileHelp}
+              </Text>
+              <LoadProfileSelector
+                model={model}
+                selectedProfileId={tempLoadProfileId}
+                onSelect={setTempLoadProfileId}
+                editable
+              />
+            </>
+          )}
+
+          {/* LoRA adapters, only when downloaded ones fit this model */}
+          {!isRemote &&
+            modelStore.getCompatibleLoraAdapters(model.id).length > 0 && (
+              <>
+                <Divider style={styles.multimodalDivider} />
+                <LoraAdapterSelector
+                  model={model}
+                  value={tempLoraAdapters}
+                  onChange={setTempLoraAdapters}
+                />
+              </>
+            )}
+
           {/* Multimodal Settings Section */}
           {model.supportsMultimodal && (
             <>
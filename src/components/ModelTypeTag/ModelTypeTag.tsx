@@ -8,7 +8,7 @@ import {useTheme} from '../../hooks';
 
 import {createStyles} from './styles';
 
-export type ModelType = 'vision' | 'mmproj' | 'llm';
+export type ModelType = 'vision' | 'mmproj' | 'llm' | 'lora';
 
 interface ModelTypeTagProps {
   type: ModelType;
@@ -32,6 +32,8 @@ export const ModelTypeTag: React.FC<ModelTypeTagProps> = ({
         return 'image-outline';
       case 'llm':
         return 'brain';
+      case 'lora':
+        return 'puzzle-outline';
       default:
         return 'cube-outline';
     }
@@ -45,6 +47,8 @@ export const ModelTypeTag: React.FC<ModelTypeTagProps> = ({
         return theme.colors.tertiary;
       case 'llm':
         return theme.colors.secondary;
+      case 'lora':
+        return theme.colors.primary;
       default:
         return theme.colors.onSurfaceVariant;
     }
@@ -26,6 +26,8 @@ export const createStyles = (
             return theme.colors.tertiaryContainer;
           case 'llm':
             return theme.colors.secondaryContainer;
+          case 'lora':
+            return theme.colors.primaryContainer;
           default:
             return theme.colors.surfaceVariant;
         }
@@ -39,6 +41,8 @@ export const createStyles = (
               return theme.colors.tertiary;
             case 'llm':
               return theme.colors.secondary;
+            case 'lora':
+              return theme.colors.primary;
             default:
               return theme.colors.onSurfaceVariant;
           }
@@ -58,6 +62,8 @@ export const createStyles = (
             return theme.colors.tertiary;
           case 'llm':
             return theme.colors.secondary;
+          case 'lora':
+            return theme.colors.primary;
           default:
             return theme.colors.onSurfaceVariant;
         }
@@ -3,6 +3,7 @@ import React, {useContext, useState} from 'react';
 
 import {observer} from 'mobx-react';
 import {IconButton} from 'react-native-paper';
+import {NavigationProp, useNavigation} from '@react-navigation/native';
 
 import iconHF from '../../assets/icon-hf.png';
 import iconHFLight from '../../assets/icon-hf-light.png';
@@ -13,6 +14,7 @@ import {ModelsResetDialog} from '../ModelsResetDialog';
 import {modelStore, uiStore} from '../../store';
 
 import {L10nContext} from '../../utils';
+import {ROUTES} from '../../utils/navigationConstants';
 
 import {Menu} from '..';
 
@@ -22,6 +24,7 @@ export const ModelsHeaderRight = observer(() => {
   const [_, setTrigger] = useState<boolean>(false);
 
   const l10n = useContext(L10nContext);
+  const navigation = useNavigation<NavigationProp<any>>();
 
   const styles = createStyles();
 
@@ -104,6 +107,14 @@ export const ModelsHeaderRight = observer(() => {
 
         {/* Actions section */}
         <Menu.Separator />
+        <Menu.Item
+          leadingIcon="harddisk"
+          onPress={() => {
+            setMenuVisible(false);
+            navigation.navigate(ROUTES.STORAGE);
+          }}
+          label={l10n.components.modelsHeaderRight.menuTitleStorage}
+        />
         <Menu.Item
           leadingIcon="refresh"
           onPress={() => {
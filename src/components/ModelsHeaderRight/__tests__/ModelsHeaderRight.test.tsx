@@ -7,6 +7,13 @@ import {ModelsHeaderRight} from '../ModelsHeaderRight';
 import {uiStore} from '../../../store';
 
 import {l10n} from '../../../locales';
+import {ROUTES} from '../../../utils/navigationConstants';
+
+const mockNavigate = jest.fn();
+jest.mock('@react-navigation/native', () => ({
+  ...jest.requireActual('@react-navigation/native'),
+  useNavigation: () => ({navigate: mockNavigate}),
+}));
 
 describe('ModelsHeaderRight', () => {
   beforeEach(() => {
@@ -93,4 +100,15 @@ describe('ModelsHeaderRight', () => {
       expect(queryByTestId('reset-dialog')).toBeTruthy();
     });
   });
+
+  it('opens the storage screen', () => {
+    const {getByTestId, getByText} = render(<ModelsHeaderRight />);
+
+    fireEvent.press(getByTestId('models-menu-button'));
+    fireEvent.press(
+      getByText(l10n.en.components.modelsHeaderRight.menuTitleStorage),
+    );
+
+    expect(mockNavigate).toHaveBeenCalledWith(ROUTES.STORAGE);
+  });
 });
@@ -14,6 +14,7 @@ import {DotsVerticalIcon, ShareIcon} from '../../assets/icons';
 
 import {exportAllPals} from '../../utils/exportUtils';
 import {importPals} from '../../utils/importUtils';
+import type {WebhookToolExport} from '../../store';
 
 export const PalHeaderRight = observer(() => {
   const theme = useTheme();
@@ -41,9 +42,40 @@ export const PalHeaderRight = observer(() => {
     closeMenu();
   };
 
+  // Lists what each bundled tool would call, headers included, before
+  // anything is added.
+  const confirmWebhookTools = (palName: string, tools: WebhookToolExport[]) =>
+    new Promise<boolean>(resolve => {
+      const strings = l10n.components.palHeaderRight;
+      const details = tools
+        .map(tool =>
+          [
+            `${tool.name}: ${tool.method} ${tool.urlTemplate}`,
+            ...tool.headers.map(
+              header =>
+                `  ${header.name}: ${header.secret ? strings.secretHeader : header.value}`,
+            ),
+          ].join('\n'),
+        )
+        .join('\n\n');
+      Alert.alert(
+        strings.webhookToolsTitle,
+        t(strings.webhookToolsMessage, {pal: palName, tools: details}),
+        [
+          {
+            text: strings.skipWebhookTools,
+            style: 'cancel',
+            onPress: () => resolve(false),
+          },
+          {text: strings.addWebhookTools, onPress: () => resolve(true)},
+        ],
+        {cancelable: false},
+      );
+    });
+
   const onPressImportPals = async () => {
     try {
-      const count = await importPals();
+      const count = await importPals(confirmWebhookTools);
       if (count > 0) {
         Alert.alert(
           'Import Success',
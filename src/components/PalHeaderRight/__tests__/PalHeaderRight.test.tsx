@@ -318,6 +318,54 @@ describe('PalHeaderRight', () => {
       consoleError.mockRestore();
     });
 
+    it('asks before adding bundled HTTP tools and lists what they call', async () => {
+      let confirmed: boolean | undefined;
+      (importPals as jest.Mock).mockImplementationOnce(async confirm => {
+        confirmed = await confirm('Support Pal', [
+          {
+            name: 'lookup_order',
+            method: 'GET',
+            urlTemplate: 'https://api.example.com/orders/{id}',
+            headers: [
+              {name: 'Accept', value: 'application/json'},
+              {name: 'Authorization', secret: true},
+            ],
+          },
+        ]);
+        return 1;
+      });
+      (Alert.alert as jest.Mock).mockImplementationOnce(
+        (_title, _message, buttons) => buttons[1].onPress(),
+      );
+
+      const {getByTestId} = render(
+        <L10nContext.Provider value={l10n.en}>
+          <PalHeaderRight />
+        </L10nContext.Provider>,
+      );
+
+      fireEvent.press(getByTestId('pal-menu-button'));
+      fireEvent.press(
+        getByTestId(
+          `menu-item-${l10n.en.components.palHeaderRight.importPals}`,
+        ),
+      );
+
+      await waitFor(() => {
+        expect(confirmed).toBe(true);
+      });
+      const [title, message] = (Alert.alert as jest.Mock).mock.calls[0];
+      expect(title).toBe(l10n.en.components.palHeaderRight.webhookToolsTitle);
+      expect(message).toContain('Support Pal');
+      expect(message).toContain(
+        'lookup_order: GET https://api.example.com/orders/{id}',
+      );
+      expect(message).toContain('Accept: application/json');
+      expect(message).toContain(
+        `Authorization: ${l10n.en.components.palHeaderRight.secretHeader}`,
+      );
+    });
+
     it('closes menu after import attempt', async () => {
       const {getByTestId, queryByTestId} = render(
         <L10nContext.Provider value={l10n.en}>
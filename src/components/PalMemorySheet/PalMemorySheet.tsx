@@ -0,0 +1,179 @@
+import React, {useState, useContext, useEffect} from 'react';
+import {View, Alert} from 'react-native';
+import {Text, Button} from 'react-native-paper';
+import {observer} from 'mobx-react';
+
+import {Sheet, TextInput} from '..';
+import {IconButton} from '../ui';
+import {useTheme} from '../../hooks';
+import {palMemoryStore, palStore} from '../../store';
+import {L10nContext} from '../../utils';
+import {t} from '../../locales';
+import {EditIcon, TrashIcon} from '../../assets/icons';
+
+import {createStyles} from './styles';
+
+interface PalMemorySheetProps {
+  isVisible: boolean;
+  onDismiss: () => void;
+  palId: string | null;
+}
+
+export const PalMemorySheet: React.FC<PalMemorySheetProps> = observer(
+  ({isVisible, onDismiss, palId}) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const styles = createStyles(theme);
+    const strings = l10n.settings.memory;
+
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const pal = palStore.pals.find(item => item.id === palId);
+    const memories = palId ? palMemoryStore.memoriesFor(palId) : [];
+
+    useEffect(() => {
+      if (isVisible) {
+        setEditingId(null);
+        setError(null);
+      }
+    }, [isVisible, palId]);
+
+    const run = async (action: () => Promise<void>) => {
+      setError(null);
+      try {
+        await action();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    };
+
+    const startEditing = (id: string, content: string) => {
+      setEditingId(id);
+      setDraft(content);
+      setError(null);
+    };
+
+    const handleSave = (id: string) =>
+      run(async () => {
+        await palMemoryStore.updateMemory(id, draft);
+        setEditingId(null);
+      });
+
+    const handleClear = () => {
+      if (!palId) {
+        return;
+      }
+      const palName = pal?.name ?? '';
+      // Dismiss first so the native alert is not hidden behind the sheet's
+      // overlay on iOS.
+      onDismiss();
+      setTimeout(() => {
+        Alert.alert(strings.clearTitle, t(strings.clearMessage, {palName}), [
+          {text: l10n.common.cancel, style: 'cancel'},
+          {
+            text: l10n.common.delete,
+            style: 'destructive',
+            onPress: () => {
+              palMemoryStore.forgetAll(palId);
+            },
+          },
+        ]);
+      }, 300);
+    };
+
+    return (
+      <Sheet
+        isVisible={isVisible}
+        onClose={onDismiss}
+        title={t(strings.sheetTitle, {palName: pal?.name ?? ''})}
+        snapPoints={['90%']}>
+        <Sheet.ScrollView contentContainerStyle={styles.container}>
+          <Text style={styles.description}>{strings.sheetDescription}</Text>
+          {memories.length === 0 && (
+            <Text style={styles.description} testID="pal-memory-empty">
+              {strings.noMemories}
+            </Text>
+          )}
+          {memories.map(memory =>
+            editingId === memory.id ? (
+              <View
+                key={memory.id}
+                style={styles.editContainer}
+                testID={`pal-memory-row-${memory.id}`}>
+                <TextInput
+                  testID="pal-memory-edit-input"
+                  value={draft}
+                  onChangeText={setDraft}
+                  multiline
+                />
+                <View style={styles.editButtons}>
+                  <Button
+                    testID="pal-memory-cancel-button"
+                    mode="text"
+                    onPress={() => setEditingId(null)}>
+                    {l10n.common.cancel}
+                  </Button>
+                  <Button
+                    testID={`pal-memory-save-${memory.id}`}
+                    mode="contained"
+                    onPress={() => handleSave(memory.id)}>
+                    {l10n.common.save}
+                  </Button>
+                </View>
+              </View>
+            ) : (
+              <View
+                key={memory.id}
+                style={styles.memoryRow}
+                testID={`pal-memory-row-${memory.id}`}>
+                <Text variant="bodyMedium" style={styles.memoryText}>
+                  {memory.content}
+                </Text>
+                <IconButton
+                  testID={`pal-memory-edit-${memory.id}`}
+                  accessibilityLabel={strings.editMemory}
+                  icon={<EditIcon stroke={theme.colors.onSurface} />}
+                  onPress={() => startEditing(memory.id, memory.content)}
+                />
+                <IconButton
+                  testID={`pal-memory-remove-${memory.id}`}
+                  accessibilityLabel={strings.removeMemory}
+                  icon={<TrashIcon stroke={theme.colors.error} />}
+                  onPress={() => run(() => palMemoryStore.forget(memory.id))}
+                />
+              </View>
+            ),
+          )}
+          {error && (
+            <Text style={styles.errorText} testID="pal-memory-error">
+              {error}
+            </Text>
+          )}
+        </Sheet.ScrollView>
+        <Sheet.Actions>
+          <View style={styles.buttonsContainer}>
+            {memories.length > 0 && (
+              <Button
+                testID="pal-memory-clear-button"
+                mode="text"
+                textColor={theme.colors.error}
+                onPress={handleClear}
+                style={styles.clearButton}>
+                {strings.clearAll}
+              </Button>
+            )}
+            <Button
+              testID="pal-memory-done-button"
+              mode="contained"
+              onPress={onDismiss}
+              style={styles.doneButton}>
+              {l10n.common.close}
+            </Button>
+          </View>
+        </Sheet.Actions>
+      </Sheet>
+    );
+  },
+);
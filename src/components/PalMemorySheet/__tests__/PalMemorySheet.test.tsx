@@ -0,0 +1,147 @@
+import React from 'react';
+import {Alert} from 'react-native';
+import {runInAction} from 'mobx';
+import {render, fireEvent, waitFor, act} from '../../../../jest/test-utils';
+import {PalMemorySheet} from '../PalMemorySheet';
+import {palMemoryStore, palStore} from '../../../store';
+
+jest.mock('../../Sheet', () => {
+  const {View, Button} = require('react-native');
+  const MockSheet = ({children, isVisible, onClose, title}: any) => {
+    if (!isVisible) {
+      return null;
+    }
+    return (
+      <View testID="sheet">
+        <View testID="sheet-title">{title}</View>
+        <Button title="Close" onPress={onClose} testID="sheet-close-button" />
+        {children}
+      </View>
+    );
+  };
+  MockSheet.ScrollView = ({children}: any) => (
+    <View testID="sheet-scroll-view">{children}</View>
+  );
+  MockSheet.Actions = ({children}: any) => (
+    <View testID="sheet-actions">{children}</View>
+  );
+  return {Sheet: MockSheet};
+});
+
+const memory = {
+  id: 'm1',
+  palId: 'pal-1',
+  content: 'The user is vegetarian.',
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+describe('PalMemorySheet', () => {
+  const onDismiss = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runInAction(() => {
+      palStore.pals = [{id: 'pal-1', name: 'Chef'} as any];
+      palMemoryStore.memories = [memory];
+    });
+  });
+
+  it("lists the pal's memories", () => {
+    const {getByText, getByTestId} = render(
+      <PalMemorySheet isVisible onDismiss={onDismiss} palId="pal-1" />,
+    );
+
+    expect(getByTestId('sheet-title')).toHaveTextContent("Chef's memory");
+    expect(getByTestId('pal-memory-row-m1')).toBeTruthy();
+    expect(getByText('The user is vegetarian.')).toBeTruthy();
+  });
+
+  it('shows an empty state', () => {
+    runInAction(() => {
+      palMemoryStore.memories = [];
+    });
+    const {getByTestId, queryByTestId} = render(
+      <PalMemorySheet isVisible onDismiss={onDismiss} palId="pal-1" />,
+    );
+
+    expect(getByTestId('pal-memory-empty')).toBeTruthy();
+    expect(queryByTestId('pal-memory-clear-button')).toBeNull();
+  });
+
+  it('edits a memory', async () => {
+    const {getByTestId, queryByTestId} = render(
+      <PalMemorySheet isVisible onDismiss={onDismiss} palId="pal-1" />,
+    );
+
+    fireEvent.press(getByTestId('pal-memory-edit-m1'));
+    fireEvent.changeText(
+      getByTestId('pal-memory-edit-input'),
+      'The user is vegan.',
+    );
+    fireEvent.press(getByTestId('pal-memory-save-m1'));
+
+    await waitFor(() => {
+      expect(palMemoryStore.updateMemory).toHaveBeenCalledWith(
+        'm1',
+        'The user is vegan.',
+      );
+    });
+    await waitFor(() => {
+      expect(queryByTestId('pal-memory-edit-input')).toBeNull();
+    });
+  });
+
+  it('keeps editing and shows the error when saving fails', async () => {
+    (palMemoryStore.updateMemory as jest.Mock).mockRejectedValueOnce(
+      new Error('Memory is empty'),
+    );
+    const {getByTestId} = render(
+      <PalMemorySheet isVisible onDismiss={onDismiss} palId="pal-1" />,
+    );
+
+    fireEvent.press(getByTestId('pal-memory-edit-m1'));
+    fireEvent.changeText(getByTestId('pal-memory-edit-input'), ' ');
+    fireEvent.press(getByTestId('pal-memory-save-m1'));
+
+    await waitFor(() => {
+      expect(getByTestId('pal-memory-error')).toHaveTextContent(
+        'Memory is empty',
+      );
+    });
+    expect(getByTestId('pal-memory-edit-input')).toBeTruthy();
+  });
+
+  it('deletes a memory', async () => {
+    const {getByTestId} = render(
+      <PalMemorySheet isVisible onDismiss={onDismiss} palId="pal-1" />,
+    );
+
+    fireEvent.press(getByTestId('pal-memory-remove-m1'));
+
+    await waitFor(() => {
+      expect(palMemoryStore.forget).toHaveBeenCalledWith('m1');
+    });
+  });
+
+  it('confirms before forgetting everything', () => {
+    jest.useFakeTimers();
+    const alertSpy = jest.spyOn(Alert, 'alert');
+    const {getByTestId} = render(
+      <PalMemorySheet isVisible onDismiss={onDismiss} palId="pal-1" />,
+    );
+
+    fireEvent.press(getByTestId('pal-memory-clear-button'));
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(onDismiss).toHaveBeenCalled();
+    const buttons = alertSpy.mock.calls[0][2]!;
+    buttons[1].onPress!();
+    expect(palMemoryStore.forgetAll).toHaveBeenCalledWith('pal-1');
+
+    alertSpy.mockRestore();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,50 @@
+import {StyleSheet} from 'react-native';
+import {Theme} from '../../utils/types';
+
+export const createStyles = (theme: Theme) => {
+  return StyleSheet.create({
+    container: {
+      padding: 16,
+      paddingBottom: 32,
+    },
+    description: {
+      marginBottom: 8,
+      color: theme.colors.onSurfaceVariant,
+      fontSize: 12,
+    },
+    memoryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 4,
+    },
+    memoryText: {
+      flex: 1,
+    },
+    editContainer: {
+      paddingVertical: 4,
+    },
+    editButtons: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: 8,
+      marginTop: 4,
+    },
+    errorText: {
+      color: theme.colors.error,
+      fontSize: 12,
+      marginTop: 4,
+    },
+    buttonsContainer: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      width: '100%',
+    },
+    clearButton: {
+      marginRight: 8,
+    },
+    doneButton: {
+      flex: 1,
+    },
+  });
+};
@@ -27,16 +27,59 @@ import {SectionDivider} from './SectionDivider';
 import {ModelNotAvailable} from './ModelNotAvailable';
 import {SystemPromptSection} from './SystemPromptSection';
 import {DynamicParameterForm} from '../DynamicParameters';
+import {LoraAdapterSelector} from '../LoraAdapterSelector';
 import {PalGenerationSettingsSheet} from '../PalGenerationSettingsSheet';
 
 import {palStore} from '../../store';
 
-import type {Pal, TalentRef} from '../../types/pal';
+import type {
+  Pal,
+  PalCapabilities,
+  TalentApprovalPolicy,
+  TalentRef,
+} from '../../types/pal';
+import {MEMORY_TALENT_NAMES} from '../../services/talents';
 
 import {L10nContext} from '../../utils';
 
 import {Sheet} from '..';
 
+const approvalsFromPact = (
+  pact: Pal['pact'] | undefined,
+): Record<string, TalentApprovalPolicy> => {
+  const approvals: Record<string, TalentApprovalPolicy> = {};
+  for (const talent of pact?.talents ?? []) {
+    if (talent.approval) {
+      approvals[talent.name] = talent.approval;
+    }
+  }
+  return approvals;
+};
+
+const collectionsFromPact = (
+  pact: Pal['pact'] | undefined,
+): Record<string, string[]> => {
+  const collections: Record<string, string[]> = {};
+  for (const talent of pact?.talents ?? []) {
+    if (talent.collections) {
+      collections[talent.name] = talent.collections;
+    }
+  }
+  return collections;
+};
+
+/** `capabilities.memory` follows whether any memory talent is enabled. */
+const withMemoryCapability = (
+  capabilities: PalCapabilities | undefined,
+  talents: string[],
+): PalCapabilities => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const {memory: _memory, ...rest} = capabilities ?? {};
+  return talents.some(name => MEMORY_TALENT_NAMES.includes(name))
+    ? {...rest, memory: true}
+    : rest;
+};
+
 interface PalSheetProps {
   isVisible: boolean;
   onClose: () => void;
@@ -56,8 +99,11 @@ const INITIAL_STATE: PalFormData = {
   generatingPrompt: '',
   completionSettings: undefined,
   talents: [],
+  talentApprovals: {},
+  talentCollections: {},
   greetingText: '',
   suggestedPrompts: [],
+  loraAdapters: [],
 };
 
 export const PalSheet: React.FC<PalSheetProps> = observer(
@@ -106,8 +152,15 @@ export const PalSheet: React.FC<PalSheetProps> = observer(
         generatingPrompt: z.string().nullable().optional(),
         completionSettings: z.record(z.string(), z.any()).optional(),
         talents: z.array(z.string()).optional(),
+        talentApprovals: z
+          .record(z.string(), z.enum(['always', 'ask', 'never']))
+          .optional(),
+        talentCollections: z.record(z.string(), z.array(z.string())).optional(),
         greetingText: z.string().optional(),
         suggestedPrompts: z.array(z.string()).optional(),
+        loraAdapters: z
+          .array(z.object({id: z.string(), scale: z.number()}))
+          .optional(),
       });
 
       // Add dynamic parameter validation
@@ -163,8 +216,11 @@ export const PalSheet: React.FC<PalSheetProps> = observer(
         generatingPrompt: pal.generatingPrompt || '',
         completionSettings: pal.completionSettings,
         talents: pal.pact?.talents?.map(t => t.name) ?? [],
+        talentApprovals: approvalsFromPact(pal.pact),
+        talentCollections: collectionsFromPact(pal.pact),
         greetingText: pal.greeting?.text ?? '',
         suggestedPrompts: pal.greeting?.suggestedPrompts ?? [],
+        loraAdapters: pal.loraAdapters ?? [],
         ...pal.parameters, // Spread dynamic parameters
       };
       setCurrentCompletionSettings(pal.completionSettings);
@@ -185,8 +241,11 @@ export const PalSheet: React.FC<PalSheetProps> = observer(
         generatingPrompt: pal.generatingPrompt || '',
         completionSettings: pal.completionSettings,
         talents: pal.pact?.talents?.map(t => t.name) ?? [],
+        talentApprovals: approvalsFromPact(pal.pact),
+        talentCollections: collectionsFromPact(pal.pact),
         greetingText: pal.greeting?.text ?? '',
         suggestedPrompts: pal.greeting?.suggestedPrompts ?? [],
+        loraAdapters: pal.loraAdapters ?? [],
         ...pal.parameters, // Spread dynamic parameters
       };
       methods.reset(formData);
@@ -253,10 +312,16 @@ export const PalSheet: React.FC<PalSheetProps> = observer(
         const pact =
           selectedTalents.length > 0
             ? {
-                talents: selectedTalents.map(name => ({
-                  name,
-                  necessity: 'required' as const,
-                })),
+                talents: selectedTalents.map(name => {
+                  const approval = data.talentApprovals?.[name];
+                  const collections = data.talentCollections?.[name];
+                  return {
+                    name,
+                    necessity: 'required' as const,
+                    ...(approval && approval !== 'always' ? {approval} : {}),
+                    ...(collections?.length ? {collections} : {}),
+                  };
+                }),
               }
             : {talents: [] as TalentRef[]};
 
@@ -293,11 +358,12 @@ export const PalSheet: React.FC<PalSheetProps> = observer(
           parameters,
           parameterSchema: activeSchema,
           source: pal.source || 'local',
-          capabilities: pal.capabilities || {},
+          capabilities: withMemoryCapability(pal.capabilities, selectedTalents),
           // Include (local) completion settings if they exist
           completionSettings: data.completionSettings,
           pact,
           greeting,
+          loraAdapters: data.loraAdapters ?? [],
         };
 
         if (isEditing) {
@@ -406,6 +472,20 @@ export const PalSheet: React.FC<PalSheetProps> = observer(
                   closeSheet={handleClose}
                 />
 
+                {currentDefaultModel && (
+                  <Controller
+                    name="loraAdapters"
+                    control={methods.control}
+                    render={({field: {onChange, value}}) => (
+                      <LoraAdapterSelector
+                        model={currentDefaultModel}
+                        value={value ?? []}
+                        onChange={onChange}
+                      />
+                    )}
+                  />
+                )}
+
                 {showParametersSection && (
                   <>
                     <SectionDivider
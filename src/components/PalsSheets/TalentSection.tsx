@@ -1,6 +1,6 @@
 import React, {useContext, useMemo} from 'react';
 import {View} from 'react-native';
-import {Switch, Text} from 'react-native-paper';
+import {Chip, SegmentedButtons, Switch, Text} from 'react-native-paper';
 import {observer} from 'mobx-react-lite';
 import {useFormContext, Controller} from 'react-hook-form';
 
@@ -10,6 +10,8 @@ import {createStyles} from './styles';
 import {SectionDivider} from './SectionDivider';
 import type {PalFormData} from './types';
 import {talentRegistry} from '../../services/talents';
+import {documentStore} from '../../store';
+import type {TalentApprovalPolicy} from '../../types/pal';
 
 export const TalentSection = observer(() => {
   const {control} = useFormContext<PalFormData>();
@@ -21,6 +23,9 @@ export const TalentSection = observer(() => {
     return talentRegistry.getAll();
   }, []);
 
+  const approvalLabels = l10n.components.palSheet.talentApproval;
+  const approvalOptions: TalentApprovalPolicy[] = ['always', 'ask', 'never'];
+
   return (
     <View testID="talent-section">
       <SectionDivider label={l10n.components.palSheet.talents} />
@@ -34,34 +39,115 @@ export const TalentSection = observer(() => {
               const names = l10n.components.palSheet.talentNames;
               const descriptions = l10n.components.palSheet.talentDescriptions;
               const title =
-                names[engine.name as keyof typeof names] ?? engine.name;
+                names[engine.name as keyof typeof names] ??
+                engine.title ??
+                engine.name;
               const description =
                 descriptions[engine.name as keyof typeof descriptions] ??
                 engine.toToolDefinition().function.description;
               return (
-                <View
-                  key={engine.name}
-                  style={styles.talentItem}
-                  testID={`talent-item-${engine.name}`}>
-                  <View style={styles.talentInfo}>
-                    <Text variant="bodyMedium">{title}</Text>
-                    <Text variant="bodySmall" style={styles.talentDescription}>
-                      {description}
-                    </Text>
+                <React.Fragment key={engine.name}>
+                  <View
+                    style={styles.talentItem}
+                    testID={`talent-item-${engine.name}`}>
+                    <View style={styles.talentInfo}>
+                      <Text variant="bodyMedium">{title}</Text>
+                      <Text
+                        variant="bodySmall"
+                        style={styles.talentDescription}>
+                        {description}
+                      </Text>
+                    </View>
+                    <Switch
+                      testID={`talent-switch-${engine.name}`}
+                      value={isEnabled}
+                      onValueChange={checked => {
+                        const current = value ?? [];
+                        onChange(
+                          checked
+                            ? [...current, engine.name]
+                            : current.filter((n: string) => n !== engine.name),
+                        );
+                      }}
+                    />
                   </View>
-                  <Switch
-                    testID={`talent-switch-${engine.name}`}
-                    value={isEnabled}
-                    onValueChange={checked => {
-                      const current = value ?? [];
-                      onChange(
-                        checked
-                          ? [...current, engine.name]
-                          : current.filter((n: string) => n !== engine.name),
-                      );
-                    }}
-                  />
-                </View>
+                  {/* Only talents that reach outside the device offer an
+                      approval policy; the rest always run. */}
+                  {engine.sensitive && isEnabled && (
+                    <Controller
+                      control={control}
+                      name="talentApprovals"
+                      render={({field: approvals}) => (
+                        <View
+                          style={styles.talentApproval}
+                          testID={`talent-approval-${engine.name}`}>
+                          <SegmentedButtons
+                            density="small"
+                            value={approvals.value?.[engine.name] ?? 'always'}
+                            onValueChange={policy =>
+                              approvals.onChange({
+                                ...(approvals.value ?? {}),
+                                [engine.name]: policy as TalentApprovalPolicy,
+                              })
+                            }
+                            buttons={approvalOptions.map(policy => ({
+                              value: policy,
+                              label: approvalLabels[policy],
+                              testID: `talent-approval-${engine.name}-${policy}`,
+                            }))}
+                          />
+                        </View>
+                      )}
+                    />
+                  )}
+                  {engine.usesDocumentCollections && isEnabled && (
+                    <Controller
+                      control={control}
+                      name="talentCollections"
+                      render={({field: collections}) => {
+                        const selected = collections.value?.[engine.name] ?? [];
+                        return (
+                          <View testID={`talent-collections-${engine.name}`}>
+                            {documentStore.collections.length === 0 ? (
+                              <Text
+                                variant="bodySmall"
+                                style={[
+                                  styles.talentApproval,
+                                  styles.talentDescription,
+                                ]}>
+                                {l10n.components.palSheet.noDocumentCollections}
+                              </Text>
+                            ) : (
+                              <View style={styles.talentCollections}>
+                                {documentStore.collections.map(collection => (
+                                  <Chip
+                                    key={collection.id}
+                                    testID={`talent-collection-${engine.name}-${collection.id}`}
+                                    selected={selected.includes(collection.id)}
+                                    showSelectedCheck
+                                    onPress={() =>
+                                      collections.onChange({
+                                        ...(collections.value ?? {}),
+                                        [engine.name]: selected.includes(
+                                          collection.id,
+                                        )
+                                          ? selected.filter(
+                                              id => id !== collection.id,
+                                            )
+                                          : [...selected, collection.id],
+                                      })
+                                    }>
+                                    {collection.name}
+                                  </Chip>
+                                ))}
+                              </View>
+                            )}
+                          </View>
+                        );
+                      }}
+                    />
+                  )}
+                </React.Fragment>
               );
             })}
           </View>
@@ -58,8 +58,8 @@ jest.mock('../../../hooks/useStructuredOutput', () => ({
   })),
 }));
 
-// Import the mocked palStore (already mocked globally in jest/setup.ts)
-import {palStore} from '../../../store';
+// Import the mocked stores (already mocked globally in jest/setup.ts)
+import {modelStore, palStore} from '../../../store';
 
 import {
   talentRegistry,
@@ -475,6 +475,38 @@ describe('PalSheet', () => {
     });
   });
 
+  describe('LoRA adapters', () => {
+    afterEach(() => {
+      (modelStore.getCompatibleLoraAdapters as jest.Mock).mockReturnValue([]);
+    });
+
+    it('pins adapters for the default model', async () => {
+      (modelStore.getCompatibleLoraAdapters as jest.Mock).mockReturnValue([
+        {...modelsList[1], id: 'lora-1', name: 'Pirate LoRA'},
+      ]);
+
+      const {getByText, getByTestId} = renderPalSheet(createExistingPal());
+
+      await act(async () => {
+        fireEvent(
+          getByTestId('lora-adapter-switch-lora-1'),
+          'valueChange',
+          true,
+        );
+      });
+      fireEvent.press(getByText('Save'));
+
+      await waitFor(() => {
+        expect(palStore.updatePal).toHaveBeenCalledWith(
+          'test-pal-id',
+          expect.objectContaining({
+            loraAdapters: [{id: 'lora-1', scale: 1}],
+          }),
+        );
+      });
+    });
+  });
+
   describe('Loading and Saving States', () => {
     it('disables submit button while saving', async () => {
       // Mock createPal to return a promise that we can control
@@ -788,6 +820,116 @@ describe('PalSheet', () => {
       });
     });
 
+    it('marks the memory capability while a memory talent is enabled', async () => {
+      const {getByTestId, getByText} = renderPalSheet(
+        createExistingPal({
+          capabilities: {memory: true},
+          pact: {
+            talents: [{name: 'remember', necessity: 'required'}],
+          },
+        }),
+      );
+
+      await act(async () => {
+        fireEvent(getByTestId('talent-switch-remember'), 'valueChange', false);
+      });
+      await act(async () => {
+        fireEvent.press(getByText('Save'));
+      });
+
+      await waitFor(() => {
+        expect(palStore.updatePal).toHaveBeenCalledWith(
+          'test-pal-id',
+          expect.objectContaining({capabilities: {}}),
+        );
+      });
+
+      await act(async () => {
+        fireEvent(getByTestId('talent-switch-recall'), 'valueChange', true);
+      });
+      await act(async () => {
+        fireEvent.press(getByText('Save'));
+      });
+
+      await waitFor(() => {
+        expect(palStore.updatePal).toHaveBeenLastCalledWith(
+          'test-pal-id',
+          expect.objectContaining({capabilities: {memory: true}}),
+        );
+      });
+    });
+
+    it('keeps an existing approval policy and drops it when reset to always', async () => {
+      const {getByTestId, getByText} = renderPalSheet(
+        createExistingPal({
+          pact: {
+            talents: [
+              {name: 'web_search', necessity: 'required', approval: 'ask'},
+              {name: 'read_url', necessity: 'required', approval: 'never'},
+            ],
+          },
+        }),
+      );
+
+      await act(async () => {
+        fireEvent.press(getByTestId('talent-approval-read_url-always'));
+      });
+      await act(async () => {
+        fireEvent.press(getByText('Save'));
+      });
+
+      await waitFor(() => {
+        expect(palStore.updatePal).toHaveBeenCalledWith(
+          'test-pal-id',
+          expect.objectContaining({
+            pact: {
+              talents: [
+                {name: 'web_search', necessity: 'required', approval: 'ask'},
+                {name: 'read_url', necessity: 'required'},
+              ],
+            },
+          }),
+        );
+      });
+    });
+
+    it('keeps document collections on the search_documents entry', async () => {
+      const {getByText} = renderPalSheet(
+        createExistingPal({
+          pact: {
+            talents: [
+              {
+                name: 'search_documents',
+                necessity: 'required',
+                collections: ['c1'],
+              },
+            ],
+          },
+        }),
+      );
+
+      await act(async () => {
+        fireEvent.press(getByText('Save'));
+      });
+
+      await waitFor(() => {
+        expect(palStore.updatePal).toHaveBeenCalledWith(
+          'test-pal-id',
+          expect.objectContaining({
+            pact: {
+              talents: [
+                {
+                  name: 'search_documents',
+                  necessity: 'required',
+                  collections: ['c1'],
+                },
+              ],
+            },
+          }),
+        );
+      });
+    });
+
     it('creates a pal with no talents selected and pact has empty talents', async () => {
       const {getByTestId} = renderPalSheet(createBasicPal());
 
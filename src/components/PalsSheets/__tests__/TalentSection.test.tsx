@@ -1,4 +1,5 @@
 import React from 'react';
+import {runInAction} from 'mobx';
 import {useForm, FormProvider} from 'react-hook-form';
 
 import {fireEvent, render, waitFor} from '../../../../jest/test-utils';
@@ -6,6 +7,7 @@ import {l10n} from '../../../locales';
 import {L10nContext} from '../../../utils';
 import {TalentSection} from '../TalentSection';
 import type {PalFormData} from '../types';
+import {documentStore} from '../../../store';
 import {
   talentRegistry,
   registerDefaultTalents,
@@ -259,4 +261,95 @@ describe('TalentSection', () => {
       expect(getByTestId('talent-switch-datetime').props.value).toBe(false);
     });
   });
+
+  describe('Approval policy', () => {
+    it('is offered only for enabled sensitive talents', () => {
+      const {getByTestId, queryByTestId} = render(
+        <FormWrapper defaultValues={{talents: ['web_search', 'calculate']}}>
+          <TalentSection />
+        </FormWrapper>,
+      );
+
+      expect(getByTestId('talent-approval-web_search')).toBeTruthy();
+      expect(queryByTestId('talent-approval-calculate')).toBeNull();
+      expect(queryByTestId('talent-approval-read_url')).toBeNull();
+    });
+
+    it('selecting a policy writes it to talentApprovals', async () => {
+      let getFormValues: () => PalFormData;
+
+      const {getByTestId} = render(
+        <FormWrapper
+          defaultValues={{talents: ['web_search']}}
+          onFormValues={getValues => {
+            getFormValues = getValues;
+          }}>
+          <TalentSection />
+        </FormWrapper>,
+      );
+
+      fireEvent.press(getByTestId('talent-approval-web_search-ask'));
+
+      await waitFor(() => {
+        expect(getFormValues!().talentApprovals).toEqual({web_search: 'ask'});
+      });
+    });
+  });
+
+  describe('Document collections', () => {
+    afterEach(() => {
+      runInAction(() => {
+        documentStore.collections = [];
+      });
+    });
+
+    it('points to Settings when there are no collections', () => {
+      const {getByTestId, getByText, queryByTestId} = render(
+        <FormWrapper defaultValues={{talents: ['search_documents']}}>
+          <TalentSection />
+        </FormWrapper>,
+      );
+
+      expect(getByTestId('talent-collections-search_documents')).toBeTruthy();
+      expect(getByText(/Create one in Settings/)).toBeTruthy();
+      expect(queryByTestId('talent-collections-web_search')).toBeNull();
+    });
+
+    it('toggling a collection writes it to talentCollections', async () => {
+      runInAction(() => {
+        documentStore.collections = [
+          {id: 'c1', name: 'Notes', createdAt: 1},
+          {id: 'c2', name: 'Manuals', createdAt: 2},
+        ];
+      });
+      let getFormValues: () => PalFormData;
+
+      const {getByTestId} = render(
+        <FormWrapper
+          defaultValues={{
+            talents: ['search_documents'],
+            talentCollections: {search_documents: ['c1']},
+          }}
+          onFormValues={getValues => {
+            getFormValues = getValues;
+          }}>
+          <TalentSection />
+        </FormWrapper>,
+      );
+
+      fireEvent.press(getByTestId('talent-collection-search_documents-c2'));
+      await waitFor(() => {
+        expect(getFormValues!().talentCollections).toEqual({
+          search_documents: ['c1', 'c2'],
+        });
+      });
+
+      fireEvent.press(getByTestId('talent-collection-search_documents-c1'));
+      await waitFor(() => {
+        expect(getFormValues!().talentCollections).toEqual({
+          search_documents: ['c2'],
+        });
+      });
+    });
+  });
 });
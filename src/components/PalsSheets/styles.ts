@@ -212,4 +212,15 @@ export const createStyles = (theme: Theme) =>
     talentDescription: {
       color: theme.colors.onSurfaceVariant,
     },
+    talentApproval: {
+      paddingHorizontal: theme.spacing.default,
+      paddingBottom: 8,
+    },
+    talentCollections: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      paddingHorizontal: theme.spacing.default,
+      paddingBottom: 8,
+    },
   });
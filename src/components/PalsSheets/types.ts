@@ -1,4 +1,5 @@
-import {Model} from '../../utils/types';
+import {LoraAdapterSetting, Model} from '../../utils/types';
+import type {TalentApprovalPolicy} from '../../types/pal';
 
 // Form data structure for the pal sheet
 export interface PalFormData {
@@ -14,8 +15,14 @@ export interface PalFormData {
   generatingPrompt?: string;
   completionSettings?: Record<string, any>;
   talents?: string[];
+  // Per-talent approval policy; absent entries mean 'always'
+  talentApprovals?: Record<string, TalentApprovalPolicy>;
+  // Per-talent document collection ids, for talents that search documents
+  talentCollections?: Record<string, string[]>;
   greetingText?: string;
   suggestedPrompts?: string[];
+  // LoRA adapters pinned for the default model
+  loraAdapters?: LoraAdapterSetting[];
   // Dynamic parameters will be added based on schema
   [key: string]: any;
 }
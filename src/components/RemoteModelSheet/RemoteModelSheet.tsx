@@ -141,10 +141,13 @@ export const RemoteModelSheet: React.FC<RemoteModelSheetProps> = observer(
         try {
           const key = apiKeyRef.current.trim() || undefined;
           const timeoutMs = parseTimeoutMs(timeoutSecondsRef.current);
+          // Detection needs the model list, so the auth headers can only
+          // follow what the host alone reveals.
           const {models, headers} = await fetchModelsWithHeaders(
             trimmedUrl,
             key,
             timeoutMs,
+            seedServerType('', trimmedUrl),
           );
           setProbeResult({ok: true});
           setAvailableModels(models);
@@ -232,6 +235,7 @@ export const RemoteModelSheet: React.FC<RemoteModelSheetProps> = observer(
           server.url,
           key || undefined,
           server.requestTimeoutMs,
+          server.serverType,
         );
         runInAction(() => {
           serverStore.serverModels.set(server.id, models);
@@ -342,6 +342,7 @@ describe('RemoteModelSheet', () => {
           'http://localhost:1234',
           undefined,
           600000,
+          undefined,
         );
       });
       // The add-path probe must NOT be involved in the chip flow.
@@ -366,6 +367,7 @@ describe('RemoteModelSheet', () => {
           'http://localhost:1234',
           undefined,
           undefined,
+          undefined,
         );
       });
     });
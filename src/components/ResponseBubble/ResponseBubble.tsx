@@ -13,6 +13,8 @@ import {
 import LinearGradient from 'react-native-linear-gradient';
 import MaskedView from '@react-native-masked-view/masked-view';
 import {createStyles} from './styles';
+import {TokenProbsView} from '../TokenProbsSheet';
+import {TokenProbability} from '../../utils/completionTypes';
 
 // Enable LayoutAnimation for Android
 if (
@@ -29,10 +31,22 @@ enum BubbleState {
 
 interface ResponseBubbleProps {
   children?: React.ReactNode;
+  // When set, a long press swaps the content for its token probabilities
+  tokenProbs?: TokenProbability[];
 }
 
-export const ResponseBubble: React.FC<ResponseBubbleProps> = ({children}) => {
+export const ResponseBubble: React.FC<ResponseBubbleProps> = ({
+  children,
+  tokenProbs,
+}) => {
   const styles = createStyles();
+  const [showTokenProbs, setShowTokenProbs] = useState(false);
+  const content =
+    showTokenProbs && tokenProbs?.length ? (
+      <TokenProbsView tokenProbs={tokenProbs} />
+    ) : (
+      children
+    );
 
   const [bubbleState, setBubbleState] = useState<BubbleState>(
     BubbleState.EXPANDED,
@@ -108,7 +122,10 @@ export const ResponseBubble: React.FC<ResponseBubbleProps> = ({children}) => {
     <TouchableOpacity
       style={styles.shadowContainer}
       activeOpacity={0.9}
-      onPress={toggleState}>
+      onPress={toggleState}
+      onLongPress={
+        tokenProbs?.length ? () => setShowTokenProbs(show => !show) : undefined
+      }>
       <View style={containerStyle}>
         {/* Content */}
         {isScrollable ? (
@@ -149,7 +166,7 @@ export const ResponseBubble: React.FC<ResponseBubbleProps> = ({children}) => {
               //   }, 50);
               // }}
             >
-              {children}
+              {content}
             </ScrollView>
           </MaskedView>
         ) : (
@@ -159,7 +176,7 @@ export const ResponseBubble: React.FC<ResponseBubbleProps> = ({children}) => {
             contentContainerStyle={styles.contentContainerStyle}
             showsVerticalScrollIndicator={false}
             scrollEventThrottle={16}>
-            {children}
+            {content}
           </ScrollView>
         )}
 
@@ -94,4 +94,36 @@ describe('ResponseBubble', () => {
       expect(queryByTestId('masked-view')).toBeNull();
     });
   });
+
+  describe('Token Probabilities', () => {
+    const tokenProbs = [
+      {token: 'Hi', prob: 0.95, top: [{token: 'Hi', prob: 0.95}]},
+      {token: '!', prob: 0.2, top: [{token: '.', prob: 0.6}]},
+    ];
+
+    it('swaps the content for the token view on long press', () => {
+      const {getByText, queryByTestId} = render(
+        <ResponseBubble tokenProbs={tokenProbs}>
+          <Text>Hi!</Text>
+        </ResponseBubble>,
+      );
+
+      fireEvent(getByText('Hi!'), 'longPress');
+      expect(queryByTestId('token-probs-view')).toBeTruthy();
+
+      fireEvent.press(queryByTestId('token-prob-1')!);
+      expect(queryByTestId('token-prob-details')).toHaveTextContent(/60\.0%/);
+    });
+
+    it('ignores long press without token probabilities', () => {
+      const {getByText, queryByTestId} = render(
+        <ResponseBubble>
+          <Text>Hi!</Text>
+        </ResponseBubble>,
+      );
+
+      fireEvent(getByText('Hi!'), 'longPress');
+      expect(queryByTestId('token-probs-view')).toBeNull();
+    });
+  });
 });
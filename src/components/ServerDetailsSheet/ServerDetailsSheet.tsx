@@ -64,6 +64,11 @@ export const ServerDetailsSheet: React.FC<ServerDetailsSheetProps> = observer(
       timeoutSecondsRef.current = timeoutSeconds;
     }, [timeoutSeconds]);
 
+    const serverTypeRef = useRef(serverType);
+    useEffect(() => {
+      serverTypeRef.current = serverType;
+    }, [serverType]);
+
     // Load server data when sheet opens
     useEffect(() => {
       if (isVisible && serverId) {
@@ -77,6 +82,7 @@ export const ServerDetailsSheet: React.FC<ServerDetailsSheetProps> = observer(
           setTimeoutSeconds(seconds);
           timeoutSecondsRef.current = seconds;
           setServerType(server.serverType || 'unknown');
+          serverTypeRef.current = server.serverType || 'unknown';
         }
         serverStore.getApiKey(serverId).then(key => {
           setApiKey(key || '');
@@ -121,7 +127,12 @@ export const ServerDetailsSheet: React.FC<ServerDetailsSheetProps> = observer(
           const timeoutMs =
             parseTimeoutMs(timeoutSecondsRef.current) ??
             savedServer?.requestTimeoutMs;
-          const result = await testConnection(trimmedUrl, key, timeoutMs);
+          const result = await testConnection(
+            trimmedUrl,
+            key,
+            timeoutMs,
+            serverTypeRef.current,
+          );
           setProbeResult({ok: result.ok, error: result.error});
         } catch (error: any) {
           setProbeResult({ok: false, error: error.message});
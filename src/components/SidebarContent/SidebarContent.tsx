@@ -1,7 +1,14 @@
 import React, {useContext, useEffect, useState} from 'react';
-import {TouchableOpacity, View, Alert, SectionList} from 'react-native';
+import {
+  TouchableOpacity,
+  View,
+  Alert,
+  SectionList,
+  TextInput,
+} from 'react-native';
 import {observer} from 'mobx-react';
 import {Divider, Drawer, Text} from 'react-native-paper';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import {GestureHandlerRootView} from 'react-native-gesture-handler';
 import {DrawerContentComponentProps} from '@react-navigation/drawer';
 import {useSafeAreaInsets} from 'react-native-safe-area-context';
@@ -9,7 +16,7 @@ import {useSafeAreaInsets} from 'react-native-safe-area-context';
 import {useTheme} from '../../hooks';
 import {createStyles} from './styles';
 import {chatSessionStore, SessionMetaData} from '../../store';
-import {Menu, RenameModal, Checkbox} from '..';
+import {Menu, RenameModal, Checkbox, ChatSearchResults} from '..';
 import {
   BenchmarkIcon,
   ChatIcon,
@@ -306,6 +313,7 @@ export const SidebarContent: React.FC<DrawerContentComponentProps> = observer(
     const [menuPosition, setMenuPosition] = useState({x: 0, y: 0});
     const [sessionToRename, setSessionToRename] =
       useState<SessionMetaData | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
 
     const theme = useTheme();
     const styles = createStyles(theme);
@@ -348,6 +356,14 @@ export const SidebarContent: React.FC<DrawerContentComponentProps> = observer(
       [props.navigation],
     );
 
+    const handleOpenSearchResult = React.useCallback(
+      async (sessionId: string, messageId: string) => {
+        await chatSessionStore.openMessage(sessionId, messageId);
+        props.navigation.navigate(ROUTES.CHAT);
+      },
+      [props.navigation],
+    );
+
     const handleSessionLongPress = React.useCallback(
       (sessionId: string, event: any) => {
         openMenu(sessionId, event);
@@ -651,15 +667,58 @@ export const SidebarContent: React.FC<DrawerContentComponentProps> = observer(
               />
             </>
           ) : (
-            <SectionList
-              sections={sections}
-              keyExtractor={keyExtractor}
-              renderItem={renderItem}
-              renderSectionHeader={renderSectionHeader}
-              ListHeaderComponent={ListHeaderComponent}
-              stickySectionHeadersEnabled={false}
-              contentContainerStyle={styles.scrollViewContent}
-            />
+            <>
+              <View style={styles.searchInputContainer}>
+                <Icon
+                  name="magnify"
+                  size={20}
+                  color={theme.colors.onSurfaceVariant}
+                  style={styles.searchIcon}
+                />
+                <TextInput
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  placeholder={
+                    l10n.components.sidebarContent.search.placeholder
+                  }
+                  placeholderTextColor={theme.colors.onSurfaceVariant}
+                  style={styles.searchInput}
+                  returnKeyType="search"
+                  testID="chat-search-input"
+                />
+                {searchQuery.length > 0 && (
+                  <TouchableOpacity
+                    onPress={() => setSearchQuery('')}
+                    hitSlop={{top: 10, bottom: 10, left: 10, right: 10}}
+                    accessibilityLabel={
+                      l10n.components.sidebarContent.search.clear
+                    }
+                    testID="chat-search-clear">
+                    <Icon
+                      name="close"
+                      size={20}
+                      color={theme.colors.onSurfaceVariant}
+                    />
+                  </TouchableOpacity>
+                )}
+              </View>
+              {searchQuery.trim() ? (
+                <ChatSearchResults
+                  query={searchQuery}
+                  onOpenResult={handleOpenSearchResult}
+                />
+              ) : (
+                <SectionList
+                  sections={sections}
+                  keyExtractor={keyExtractor}
+                  renderItem={renderItem}
+                  renderSectionHeader={renderSectionHeader}
+                  ListHeaderComponent={ListHeaderComponent}
+                  stickySectionHeadersEnabled={false}
+                  contentContainerStyle={styles.scrollViewContent}
+                />
+              )}
+            </>
           )}
         </View>
         <RenameModal
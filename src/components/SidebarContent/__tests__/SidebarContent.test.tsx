@@ -237,4 +237,56 @@ describe('SidebarContent Component', () => {
       expect(chatSessionStore.toggleSessionSelection).not.toHaveBeenCalled();
     });
   });
+
+  describe('Search across chats', () => {
+    it('shows results instead of the chat list while searching', async () => {
+      (chatSessionStore.searchMessages as jest.Mock).mockResolvedValueOnce([
+        {
+          messageId: 'm1',
+          sessionId: 'session-1',
+          content: 'Packing list for Lisbon',
+          createdAt: Date.now(),
+        },
+      ]);
+      const {getByTestId, queryByText, findByTestId} = render(
+        <TestNavigator />,
+      );
+
+      fireEvent.changeText(getByTestId('chat-search-input'), 'lisbon');
+
+      expect(queryByText('Today')).toBeNull();
+      expect(await findByTestId('search-result-m1')).toBeTruthy();
+      expect(chatSessionStore.searchMessages).toHaveBeenCalledWith(
+        'lisbon',
+        expect.any(Object),
+      );
+
+      fireEvent.press(getByTestId('chat-search-clear'));
+      expect(queryByText('Today')).toBeTruthy();
+    });
+
+    it('opens the chat at the matched message', async () => {
+      (chatSessionStore.searchMessages as jest.Mock).mockResolvedValueOnce([
+        {
+          messageId: 'm1',
+          sessionId: 'session-2',
+          content: 'Packing list for Lisbon',
+          createdAt: Date.now(),
+        },
+      ]);
+      const {getByTestId, getByText, findByTestId} = render(<TestNavigator />);
+      fireEvent.press(getByText('Models'));
+
+      fireEvent.changeText(getByTestId('chat-search-input'), 'lisbon');
+      fireEvent.press(await findByTestId('search-result-m1'));
+
+      await waitFor(() => {
+        expect(getByText('Chat Screen')).toBeTruthy();
+      });
+      expect(chatSessionStore.openMessage).toHaveBeenCalledWith(
+        'session-2',
+        'm1',
+      );
+    });
+  });
 });
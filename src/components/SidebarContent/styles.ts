@@ -111,6 +111,28 @@ export const createStyles = (theme: MD3Theme) =>
       fontSize: 16,
       color: theme.colors.onSurface,
     },
+    // Search across chats
+    searchInputContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginHorizontal: 16,
+      marginTop: 8,
+      marginBottom: 8,
+      paddingHorizontal: 12,
+      height: 40,
+      borderRadius: 20,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: theme.colors.outline,
+    },
+    searchIcon: {
+      marginRight: 8,
+    },
+    searchInput: {
+      flex: 1,
+      fontSize: 15,
+      paddingVertical: 0,
+      color: theme.colors.onSurface,
+    },
     selectAllDivider: {
       backgroundColor: theme.colors.outline,
       opacity: 0.3,
@@ -1,9 +1,13 @@
 import React from 'react';
 
+import {observer} from 'mobx-react';
+
+import {chatSessionStore} from '../../store';
 import {talentUIRegistry} from '../../services/talents/TalentUIRegistry';
 import {registerDefaultTalentUIs} from '../../services/talents/registerTalentUIs';
 import {AgentStep} from '../../utils/types';
 
+import {ToolApprovalBlock} from '../ToolApprovalBlock';
 import {ToolErrorBlock} from '../ToolErrorBlock';
 import {ToolMetricsFooter} from '../ToolMetricsFooter';
 import {ToolUsedChip} from '../ToolUsedChip';
@@ -23,7 +27,10 @@ interface TalentSurfaceProps {
    *                            registered TalentUI
    *   4. (none)              — outcome not yet landed; the
    *                            ChatView-owned PendingIndicator covers
-   *                            feedback during the in-flight window
+   *                            feedback during the in-flight window,
+   *                            except for the call the run is paused
+   *                            on for approval, which gets an inline
+   *                            <ToolApprovalBlock />
    *
    * `outcome.callId === call.id` holds by construction: the runner
    * attaches the same normalized id to both `step_finished` (consumed
@@ -33,68 +40,89 @@ interface TalentSurfaceProps {
   step?: AgentStep;
 }
 
-export const TalentSurface: React.FC<TalentSurfaceProps> = ({step}) => {
-  const calls = step?.toolCalls;
-  if (!calls || calls.length === 0) {
-    return null;
-  }
+export const TalentSurface: React.FC<TalentSurfaceProps> = observer(
+  ({step}) => {
+    const calls = step?.toolCalls;
+    if (!calls || calls.length === 0) {
+      return null;
+    }
 
-  const outcomes = step?.toolOutcomes ?? [];
-  const rendered: React.ReactNode[] = [];
+    const outcomes = step?.toolOutcomes ?? [];
+    const pendingApproval = chatSessionStore.pendingToolApproval;
+    const rendered: React.ReactNode[] = [];
 
-  for (const call of calls) {
-    const name = call.function?.name ?? '';
-    const outcome = outcomes.find(o => o.callId === call.id);
+    for (const call of calls) {
+      const name = call.function?.name ?? '';
+      const outcome = outcomes.find(o => o.callId === call.id);
 
-    // 4. No outcome yet — pending indicator (ChatView) handles UX.
-    if (!outcome) {
-      continue;
-    }
-
-    // 1. Error outcome — subtle inline error block.
-    if (outcome.result.type === 'error') {
-      rendered.push(
-        <React.Fragment key={call.id}>
-          <ToolErrorBlock
-            toolName={name}
-            errorMessage={outcome.result.errorMessage}
-          />
-        </React.Fragment>,
-      );
-      continue;
-    }
+      // 4. No outcome yet — pending indicator (ChatView) handles UX,
+      //    unless the run is paused on this call for approval.
+      if (!outcome) {
+        if (pendingApproval?.callId === call.id) {
+          rendered.push(
+            <React.Fragment key={call.id}>
+              <ToolApprovalBlock
+                toolName={name}
+                toolArguments={call.function?.arguments ?? ''}
+                onAllow={() =>
+                  chatSessionStore.answerToolApproval(call.id, true)
+                }
+                onDeny={() =>
+                  chatSessionStore.answerToolApproval(call.id, false)
+                }
+              />
+            </React.Fragment>,
+          );
+        }
+        continue;
+      }
 
-    // 2. Registered talent UI for this tool name — render its result.
-    //    The metrics footer (post-hoc tokens + duration) renders as a
-    //    sibling beneath the result so each TalentUI can stay focused
-    //    on its visual envelope; the footer is identical across all
-    //    talents (visual family with AssistantTurnFooter).
-    const ui = talentUIRegistry.get(name);
-    if (ui?.renderResult) {
-      const node = ui.renderResult(outcome.result);
-      if (node != null) {
+      // 1. Error outcome — subtle inline error block.
+      if (outcome.result.type === 'error') {
         rendered.push(
           <React.Fragment key={call.id}>
-            {node}
-            {call.metrics && <ToolMetricsFooter metrics={call.metrics} />}
+            <ToolErrorBlock
+              toolName={name}
+              errorMessage={outcome.result.errorMessage}
+              reason={outcome.result.reason}
+            />
           </React.Fragment>,
         );
         continue;
       }
-    }
 
-    // 3. No registered UI (or renderResult returned null) — subtle
-    //    "used X" chip so the user still sees the tool was invoked.
-    //    The chip carries metrics inline (same line) when present.
-    rendered.push(
-      <React.Fragment key={call.id}>
-        <ToolUsedChip toolName={name} metrics={call.metrics} />
-      </React.Fragment>,
-    );
-  }
+      // 2. Registered talent UI for this tool name — render its result.
+      //    The metrics footer (post-hoc tokens + duration) renders as a
+      //    sibling beneath the result so each TalentUI can stay focused
+      //    on its visual envelope; the footer is identical across all
+      //    talents (visual family with AssistantTurnFooter).
+      const ui = talentUIRegistry.get(name);
+      if (ui?.renderResult) {
+        const node = ui.renderResult(outcome.result);
+        if (node != null) {
+          rendered.push(
+            <React.Fragment key={call.id}>
+              {node}
+              {call.metrics && <ToolMetricsFooter metrics={call.metrics} />}
+            </React.Fragment>,
+          );
+          continue;
+        }
+      }
+
+      // 3. No registered UI (or renderResult returned null) — subtle
+      //    "used X" chip so the user still sees the tool was invoked.
+      //    The chip carries metrics inline (same line) when present.
+      rendered.push(
+        <React.Fragment key={call.id}>
+          <ToolUsedChip toolName={name} metrics={call.metrics} />
+        </React.Fragment>,
+      );
+    }
 
-  if (rendered.length === 0) {
-    return null;
-  }
-  return <>{rendered}</>;
-};
+    if (rendered.length === 0) {
+      return null;
+    }
+    return <>{rendered}</>;
+  },
+);
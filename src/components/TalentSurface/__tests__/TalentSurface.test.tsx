@@ -1,11 +1,12 @@
 import * as React from 'react';
 import {Text} from 'react-native';
 
-import {render} from '../../../../jest/test-utils';
+import {fireEvent, render} from '../../../../jest/test-utils';
 
 import {TalentSurface} from '../TalentSurface';
 import {talentUIRegistry} from '../../../services/talents/TalentUIRegistry';
 import {AgentStep} from '../../../utils/types';
+import {chatSessionStore} from '../../../store';
 
 jest.mock('react-native-vector-icons/MaterialCommunityIcons', () => {
   const {Text: PaperText} = require('react-native-paper');
@@ -15,6 +16,7 @@ jest.mock('react-native-vector-icons/MaterialCommunityIcons', () => {
 describe('TalentSurface', () => {
   beforeEach(() => {
     talentUIRegistry.reset();
+    chatSessionStore.pendingToolApproval = null;
   });
 
   // Four-priority dispatch: error > talent UI > chip > none.
@@ -392,4 +394,31 @@ describe('TalentSurface', () => {
       expect(getByText(/used datetime.+7 tokens.+1s/)).toBeTruthy();
     });
   });
+
+  it('renders the approval prompt for the call the run is paused on', () => {
+    chatSessionStore.pendingToolApproval = {messageId: 'm1', callId: 'c1'};
+    const step: AgentStep = {
+      toolCalls: [
+        {id: 'c0', function: {name: 'web_search', arguments: '{}'}},
+        {
+          id: 'c1',
+          function: {name: 'read_url', arguments: '{"url":"https://a.b"}'},
+        },
+      ],
+      toolOutcomes: [],
+    };
+    const {getAllByTestId, getByTestId} = render(<TalentSurface step={step} />);
+    expect(getAllByTestId('tool-approval-block')).toHaveLength(1);
+
+    fireEvent.press(getByTestId('tool-approval-allow'));
+    expect(chatSessionStore.answerToolApproval).toHaveBeenCalledWith(
+      'c1',
+      true,
+    );
+    fireEvent.press(getByTestId('tool-approval-deny'));
+    expect(chatSessionStore.answerToolApproval).toHaveBeenCalledWith(
+      'c1',
+      false,
+    );
+  });
 });
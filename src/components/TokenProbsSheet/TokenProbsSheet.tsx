@@ -0,0 +1,40 @@
+import React, {useContext} from 'react';
+import {Text} from 'react-native-paper';
+
+import {Sheet} from '../Sheet';
+import {useTheme} from '../../hooks';
+import {L10nContext} from '../../utils';
+import {TokenProbability} from '../../utils/completionTypes';
+
+import {TokenProbsView} from './TokenProbsView';
+import {createStyles} from './styles';
+
+interface TokenProbsSheetProps {
+  isVisible: boolean;
+  onDismiss: () => void;
+  tokenProbs: TokenProbability[] | undefined;
+}
+
+export const TokenProbsSheet: React.FC<TokenProbsSheetProps> = ({
+  isVisible,
+  onDismiss,
+  tokenProbs,
+}) => {
+  const theme = useTheme();
+  const l10n = useContext(L10nContext);
+  const styles = createStyles(theme);
+  const strings = l10n.components.tokenProbsSheet;
+
+  return (
+    <Sheet
+      isVisible={isVisible}
+      onClose={onDismiss}
+      title={strings.title}
+      snapPoints={['90%']}>
+      <Sheet.ScrollView contentContainerStyle={styles.container}>
+        <Text style={styles.description}>{strings.description}</Text>
+        {tokenProbs && <TokenProbsView tokenProbs={tokenProbs} />}
+      </Sheet.ScrollView>
+    </Sheet>
+  );
+};
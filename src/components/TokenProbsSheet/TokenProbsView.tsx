@@ -0,0 +1,78 @@
+import React, {useContext, useState} from 'react';
+import {View} from 'react-native';
+import {Text} from 'react-native-paper';
+
+import {useTheme} from '../../hooks';
+import {L10nContext} from '../../utils';
+import {TokenProbability} from '../../utils/completionTypes';
+import {tokenConfidence} from '../../utils/tokenProbs';
+
+import {createStyles} from './styles';
+
+interface TokenProbsViewProps {
+  tokenProbs: TokenProbability[];
+}
+
+const formatProb = (prob: number) => `${(prob * 100).toFixed(1)}%`;
+
+// Quoted so whitespace and newline tokens stay visible.
+const formatToken = (token: string) => JSON.stringify(token);
+
+/**
+ * A response as the tokens the model sampled, shaded by how sure it was of
+ * each. Tapping a token lists the alternatives it weighed at that position.
+ */
+export const TokenProbsView: React.FC<TokenProbsViewProps> = ({tokenProbs}) => {
+  const theme = useTheme();
+  const l10n = useContext(L10nContext);
+  const styles = createStyles(theme);
+  const strings = l10n.components.tokenProbsSheet;
+
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const selected = selectedIndex !== null ? tokenProbs[selectedIndex] : null;
+
+  return (
+    <View testID="token-probs-view">
+      <Text style={styles.tokens}>
+        {tokenProbs.map((entry, index) => (
+          <Text
+            key={index}
+            testID={`token-prob-${index}`}
+            style={[
+              styles[tokenConfidence(entry.prob)],
+              index === selectedIndex && styles.selected,
+            ]}
+            onPress={() =>
+              setSelectedIndex(index === selectedIndex ? null : index)
+            }>
+            {entry.token}
+          </Text>
+        ))}
+      </Text>
+      {selected && (
+        <View style={styles.details} testID="token-prob-details">
+          <Text variant="labelMedium" style={styles.detailsTitle}>
+            {formatToken(selected.token)} · {formatProb(selected.prob)}
+          </Text>
+          <Text variant="labelSmall" style={styles.detailsTitle}>
+            {strings.alternatives}
+          </Text>
+          {selected.top.map((alternative, index) => (
+            <View key={index} style={styles.alternativeRow}>
+              <Text
+                style={[
+                  styles.alternativeToken,
+                  alternative.token === selected.token && styles.chosenToken,
+                ]}>
+                {formatToken(alternative.token)}
+              </Text>
+              <Text style={styles.alternativeProb}>
+                {formatProb(alternative.prob)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
@@ -0,0 +1,2 @@
+export * from './TokenProbsSheet';
+export * from './TokenProbsView';
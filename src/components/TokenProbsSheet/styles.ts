@@ -0,0 +1,55 @@
+import {StyleSheet} from 'react-native';
+import {Theme} from '../../utils/types';
+
+export const createStyles = (theme: Theme) => {
+  return StyleSheet.create({
+    container: {
+      padding: 16,
+      paddingBottom: 32,
+    },
+    description: {
+      marginBottom: 12,
+      color: theme.colors.onSurfaceVariant,
+      fontSize: 12,
+    },
+    tokens: {
+      color: theme.colors.onSurface,
+      lineHeight: 22,
+    },
+    high: {},
+    medium: {
+      backgroundColor: theme.colors.tertiaryContainer,
+    },
+    low: {
+      backgroundColor: theme.colors.errorContainer,
+    },
+    selected: {
+      textDecorationLine: 'underline',
+    },
+    details: {
+      marginTop: 12,
+      padding: 12,
+      borderRadius: theme.borders.default,
+      backgroundColor: theme.colors.surfaceVariant,
+    },
+    detailsTitle: {
+      marginBottom: 4,
+    },
+    alternativeRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 2,
+    },
+    alternativeToken: {
+      flex: 1,
+      fontFamily: 'monospace',
+      color: theme.colors.onSurfaceVariant,
+    },
+    chosenToken: {
+      color: theme.colors.primary,
+    },
+    alternativeProb: {
+      color: theme.colors.onSurfaceVariant,
+    },
+  });
+};
@@ -0,0 +1,75 @@
+import React, {useContext} from 'react';
+import {View} from 'react-native';
+
+import {Button, Text} from 'react-native-paper';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import {useTheme} from '../../hooks';
+
+import {styles} from './styles';
+
+import {L10nContext} from '../../utils';
+import {t} from '../../locales';
+
+/** Long arguments (e.g. a pasted page) are clipped in the prompt. */
+const MAX_ARGUMENT_CHARS = 600;
+
+interface ToolApprovalBlockProps {
+  toolName: string;
+  /** Raw JSON arguments as emitted by the model. */
+  toolArguments: string;
+  onAllow: () => void;
+  onDeny: () => void;
+}
+
+const formatArguments = (raw: string): string => {
+  let text = raw;
+  try {
+    text = JSON.stringify(JSON.parse(raw || '{}'), null, 2);
+  } catch {
+    // Show malformed arguments as-is; the runner reports the parse error.
+  }
+  return text.length > MAX_ARGUMENT_CHARS
+    ? `${text.slice(0, MAX_ARGUMENT_CHARS)}…`
+    : text;
+};
+
+/**
+ * Inline prompt for a tool call paused under an `'ask'` approval policy.
+ * Shows the call's arguments so the user can see what will be sent
+ * before allowing it.
+ */
+export const ToolApprovalBlock: React.FC<ToolApprovalBlockProps> = ({
+  toolName,
+  toolArguments,
+  onAllow,
+  onDeny,
+}) => {
+  const theme = useTheme();
+  const l10n = useContext(L10nContext);
+  const componentStyles = styles({theme});
+
+  return (
+    <View style={componentStyles.container} testID="tool-approval-block">
+      <View style={componentStyles.row}>
+        <Icon name="shield-check-outline" style={componentStyles.icon} />
+        <Text style={componentStyles.label}>
+          {t(l10n.chat.toolApproval.prompt, {name: toolName})}
+        </Text>
+      </View>
+      <Text
+        style={componentStyles.arguments}
+        testID="tool-approval-block-arguments">
+        {formatArguments(toolArguments)}
+      </Text>
+      <View style={componentStyles.actions}>
+        <Button compact onPress={onDeny} testID="tool-approval-deny">
+          {l10n.chat.toolApproval.deny}
+        </Button>
+        <Button compact onPress={onAllow} testID="tool-approval-allow">
+          {l10n.chat.toolApproval.allow}
+        </Button>
+      </View>
+    </View>
+  );
+};
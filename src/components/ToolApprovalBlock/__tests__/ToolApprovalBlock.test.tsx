@@ -0,0 +1,71 @@
+import React from 'react';
+
+import {fireEvent, render} from '../../../../jest/test-utils';
+
+import {ToolApprovalBlock} from '../ToolApprovalBlock';
+
+jest.mock('react-native-vector-icons/MaterialCommunityIcons', () => {
+  const {Text: PaperText} = require('react-native-paper');
+  return props => <PaperText>{props.name}</PaperText>;
+});
+
+describe('ToolApprovalBlock', () => {
+  it('asks about the named tool and pretty-prints its arguments', () => {
+    const {getByText, getByTestId} = render(
+      <ToolApprovalBlock
+        toolName="web_search"
+        toolArguments='{"query":"weather"}'
+        onAllow={jest.fn()}
+        onDeny={jest.fn()}
+      />,
+    );
+    expect(getByText('Allow web_search to run?')).toBeTruthy();
+    expect(getByTestId('tool-approval-block-arguments').props.children).toBe(
+      '{\n  "query": "weather"\n}',
+    );
+  });
+
+  it('shows malformed arguments as-is and clips long ones', () => {
+    const {getByTestId, rerender} = render(
+      <ToolApprovalBlock
+        toolName="read_url"
+        toolArguments="{not json"
+        onAllow={jest.fn()}
+        onDeny={jest.fn()}
+      />,
+    );
+    expect(getByTestId('tool-approval-block-arguments').props.children).toBe(
+      '{not json',
+    );
+
+    rerender(
+      <ToolApprovalBlock
+        toolName="read_url"
+        toolArguments={'x'.repeat(1000)}
+        onAllow={jest.fn()}
+        onDeny={jest.fn()}
+      />,
+    );
+    const clipped = getByTestId('tool-approval-block-arguments').props
+      .children as string;
+    expect(clipped).toHaveLength(601);
+    expect(clipped.endsWith('…')).toBe(true);
+  });
+
+  it('wires the allow and deny buttons', () => {
+    const onAllow = jest.fn();
+    const onDeny = jest.fn();
+    const {getByTestId} = render(
+      <ToolApprovalBlock
+        toolName="web_search"
+        toolArguments="{}"
+        onAllow={onAllow}
+        onDeny={onDeny}
+      />,
+    );
+    fireEvent.press(getByTestId('tool-approval-allow'));
+    fireEvent.press(getByTestId('tool-approval-deny'));
+    expect(onAllow).toHaveBeenCalledTimes(1);
+    expect(onDeny).toHaveBeenCalledTimes(1);
+  });
+});
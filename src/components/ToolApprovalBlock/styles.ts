@@ -0,0 +1,40 @@
+import {Platform, StyleSheet} from 'react-native';
+
+import {Theme} from '../../utils/types';
+
+export const styles = ({theme}: {theme: Theme}) =>
+  StyleSheet.create({
+    container: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      marginVertical: 4,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: theme.colors.outlineVariant,
+      backgroundColor: theme.colors.surfaceContainerLow,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    icon: {
+      fontSize: 14,
+      marginRight: 6,
+      color: theme.colors.primary,
+    },
+    label: {
+      fontSize: 12,
+      color: theme.colors.onSurface,
+    },
+    arguments: {
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+      fontSize: 11,
+      marginTop: 6,
+      color: theme.colors.onSurfaceVariant,
+    },
+    actions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      marginTop: 4,
+    },
+  });
@@ -10,20 +10,27 @@ import {styles} from './styles';
 
 import {L10nContext} from '../../utils';
 import {t} from '../../locales';
+import {TalentErrorReason} from '../../services/talents/types';
 
 interface ToolErrorBlockProps {
   toolName: string;
   errorMessage?: string;
+  /** Set when the runner ended the call (deadline, user stop or approval
+   * decline) rather than the talent failing on its own. */
+  reason?: TalentErrorReason;
 }
 
 /**
  * Inline error block for tool calls whose outcome is
  * `result.type === 'error'`. Falls back to "Tool call failed" copy when
  * no errorMessage is supplied. Renders nothing when `toolName` is empty.
+ * Timeouts, user stops and approval declines get their own icon + copy;
+ * stops and declines are rendered muted since nothing went wrong.
  */
 export const ToolErrorBlock: React.FC<ToolErrorBlockProps> = ({
   toolName,
   errorMessage,
+  reason,
 }) => {
   const theme = useTheme();
   const l10n = useContext(L10nContext);
@@ -34,16 +41,36 @@ export const ToolErrorBlock: React.FC<ToolErrorBlockProps> = ({
 
   const componentStyles = styles({theme});
 
+  // A stop or a decline is the user's own choice, not a failure.
+  const isCancelled = reason === 'cancelled' || reason === 'declined';
+  const iconName =
+    reason === 'timeout'
+      ? 'timer-sand-complete'
+      : reason === 'cancelled'
+        ? 'stop-circle-outline'
+        : reason === 'declined'
+          ? 'hand-back-left-outline'
+          : 'alert-circle-outline';
+  const label =
+    reason === 'timeout'
+      ? l10n.chat.toolTimeoutBlock
+      : reason === 'cancelled'
+        ? l10n.chat.toolCancelledBlock
+        : reason === 'declined'
+          ? l10n.chat.toolDeclinedBlock
+          : l10n.chat.toolErrorBlock;
+
   return (
     <View style={componentStyles.container} testID="tool-error-block">
       <View style={componentStyles.row}>
         <Icon
-          name="alert-circle-outline"
-          style={componentStyles.icon}
+          name={iconName}
+          style={[componentStyles.icon, isCancelled && componentStyles.muted]}
           testID="tool-error-block-icon"
         />
-        <Text style={componentStyles.label}>
-          {t(l10n.chat.toolErrorBlock, {name: toolName})}
+        <Text
+          style={[componentStyles.label, isCancelled && componentStyles.muted]}>
+          {t(label, {name: toolName})}
         </Text>
       </View>
       {errorMessage ? (
@@ -28,8 +28,41 @@ describe('ToolErrorBlock', () => {
     expect(queryByTestId('tool-error-block-message')).toBeNull();
   });
 
+  it('renders timeout copy and icon when the runner hit the deadline', () => {
+    const {getByText, queryByText} = render(
+      <ToolErrorBlock
+        toolName="read_url"
+        errorMessage='Talent "read_url" timed out after 30s'
+        reason="timeout"
+      />,
+    );
+    expect(getByText('read_url timed out')).toBeTruthy();
+    expect(getByText('timer-sand-complete')).toBeTruthy();
+    expect(queryByText('read_url failed')).toBeNull();
+  });
+
+  it('renders stopped copy when the user cancelled the call', () => {
+    const {getByText} = render(
+      <ToolErrorBlock toolName="web_search" reason="cancelled" />,
+    );
+    expect(getByText('web_search stopped')).toBeTruthy();
+    expect(getByText('stop-circle-outline')).toBeTruthy();
+  });
+
   it('renders nothing when toolName is empty', () => {
     const {queryByTestId} = render(<ToolErrorBlock toolName="" />);
     expect(queryByTestId('tool-error-block')).toBeNull();
   });
+
+  it('renders declined copy and icon when the user did not allow the call', () => {
+    const {getByText} = render(
+      <ToolErrorBlock
+        toolName="web_search"
+        errorMessage='The user declined to run "web_search".'
+        reason="declined"
+      />,
+    );
+    expect(getByText('web_search not allowed')).toBeTruthy();
+    expect(getByText('hand-back-left-outline')).toBeTruthy();
+  });
 });
@@ -21,6 +21,9 @@ export const styles = ({theme}: {theme: Theme}) =>
       fontSize: 12,
       color: theme.colors.error,
     },
+    muted: {
+      color: theme.colors.onSurfaceVariant,
+    },
     message: {
       fontSize: 11,
       marginTop: 2,
@@ -0,0 +1,374 @@
+import React, {useState, useContext, useEffect} from 'react';
+import {View, Alert} from 'react-native';
+import {
+  Text,
+  Button,
+  SegmentedButtons,
+  TextInput as PaperTextInput,
+} from 'react-native-paper';
+import {observer} from 'mobx-react';
+
+import {Sheet, TextInput} from '..';
+import {useTheme} from '../../hooks';
+import {webhookToolStore} from '../../store';
+import {validateWebhookTool} from '../../services/talents';
+import {L10nContext} from '../../utils';
+import {t} from '../../locales';
+import {EyeIcon, EyeOffIcon} from '../../assets/icons';
+import type {WebhookHeader, WebhookMethod} from '../../utils/types';
+
+import {createStyles} from './styles';
+
+interface WebhookToolSheetProps {
+  isVisible: boolean;
+  onDismiss: () => void;
+  /** Tool to edit; `null` adds a new one. */
+  toolId: string | null;
+}
+
+const METHODS: WebhookMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const DEFAULT_PARAMETERS = JSON.stringify(
+  {type: 'object', properties: {}, required: []},
+  null,
+  2,
+);
+
+// RFC 9110 token characters.
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/** One `Name: value` per line; `undefined` when a line is malformed. */
+const parseHeaders = (text: string): WebhookHeader[] | undefined => {
+  const headers: WebhookHeader[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    const colon = line.indexOf(':');
+    const name = colon > 0 ? line.slice(0, colon).trim() : '';
+    if (!HEADER_NAME.test(name)) {
+      return undefined;
+    }
+    headers.push({name, value: line.slice(colon + 1).trim()});
+  }
+  return headers;
+};
+
+export const WebhookToolSheet: React.FC<WebhookToolSheetProps> = observer(
+  ({isVisible, onDismiss, toolId}) => {
+    const theme = useTheme();
+    const l10n = useContext(L10nContext);
+    const styles = createStyles(theme);
+    const strings = l10n.settings.webhookTools;
+
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [method, setMethod] = useState<WebhookMethod>('GET');
+    const [urlTemplate, setUrlTemplate] = useState('');
+    const [parameters, setParameters] = useState(DEFAULT_PARAMETERS);
+    const [headers, setHeaders] = useState('');
+    const [secretName, setSecretName] = useState('');
+    const [secretValue, setSecretValue] = useState('');
+    const [responsePath, setResponsePath] = useState('');
+    const [secureTextEntry, setSecureTextEntry] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const tool = toolId
+      ? webhookToolStore.tools.find(item => item.id === toolId)
+      : undefined;
+
+    useEffect(() => {
+      if (!isVisible) {
+        return;
+      }
+      const secretHeader = tool?.headers.find(header => header.secret);
+      setName(tool?.name ?? '');
+      setDescription(tool?.description ?? '');
+      setMethod(tool?.method ?? 'GET');
+      setUrlTemplate(tool?.urlTemplate ?? '');
+      setParameters(
+        tool ? JSON.stringify(tool.parameters, null, 2) : DEFAULT_PARAMETERS,
+      );
+      setHeaders(
+        (tool?.headers ?? [])
+          .filter(header => !header.secret)
+          .map(header => `${header.name}: ${header.value ?? ''}`)
+          .join('\n'),
+      );
+      setSecretName(secretHeader?.name ?? '');
+      setSecretValue('');
+      setResponsePath(tool?.responsePath ?? '');
+      setError(null);
+      setSecureTextEntry(true);
+      setIsSaving(false);
+      if (toolId && secretHeader) {
+        webhookToolStore
+          .getSecrets(toolId)
+          .then(secrets => setSecretValue(secrets[secretHeader.name] ?? ''));
+      }
+      // Only reload when the sheet opens or switches tool.
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isVisible, toolId]);
+
+    const handleSave = async () => {
+      let parsedParameters: Record<string, any>;
+      try {
+        parsedParameters = JSON.parse(parameters);
+      } catch {
+        setError(strings.invalidParameters);
+        return;
+      }
+      const parsedHeaders = parseHeaders(headers);
+      const trimmedSecretName = secretName.trim();
+      if (
+        !parsedHeaders ||
+        (trimmedSecretName && !HEADER_NAME.test(trimmedSecretName))
+      ) {
+        setError(strings.invalidHeaders);
+        return;
+      }
+      const config = {
+        name: name.trim(),
+        description: description.trim(),
+        method,
+        urlTemplate: urlTemplate.trim(),
+        parameters: parsedParameters,
+        headers: trimmedSecretName
+          ? [...parsedHeaders, {name: trimmedSecretName, secret: true}]
+          : parsedHeaders,
+        responsePath: responsePath.trim() || undefined,
+      };
+
+      const problem = validateWebhookTool(config);
+      if (problem) {
+        setError(
+          {
+            name: strings.invalidName,
+            url: strings.invalidUrl,
+            parameters: strings.invalidParameters,
+          }[problem],
+        );
+        return;
+      }
+      if (!webhookToolStore.isNameAvailable(config.name, toolId ?? undefined)) {
+        setError(t(strings.nameTaken, {name: config.name}));
+        return;
+      }
+
+      const secrets: Record<string, string> =
+        trimmedSecretName && secretValue.trim()
+          ? {[trimmedSecretName]: secretValue.trim()}
+          : {};
+      setIsSaving(true);
+      try {
+        if (toolId) {
+          await webhookToolStore.updateTool(toolId, config, secrets);
+        } else {
+          await webhookToolStore.addTool(config, secrets);
+        }
+        onDismiss();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setIsSaving(false);
+      }
+    };
+
+    const handleRemove = () => {
+      if (!toolId || !tool) {
+        return;
+      }
+      const toolName = tool.name;
+      // Dismiss first so the native alert is not hidden behind the sheet's
+      // overlay on iOS.
+      onDismiss();
+      setTimeout(() => {
+        Alert.alert(strings.removeTitle, t(strings.removeMessage, {toolName}), [
+          {text: l10n.common.cancel, style: 'cancel'},
+          {
+            text: l10n.common.delete,
+            style: 'destructive',
+            onPress: () => {
+              webhookToolStore.removeTool(toolId);
+            },
+          },
+        ]);
+      }, 300);
+    };
+
+    return (
+      <Sheet
+        isVisible={isVisible}
+        onClose={onDismiss}
+        title={tool ? tool.name : strings.addTitle}
+        snapPoints={['90%']}>
+        <Sheet.ScrollView contentContainerStyle={styles.container}>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="webhook-tool-name-input"
+              label={strings.nameLabel}
+              value={name}
+              onChangeText={setName}
+              placeholder="lookup_order"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Text style={styles.description}>{strings.nameDescription}</Text>
+          </View>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="webhook-tool-description-input"
+              label={strings.descriptionLabel}
+              value={description}
+              onChangeText={setDescription}
+              placeholder={strings.descriptionPlaceholder}
+              multiline
+              numberOfLines={3}
+            />
+          </View>
+          <View style={styles.inputSpacing}>
+            <Text variant="labelMedium" style={styles.label}>
+              {strings.methodLabel}
+            </Text>
+            <SegmentedButtons
+              density="small"
+              value={method}
+              onValueChange={value => setMethod(value as WebhookMethod)}
+              buttons={METHODS.map(item => ({
+                value: item,
+                label: item,
+                testID: `webhook-tool-method-${item}`,
+              }))}
+            />
+          </View>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="webhook-tool-url-input"
+              label={strings.urlLabel}
+              value={urlTemplate}
+              onChangeText={setUrlTemplate}
+              placeholder="https://api.example.com/orders/{id}"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <Text style={styles.description}>{strings.urlDescription}</Text>
+          </View>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="webhook-tool-parameters-input"
+              label={strings.parametersLabel}
+              value={parameters}
+              onChangeText={setParameters}
+              autoCapitalize="none"
+              autoCorrect={false}
+              spellCheck={false}
+              multiline
+              numberOfLines={6}
+            />
+            <Text style={styles.description}>
+              {strings.parametersDescription}
+            </Text>
+          </View>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="webhook-tool-headers-input"
+              label={strings.headersLabel}
+              value={headers}
+              onChangeText={setHeaders}
+              placeholder="Accept: application/json"
+              autoCapitalize="none"
+              autoCorrect={false}
+              spellCheck={false}
+              multiline
+              numberOfLines={3}
+            />
+          </View>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="webhook-tool-secret-name-input"
+              label={strings.secretHeaderNameLabel}
+              value={secretName}
+              onChangeText={setSecretName}
+              placeholder="Authorization"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="webhook-tool-secret-value-input"
+              label={strings.secretHeaderValueLabel}
+              value={secretValue}
+              onChangeText={setSecretValue}
+              placeholder="Bearer ..."
+              autoCapitalize="none"
+              autoCorrect={false}
+              spellCheck={false}
+              secureTextEntry={secureTextEntry}
+              right={
+                <PaperTextInput.Icon
+                  testID="webhook-tool-secret-toggle"
+                  icon={({color}) =>
+                    secureTextEntry ? (
+                      <EyeIcon width={24} height={24} stroke={color} />
+                    ) : (
+                      <EyeOffIcon width={24} height={24} stroke={color} />
+                    )
+                  }
+                  onPress={() => setSecureTextEntry(prev => !prev)}
+                />
+              }
+            />
+            <Text style={styles.description}>
+              {strings.secretHeaderDescription}
+            </Text>
+          </View>
+          <View style={styles.inputSpacing}>
+            <TextInput
+              testID="webhook-tool-response-path-input"
+              label={strings.responsePathLabel}
+              value={responsePath}
+              onChangeText={setResponsePath}
+              placeholder="data.items[0].title"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Text style={styles.description}>
+              {strings.responsePathDescription}
+            </Text>
+          </View>
+          {error && (
+            <Text style={styles.errorText} testID="webhook-tool-error">
+              {error}
+            </Text>
+          )}
+        </Sheet.ScrollView>
+        <Sheet.Actions>
+          <View style={styles.buttonsContainer}>
+            {tool && (
+              <Button
+                testID="webhook-tool-remove-button"
+                mode="text"
+                textColor={theme.colors.error}
+                onPress={handleRemove}
+                style={styles.removeButton}>
+                {strings.removeTitle}
+              </Button>
+            )}
+            <Button
+              testID="webhook-tool-save-button"
+              mode="contained"
+              onPress={handleSave}
+              loading={isSaving}
+              disabled={isSaving}
+              style={styles.saveButton}>
+              {tool ? l10n.settings.saveChanges : strings.addTool}
+            </Button>
+          </View>
+        </Sheet.Actions>
+      </Sheet>
+    );
+  },
+);
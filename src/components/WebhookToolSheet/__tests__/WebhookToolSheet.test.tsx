@@ -0,0 +1,211 @@
+import React from 'react';
+import {Alert} from 'react-native';
+import {runInAction} from 'mobx';
+import {render, fireEvent, waitFor, act} from '../../../../jest/test-utils';
+import {WebhookToolSheet} from '../WebhookToolSheet';
+import {webhookToolStore} from '../../../store';
+
+jest.mock('../../Sheet', () => {
+  const {View, Button} = require('react-native');
+  const MockSheet = ({children, isVisible, onClose, title}: any) => {
+    if (!isVisible) {
+      return null;
+    }
+    return (
+      <View testID="sheet">
+        <View testID="sheet-title">{title}</View>
+        <Button title="Close" onPress={onClose} testID="sheet-close-button" />
+        {children}
+      </View>
+    );
+  };
+  MockSheet.ScrollView = ({children}: any) => (
+    <View testID="sheet-scroll-view">{children}</View>
+  );
+  MockSheet.Actions = ({children}: any) => (
+    <View testID="sheet-actions">{children}</View>
+  );
+  return {Sheet: MockSheet};
+});
+
+const existing = {
+  id: 'webhook-1',
+  name: 'lookup_order',
+  description: 'Look up an order',
+  parameters: {type: 'object', properties: {id: {type: 'string'}}},
+  urlTemplate: 'https://api.example.com/orders/{id}',
+  method: 'GET' as const,
+  headers: [
+    {name: 'Accept', value: 'application/json'},
+    {name: 'Authorization', secret: true},
+  ],
+  responsePath: 'data.status',
+};
+
+const fillValidTool = (getByTestId: (id: string) => any) => {
+  fireEvent.changeText(getByTestId('webhook-tool-name-input'), 'create_note');
+  fireEvent.changeText(
+    getByTestId('webhook-tool-description-input'),
+    'Create a note',
+  );
+  fireEvent.changeText(
+    getByTestId('webhook-tool-url-input'),
+    'https://notes.example.com/notes',
+  );
+};
+
+describe('WebhookToolSheet', () => {
+  const onDismiss = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runInAction(() => {
+      webhookToolStore.tools = [existing];
+    });
+    (webhookToolStore.isNameAvailable as jest.Mock).mockReturnValue(true);
+    (webhookToolStore.getSecrets as jest.Mock).mockResolvedValue({});
+  });
+
+  it('adds a tool with headers, a secret header and a body method', async () => {
+    const {getByTestId} = render(
+      <WebhookToolSheet isVisible onDismiss={onDismiss} toolId={null} />,
+    );
+
+    fillValidTool(getByTestId);
+    fireEvent.press(getByTestId('webhook-tool-method-POST'));
+    fireEvent.changeText(
+      getByTestId('webhook-tool-headers-input'),
+      'Accept: application/json\n\nX-Team: core',
+    );
+    fireEvent.changeText(
+      getByTestId('webhook-tool-secret-name-input'),
+      'Authorization',
+    );
+    fireEvent.changeText(
+      getByTestId('webhook-tool-secret-value-input'),
+      'Bearer s3cret',
+    );
+    fireEvent.press(getByTestId('webhook-tool-save-button'));
+
+    await waitFor(() => {
+      expect(webhookToolStore.addTool).toHaveBeenCalledWith(
+        {
+          name: 'create_note',
+          description: 'Create a note',
+          method: 'POST',
+          urlTemplate: 'https://notes.example.com/notes',
+          parameters: {type: 'object', properties: {}, required: []},
+          headers: [
+            {name: 'Accept', value: 'application/json'},
+            {name: 'X-Team', value: 'core'},
+            {name: 'Authorization', secret: true},
+          ],
+          responsePath: undefined,
+        },
+        {Authorization: 'Bearer s3cret'},
+      );
+    });
+    expect(onDismiss).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['webhook-tool-name-input', 'has space', 'Use 1-64 letters'],
+    ['webhook-tool-url-input', 'notes.example.com', 'Enter an http(s) URL'],
+    ['webhook-tool-parameters-input', '{"type":', 'JSON object schema'],
+    ['webhook-tool-headers-input', 'no colon here', 'one header per line'],
+  ])('rejects an invalid %s', async (testID, value, message) => {
+    const {getByTestId} = render(
+      <WebhookToolSheet isVisible onDismiss={onDismiss} toolId={null} />,
+    );
+
+    fillValidTool(getByTestId);
+    fireEvent.changeText(getByTestId(testID), value);
+    fireEvent.press(getByTestId('webhook-tool-save-button'));
+
+    await waitFor(() => {
+      expect(getByTestId('webhook-tool-error').props.children).toContain(
+        message,
+      );
+    });
+    expect(webhookToolStore.addTool).not.toHaveBeenCalled();
+  });
+
+  it('rejects a name another talent already uses', async () => {
+    (webhookToolStore.isNameAvailable as jest.Mock).mockReturnValue(false);
+    const {getByTestId} = render(
+      <WebhookToolSheet isVisible onDismiss={onDismiss} toolId={null} />,
+    );
+
+    fillValidTool(getByTestId);
+    fireEvent.press(getByTestId('webhook-tool-save-button'));
+
+    await waitFor(() => {
+      expect(getByTestId('webhook-tool-error')).toHaveTextContent(
+        'A talent named "create_note" already exists',
+      );
+    });
+  });
+
+  it('prefills an existing tool and its secret value', async () => {
+    (webhookToolStore.getSecrets as jest.Mock).mockResolvedValue({
+      Authorization: 'Bearer old',
+    });
+    const {getByTestId} = render(
+      <WebhookToolSheet isVisible onDismiss={onDismiss} toolId="webhook-1" />,
+    );
+
+    await waitFor(() => {
+      expect(getByTestId('webhook-tool-secret-value-input').props.value).toBe(
+        'Bearer old',
+      );
+    });
+    expect(getByTestId('webhook-tool-headers-input').props.value).toBe(
+      'Accept: application/json',
+    );
+    expect(getByTestId('webhook-tool-secret-name-input').props.value).toBe(
+      'Authorization',
+    );
+    expect(getByTestId('webhook-tool-response-path-input').props.value).toBe(
+      'data.status',
+    );
+
+    fireEvent.press(getByTestId('webhook-tool-save-button'));
+
+    await waitFor(() => {
+      expect(webhookToolStore.updateTool).toHaveBeenCalledWith(
+        'webhook-1',
+        expect.objectContaining({
+          name: 'lookup_order',
+          headers: existing.headers,
+          responsePath: 'data.status',
+        }),
+        {Authorization: 'Bearer old'},
+      );
+    });
+    expect(webhookToolStore.isNameAvailable).toHaveBeenCalledWith(
+      'lookup_order',
+      'webhook-1',
+    );
+  });
+
+  it('confirms before removing a tool', () => {
+    jest.useFakeTimers();
+    const alertSpy = jest.spyOn(Alert, 'alert');
+    const {getByTestId} = render(
+      <WebhookToolSheet isVisible onDismiss={onDismiss} toolId="webhook-1" />,
+    );
+
+    fireEvent.press(getByTestId('webhook-tool-remove-button'));
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(onDismiss).toHaveBeenCalled();
+    const buttons = alertSpy.mock.calls[0][2]!;
+    buttons[1].onPress!();
+    expect(webhookToolStore.removeTool).toHaveBeenCalledWith('webhook-1');
+
+    alertSpy.mockRestore();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,39 @@
+import {StyleSheet} from 'react-native';
+import {Theme} from '../../utils/types';
+
+export const createStyles = (theme: Theme) => {
+  return StyleSheet.create({
+    container: {
+      padding: 16,
+      paddingBottom: 32,
+    },
+    inputSpacing: {
+      marginBottom: 12,
+    },
+    label: {
+      marginBottom: 6,
+    },
+    description: {
+      marginTop: 4,
+      color: theme.colors.onSurfaceVariant,
+      fontSize: 12,
+    },
+    errorText: {
+      color: theme.colors.error,
+      fontSize: 12,
+      marginTop: 4,
+    },
+    buttonsContainer: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      width: '100%',
+    },
+    removeButton: {
+      marginRight: 8,
+    },
+    saveButton: {
+      flex: 1,
+    },
+  });
+};
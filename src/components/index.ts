@@ -1,14 +1,18 @@
+export * from './AddFromUrlSheet';
 export * from './AssistantTurnFooter';
 export * from './AttachmentButton';
 export * from './Avatar';
 export * from './Bubble';
+export * from './BranchNavigator';
 export * from './ChatGenerationSettingsSheet';
 export * from './ChatInput';
 export * from './ChatView';
 export * from './ChatHeader';
 export * from './ChatPalModelPickerSheet';
 export * from './ChatEmptyPlaceholder';
+export * from './ChatSearchResults';
 export * from './ContentReportSheet';
+export * from './ContextSummaryCard';
 export * from './ModelErrorReportSheet';
 export * from './Checkbox';
 export * from './CircularActivityIndicator';
@@ -34,6 +38,8 @@ export * from './ImageMessage';
 export * from './KeyboardAccessoryView';
 export * from './LanguageSelector';
 export * from './LoadingBubble';
+export * from './LoadProfileSelector';
+export * from './LoraAdapterSelector';
 export * from './MarkdownView';
 export * from './PendingIndicator';
 export * from './Menu';
@@ -42,12 +48,14 @@ export * from './ModelsHeaderRight';
 export * from './ModelsResetDialog';
 export * from './PalGenerationSettingsSheet';
 
+export * from './ModelGroupSheet';
 export * from './ModelSettingsSheet';
 export * from './ModelTypeTag';
 export * from './ProjectionModelSelector';
 export * from './RenameModal';
 export * from './ReasoningBlock';
 export * from './ResponseBubble';
+export * from './TokenProbsSheet';
 export * from './Selector';
 export * from './SendButton';
 export * from './SidebarContent';
@@ -62,6 +70,7 @@ export * from './TextMessage';
 export * from './TTSSetupSheet';
 export * from './DownloadOverlay';
 export * from './DownloadProgressCard';
+export * from './ToolApprovalBlock';
 export * from './ToolErrorBlock';
 export * from './ToolMetricsFooter';
 export * from './ToolUsedChip';
@@ -70,9 +79,14 @@ export * from './VideoPalEmptyPlaceholder';
 export * from './VoiceChip';
 export * from './VisionDownloadSheet';
 export * from './WebSearchResultCard';
+export * from './DocumentSearchResultCard';
 
 export * from './PalHeaderRight';
 export * from './InputSlider';
 export * from './MemoryRequirement';
 export * from './RemoteModelSheet';
 export * from './ServerDetailsSheet';
+export * from './McpServerSheet';
+export * from './WebhookToolSheet';
+export * from './DocumentCollectionSheet';
+export * from './PalMemorySheet';
@@ -11,6 +11,10 @@ import {
   UserLibrary,
   SyncStatus,
   LocalPal,
+  Document,
+  DocumentChunk,
+  PalMemory,
+  MessageSearchEntry,
 } from './models';
 
 const adapter = new SQLiteAdapter({
@@ -34,6 +38,10 @@ export const database = new Database({
     UserLibrary,
     SyncStatus,
     LocalPal,
+    Document,
+    DocumentChunk,
+    PalMemory,
+    MessageSearchEntry,
   ],
 });
 
@@ -46,4 +54,8 @@ export {
   UserLibrary,
   SyncStatus,
   LocalPal,
+  Document,
+  DocumentChunk,
+  PalMemory,
+  MessageSearchEntry,
 };
@@ -2,6 +2,7 @@ import {
   schemaMigrations,
   createTable,
   addColumns,
+  unsafeExecuteSql,
 } from '@nozbe/watermelondb/Schema/migrations';
 
 export default schemaMigrations({
@@ -153,5 +154,105 @@ export default schemaMigrations({
         }),
       ],
     },
+    // Migration to version 9: Add documents and document_chunks tables
+    {
+      toVersion: 9,
+      steps: [
+        createTable({
+          name: 'documents',
+          columns: [
+            {name: 'collection_id', type: 'string', isIndexed: true},
+            {name: 'title', type: 'string'},
+            {name: 'source', type: 'string', isOptional: true},
+            {name: 'char_count', type: 'number'},
+            {name: 'chunk_count', type: 'number'},
+            {name: 'embedding_model', type: 'string'},
+            {name: 'created_at', type: 'number'},
+            {name: 'updated_at', type: 'number'},
+          ],
+        }),
+        createTable({
+          name: 'document_chunks',
+          columns: [
+            {name: 'document_id', type: 'string', isIndexed: true},
+            {name: 'collection_id', type: 'string', isIndexed: true},
+            {name: 'position', type: 'number'},
+            {name: 'text', type: 'string'},
+            {name: 'embedding', type: 'string'}, // JSON stringified number[]
+          ],
+        }),
+      ],
+    },
+    // Migration to version 10: Add pal_memories table
+    {
+      toVersion: 10,
+      steps: [
+        createTable({
+          name: 'pal_memories',
+          columns: [
+            {name: 'pal_id', type: 'string', isIndexed: true},
+            {name: 'content', type: 'string'},
+            {name: 'created_at', type: 'number'},
+            {name: 'updated_at', type: 'number'},
+          ],
+        }),
+      ],
+    },
+    // Migration to version 11: Add parent_id to messages for conversation
+    // branches. Existing conversations are linear, so each message is
+    // linked to the one before it.
+    {
+      toVersion: 11,
+      steps: [
+        addColumns({
+          table: 'messages',
+          columns: [{name: 'parent_id', type: 'string', isOptional: true}],
+        }),
+        unsafeExecuteSql(
+          `UPDATE messages SET parent_id = (
+            SELECT previous.id FROM messages AS previous
+            WHERE previous.session_id = messages.session_id
+              AND previous.position < messages.position
+            ORDER BY previous.position DESC LIMIT 1
+          );`,
+        ),
+      ],
+    },
+    // Migration to version 12: Add message_search table for searching
+    // across chats. Existing messages are indexed on the next launch.
+    {
+      toVersion: 12,
+      steps: [
+        createTable({
+          name: 'message_search',
+          columns: [
+            {name: 'message_id', type: 'string', isIndexed: true},
+            {name: 'session_id', type: 'string', isIndexed: true},
+            {
+              name: 'model_id',
+              type: 'string',
+              isOptional: true,
+              isIndexed: true,
+            },
+            {name: 'content', type: 'string'},
+            {name: 'terms', type: 'string'},
+            {name: 'created_at', type: 'number'},
+          ],
+        }),
+      ],
+    },
+    // Migration to version 13: Add lora_adapters column for LoRA adapters
+    // a pal pins
+    {
+      toVersion: 13,
+      steps: [
+        addColumns({
+          table: 'local_pals',
+          columns: [
+            {name: 'lora_adapters', type: 'string', isOptional: true}, // JSON stringified LoraAdapterSetting[]
+          ],
+        }),
+      ],
+    },
   ],
 });
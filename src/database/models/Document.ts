@@ -0,0 +1,19 @@
+import {Model} from '@nozbe/watermelondb';
+import {field, text} from '@nozbe/watermelondb/decorators';
+
+export default class Document extends Model {
+  static table = 'documents';
+
+  static associations = {
+    document_chunks: {type: 'has_many' as const, foreignKey: 'document_id'},
+  };
+
+  @text('collection_id') collectionId!: string;
+  @text('title') title!: string;
+  @text('source') source?: string;
+  @field('char_count') charCount!: number;
+  @field('chunk_count') chunkCount!: number;
+  @text('embedding_model') embeddingModel!: string;
+  @field('created_at') createdAt!: number;
+  @field('updated_at') updatedAt!: number;
+}
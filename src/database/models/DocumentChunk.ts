@@ -0,0 +1,25 @@
+import {Model} from '@nozbe/watermelondb';
+import {field, text} from '@nozbe/watermelondb/decorators';
+
+export default class DocumentChunk extends Model {
+  static table = 'document_chunks';
+
+  static associations = {
+    documents: {type: 'belongs_to' as const, key: 'document_id'},
+  };
+
+  @text('document_id') documentId!: string;
+  @text('collection_id') collectionId!: string;
+  @field('position') position!: number;
+  @text('text') text!: string;
+  @field('embedding') embedding!: string;
+
+  getEmbedding(): number[] {
+    try {
+      return JSON.parse(this.embedding);
+    } catch (error) {
+      console.error('Error parsing chunk embedding:', error);
+      return [];
+    }
+  }
+}
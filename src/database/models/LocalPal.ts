@@ -6,7 +6,7 @@ import type {
   ParameterDefinition,
   TalentRef,
 } from '../../types/pal';
-import type {Model as LlamaModel} from '../../utils/types';
+import type {LoraAdapterSetting, Model as LlamaModel} from '../../utils/types';
 import {CompletionParams} from '../../utils/completionTypes';
 
 export default class LocalPal extends Model {
@@ -39,6 +39,7 @@ export default class LocalPal extends Model {
   @field('generation_settings') generationSettings?: string; // JSON stringified
   @field('pact') pact?: string; // JSON stringified { talents: TalentRef[] }
   @field('greeting') greeting?: string; // JSON stringified Pal['greeting']
+  @field('lora_adapters') loraAdapters?: string; // JSON stringified LoraAdapterSetting[]
   @readonly @date('created_at') createdAt!: Date;
   @readonly @date('updated_at') updatedAt!: Date;
 
@@ -133,6 +134,14 @@ export default class LocalPal extends Model {
     }
   }
 
+  get loraAdaptersArray(): LoraAdapterSetting[] | undefined {
+    try {
+      return this.loraAdapters ? JSON.parse(this.loraAdapters) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   get generationSettingsObject(): Record<string, unknown> | undefined {
     try {
       return this.generationSettings
@@ -204,6 +213,7 @@ export default class LocalPal extends Model {
       completionSettings: this.completionSettingsObject,
       pact: this.pactObject,
       greeting: this.greetingObject,
+      loraAdapters: this.loraAdaptersArray,
       created_at: this.createdAt.toISOString(),
       updated_at: this.updatedAt.toISOString(),
     };
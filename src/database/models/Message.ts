@@ -16,6 +16,7 @@ export default class Message extends Model {
   @field('created_at') createdAt!: number;
   @field('metadata') metadata!: string;
   @field('position') position!: number;
+  @text('parent_id') parentId?: string;
 
   toMessageObject(): MessageType.Any {
     const rawMetadata = JSON.parse(this.metadata || '{}');
@@ -28,6 +29,7 @@ export default class Message extends Model {
     if (this.type === 'text') {
       return {
         id: this.id,
+        parentId: this.parentId || undefined,
         type: 'text',
         text: this.text || '',
         author,
@@ -50,6 +52,7 @@ export default class Message extends Model {
       const steps: AgentStep[] = Array.isArray(liftedSteps) ? liftedSteps : [];
       return {
         id: this.id,
+        parentId: this.parentId || undefined,
         type: 'assistant_turn',
         author,
         createdAt: this.createdAt,
@@ -60,6 +63,7 @@ export default class Message extends Model {
 
     return {
       id: this.id,
+      parentId: this.parentId || undefined,
       type: this.type as any,
       author,
       createdAt: this.createdAt,
@@ -0,0 +1,13 @@
+import {Model} from '@nozbe/watermelondb';
+import {field, text} from '@nozbe/watermelondb/decorators';
+
+export default class MessageSearchEntry extends Model {
+  static table = 'message_search';
+
+  @text('message_id') messageId!: string;
+  @text('session_id') sessionId!: string;
+  @text('model_id') modelId?: string;
+  @text('content') content!: string;
+  @text('terms') terms!: string;
+  @field('created_at') createdAt!: number;
+}
@@ -0,0 +1,11 @@
+import {Model} from '@nozbe/watermelondb';
+import {field, text} from '@nozbe/watermelondb/decorators';
+
+export default class PalMemory extends Model {
+  static table = 'pal_memories';
+
+  @text('pal_id') palId!: string;
+  @text('content') content!: string;
+  @field('created_at') createdAt!: number;
+  @field('updated_at') updatedAt!: number;
+}
@@ -6,6 +6,10 @@ import CachedPal from './CachedPal';
 import UserLibrary from './UserLibrary';
 import SyncStatus from './SyncStatus';
 import LocalPal from './LocalPal';
+import Document from './Document';
+import DocumentChunk from './DocumentChunk';
+import PalMemory from './PalMemory';
+import MessageSearchEntry from './MessageSearchEntry';
 
 export {
   ChatSession,
@@ -16,4 +20,8 @@ export {
   UserLibrary,
   SyncStatus,
   LocalPal,
+  Document,
+  DocumentChunk,
+  PalMemory,
+  MessageSearchEntry,
 };
@@ -1,7 +1,7 @@
 import {appSchema, tableSchema} from '@nozbe/watermelondb';
 
 export default appSchema({
-  version: 8,
+  version: 13,
   tables: [
     tableSchema({
       name: 'chat_sessions',
@@ -25,6 +25,7 @@ export default appSchema({
         {name: 'created_at', type: 'number'},
         {name: 'metadata', type: 'string'}, // JSON stringified
         {name: 'position', type: 'number'}, // For ordering
+        {name: 'parent_id', type: 'string', isOptional: true}, // Branch tree; null for a root
       ],
     }),
     tableSchema({
@@ -127,9 +128,55 @@ export default appSchema({
         {name: 'generation_settings', type: 'string', isOptional: true}, // JSON stringified
         {name: 'pact', type: 'string', isOptional: true}, // JSON stringified { talents: TalentRef[] }
         {name: 'greeting', type: 'string', isOptional: true}, // JSON stringified Pal['greeting']
+        {name: 'lora_adapters', type: 'string', isOptional: true}, // JSON stringified LoraAdapterSetting[]
         {name: 'created_at', type: 'number'},
         {name: 'updated_at', type: 'number'},
       ],
     }),
+    // Imported documents and their embedded chunks, for search_documents
+    tableSchema({
+      name: 'documents',
+      columns: [
+        {name: 'collection_id', type: 'string', isIndexed: true},
+        {name: 'title', type: 'string'},
+        {name: 'source', type: 'string', isOptional: true}, // file name the text came from
+        {name: 'char_count', type: 'number'},
+        {name: 'chunk_count', type: 'number'},
+        {name: 'embedding_model', type: 'string'}, // model id the chunks were embedded with
+        {name: 'created_at', type: 'number'},
+        {name: 'updated_at', type: 'number'},
+      ],
+    }),
+    tableSchema({
+      name: 'document_chunks',
+      columns: [
+        {name: 'document_id', type: 'string', isIndexed: true},
+        {name: 'collection_id', type: 'string', isIndexed: true},
+        {name: 'position', type: 'number'},
+        {name: 'text', type: 'string'},
+        {name: 'embedding', type: 'string'}, // JSON stringified number[]
+      ],
+    }),
+    tableSchema({
+      name: 'pal_memories',
+      columns: [
+        {name: 'pal_id', type: 'string', isIndexed: true},
+        {name: 'content', type: 'string'},
+        {name: 'created_at', type: 'number'},
+        {name: 'updated_at', type: 'number'},
+      ],
+    }),
+    // Search text for each message, kept in sync by ChatSessionRepository
+    tableSchema({
+      name: 'message_search',
+      columns: [
+        {name: 'message_id', type: 'string', isIndexed: true},
+        {name: 'session_id', type: 'string', isIndexed: true},
+        {name: 'model_id', type: 'string', isOptional: true, isIndexed: true},
+        {name: 'content', type: 'string'}, // text shown in result snippets
+        {name: 'terms', type: 'string'}, // content folded for matching
+        {name: 'created_at', type: 'number'}, // the message's createdAt
+      ],
+    }),
   ],
 });
@@ -140,6 +140,54 @@ describe('useChatSession — AssistantTurn integration', () => {
     warnSpy.mockRestore();
   });
 
+  it('#2b run_finished stores bounded token probabilities when the engine returns them', async () => {
+    if (modelStore.context) {
+      modelStore.context.completion = jest.fn().mockResolvedValue({
+        text: 'Hi',
+        content: 'Hi',
+        token_probs: [
+          {token: 'Hi', prob: 0.912345, top: [{token: 'Hi', prob: 0.912345}]},
+        ],
+      });
+    }
+    const {result} = renderHook(() =>
+      useChatSession({current: null}, textMessage.author, mockAssistant),
+    );
+    await act(async () => {
+      await result.current.handleSendPress(textMessage);
+    });
+
+    const calls = (chatSessionStore.updateMessage as jest.Mock).mock.calls;
+    const finishCall = calls.find(c => c[2]?.metadata?.tokenProbs);
+    expect(finishCall![2].metadata.tokenProbs).toEqual([
+      {token: 'Hi', prob: 0.9123, top: [{token: 'Hi', prob: 0.9123}]},
+    ]);
+  });
+
+  it('#2c run_finished records the backend a model group answered from', async () => {
+    const backend = {
+      modelId: 'server-2/qwen3-8b',
+      name: 'Cloud box',
+      serverId: 'server-2',
+      isLocal: false,
+    };
+    if (modelStore.context) {
+      modelStore.context.completion = jest
+        .fn()
+        .mockResolvedValue({text: 'Hi', content: 'Hi', backend});
+    }
+    const {result} = renderHook(() =>
+      useChatSession({current: null}, textMessage.author, mockAssistant),
+    );
+    await act(async () => {
+      await result.current.handleSendPress(textMessage);
+    });
+
+    const calls = (chatSessionStore.updateMessage as jest.Mock).mock.calls;
+    const finishCall = calls.find(c => c[2]?.metadata?.backend);
+    expect(finishCall![2].metadata.backend).toEqual(backend);
+  });
+
   it('#3 run_failed: error rollback writes {interrupted, copyable} into assistant_turn metadata (does not lose steps)', async () => {
     // Engine throws — runner emits run_failed. Silence the expected
     // console.error so the test output stays clean.
@@ -491,6 +539,94 @@ describe('useChatSession — AssistantTurn integration', () => {
     (talentRegistry as any).engines.delete('calculate');
   });
 
+  it("#hookTest1b 'ask' approval on the pal's talent routes through the store prompt", async () => {
+    const execute = jest.fn(async () => ({type: 'text', summary: '4'}));
+    talentRegistry.register({
+      name: 'calculate',
+      execute,
+      toToolDefinition: () => ({
+        type: 'function',
+        function: {name: 'calculate', description: '', parameters: {}},
+      }),
+    } as TalentEngine);
+    palStore.pals = [
+      {
+        id: 'pal-1',
+        type: 'local',
+        name: 'Calc Pal',
+        systemPrompt: '',
+        parameters: {},
+        parameterSchema: [],
+        isSystemPromptChanged: false,
+        useAIPrompt: false,
+        source: 'local',
+        pact: {
+          talents: [
+            {name: 'calculate', necessity: 'optional', approval: 'ask'},
+          ],
+        },
+      } as any,
+    ];
+    chatSessionStore.sessions = [
+      {
+        id: 'session-1',
+        title: '',
+        date: '',
+        messages: [],
+        completionSettings: {},
+        settingsSource: 'pal',
+        activePalId: 'pal-1',
+      } as any,
+    ];
+    chatSessionStore.activeSessionId = 'session-1';
+    (chatSessionStore.requestToolApproval as jest.Mock).mockResolvedValueOnce(
+      false,
+    );
+
+    let turnIndex = 0;
+    if (modelStore.context) {
+      modelStore.context.completion = jest.fn().mockImplementation(async () => {
+        turnIndex += 1;
+        if (turnIndex === 1) {
+          return {
+            text: '',
+            content: '',
+            tool_calls: [
+              {
+                id: 'c0',
+                type: 'function',
+                function: {name: 'calculate', arguments: '{}'},
+              },
+            ],
+          };
+        }
+        return {text: 'ok', content: 'ok'};
+      });
+    }
+
+    const {result} = renderHook(() =>
+      useChatSession({current: null}, textMessage.author, mockAssistant),
+    );
+    await act(async () => {
+      await result.current.handleSendPress(textMessage);
+    });
+
+    expect(chatSessionStore.requestToolApproval).toHaveBeenCalledWith(
+      expect.any(String),
+      'c0',
+    );
+    expect(execute).not.toHaveBeenCalled();
+    const outcomeCall = (
+      chatSessionStore.appendToolOutcome as jest.Mock
+    ).mock.calls.find(c => c[2]?.toolName === 'calculate');
+    expect(outcomeCall![2].approval).toEqual({
+      policy: 'ask',
+      decision: 'declined',
+    });
+
+    (talentRegistry as any).engines.delete('calculate');
+  });
+
   it('#hookTest2 tool turn: appendToolCall lands ids that match the upcoming appendToolOutcome callId by construction (per-frame id-match invariant)', async () => {
     // The runner attaches its normalized toolCalls to step_finished;
     // the hook calls appendToolCall with that list before
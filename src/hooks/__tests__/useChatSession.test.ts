@@ -16,6 +16,7 @@ import {isReadUrlAllowed} from '../../services/talents';
 
 import {
   chatSessionStore,
+  localServerStore,
   modelStore,
   palStore,
   serverStore,
@@ -24,8 +25,8 @@ import {
 } from '../../store';
 
 import {l10n} from '../../locales';
-import {assistant} from '../../utils/chat';
-import {ModelOrigin} from '../../utils/types';
+import {assistant, user} from '../../utils/chat';
+import {MessageType, ModelOrigin} from '../../utils/types';
 
 const mockAssistant = {
   id: 'h3o3lc5xj',
@@ -81,6 +82,25 @@ describe('useChatSession', () => {
     expect(modelStore.context?.completion).toHaveBeenCalled();
   });
 
+  it('regenerates a reply without adding the user message again', async () => {
+    const {result} = renderHook(() =>
+      useChatSession({current: null}, textMessage.author, mockAssistant),
+    );
+
+    await act(async () => {
+      await result.current.handleRegeneratePress(textMessage);
+    });
+
+    const added = (
+      chatSessionStore.addMessageToCurrentSession as jest.Mock
+    ).mock.calls.map(([message]) => message);
+    expect(added.length).toBeGreaterThan(0);
+    expect(
+      added.some(message => message.author.id === textMessage.author.id),
+    ).toBe(false);
+    expect(modelStore.context?.completion).toHaveBeenCalled();
+  });
+
   it('should handle model not loaded scenario', async () => {
     modelStore.context = undefined;
     modelStore.engine = undefined;
@@ -198,6 +218,20 @@ describe('useChatSession', () => {
     expect(calls.find(c => c[0] === false)).toBeUndefined();
   });
 
+  it('handleStopPress stops a LAN request that owns the model', async () => {
+    modelStore.setInferencing(true);
+    localServerStore.isRunning = true;
+    const {result} = renderHook(() =>
+      useChatSession({current: null}, textMessage.author, mockAssistant),
+    );
+
+    await result.current.handleStopPress();
+    localServerStore.isRunning = false;
+
+    expect(localServerStore.stopCompletion).toHaveBeenCalled();
+    expect(chatSessionStore.setIsStopping).not.toHaveBeenCalled();
+  });
+
   it('should set inferencing correctly during send', async () => {
     let resolveCompletion: (value: any) => void;
     const completionPromise = new Promise(resolve => {
@@ -957,4 +991,155 @@ describe('useChatSession', () => {
       expect(ttsStore.onAssistantMessageChunk).not.toHaveBeenCalled();
     });
   });
+
+  describe('context strategies', () => {
+    const text = (id: string, author: typeof user): MessageType.Text => ({
+      id,
+      author,
+      createdAt: 0,
+      type: 'text',
+      text: `${id} text`,
+    });
+    // Newest first, as the store keeps them.
+    const history = [
+      text('a3', assistant),
+      text('u3', user),
+      text('a2', assistant),
+      text('u2', user),
+      text('a1', assistant),
+      text('u1', user),
+    ];
+    let baseSettings: any;
+    let prompts: any[][];
+
+    beforeEach(async () => {
+      baseSettings = await chatSessionStore.getCurrentCompletionSettings();
+      jest
+        .spyOn(chatSessionStore, 'currentSessionMessages', 'get')
+        .mockReturnValue(history);
+      chatSessionStore.lastCompletionResult = {
+        content: '',
+        used: 900,
+        contextFull: false,
+        isRemote: false,
+      };
+      modelStore.activeContextSettings = {n_ctx: 1000} as any;
+      prompts = [];
+      modelStore.engine!.completion = jest.fn(async params => {
+        prompts.push(params.messages ?? []);
+        return {text: 'the summary', content: 'the summary'};
+      });
+    });
+
+    afterEach(() => {
+      (
+        chatSessionStore.getCurrentCompletionSettings as jest.Mock
+      ).mockResolvedValue(baseSettings);
+      chatSessionStore.lastCompletionResult = undefined;
+      modelStore.activeContextSettings = undefined;
+    });
+
+    const useStrategy = (strategy: string, extra = {}) => {
+      (
+        chatSessionStore.getCurrentCompletionSettings as jest.Mock
+      ).mockResolvedValue({
+        ...baseSettings,
+        context_strategy: strategy,
+        context_threshold: 0.8,
+        ...extra,
+      });
+    };
+
+    const send = async () => {
+      const {result} = renderHook(() =>
+        useChatSession({current: null}, textMessage.author, mockAssistant),
+      );
+      await act(async () => {
+        await result.current.handleSendPress(textMessage);
+      });
+    };
+
+    it('summarizes older turns before sending once over the threshold', async () => {
+      useStrategy('summarize');
+
+      await send();
+
+      const added = (
+        chatSessionStore.addMessageToCurrentSession as jest.Mock
+      ).mock.calls.map(([message]) => message);
+      expect(added[0]).toMatchObject({
+        type: 'text',
+        text: 'the summary',
+        metadata: {system: true, contextSummary: {throughId: 'a1'}},
+      });
+      expect(added[1].text).toBe(textMessage.text);
+
+      expect(prompts[0][1].content).toContain('User: u1 text');
+      const sent = prompts[1];
+      expect(sent[0].role).toBe('system');
+      expect(sent[0].content).toContain(
+        'Summary of the earlier conversation:\nthe summary',
+      );
+      const contents = sent.map(message => message.content);
+      expect(contents).not.toContain('u1 text');
+      expect(contents).toContain('u2 text');
+    });
+
+    it('does not summarize below the threshold', async () => {
+      useStrategy('summarize');
+      chatSessionStore.lastCompletionResult!.used = 500;
+
+      await send();
+
+      expect(modelStore.engine!.completion).toHaveBeenCalledTimes(1);
+      expect(prompts[0].map(message => message.content)).toContain('u1 text');
+    });
+
+    it('does not summarize when the strategy is off', async () => {
+      useStrategy('off');
+
+      await send();
+
+      expect(modelStore.engine!.completion).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends the full history when summarizing fails', async () => {
+      useStrategy('summarize');
+      (modelStore.engine!.completion as jest.Mock).mockRejectedValueOnce(
+        new Error('busy'),
+      );
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await send();
+
+      expect(prompts[0].map(message => message.content)).toContain('u1 text');
+      warn.mockRestore();
+    });
+
+    it('clears the generating flags when the message cannot be stored', async () => {
+      useStrategy('off');
+      (
+        chatSessionStore.addMessageToCurrentSession as jest.Mock
+      ).mockRejectedValueOnce(new Error('disk full'));
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await send();
+
+      expect(modelStore.inferencing).toBe(false);
+      expect(chatSessionStore.setIsGenerating).toHaveBeenLastCalledWith(false);
+      error.mockRestore();
+    });
+
+    it('leaves out the oldest turns with the sliding window', async () => {
+      useStrategy('sliding_window');
+      // Each history message is about 3 estimated tokens.
+      modelStore.activeContextSettings = {n_ctx: 20} as any;
+
+      await send();
+
+      const contents = prompts[0].map(message => message.content);
+      expect(contents).not.toContain('u1 text');
+      expect(contents[contents.length - 1]).toBe(textMessage.text);
+    });
+  });
 });
@@ -14,7 +14,7 @@ jest.mock('@react-native-clipboard/clipboard', () => ({
 
 describe('useMessageActions', () => {
   const mockSetInputText = jest.fn();
-  const mockHandleSendPress = jest.fn();
+  const mockHandleRegeneratePress = jest.fn();
   const messages = [
     {
       ...textMessage,
@@ -39,7 +39,7 @@ describe('useMessageActions', () => {
       useMessageActions({
         user,
         messages,
-        handleSendPress: mockHandleSendPress,
+        handleRegeneratePress: mockHandleRegeneratePress,
         setInputText: mockSetInputText,
       }),
     );
@@ -60,7 +60,7 @@ describe('useMessageActions', () => {
       useMessageActions({
         user,
         messages,
-        handleSendPress: mockHandleSendPress,
+        handleRegeneratePress: mockHandleRegeneratePress,
         setInputText: mockSetInputText,
       }),
     );
@@ -86,7 +86,7 @@ describe('useMessageActions', () => {
       useMessageActions({
         user,
         messages,
-        handleSendPress: mockHandleSendPress,
+        handleRegeneratePress: mockHandleRegeneratePress,
         setInputText: mockSetInputText,
       }),
     );
@@ -106,12 +106,12 @@ describe('useMessageActions', () => {
   });
 
   describe('handleTryAgain', () => {
-    it('resubmits user message', async () => {
+    it('answers a user message again', async () => {
       const {result} = renderHook(() =>
         useMessageActions({
           user,
           messages,
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
@@ -128,17 +128,14 @@ describe('useMessageActions', () => {
         await result.current.handleTryAgain(userMessage);
       });
 
-      expect(chatSessionStore.removeMessagesFromId).toHaveBeenCalledWith(
-        '1',
-        true,
-      );
-      expect(mockHandleSendPress).toHaveBeenCalledWith({
+      expect(chatSessionStore.removeMessagesFromId).not.toHaveBeenCalled();
+      expect(mockHandleRegeneratePress).toHaveBeenCalledWith({
         text: 'Try again with this',
         type: 'text',
       });
     });
 
-    it('resubmits last user message when retrying assistant message', async () => {
+    it('branches off the reply when retrying an assistant message', async () => {
       const _messages = [
         {
           ...textMessage,
@@ -160,20 +157,18 @@ describe('useMessageActions', () => {
         useMessageActions({
           user,
           messages: _messages,
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
 
       await act(async () => {
-        await result.current.handleTryAgain(_messages[1]);
+        await result.current.handleTryAgain(_messages[0]);
       });
 
-      expect(chatSessionStore.removeMessagesFromId).toHaveBeenCalledWith(
-        '1',
-        true,
-      );
-      expect(mockHandleSendPress).toHaveBeenCalledWith({
+      expect(chatSessionStore.branchFrom).toHaveBeenCalledWith('2');
+      expect(chatSessionStore.removeMessagesFromId).not.toHaveBeenCalled();
+      expect(mockHandleRegeneratePress).toHaveBeenCalledWith({
         text: 'User message',
         type: 'text',
       });
@@ -186,7 +181,7 @@ describe('useMessageActions', () => {
         useMessageActions({
           user,
           messages,
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
@@ -198,8 +193,7 @@ describe('useMessageActions', () => {
       });
 
       expect(modelStore.selectModel).not.toHaveBeenCalled();
-      expect(chatSessionStore.removeMessagesFromId).toHaveBeenCalled();
-      expect(mockHandleSendPress).toHaveBeenCalled();
+      expect(mockHandleRegeneratePress).toHaveBeenCalled();
     });
 
     it('initializes new model if model ID differs', async () => {
@@ -207,7 +201,7 @@ describe('useMessageActions', () => {
         useMessageActions({
           user,
           messages,
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
@@ -222,8 +216,7 @@ describe('useMessageActions', () => {
       });
 
       expect(modelStore.selectModel).toHaveBeenCalled();
-      expect(chatSessionStore.removeMessagesFromId).toHaveBeenCalled();
-      expect(mockHandleSendPress).toHaveBeenCalled();
+      expect(mockHandleRegeneratePress).toHaveBeenCalled();
     });
   });
 
@@ -258,7 +251,7 @@ describe('useMessageActions', () => {
         useMessageActions({
           user,
           messages: [userMsg, turnSingle],
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
@@ -277,7 +270,7 @@ describe('useMessageActions', () => {
         useMessageActions({
           user,
           messages: [userMsg, turnSingle],
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
@@ -292,7 +285,7 @@ describe('useMessageActions', () => {
         useMessageActions({
           user,
           messages: [userMsg, turnMulti],
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
@@ -309,7 +302,7 @@ describe('useMessageActions', () => {
         useMessageActions({
           user,
           messages: [turnSingle],
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
@@ -329,18 +322,15 @@ describe('useMessageActions', () => {
         useMessageActions({
           user,
           messages: messageList,
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
       await act(async () => {
         await result.current.handleTryAgain(turnMulti);
       });
-      expect(chatSessionStore.removeMessagesFromId).toHaveBeenCalledWith(
-        'u-1',
-        true,
-      );
-      expect(mockHandleSendPress).toHaveBeenCalledWith({
+      expect(chatSessionStore.branchFrom).toHaveBeenCalledWith('t-2');
+      expect(mockHandleRegeneratePress).toHaveBeenCalledWith({
         text: 'What is 2+2?',
         type: 'text',
       });
@@ -353,18 +343,15 @@ describe('useMessageActions', () => {
         useMessageActions({
           user,
           messages: messageList,
-          handleSendPress: mockHandleSendPress,
+          handleRegeneratePress: mockHandleRegeneratePress,
           setInputText: mockSetInputText,
         }),
       );
       await act(async () => {
         await result.current.handleTryAgainWith('model-1', turnMulti);
       });
-      expect(chatSessionStore.removeMessagesFromId).toHaveBeenCalledWith(
-        'u-1',
-        true,
-      );
-      expect(mockHandleSendPress).toHaveBeenCalledWith({
+      expect(chatSessionStore.branchFrom).toHaveBeenCalledWith('t-2');
+      expect(mockHandleRegeneratePress).toHaveBeenCalledWith({
         text: 'What is 2+2?',
         type: 'text',
       });
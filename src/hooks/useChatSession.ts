@@ -9,6 +9,7 @@ import {randId} from '../utils';
 import {L10nContext} from '../utils';
 import {
   chatSessionStore,
+  localServerStore,
   modelStore,
   palStore,
   serverStore,
@@ -24,10 +25,23 @@ import {
   resolveSystemMessages,
 } from '../utils/systemPromptResolver';
 import {convertToChatMessages, removeThinkingParts} from '../utils/chat';
+import {
+  applyContextStrategy,
+  buildSummaryPrompt,
+  isOverThreshold,
+  latestContextSummary,
+  pickMessagesToSummarize,
+  summaryPromptFragment,
+  SUMMARY_MAX_TOKENS,
+  withContextSummary,
+} from '../utils/contextStrategy';
+import {defaultCompletionParams} from '../utils/completionSettingsVersions';
 import {activateKeepAwake, deactivateKeepAwake} from '../utils/keepAwake';
+import {boundTokenProbs} from '../utils/tokenProbs';
 import {
   toApiCompletionParams,
   ApiCompletionParams,
+  CompletionEngine,
   CompletionParams,
   CompletionResult,
   CompletionResultSnapshot,
@@ -61,6 +75,7 @@ const prepareCompletion = async ({
   isMultimodalEnabled,
   l10n,
   currentMessages,
+  palId,
 }: {
   imageUris: string[];
   message: MessageType.PartialText;
@@ -71,6 +86,7 @@ const prepareCompletion = async ({
   isMultimodalEnabled: boolean;
   l10n: any;
   currentMessages: MessageType.Any[];
+  palId?: string;
 }) => {
   const sessionCompletionSettings =
     await chatSessionStore.getCurrentCompletionSettings();
@@ -104,13 +120,17 @@ const prepareCompletion = async ({
     }
   }
 
+  // Messages covered by a context summary are replaced by the summary,
+  // which rides along as a system prompt fragment.
+  const {history, summary} = withContextSummary(currentMessages);
+
   // Convert chat session messages to llama.rn format. Filtering
   // image-typed messages happens here (multimodal user messages carry
   // their images via imageUris on the Text row, not a separate Image
   // message). AssistantTurn rows pass through to convertToChatMessages,
   // which expands each step into assistant + tool API messages.
   let chatMessages = convertToChatMessages(
-    currentMessages.filter(msg => msg.type !== 'image'),
+    history.filter(msg => msg.type !== 'image'),
     isMultimodalEnabled,
   );
 
@@ -138,12 +158,26 @@ const prepareCompletion = async ({
   const systemPromptFragments = collectSystemPromptFragments(sessionToolNames, {
     now: new Date(),
     maxToolTurns: DEFAULT_MAX_TURNS,
+    palId,
+    userMessage: message.text,
   });
 
-  const messages = assembleMessages(systemMessages, systemPromptFragments, [
-    ...chatMessages,
-    {role: 'user', content: userMessageContent},
-  ]);
+  const messages = applyContextStrategy(
+    assembleMessages(
+      systemMessages,
+      summary
+        ? [...systemPromptFragments, summaryPromptFragment(summary)]
+        : systemPromptFragments,
+      [...chatMessages, {role: 'user', content: userMessageContent}],
+    ),
+    {
+      strategy: sessionCompletionSettings?.context_strategy ?? 'off',
+      nCtx: modelStore.activeContextSettings?.n_ctx,
+      threshold:
+        sessionCompletionSettings?.context_threshold ??
+        defaultCompletionParams.context_threshold!,
+    },
+  );
 
   // Reseed the read_url exfiltration allowlist for this run; the trust policy
   // (which sources count) lives in the talents module.
@@ -204,6 +238,8 @@ const prepareCompletion = async ({
     metadata: {
       contextId,
       conversationId: conversationIdRef,
+      // Lets a search across chats filter by model.
+      modelId: modelStore.activeModelId,
       // copyable is intentionally absent here: the turn footer's copy
       // button renders iff metadata.copyable is set, and at this point
       // the turn has nothing worth copying yet. It is set later at
@@ -224,6 +260,85 @@ const prepareCompletion = async ({
   return {cleanCompletionParams, messageInfo};
 };
 
+// Summarize older turns before the next prompt when the session uses the
+// `summarize` context strategy and the last reply crossed its threshold.
+// The summary is stored as a system-side message on the active path and
+// the messages to send are returned with it. A failed summary only costs
+// the summary: the prompt then carries the full history.
+const summarizeContextIfNeeded = async ({
+  engine,
+  assistant,
+  currentMessages,
+  signal,
+}: {
+  engine: CompletionEngine;
+  assistant: User;
+  currentMessages: MessageType.Any[];
+  signal: AbortSignal;
+}): Promise<MessageType.Any[]> => {
+  const snapshot = chatSessionStore.lastCompletionResult;
+  const nCtx = modelStore.activeContextSettings?.n_ctx;
+  if (!snapshot || !nCtx) {
+    return currentMessages;
+  }
+  const settings = await chatSessionStore.getCurrentCompletionSettings();
+  if (
+    settings?.context_strategy !== 'summarize' ||
+    !isOverThreshold(
+      snapshot,
+      nCtx,
+      settings.context_threshold ?? defaultCompletionParams.context_threshold!,
+    )
+  ) {
+    return currentMessages;
+  }
+  const picked = pickMessagesToSummarize(currentMessages);
+  if (!picked) {
+    return currentMessages;
+  }
+
+  const stop = () => {
+    engine.stopCompletion().catch(() => {});
+  };
+  signal.addEventListener('abort', stop);
+  try {
+    const result = await engine.completion({
+      messages: buildSummaryPrompt(
+        latestContextSummary(currentMessages)?.text,
+        picked.messages,
+      ),
+      n_predict: SUMMARY_MAX_TOKENS,
+      temperature: 0.3,
+      stop: toJS(modelStore.activeModel?.stopWords),
+      enable_thinking: false,
+    });
+    const text = removeThinkingParts(
+      result.content || result.text || '',
+    ).trim();
+    if (!text || signal.aborted) {
+      return currentMessages;
+    }
+    const summary: MessageType.Text = {
+      author: assistant,
+      createdAt: Date.now(),
+      id: '', // populated by addMessageToCurrentSession
+      text,
+      type: 'text',
+      metadata: {
+        system: true,
+        contextSummary: {throughId: picked.throughId},
+      },
+    };
+    await chatSessionStore.addMessageToCurrentSession(summary);
+    return [summary, ...currentMessages];
+  } catch (error) {
+    console.warn('[useChatSession] context summary failed:', error);
+    return currentMessages;
+  } finally {
+    signal.removeEventListener('abort', stop);
+  }
+};
+
 // Per-run TTS streaming state. The runner emits CUMULATIVE content/
 // reasoning on each `token` event (mirroring llama.rn's callback
 // semantics); the TTS streaming hooks expect per-call deltas, so we
@@ -393,6 +508,11 @@ async function applyEventToStore(
       // Reducer handles status flip; the call payload is already on
       // the active step from the preceding `token` event with toolCalls.
       return;
+    case 'tool_approval_requested':
+    case 'tool_approval_resolved':
+      // Reducer handles status flip; the prompt itself is driven by
+      // `requestApproval` and the decision lands on the outcome.
+      return;
     case 'tool_call_finished':
       await chatSessionStore.appendToolOutcome(
         ctx.messageId,
@@ -424,6 +544,7 @@ async function applyEventToStore(
         modelStore.activeContextSettings?.n_ctx,
         modelStore.activeModel?.origin === ModelOrigin.REMOTE,
       );
+      const tokenProbs = boundTokenProbs(finalResult.token_probs);
       const draftTimings =
         finalResult.draft_tokens != null && finalResult.draft_tokens > 0
           ? {
@@ -442,6 +563,10 @@ async function applyEventToStore(
           multimodal: ctx.hasImages && ctx.isMultimodalEnabled,
           completionResult: snapshot,
           ...(event.result.hitMaxTurns ? {hitMaxTurns: true} : {}),
+          // Only there when the session asked for n_probs.
+          ...(tokenProbs ? {tokenProbs} : {}),
+          // Only a model group says which of its backends answered.
+          ...(finalResult.backend ? {backend: finalResult.backend} : {}),
         },
       });
       chatSessionStore.recordCompletionSnapshot(snapshot);
@@ -511,7 +636,15 @@ export const useChatSession = (
     await addMessage(textMessage);
   };
 
-  const handleSendPress = async (message: MessageType.PartialText) => {
+  /**
+   * Send `message` and run the assistant on it. With `regenerate` the
+   * message is already the newest on the active path (see
+   * `useMessageActions.handleTryAgain`), so only a new reply is added.
+   */
+  const handleSendPress = async (
+    message: MessageType.PartialText,
+    {regenerate = false}: {regenerate?: boolean} = {},
+  ) => {
     const engine = modelStore.engine;
     if (!engine) {
       await addSystemMessage(l10n.chat.modelNotLoaded);
@@ -529,26 +662,49 @@ export const useChatSession = (
 
     const isMultimodalEnabled = modelStore.activeModelCaps.visionActive;
 
-    const currentMessages = toJS(chatSessionStore.currentSessionMessages);
+    const sessionMessages = toJS(chatSessionStore.currentSessionMessages);
+    let currentMessages = regenerate
+      ? sessionMessages.slice(1)
+      : sessionMessages;
 
-    const textMessage: MessageType.Text = {
-      author: user,
-      createdAt: Date.now(),
-      id: '',
-      text: message.text,
-      type: 'text',
-      imageUris: hasImages ? imageUris : undefined,
-      metadata: {
-        contextId,
-        conversationId: conversationIdRef.current,
-        copyable: true,
-        multimodal: hasImages,
-      },
-    };
-    await addMessage(textMessage);
     modelStore.setInferencing(true);
     modelStore.setIsStreaming(false);
     chatSessionStore.setIsGenerating(true);
+    abortRef.current = new AbortController();
+
+    if (!regenerate) {
+      try {
+        // A context summary goes in before the new message, which replies to it.
+        currentMessages = await summarizeContextIfNeeded({
+          engine,
+          assistant,
+          currentMessages,
+          signal: abortRef.current.signal,
+        });
+        const textMessage: MessageType.Text = {
+          author: user,
+          createdAt: Date.now(),
+          id: '',
+          text: message.text,
+          type: 'text',
+          imageUris: hasImages ? imageUris : undefined,
+          metadata: {
+            contextId,
+            conversationId: conversationIdRef.current,
+            copyable: true,
+            multimodal: hasImages,
+          },
+        };
+        await addMessage(textMessage);
+      } catch (error) {
+        // No reply exists yet to carry the error; just let the user retry.
+        console.error('Failed to add message:', error);
+        modelStore.setInferencing(false);
+        chatSessionStore.setIsGenerating(false);
+        chatSessionStore.setIsStopping(false);
+        return;
+      }
+    }
 
     try {
       activateKeepAwake();
@@ -578,6 +734,7 @@ export const useChatSession = (
       isMultimodalEnabled,
       l10n,
       currentMessages,
+      palId: pal?.id,
     });
 
     currentMessageInfo.current = messageInfo;
@@ -585,8 +742,13 @@ export const useChatSession = (
     // Allowed talent names for this Pal. The runner rejects any
     // tool call whose function.name isn't in this list.
     const palTalents = (pal?.pact?.talents ?? []).map(t => t.name);
+    const approvalPolicies = new Map(
+      (pal?.pact?.talents ?? []).map(t => [t.name, t.approval ?? 'always']),
+    );
+    const talentRefs = new Map(
+      (pal?.pact?.talents ?? []).map(t => [t.name, t]),
+    );
 
-    abortRef.current = new AbortController();
     const completionStartTime = Date.now();
     const timeToFirstTokenMs: {value: number | null} = {value: null};
     const tts: TtsRunState = {
@@ -617,6 +779,8 @@ export const useChatSession = (
     // turn (caught + warned, but noisy).
     const localContext = modelStore.context;
     if (localContext) {
+      // The Pal's pinned LoRA adapters replace the model's own for its turns
+      await modelStore.syncLoraAdapters(pal?.loraAdapters);
       try {
         triggerMarkers = await triggerCacheRef.current.getMarkers(
           String(localContext.id),
@@ -642,6 +806,11 @@ export const useChatSession = (
         triggerMarkers,
         messageId: messageInfo.id,
         signal: abortRef.current.signal,
+        approvalPolicyFor: name => approvalPolicies.get(name) ?? 'always',
+        requestApproval: call =>
+          chatSessionStore.requestToolApproval(messageInfo.id, call.id),
+        talentRefFor: name => talentRefs.get(name),
+        palId: pal?.id,
       });
 
       // The chunk-cycle would otherwise run entirely via microtask
@@ -681,6 +850,7 @@ export const useChatSession = (
           case 'run_started':
           case 'step_started':
           case 'tool_call_started':
+          case 'tool_approval_requested':
           case 'run_finished':
           case 'run_failed':
             toolCallTokensRaw = 0;
@@ -735,6 +905,7 @@ export const useChatSession = (
       // stuck in a failed state across the next user message.
       chatSessionStore.setAgentUiState(initialAgentUiState);
       chatSessionStore.setToolCallTokenCount(0);
+      chatSessionStore.cancelToolApproval();
 
       // Stop any in-flight TTS — the completion errored, so buffered
       // audio should not keep playing.
@@ -899,6 +1070,13 @@ export const useChatSession = (
   };
 
   const handleStopPress = async () => {
+    // This chat isn't generating, so the model is busy with a request from
+    // the LAN server: stop that one. There is no runner here to clear
+    // `isStopping`, so it is left alone.
+    if (!chatSessionStore.isGenerating && localServerStore.isRunning) {
+      await localServerStore.stopCompletion();
+      return;
+    }
     // Enter the `stopping` state IMMEDIATELY: the user gets visible
     // feedback ("Stopping…") and the send button is gated off so a
     // new completion can't try to use the still-busy native context.
@@ -908,8 +1086,11 @@ export const useChatSession = (
     // its current llama_decode chunk; see ChatSessionStore.isStopping
     // for the rationale).
     chatSessionStore.setIsStopping(true);
-    // The runner's abort listener owns engine.stopCompletion — this
-    // signal is the single source of stop intent.
+    // An open approval prompt has nothing left to approve.
+    chatSessionStore.cancelToolApproval();
+    // The runner's abort listener owns engine.stopCompletion and the
+    // running talents' own signals — this signal is the single source
+    // of stop intent.
     abortRef.current?.abort();
     // Stop any in-flight TTS so buffered audio doesn't keep playing
     // after the user tapped Stop. Inferencing/isStreaming/isGenerating
@@ -932,8 +1113,12 @@ export const useChatSession = (
     }
   };
 
+  const handleRegeneratePress = (message: MessageType.PartialText) =>
+    handleSendPress(message, {regenerate: true});
+
   return {
     handleSendPress,
+    handleRegeneratePress,
     handleResetConversation,
     handleStopPress,
   };
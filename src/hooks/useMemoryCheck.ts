@@ -67,7 +67,7 @@ export const hasEnoughMemory = async (
   const memoryRequirement = getModelMemoryRequirement(
     modelForCalc,
     projectionModel,
-    modelStore.contextInitParams,
+    modelStore.getModelContextInitParams(model.id),
     draftModel,
   );
 
@@ -18,7 +18,9 @@ type CopyableMessage = MessageType.Text | MessageType.AssistantTurn;
 interface UseMessageActionsProps {
   user: User;
   messages: MessageType.Any[];
-  handleSendPress: (message: MessageType.PartialText) => Promise<void>;
+  /** Answers a user message again without sending it a second time; the
+   * message must be the newest on the active path. */
+  handleRegeneratePress: (message: MessageType.PartialText) => Promise<void>;
   setInputText?: (text: string) => void;
   setInputImages?: (images: string[]) => void;
 }
@@ -26,7 +28,7 @@ interface UseMessageActionsProps {
 export const useMessageActions = ({
   user,
   messages,
-  handleSendPress,
+  handleRegeneratePress,
   setInputText,
   setInputImages,
 }: UseMessageActionsProps) => {
@@ -59,50 +61,44 @@ export const useMessageActions = ({
         return;
       }
 
-      // If it's the user's message (only Text rows can be authored by
-      // the user), resubmit it.
-      if (message.type === 'text' && message.author.id === user.id) {
-        const messageText = message.text;
-        const relatedImages = message.imageUris;
+      // Retrying a user message (only Text rows can be authored by the
+      // user) answers it again; retrying an assistant message (Text or
+      // AssistantTurn) answers the last user message before it. The
+      // walk-back is index-based, so AssistantTurn rows behave like
+      // legacy Text rows here.
+      const messageIndex = messages.findIndex(msg => msg.id === message.id);
+      const isUserMessage =
+        message.type === 'text' && message.author.id === user.id;
+      const userMessage = (
+        isUserMessage
+          ? message
+          : messages
+              .slice(messageIndex + 1)
+              .find(msg => msg.author.id === user.id && msg.type === 'text')
+      ) as MessageType.Text | undefined;
 
-        await chatSessionStore.removeMessagesFromId(message.id, true);
-        await handleSendPress({
-          text: messageText,
-          type: 'text',
-          imageUris:
-            relatedImages && relatedImages.length > 0
-              ? relatedImages
-              : undefined,
-        });
+      if (!userMessage || !userMessage.text) {
         return;
       }
 
-      // Assistant message (Text or AssistantTurn) — find and resubmit
-      // the last user message. The walk-back logic is index-based and
-      // doesn't depend on assistant text content, so AssistantTurn
-      // rows behave identically to legacy Text rows here.
-      const messageIndex = messages.findIndex(msg => msg.id === message.id);
-      const previousMessage = messages
-        .slice(messageIndex + 1)
-        .find(msg => msg.author.id === user.id && msg.type === 'text') as
-        | MessageType.Text
-        | undefined;
-
-      if (previousMessage && previousMessage.text) {
-        const messageText = previousMessage.text;
-        const relatedImages = previousMessage.imageUris;
-        await chatSessionStore.removeMessagesFromId(previousMessage.id, true);
-        await handleSendPress({
-          text: messageText,
-          type: 'text',
-          imageUris:
-            relatedImages && relatedImages.length > 0
-              ? relatedImages
-              : undefined,
-        });
+      // Messages are newest first, so the reply being replaced sits just
+      // before the user message. Setting it aside keeps it as a branch the
+      // new reply is a sibling of.
+      const userIndex = messages.findIndex(msg => msg.id === userMessage.id);
+      const reply = userIndex > 0 ? messages[userIndex - 1] : undefined;
+      if (reply) {
+        chatSessionStore.branchFrom(reply.id);
       }
+
+      const relatedImages = userMessage.imageUris;
+      await handleRegeneratePress({
+        text: userMessage.text,
+        type: 'text',
+        imageUris:
+          relatedImages && relatedImages.length > 0 ? relatedImages : undefined,
+      });
     },
-    [messages, handleSendPress, user.id],
+    [messages, handleRegeneratePress, user.id],
   );
 
   const handleTryAgainWith = useCallback(
@@ -17,6 +17,7 @@ const EXPECTED_SECTIONS = [
   'settings',
   'memory',
   'storage',
+  'storageScreen',
   'generation',
   'models',
   'completionParams',
@@ -36,6 +37,7 @@ const EXPECTED_SECTIONS = [
   'htmlPreview',
   'onboarding',
   'downloadBanner',
+  'localServerBanner',
 ];
 
 const ALL_LANGUAGES: AvailableLanguage[] = [
@@ -7,11 +7,23 @@ import {
   Message,
   CompletionSetting,
   GlobalSetting,
+  MessageSearchEntry,
 } from '../database';
 
 import {SessionMetaData} from '../store/ChatSessionStore';
 
-import {MessageType} from '../utils/types';
+import {
+  MessageSearchFilters,
+  MessageSearchHit,
+  MessageType,
+} from '../utils/types';
+import {parentsFirst} from '../utils/messageTree';
+import {
+  matchesAllTerms,
+  normalizeForSearch,
+  queryTerms,
+  searchableText,
+} from '../utils/messageSearch';
 import {CompletionParams} from '../utils/completionTypes';
 import {
   defaultCompletionParams,
@@ -23,6 +35,12 @@ const defaultCompletionSettings = {...defaultCompletionParams};
 delete defaultCompletionSettings.prompt;
 delete defaultCompletionSettings.stop;
 
+// Global settings key marking that messages written before the search
+// index existed have been indexed.
+const SEARCH_INDEX_KEY = 'messageSearchIndexed';
+// Upper bound for results of one search across chats.
+const SEARCH_RESULT_LIMIT = 100;
+
 class ChatSessionRepository {
   // Check if we need to migrate from JSON files
   async checkAndMigrateFromJSON(): Promise<boolean> {
@@ -79,7 +97,9 @@ class ChatSessionRepository {
               record.settings = JSON.stringify(migratedSettings);
             });
 
-          for (let i = 0; i < session.messages.length; i++) {
+          // Oldest first, so each message can reply to the one before it.
+          let previousId: string | undefined;
+          for (let i = session.messages.length - 1; i >= 0; i--) {
             const msg = session.messages[i];
 
             // Extract author ID and prepare metadata with author data
@@ -114,7 +134,7 @@ class ChatSessionRepository {
                 );
               }
 
-              await database.collections
+              const created = await database.collections
                 .get('messages')
                 .create((record: any) => {
                   record.sessionId = newSession.id; // Use sessionId (JavaScript property), not session_id (DB column)
@@ -126,7 +146,11 @@ class ChatSessionRepository {
                   record.metadata = JSON.stringify(metadata);
                   record.position = session.messages.length - i; // Reverse order for correct sorting
                   record.createdAt = msg.createdAt || Date.now(); // Use createdAt, not created_at
+                  if (previousId) {
+                    record.parentId = previousId;
+                  }
                 });
+              previousId = created.id;
             } catch (error) {
               console.error('Error creating message record:', error);
               throw error; // Re-throw to stop the migration
@@ -277,9 +301,17 @@ class ChatSessionRepository {
           record.settings = JSON.stringify(migratedSettings);
         });
 
-      // Create initial messages if any
-      for (let i = 0; i < initialMessages.length; i++) {
-        const msg = initialMessages[i];
+      // Create initial messages if any. Replies are written after the
+      // messages they answer so parent ids can be remapped to the new rows;
+      // histories without parent ids are linear, newest first.
+      const isTree = initialMessages.some(msg => msg.parentId);
+      const ordered = isTree
+        ? parentsFirst(initialMessages)
+        : [...initialMessages].reverse();
+      const newIds = new Map<string, string>();
+      let previousId: string | undefined;
+      for (const msg of ordered) {
+        const i = initialMessages.indexOf(msg);
 
         const authorId = msg.author.id;
         const metadata = msg.metadata || {};
@@ -303,18 +335,29 @@ class ChatSessionRepository {
           metadata.steps = (msg as MessageType.AssistantTurn).steps ?? [];
         }
 
-        await database.collections.get('messages').create((record: any) => {
-          record.sessionId = newSession.id;
-          record.author = authorId;
-          if (msg.type === 'text') {
-            record.text = msg.text;
-          }
-          // assistant_turn rows leave `text` unset (see addMessageToSession).
-          record.type = msg.type;
-          record.metadata = JSON.stringify(metadata);
-          record.position = initialMessages.length - i; // Reverse order
-          record.createdAt = msg.createdAt || Date.now();
-        });
+        const parentId = isTree
+          ? msg.parentId && newIds.get(msg.parentId)
+          : previousId;
+        const created = await database.collections
+          .get('messages')
+          .create((record: any) => {
+            record.sessionId = newSession.id;
+            record.author = authorId;
+            if (msg.type === 'text') {
+              record.text = msg.text;
+            }
+            // assistant_turn rows leave `text` unset (see addMessageToSession).
+            record.type = msg.type;
+            record.metadata = JSON.stringify(metadata);
+            record.position = initialMessages.length - i; // Reverse order
+            record.createdAt = msg.createdAt || Date.now();
+            if (parentId) {
+              record.parentId = parentId;
+            }
+          });
+        await this.createSearchEntry(created.id, newSession.id, msg);
+        newIds.set(msg.id, created.id);
+        previousId = created.id;
       }
     });
 
@@ -342,6 +385,7 @@ class ChatSessionRepository {
       for (const message of messages) {
         await message.destroyPermanently();
       }
+      await this.destroySearchEntries(Q.where('session_id', id));
 
       // Delete associated completion settings
       const settings = await database.collections
@@ -385,6 +429,7 @@ class ChatSessionRepository {
         for (const message of messages) {
           await message.destroyPermanently();
         }
+        await this.destroySearchEntries(Q.where('session_id', id));
 
         // Delete associated completion settings
         const settings = await database.collections
@@ -480,7 +525,11 @@ class ChatSessionRepository {
           record.metadata = JSON.stringify(metadata);
           record.position = highestPosition + 1;
           record.createdAt = message.createdAt || Date.now();
+          if (message.parentId) {
+            record.parentId = message.parentId;
+          }
         });
+      await this.createSearchEntry(newMessage.id, sessionId, message);
     });
 
     return newMessage as unknown as Message;
@@ -538,6 +587,12 @@ class ChatSessionRepository {
             });
           }
         });
+        await this.destroySearchEntries(Q.where('message_id', id));
+        await this.createSearchEntry(
+          id,
+          (message as Message).sessionId,
+          (message as Message).toMessageObject(),
+        );
       });
 
       return true;
@@ -701,9 +756,153 @@ class ChatSessionRepository {
 
     await database.write(async () => {
       await message.destroyPermanently();
+      await this.destroySearchEntries(Q.where('message_id', id));
     });
   }
 
+  /**
+   * Messages matching every term of `query`, newest first. Terms match
+   * anywhere in a message, ignoring case and diacritics.
+   */
+  async searchMessages(
+    query: string,
+    filters: MessageSearchFilters = {},
+  ): Promise<MessageSearchHit[]> {
+    const terms = queryTerms(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const conditions: Q.Clause[] = terms.map(term =>
+      Q.where('terms', Q.like(`%${Q.sanitizeLikeString(term)}%`)),
+    );
+    if (filters.palId) {
+      const sessions = await database.collections
+        .get('chat_sessions')
+        .query(Q.where('active_pal_id', filters.palId))
+        .fetchIds();
+      conditions.push(Q.where('session_id', Q.oneOf(sessions)));
+    }
+    if (filters.modelId) {
+      const entries = (await database.collections
+        .get('message_search')
+        .query(Q.where('model_id', filters.modelId))
+        .fetch()) as MessageSearchEntry[];
+      const sessions = [...new Set(entries.map(entry => entry.sessionId))];
+      conditions.push(Q.where('session_id', Q.oneOf(sessions)));
+    }
+    if (filters.from !== undefined) {
+      conditions.push(Q.where('created_at', Q.gte(filters.from)));
+    }
+    if (filters.to !== undefined) {
+      conditions.push(Q.where('created_at', Q.lte(filters.to)));
+    }
+
+    const entries = (await database.collections
+      .get('message_search')
+      .query(...conditions, Q.sortBy('created_at', Q.desc))
+      .fetch()) as MessageSearchEntry[];
+
+    // sanitizeLikeString turns every non-ASCII character into a
+    // wildcard, so check the terms again.
+    return entries
+      .filter(entry => matchesAllTerms(entry.terms, terms))
+      .slice(0, SEARCH_RESULT_LIMIT)
+      .map(entry => ({
+        messageId: entry.messageId,
+        sessionId: entry.sessionId,
+        modelId: entry.modelId || undefined,
+        content: entry.content,
+        createdAt: entry.createdAt,
+      }));
+  }
+
+  /**
+   * Index messages written before the search index existed. Runs once;
+   * after that every write keeps the index in sync.
+   */
+  async buildSearchIndex(): Promise<void> {
+    const flags = await database.collections
+      .get('global_settings')
+      .query(Q.where('key', SEARCH_INDEX_KEY))
+      .fetch();
+    if (flags.length > 0) {
+      return;
+    }
+
+    const messages = (await database.collections
+      .get('messages')
+      .query()
+      .fetch()) as Message[];
+    const entries = database.collections.get('message_search');
+
+    await database.write(async () => {
+      const existing = await entries.query().fetch();
+      await database.batch(
+        ...existing.map(entry => entry.prepareDestroyPermanently()),
+        ...messages.flatMap(message => {
+          const build = this.searchEntryBuilder(
+            message.id,
+            message.sessionId,
+            message.toMessageObject(),
+          );
+          return build ? [entries.prepareCreate(build)] : [];
+        }),
+      );
+      await database.collections
+        .get('global_settings')
+        .create((record: any) => {
+          record.key = SEARCH_INDEX_KEY;
+          record.value = 'true';
+        });
+    });
+  }
+
+  // Must run inside database.write()
+  private async createSearchEntry(
+    messageId: string,
+    sessionId: string,
+    message: MessageType.Any,
+  ): Promise<void> {
+    const build = this.searchEntryBuilder(messageId, sessionId, message);
+    if (build) {
+      await database.collections.get('message_search').create(build);
+    }
+  }
+
+  // Messages without searchable text get no entry.
+  private searchEntryBuilder(
+    messageId: string,
+    sessionId: string,
+    message: MessageType.Any,
+  ): ((record: any) => void) | undefined {
+    const content = searchableText(message);
+    if (!content) {
+      return undefined;
+    }
+    return (record: any) => {
+      record.messageId = messageId;
+      record.sessionId = sessionId;
+      if (message.metadata?.modelId) {
+        record.modelId = message.metadata.modelId;
+      }
+      record.content = content;
+      record.terms = normalizeForSearch(content);
+      record.createdAt = message.createdAt || Date.now();
+    };
+  }
+
+  // Must run inside database.write()
+  private async destroySearchEntries(condition: Q.Clause): Promise<void> {
+    const entries = await database.collections
+      .get('message_search')
+      .query(condition)
+      .fetch();
+    await database.batch(
+      ...entries.map(entry => entry.prepareDestroyPermanently()),
+    );
+  }
+
   // Reset migration flag for testing
   async resetMigration(): Promise<void> {
     try {
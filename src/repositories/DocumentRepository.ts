@@ -0,0 +1,174 @@
+import {Q} from '@nozbe/watermelondb';
+import {database} from '../database';
+import Document from '../database/models/Document';
+import DocumentChunk from '../database/models/DocumentChunk';
+import type {ChunkCandidate, EmbeddedChunk} from '../services/documents';
+import type {DocumentInfo} from '../utils/types';
+
+const toDocumentInfo = (document: Document): DocumentInfo => ({
+  id: document.id,
+  collectionId: document.collectionId,
+  title: document.title,
+  source: document.source || undefined,
+  charCount: document.charCount,
+  chunkCount: document.chunkCount,
+  embeddingModel: document.embeddingModel,
+  createdAt: document.createdAt,
+});
+
+class DocumentRepository {
+  async getDocuments(collectionId?: string): Promise<DocumentInfo[]> {
+    const documents = (await database.collections
+      .get('documents')
+      .query(
+        ...(collectionId ? [Q.where('collection_id', collectionId)] : []),
+        Q.sortBy('created_at', Q.asc),
+      )
+      .fetch()) as Document[];
+    return documents.map(toDocumentInfo);
+  }
+
+  /** Store a document and its embedded chunks in one write. */
+  async addDocument(
+    document: Omit<DocumentInfo, 'id' | 'chunkCount' | 'createdAt'>,
+    chunks: EmbeddedChunk[],
+  ): Promise<DocumentInfo> {
+    const now = Date.now();
+    return await database.write(async () => {
+      const record = (await database.collections
+        .get('documents')
+        .create((r: any) => {
+          r.collectionId = document.collectionId;
+          r.title = document.title;
+          r.source = document.source;
+          r.charCount = document.charCount;
+          r.chunkCount = chunks.length;
+          r.embeddingModel = document.embeddingModel;
+          r.createdAt = now;
+          r.updatedAt = now;
+        })) as Document;
+      await this.createChunks(record, chunks);
+      return toDocumentInfo(record);
+    });
+  }
+
+  /** Swap a document's chunks for ones embedded with another model. */
+  async replaceChunks(
+    documentId: string,
+    chunks: EmbeddedChunk[],
+    embeddingModel: string,
+  ): Promise<void> {
+    await database.write(async () => {
+      const record = (await database.collections
+        .get('documents')
+        .find(documentId)) as Document;
+      await this.destroyChunks(Q.where('document_id', documentId));
+      await record.update((r: any) => {
+        r.chunkCount = chunks.length;
+        r.embeddingModel = embeddingModel;
+        r.updatedAt = Date.now();
+      });
+      await this.createChunks(record, chunks);
+    });
+  }
+
+  /** Chunk texts in document order, e.g. to embed them again. */
+  async getChunkTexts(documentId: string): Promise<string[]> {
+    const chunks = (await database.collections
+      .get('document_chunks')
+      .query(Q.where('document_id', documentId), Q.sortBy('position', Q.asc))
+      .fetch()) as DocumentChunk[];
+    return chunks.map(chunk => chunk.text);
+  }
+
+  /**
+   * Search candidates from `collectionIds`, limited to documents embedded
+   * with `embeddingModel` — vectors from another model are not comparable.
+   */
+  async getChunks(
+    collectionIds: string[],
+    embeddingModel: string,
+  ): Promise<ChunkCandidate[]> {
+    if (collectionIds.length === 0) {
+      return [];
+    }
+    const documents = (await database.collections
+      .get('documents')
+      .query(
+        Q.where('collection_id', Q.oneOf(collectionIds)),
+        Q.where('embedding_model', embeddingModel),
+      )
+      .fetch()) as Document[];
+    if (documents.length === 0) {
+      return [];
+    }
+    const chunks = (await database.collections
+      .get('document_chunks')
+      .query(Q.where('document_id', Q.oneOf(documents.map(d => d.id))))
+      .fetch()) as DocumentChunk[];
+    return chunks.map(chunk => ({
+      documentId: chunk.documentId,
+      collectionId: chunk.collectionId,
+      position: chunk.position,
+      text: chunk.text,
+      embedding: chunk.getEmbedding(),
+    }));
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    await database.write(async () => {
+      await this.destroyChunks(Q.where('document_id', id));
+      const record = await database.collections
+        .get('documents')
+        .find(id)
+        .catch(() => null);
+      await record?.destroyPermanently();
+    });
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    await database.write(async () => {
+      await this.destroyChunks(Q.where('collection_id', collectionId));
+      const documents = await database.collections
+        .get('documents')
+        .query(Q.where('collection_id', collectionId))
+        .fetch();
+      for (const document of documents) {
+        await document.destroyPermanently();
+      }
+    });
+  }
+
+  // Must run inside database.write()
+  private async createChunks(
+    document: Document,
+    chunks: EmbeddedChunk[],
+  ): Promise<void> {
+    const collection = database.collections.get('document_chunks');
+    await database.batch(
+      ...chunks.map((chunk, position) =>
+        collection.prepareCreate((r: any) => {
+          r.documentId = document.id;
+          r.collectionId = document.collectionId;
+          r.position = position;
+          r.text = chunk.text;
+          r.embedding = JSON.stringify(chunk.embedding);
+        }),
+      ),
+    );
+  }
+
+  // Must run inside database.write()
+  private async destroyChunks(condition: Q.Clause): Promise<void> {
+    const chunks = await database.collections
+      .get('document_chunks')
+      .query(condition)
+      .fetch();
+    await database.batch(
+      ...chunks.map(chunk => chunk.prepareDestroyPermanently()),
+    );
+  }
+}
+
+export const documentRepository = new DocumentRepository();
+export default DocumentRepository;
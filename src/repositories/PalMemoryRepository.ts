@@ -0,0 +1,82 @@
+import {Q} from '@nozbe/watermelondb';
+import {database} from '../database';
+import PalMemory from '../database/models/PalMemory';
+import type {PalMemoryEntry} from '../types/pal';
+
+const toEntry = (memory: PalMemory): PalMemoryEntry => ({
+  id: memory.id,
+  palId: memory.palId,
+  content: memory.content,
+  createdAt: memory.createdAt,
+  updatedAt: memory.updatedAt,
+});
+
+class PalMemoryRepository {
+  async getMemories(): Promise<PalMemoryEntry[]> {
+    const memories = (await database.collections
+      .get('pal_memories')
+      .query(Q.sortBy('created_at', Q.asc))
+      .fetch()) as PalMemory[];
+    return memories.map(toEntry);
+  }
+
+  /** Store `contents` for a Pal in one write, keeping given timestamps. */
+  async addMemories(
+    palId: string,
+    contents: Array<{content: string; createdAt?: number}>,
+  ): Promise<PalMemoryEntry[]> {
+    const now = Date.now();
+    return await database.write(async () => {
+      const collection = database.collections.get('pal_memories');
+      const records = contents.map(
+        ({content, createdAt}) =>
+          collection.prepareCreate((r: any) => {
+            r.palId = palId;
+            r.content = content;
+            r.createdAt = createdAt ?? now;
+            r.updatedAt = now;
+          }) as PalMemory,
+      );
+      await database.batch(...records);
+      return records.map(toEntry);
+    });
+  }
+
+  async updateMemory(id: string, content: string): Promise<PalMemoryEntry> {
+    return await database.write(async () => {
+      const record = (await database.collections
+        .get('pal_memories')
+        .find(id)) as PalMemory;
+      await record.update((r: any) => {
+        r.content = content;
+        r.updatedAt = Date.now();
+      });
+      return toEntry(record);
+    });
+  }
+
+  async deleteMemory(id: string): Promise<void> {
+    await database.write(async () => {
+      const record = await database.collections
+        .get('pal_memories')
+        .find(id)
+        .catch(() => null);
+      await record?.destroyPermanently();
+    });
+  }
+
+  async deletePalMemories(palId: string): Promise<void> {
+    await database.write(async () => {
+      const memories = await database.collections
+        .get('pal_memories')
+        .query(Q.where('pal_id', palId))
+        .fetch();
+      await database.batch(
+        ...memories.map(memory => memory.prepareDestroyPermanently()),
+      );
+    });
+  }
+}
+
+export const palMemoryRepository = new PalMemoryRepository();
+export default PalMemoryRepository;
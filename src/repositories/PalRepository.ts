@@ -185,6 +185,7 @@ class PalRepository {
               LocalPal.safeStringify(generationSettings);
             record.pact = LocalPal.safeStringify(palData.pact);
             record.greeting = LocalPal.safeStringify(palData.greeting);
+            record.loraAdapters = LocalPal.safeStringify(palData.loraAdapters);
           });
       });
 
@@ -295,6 +296,9 @@ class PalRepository {
           if (updates.greeting !== undefined) {
             record.greeting = LocalPal.safeStringify(updates.greeting);
           }
+          if (updates.loraAdapters !== undefined) {
+            record.loraAdapters = LocalPal.safeStringify(updates.loraAdapters);
+          }
         });
       });
 
@@ -0,0 +1,79 @@
+// jest/setup.ts globally replaces this module with
+// __mocks__/repositories/ChatSessionRepository.js; unmock + requireActual so
+// these assertions run against the real row writer.
+import {MessageType} from '../../utils/types';
+
+const mockCreate = jest.fn();
+
+jest.mock('../../database', () => ({
+  database: {
+    write: (callback: () => Promise<void>) => callback(),
+    collections: {
+      get: () => ({
+        create: (build: (record: any) => void) => mockCreate(build),
+      }),
+    },
+  },
+}));
+
+jest.unmock('../ChatSessionRepository');
+
+const {chatSessionRepository} = jest.requireActual('../ChatSessionRepository');
+
+const message = (id: string, parentId?: string): MessageType.Text => ({
+  id,
+  parentId,
+  text: id,
+  type: 'text',
+  author: {id: 'user'},
+  createdAt: 1,
+});
+
+describe('ChatSessionRepository.createSession message tree', () => {
+  const created: any[] = [];
+  const rows = () =>
+    new Map(
+      created
+        .filter(record => record.text)
+        .map(record => [record.text, record]),
+    );
+
+  beforeEach(() => {
+    created.length = 0;
+    mockCreate.mockImplementation(async (build: (record: any) => void) => {
+      const record: any = {id: `row-${created.length}`};
+      build(record);
+      created.push(record);
+      return record;
+    });
+  });
+
+  it('remaps parent ids onto the new rows, writing parents first', async () => {
+    // Newest first, with the branch the session shows at the front.
+    await chatSessionRepository.createSession('Copy', [
+      message('follow-up', 'reply-b'),
+      message('reply-b', 'ask'),
+      message('ask'),
+      message('reply-a', 'ask'),
+    ]);
+
+    const byText = rows();
+    expect(byText.get('ask').parentId).toBeUndefined();
+    expect(byText.get('reply-a').parentId).toBe(byText.get('ask').id);
+    expect(byText.get('reply-b').parentId).toBe(byText.get('ask').id);
+    expect(byText.get('follow-up').parentId).toBe(byText.get('reply-b').id);
+    // The first message keeps the highest position, so it loads as the leaf.
+    expect(byText.get('follow-up').position).toBe(4);
+  });
+
+  it('links a history without parent ids into one line', async () => {
+    await chatSessionRepository.createSession('Legacy', [
+      message('second'),
+      message('first'),
+    ]);
+
+    const byText = rows();
+    expect(byText.get('first').parentId).toBeUndefined();
+    expect(byText.get('second').parentId).toBe(byText.get('first').id);
+  });
+});
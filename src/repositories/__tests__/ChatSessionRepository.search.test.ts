@@ -0,0 +1,255 @@
+// jest/setup.ts globally replaces this module with
+// __mocks__/repositories/ChatSessionRepository.js; unmock + requireActual so
+// the search index is exercised against the real repository, backed by a
+// small in-memory table store that understands the clauses it uses.
+import {MessageType} from '../../utils/types';
+
+type Row = Record<string, any>;
+type Clause = (row: Row) => boolean;
+
+const mockTables: Record<string, Row[]> = {};
+let mockNextId = 0;
+
+jest.mock('@nozbe/watermelondb', () => {
+  const camel = (column: string) =>
+    column.replace(/_(\w)/g, (_, c) => c.toUpperCase());
+  const where =
+    (column: string, test: any): Clause =>
+    (row: Row) => {
+      const value = row[camel(column)];
+      return typeof test === 'function' ? test(value) : value === test;
+    };
+  return {
+    Q: {
+      where,
+      like: (pattern: string) => {
+        const needle = pattern.replace(/%/g, '');
+        const regex = new RegExp(needle.replace(/_/g, '.'));
+        return (value: string) => regex.test(value ?? '');
+      },
+      sanitizeLikeString: (value: string) =>
+        value.replace(/[^a-zA-Z0-9]/g, '_'),
+      oneOf: (values: any[]) => (value: any) => values.includes(value),
+      gte: (bound: number) => (value: number) => value >= bound,
+      lte: (bound: number) => (value: number) => value <= bound,
+      sortBy: () => undefined,
+      desc: 'desc',
+      asc: 'asc',
+    },
+  };
+});
+
+jest.mock('../../database', () => {
+  const makeRow = (table: string, build: (record: Row) => void) => {
+    const row: Row = {id: `${table}-${mockNextId++}`};
+    build(row);
+    row.update = async (change: (record: Row) => void) => change(row);
+    row.destroyPermanently = async () => {
+      mockTables[table] = mockTables[table].filter(r => r !== row);
+    };
+    row.prepareDestroyPermanently = () => row.destroyPermanently;
+    row.toMessageObject = () => {
+      const {steps, ...metadata} = JSON.parse(row.metadata || '{}');
+      return {
+        id: row.id,
+        type: row.type,
+        text: row.text,
+        author: {id: row.author},
+        createdAt: row.createdAt,
+        metadata,
+        ...(row.type === 'assistant_turn' ? {steps: steps ?? []} : {}),
+      };
+    };
+    return row;
+  };
+  const collection = (table: string) => {
+    mockTables[table] = mockTables[table] ?? [];
+    const query = (...clauses: any[]) => {
+      const matching = () =>
+        mockTables[table].filter(row =>
+          clauses.every(clause => typeof clause !== 'function' || clause(row)),
+        );
+      return {
+        fetch: async () => matching(),
+        fetchIds: async () => matching().map(row => row.id),
+      };
+    };
+    return {
+      query,
+      find: async (id: string) => {
+        const row = mockTables[table].find(r => r.id === id);
+        if (!row) {
+          throw new Error('not found');
+        }
+        return row;
+      },
+      create: async (build: (record: Row) => void) => {
+        const row = makeRow(table, build);
+        mockTables[table].push(row);
+        return row;
+      },
+      prepareCreate: (build: (record: Row) => void) => () => {
+        mockTables[table].push(makeRow(table, build));
+      },
+    };
+  };
+  return {
+    database: {
+      write: (callback: () => Promise<any>) => callback(),
+      batch: async (...operations: Array<() => Promise<void> | void>) => {
+        for (const operation of operations) {
+          await operation();
+        }
+      },
+      collections: {get: collection},
+    },
+  };
+});
+
+jest.unmock('../ChatSessionRepository');
+
+const {chatSessionRepository} = jest.requireActual('../ChatSessionRepository');
+
+const text = (body: string, createdAt = 1): MessageType.Text => ({
+  id: '',
+  text: body,
+  type: 'text',
+  author: {id: 'user'},
+  createdAt,
+});
+
+const entries = () => mockTables.message_search ?? [];
+
+describe('ChatSessionRepository search index', () => {
+  beforeEach(() => {
+    for (const table of Object.keys(mockTables)) {
+      mockTables[table] = [];
+    }
+  });
+
+  it('indexes a new message with its folded text', async () => {
+    const message = await chatSessionRepository.addMessageToSession(
+      's1',
+      text('Crème brûlée recipe?'),
+    );
+
+    expect(entries()).toHaveLength(1);
+    expect(entries()[0]).toMatchObject({
+      messageId: message.id,
+      sessionId: 's1',
+      content: 'Crème brûlée recipe?',
+      terms: 'creme brulee recipe',
+    });
+  });
+
+  it('re-indexes an assistant turn as its steps arrive', async () => {
+    const turn = await chatSessionRepository.addMessageToSession('s1', {
+      id: '',
+      type: 'assistant_turn',
+      author: {id: 'assistant'},
+      createdAt: 2,
+      steps: [],
+      metadata: {modelId: 'model-a'},
+    });
+    // Nothing to search in an empty turn yet.
+    expect(entries()).toHaveLength(0);
+
+    await chatSessionRepository.updateMessage(turn.id, {
+      steps: [
+        {
+          content: 'Checking the forecast.',
+          toolOutcomes: [
+            {
+              callId: 'c1',
+              toolName: 'web_search',
+              result: {type: 'text', summary: 'Sunny'},
+              responseContent: 'Lisbon: sunny',
+            },
+          ],
+        },
+      ],
+    });
+    await chatSessionRepository.updateMessage(turn.id, {
+      metadata: {copyable: true},
+    });
+
+    expect(entries()).toHaveLength(1);
+    expect(entries()[0]).toMatchObject({
+      messageId: turn.id,
+      modelId: 'model-a',
+      content: 'Checking the forecast.\n\nLisbon: sunny',
+    });
+  });
+
+  it('drops entries with the message or session', async () => {
+    const first = await chatSessionRepository.addMessageToSession(
+      's1',
+      text('first'),
+    );
+    await chatSessionRepository.addMessageToSession('s1', text('second'));
+    await chatSessionRepository.addMessageToSession('s2', text('third'));
+
+    await chatSessionRepository.deleteMessage(first.id);
+    expect(entries().map(entry => entry.content)).toEqual(['second', 'third']);
+
+    mockTables.chat_sessions = [{id: 's1', destroyPermanently: async () => {}}];
+    await chatSessionRepository.deleteSession('s1');
+    expect(entries().map(entry => entry.content)).toEqual(['third']);
+  });
+
+  it('matches every term, ignoring case and diacritics', async () => {
+    await chatSessionRepository.addMessageToSession(
+      's1',
+      text('Café near the station'),
+    );
+    await chatSessionRepository.addMessageToSession('s1', text('Cafe menu'));
+    // Non-ASCII terms go to the database as wildcards.
+    await chatSessionRepository.addMessageToSession('s1', text('Привет'));
+    await chatSessionRepository.addMessageToSession('s1', text('Приват'));
+
+    const hits = await chatSessionRepository.searchMessages('CAFÉ station');
+    expect(hits.map((hit: any) => hit.content)).toEqual([
+      'Café near the station',
+    ]);
+    const cyrillic = await chatSessionRepository.searchMessages('привет');
+    expect(cyrillic.map((hit: any) => hit.content)).toEqual(['Привет']);
+    expect(await chatSessionRepository.searchMessages('  ')).toEqual([]);
+  });
+
+  it('filters by Pal, model and date', async () => {
+    mockTables.chat_sessions = [
+      {id: 's1', activePalId: 'pal-1'},
+      {id: 's2', activePalId: 'pal-2'},
+    ];
+    await chatSessionRepository.addMessageToSession('s1', text('plan a', 10));
+    await chatSessionRepository.addMessageToSession('s2', text('plan b', 20));
+    await chatSessionRepository.addMessageToSession('s2', {
+      ...text('plan c', 30),
+      author: {id: 'assistant'},
+      metadata: {modelId: 'model-a'},
+    });
+
+    const contents = async (filters: object) =>
+      (await chatSessionRepository.searchMessages('plan', filters))
+        .map((hit: any) => hit.content)
+        .sort();
+
+    expect(await contents({palId: 'pal-1'})).toEqual(['plan a']);
+    // The model filter keeps whole chats the model replied in.
+    expect(await contents({modelId: 'model-a'})).toEqual(['plan b', 'plan c']);
+    expect(await contents({from: 15, to: 25})).toEqual(['plan b']);
+  });
+
+  it('indexes existing messages once', async () => {
+    mockTables.messages = [];
+    await chatSessionRepository.addMessageToSession('s1', text('old one'));
+    mockTables.message_search = [];
+
+    await chatSessionRepository.buildSearchIndex();
+    expect(entries().map(entry => entry.content)).toEqual(['old one']);
+
+    mockTables.message_search = [];
+    await chatSessionRepository.buildSearchIndex();
+    expect(entries()).toHaveLength(0);
+  });
+});
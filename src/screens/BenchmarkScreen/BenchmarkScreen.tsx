@@ -10,7 +10,7 @@ import {Text, Button, Card, ActivityIndicator, Icon} from 'react-native-paper';
 
 import {submitBenchmark} from '../../api/benchmark';
 
-import {Menu, Dialog, Checkbox} from '../../components';
+import {Menu, Dialog, Checkbox, LoadProfileSelector} from '../../components';
 
 import {useTheme} from '../../hooks';
 import {L10nContext} from '../../utils';
@@ -114,6 +114,22 @@ export const BenchmarkScreen: React.FC = observer(() => {
     }
   };
 
+  // Reloads the model so the bench runs with the picked profile's init params.
+  const handleLoadProfileSelect = async (model: Model, profileId?: string) => {
+    if (profileId === model.activeLoadProfileId) {
+      return;
+    }
+    modelStore.setActiveLoadProfile(model.id, profileId);
+    try {
+      await modelStore.releaseContext();
+      await modelStore.initContext(model);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error('Model reload error:', error);
+      }
+    }
+  };
+
   const trackPeakMemoryUsage = async () => {
     try {
       const total = await RNDeviceInfo.getTotalMemory();
@@ -337,6 +353,30 @@ export const BenchmarkScreen: React.FC = observer(() => {
     </Menu>
   );
 
+  const renderLoadProfileSelector = () => {
+    const model = modelStore.activeModel;
+    if (
+      !model ||
+      model.origin === ModelOrigin.REMOTE ||
+      !model.loadProfiles?.length ||
+      modelStore.loadingModel
+    ) {
+      return null;
+    }
+    return (
+      <View style={styles.loadProfileContainer}>
+        <Text variant="labelMedium" style={styles.settingLabel}>
+          {l10n.benchmark.modelSelector.loadProfile}
+        </Text>
+        <LoadProfileSelector
+          model={model}
+          selectedProfileId={model.activeLoadProfileId}
+          onSelect={profileId => handleLoadProfileSelect(model, profileId)}
+        />
+      </View>
+    );
+  };
+
   const renderSlider = ({
     name,
     testId,
@@ -540,6 +580,7 @@ export const BenchmarkScreen: React.FC = observer(() => {
           <Card.Content>
             <DeviceInfoCard onDeviceInfo={handleDeviceInfo} />
             {renderModelSelector()}
+            {renderLoadProfileSelector()}
 
             {modelStore.loadingModel ? (
               <View style={styles.loadingContainer}>
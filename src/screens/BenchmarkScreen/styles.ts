@@ -41,6 +41,10 @@ export const createStyles = (theme: Theme) =>
       flexDirection: 'row-reverse',
       alignItems: 'center',
     },
+    loadProfileContainer: {
+      marginTop: 12,
+      gap: 8,
+    },
     presetContainer: {
       flexDirection: 'row',
       marginBottom: 16,
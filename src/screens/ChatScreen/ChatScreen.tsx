@@ -72,11 +72,8 @@ export const ChatScreen: React.FC = observer(() => {
   const [isErrorReportVisible, setIsErrorReportVisible] = useState(false);
   const [errorToReport, setErrorToReport] = useState<ErrorState | null>(null);
 
-  const {handleSendPress, handleStopPress} = useChatSession(
-    currentMessageInfo,
-    user,
-    assistant,
-  );
+  const {handleSendPress, handleRegeneratePress, handleStopPress} =
+    useChatSession(currentMessageInfo, user, assistant);
 
   // Handle deep linking for message prefill
   const {pendingMessage, clearPendingMessage} = usePendingMessage();
@@ -261,6 +258,7 @@ export const ChatScreen: React.FC = observer(() => {
         messages={chatSessionStore.currentSessionMessages}
         activePal={activePal}
         onSendPress={handleSendPress}
+        onRegeneratePress={handleRegeneratePress}
         onStopPress={handleStopPress}
         onPalSettingsSelect={handleOpenPalSheet}
         user={user}
@@ -11,6 +11,7 @@ import {createStyles} from './styles';
 interface FABGroupProps {
   onAddHFModel: () => void;
   onAddLocalModel: () => void;
+  onAddFromUrl?: () => void;
   onAddRemoteModel: () => void;
   onManageServers?: () => void;
   hasServers?: boolean;
@@ -36,6 +37,7 @@ const RemoteIcon = (props: IconComponentProps): React.ReactNode => (
 export const FABGroup: React.FC<FABGroupProps> = ({
   onAddHFModel,
   onAddLocalModel,
+  onAddFromUrl,
   onAddRemoteModel,
   onManageServers,
   hasServers,
@@ -69,6 +71,20 @@ export const FABGroup: React.FC<FABGroupProps> = ({
           onAddLocalModel();
         },
       },
+      ...(onAddFromUrl
+        ? [
+            {
+              testID: 'url-fab',
+              icon: 'link-plus',
+              label: l10n.models.buttons.addFromUrl,
+              accessibilityLabel: l10n.models.buttons.addFromUrl,
+              style: styles.actionButton,
+              onPress: () => {
+                onAddFromUrl();
+              },
+            },
+          ]
+        : []),
       {
         testID: 'remote-fab',
         icon: RemoteIcon,
@@ -97,6 +113,7 @@ export const FABGroup: React.FC<FABGroupProps> = ({
     l10n,
     onAddHFModel,
     onAddLocalModel,
+    onAddFromUrl,
     onAddRemoteModel,
     onManageServers,
     hasServers,
@@ -1,6 +1,8 @@
-import React, {useContext, useEffect, useState} from 'react';
+import React, {useContext, useEffect, useMemo, useState} from 'react';
 import {View} from 'react-native';
 
+import {observer} from 'mobx-react';
+import DeviceInfo from 'react-native-device-info';
 import {Text, Chip, Tooltip} from 'react-native-paper';
 import {BottomSheetFlatList} from '@gorhom/bottom-sheet';
 
@@ -12,7 +14,14 @@ import {useTheme} from '../../../../hooks';
 import {createStyles} from './styles';
 import {ModelFileCard} from './ModelFileCard';
 
-import {HuggingFaceModel, ModelFile} from '../../../../utils/types';
+import {modelStore} from '../../../../store';
+
+import {
+  GGUFMetadata,
+  HuggingFaceModel,
+  ModelFile,
+  ModelType,
+} from '../../../../utils/types';
 import {
   extractHFModelTitle,
   formatNumber,
@@ -20,19 +29,32 @@ import {
   timeAgo,
   isVisionRepo,
   getLLMFiles,
+  getMmprojFiles,
+  getRecommendedProjectionModel,
   probeRemoteMTPCapability,
 } from '../../../../utils';
+import {t} from '../../../../locales';
+import {rankModelFiles} from '../../../../utils/modelRecommendation';
+import {readGGUFModelMetadata} from '../../../../utils/ggufHeader';
+import {getModelMemoryRequirement} from '../../../../utils/memoryEstimator';
+import {
+  getLoraBaseModel,
+  isLoraAdapterRepo,
+} from '../../../../utils/loraAdapters';
 
 interface DetailsViewProps {
   hfModel: HuggingFaceModel;
 }
 
-export const DetailsView = ({hfModel}: DetailsViewProps) => {
+export const DetailsView = observer(({hfModel}: DetailsViewProps) => {
   const theme = useTheme();
   const styles = createStyles(theme);
   const l10n = useContext(L10nContext);
 
   const isVision = isVisionRepo(hfModel.siblings || []);
+  const isLora = isLoraAdapterRepo(hfModel);
+  const loraArchitecture = hfModel.specs?.gguf?.architecture;
+  const loraBaseModel = getLoraBaseModel(hfModel);
 
   const llmFiles = getLLMFiles(hfModel.siblings || []);
 
@@ -59,8 +81,123 @@ export const DetailsView = ({hfModel}: DetailsViewProps) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [hfModel.id]);
 
+  const [totalMemory, setTotalMemory] = useState(0);
+  useEffect(() => {
+    let cancelled = false;
+    const readTotalMemory = async () => {
+      try {
+        const total = await DeviceInfo.getTotalMemory();
+        if (!cancelled) {
+          setTotalMemory(total);
+        }
+      } catch {
+        // No RAM figure means no recommendation rather than a wrong one.
+      }
+    };
+    readTotalMemory();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Architecture metadata is the same for every quant, so any file of this
+  // repo that was downloaded before prices the KV cache for the others.
+  const downloadedMetadata = modelStore.models.find(
+    m => m.hfModel?.id === hfModel.id && m.ggufMetadata,
+  )?.ggufMetadata;
+  const hasDownloadedMetadata = !!downloadedMetadata;
+
+  // Otherwise read it from the header of the first file.
+  const [remoteMetadata, setRemoteMetadata] = useState<GGUFMetadata>();
+  useEffect(() => {
+    setRemoteMetadata(undefined);
+    const firstLLM = llmFiles[0];
+    if (hasDownloadedMetadata || isLora || !firstLLM) {
+      return;
+    }
+    let cancelled = false;
+    readGGUFModelMetadata(
+      urls.modelDownloadFile(hfModel.id, firstLLM.rfilename),
+    )
+      .then(metadata => {
+        if (!cancelled) {
+          setRemoteMetadata(metadata);
+        }
+      })
+      .catch(error => {
+        // Without metadata the files are still ranked, by size alone.
+        console.warn('[DetailsView] GGUF header read failed:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hfModel.id, hasDownloadedMetadata]);
+  const repoMetadata = downloadedMetadata ?? remoteMetadata;
+
+  const calibrationCeiling = Math.max(
+    modelStore.largestSuccessfulLoad ?? 0,
+    modelStore.availableMemoryCeiling ?? 0,
+  );
+  const contextInitParams = modelStore.contextInitParams;
+  // The rule presets were picked for this device's RAM band and SoC class.
+  const ruleBackedBytes = Math.max(
+    0,
+    ...modelStore.models
+      .filter(m => m.isRulePreset && m.modelType !== ModelType.PROJECTION)
+      .map(m => getModelMemoryRequirement(m, undefined, contextInitParams)),
+  );
+
+  const recommendation = useMemo(() => {
+    // Adapters ride on a base model's context; there is no quant to pick
+    if (!totalMemory || isLora) {
+      return undefined;
+    }
+    const mmprojFiles = getMmprojFiles(hfModel.siblings || []);
+    const projectorName = llmFiles[0]
+      ? getRecommendedProjectionModel(
+          llmFiles[0].rfilename,
+          mmprojFiles.map(f => f.rfilename),
+        )
+      : undefined;
+    return rankModelFiles({
+      files: llmFiles,
+      metadata: repoMetadata,
+      contextSettings: contextInitParams,
+      projectorSize: mmprojFiles.find(f => f.rfilename === projectorName)?.size,
+      availableBytes: calibrationCeiling,
+      ruleBackedBytes,
+      totalBytes: totalMemory,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- llmFiles derives from hfModel
+  }, [
+    hfModel,
+    isLora,
+    repoMetadata,
+    contextInitParams,
+    calibrationCeiling,
+    ruleBackedBytes,
+    totalMemory,
+  ]);
+
+  const best = recommendation?.best;
+  const recommendationText = best
+    ? best.safeContextLength
+      ? t(l10n.models.details.recommendedWithContext, {
+          file: best.file.rfilename,
+          context: best.safeContextLength.toString(),
+        })
+      : t(l10n.models.details.recommended, {file: best.file.rfilename})
+    : l10n.models.details.noRecommendation;
+
   const renderItem = ({item}: {item: ModelFile}) => (
-    <ModelFileCard key={item.rfilename} modelFile={item} hfModel={hfModel} />
+    <ModelFileCard
+      key={item.rfilename}
+      modelFile={item}
+      hfModel={hfModel}
+      fit={recommendation?.ranked.find(f => f.file === item)}
+      isRecommended={best?.file === item}
+    />
   );
 
   return (
@@ -77,6 +214,9 @@ export const DetailsView = ({hfModel}: DetailsViewProps) => {
               size="medium"
             />
           )}
+          {isLora && (
+            <ModelTypeTag type="lora" label={l10n.models.lora} size="medium" />
+          )}
           {isMTP && (
             <Chip
               icon="rocket-launch-outline"
@@ -135,9 +275,27 @@ export const DetailsView = ({hfModel}: DetailsViewProps) => {
             </Chip>
           )}
         </View>
+        {isLora && (loraBaseModel || loraArchitecture) && (
+          <Text
+            variant="bodySmall"
+            style={styles.recommendation}
+            testID="lora-adapter-base">
+            {t(l10n.models.details.loraAdapterFor, {
+              base: loraBaseModel ?? loraArchitecture ?? '',
+            })}
+          </Text>
+        )}
         <Text variant="titleLarge" style={styles.sectionTitle}>
           {l10n.models.details.title}
         </Text>
+        {recommendation && recommendation.ranked.length > 0 && (
+          <Text
+            variant="bodySmall"
+            style={styles.recommendation}
+            testID="model-recommendation">
+            {recommendationText}
+          </Text>
+        )}
       </View>
       <BottomSheetFlatList
         data={llmFiles}
@@ -152,4 +310,4 @@ export const DetailsView = ({hfModel}: DetailsViewProps) => {
       we should add them to the model card like in a dropdown form.*/}
     </View>
   );
-};
+});
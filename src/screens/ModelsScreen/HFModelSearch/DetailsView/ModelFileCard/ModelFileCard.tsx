@@ -25,6 +25,7 @@ import {
 } from '../../../../../utils';
 import {t} from '../../../../../locales';
 import {isLegacyQuantization} from '../../../../../utils/modelSettings';
+import {ModelFileFit} from '../../../../../utils/modelRecommendation';
 import {
   HuggingFaceModel,
   Model,
@@ -37,6 +38,9 @@ import {ChevronRightIcon} from '../../../../../assets/icons';
 interface ModelFileCardProps {
   modelFile: ModelFile;
   hfModel: HuggingFaceModel;
+  // Where this file landed in the repo's fit ranking, if one was computed.
+  fit?: ModelFileFit;
+  isRecommended?: boolean;
 }
 
 type Warning = {
@@ -47,7 +51,7 @@ type Warning = {
 };
 
 export const ModelFileCard: FC<ModelFileCardProps> = observer(
-  ({modelFile, hfModel}) => {
+  ({modelFile, hfModel, fit, isRecommended}) => {
     const [showWarning, setShowWarning] = useState(false);
     const [showVisionSheet, setShowVisionSheet] = useState(false);
     const theme = useTheme();
@@ -122,12 +126,22 @@ export const ModelFileCard: FC<ModelFileCardProps> = observer(
         message: l10n.models.modelFile.warnings.storage.message,
         shortMessage: l10n.models.modelFile.warnings.storage.shortMessage,
       },
-      shortMemoryWarning && {
-        type: 'memory',
-        icon: 'memory',
-        message: l10n.models.modelFile.warnings.memory.message,
-        shortMessage: shortMemoryWarning,
+      fit?.status === 'wont_fit' && {
+        type: 'wontFit',
+        icon: 'close-octagon-outline',
+        message: t(l10n.models.modelFile.warnings.wontFit.message, {
+          needed: formatBytes(fit.requiredBytes, 1),
+        }),
+        shortMessage: l10n.models.modelFile.warnings.wontFit.shortMessage,
       },
+      // The ranking's verdict already covers a file that cannot load at all.
+      shortMemoryWarning &&
+        fit?.status !== 'wont_fit' && {
+          type: 'memory',
+          icon: 'memory',
+          message: l10n.models.modelFile.warnings.memory.message,
+          shortMessage: shortMemoryWarning,
+        },
       multimodalWarning && {
         type: 'multimodal',
         icon: 'alert-circle-outline',
@@ -302,6 +316,31 @@ export const ModelFileCard: FC<ModelFileCardProps> = observer(
                     {getEnhancedSizeDisplay()}
                   </Text>
                 )}
+                {modelFile.shards && (
+                  <Text
+                    variant="labelSmall"
+                    style={styles.fileSize}
+                    testID={`model-file-parts-${modelFile.rfilename}`}>
+                    {t(l10n.models.modelFile.labels.splitParts, {
+                      count: modelFile.shards.length.toString(),
+                    })}
+                  </Text>
+                )}
+                {isRecommended && (
+                  <View
+                    style={styles.recommendedChip}
+                    testID={`model-file-recommended-${modelFile.rfilename}`}>
+                    <IconButton
+                      icon="star-outline"
+                      iconColor={theme.colors.onPrimaryContainer}
+                      size={12}
+                      style={styles.warningIcon}
+                    />
+                    <Text style={styles.recommendedText}>
+                      {l10n.models.modelFile.labels.bestFit}
+                    </Text>
+                  </View>
+                )}
                 {isModelInfoReady && warnings.length > 0 && (
                   <Pressable onPress={handleWarningPress}>
                     <View style={styles.warningChip}>
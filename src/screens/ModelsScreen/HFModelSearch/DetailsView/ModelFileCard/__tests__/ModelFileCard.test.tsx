@@ -54,6 +54,56 @@ describe('ModelFileCard', () => {
     expect(getByText('500 MB')).toBeDefined();
   });
 
+  it('shows the part count of a split model', () => {
+    const parts = [1, 2, 3].map(n => ({
+      rfilename: `test-model-0000${n}-of-00003.gguf`,
+      size: 1000 * 1000 * 500,
+    }));
+    const {getByTestId} = render(
+      <ModelFileCard
+        modelFile={{
+          ...parts[0],
+          size: 1000 * 1000 * 1500,
+          canFitInStorage: true,
+          shards: parts,
+        }}
+        hfModel={mockHFModel1}
+      />,
+    );
+
+    expect(
+      getByTestId('model-file-parts-test-model-00001-of-00003.gguf'),
+    ).toHaveTextContent('3 parts');
+  });
+
+  it('marks the recommended file', () => {
+    const {getByTestId} = render(
+      <ModelFileCard
+        modelFile={mockModelFile}
+        hfModel={mockHFModel1}
+        fit={{file: mockModelFile, requiredBytes: 6e8, status: 'fits'}}
+        isRecommended
+      />,
+    );
+
+    expect(
+      getByTestId('model-file-recommended-test-model.gguf'),
+    ).toHaveTextContent(/Best fit/);
+  });
+
+  it('warns that a file too large for device RAM would not load', () => {
+    const {getByText, queryByTestId} = render(
+      <ModelFileCard
+        modelFile={mockModelFile}
+        hfModel={mockHFModel1}
+        fit={{file: mockModelFile, requiredBytes: 9e9, status: 'wont_fit'}}
+      />,
+    );
+
+    expect(getByText("Won't load")).toBeDefined();
+    expect(queryByTestId('model-file-recommended-test-model.gguf')).toBeNull();
+  });
+
   it('handles bookmark toggle when not bookmarked', async () => {
     const {getByTestId} = render(
       <ModelFileCard modelFile={mockModelFile} hfModel={mockHFModel1} />,
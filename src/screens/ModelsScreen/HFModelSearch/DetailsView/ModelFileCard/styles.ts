@@ -92,6 +92,20 @@ export const createStyles = (theme: Theme, isProjectionModel) =>
       paddingHorizontal: 6,
       gap: 4,
     },
+    recommendedChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: theme.colors.primaryContainer,
+      borderRadius: 12,
+      paddingVertical: 2,
+      paddingHorizontal: 6,
+      gap: 4,
+    },
+    recommendedText: {
+      fontSize: 12,
+      color: theme.colors.onPrimaryContainer,
+      fontWeight: '500',
+    },
     warningIcon: {
       width: 14,
       height: 14,
@@ -15,6 +15,7 @@ import {
   probeRemoteMTPCapability,
 } from '../../../../../utils';
 import type {MTPRemoteCapability} from '../../../../../utils/mtp';
+import {readGGUFModelMetadata} from '../../../../../utils/ggufHeader';
 import {l10n} from '../../../../../locales';
 
 jest.mock('../../../../../utils', () => ({
@@ -22,6 +23,14 @@ jest.mock('../../../../../utils', () => ({
   probeRemoteMTPCapability: jest.fn().mockResolvedValue('not-capable'),
 }));
 
+jest.mock('../../../../../utils/ggufHeader', () => ({
+  readGGUFModelMetadata: jest.fn().mockResolvedValue(undefined),
+}));
+
+const mockReadMetadata = readGGUFModelMetadata as jest.MockedFunction<
+  typeof readGGUFModelMetadata
+>;
+
 const mockProbe = probeRemoteMTPCapability as jest.MockedFunction<
   typeof probeRemoteMTPCapability
 >;
@@ -76,6 +85,50 @@ describe('DetailsView', () => {
     });
   });
 
+  it('recommends the best-fitting file for this device', async () => {
+    // 4 GB device with a 5 GB calibrated ceiling: Q4_K_M (4 GB) fits, the
+    // 12 GB Q5_K_M is above physical RAM.
+    const {getByTestId, queryByTestId} = render(
+      <DetailsView hfModel={mockHFModel1} />,
+    );
+
+    await waitFor(() => {
+      expect(getByTestId('model-recommendation')).toHaveTextContent(
+        'Best fit for this device: hf-model-name-1.Q4_K_M.gguf',
+      );
+    });
+    expect(
+      getByTestId('model-file-recommended-hf-model-name-1.Q4_K_M.gguf'),
+    ).toBeDefined();
+    expect(
+      queryByTestId('model-file-recommended-hf-model-name-1.Q5_K_M.gguf'),
+    ).toBeNull();
+  });
+
+  it('reads the KV cost from the file header before any download', async () => {
+    mockReadMetadata.mockResolvedValueOnce({
+      architecture: 'llama',
+      n_layers: 32,
+      n_embd: 4096,
+      n_head: 32,
+      n_head_kv: 8,
+      n_vocab: 128256,
+      n_embd_head_k: 128,
+      n_embd_head_v: 128,
+      context_length: 8192,
+    });
+    const {getByTestId} = render(<DetailsView hfModel={mockHFModel1} />);
+
+    await waitFor(() => {
+      expect(getByTestId('model-recommendation')).toHaveTextContent(
+        /hf-model-name-1\.Q4_K_M\.gguf, up to \d+ tokens of context/,
+      );
+    });
+    expect(mockReadMetadata).toHaveBeenCalledWith(
+      expect.stringContaining(mockHFModel1.siblings[0].rfilename),
+    );
+  });
+
   describe('MTP capability badge', () => {
     it('shows the badge when the remote probe resolves capable', async () => {
       mockProbe.mockResolvedValue('capable');
@@ -70,6 +70,10 @@ export const createStyles = (theme: Theme) =>
       marginBottom: 8,
       color: theme.colors.onSurface,
     },
+    recommendation: {
+      marginBottom: 8,
+      color: theme.colors.onSurfaceVariant,
+    },
     sectionSubtitle: {
       fontSize: 16,
       fontWeight: '600',
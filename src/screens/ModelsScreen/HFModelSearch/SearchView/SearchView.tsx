@@ -27,6 +27,7 @@ import {
   L10nContext,
   isVisionRepo,
 } from '../../../../utils';
+import {isLoraAdapterRepo} from '../../../../utils/loraAdapters';
 
 interface SearchViewProps {
   testID?: string;
@@ -74,6 +75,7 @@ export const SearchView = observer(
     const renderItem = ({item}: {item: HuggingFaceModel}) => {
       // Check if this is a vision repository
       const isVision = isVisionRepo(item.siblings || []);
+      const isLora = isLoraAdapterRepo(item);
 
       return (
         <TouchableOpacity
@@ -92,6 +94,7 @@ export const SearchView = observer(
             {isVision && (
               <ModelTypeTag type="vision" label={l10n.models.vision} />
             )}
+            {isLora && <ModelTypeTag type="lora" label={l10n.models.lora} />}
             <View style={styles.statItem}>
               <Icon
                 name="clock-outline"
@@ -25,13 +25,22 @@ import {
   HelperText,
 } from 'react-native-paper';
 
-import {ProjectionModelSelector, MemoryRequirement} from '../../../components';
+import {
+  LoraAdapterSelector,
+  ProjectionModelSelector,
+  MemoryRequirement,
+} from '../../../components';
 
 import {useTheme, useMemoryCheck, useStorageCheck} from '../../../hooks';
 
 import {createStyles} from './styles';
 
-import {uiStore, modelStore, serverStore} from '../../../store';
+import {
+  uiStore,
+  modelStore,
+  serverStore,
+  downloadQueueStore,
+} from '../../../store';
 import {t} from '../../../locales';
 
 import {
@@ -46,6 +55,7 @@ import {
   checkModelFileIntegrity,
   getModelSkills,
   formatNumber,
+  formatBytes,
   isMTPCapable,
   isDraftOnlyModel,
 } from '../../../utils';
@@ -70,8 +80,12 @@ interface ModelCardProps {
   onFocus?: () => void;
   onOpenSettings?: () => void;
   onOpenServerDetails?: (serverId: string) => void;
+  onOpenModelGroup?: (modelId: string) => void;
 }
 
+const formatSizeDelta = (delta: number) =>
+  `${delta < 0 ? '-' : '+'}${formatBytes(Math.abs(delta))}`;
+
 // Enable LayoutAnimation on Android
 if (
   Platform.OS === 'android' &&
@@ -81,7 +95,13 @@ if (
 }
 
 export const ModelCard: React.FC<ModelCardProps> = observer(
-  ({model, activeModelId, onOpenSettings, onOpenServerDetails}) => {
+  ({
+    model,
+    activeModelId,
+    onOpenSettings,
+    onOpenServerDetails,
+    onOpenModelGroup,
+  }) => {
     const l10n = React.useContext(L10nContext);
     const theme = useTheme();
     const styles = createStyles(theme);
@@ -124,11 +144,19 @@ export const ModelCard: React.FC<ModelCardProps> = observer(
     const isDraftOnly = isDraftOnlyModel(model);
     const isDownloaded = model.isDownloaded;
     const isDownloading = modelStore.isDownloading(model.id);
+    const queuePosition = downloadQueueStore.positionOf(model.id);
+    const isQueuePaused = downloadQueueStore.isPaused(model.id);
     const isHfModel = model.origin === ModelOrigin.HF;
     const isRemoteModel = model.origin === ModelOrigin.REMOTE;
+    const modelUpdate = isDownloaded
+      ? modelStore.modelUpdates[model.id]
+      : undefined;
     const cardId = model.filename || model.id;
 
     const modelCaps = modelStore.capsFor(model);
+    const modelGroup = isRemoteModel
+      ? serverStore.modelGroups[model.id]
+      : undefined;
     const visionLabel =
       modelCaps.vision === 'yes'
         ? l10n.models.modelCard.labels.visionSupported
@@ -256,6 +284,20 @@ export const ModelCard: React.FC<ModelCardProps> = observer(
       );
     }, [model, l10n]);
 
+    const handleUpdate = useCallback(() => {
+      Alert.alert(
+        l10n.models.modelCard.alerts.updateTitle,
+        l10n.models.modelCard.alerts.updateMessage,
+        [
+          {text: l10n.common.cancel, style: 'cancel'},
+          {
+            text: l10n.models.modelCard.buttons.update,
+            onPress: () => modelStore.updateModel(model.id),
+          },
+        ],
+      );
+    }, [model.id, l10n]);
+
     const handleWarningPress = () => {
       setSnackbarVisible(true);
     };
@@ -428,6 +470,69 @@ export const ModelCard: React.FC<ModelCardProps> = observer(
         );
       }
 
+      if (queuePosition !== undefined) {
+        // Queued state - cancel, pause/resume and move up
+        return (
+          <View style={styles.actionButtonsRow}>
+            <Button
+              testID="cancel-button"
+              icon="close"
+              mode="outlined"
+              onPress={() => modelStore.cancelDownload(model.id)}
+              style={[
+                styles.primaryActionButton,
+                {
+                  backgroundColor: theme.colors.errorContainer,
+                  borderColor: theme.colors.error,
+                },
+              ]}
+              textColor={theme.colors.error}>
+              {l10n.common.cancel}
+            </Button>
+
+            <TouchableOpacity
+              testID="queue-pause-button"
+              onPress={() =>
+                isQueuePaused
+                  ? downloadQueueStore.resume(model.id)
+                  : downloadQueueStore.pause(model.id)
+              }
+              style={styles.iconButton}
+              accessibilityRole="button"
+              accessibilityLabel={
+                isQueuePaused
+                  ? l10n.models.modelCard.accessibility.resumeQueuedButton
+                  : l10n.models.modelCard.accessibility.pauseQueuedButton
+              }>
+              <Icon
+                source={isQueuePaused ? 'play' : 'pause'}
+                size={20}
+                color={theme.colors.onSurfaceVariant}
+              />
+            </TouchableOpacity>
+
+            {queuePosition > 1 && (
+              <TouchableOpacity
+                testID="queue-move-up-button"
+                onPress={() =>
+                  downloadQueueStore.move(model.id, queuePosition - 2)
+                }
+                style={styles.iconButton}
+                accessibilityRole="button"
+                accessibilityLabel={
+                  l10n.models.modelCard.accessibility.moveUpQueueButton
+                }>
+                <Icon
+                  source="arrow-up"
+                  size={20}
+                  color={theme.colors.onSurfaceVariant}
+                />
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      }
+
       if (isDownloading) {
         // Downloading state - show cancel button
         return (
@@ -795,6 +900,44 @@ export const ModelCard: React.FC<ModelCardProps> = observer(
               </TouchableRipple>
             )}
 
+            {/* Newer upload on Hugging Face */}
+            {modelUpdate && !isDownloading && (
+              <View testID="model-update-banner" style={styles.updateContainer}>
+                <Icon source="update" size={16} color={theme.colors.primary} />
+                <Text style={styles.updateText}>
+                  {t(l10n.models.modelCard.labels.updateAvailable, {
+                    delta: formatSizeDelta(modelUpdate.sizeDelta),
+                  })}
+                </Text>
+                <Button
+                  testID="model-update-button"
+                  compact
+                  mode="text"
+                  onPress={handleUpdate}>
+                  {l10n.models.modelCard.buttons.update}
+                </Button>
+              </View>
+            )}
+
+            {/* Queue Position */}
+            {queuePosition !== undefined && (
+              <View style={styles.downloadProgressContainer}>
+                <Text
+                  testID="download-queue-status"
+                  style={styles.downloadSpeed}>
+                  {isQueuePaused
+                    ? t(l10n.models.modelCard.labels.queuedPaused, {
+                        position: queuePosition,
+                      })
+                    : downloadQueueStore.waitingForCharger
+                      ? l10n.models.modelCard.labels.queuedWaitingForCharger
+                      : t(l10n.models.modelCard.labels.queued, {
+                          position: queuePosition,
+                        })}
+                </Text>
+              </View>
+            )}
+
             {/* Download Progress */}
             {isDownloading && (
               <View style={styles.downloadProgressContainer}>
@@ -916,6 +1059,18 @@ export const ModelCard: React.FC<ModelCardProps> = observer(
                     </View>
                   )}
 
+                {/* LoRA adapters that fit this model's architecture */}
+                {isDownloaded && !isRemoteModel && (
+                  <LoraAdapterSelector
+                    model={model}
+                    value={model.loraAdapters ?? []}
+                    onChange={settings =>
+                      modelStore.setModelLoraAdapters(model.id, settings)
+                    }
+                    showDeleteActions
+                  />
+                )}
+
                 {/* Technical Details Grid - 2x2 layout */}
                 <View style={styles.technicalDetailsGrid}>
                   {/* Parameters */}
@@ -985,6 +1140,28 @@ export const ModelCard: React.FC<ModelCardProps> = observer(
                       </Text>
                     </View>
                   )}
+
+                  {/* Failover backends */}
+                  {isRemoteModel && onOpenModelGroup && (
+                    <TouchableOpacity
+                      style={styles.technicalDetailCard}
+                      testID={`model-card-failover-${cardId}`}
+                      onPress={() => onOpenModelGroup(model.id)}>
+                      <Text style={styles.technicalDetailLabel}>
+                        {l10n.models.modelCard.labels.failover}
+                      </Text>
+                      <Text style={styles.technicalDetailValue}>
+                        {modelGroup
+                          ? t(l10n.models.modelCard.labels.failoverBackends, {
+                              count: String(
+                                modelGroup.backends.length +
+                                  (modelGroup.localModelId ? 1 : 0),
+                              ),
+                            })
+                          : l10n.models.modelCard.labels.failoverOff}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
 
                 {/* Projection model warning */}
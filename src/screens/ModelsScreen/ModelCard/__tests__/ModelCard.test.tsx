@@ -23,7 +23,12 @@ import {ModelCard} from '../ModelCard';
 
 import {downloadManager} from '../../../../services/downloads';
 
-import {modelStore, uiStore, serverStore} from '../../../../store';
+import {
+  downloadQueueStore,
+  modelStore,
+  uiStore,
+  serverStore,
+} from '../../../../store';
 import {ModelType} from '../../../../utils/types';
 
 import {l10n} from '../../../../locales';
@@ -294,6 +299,98 @@ describe('ModelCard', () => {
     });
   });
 
+  describe('Download queue', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (downloadManager.isDownloading as jest.Mock).mockReturnValue(false);
+      runInAction(() => {
+        downloadQueueStore.queue = [
+          {modelId: 'other', paused: false, queuedAt: 0},
+          {modelId: basicModel.id, paused: false, queuedAt: 0},
+        ];
+      });
+    });
+
+    afterEach(() => {
+      runInAction(() => {
+        downloadQueueStore.queue = [];
+      });
+    });
+
+    it('shows the queue position of a waiting download', () => {
+      const {getByTestId, queryByTestId} = customRender(
+        <ModelCard model={basicModel} />,
+      );
+
+      expect(getByTestId('download-queue-status')).toHaveTextContent(
+        'Queued · #2',
+      );
+      expect(queryByTestId('download-button')).toBeNull();
+      expect(getByTestId('cancel-button')).toBeTruthy();
+    });
+
+    it('pauses and moves up a waiting download', () => {
+      const {getByTestId} = customRender(<ModelCard model={basicModel} />);
+
+      fireEvent.press(getByTestId('queue-pause-button'));
+      expect(downloadQueueStore.pause).toHaveBeenCalledWith(basicModel.id);
+
+      fireEvent.press(getByTestId('queue-move-up-button'));
+      expect(downloadQueueStore.move).toHaveBeenCalledWith(basicModel.id, 0);
+    });
+  });
+
+  describe('Model updates', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(Alert, 'alert').mockImplementation();
+      (downloadManager.isDownloading as jest.Mock).mockReturnValue(false);
+      runInAction(() => {
+        modelStore.modelUpdates = {
+          [downloadedModel.id]: {
+            modelId: downloadedModel.id,
+            hfModel: {} as any,
+            modelFile: {rfilename: downloadedModel.filename},
+            sizeDelta: 250 * 1000 * 1000,
+          },
+        };
+      });
+    });
+
+    afterEach(() => {
+      runInAction(() => {
+        modelStore.modelUpdates = {};
+      });
+    });
+
+    it('flags an available update with its size delta', () => {
+      const {getByTestId} = customRender(<ModelCard model={downloadedModel} />);
+
+      expect(getByTestId('model-update-banner')).toHaveTextContent(/\+250 MB/);
+    });
+
+    it('updates the model once confirmed', () => {
+      (Alert.alert as jest.Mock).mockImplementation(
+        (title, message, buttons) => {
+          buttons[1].onPress();
+        },
+      );
+
+      const {getByTestId} = customRender(<ModelCard model={downloadedModel} />);
+      fireEvent.press(getByTestId('model-update-button'));
+
+      expect(modelStore.updateModel).toHaveBeenCalledWith(downloadedModel.id);
+    });
+
+    it('shows nothing for a model that is not downloaded', () => {
+      const {queryByTestId} = customRender(
+        <ModelCard model={{...downloadedModel, isDownloaded: false}} />,
+      );
+
+      expect(queryByTestId('model-update-banner')).toBeNull();
+    });
+  });
+
   // Add tests for settings functionality
   describe('Settings functionality', () => {
     const mockOnOpenSettings = jest.fn();
@@ -714,6 +811,32 @@ describe('ModelCard', () => {
       });
     });
 
+    it('opens the failover backends from the details block', async () => {
+      const onOpenModelGroup = jest.fn();
+      runInAction(() => {
+        serverStore.modelGroups = {
+          [remoteModel.id]: {
+            backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+            policy: 'priority',
+            localModelId: 'local-qwen',
+          },
+        };
+      });
+      const {getByTestId, getByText} = customRender(
+        <ModelCard model={remoteModel} onOpenModelGroup={onOpenModelGroup} />,
+      );
+      expand(getByTestId);
+
+      await waitFor(() => {
+        expect(getByText('2 backup backends')).toBeTruthy();
+      });
+      fireEvent.press(getByTestId(`model-card-failover-${remoteModel.id}`));
+      expect(onOpenModelGroup).toHaveBeenCalledWith(remoteModel.id);
+      runInAction(() => {
+        serverStore.modelGroups = {};
+      });
+    });
+
     it('offers the expand affordance and opens the details block', async () => {
       const {getByTestId} = customRender(<ModelCard model={remoteModel} />);
 
@@ -51,6 +51,19 @@ export const createStyles = (theme: Theme) =>
       flex: 1,
       flexWrap: 'wrap',
     },
+    updateContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 8,
+      marginBottom: 12,
+    },
+    updateText: {
+      color: theme.colors.primary,
+      fontSize: 12,
+      flex: 1,
+      flexWrap: 'wrap',
+    },
     visionToggleContainer: {
       backgroundColor: theme.colors.surface,
       borderRadius: 16,
@@ -17,10 +17,12 @@ import {createStyles} from './styles';
 import {HFModelSearch} from './HFModelSearch';
 import {ModelAccordion} from './ModelAccordion';
 import {
+  AddFromUrlSheet,
   DownloadErrorDialog,
   ErrorSnackbar,
   ModelSettingsSheet,
   ModelErrorReportSheet,
+  ModelGroupSheet,
   RemoteModelSheet,
   ServerDetailsSheet,
 } from '../../components';
@@ -51,7 +53,11 @@ export const ModelsScreen: React.FC = observer(() => {
   const [remoteModelSheetVisible, setRemoteModelSheetVisible] = useState(false);
   const [serverDetailsSheetVisible, setServerDetailsSheetVisible] =
     useState(false);
+  const [addFromUrlVisible, setAddFromUrlVisible] = useState(false);
   const [selectedServerId, setSelectedServerId] = useState<string | null>(null);
+  const [modelGroupModelId, setModelGroupModelId] = useState<string | null>(
+    null,
+  );
 
   const theme = useTheme();
   const styles = createStyles(theme);
@@ -368,6 +374,7 @@ export const ModelsScreen: React.FC = observer(() => {
               activeModelId={activeModelId}
               onOpenSettings={() => handleOpenSettings(subItem)}
               onOpenServerDetails={handleOpenServerDetails}
+              onOpenModelGroup={setModelGroupModelId}
             />
           )}
         />
@@ -445,6 +452,7 @@ export const ModelsScreen: React.FC = observer(() => {
       <FABGroup
         onAddHFModel={() => setHFSearchVisible(true)}
         onAddLocalModel={handleAddLocalModel}
+        onAddFromUrl={() => setAddFromUrlVisible(true)}
         onAddRemoteModel={handleAddRemoteModel}
         onManageServers={handleManageServers}
         hasServers={serverStore.servers.length > 0}
@@ -459,6 +467,10 @@ export const ModelsScreen: React.FC = observer(() => {
         onClose={handleCloseErrorReport}
         error={errorToReport}
       />
+      <AddFromUrlSheet
+        isVisible={addFromUrlVisible}
+        onDismiss={() => setAddFromUrlVisible(false)}
+      />
       <RemoteModelSheet
         isVisible={remoteModelSheetVisible}
         onDismiss={() => setRemoteModelSheetVisible(false)}
@@ -471,6 +483,11 @@ export const ModelsScreen: React.FC = observer(() => {
         }}
         serverId={selectedServerId}
       />
+      <ModelGroupSheet
+        isVisible={modelGroupModelId !== null}
+        onDismiss={() => setModelGroupModelId(null)}
+        modelId={modelGroupModelId}
+      />
     </View>
   );
 });
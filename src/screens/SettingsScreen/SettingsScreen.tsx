@@ -10,6 +10,7 @@ import {
   Linking,
   TouchableOpacity,
 } from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
 
 import {debounce} from 'lodash';
 import {observer} from 'mobx-react-lite';
@@ -42,6 +43,10 @@ import {
   HFTokenSheet,
   LanguageSelector,
   SearchProviderKeySheet,
+  McpServerSheet,
+  WebhookToolSheet,
+  DocumentCollectionSheet,
+  PalMemorySheet,
   InputSlider,
 } from '../../components';
 
@@ -56,6 +61,14 @@ import {
   hfStore,
   ttsStore,
   searchProviderStore,
+  mcpStore,
+  webhookToolStore,
+  documentStore,
+  palStore,
+  palMemoryStore,
+  downloadQueueStore,
+  localServerStore,
+  MAX_CONCURRENT_DOWNLOADS_LIMIT,
 } from '../../store';
 import type {SearchProviderId} from '../../services/search/types';
 
@@ -95,14 +108,34 @@ export const SettingsScreen: React.FC = observer(() => {
   const valueCacheMenu = useMenuAnchor();
   const draftKeyCacheMenu = useMenuAnchor();
   const draftValueCacheMenu = useMenuAnchor();
+  const embeddingModelMenu = useMenuAnchor();
   const [showDraftModelMenu, setShowDraftModelMenu] = useState(false);
   const [showHfTokenDialog, setShowHfTokenDialog] = useState(false);
+  const [mirrorUrl, setMirrorUrl] = useState(hfStore.mirrorUrl);
+  const [isValidMirrorUrl, setIsValidMirrorUrl] = useState(true);
+  const [serverPort, setServerPort] = useState(String(localServerStore.port));
+  const [isValidServerPort, setIsValidServerPort] = useState(true);
   const [showSearchProviderMenu, setShowSearchProviderMenu] = useState(false);
   const [searchProviderAnchor, setSearchProviderAnchor] = useState<{
     x: number;
     y: number;
   }>({x: 0, y: 0});
   const [showSearchKeySheet, setShowSearchKeySheet] = useState(false);
+  // `null` = adding a new MCP server; `undefined` = sheet closed.
+  const [mcpSheetServerId, setMcpSheetServerId] = useState<
+    string | null | undefined
+  >(undefined);
+  // Same convention for HTTP tools.
+  const [webhookSheetToolId, setWebhookSheetToolId] = useState<
+    string | null | undefined
+  >(undefined);
+  // And for document collections.
+  const [documentSheetCollectionId, setDocumentSheetCollectionId] = useState<
+    string | null | undefined
+  >(undefined);
+  // Pal whose memories are being reviewed.
+  const [memorySheetPalId, setMemorySheetPalId] = useState<string | null>(null);
+  const [reindexError, setReindexError] = useState<string | null>(null);
   const searchProviderButtonRef = useRef<View>(null);
   const [gpuSupported, setGpuSupported] = useState(false);
   const [draftModelAnchor, setDraftModelAnchor] = useState<{
@@ -198,6 +231,21 @@ export const SettingsScreen: React.FC = observer(() => {
     }
   };
 
+  const handleMirrorUrlChange = (text: string) => {
+    setMirrorUrl(text);
+    setIsValidMirrorUrl(hfStore.setMirrorUrl(text));
+  };
+
+  const handleServerPortChange = (text: string) => {
+    setServerPort(text);
+    const port = Number(text);
+    const isValid = /^\d+$/.test(text) && port >= 1024 && port <= 65535;
+    setIsValidServerPort(isValid);
+    if (isValid) {
+      localServerStore.setPort(port);
+    }
+  };
+
   const currentFlashAttnType =
     modelStore.contextInitParams.flash_attn_type ??
     (Platform.OS === 'ios' ? 'auto' : 'off');
@@ -354,6 +402,13 @@ export const SettingsScreen: React.FC = observer(() => {
   const activeSearchProviderId = searchProviderStore.activeProviderId;
   const searchHasConsent = searchProviderStore.hasConsentedToSearch;
 
+  // Pals that can remember, plus any that still hold memories after the
+  // capability was switched off.
+  const memoryPals = palStore.pals.filter(
+    pal =>
+      pal.capabilities?.memory || palMemoryStore.memoriesFor(pal.id).length > 0,
+  );
+
   return (
     <SafeAreaView style={styles.safeArea} edges={['bottom']}>
       <TouchableWithoutFeedback onPress={handleOutsidePress} accessible={false}>
@@ -1024,6 +1079,39 @@ export const SettingsScreen: React.FC = observer(() => {
                 </View>
                 <Divider />
 
+                {/* Keep Previous Model Warm */}
+                <View style={styles.switchContainer}>
+                  <View style={styles.textContainer}>
+                    <Text variant="titleMedium" style={styles.textLabel}>
+                      {l10n.settings.keepModelsWarm}
+                    </Text>
+                    <Text variant="labelSmall" style={styles.textDescription}>
+                      {l10n.settings.keepModelsWarmDescription}
+                    </Text>
+                  </View>
+                  <Switch
+                    testID="keep-models-warm-switch"
+                    value={modelStore.keepModelsWarm}
+                    onValueChange={value => modelStore.setKeepModelsWarm(value)}
+                  />
+                </View>
+                {modelStore.keepModelsWarm && (
+                  <View style={styles.settingItemContainer}>
+                    <InputSlider
+                      testID="max-warm-contexts-slider"
+                      label={l10n.settings.maxWarmContexts}
+                      value={modelStore.maxWarmContexts}
+                      onValueChange={value =>
+                        modelStore.setMaxWarmContexts(Math.round(value))
+                      }
+                      min={1}
+                      max={3}
+                      step={1}
+                    />
+                  </View>
+                )}
+                <Divider />
+
                 {/* Auto Navigate to Chat */}
                 <View style={styles.switchContainer}>
                   <View style={styles.textContainer}>
@@ -1327,6 +1415,504 @@ export const SettingsScreen: React.FC = observer(() => {
             </Card.Content>
           </Card>
 
+          {/* MCP Servers */}
+          <Card elevation={0} style={styles.card} testID="mcp-servers-card">
+            <Card.Title title={l10n.settings.mcpServers.title} />
+            <Card.Content>
+              <View style={styles.settingItemContainer}>
+                <Text variant="labelSmall" style={styles.textDescription}>
+                  {l10n.settings.mcpServers.description}
+                </Text>
+                {mcpStore.servers.length === 0 && (
+                  <Text
+                    variant="labelSmall"
+                    style={styles.textDescription}
+                    testID="mcp-servers-empty">
+                    {l10n.settings.mcpServers.noServers}
+                  </Text>
+                )}
+                {mcpStore.servers.map(server => {
+                  const status = mcpStore.status[server.id];
+                  const statusText = !server.enabled
+                    ? l10n.settings.mcpServers.statusDisabled
+                    : status?.state === 'connected'
+                      ? t(l10n.settings.mcpServers.statusConnected, {
+                          count: String(status.toolNames.length),
+                        })
+                      : status?.unsupportedTransport
+                        ? l10n.settings.mcpServers.statusUnsupportedTransport
+                        : status?.state === 'error'
+                          ? t(l10n.settings.connectionFailed, {
+                              error: status.error ?? '',
+                            })
+                          : l10n.settings.connecting;
+                  return (
+                    <React.Fragment key={server.id}>
+                      <Divider style={styles.divider} />
+                      <View style={styles.switchContainer}>
+                        <TouchableOpacity
+                          style={styles.textContainer}
+                          testID={`mcp-server-row-${server.id}`}
+                          onPress={() => setMcpSheetServerId(server.id)}>
+                          <Text variant="titleMedium" style={styles.textLabel}>
+                            {server.name}
+                          </Text>
+                          <Text
+                            variant="labelSmall"
+                            style={styles.textDescription}>
+                            {statusText}
+                          </Text>
+                        </TouchableOpacity>
+                        <Switch
+                          testID={`mcp-server-switch-${server.id}`}
+                          value={server.enabled}
+                          onValueChange={enabled =>
+                            mcpStore.setServerEnabled(server.id, enabled)
+                          }
+                        />
+                      </View>
+                    </React.Fragment>
+                  );
+                })}
+                <Divider style={styles.divider} />
+                <Button
+                  testID="mcp-server-add-button"
+                  mode="outlined"
+                  icon="plus"
+                  onPress={() => setMcpSheetServerId(null)}>
+                  {l10n.settings.mcpServers.addServer}
+                </Button>
+              </View>
+            </Card.Content>
+          </Card>
+
+          {/* HTTP Tools */}
+          <Card elevation={0} style={styles.card} testID="webhook-tools-card">
+            <Card.Title title={l10n.settings.webhookTools.title} />
+            <Card.Content>
+              <View style={styles.settingItemContainer}>
+                <Text variant="labelSmall" style={styles.textDescription}>
+                  {l10n.settings.webhookTools.description}
+                </Text>
+                {webhookToolStore.tools.length === 0 && (
+                  <Text
+                    variant="labelSmall"
+                    style={styles.textDescription}
+                    testID="webhook-tools-empty">
+                    {l10n.settings.webhookTools.noTools}
+                  </Text>
+                )}
+                {webhookToolStore.tools.map(tool => (
+                  <React.Fragment key={tool.id}>
+                    <Divider style={styles.divider} />
+                    <TouchableOpacity
+                      style={styles.textContainer}
+                      testID={`webhook-tool-row-${tool.id}`}
+                      onPress={() => setWebhookSheetToolId(tool.id)}>
+                      <Text variant="titleMedium" style={styles.textLabel}>
+                        {tool.name}
+                      </Text>
+                      <Text
+                        variant="labelSmall"
+                        style={styles.textDescription}
+                        numberOfLines={1}>
+                        {`${tool.method} ${tool.urlTemplate}`}
+                      </Text>
+                    </TouchableOpacity>
+                  </React.Fragment>
+                ))}
+                <Divider style={styles.divider} />
+                <Button
+                  testID="webhook-tool-add-button"
+                  mode="outlined"
+                  icon="plus"
+                  onPress={() => setWebhookSheetToolId(null)}>
+                  {l10n.settings.webhookTools.addTool}
+                </Button>
+              </View>
+            </Card.Content>
+          </Card>
+
+          {/* Documents */}
+          <Card elevation={0} style={styles.card} testID="documents-card">
+            <Card.Title title={l10n.settings.documents.title} />
+            <Card.Content>
+              <View style={styles.settingItemContainer}>
+                <Text variant="labelSmall" style={styles.textDescription}>
+                  {l10n.settings.documents.description}
+                </Text>
+                <Divider style={styles.divider} />
+                <View style={styles.switchContainer}>
+                  <View style={styles.textContainer}>
+                    <Text variant="titleMedium" style={styles.textLabel}>
+                      {l10n.settings.documents.embeddingModelLabel}
+                    </Text>
+                    <Text variant="labelSmall" style={styles.textDescription}>
+                      {l10n.settings.documents.embeddingModelDescription}
+                    </Text>
+                  </View>
+                  <View style={styles.menuContainer}>
+                    <Button
+                      ref={embeddingModelMenu.ref}
+                      testID="embedding-model-selector-button"
+                      mode="outlined"
+                      onPress={embeddingModelMenu.open}
+                      style={styles.menuButton}
+                      contentStyle={styles.buttonContent}
+                      icon={({size, color}) => (
+                        <Icon source="chevron-down" size={size} color={color} />
+                      )}>
+                      {documentStore.embeddingModel?.name ??
+                        l10n.settings.documents.noEmbeddingModel}
+                    </Button>
+                    <Menu
+                      visible={embeddingModelMenu.visible}
+                      onDismiss={embeddingModelMenu.close}
+                      anchor={embeddingModelMenu.anchor}
+                      selectable>
+                      {documentStore.embeddingModelOptions.length === 0 && (
+                        <Menu.Item
+                          style={styles.menu}
+                          label={l10n.settings.documents.noDownloadedModels}
+                          disabled
+                        />
+                      )}
+                      {documentStore.embeddingModelOptions.map(model => (
+                        <Menu.Item
+                          key={model.id}
+                          testID={`embedding-model-option-${model.id}`}
+                          style={styles.menu}
+                          label={model.name}
+                          selected={model.id === documentStore.embeddingModelId}
+                          onPress={() => {
+                            documentStore.setEmbeddingModel(model.id);
+                            embeddingModelMenu.close();
+                          }}
+                        />
+                      ))}
+                    </Menu>
+                  </View>
+                </View>
+                {documentStore.embeddingModel &&
+                  documentStore.staleDocuments.length > 0 && (
+                    <View testID="documents-stale">
+                      <Text variant="labelSmall" style={styles.textDescription}>
+                        {t(l10n.settings.documents.staleDocuments, {
+                          count: documentStore.staleDocuments.length,
+                        })}
+                      </Text>
+                      <Button
+                        testID="documents-reindex-button"
+                        mode="outlined"
+                        loading={!!documentStore.indexing}
+                        disabled={!!documentStore.indexing}
+                        onPress={() => {
+                          setReindexError(null);
+                          documentStore
+                            .reindexStaleDocuments()
+                            .catch(e =>
+                              setReindexError(
+                                e instanceof Error ? e.message : String(e),
+                              ),
+                            );
+                        }}>
+                        {l10n.settings.documents.reindex}
+                      </Button>
+                      {reindexError && (
+                        <Text
+                          variant="labelSmall"
+                          style={styles.textDescription}>
+                          {reindexError}
+                        </Text>
+                      )}
+                    </View>
+                  )}
+                {documentStore.collections.length === 0 && (
+                  <Text
+                    variant="labelSmall"
+                    style={styles.textDescription}
+                    testID="document-collections-empty">
+                    {l10n.settings.documents.noCollections}
+                  </Text>
+                )}
+                {documentStore.collections.map(collection => {
+                  const count = documentStore.documentsIn(collection.id).length;
+                  return (
+                    <React.Fragment key={collection.id}>
+                      <Divider style={styles.divider} />
+                      <TouchableOpacity
+                        style={styles.textContainer}
+                        testID={`document-collection-row-${collection.id}`}
+                        onPress={() =>
+                          setDocumentSheetCollectionId(collection.id)
+                        }>
+                        <Text variant="titleMedium" style={styles.textLabel}>
+                          {collection.name}
+                        </Text>
+                        <Text
+                          variant="labelSmall"
+                          style={styles.textDescription}>
+                          {count === 1
+                            ? l10n.settings.documents.documentsCountOne
+                            : t(l10n.settings.documents.documentsCount, {
+                                count,
+                              })}
+                        </Text>
+                      </TouchableOpacity>
+                    </React.Fragment>
+                  );
+                })}
+                <Divider style={styles.divider} />
+                <Button
+                  testID="document-collection-add-button"
+                  mode="outlined"
+                  icon="plus"
+                  onPress={() => setDocumentSheetCollectionId(null)}>
+                  {l10n.settings.documents.addCollection}
+                </Button>
+              </View>
+            </Card.Content>
+          </Card>
+
+          {/* Memory */}
+          <Card elevation={0} style={styles.card} testID="memory-card">
+            <Card.Title title={l10n.settings.memory.title} />
+            <Card.Content>
+              <View style={styles.settingItemContainer}>
+                <Text variant="labelSmall" style={styles.textDescription}>
+                  {l10n.settings.memory.description}
+                </Text>
+                {memoryPals.length === 0 && (
+                  <Text
+                    variant="labelSmall"
+                    style={styles.textDescription}
+                    testID="memory-pals-empty">
+                    {l10n.settings.memory.noPals}
+                  </Text>
+                )}
+                {memoryPals.map(pal => {
+                  const count = palMemoryStore.memoriesFor(pal.id).length;
+                  return (
+                    <React.Fragment key={pal.id}>
+                      <Divider style={styles.divider} />
+                      <TouchableOpacity
+                        style={styles.textContainer}
+                        testID={`memory-pal-row-${pal.id}`}
+                        onPress={() => setMemorySheetPalId(pal.id)}>
+                        <Text variant="titleMedium" style={styles.textLabel}>
+                          {pal.name}
+                        </Text>
+                        <Text
+                          variant="labelSmall"
+                          style={styles.textDescription}>
+                          {count === 1
+                            ? l10n.settings.memory.memoriesCountOne
+                            : t(l10n.settings.memory.memoriesCount, {count})}
+                        </Text>
+                      </TouchableOpacity>
+                    </React.Fragment>
+                  );
+                })}
+              </View>
+            </Card.Content>
+          </Card>
+
+          {/* Downloads */}
+          <Card elevation={0} style={styles.card} testID="downloads-card">
+            <Card.Title title={l10n.settings.downloads.title} />
+            <Card.Content>
+              <View style={styles.settingItemContainer}>
+                <View style={styles.textContainer}>
+                  <Text variant="titleMedium" style={styles.textLabel}>
+                    {l10n.settings.downloads.maxConcurrentLabel}
+                  </Text>
+                  <Text variant="labelSmall" style={styles.textDescription}>
+                    {l10n.settings.downloads.maxConcurrentDescription}
+                  </Text>
+                  <SegmentedButtons
+                    value={String(downloadQueueStore.maxConcurrent)}
+                    onValueChange={value =>
+                      downloadQueueStore.setMaxConcurrent(Number(value))
+                    }
+                    density="medium"
+                    buttons={Array.from(
+                      {length: MAX_CONCURRENT_DOWNLOADS_LIMIT},
+                      (_, index) => ({
+                        value: String(index + 1),
+                        label: String(index + 1),
+                        testID: `max-concurrent-downloads-${index + 1}`,
+                      }),
+                    )}
+                    style={styles.segmentedButtons}
+                  />
+                </View>
+                <Divider />
+                <View style={styles.switchContainer}>
+                  <View style={styles.textContainer}>
+                    <Text variant="titleMedium" style={styles.textLabel}>
+                      {l10n.settings.downloads.unmeteredOnlyLabel}
+                    </Text>
+                    <Text variant="labelSmall" style={styles.textDescription}>
+                      {l10n.settings.downloads.unmeteredOnlyDescription}
+                    </Text>
+                  </View>
+                  <Switch
+                    testID="downloads-unmetered-only-switch"
+                    value={downloadQueueStore.unmeteredOnly}
+                    onValueChange={value =>
+                      downloadQueueStore.setUnmeteredOnly(value)
+                    }
+                  />
+                </View>
+                <Divider />
+                <View style={styles.switchContainer}>
+                  <View style={styles.textContainer}>
+                    <Text variant="titleMedium" style={styles.textLabel}>
+                      {l10n.settings.downloads.chargingOnlyLabel}
+                    </Text>
+                    <Text variant="labelSmall" style={styles.textDescription}>
+                      {l10n.settings.downloads.chargingOnlyDescription}
+                    </Text>
+                  </View>
+                  <Switch
+                    testID="downloads-charging-only-switch"
+                    value={downloadQueueStore.chargingOnly}
+                    onValueChange={value =>
+                      downloadQueueStore.setChargingOnly(value)
+                    }
+                  />
+                </View>
+              </View>
+            </Card.Content>
+          </Card>
+
+          {/* Serve on LAN */}
+          <Card elevation={0} style={styles.card} testID="local-server-card">
+            <Card.Title title={l10n.settings.localServer.title} />
+            <Card.Content>
+              <View style={styles.settingItemContainer}>
+                <View style={styles.switchContainer}>
+                  <View style={styles.textContainer}>
+                    <Text variant="titleMedium" style={styles.textLabel}>
+                      {l10n.settings.localServer.enableLabel}
+                    </Text>
+                    <Text variant="labelSmall" style={styles.textDescription}>
+                      {l10n.settings.localServer.enableDescription}
+                    </Text>
+                  </View>
+                  <Switch
+                    testID="local-server-switch"
+                    value={localServerStore.isRunning}
+                    disabled={
+                      localServerStore.isStarting ||
+                      (!localServerStore.isRunning && !isValidServerPort)
+                    }
+                    onValueChange={value =>
+                      value ? localServerStore.start() : localServerStore.stop()
+                    }
+                  />
+                </View>
+                {!!localServerStore.error && (
+                  <Text style={styles.errorText} testID="local-server-error">
+                    {t(l10n.settings.localServer.startFailed, {
+                      error: localServerStore.error,
+                    })}
+                  </Text>
+                )}
+                <Divider style={styles.divider} />
+                <Text variant="titleMedium" style={styles.textLabel}>
+                  {l10n.settings.localServer.portLabel}
+                </Text>
+                <TextInput
+                  testID="local-server-port-input"
+                  style={[
+                    styles.textInput,
+                    !isValidServerPort && styles.invalidInput,
+                  ]}
+                  keyboardType="number-pad"
+                  editable={!localServerStore.isRunning}
+                  value={serverPort}
+                  onChangeText={handleServerPortChange}
+                />
+                {!isValidServerPort && (
+                  <Text style={styles.errorText}>
+                    {l10n.settings.localServer.invalidPort}
+                  </Text>
+                )}
+                {localServerStore.isRunning && (
+                  <>
+                    <Divider style={styles.divider} />
+                    <View style={styles.switchContainer}>
+                      <View style={styles.textContainer}>
+                        <Text variant="titleMedium" style={styles.textLabel}>
+                          {l10n.settings.localServer.addressLabel}
+                        </Text>
+                        <Text
+                          variant="labelSmall"
+                          style={styles.textDescription}
+                          selectable
+                          testID="local-server-url">
+                          {localServerStore.baseUrl ?? '-'}
+                        </Text>
+                      </View>
+                      {!!localServerStore.baseUrl && (
+                        <Button
+                          mode="text"
+                          onPress={() =>
+                            Clipboard.setString(localServerStore.baseUrl!)
+                          }>
+                          {l10n.settings.localServer.copy}
+                        </Button>
+                      )}
+                    </View>
+                    {!modelStore.context && (
+                      <Text variant="labelSmall" style={styles.errorText}>
+                        {l10n.settings.localServer.noModel}
+                      </Text>
+                    )}
+                  </>
+                )}
+                {!!localServerStore.apiKey && (
+                  <>
+                    <Divider style={styles.divider} />
+                    <View style={styles.switchContainer}>
+                      <View style={styles.textContainer}>
+                        <Text variant="titleMedium" style={styles.textLabel}>
+                          {l10n.settings.localServer.apiKeyLabel}
+                        </Text>
+                        <Text
+                          variant="labelSmall"
+                          style={styles.textDescription}
+                          selectable
+                          testID="local-server-api-key">
+                          {localServerStore.apiKey}
+                        </Text>
+                        <Text
+                          variant="labelSmall"
+                          style={styles.textDescription}>
+                          {l10n.settings.localServer.apiKeyDescription}
+                        </Text>
+                      </View>
+                      <Button
+                        mode="text"
+                        onPress={() =>
+                          Clipboard.setString(localServerStore.apiKey!)
+                        }>
+                        {l10n.settings.localServer.copy}
+                      </Button>
+                    </View>
+                    <Button
+                      testID="local-server-regenerate-key"
+                      mode="outlined"
+                      onPress={() => localServerStore.regenerateApiKey()}>
+                      {l10n.settings.localServer.regenerateKey}
+                    </Button>
+                  </>
+                )}
+              </View>
+            </Card.Content>
+          </Card>
+
           {/* API Settings */}
           <Card elevation={0} style={styles.card}>
             <Card.Title title={l10n.settings.apiSettingsTitle} />
@@ -1372,6 +1958,33 @@ export const SettingsScreen: React.FC = observer(() => {
                     onValueChange={value => hfStore.setUseHfToken(value)}
                   />
                 </View>
+
+                {/* Download Mirror */}
+                <Divider style={styles.divider} />
+                <Text variant="titleMedium" style={styles.textLabel}>
+                  {l10n.settings.hfMirrorLabel}
+                </Text>
+                <TextInput
+                  testID="hf-mirror-input"
+                  style={[
+                    styles.textInput,
+                    !isValidMirrorUrl && styles.invalidInput,
+                  ]}
+                  keyboardType="url"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  value={mirrorUrl}
+                  onChangeText={handleMirrorUrlChange}
+                  placeholder={l10n.settings.hfMirrorPlaceholder}
+                />
+                {!isValidMirrorUrl && (
+                  <Text style={styles.errorText}>
+                    {l10n.settings.invalidMirrorUrlError}
+                  </Text>
+                )}
+                <Text variant="labelSmall" style={styles.textDescription}>
+                  {l10n.settings.hfMirrorDescription}
+                </Text>
               </View>
             </Card.Content>
           </Card>
@@ -1526,6 +2139,26 @@ export const SettingsScreen: React.FC = observer(() => {
         providerLabel={activeSearchProvider?.label ?? activeSearchProviderId}
         onDismiss={() => setShowSearchKeySheet(false)}
       />
+      <McpServerSheet
+        isVisible={mcpSheetServerId !== undefined}
+        serverId={mcpSheetServerId ?? null}
+        onDismiss={() => setMcpSheetServerId(undefined)}
+      />
+      <WebhookToolSheet
+        isVisible={webhookSheetToolId !== undefined}
+        toolId={webhookSheetToolId ?? null}
+        onDismiss={() => setWebhookSheetToolId(undefined)}
+      />
+      <DocumentCollectionSheet
+        isVisible={documentSheetCollectionId !== undefined}
+        collectionId={documentSheetCollectionId ?? null}
+        onDismiss={() => setDocumentSheetCollectionId(undefined)}
+      />
+      <PalMemorySheet
+        isVisible={memorySheetPalId !== null}
+        palId={memorySheetPalId}
+        onDismiss={() => setMemorySheetPalId(null)}
+      />
     </SafeAreaView>
   );
 });
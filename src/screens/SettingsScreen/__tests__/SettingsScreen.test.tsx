@@ -11,7 +11,19 @@ import {
 
 import {SettingsScreen} from '../SettingsScreen';
 
-import {modelStore, uiStore, ttsStore} from '../../../store';
+import {
+  hfStore,
+  modelStore,
+  uiStore,
+  ttsStore,
+  mcpStore,
+  webhookToolStore,
+  documentStore,
+  palStore,
+  palMemoryStore,
+  downloadQueueStore,
+  localServerStore,
+} from '../../../store';
 import {l10n} from '../../../locales';
 
 jest.useFakeTimers();
@@ -137,6 +149,30 @@ describe('SettingsScreen', () => {
     expect(modelStore.updateUseAutoRelease).toHaveBeenCalledWith(false);
   });
 
+  it('toggles Keep Previous Model Warm and shows the warm count slider', async () => {
+    const {getByTestId, queryByTestId} = render(<SettingsScreen />, {
+      withSafeArea: true,
+      withNavigation: true,
+    });
+    expect(queryByTestId('max-warm-contexts-slider')).toBeNull();
+
+    await act(async () => {
+      fireEvent(getByTestId('keep-models-warm-switch'), 'valueChange', true);
+    });
+    expect(modelStore.setKeepModelsWarm).toHaveBeenCalledWith(true);
+
+    await act(async () => {
+      runInAction(() => {
+        modelStore.keepModelsWarm = true;
+      });
+    });
+    expect(getByTestId('max-warm-contexts-slider')).toBeTruthy();
+
+    runInAction(() => {
+      modelStore.keepModelsWarm = false;
+    });
+  });
+
   it('toggles Auto-Navigate to Chat switch', async () => {
     const {getByTestId} = render(<SettingsScreen />, {
       withSafeArea: true,
@@ -1254,6 +1290,310 @@ describe('SettingsScreen', () => {
     });
   });
 
+  describe('MCP servers card', () => {
+    afterEach(() => {
+      runInAction(() => {
+        mcpStore.servers = [];
+        mcpStore.status = {};
+      });
+    });
+
+    it('shows the empty state without servers', () => {
+      const {getByTestId} = render(<SettingsScreen />, {
+        withSafeArea: true,
+        withNavigation: true,
+      });
+
+      expect(getByTestId('mcp-servers-empty')).toBeTruthy();
+    });
+
+    it('lists servers with their connection status and toggles them', async () => {
+      runInAction(() => {
+        mcpStore.servers = [
+          {
+            id: 'mcp-1',
+            name: 'nas',
+            url: 'http://nas.local/mcp',
+            enabled: true,
+          },
+        ];
+        mcpStore.status = {
+          'mcp-1': {state: 'connected', toolNames: ['mcp_nas_a', 'mcp_nas_b']},
+        };
+      });
+      const {getByTestId, getByText} = render(<SettingsScreen />, {
+        withSafeArea: true,
+        withNavigation: true,
+      });
+
+      expect(getByText('Connected · 2 tools')).toBeTruthy();
+
+      await act(async () => {
+        fireEvent(getByTestId('mcp-server-switch-mcp-1'), 'valueChange', false);
+      });
+
+      expect(mcpStore.setServerEnabled).toHaveBeenCalledWith('mcp-1', false);
+    });
+  });
+
+  describe('HTTP tools card', () => {
+    afterEach(() => {
+      runInAction(() => {
+        webhookToolStore.tools = [];
+      });
+    });
+
+    it('lists configured tools and opens the add sheet', () => {
+      runInAction(() => {
+        webhookToolStore.tools = [
+          {
+            id: 'webhook-1',
+            name: 'lookup_order',
+            description: 'Look up an order',
+            parameters: {type: 'object', properties: {}},
+            urlTemplate: 'https://api.example.com/orders/{id}',
+            method: 'GET',
+            headers: [],
+          },
+        ];
+      });
+      const {getByTestId, getByText, queryByTestId} = render(
+        <SettingsScreen />,
+        {withSafeArea: true, withNavigation: true},
+      );
+
+      expect(queryByTestId('webhook-tools-empty')).toBeNull();
+      expect(getByText('GET https://api.example.com/orders/{id}')).toBeTruthy();
+
+      fireEvent.press(getByTestId('webhook-tool-add-button'));
+
+      expect(getByText('New HTTP Tool')).toBeTruthy();
+    });
+  });
+
+  describe('Documents card', () => {
+    // Menus open from a ref.measure() callback; see the draft model picker.
+    const mockNativeMethods =
+      require('react-native/jest/MockNativeMethods').default;
+    beforeEach(() => {
+      mockNativeMethods.measure.mockImplementation((cb: any) =>
+        cb(0, 0, 10, 10, 0, 0),
+      );
+    });
+    afterEach(() => {
+      mockNativeMethods.measure.mockReset();
+      runInAction(() => {
+        documentStore.collections = [];
+        documentStore.documents = [];
+        (documentStore as any).embeddingModelOptions = [];
+        documentStore.embeddingModelId = undefined;
+      });
+    });
+
+    it('lists collections, flags stale documents and opens the add sheet', () => {
+      runInAction(() => {
+        (documentStore as any).embeddingModelOptions = [
+          {...modelStore.models[0], id: 'embedder', name: 'Embedder'},
+        ];
+        documentStore.embeddingModelId = 'embedder';
+        documentStore.collections = [
+          {id: 'collection-1', name: 'Notes', createdAt: 1},
+        ];
+        documentStore.documents = [
+          {
+            id: 'doc-1',
+            collectionId: 'collection-1',
+            title: 'Tea guide',
+            charCount: 10,
+            chunkCount: 1,
+            embeddingModel: 'older',
+            createdAt: 1,
+          },
+        ];
+      });
+      const {getByTestId, getByText} = render(<SettingsScreen />, {
+        withSafeArea: true,
+        withNavigation: true,
+      });
+
+      expect(getByTestId('embedding-model-selector-button')).toHaveTextContent(
+        /Embedder/,
+      );
+      expect(
+        getByTestId('document-collection-row-collection-1'),
+      ).toHaveTextContent(/Notes.*1 document/);
+      expect(
+        getByText(
+          '1 documents were embedded with another model and are skipped by search.',
+        ),
+      ).toBeTruthy();
+
+      fireEvent.press(getByTestId('documents-reindex-button'));
+      expect(documentStore.reindexStaleDocuments).toHaveBeenCalled();
+
+      fireEvent.press(getByTestId('document-collection-add-button'));
+      expect(getByTestId('document-collection-name-input').props.value).toBe(
+        '',
+      );
+    });
+
+    it('selects an embedding model', async () => {
+      runInAction(() => {
+        (documentStore as any).embeddingModelOptions = [
+          {...modelStore.models[0], id: 'embedder', name: 'Embedder'},
+        ];
+      });
+      const {getByTestId} = render(<SettingsScreen />, {
+        withSafeArea: true,
+        withNavigation: true,
+      });
+
+      fireEvent.press(getByTestId('embedding-model-selector-button'));
+      await waitFor(() => {
+        expect(getByTestId('embedding-model-option-embedder')).toBeTruthy();
+      });
+      fireEvent.press(getByTestId('embedding-model-option-embedder'));
+
+      expect(documentStore.setEmbeddingModel).toHaveBeenCalledWith('embedder');
+    });
+  });
+
+  describe('Memory card', () => {
+    afterEach(() => {
+      runInAction(() => {
+        palStore.pals = [];
+        palMemoryStore.memories = [];
+      });
+    });
+
+    it('shows an empty state when no pal uses memory', () => {
+      const {getByTestId} = render(<SettingsScreen />, {
+        withSafeArea: true,
+        withNavigation: true,
+      });
+
+      expect(getByTestId('memory-pals-empty')).toBeTruthy();
+    });
+
+    it('lists pals with memory and opens their memories', () => {
+      runInAction(() => {
+        palStore.pals = [
+          {id: 'pal-1', name: 'Chef', capabilities: {memory: true}} as any,
+          {id: 'pal-2', name: 'Coach'} as any,
+          {id: 'pal-3', name: 'Tutor'} as any,
+        ];
+        palMemoryStore.memories = [
+          {
+            id: 'm1',
+            palId: 'pal-2',
+            content: 'Runs on Sundays.',
+            createdAt: 1,
+            updatedAt: 1,
+          },
+        ];
+      });
+      const {getByTestId, queryByTestId, getByText} = render(
+        <SettingsScreen />,
+        {
+          withSafeArea: true,
+          withNavigation: true,
+        },
+      );
+
+      expect(getByTestId('memory-pal-row-pal-1')).toHaveTextContent(
+        /Chef.*0 memories/,
+      );
+      expect(getByTestId('memory-pal-row-pal-2')).toHaveTextContent(
+        /Coach.*1 memory/,
+      );
+      expect(queryByTestId('memory-pal-row-pal-3')).toBeNull();
+
+      fireEvent.press(getByTestId('memory-pal-row-pal-2'));
+      expect(getByText('Runs on Sundays.')).toBeTruthy();
+    });
+  });
+
+  it('saves a download mirror and flags an invalid one', () => {
+    const {getByTestId, queryByText} = render(<SettingsScreen />, {
+      withSafeArea: true,
+      withNavigation: true,
+    });
+
+    fireEvent.changeText(getByTestId('hf-mirror-input'), 'https://hf.local');
+    expect(hfStore.setMirrorUrl).toHaveBeenCalledWith('https://hf.local');
+    expect(queryByText(l10n.en.settings.invalidMirrorUrlError)).toBeNull();
+
+    (hfStore.setMirrorUrl as jest.Mock).mockReturnValueOnce(false);
+    fireEvent.changeText(getByTestId('hf-mirror-input'), 'hf.local');
+    expect(queryByText(l10n.en.settings.invalidMirrorUrlError)).toBeTruthy();
+  });
+
+  it('changes the download queue settings', () => {
+    const {getByTestId} = render(<SettingsScreen />, {
+      withSafeArea: true,
+      withNavigation: true,
+    });
+
+    fireEvent.press(getByTestId('max-concurrent-downloads-3'));
+    expect(downloadQueueStore.setMaxConcurrent).toHaveBeenCalledWith(3);
+
+    fireEvent(
+      getByTestId('downloads-unmetered-only-switch'),
+      'onValueChange',
+      true,
+    );
+    expect(downloadQueueStore.setUnmeteredOnly).toHaveBeenCalledWith(true);
+
+    fireEvent(
+      getByTestId('downloads-charging-only-switch'),
+      'onValueChange',
+      true,
+    );
+    expect(downloadQueueStore.setChargingOnly).toHaveBeenCalledWith(true);
+  });
+
+  it('starts the LAN server and validates its port', () => {
+    const {getByTestId, queryByText} = render(<SettingsScreen />, {
+      withSafeArea: true,
+      withNavigation: true,
+    });
+
+    fireEvent(getByTestId('local-server-switch'), 'onValueChange', true);
+    expect(localServerStore.start).toHaveBeenCalled();
+
+    fireEvent.changeText(getByTestId('local-server-port-input'), '80');
+    expect(localServerStore.setPort).not.toHaveBeenCalled();
+    expect(queryByText(l10n.en.settings.localServer.invalidPort)).toBeTruthy();
+
+    fireEvent.changeText(getByTestId('local-server-port-input'), '8081');
+    expect(localServerStore.setPort).toHaveBeenCalledWith(8081);
+  });
+
+  it('shows the address and key of a running LAN server', () => {
+    runInAction(() => {
+      localServerStore.isRunning = true;
+      localServerStore.addresses = ['192.168.1.20'];
+      localServerStore.apiKey = 'pp-key';
+    });
+    const {getByTestId} = render(<SettingsScreen />, {
+      withSafeArea: true,
+      withNavigation: true,
+    });
+
+    expect(getByTestId('local-server-url').props.children).toBe(
+      'http://192.168.1.20:8080/v1',
+    );
+    expect(getByTestId('local-server-api-key').props.children).toBe('pp-key');
+    fireEvent(getByTestId('local-server-switch'), 'onValueChange', false);
+    expect(localServerStore.stop).toHaveBeenCalled();
+
+    runInAction(() => {
+      localServerStore.isRunning = false;
+      localServerStore.addresses = [];
+      localServerStore.apiKey = undefined;
+    });
+  });
+
   it('shows effective value when image_max_tokens exceeds n_ctx', async () => {
     jest.useFakeTimers();
     const {getByText, queryByText} = render(<SettingsScreen />, {
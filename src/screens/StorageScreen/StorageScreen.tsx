@@ -0,0 +1,221 @@
+import {Alert, ScrollView, View} from 'react-native';
+import React, {useCallback, useContext, useEffect, useState} from 'react';
+
+import {observer} from 'mobx-react';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {ActivityIndicator, Button, Card, Text} from 'react-native-paper';
+
+import {Checkbox} from '../../components';
+
+import {useTheme} from '../../hooks';
+import {L10nContext, formatBytes} from '../../utils';
+import {t} from '../../locales';
+
+import {createStyles} from './styles';
+
+import {modelStore} from '../../store';
+
+import type {
+  StorageIssue,
+  StorageIssueKind,
+  StorageReport,
+} from '../../utils/types';
+
+const SECTION_ORDER: StorageIssueKind[] = [
+  'orphan',
+  'partial',
+  'duplicate',
+  'unusedProjection',
+  'unusedDraft',
+  'missing',
+];
+
+const issueKey = (issue: StorageIssue) =>
+  `${issue.kind}:${issue.path ?? issue.modelId}`;
+
+export const StorageScreen: React.FC = observer(() => {
+  const theme = useTheme();
+  const styles = createStyles(theme);
+  const l10n = useContext(L10nContext);
+
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isScanning, setIsScanning] = useState(false);
+  const [isReclaiming, setIsReclaiming] = useState(false);
+
+  const scan = useCallback(async () => {
+    setIsScanning(true);
+    try {
+      const result = await modelStore.scanStorage();
+      setReport(result);
+      // Everything found is picked until the user unticks it.
+      setSelected(new Set(result.issues.map(issueKey)));
+    } catch (error) {
+      console.error('Failed to scan storage:', error);
+      Alert.alert(l10n.screenTitles.storage, l10n.storageScreen.scanFailed);
+    } finally {
+      setIsScanning(false);
+    }
+  }, [l10n]);
+
+  useEffect(() => {
+    scan();
+  }, [scan]);
+
+  const toggleIssue = (issue: StorageIssue) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (!next.delete(issueKey(issue))) {
+        next.add(issueKey(issue));
+      }
+      return next;
+    });
+  };
+
+  const pickedIssues =
+    report?.issues.filter(issue => selected.has(issueKey(issue))) ?? [];
+  const pickedBytes = pickedIssues.reduce((sum, issue) => sum + issue.size, 0);
+
+  const reclaim = async () => {
+    setIsReclaiming(true);
+    try {
+      const reclaimed = await modelStore.reclaimStorage(pickedIssues);
+      Alert.alert(
+        l10n.screenTitles.storage,
+        t(l10n.storageScreen.reclaimSuccess, {size: formatBytes(reclaimed)}),
+      );
+    } finally {
+      setIsReclaiming(false);
+    }
+    await scan();
+  };
+
+  const confirmReclaim = () => {
+    Alert.alert(
+      l10n.storageScreen.reclaimConfirmTitle,
+      t(l10n.storageScreen.reclaimConfirmMessage, {
+        count: pickedIssues.length.toString(),
+        size: formatBytes(pickedBytes),
+      }),
+      [
+        {text: l10n.common.cancel, style: 'cancel'},
+        {
+          text: l10n.storageScreen.reclaimButton,
+          style: 'destructive',
+          onPress: reclaim,
+        },
+      ],
+    );
+  };
+
+  const modelName = (modelId?: string) =>
+    modelStore.models.find(m => m.id === modelId)?.name ?? modelId ?? '';
+
+  const describeIssue = (issue: StorageIssue): string | undefined => {
+    if (issue.path) {
+      return issue.path.substring(0, issue.path.lastIndexOf('/'));
+    }
+    if (issue.kind === 'duplicate') {
+      return t(l10n.storageScreen.duplicateOf, {
+        name: modelName(issue.duplicateOf),
+      });
+    }
+    if (issue.kind === 'missing') {
+      return l10n.storageScreen.missingFile;
+    }
+    return undefined;
+  };
+
+  const renderIssue = (issue: StorageIssue) => {
+    const key = issueKey(issue);
+    const description = describeIssue(issue);
+    return (
+      <View key={key} style={styles.issueRow}>
+        <Checkbox
+          testID={`storage-issue-${key}`}
+          checked={selected.has(key)}
+          onPress={() => toggleIssue(issue)}
+        />
+        <View style={styles.issueText}>
+          <Text variant="bodyMedium">
+            {issue.path
+              ? issue.path.split('/').pop()
+              : modelName(issue.modelId)}
+          </Text>
+          {description && (
+            <Text variant="labelSmall" style={styles.issueDescription}>
+              {description}
+            </Text>
+          )}
+        </View>
+        <Text variant="labelMedium" style={styles.issueSize}>
+          {formatBytes(issue.size)}
+        </Text>
+      </View>
+    );
+  };
+
+  const isBusy = isScanning || isReclaiming;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView}>
+        <Card elevation={0} style={styles.card}>
+          <Card.Content>
+            {!report && isScanning ? (
+              <ActivityIndicator style={styles.loading} />
+            ) : (
+              <Text
+                variant="titleMedium"
+                style={styles.summary}
+                testID="storage-summary">
+                {report?.issues.length
+                  ? t(l10n.storageScreen.summary, {
+                      size: formatBytes(report.reclaimableBytes),
+                    })
+                  : l10n.storageScreen.nothingToReclaim}
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+
+        {SECTION_ORDER.map(kind => {
+          const issues = report?.issues.filter(issue => issue.kind === kind);
+          if (!issues?.length) {
+            return null;
+          }
+          return (
+            <Card key={kind} elevation={0} style={styles.card}>
+              <Card.Content>
+                <Text variant="titleSmall" style={styles.sectionTitle}>
+                  {l10n.storageScreen.sections[kind]}
+                </Text>
+                {issues.map(renderIssue)}
+              </Card.Content>
+            </Card>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button
+          mode="outlined"
+          onPress={scan}
+          disabled={isBusy}
+          style={styles.footerButton}
+          testID="storage-scan-button">
+          {l10n.storageScreen.scanAgain}
+        </Button>
+        <Button
+          mode="contained"
+          onPress={confirmReclaim}
+          disabled={isBusy || pickedIssues.length === 0}
+          loading={isReclaiming}
+          style={styles.footerButton}
+          testID="storage-reclaim-button">
+          {l10n.storageScreen.reclaimButton}
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+});
@@ -0,0 +1,65 @@
+import React from 'react';
+import {Alert} from 'react-native';
+
+import {fireEvent, render, waitFor} from '../../../../jest/test-utils';
+
+import {StorageScreen} from '../StorageScreen';
+
+import {modelStore} from '../../../store';
+import {l10n} from '../../../locales';
+
+import type {StorageReport} from '../../../utils/types';
+
+jest.spyOn(Alert, 'alert');
+
+const report: StorageReport = {
+  issues: [
+    {kind: 'orphan', path: '/models/hf/org/old/stale.gguf', size: 1000},
+    {kind: 'partial', path: '/models/hf/org/repo/next.gguf.part', size: 500},
+  ],
+  reclaimableBytes: 1500,
+};
+
+describe('StorageScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (modelStore.scanStorage as jest.Mock).mockResolvedValue(report);
+  });
+
+  it('lists what the scan found by kind', async () => {
+    const {getByText, getByTestId} = render(<StorageScreen />, {
+      withSafeArea: true,
+    });
+
+    await waitFor(() => {
+      expect(getByText(l10n.en.storageScreen.sections.orphan)).toBeTruthy();
+    });
+    expect(getByText(l10n.en.storageScreen.sections.partial)).toBeTruthy();
+    expect(getByText('stale.gguf')).toBeTruthy();
+    expect(getByTestId('storage-summary')).toHaveTextContent(
+      '1.5 kB can be reclaimed',
+    );
+  });
+
+  it('reclaims only the picked issues once confirmed', async () => {
+    const {getByTestId} = render(<StorageScreen />, {withSafeArea: true});
+
+    await waitFor(() => {
+      expect(
+        getByTestId('storage-issue-partial:/models/hf/org/repo/next.gguf.part'),
+      ).toBeTruthy();
+    });
+    fireEvent.press(
+      getByTestId('storage-issue-partial:/models/hf/org/repo/next.gguf.part'),
+    );
+    fireEvent.press(getByTestId('storage-reclaim-button'));
+
+    const buttons = (Alert.alert as jest.Mock).mock.calls[0][2];
+    await buttons
+      .find((button: any) => button.style === 'destructive')
+      .onPress();
+
+    expect(modelStore.reclaimStorage).toHaveBeenCalledWith([report.issues[0]]);
+    expect(modelStore.scanStorage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,52 @@
+import {StyleSheet} from 'react-native';
+import type {Theme} from '../../utils/types';
+
+export const createStyles = (theme: Theme) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    scrollView: {
+      flex: 1,
+      padding: 16,
+    },
+    card: {
+      marginBottom: 16,
+    },
+    summary: {
+      color: theme.colors.onSurface,
+    },
+    loading: {
+      marginVertical: 24,
+    },
+    sectionTitle: {
+      color: theme.colors.primary,
+      marginBottom: 8,
+    },
+    issueRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginVertical: 4,
+    },
+    issueText: {
+      flex: 1,
+      marginLeft: 8,
+    },
+    issueDescription: {
+      color: theme.colors.onSurfaceVariant,
+    },
+    issueSize: {
+      color: theme.colors.onSurfaceVariant,
+      marginLeft: 8,
+    },
+    footer: {
+      flexDirection: 'row',
+      gap: 8,
+      padding: 16,
+    },
+    footerButton: {
+      flex: 1,
+    },
+  });
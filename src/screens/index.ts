@@ -4,6 +4,7 @@ export * from './ChatScreen';
 export * from './ModelsScreen';
 export * from './PalsScreen';
 export * from './SettingsScreen';
+export * from './StorageScreen';
 
 // Dev tools screen. Only available in debug mode.
 export * from './DevToolsScreen';
@@ -4,7 +4,11 @@ import type {
   CompletionStreamData,
 } from '../../utils/completionTypes';
 import type {ChatMessage} from '../../utils/types';
-import type {AgentToolCall, AgentToolOutcome} from '../../utils/types';
+import type {
+  AgentToolApproval,
+  AgentToolCall,
+  AgentToolOutcome,
+} from '../../utils/types';
 
 import type {
   AgentEvent,
@@ -12,10 +16,21 @@ import type {
   AgentRunResult,
   TokenDelta,
 } from './AgentRunner.types';
-import type {TalentResult} from '../talents/types';
+import type {
+  TalentErrorReason,
+  TalentExecuteOptions,
+  TalentResult,
+} from '../talents/types';
+import {scheduleToolCalls} from './toolScheduler';
 
 export const DEFAULT_MAX_TURNS = 5;
 
+/** Per-call options a talent gets besides the abort signal. */
+type TalentCallContext = Omit<TalentExecuteOptions, 'signal'>;
+
+/** Deadline for talents that don't declare their own `timeoutMs`. */
+export const DEFAULT_TALENT_TIMEOUT_MS = 60000;
+
 const BUDGET_EXHAUSTED_NUDGE =
   '(Tool budget exhausted. Answer now using only the information gathered above; if it is insufficient, say what is missing.)';
 
@@ -128,6 +143,8 @@ async function executeOne(
   call: AgentToolCall,
   allowedTalentNames: string[],
   talentLookup: (name: string) => ReturnType<AgentRunOptions['talentLookup']>,
+  signal: AbortSignal,
+  context: TalentCallContext = {},
 ): Promise<AgentToolOutcome> {
   const fnName = call.function?.name ?? '';
   const callId = call.id;
@@ -169,7 +186,10 @@ async function executeOne(
   }
 
   try {
-    const toolResult = await handler.execute(parsedArgs);
+    const toolResult = await handler.execute(parsedArgs, {
+      signal,
+      ...context,
+    });
     return {
       callId,
       toolName: fnName,
@@ -188,6 +208,142 @@ async function executeOne(
   }
 }
 
+/**
+ * Outcome recorded for a call the runner ended rather than the talent:
+ * the user stopped generation (still queued behind a concurrency limit /
+ * dependency, or in flight when the abort landed), or the talent's
+ * deadline elapsed. The talent's own promise may still settle later;
+ * its result is dropped. `reason` lets the UI tell these apart from
+ * ordinary talent failures.
+ */
+function interruptedOutcome(
+  call: AgentToolCall,
+  reason: TalentErrorReason,
+  timeoutMs?: number,
+): AgentToolOutcome {
+  const fnName = call.function?.name ?? '';
+  const summary =
+    reason === 'timeout'
+      ? `Talent "${fnName}" timed out after ${Math.round(
+          (timeoutMs ?? 0) / 1000,
+        )}s`
+      : `Talent "${fnName}" was cancelled`;
+  const result: TalentResult = {
+    type: 'error',
+    summary,
+    errorMessage: summary,
+    reason,
+  };
+  return {callId: call.id, toolName: fnName, result, responseContent: summary};
+}
+
+/**
+ * Outcome injected for a call the approval gate turned down — the user
+ * answered "deny", or the Pal's policy is `'never'`. The talent never
+ * runs; the model reads the summary as the tool response and carries on.
+ */
+function declinedOutcome(
+  call: AgentToolCall,
+  approval: AgentToolApproval,
+): AgentToolOutcome {
+  const fnName = call.function?.name ?? '';
+  const summary =
+    approval.policy === 'never'
+      ? `The user does not allow "${fnName}" to run. Continue without it.`
+      : `The user declined to run "${fnName}". Continue without it.`;
+  const result: TalentResult = {
+    type: 'error',
+    summary,
+    errorMessage: summary,
+    reason: 'declined',
+  };
+  return {
+    callId: call.id,
+    toolName: fnName,
+    result,
+    responseContent: summary,
+    approval,
+  };
+}
+
+/**
+ * Wait for the user's answer to one approval prompt. A stop while the
+ * prompt is open, a missing `requestApproval`, or a rejecting one all
+ * count as "not approved".
+ */
+function awaitApproval(
+  call: AgentToolCall,
+  requestApproval: AgentRunOptions['requestApproval'],
+  signal: AbortSignal | undefined,
+): Promise<boolean> {
+  if (!requestApproval || signal?.aborted) {
+    return Promise.resolve(false);
+  }
+  return new Promise<boolean>(resolve => {
+    const onAbort = () => resolve(false);
+    signal?.addEventListener('abort', onAbort);
+    requestApproval(call)
+      .then(resolve, () => resolve(false))
+      .finally(() => signal?.removeEventListener('abort', onAbort));
+  });
+}
+
+const resolveTimeoutMs = (declared: number | undefined): number =>
+  declared !== undefined && Number.isFinite(declared) && declared > 0
+    ? declared
+    : DEFAULT_TALENT_TIMEOUT_MS;
+
+/**
+ * Run one call under its own AbortController, linked to the run's
+ * signal and armed with the talent's deadline. Whichever of talent
+ * result / stop / timeout lands first becomes the outcome; the
+ * controller is aborted on stop or timeout so a talent honouring
+ * `options.signal` tears down its in-flight request.
+ */
+async function executeWithDeadline(
+  call: AgentToolCall,
+  allowedTalentNames: string[],
+  talentLookup: AgentRunOptions['talentLookup'],
+  runSignal: AbortSignal | undefined,
+  context?: TalentCallContext,
+): Promise<AgentToolOutcome> {
+  if (runSignal?.aborted) {
+    return interruptedOutcome(call, 'cancelled');
+  }
+  const timeoutMs = resolveTimeoutMs(
+    talentLookup(call.function?.name ?? '')?.timeoutMs,
+  );
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onRunAbort = () => {};
+  const interrupted = new Promise<AgentToolOutcome>(resolve => {
+    onRunAbort = () => {
+      resolve(interruptedOutcome(call, 'cancelled'));
+      controller.abort();
+    };
+    timer = setTimeout(() => {
+      resolve(interruptedOutcome(call, 'timeout', timeoutMs));
+      controller.abort();
+    }, timeoutMs);
+  });
+  runSignal?.addEventListener('abort', onRunAbort);
+  try {
+    return await Promise.race([
+      executeOne(
+        call,
+        allowedTalentNames,
+        talentLookup,
+        controller.signal,
+        context,
+      ),
+      interrupted,
+    ]);
+  } finally {
+    clearTimeout(timer);
+    runSignal?.removeEventListener('abort', onRunAbort);
+  }
+}
+
 /**
  * Build the API messages array for the next turn after a tool round.
  * The previous turn's assistant message + its tool responses are
@@ -252,8 +408,17 @@ export async function* runAgent(
     messageId,
     maxTurns = DEFAULT_MAX_TURNS,
     signal,
+    approvalPolicyFor,
+    requestApproval,
+    talentRefFor,
+    palId,
   } = options;
 
+  const talentContextFor = (name: string): TalentCallContext => {
+    const talentRef = talentRefFor?.(name);
+    return {...(talentRef ? {talentRef} : {}), ...(palId ? {palId} : {})};
+  };
+
   yield {type: 'run_started', messageId};
 
   // When the consumer aborts mid-stream (e.g. user taps the stop
@@ -444,23 +609,76 @@ export async function* runAgent(
         break;
       }
 
-      const outcomes: AgentToolOutcome[] = [];
+      // Every call is announced up front, in call order, then the batch
+      // runs concurrently under the talents' scheduling policies. The
+      // outcomes are awaited front-to-back so `tool_call_finished`
+      // arrives in call order regardless of which call settles first —
+      // `appendToolOutcome` then lands `step.toolOutcomes[i]` against
+      // `step.toolCalls[i]`.
       for (const call of calls) {
         yield {type: 'tool_call_started', call};
-        const outcome = await executeOne(
-          call,
-          allowedTalentNames,
-          talentLookup,
-        );
+      }
+
+      // Approval gate. Prompts run one at a time, in call order, before
+      // anything in the batch executes — the user answers a stable
+      // sequence rather than racing prompts. Calls the runner would
+      // reject anyway (not enabled / not registered) never reach the
+      // user.
+      const approvals = new Map<string, AgentToolApproval>();
+      for (const call of calls) {
+        const name = call.function?.name ?? '';
+        if (!allowedTalentNames.includes(name) || !talentLookup(name)) {
+          continue;
+        }
+        const policy = approvalPolicyFor?.(name) ?? 'always';
+        if (policy === 'always') {
+          continue;
+        }
+        if (policy === 'never') {
+          approvals.set(call.id, {policy, decision: 'declined'});
+          continue;
+        }
+        if (signal?.aborted) {
+          break;
+        }
+        yield {type: 'tool_approval_requested', call};
+        const approved = await awaitApproval(call, requestApproval, signal);
+        approvals.set(call.id, {
+          policy,
+          decision: approved ? 'approved' : 'declined',
+        });
+        yield {type: 'tool_approval_resolved', callId: call.id, approved};
+      }
+
+      const pending = scheduleToolCalls(
+        calls,
+        name => talentLookup(name),
+        async call => {
+          const approval = approvals.get(call.id);
+          if (approval?.decision === 'declined' && !signal?.aborted) {
+            return declinedOutcome(call, approval);
+          }
+          const outcome = await executeWithDeadline(
+            call,
+            allowedTalentNames,
+            talentLookup,
+            signal,
+            talentContextFor(call.function?.name ?? ''),
+          );
+          return approval ? {...outcome, approval} : outcome;
+        },
+      );
+      const outcomes: AgentToolOutcome[] = [];
+      for (const outcomePromise of pending) {
+        const outcome = await outcomePromise;
         outcomes.push(outcome);
         yield {type: 'tool_call_finished', outcome};
       }
 
-      // Stop-mid-tool: if the abort fired during execution, the
-      // outcomes for in-flight calls have been emitted (we don't
-      // cancel synchronous-ish talents). Bail out at this turn
-      // boundary; the next turn would just be a follow-up the user
-      // doesn't want.
+      // Stop-mid-tool: in-flight calls settled as cancelled outcomes
+      // (still emitted, so every toolCall keeps a paired outcome).
+      // Bail out at this turn boundary; the next turn would just be a
+      // follow-up the user doesn't want.
       if (signal?.aborted) {
         break;
       }
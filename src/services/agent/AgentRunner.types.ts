@@ -9,6 +9,7 @@ import type {
   CompletionResult,
 } from '../../utils/completionTypes';
 import type {TalentEngine} from '../talents/types';
+import type {TalentApprovalPolicy, TalentRef} from '../../types/pal';
 
 /**
  * Tokens streamed from the engine, projected into a step-shaped delta.
@@ -44,6 +45,9 @@ export type AgentEvent =
   | {type: 'token'; delta: TokenDelta}
   | {type: 'marker_seen'; marker: string}
   | {type: 'tool_call_started'; call: AgentToolCall}
+  /** The run is paused on the user's answer for an `'ask'`-policy call. */
+  | {type: 'tool_approval_requested'; call: AgentToolCall}
+  | {type: 'tool_approval_resolved'; callId: string; approved: boolean}
   | {type: 'tool_call_finished'; outcome: AgentToolOutcome}
   | {
       type: 'step_finished';
@@ -75,6 +79,7 @@ export interface AgentUiState {
     | 'streaming_text'
     | 'generating_tool_call'
     | 'executing_tool'
+    | 'awaiting_approval'
     | 'done'
     | 'failed';
   pendingTalentNames: string[];
@@ -112,4 +117,17 @@ export interface AgentRunOptions {
   messageId: string;
   maxTurns?: number;
   signal?: AbortSignal;
+  /** The Pal's approval policy per talent name. Omitted (or returning
+   * `'always'`) runs calls without asking. */
+  approvalPolicyFor?: (name: string) => TalentApprovalPolicy;
+  /** Asks the user about one `'ask'`-policy call and resolves `true` to
+   * run it. The runner races it against `signal`; without it, `'ask'`
+   * calls are declined. */
+  requestApproval?: (call: AgentToolCall) => Promise<boolean>;
+  /** The Pal's declaration of a talent, handed to its `execute` so it can
+   * read per-Pal settings (e.g. document collections). */
+  talentRefFor?: (name: string) => TalentRef | undefined;
+  /** Pal the run belongs to, handed to talents that keep per-Pal state
+   * (e.g. memory). */
+  palId?: string;
 }
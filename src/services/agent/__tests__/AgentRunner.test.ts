@@ -959,7 +959,7 @@ describe('runAgent', () => {
     }
   });
 
-  it('#16 stop mid-tool: signal.aborted during executeOne() → in-flight outcome appended, then run_finished', async () => {
+  it('#16 stop mid-tool: signal.aborted during executeOne() → cancelled outcome appended, then run_finished', async () => {
     const controller = new AbortController();
     const engine = makeScriptedEngine({
       scripts: [
@@ -980,13 +980,14 @@ describe('runAgent', () => {
         // No second turn expected — abort fires at the boundary after tool execution.
       ],
     });
+    let talentSignalAborted = false;
     const slow: TalentEngine = {
       name: 'slow',
-      // The talent's execute() runs to completion; abort fires DURING it,
-      // but the runner does not cancel synchronous-ish talents — the
-      // outcome is still appended.
-      execute: async () => {
+      // Abort fires DURING execute(): the talent's signal is aborted and
+      // the call settles as cancelled; the talent's late result is dropped.
+      execute: async (_args, options) => {
         controller.abort();
+        talentSignalAborted = !!options?.signal?.aborted;
         return {type: 'text', summary: 'late'};
       },
       toToolDefinition: () => ({
@@ -1007,7 +1008,13 @@ describe('runAgent', () => {
     );
     const tcf = events.find(e => e.type === 'tool_call_finished');
     expect(tcf).toBeDefined();
-    expect((tcf as any).outcome.responseContent).toBe('late');
+    expect((tcf as any).outcome.result).toEqual({
+      type: 'error',
+      summary: 'Talent "slow" was cancelled',
+      errorMessage: 'Talent "slow" was cancelled',
+      reason: 'cancelled',
+    });
+    expect(talentSignalAborted).toBe(true);
     expect(events[events.length - 1].type).toBe('run_finished');
     // No second step_started (abort caught at the turn boundary).
     expect(events.filter(e => e.type === 'step_started')).toHaveLength(1);
@@ -1419,4 +1426,489 @@ describe('runAgent', () => {
     expect(stepFinished).toBeDefined();
     expect(stepFinished!.toolCalls).toBeUndefined();
   });
+
+  // ---------- Parallel tool execution ----------
+
+  function deferred<T>() {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(r => {
+      resolve = r;
+    });
+    return {promise, resolve};
+  }
+
+  function toolCallsTurn(calls: Array<{id: string; name: string}>): {
+    tokens: CompletionStreamData[];
+    result: CompletionResult;
+  } {
+    return {
+      tokens: [],
+      result: {
+        text: '',
+        content: '',
+        tool_calls: calls.map(c => ({
+          id: c.id,
+          type: 'function' as const,
+          function: {name: c.name, arguments: '{}'},
+        })),
+      },
+    };
+  }
+
+  it('runs same-talent calls concurrently up to maxConcurrency and emits finished events in call order', async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([
+          {id: 'a', name: 'search'},
+          {id: 'b', name: 'search'},
+        ]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    const gates = [deferred<void>(), deferred<void>()];
+    let running = 0;
+    let peak = 0;
+    let startedCount = 0;
+    const search: TalentEngine = {
+      ...makeTalent('search', () => ({type: 'text', summary: ''})),
+      maxConcurrency: 2,
+      execute: async () => {
+        const idx = startedCount++;
+        running += 1;
+        peak = Math.max(peak, running);
+        // Release the second call first; its outcome must still be
+        // emitted after the first call's.
+        if (idx === 1) {
+          gates[1].resolve();
+        }
+        await gates[idx].promise;
+        running -= 1;
+        if (idx === 1) {
+          gates[0].resolve();
+        }
+        return {type: 'text', summary: `r${idx}`};
+      },
+    };
+
+    const events = await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['search'],
+        talentLookup: () => search,
+        messageId: 'msg',
+        triggerMarkers: [],
+      }),
+    );
+    expect(peak).toBe(2);
+    const toolEvents = events
+      .filter(
+        e => e.type === 'tool_call_started' || e.type === 'tool_call_finished',
+      )
+      .map(e =>
+        e.type === 'tool_call_started'
+          ? `started:${e.call.id}`
+          : `finished:${(e as any).outcome.callId}`,
+      );
+    expect(toolEvents).toEqual([
+      'started:a',
+      'started:b',
+      'finished:a',
+      'finished:b',
+    ]);
+    const outcomes = events
+      .filter(e => e.type === 'tool_call_finished')
+      .map(e => (e as any).outcome.responseContent);
+    expect(outcomes).toEqual(['r0', 'r1']);
+  });
+
+  it('runs same-talent calls one at a time when no maxConcurrency is declared', async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([
+          {id: 'a', name: 'calculate'},
+          {id: 'b', name: 'calculate'},
+          {id: 'c', name: 'calculate'},
+        ]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    let running = 0;
+    let peak = 0;
+    const calculate = makeTalent('calculate', async () => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise(r => setTimeout(r, 0));
+      running -= 1;
+      return {type: 'text', summary: 'ok'};
+    });
+    await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['calculate'],
+        talentLookup: () => calculate,
+        messageId: 'msg',
+        triggerMarkers: [],
+      }),
+    );
+    expect(peak).toBe(1);
+  });
+
+  it('holds a dependent call until earlier calls to its dependency settle', async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([
+          {id: 's', name: 'search'},
+          {id: 'r', name: 'read'},
+        ]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    const order: string[] = [];
+    const search = makeTalent('search', async () => {
+      order.push('search:start');
+      await new Promise(r => setTimeout(r, 0));
+      order.push('search:end');
+      return {type: 'text', summary: 'hits'};
+    });
+    const read: TalentEngine = {
+      ...makeTalent('read', () => {
+        order.push('read:start');
+        return {type: 'text', summary: 'page'};
+      }),
+      dependsOn: ['search'],
+    };
+    await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['search', 'read'],
+        talentLookup: name => (name === 'search' ? search : read),
+        messageId: 'msg',
+        triggerMarkers: [],
+      }),
+    );
+    expect(order).toEqual(['search:start', 'search:end', 'read:start']);
+  });
+
+  it('abort mid-batch cancels in-flight and queued calls, emitting an outcome for each', async () => {
+    const controller = new AbortController();
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([
+          {id: 'a', name: 'slow'},
+          {id: 'b', name: 'slow'},
+        ]),
+      ],
+    });
+    const executed: string[] = [];
+    const never = deferred<TalentResult>();
+    const slow = makeTalent('slow', () => {
+      executed.push('slow');
+      // Abort while this call hangs; the queued second call must never run.
+      setTimeout(() => controller.abort(), 0);
+      return never.promise;
+    });
+    const events = await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['slow'],
+        talentLookup: () => slow,
+        messageId: 'msg',
+        triggerMarkers: [],
+        signal: controller.signal,
+      }),
+    );
+    expect(executed).toEqual(['slow']);
+    const finished = events.filter(e => e.type === 'tool_call_finished');
+    expect(finished.map(e => (e as any).outcome.callId)).toEqual(['a', 'b']);
+    for (const e of finished) {
+      expect((e as any).outcome.result.type).toBe('error');
+      expect((e as any).outcome.responseContent).toBe(
+        'Talent "slow" was cancelled',
+      );
+    }
+    expect(events[events.length - 1].type).toBe('run_finished');
+    expect(events.filter(e => e.type === 'step_started')).toHaveLength(1);
+  });
+
+  // ---------- Talent deadlines ----------
+
+  it('a talent that outlives its timeoutMs settles as a timeout outcome and sees its signal aborted', async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([{id: 'h', name: 'hang'}]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    let seenSignal: AbortSignal | undefined;
+    const hang: TalentEngine = {
+      ...makeTalent('hang', () => ({type: 'text', summary: ''})),
+      timeoutMs: 5,
+      execute: (_args, options) => {
+        seenSignal = options?.signal;
+        return new Promise<TalentResult>(() => {});
+      },
+    };
+    const events = await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['hang'],
+        talentLookup: () => hang,
+        messageId: 'msg',
+        triggerMarkers: [],
+      }),
+    );
+    const finished = events.find(e => e.type === 'tool_call_finished') as any;
+    expect(finished.outcome.result.type).toBe('error');
+    expect(finished.outcome.result.reason).toBe('timeout');
+    expect(finished.outcome.responseContent).toBe(
+      'Talent "hang" timed out after 0s',
+    );
+    expect(seenSignal?.aborted).toBe(true);
+    // The run carries on to the follow-up turn with the timeout as context.
+    expect(events.filter(e => e.type === 'step_started')).toHaveLength(2);
+    expect(events[events.length - 1].type).toBe('run_finished');
+  });
+
+  it('a talent that finishes within its timeoutMs keeps its result and an un-aborted signal', async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([{id: 'q', name: 'quick'}]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    let seenSignal: AbortSignal | undefined;
+    const quick: TalentEngine = {
+      ...makeTalent('quick', () => ({type: 'text', summary: ''})),
+      timeoutMs: 1000,
+      execute: async (_args, options) => {
+        seenSignal = options?.signal;
+        return {type: 'text', summary: 'fast'};
+      },
+    };
+    const events = await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['quick'],
+        talentLookup: () => quick,
+        messageId: 'msg',
+        triggerMarkers: [],
+      }),
+    );
+    const finished = events.find(e => e.type === 'tool_call_finished') as any;
+    expect(finished.outcome.responseContent).toBe('fast');
+    expect(seenSignal).toBeDefined();
+    expect(seenSignal!.aborted).toBe(false);
+  });
+
+  it("passes the Pal's talent entry to execute via talentRefFor", async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([{id: 'd', name: 'search_documents'}]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    const execute = jest.fn(
+      async (): Promise<TalentResult> => ({type: 'text', summary: 'ok'}),
+    );
+    const docs: TalentEngine = {
+      ...makeTalent('search_documents', () => ({type: 'text', summary: ''})),
+      execute,
+    };
+    const ref = {
+      name: 'search_documents',
+      necessity: 'required' as const,
+      collections: ['c1'],
+    };
+    await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['search_documents'],
+        talentLookup: () => docs,
+        talentRefFor: name => (name === 'search_documents' ? ref : undefined),
+        messageId: 'msg',
+        triggerMarkers: [],
+      }),
+    );
+    expect(execute).toHaveBeenCalledWith(
+      {},
+      {signal: expect.any(Object), talentRef: ref},
+    );
+  });
+
+  it('passes the calling Pal id to execute', async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([{id: 'r', name: 'remember'}]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    const execute = jest.fn(
+      async (): Promise<TalentResult> => ({type: 'text', summary: 'ok'}),
+    );
+    const remember: TalentEngine = {
+      ...makeTalent('remember', () => ({type: 'text', summary: ''})),
+      execute,
+    };
+    await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['remember'],
+        talentLookup: () => remember,
+        palId: 'pal-1',
+        messageId: 'msg',
+        triggerMarkers: [],
+      }),
+    );
+    expect(execute).toHaveBeenCalledWith(
+      {},
+      {signal: expect.any(Object), palId: 'pal-1'},
+    );
+  });
+
+  // ---------- Approval gate ----------
+
+  it("an 'ask' call waits for the user and runs once approved", async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([{id: 'w', name: 'web'}]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    const executed: string[] = [];
+    const web = makeTalent('web', () => {
+      executed.push('web');
+      return {type: 'text', summary: 'page'};
+    });
+    const requested: string[] = [];
+    const events = await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['web'],
+        talentLookup: () => web,
+        messageId: 'msg',
+        triggerMarkers: [],
+        approvalPolicyFor: () => 'ask',
+        requestApproval: async call => {
+          requested.push(call.id);
+          return true;
+        },
+      }),
+    );
+    expect(requested).toEqual(['w']);
+    expect(executed).toEqual(['web']);
+    const types = events.map(e => e.type);
+    expect(types.indexOf('tool_approval_requested')).toBeGreaterThan(
+      types.indexOf('tool_call_started'),
+    );
+    expect(
+      events.find(e => e.type === 'tool_approval_resolved') as any,
+    ).toMatchObject({callId: 'w', approved: true});
+    const finished = events.find(e => e.type === 'tool_call_finished') as any;
+    expect(finished.outcome.responseContent).toBe('page');
+    expect(finished.outcome.approval).toEqual({
+      policy: 'ask',
+      decision: 'approved',
+    });
+  });
+
+  it("a declined 'ask' call never executes and tells the model why", async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([{id: 'w', name: 'web'}]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    const execute = jest.fn();
+    const web = makeTalent('web', execute);
+    const events = await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['web'],
+        talentLookup: () => web,
+        messageId: 'msg',
+        triggerMarkers: [],
+        approvalPolicyFor: () => 'ask',
+        requestApproval: async () => false,
+      }),
+    );
+    expect(execute).not.toHaveBeenCalled();
+    const finished = events.find(e => e.type === 'tool_call_finished') as any;
+    expect(finished.outcome.result.reason).toBe('declined');
+    expect(finished.outcome.responseContent).toBe(
+      'The user declined to run "web". Continue without it.',
+    );
+    expect(finished.outcome.approval).toEqual({
+      policy: 'ask',
+      decision: 'declined',
+    });
+    expect(events.filter(e => e.type === 'step_started')).toHaveLength(2);
+  });
+
+  it("a 'never' call is declined without prompting", async () => {
+    const engine = makeScriptedEngine({
+      scripts: [
+        toolCallsTurn([{id: 'w', name: 'web'}]),
+        {tokens: [], result: {text: 'done', content: 'done'}},
+      ],
+    });
+    const requestApproval = jest.fn();
+    const execute = jest.fn();
+    const events = await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['web'],
+        talentLookup: () => makeTalent('web', execute),
+        messageId: 'msg',
+        triggerMarkers: [],
+        approvalPolicyFor: () => 'never',
+        requestApproval,
+      }),
+    );
+    expect(requestApproval).not.toHaveBeenCalled();
+    expect(execute).not.toHaveBeenCalled();
+    expect(events.some(e => e.type === 'tool_approval_requested')).toBe(false);
+    const finished = events.find(e => e.type === 'tool_call_finished') as any;
+    expect(finished.outcome.responseContent).toBe(
+      'The user does not allow "web" to run. Continue without it.',
+    );
+  });
+
+  it('stopping while an approval is pending cancels the call instead of declining it', async () => {
+    const controller = new AbortController();
+    const engine = makeScriptedEngine({
+      scripts: [toolCallsTurn([{id: 'w', name: 'web'}])],
+    });
+    const execute = jest.fn();
+    const events = await collect(
+      runAgent({
+        engine,
+        initialParams: baseParams,
+        allowedTalentNames: ['web'],
+        talentLookup: () => makeTalent('web', execute),
+        messageId: 'msg',
+        triggerMarkers: [],
+        signal: controller.signal,
+        approvalPolicyFor: () => 'ask',
+        requestApproval: () => {
+          setTimeout(() => controller.abort(), 0);
+          return new Promise<boolean>(() => {});
+        },
+      }),
+    );
+    expect(execute).not.toHaveBeenCalled();
+    const finished = events.find(e => e.type === 'tool_call_finished') as any;
+    expect(finished.outcome.result.reason).toBe('cancelled');
+    expect(events[events.length - 1].type).toBe('run_finished');
+  });
 });
@@ -214,6 +214,34 @@ describe('agentStateReducer', () => {
     expect(next).toEqual(before);
   });
 
+  it('tool_approval_requested → awaiting_approval, pendingTalentNames cleared', () => {
+    const next = agentStateReducer(
+      {
+        status: 'executing_tool',
+        pendingTalentNames: ['web_search'],
+        hitMaxTurns: false,
+      },
+      {
+        type: 'tool_approval_requested',
+        call: {
+          id: 'c0',
+          type: 'function',
+          function: {name: 'web_search', arguments: '{}'},
+        },
+      },
+    );
+    expect(next.status).toBe('awaiting_approval');
+    expect(next.pendingTalentNames).toEqual([]);
+  });
+
+  it('tool_approval_resolved → back to executing_tool', () => {
+    const next = agentStateReducer(
+      {...initialAgentUiState, status: 'awaiting_approval'},
+      {type: 'tool_approval_resolved', callId: 'c0', approved: false},
+    );
+    expect(next.status).toBe('executing_tool');
+  });
+
   it('step_finished is a no-op on UI state', () => {
     const before: AgentUiState = {
       status: 'streaming_text',
@@ -0,0 +1,72 @@
+import {scheduleToolCalls} from '../toolScheduler';
+import type {AgentToolCall} from '../../../utils/types';
+
+const call = (id: string, name: string): AgentToolCall => ({
+  id,
+  type: 'function',
+  function: {name, arguments: '{}'},
+});
+
+const tick = () => new Promise(r => setTimeout(r, 0));
+
+describe('scheduleToolCalls', () => {
+  it('returns one promise per call in call order', async () => {
+    const calls = [call('a', 'x'), call('b', 'y'), call('c', 'x')];
+    const pending = scheduleToolCalls(
+      calls,
+      () => ({maxConcurrency: 2}),
+      async c => c.id,
+    );
+    expect(await Promise.all(pending)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('overlaps calls to different talents even at the default limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const pending = scheduleToolCalls(
+      [call('a', 'x'), call('b', 'y')],
+      () => undefined,
+      async () => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await tick();
+        running -= 1;
+      },
+    );
+    await Promise.all(pending);
+    expect(peak).toBe(2);
+  });
+
+  it('treats invalid maxConcurrency values as 1', async () => {
+    let running = 0;
+    let peak = 0;
+    const pending = scheduleToolCalls(
+      [call('a', 'x'), call('b', 'x')],
+      () => ({maxConcurrency: 0}),
+      async () => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await tick();
+        running -= 1;
+      },
+    );
+    await Promise.all(pending);
+    expect(peak).toBe(1);
+  });
+
+  it('only waits on dependencies emitted earlier in the step', async () => {
+    const order: string[] = [];
+    const pending = scheduleToolCalls(
+      [call('r', 'read'), call('s', 'search')],
+      name => (name === 'read' ? {dependsOn: ['search']} : undefined),
+      async c => {
+        order.push(`${c.id}:start`);
+        await tick();
+        order.push(`${c.id}:end`);
+      },
+    );
+    await Promise.all(pending);
+    // `read` precedes `search`, so it does not wait — both start at once.
+    expect(order.slice(0, 2)).toEqual(['r:start', 's:start']);
+  });
+});
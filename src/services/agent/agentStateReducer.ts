@@ -79,6 +79,17 @@ export function agentStateReducer(
         status: 'executing_tool',
         pendingTalentNames: [],
       };
+    case 'tool_approval_requested':
+      return {
+        ...state,
+        status: 'awaiting_approval',
+        pendingTalentNames: [],
+      };
+    case 'tool_approval_resolved':
+      return {
+        ...state,
+        status: 'executing_tool',
+      };
     case 'tool_call_finished':
     case 'step_finished':
       // Outcomes accumulate on the step; status flips on the next event.
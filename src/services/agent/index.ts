@@ -7,6 +7,10 @@ export type {
 } from './AgentRunner.types';
 export {initialAgentUiState} from './AgentRunner.types';
 export {agentStateReducer} from './agentStateReducer';
-export {runAgent, DEFAULT_MAX_TURNS} from './AgentRunner';
+export {
+  runAgent,
+  DEFAULT_MAX_TURNS,
+  DEFAULT_TALENT_TIMEOUT_MS,
+} from './AgentRunner';
 export {createTriggerMarkerCache} from './triggerMarkers';
 export type {TriggerMarkerCache} from './triggerMarkers';
@@ -0,0 +1,107 @@
+import type {AgentToolCall} from '../../utils/types';
+
+/**
+ * Scheduling hints a talent declares for calls within one step. Read
+ * off the `TalentEngine` by the runner; unknown talents get the
+ * defaults (one call at a time, no dependencies).
+ */
+export interface ToolSchedulePolicy {
+  maxConcurrency?: number;
+  dependsOn?: readonly string[];
+}
+
+/**
+ * FIFO counting semaphore. Waiters are granted in the order they
+ * called `acquire`, which — because the scheduler walks calls in index
+ * order — keeps same-talent calls starting in the order the model
+ * emitted them.
+ */
+class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  acquire(): Promise<() => void> {
+    return new Promise(resolve => {
+      const grant = () => {
+        this.active += 1;
+        resolve(() => this.release());
+      };
+      if (this.active < this.limit) {
+        grant();
+      } else {
+        this.waiters.push(grant);
+      }
+    });
+  }
+
+  private release(): void {
+    this.active -= 1;
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    }
+  }
+}
+
+const toLimit = (value: number | undefined): number =>
+  value !== undefined && Number.isFinite(value) && value >= 1
+    ? Math.floor(value)
+    : 1;
+
+/**
+ * Start every call of one step, concurrently where the policies allow,
+ * and return one promise per call in the original call order. Callers
+ * await the array front-to-back so outcomes are observed in a
+ * deterministic order no matter which call settles first.
+ *
+ * - Calls to the same talent share a semaphore sized by that talent's
+ *   `maxConcurrency` (default 1, i.e. serial).
+ * - A call whose talent lists `dependsOn` waits until every EARLIER
+ *   call to one of those talents has settled (e.g. `read_url` after a
+ *   `web_search` that seeds its allowlist). Later calls are never
+ *   waited on, so the dependency graph cannot cycle.
+ *
+ * `run` must not reject; the runner's executor already folds failures
+ * into error outcomes.
+ */
+export function scheduleToolCalls<T>(
+  calls: AgentToolCall[],
+  policyFor: (name: string) => ToolSchedulePolicy | undefined,
+  run: (call: AgentToolCall, index: number) => Promise<T>,
+): Promise<T>[] {
+  const semaphores = new Map<string, Semaphore>();
+  const names = calls.map(call => call.function?.name ?? '');
+  const settled: Promise<void>[] = [];
+
+  return calls.map((call, index) => {
+    const name = names[index];
+    const policy = policyFor(name);
+
+    let semaphore = semaphores.get(name);
+    if (!semaphore) {
+      semaphore = new Semaphore(toLimit(policy?.maxConcurrency));
+      semaphores.set(name, semaphore);
+    }
+    const gate = semaphore;
+
+    const dependsOn = policy?.dependsOn ?? [];
+    const prerequisites =
+      dependsOn.length === 0
+        ? []
+        : settled.filter((_, j) => dependsOn.includes(names[j]));
+
+    const task = Promise.all(prerequisites)
+      .then(() => gate.acquire())
+      .then(release => run(call, index).finally(release));
+
+    settled.push(
+      task.then(
+        () => undefined,
+        () => undefined,
+      ),
+    );
+    return task;
+  });
+}
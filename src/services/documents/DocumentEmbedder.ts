@@ -0,0 +1,76 @@
+import {initLlama, LlamaContext} from 'llama.rn';
+
+/** Free the embedding context after this long without a request. */
+const IDLE_RELEASE_MS = 60_000;
+
+// Non-causal embedding models need the whole input in one ubatch, so the
+// batch sizes match the context; chunks stay well under it.
+const EMBEDDING_CONTEXT_TOKENS = 2048;
+
+/**
+ * Owns a llama.rn context opened in embedding mode, separate from the chat
+ * context so indexing and search never unload the user's model. Requests
+ * run one at a time; the context is released after a minute idle.
+ */
+export class DocumentEmbedder {
+  private context?: LlamaContext;
+  private modelPath?: string;
+  private queue: Promise<unknown> = Promise.resolve();
+  private idleTimer?: ReturnType<typeof setTimeout>;
+
+  /** Embed `texts` in order. Stops between texts once `signal` aborts. */
+  embed(
+    modelPath: string,
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<number[][]> {
+    const run = this.queue.then(async () => {
+      clearTimeout(this.idleTimer);
+      try {
+        const ctx = await this.contextFor(modelPath);
+        const vectors: number[][] = [];
+        for (const text of texts) {
+          if (signal?.aborted) {
+            throw new Error('Embedding cancelled');
+          }
+          const {embedding} = await ctx.embedding(text, {embd_normalize: 2});
+          vectors.push(embedding);
+        }
+        return vectors;
+      } finally {
+        this.idleTimer = setTimeout(() => this.release(), IDLE_RELEASE_MS);
+      }
+    });
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  async release(): Promise<void> {
+    clearTimeout(this.idleTimer);
+    const ctx = this.context;
+    this.context = undefined;
+    this.modelPath = undefined;
+    try {
+      await ctx?.release();
+    } catch (error) {
+      console.warn('[documents] failed to release embedding context', error);
+    }
+  }
+
+  private async contextFor(modelPath: string): Promise<LlamaContext> {
+    if (this.context && this.modelPath === modelPath) {
+      return this.context;
+    }
+    await this.release();
+    this.context = await initLlama({
+      model: modelPath,
+      // Pooling is left to the model's GGUF metadata.
+      embedding: true,
+      n_ctx: EMBEDDING_CONTEXT_TOKENS,
+      n_batch: EMBEDDING_CONTEXT_TOKENS,
+      n_ubatch: EMBEDDING_CONTEXT_TOKENS,
+    });
+    this.modelPath = modelPath;
+    return this.context;
+  }
+}
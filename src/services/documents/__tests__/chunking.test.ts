@@ -0,0 +1,51 @@
+import {chunkText} from '../chunking';
+
+describe('chunkText', () => {
+  it('packs short paragraphs into one chunk', () => {
+    expect(chunkText('First para.\n\nSecond   para.\r\n\r\nThird.')).toEqual([
+      'First para.\n\nSecond para.\n\nThird.',
+    ]);
+  });
+
+  it('starts a new chunk when the next paragraph would not fit', () => {
+    const a = 'a'.repeat(30);
+    const b = 'b'.repeat(30);
+    expect(chunkText(`${a}\n\n${b}`, {maxChars: 50, overlapChars: 0})).toEqual([
+      a,
+      b,
+    ]);
+  });
+
+  it('cuts long paragraphs at sentence ends and overlaps the chunks', () => {
+    const text =
+      'One two three four. Five six seven eight. Nine ten eleven twelve.';
+    const chunks = chunkText(text, {maxChars: 45, overlapChars: 15});
+
+    expect(chunks[0]).toBe('One two three four. Five six seven eight.');
+    expect(chunks[1]).toBe('seven eight. Nine ten eleven twelve.');
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(45));
+  });
+
+  it('falls back to word and then character boundaries', () => {
+    expect(
+      chunkText('alpha beta gamma delta epsilon', {
+        maxChars: 12,
+        overlapChars: 0,
+      }),
+    ).toEqual(['alpha beta', 'gamma delta', 'epsilon']);
+
+    // Never splits a surrogate pair in space-less text.
+    const chunks = chunkText('字'.repeat(4) + '😀'.repeat(4), {
+      maxChars: 5,
+      overlapChars: 0,
+    });
+    expect(chunks.join('')).toBe('字'.repeat(4) + '😀'.repeat(4));
+    chunks.forEach(chunk =>
+      expect(chunk).not.toMatch(/^[\udc00-\udfff]|[\ud800-\udbff]$/),
+    );
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(chunkText(' \n\n \t')).toEqual([]);
+  });
+});
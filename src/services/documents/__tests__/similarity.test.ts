@@ -0,0 +1,42 @@
+import {cosineSimilarity, rankChunks} from '../similarity';
+
+const candidate = (id: string, embedding: number[]) => ({
+  documentId: id,
+  collectionId: 'c1',
+  position: 0,
+  text: id,
+  embedding,
+});
+
+describe('cosineSimilarity', () => {
+  it('measures the angle between vectors', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 1], [1, 0])).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('returns 0 for mismatched or zero vectors', () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    expect(cosineSimilarity([], [])).toBe(0);
+  });
+});
+
+describe('rankChunks', () => {
+  it('orders by similarity, drops non-matches and applies the limit', () => {
+    const ranked = rankChunks(
+      [1, 0],
+      [
+        candidate('near', [0.9, 0.1]),
+        candidate('orthogonal', [0, 1]),
+        candidate('exact', [1, 0]),
+        candidate('other-model', [1, 0, 0]),
+        candidate('far', [0.2, 0.8]),
+      ],
+      2,
+    );
+
+    expect(ranked.map(c => c.documentId)).toEqual(['exact', 'near']);
+    expect(ranked[0].score).toBeCloseTo(1);
+  });
+});
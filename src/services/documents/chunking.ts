@@ -0,0 +1,100 @@
+import type {ChunkOptions} from './types';
+
+/** ~300 tokens per chunk: small enough for short embedding contexts. */
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxChars: 1200,
+  overlapChars: 150,
+};
+
+/** Cut before `maxChars`, preferring a sentence end, then a space. */
+const splitPoint = (text: string, maxChars: number): number => {
+  if (text.length <= maxChars) {
+    return text.length;
+  }
+  const window = text.slice(0, maxChars);
+  const sentenceEnd = Math.max(
+    window.lastIndexOf('. '),
+    window.lastIndexOf('! '),
+    window.lastIndexOf('? '),
+    window.lastIndexOf('\n'),
+  );
+  if (sentenceEnd > maxChars / 2) {
+    return sentenceEnd + 1;
+  }
+  const space = window.lastIndexOf(' ');
+  if (space > maxChars / 2) {
+    return space + 1;
+  }
+  // Space-less scripts (CJK/Thai): cut on a char boundary, never inside a
+  // surrogate pair.
+  const last = text.charCodeAt(maxChars - 1);
+  return last >= 0xd800 && last <= 0xdbff ? maxChars - 1 : maxChars;
+};
+
+/**
+ * Where the chunk after `[start, cut)` begins: `overlapChars` back from the
+ * cut, moved forward to a word start, and always past `start`.
+ */
+const nextStart = (
+  block: string,
+  start: number,
+  cut: number,
+  overlapChars: number,
+): number => {
+  if (overlapChars <= 0) {
+    return cut;
+  }
+  const back = Math.max(cut - overlapChars, start + 1);
+  const space = block.indexOf(' ', back);
+  return space >= 0 && space < cut ? space + 1 : back;
+};
+
+/**
+ * Split document text into overlapping chunks for embedding. Paragraphs are
+ * packed together up to `maxChars`; a longer paragraph is cut at sentence
+ * or word boundaries. Each chunk after the first repeats the tail of the
+ * previous one so a passage straddling a cut is still found whole.
+ */
+export const chunkText = (
+  text: string,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS,
+): string[] => {
+  const {maxChars, overlapChars} = options;
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean);
+
+  // Pack whole paragraphs first, then cut the oversized ones.
+  const blocks: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + 2 + paragraph.length <= maxChars) {
+      current = `${current}\n\n${paragraph}`;
+    } else {
+      if (current) {
+        blocks.push(current);
+      }
+      current = paragraph;
+    }
+  }
+  if (current) {
+    blocks.push(current);
+  }
+
+  const chunks: string[] = [];
+  for (const block of blocks) {
+    let start = 0;
+    while (block.length - start > maxChars) {
+      const cut = start + splitPoint(block.slice(start), maxChars);
+      chunks.push(block.slice(start, cut).trim());
+      start = nextStart(block, start, cut, overlapChars);
+    }
+    const rest = block.slice(start).trim();
+    if (rest) {
+      chunks.push(rest);
+    }
+  }
+  return chunks;
+};
@@ -0,0 +1,9 @@
+export type {
+  EmbeddedChunk,
+  ChunkCandidate,
+  DocumentHit,
+  ChunkOptions,
+} from './types';
+export {chunkText, DEFAULT_CHUNK_OPTIONS} from './chunking';
+export {cosineSimilarity, rankChunks} from './similarity';
+export {DocumentEmbedder} from './DocumentEmbedder';
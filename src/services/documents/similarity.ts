@@ -0,0 +1,38 @@
+import type {ChunkCandidate} from './types';
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/**
+ * The `limit` candidates closest to `query`, best first. Candidates whose
+ * vector has a different dimension (another embedding model) score 0 and
+ * are dropped.
+ */
+export const rankChunks = <T extends ChunkCandidate>(
+  query: number[],
+  candidates: T[],
+  limit: number,
+): Array<T & {score: number}> =>
+  candidates
+    .map(candidate => ({
+      ...candidate,
+      score: cosineSimilarity(query, candidate.embedding),
+    }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(0, limit));
@@ -0,0 +1,29 @@
+/** A chunk ready to store: its text and the vector it was embedded to. */
+export interface EmbeddedChunk {
+  text: string;
+  embedding: number[];
+}
+
+/** A stored chunk as the ranking step sees it. */
+export interface ChunkCandidate extends EmbeddedChunk {
+  documentId: string;
+  collectionId: string;
+  position: number;
+}
+
+/** One ranked passage returned by a document search. */
+export interface DocumentHit {
+  documentId: string;
+  title: string;
+  collectionName: string;
+  position: number;
+  text: string;
+  score: number;
+}
+
+export interface ChunkOptions {
+  /** Upper bound on a chunk's length, in characters. */
+  maxChars: number;
+  /** Characters repeated from the end of one chunk at the start of the next. */
+  overlapChars: number;
+}
@@ -1,17 +1,19 @@
 import * as RNFS from '@dr.pogodin/react-native-fs';
 import {makeAutoObservable, observable, runInAction} from 'mobx';
-import {NativeEventEmitter, Platform} from 'react-native';
+import {NativeEventEmitter} from 'react-native';
 
 import {
   DownloadEventCallbacks,
   DownloadJob,
   DownloadMap,
+  DownloadPart,
   DownloadProgress,
 } from './types';
 
 import {Model} from '../../utils/types';
-import {formatBytes, hasEnoughSpace, hfUserAgent} from '../../utils';
-import {uiStore} from '../../store';
+import {formatBytes, hasEnoughSpace} from '../../utils';
+import {applyHfMirror, modelFilePaths} from '../../utils/hf';
+import {downloadQueueStore, hfStore, uiStore} from '../../store';
 import NativeDownloadModule from '../../specs/NativeDownloadModule';
 import type {
   DownloadConfig,
@@ -20,6 +22,14 @@ import type {
 
 const TAG = 'DownloadManager';
 
+/**
+ * Where a download is written until it completes. The file is moved to its
+ * destination once complete, so a partial file is never mistaken for a
+ * model and a later start resumes from it.
+ */
+export const partialDownloadPath = (destination: string): string =>
+  `${destination}.part`;
+
 /**
  * Signals a user-cancelled download (vs. a genuine failure) so callers can
  * suppress it: no error surface, no follow-on work.
@@ -46,25 +56,50 @@ const isHuggingFaceUrl = (url: string | undefined): boolean => {
   }
 };
 
+type JobParts = Pick<DownloadJob, 'model' | 'parts' | 'partIndex'>;
+
+const isSplitJob = (job: JobParts): boolean => (job.parts?.length ?? 0) > 1;
+
+// Bytes of the parts finished before the one being downloaded.
+const completedPartBytes = (job: JobParts): number =>
+  (job.parts ?? [])
+    .slice(0, job.partIndex ?? 0)
+    .reduce((sum, part) => sum + part.size, 0);
+
+// Progress of the whole job from that of the file being downloaded.
+const jobProgressBytes = (
+  job: JobParts,
+  written: number,
+  total: number,
+): {bytesDownloaded: number; bytesTotal: number} =>
+  isSplitJob(job)
+    ? {
+        bytesDownloaded: completedPartBytes(job) + written,
+        bytesTotal: job.model.size || total,
+      }
+    : {bytesDownloaded: written, bytesTotal: total};
+
+const asError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
 export class DownloadManager {
   private downloadJobs: DownloadMap;
   private callbacks: DownloadEventCallbacks = {};
   private eventEmitter: NativeEventEmitter | null = null;
-  private cancelledModelIds = new Set<string>();
+  // Tokens of split downloads with parts still to start.
+  private authTokens = new Map<string, string | null | undefined>();
 
   constructor() {
     console.log(`${TAG}: Initializing DownloadManager`);
     this.downloadJobs = observable.map(new Map());
     makeAutoObservable(this);
 
-    if (Platform.OS === 'android') {
-      this.setupAndroidEventListener();
-    }
+    this.setupEventListener();
   }
 
-  private setupAndroidEventListener() {
+  private setupEventListener() {
     if (NativeDownloadModule) {
-      console.log(`${TAG}: Setting up Android event listeners`);
+      console.log(`${TAG}: Setting up download event listeners`);
       this.eventEmitter = new NativeEventEmitter(NativeDownloadModule as any);
 
       this.eventEmitter.addListener('onDownloadProgress', event => {
@@ -89,15 +124,21 @@ export class DownloadManager {
           return;
         }
 
+        const {bytesDownloaded, bytesTotal} = jobProgressBytes(
+          job,
+          event.bytesWritten,
+          event.totalBytes,
+        );
+
         // Calculate speed
         const currentTime = Date.now();
         const timeDiff = (currentTime - job.lastUpdateTime) / 1000 || 1;
-        const bytesDiff = event.bytesWritten - job.lastBytesWritten;
+        const bytesDiff = bytesDownloaded - job.lastBytesWritten;
         const speedBps = bytesDiff / timeDiff;
         const speedMBps = (speedBps / (1024 * 1024)).toFixed(2);
 
         // Calculate ETA
-        const remainingBytes = event.totalBytes - event.bytesWritten;
+        const remainingBytes = bytesTotal - bytesDownloaded;
         const etaSeconds = speedBps > 0 ? remainingBytes / speedBps : 0;
         const etaMinutes = Math.ceil(etaSeconds / 60);
         const l10nData = uiStore.l10n;
@@ -107,10 +148,12 @@ export class DownloadManager {
             : `${Math.ceil(etaSeconds)} ${l10nData.common.seconds}`;
 
         const progress: DownloadProgress = {
-          bytesDownloaded: event.bytesWritten,
-          bytesTotal: event.totalBytes,
-          progress: event.progress,
-          speed: `${formatBytes(event.bytesWritten)} (${speedMBps} MB/s)`,
+          bytesDownloaded,
+          bytesTotal,
+          progress: isSplitJob(job)
+            ? (bytesDownloaded / bytesTotal) * 100
+            : event.progress,
+          speed: `${formatBytes(bytesDownloaded)} (${speedMBps} MB/s)`,
           eta: etaText,
           rawSpeed: speedBps,
           rawEta: etaSeconds,
@@ -124,14 +167,14 @@ export class DownloadManager {
         // Update job state
         runInAction(() => {
           job.state.progress = progress;
-          job.lastBytesWritten = event.bytesWritten;
+          job.lastBytesWritten = bytesDownloaded;
           job.lastUpdateTime = currentTime;
         });
 
         this.callbacks.onProgress?.(job.model.id, progress);
       });
 
-      this.eventEmitter.addListener('onDownloadComplete', event => {
+      this.eventEmitter.addListener('onDownloadComplete', async event => {
         console.log(`${TAG}: Download completed for ID: ${event.downloadId}`);
         // Find the job by download ID
         const job = Array.from(this.downloadJobs.values()).find(
@@ -139,6 +182,23 @@ export class DownloadManager {
         );
 
         if (job) {
+          try {
+            await this.movePartialIntoPlace(job.destination);
+          } catch (error) {
+            console.error(`${TAG}: Failed to move completed download:`, error);
+            runInAction(() => {
+              job.state.isDownloading = false;
+              this.downloadJobs.delete(job.model.id);
+            });
+            this.authTokens.delete(job.model.id);
+            this.callbacks.onError?.(job.model.id, asError(error));
+            return;
+          }
+          if (isSplitJob(job) && job.partIndex! < job.parts!.length - 1) {
+            await this.startNextPart(job);
+            return;
+          }
+          this.authTokens.delete(job.model.id);
           // Set final state before removing
           runInAction(() => {
             job.state.isDownloading = false;
@@ -152,12 +212,13 @@ export class DownloadManager {
               rawEta: 0,
             };
           });
-          // Ensure callback is called before removing the job
-          this.callbacks.onComplete?.(job.model.id);
+          // Remove the job before the callback, so the completion handler
+          // sees the model as no longer downloading (e.g. to hash it).
           runInAction(() => {
             this.downloadJobs.delete(job.model.id);
           });
           console.log(`${TAG}: Removed completed job: ${job.model.id}`);
+          this.callbacks.onComplete?.(job.model.id);
         } else {
           console.warn(
             `${TAG}: Completion event received for non-existent job: ${event.downloadId}`,
@@ -180,6 +241,7 @@ export class DownloadManager {
             job.state.error = new Error(event.error);
             job.state.isDownloading = false;
           });
+          this.authTokens.delete(job.model.id);
           // Ensure callback is called before removing the job
           this.callbacks.onError?.(job.model.id, new Error(event.error));
           runInAction(() => {
@@ -251,6 +313,7 @@ export class DownloadManager {
     model: Model,
     destinationPath: string,
     authToken?: string | null,
+    headers?: Record<string, string>,
   ): Promise<void> {
     console.log(`${TAG}: Starting download for model:`, {
       modelId: model.id,
@@ -263,17 +326,15 @@ export class DownloadManager {
       return;
     }
 
-    // Only send the HF auth token to huggingface.co.
-    const effectiveAuthToken = isHuggingFaceUrl(model.downloadUrl)
-      ? authToken
-      : null;
-
     if (!model.downloadUrl) {
       console.error(`${TAG}: Model has no download URL`);
       throw new Error('Model has no download URL');
     }
 
-    const isEnoughSpace = await hasEnoughSpace(model);
+    const isEnoughSpace = await hasEnoughSpace(
+      model,
+      this.remainingBytes(model.id),
+    );
     if (!isEnoughSpace) {
       console.error(`${TAG}: Not enough storage space for model:`, {
         modelId: model.id,
@@ -294,185 +355,77 @@ export class DownloadManager {
       throw err;
     }
 
-    if (Platform.OS === 'ios') {
-      await this.startIOSDownload(model, destinationPath, effectiveAuthToken);
-    } else {
-      await this.startAndroidDownload(
-        model,
-        destinationPath,
-        effectiveAuthToken,
-      );
+    const parts = this.downloadParts(model, destinationPath);
+    // Parts a previous attempt finished are already in place.
+    let partIndex = 0;
+    while (
+      partIndex < parts.length - 1 &&
+      (await RNFS.exists(parts[partIndex].destination))
+    ) {
+      partIndex++;
     }
-  }
-
-  private async startIOSDownload(
-    model: Model,
-    destinationPath: string,
-    authToken?: string | null,
-  ): Promise<void> {
-    try {
-      const downloadJob: DownloadJob = {
-        model,
-        state: {
-          isDownloading: true,
-          progress: null,
-          error: null,
-        },
-        destination: destinationPath,
-        lastBytesWritten: 0,
-        lastUpdateTime: Date.now(),
-      };
-
-      runInAction(() => {
-        this.downloadJobs.set(model.id, downloadJob);
-      });
-      this.callbacks.onStart?.(model.id);
-
-      // Create the download task
-      const downloadResult = RNFS.downloadFile({
-        fromUrl: model.downloadUrl!,
-        toFile: destinationPath,
-        background: uiStore.iOSBackgroundDownloading,
-        discretionary: false,
-        progressInterval: 800,
-        headers: {
-          'User-Agent': hfUserAgent(),
-          ...(authToken ? {Authorization: `Bearer ${authToken}`} : {}),
-        },
-        begin: res => {
-          console.log(`${TAG}: Download started for ID: ${model.id}`, {
-            statusCode: res.statusCode,
-            contentLength: res.contentLength,
-            headers: res.headers,
-            jobId: downloadResult.jobId,
-          });
-
-          // Initialize progress
-          const progress: DownloadProgress = {
-            bytesDownloaded: 0,
-            bytesTotal: res.contentLength,
-            progress: 0,
-            speed: '0 B/s',
-            eta: uiStore.l10n.common.calculating,
-            rawSpeed: 0,
-            rawEta: 0,
-          };
-
-          runInAction(() => {
-            downloadJob.state.progress = progress;
-          });
-          this.callbacks.onProgress?.(model.id, progress);
-        },
-        progress: res => {
-          if (!this.downloadJobs.has(model.id)) {
-            return;
-          }
 
-          const job = this.downloadJobs.get(model.id)!;
-          const currentTime = Date.now();
-          const timeDiff = (currentTime - job.lastUpdateTime) / 1000 || 1;
-          const bytesDiff = res.bytesWritten - job.lastBytesWritten;
-          const speedBps = bytesDiff / timeDiff;
-          const speedMBps = (speedBps / (1024 * 1024)).toFixed(2);
-
-          const remainingBytes = res.contentLength - res.bytesWritten;
-          const etaSeconds = speedBps > 0 ? remainingBytes / speedBps : 0;
-          const etaMinutes = Math.ceil(etaSeconds / 60);
-          const l10nData = uiStore.l10n;
-          const etaText =
-            etaSeconds >= 60
-              ? `${etaMinutes} ${l10nData.common.minutes}`
-              : `${Math.ceil(etaSeconds)} ${l10nData.common.seconds}`;
-
-          const progress: DownloadProgress = {
-            bytesDownloaded: res.bytesWritten,
-            bytesTotal: res.contentLength,
-            progress: (res.bytesWritten / res.contentLength) * 100,
-            speed: `${formatBytes(res.bytesWritten)} (${speedMBps} MB/s)`,
-            eta: etaText,
-            rawSpeed: speedBps,
-            rawEta: etaSeconds,
-          };
-
-          runInAction(() => {
-            job.state.progress = progress;
-            job.lastBytesWritten = res.bytesWritten;
-            job.lastUpdateTime = currentTime;
-          });
+    await this.startNativeDownload(model, parts, partIndex, authToken, headers);
+  }
 
-          this.callbacks.onProgress?.(model.id, progress);
+  /**
+   * The files to download for a model, with mirror URLs applied. A split
+   * model has one per part, stored next to the first one.
+   */
+  private downloadParts(model: Model, destinationPath: string): DownloadPart[] {
+    if (!model.shards?.length) {
+      return [
+        {
+          url: applyHfMirror(model.downloadUrl, hfStore.mirrorUrl),
+          destination: destinationPath,
+          size: model.size,
         },
-      });
-
-      // Store the jobId immediately for cancellation
-      downloadJob.jobId = downloadResult.jobId;
-      console.log(
-        `${TAG}: Created download with jobId: ${downloadResult.jobId}`,
-      );
-
-      // Add job to map after setting jobId
-      runInAction(() => {
-        this.downloadJobs.set(model.id, downloadJob);
-      });
+      ];
+    }
+    const paths = modelFilePaths(model, destinationPath);
+    return model.shards.map((shard, index) => ({
+      url: applyHfMirror(shard.downloadUrl, hfStore.mirrorUrl),
+      destination: paths[index],
+      size: shard.size,
+    }));
+  }
 
-      // Wait for the download to complete
-      const result = await downloadResult.promise;
+  // Only send the HF auth token to huggingface.co, never to a mirror.
+  private tokenFor(part: DownloadPart, authToken?: string | null) {
+    return isHuggingFaceUrl(part.url) ? authToken : null;
+  }
 
-      if (result.statusCode === 200) {
-        console.log(
-          `${TAG}: Download completed successfully for ID: ${model.id}`,
-        );
-        this.callbacks.onComplete?.(model.id);
-        runInAction(() => {
-          this.downloadJobs.delete(model.id);
-        });
-        // Cancel may race with a download that already completed; clear any
-        // stale marker so it can't suppress a later genuine failure.
-        this.cancelledModelIds.delete(model.id);
-      } else {
-        console.error(
-          `${TAG}: Download failed with status: ${result.statusCode} for ID: ${model.id}`,
-        );
-        throw new Error(`Download failed with status: ${result.statusCode}`);
-      }
-    } catch (error) {
-      // RNFS.stopDownload aborts the task, rejecting this promise. A user
-      // cancel is not a failure — surface it as a distinct cancellation.
-      if (this.cancelledModelIds.delete(model.id)) {
-        console.log(`${TAG}: Download cancelled by user for ID: ${model.id}`);
-        runInAction(() => {
-          this.downloadJobs.delete(model.id);
-        });
-        throw new DownloadCancelledError(model.id);
-      }
+  // Bytes the other running downloads still have to write.
+  private remainingBytes(excludeModelId: string): number {
+    return this.activeJobs
+      .filter(job => job.model.id !== excludeModelId)
+      .reduce((sum, job) => {
+        const total = job.state.progress?.bytesTotal || job.model.size || 0;
+        const written = job.state.progress?.bytesDownloaded ?? 0;
+        return sum + Math.max(0, total - written);
+      }, 0);
+  }
 
-      console.error(`${TAG}: Download failed for ID: ${model.id}:`, error);
-      runInAction(() => {
-        const job = this.downloadJobs.get(model.id);
-        if (job) {
-          job.state.error =
-            error instanceof Error ? error : new Error(String(error));
-          job.state.isDownloading = false;
-        }
-        this.downloadJobs.delete(model.id);
-      });
-      this.callbacks.onError?.(
-        model.id,
-        error instanceof Error ? error : new Error(String(error)),
-      );
-      throw error;
+  private async movePartialIntoPlace(destinationPath: string): Promise<void> {
+    const partialPath = partialDownloadPath(destinationPath);
+    // Downloads started before partial files existed wrote straight to the
+    // destination.
+    if (await RNFS.exists(partialPath)) {
+      await RNFS.moveFile(partialPath, destinationPath);
     }
   }
 
-  private async startAndroidDownload(
+  private async startNativeDownload(
     model: Model,
-    destinationPath: string,
+    parts: DownloadPart[],
+    partIndex: number,
     authToken?: string | null,
+    headers?: Record<string, string>,
   ): Promise<void> {
     try {
-      console.log(`${TAG}: Starting Android download for model:`, {
+      console.log(`${TAG}: Starting native download for model:`, {
         modelId: model.id,
-        destination: destinationPath,
+        destination: parts[partIndex].destination,
       });
 
       const downloadJob: DownloadJob = {
@@ -482,25 +435,23 @@ export class DownloadManager {
           progress: null,
           error: null,
         },
-        destination: destinationPath,
-        lastBytesWritten: 0,
+        destination: parts[partIndex].destination,
+        parts,
+        partIndex,
+        headers,
+        lastBytesWritten: completedPartBytes({model, parts, partIndex}),
         lastUpdateTime: Date.now(),
       };
 
-      // Start the download first to get the download ID
-      const config: DownloadConfig = {
-        destination: destinationPath,
-        networkType: 'ANY',
-        priority: 1,
-        progressInterval: 1000,
-        ...(authToken ? {authToken} : {}),
-      };
-      const response: DownloadResponse =
-        await NativeDownloadModule.startDownload(model.downloadUrl!, config);
-
-      // Store the download ID
-      downloadJob.downloadId = response.downloadId;
-      console.log(`${TAG}: Download started with ID: ${response.downloadId}`);
+      // Start the download first to get the download ID. The native side
+      // resumes from the partial file when there is one.
+      downloadJob.downloadId = await this.startNativePart(
+        downloadJob,
+        authToken,
+      );
+      if (partIndex < parts.length - 1) {
+        this.authTokens.set(model.id, authToken);
+      }
 
       // Add job to map after getting download ID
       runInAction(() => {
@@ -508,7 +459,7 @@ export class DownloadManager {
       });
       this.callbacks.onStart?.(model.id);
     } catch (error) {
-      console.error(`${TAG}: Failed to start Android download:`, {
+      console.error(`${TAG}: Failed to start native download:`, {
         modelId: model.id,
         error: error instanceof Error ? error.message : String(error),
       });
@@ -530,60 +481,74 @@ export class DownloadManager {
     }
   }
 
+  // Starts the native download of the job's current file; returns its id.
+  private async startNativePart(
+    job: DownloadJob,
+    authToken?: string | null,
+  ): Promise<string> {
+    const part = job.parts![job.partIndex!];
+    const partAuthToken = this.tokenFor(part, authToken);
+    const config: DownloadConfig = {
+      destination: partialDownloadPath(part.destination),
+      // Both platforms keep a WIFI download off cellular and metered networks.
+      networkType: downloadQueueStore.unmeteredOnly ? 'WIFI' : 'ANY',
+      priority: 1,
+      progressInterval: 1000,
+      background: uiStore.iOSBackgroundDownloading,
+      ...(partAuthToken ? {authToken: partAuthToken} : {}),
+      ...(job.headers && Object.keys(job.headers).length
+        ? {headers: JSON.stringify(job.headers)}
+        : {}),
+    };
+    const response: DownloadResponse = await NativeDownloadModule.startDownload(
+      part.url,
+      config,
+    );
+    console.log(`${TAG}: Download started with ID: ${response.downloadId}`);
+    return response.downloadId;
+  }
+
+  // Moves a split model's download on to its next part.
+  private async startNextPart(job: DownloadJob): Promise<void> {
+    runInAction(() => {
+      job.partIndex = job.partIndex! + 1;
+      job.destination = job.parts![job.partIndex].destination;
+      job.lastBytesWritten = completedPartBytes(job);
+      job.lastUpdateTime = Date.now();
+    });
+    try {
+      const downloadId = await this.startNativePart(
+        job,
+        this.authTokens.get(job.model.id),
+      );
+      runInAction(() => {
+        job.downloadId = downloadId;
+      });
+    } catch (error) {
+      console.error(`${TAG}: Failed to start the next part:`, {
+        modelId: job.model.id,
+        error: asError(error).message,
+      });
+      runInAction(() => {
+        job.state.isDownloading = false;
+        this.downloadJobs.delete(job.model.id);
+      });
+      this.authTokens.delete(job.model.id);
+      this.callbacks.onError?.(job.model.id, asError(error));
+    }
+  }
+
   async cancelDownload(modelId: string): Promise<void> {
     console.log(`${TAG}: Attempting to cancel download:`, modelId);
     const job = this.downloadJobs.get(modelId);
     if (job) {
-      // Mark as user-cancelled so the iOS download promise rejection is
-      // recognised as a cancel, not surfaced as a "Download Failed" error.
-      this.cancelledModelIds.add(modelId);
+      this.authTokens.delete(modelId);
       try {
-        if (Platform.OS === 'ios') {
-          console.log(
-            `${TAG}: Cancelling iOS download for ID: ${modelId}, jobId: ${job.jobId}`,
-          );
-          if (job.jobId) {
-            RNFS.stopDownload(job.jobId); // job.jobId is now correctly typed as number
-          }
-        } else if (
-          Platform.OS === 'android' &&
-          NativeDownloadModule &&
-          job.downloadId
-        ) {
-          console.log(`${TAG}: Cancelling Android download:`, modelId);
+        if (NativeDownloadModule && job.downloadId) {
+          console.log(`${TAG}: Cancelling native download:`, modelId);
+          // A cancel emits no failure event. The partial file is kept so
+          // the next start resumes from it.
           await NativeDownloadModule.cancelDownload(job.downloadId);
-          // Android cancel emits no failure event, so nothing consumes the
-          // cancelled-id marker — clear it here to avoid leaking entries.
-          this.cancelledModelIds.delete(modelId);
-        }
-
-        // Clean up the partial download file
-        const destinationPath = job.destination;
-        if (destinationPath) {
-          console.log(
-            `${TAG}: Cleaning up partial download file:`,
-            destinationPath,
-          );
-          try {
-            const exists = await RNFS.exists(destinationPath);
-            if (exists) {
-              await RNFS.unlink(destinationPath);
-              console.log(
-                `${TAG}: Successfully deleted partial download file:`,
-                destinationPath,
-              );
-            }
-          } catch (fileError) {
-            if ((fileError as any)?.code !== 'ENOENT') {
-              console.error(`${TAG}: Error deleting partial download file:`, {
-                path: destinationPath,
-                error:
-                  fileError instanceof Error
-                    ? fileError.message
-                    : String(fileError),
-              });
-            }
-          }
         }
 
         // Update state and remove job
@@ -597,23 +562,50 @@ export class DownloadManager {
           modelId,
           error: err instanceof Error ? err.message : String(err),
         });
-        this.cancelledModelIds.delete(modelId);
       }
     } else {
       console.warn(`${TAG}: No download job found to cancel:`, modelId);
     }
   }
 
+  /**
+   * Deletes what an unfinished download left behind for `destinationPath`,
+   * e.g. when its model is removed.
+   */
+  async discardPartialDownload(destinationPath: string): Promise<void> {
+    const partialPath = partialDownloadPath(destinationPath);
+    // Resume data of an iOS download stopped early
+    await this.removeFile(`${partialPath}.resume`);
+    await this.removeFile(partialPath);
+  }
+
+  private async removeFile(path: string): Promise<void> {
+    try {
+      if (await RNFS.exists(path)) {
+        await RNFS.unlink(path);
+        console.log(`${TAG}: Deleted partial download file:`, path);
+      }
+    } catch (fileError) {
+      if ((fileError as any)?.code !== 'ENOENT') {
+        console.error(`${TAG}: Error deleting partial download file:`, {
+          path,
+          error:
+            fileError instanceof Error ? fileError.message : String(fileError),
+        });
+      }
+    }
+  }
+
   cleanup() {
     console.log(`${TAG}: Cleaning up download manager`);
-    if (Platform.OS === 'android' && this.eventEmitter) {
-      console.log(`${TAG}: Removing Android event listeners`);
+    if (this.eventEmitter) {
+      console.log(`${TAG}: Removing download event listeners`);
       this.eventEmitter.removeAllListeners('onDownloadProgress');
       this.eventEmitter.removeAllListeners('onDownloadComplete');
       this.eventEmitter.removeAllListeners('onDownloadFailed');
     }
     this.downloadJobs.clear();
-    this.cancelledModelIds.clear();
+    this.authTokens.clear();
     console.log(`${TAG}: Download jobs cleared`);
   }
 
@@ -622,7 +614,7 @@ export class DownloadManager {
    * This should be called after the model store is initialized.
    */
   syncWithActiveDownloads = async (models: Model[]): Promise<void> => {
-    if (Platform.OS !== 'android' || !NativeDownloadModule) {
+    if (!NativeDownloadModule) {
       return;
     }
 
@@ -640,9 +632,21 @@ export class DownloadManager {
       }
 
       // For each active download, find the corresponding model and create a download job
+      const isDownloadOf = (download: {url: string}, url: string) =>
+        !!url &&
+        (download.url === url ||
+          download.url === applyHfMirror(url, hfStore.mirrorUrl));
+      const urlsOf = (m: Model) =>
+        m.shards?.length
+          ? m.shards.map(shard => shard.downloadUrl)
+          : [m.downloadUrl];
+
       for (const download of activeDownloads) {
+        // A split model may be on any of its parts.
+        let partIndex = -1;
         const model = models.find(m => {
-          return m.downloadUrl && download.url === m.downloadUrl;
+          partIndex = urlsOf(m).findIndex(url => isDownloadOf(download, url));
+          return partIndex !== -1;
         });
 
         if (!model) {
@@ -658,9 +662,23 @@ export class DownloadManager {
             ? parseFloat(download.progress)
             : download.progress || 0;
 
+        const destination = download.destination.replace(/\.part$/, '');
+        const parts = model.shards?.length
+          ? this.downloadParts(
+              model,
+              // The first part sits next to this one.
+              `${destination.substring(0, destination.lastIndexOf('/'))}/${model.filename.split('/').pop()}`,
+            )
+          : undefined;
+
         // Calculate bytes from model size and progress
-        const totalBytes = model.size || 0;
-        const bytesWritten = Math.floor((totalBytes * progress) / 100);
+        const partBytes = parts ? parts[partIndex].size : model.size || 0;
+        const {bytesDownloaded: bytesWritten, bytesTotal: totalBytes} =
+          jobProgressBytes(
+            {model, parts, partIndex},
+            Math.floor((partBytes * progress) / 100),
+            partBytes,
+          );
 
         // Create a download job for this model
         const downloadJob: DownloadJob = {
@@ -671,7 +689,7 @@ export class DownloadManager {
             progress: {
               bytesDownloaded: bytesWritten,
               bytesTotal: totalBytes,
-              progress: progress,
+              progress: parts ? (bytesWritten / totalBytes) * 100 : progress,
               speed: '0 B/s',
               eta: uiStore.l10n.common.calculating,
               rawSpeed: 0,
@@ -679,7 +697,9 @@ export class DownloadManager {
             },
             error: null,
           },
-          destination: download.destination,
+          destination,
+          parts,
+          partIndex: parts ? partIndex : undefined,
           lastBytesWritten: bytesWritten,
           lastUpdateTime: Date.now(),
         };
@@ -688,6 +708,12 @@ export class DownloadManager {
         runInAction(() => {
           this.downloadJobs.set(model.id, downloadJob);
         });
+        if (parts && partIndex < parts.length - 1) {
+          this.authTokens.set(
+            model.id,
+            hfStore.shouldUseToken ? hfStore.hfToken : null,
+          );
+        }
         console.log(
           `${TAG}: Restored download job for model: ${model.id}, progress: ${progress}%`,
         );
@@ -3,8 +3,9 @@ import {NativeModules, Platform, NativeEventEmitter} from 'react-native';
 import * as RNFS from '@dr.pogodin/react-native-fs';
 
 import {basicModel} from '../../../../jest/fixtures/models';
+import {downloadQueueStore, hfStore} from '../../../store';
 
-import {DownloadManager, DownloadCancelledError} from '../DownloadManager';
+import {DownloadManager} from '../DownloadManager';
 
 jest.mock('react-native', () => {
   // Create a shared mock for DownloadModule inside the factory
@@ -100,44 +101,38 @@ describe('DownloadManager', () => {
     expect(NativeModules.DownloadModule.startDownload).toHaveBeenCalledWith(
       basicModel.downloadUrl,
       expect.objectContaining({
-        destination: '/path/to/model.bin',
+        destination: '/path/to/model.bin.part',
       }),
     );
     expect(callbacks.onStart).toHaveBeenCalledWith('model-1');
     expect(downloadManager.isDownloading('model-1')).toBe(true);
   });
 
-  it('starts a download on iOS', async () => {
+  it('starts a download on iOS through the native module', async () => {
     (Platform as any).OS = 'ios';
-
-    const mockDownloadResult = {
-      jobId: 123,
-      promise: Promise.resolve({statusCode: 200}),
-    };
-
-    (RNFS.downloadFile as jest.Mock).mockReturnValue(mockDownloadResult);
-
+    NativeModules.DownloadModule.startDownload.mockResolvedValue({
+      downloadId: 'download123',
+    });
+    const iosDownloadManager = new DownloadManager();
     const callbacks = {
       onStart: jest.fn(),
-      onProgress: jest.fn(),
       onComplete: jest.fn(),
-      onError: jest.fn(),
     };
+    iosDownloadManager.setCallbacks(callbacks);
 
-    downloadManager.setCallbacks(callbacks);
-
-    await downloadManager.startDownload(basicModel, '/path/to/model.bin');
+    await iosDownloadManager.startDownload(basicModel, '/path/to/model.bin');
 
-    expect(RNFS.mkdir).toHaveBeenCalledWith('/path/to');
-    expect(RNFS.downloadFile).toHaveBeenCalledWith(
+    expect(RNFS.downloadFile).not.toHaveBeenCalled();
+    expect(NativeModules.DownloadModule.startDownload).toHaveBeenCalledWith(
+      basicModel.downloadUrl,
       expect.objectContaining({
-        fromUrl: basicModel.downloadUrl,
-        toFile: '/path/to/model.bin',
+        destination: '/path/to/model.bin.part',
+        background: true,
       }),
     );
-
-    expect(callbacks.onComplete).toHaveBeenCalledWith('model-1');
-    expect(downloadManager.isDownloading('model-1')).toBe(false);
+    expect(callbacks.onStart).toHaveBeenCalledWith('model-1');
+    expect(callbacks.onComplete).not.toHaveBeenCalled();
+    expect(iosDownloadManager.isDownloading('model-1')).toBe(true);
   });
 
   it('cancels a download', async () => {
@@ -227,370 +222,245 @@ describe('DownloadManager', () => {
     );
   });
 
-  it('starts and manages a download on iOS', async () => {
-    // Set platform to iOS
-    (Platform as any).OS = 'ios';
-
-    // Create a new instance for iOS testing
-    const iosDownloadManager = new DownloadManager();
-
-    const callbacks = {
-      onStart: jest.fn(),
-      onProgress: jest.fn(),
-      onComplete: jest.fn(),
-      onError: jest.fn(),
-    };
-
-    iosDownloadManager.setCallbacks(callbacks);
-
-    let beginCallback: any;
-    let progressCallback: any;
-
-    const mockDownloadResult = {
-      jobId: 456,
-      promise: Promise.resolve({statusCode: 200}),
-    };
-
-    (RNFS.downloadFile as jest.Mock).mockImplementation(options => {
-      // Save the callbacks so we can call them manually
-      beginCallback = options.begin;
-      progressCallback = options.progress;
-      return mockDownloadResult;
+  it('does not surface an error when a download is cancelled', async () => {
+    NativeModules.DownloadModule.startDownload.mockResolvedValue({
+      downloadId: 'download123',
     });
+    const onError = jest.fn();
+    downloadManager.setCallbacks({onError});
 
-    // Start the download
-    const downloadPromise = iosDownloadManager.startDownload(
-      basicModel,
-      '/path/to/model.bin',
-    );
-
-    await jest.runAllTimersAsync();
-
-    expect(RNFS.mkdir).toHaveBeenCalledWith('/path/to');
-
-    expect(RNFS.downloadFile).toHaveBeenCalledWith(
-      expect.objectContaining({
-        fromUrl: basicModel.downloadUrl,
-        toFile: '/path/to/model.bin',
-        discretionary: false,
-      }),
-    );
+    await downloadManager.startDownload(basicModel, '/path/to/model.bin');
+    await downloadManager.cancelDownload('model-1');
 
-    expect(iosDownloadManager.isDownloading('model-1')).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+    expect(downloadManager.isDownloading('model-1')).toBe(false);
+  });
 
-    // Simulate begin callback
-    beginCallback({
-      statusCode: 200,
-      contentLength: 1000000,
-      headers: {},
+  it('surfaces a failure reported by the native module', async () => {
+    NativeModules.DownloadModule.startDownload.mockResolvedValue({
+      downloadId: 'download123',
     });
+    const onError = jest.fn();
+    downloadManager.setCallbacks({onError});
 
-    expect(callbacks.onStart).toHaveBeenCalledWith('model-1');
-    expect(callbacks.onProgress).toHaveBeenCalledWith(
-      'model-1',
-      expect.objectContaining({
-        bytesDownloaded: 0,
-        bytesTotal: 1000000,
-        progress: 0,
-      }),
-    );
-
-    // Reset mock to check next call
-    callbacks.onProgress.mockClear();
-
-    // Simulate progress callback (50%)
-    progressCallback({
-      bytesWritten: 500000,
-      contentLength: 1000000,
+    await downloadManager.startDownload(basicModel, '/path/to/model.bin');
+    const failedListener = mockEventEmitter.addListener.mock.calls.find(
+      call => call[0] === 'onDownloadFailed',
+    )[1];
+    failedListener({
+      downloadId: 'download123',
+      error: 'Download failed with status: 404',
     });
 
-    expect(callbacks.onProgress).toHaveBeenCalledWith(
+    expect(onError).toHaveBeenCalledWith(
       'model-1',
-      expect.objectContaining({
-        bytesDownloaded: 500000,
-        bytesTotal: 1000000,
-        progress: 50,
-      }),
+      new Error('Download failed with status: 404'),
     );
-
-    // Wait for the download promise to resolve
-    await downloadPromise;
-
-    expect(callbacks.onComplete).toHaveBeenCalledWith('model-1');
-    expect(iosDownloadManager.isDownloading('model-1')).toBe(false);
+    expect(downloadManager.isDownloading('model-1')).toBe(false);
   });
 
-  it('handles download failure on iOS', async () => {
-    // Set platform to iOS
-    (Platform as any).OS = 'ios';
-
-    const iosDownloadManager = new DownloadManager();
-
-    const callbacks = {
-      onStart: jest.fn(),
-      onProgress: jest.fn(),
-      onComplete: jest.fn(),
-      onError: jest.fn(),
-    };
-
-    iosDownloadManager.setCallbacks(callbacks);
-
-    const mockDownloadResult = {
-      jobId: 789,
-      promise: Promise.resolve({statusCode: 404}), // Error status
-    };
-
-    (RNFS.downloadFile as jest.Mock).mockReturnValue(mockDownloadResult);
-
-    await expect(
-      iosDownloadManager.startDownload(basicModel, '/path/to/model.bin'),
-    ).rejects.toThrow('Download failed with status: 404');
+  it('attaches the HF auth token only for a huggingface.co download URL', async () => {
+    NativeModules.DownloadModule.startDownload.mockResolvedValue({
+      downloadId: 'download123',
+    });
 
-    expect(callbacks.onError).toHaveBeenCalledWith(
-      'model-1',
-      expect.any(Error),
+    await downloadManager.startDownload(
+      basicModel,
+      '/path/to/model.bin',
+      'secret-token',
     );
 
-    expect(iosDownloadManager.isDownloading('model-1')).toBe(false);
+    const config = NativeModules.DownloadModule.startDownload.mock.calls[0][1];
+    expect(config.authToken).toBe('secret-token');
   });
 
-  it('does not surface an error when an iOS download is cancelled', async () => {
-    (Platform as any).OS = 'ios';
-
-    const iosDownloadManager = new DownloadManager();
-
-    const callbacks = {
-      onStart: jest.fn(),
-      onProgress: jest.fn(),
-      onComplete: jest.fn(),
-      onError: jest.fn(),
-    };
-
-    iosDownloadManager.setCallbacks(callbacks);
-
-    // A cancel aborts the RNFS task, rejecting the download promise.
-    let rejectDownload: (reason: Error) => void = () => {};
-    const downloadPromise = new Promise((_resolve, reject) => {
-      rejectDownload = reject;
+  it('does not forward the HF auth token to the native module for a non-HF URL (Android)', async () => {
+    NativeModules.DownloadModule.startDownload.mockResolvedValue({
+      downloadId: 'download-off-host',
     });
 
-    (RNFS.downloadFile as jest.Mock).mockReturnValue({
-      jobId: 321,
-      promise: downloadPromise,
-    });
+    const offHostModel = {
+      ...basicModel,
+      id: 'off-host-model',
+      downloadUrl: 'https://evil.example.com/test/test-model-1',
+    };
 
-    const startPromise = iosDownloadManager.startDownload(
-      basicModel,
+    await downloadManager.startDownload(
+      offHostModel,
       '/path/to/model.bin',
+      'secret-token',
     );
 
-    // Let the async setup (mkdir, job registration) settle before cancelling.
-    await new Promise(resolve => setImmediate(resolve));
-
-    expect(iosDownloadManager.isDownloading('model-1')).toBe(true);
-
-    // User taps Stop, then the aborted task rejects the download promise.
-    await iosDownloadManager.cancelDownload('model-1');
-    rejectDownload(new Error('Download has been aborted'));
-
-    // The cancel surfaces as a distinct DownloadCancelledError (not a generic
-    // failure), so onError is never called and callers can special-case it.
-    await expect(startPromise).rejects.toBeInstanceOf(DownloadCancelledError);
-
-    expect(callbacks.onError).not.toHaveBeenCalled();
-    expect(iosDownloadManager.isDownloading('model-1')).toBe(false);
+    const config = NativeModules.DownloadModule.startDownload.mock.calls[0][1];
+    expect(config.authToken).toBeUndefined();
   });
 
-  it('still surfaces an error for a genuine iOS download failure', async () => {
-    (Platform as any).OS = 'ios';
-
-    const iosDownloadManager = new DownloadManager();
-
-    const callbacks = {
-      onStart: jest.fn(),
-      onProgress: jest.fn(),
-      onComplete: jest.fn(),
-      onError: jest.fn(),
-    };
-
-    iosDownloadManager.setCallbacks(callbacks);
-
-    (RNFS.downloadFile as jest.Mock).mockReturnValue({
-      jobId: 654,
-      promise: Promise.reject(new Error('Network connection lost')),
+  it('keeps the partial file when a download is cancelled', async () => {
+    NativeModules.DownloadModule.startDownload.mockResolvedValue({
+      downloadId: 'download123',
     });
 
-    await expect(
-      iosDownloadManager.startDownload(basicModel, '/path/to/model.bin'),
-    ).rejects.toThrow('Network connection lost');
+    await downloadManager.startDownload(basicModel, '/path/to/model.bin');
+    await downloadManager.cancelDownload('model-1');
 
-    expect(callbacks.onError).toHaveBeenCalledWith(
-      'model-1',
-      expect.any(Error),
-    );
-    expect(iosDownloadManager.isDownloading('model-1')).toBe(false);
+    expect(RNFS.unlink).not.toHaveBeenCalledWith('/path/to/model.bin.part');
   });
 
-  it('still surfaces a later genuine failure after the same model was cancelled', async () => {
-    (Platform as any).OS = 'ios';
+  it('discards the partial file and its resume data', async () => {
+    await downloadManager.discardPartialDownload('/path/to/removed.bin');
 
-    const iosDownloadManager = new DownloadManager();
-
-    const callbacks = {
-      onStart: jest.fn(),
-      onProgress: jest.fn(),
-      onComplete: jest.fn(),
-      onError: jest.fn(),
-    };
-
-    iosDownloadManager.setCallbacks(callbacks);
-
-    // First attempt: user cancels mid-download.
-    let rejectFirst: (reason: Error) => void = () => {};
-    const firstPromise = new Promise((_resolve, reject) => {
-      rejectFirst = reject;
-    });
-    (RNFS.downloadFile as jest.Mock).mockReturnValueOnce({
-      jobId: 111,
-      promise: firstPromise,
-    });
-
-    const firstStart = iosDownloadManager.startDownload(
-      basicModel,
-      '/path/to/model.bin',
+    expect(RNFS.unlink).toHaveBeenCalledWith('/path/to/removed.bin.part');
+    expect(RNFS.unlink).toHaveBeenCalledWith(
+      '/path/to/removed.bin.part.resume',
     );
-    await new Promise(resolve => setImmediate(resolve));
-    await iosDownloadManager.cancelDownload('model-1');
-    rejectFirst(new Error('Download has been aborted'));
-    await expect(firstStart).rejects.toBeInstanceOf(DownloadCancelledError);
-    expect(callbacks.onError).not.toHaveBeenCalled();
-
-    // Second attempt for the SAME model genuinely fails. The cancelled-id
-    // marker from the first attempt must not swallow this real failure.
-    (RNFS.downloadFile as jest.Mock).mockReturnValueOnce({
-      jobId: 222,
-      promise: Promise.reject(new Error('Network connection lost')),
-    });
-
-    await expect(
-      iosDownloadManager.startDownload(basicModel, '/path/to/model.bin'),
-    ).rejects.toThrow('Network connection lost');
-
-    expect(callbacks.onError).toHaveBeenCalledWith(
-      'model-1',
-      expect.any(Error),
-    );
-    expect(iosDownloadManager.isDownloading('model-1')).toBe(false);
   });
 
-  it('sends the attribution User-Agent on the iOS RNFS download', async () => {
-    (Platform as any).OS = 'ios';
-
-    const iosDownloadManager = new DownloadManager();
-    iosDownloadManager.setCallbacks({
-      onStart: jest.fn(),
-      onProgress: jest.fn(),
-      onComplete: jest.fn(),
-      onError: jest.fn(),
-    });
-
-    (RNFS.downloadFile as jest.Mock).mockReturnValue({
-      jobId: 999,
-      promise: Promise.resolve({statusCode: 200}),
+  it('moves a completed Android download into place', async () => {
+    NativeModules.DownloadModule.startDownload.mockResolvedValue({
+      downloadId: 'download123',
     });
+    const onComplete = jest.fn();
+    downloadManager.setCallbacks({onComplete});
 
-    await iosDownloadManager.startDownload(basicModel, '/path/to/model.bin');
+    await downloadManager.startDownload(basicModel, '/path/to/model.bin');
+    const completeListener = mockEventEmitter.addListener.mock.calls.find(
+      call => call[0] === 'onDownloadComplete',
+    )[1];
+    await completeListener({downloadId: 'download123'});
 
-    expect(RNFS.downloadFile).toHaveBeenCalledWith(
-      expect.objectContaining({
-        headers: expect.objectContaining({
-          'User-Agent': 'PocketPal/1.0.0 (ai.pocketpal)',
-        }),
-      }),
+    expect(RNFS.moveFile).toHaveBeenCalledWith(
+      '/path/to/model.bin.part',
+      '/path/to/model.bin',
     );
+    expect(onComplete).toHaveBeenCalledWith('model-1');
+    expect(downloadManager.isDownloading('model-1')).toBe(false);
   });
 
-  it('attaches the HF auth token only for a huggingface.co download URL (iOS)', async () => {
-    (Platform as any).OS = 'ios';
+  it('downloads the parts of a split model one after another', async () => {
+    const shards = [1, 2].map(n => ({
+      filename: `model-0000${n}-of-00002.gguf`,
+      downloadUrl: `https://huggingface.co/org/repo/resolve/main/model-0000${n}-of-00002.gguf`,
+      size: 1000,
+    }));
+    NativeModules.DownloadModule.startDownload
+      .mockResolvedValueOnce({downloadId: 'part-1'})
+      .mockResolvedValueOnce({downloadId: 'part-2'});
+    (RNFS.exists as jest.Mock).mockResolvedValueOnce(false);
+    const onProgress = jest.fn();
+    const onComplete = jest.fn();
+    downloadManager.setCallbacks({onProgress, onComplete});
+    const listener = (name: string) =>
+      mockEventEmitter.addListener.mock.calls.find(call => call[0] === name)[1];
 
-    const iosDownloadManager = new DownloadManager();
-    iosDownloadManager.setCallbacks({
-      onStart: jest.fn(),
-      onProgress: jest.fn(),
-      onComplete: jest.fn(),
-      onError: jest.fn(),
-    });
-
-    (RNFS.downloadFile as jest.Mock).mockReturnValue({
-      jobId: 1001,
-      promise: Promise.resolve({statusCode: 200}),
-    });
-
-    await iosDownloadManager.startDownload(
-      basicModel,
-      '/path/to/model.bin',
+    await downloadManager.startDownload(
+      {...basicModel, size: 2000, filename: shards[0].filename, shards},
+      '/models/model-00001-of-00002.gguf',
       'secret-token',
     );
+    await listener('onDownloadComplete')({downloadId: 'part-1'});
 
-    expect(RNFS.downloadFile).toHaveBeenCalledWith(
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(NativeModules.DownloadModule.startDownload).toHaveBeenLastCalledWith(
+      shards[1].downloadUrl,
       expect.objectContaining({
-        headers: expect.objectContaining({
-          Authorization: 'Bearer secret-token',
-        }),
+        destination: '/models/model-00002-of-00002.gguf.part',
+        authToken: 'secret-token',
       }),
     );
-  });
 
-  it('does not attach the HF auth token for a non-huggingface.co URL (iOS)', async () => {
-    (Platform as any).OS = 'ios';
-
-    const iosDownloadManager = new DownloadManager();
-    iosDownloadManager.setCallbacks({
-      onStart: jest.fn(),
-      onProgress: jest.fn(),
-      onComplete: jest.fn(),
-      onError: jest.fn(),
-    });
-
-    (RNFS.downloadFile as jest.Mock).mockReturnValue({
-      jobId: 1002,
-      promise: Promise.resolve({statusCode: 200}),
+    listener('onDownloadProgress')({
+      downloadId: 'part-2',
+      bytesWritten: 500,
+      totalBytes: 1000,
+      progress: 50,
     });
+    expect(onProgress).toHaveBeenLastCalledWith(
+      'model-1',
+      expect.objectContaining({
+        bytesDownloaded: 1500,
+        bytesTotal: 2000,
+        progress: 75,
+      }),
+    );
 
-    const offHostModel = {
-      ...basicModel,
-      id: 'off-host-model',
-      downloadUrl: 'https://evil.example.com/test/test-model-1',
-    };
+    await listener('onDownloadComplete')({downloadId: 'part-2'});
+    expect(onComplete).toHaveBeenCalledWith('model-1');
+    expect(downloadManager.isDownloading('model-1')).toBe(false);
+  });
 
-    await iosDownloadManager.startDownload(
-      offHostModel,
-      '/path/to/model.bin',
-      'secret-token',
-    );
+  it('asks for an unmetered network when the queue requires one', async () => {
+    NativeModules.DownloadModule.startDownload.mockResolvedValue({
+      downloadId: 'download123',
+    });
+    downloadQueueStore.unmeteredOnly = true;
+    try {
+      await downloadManager.startDownload(basicModel, '/path/to/model.bin');
+    } finally {
+      downloadQueueStore.unmeteredOnly = false;
+    }
 
-    const headers = (RNFS.downloadFile as jest.Mock).mock.calls[0][0].headers;
-    expect(headers.Authorization).toBeUndefined();
+    const config = NativeModules.DownloadModule.startDownload.mock.calls[0][1];
+    expect(config.networkType).toBe('WIFI');
   });
 
-  it('does not forward the HF auth token to the native module for a non-HF URL (Android)', async () => {
+  it('keeps an iOS download off cellular when the queue requires it', async () => {
+    (Platform as any).OS = 'ios';
     NativeModules.DownloadModule.startDownload.mockResolvedValue({
-      downloadId: 'download-off-host',
+      downloadId: 'download123',
     });
+    downloadQueueStore.unmeteredOnly = true;
+    try {
+      await new DownloadManager().startDownload(
+        basicModel,
+        '/path/to/model.bin',
+      );
+    } finally {
+      downloadQueueStore.unmeteredOnly = false;
+    }
 
-    const offHostModel = {
-      ...basicModel,
-      id: 'off-host-model',
-      downloadUrl: 'https://evil.example.com/test/test-model-1',
-    };
+    const config = NativeModules.DownloadModule.startDownload.mock.calls[0][1];
+    expect(config.networkType).toBe('WIFI');
+  });
 
+  it('leaves room for the rest of running downloads', async () => {
+    NativeModules.DownloadModule.startDownload.mockResolvedValue({
+      downloadId: 'download123',
+    });
     await downloadManager.startDownload(
-      offHostModel,
+      {...basicModel, size: 5 * 1000 ** 3},
       '/path/to/model.bin',
-      'secret-token',
     );
 
-    const config = NativeModules.DownloadModule.startDownload.mock.calls[0][1];
-    expect(config.authToken).toBeUndefined();
+    // 8 GB free, 5 GB still to come for the first download.
+    await expect(
+      downloadManager.startDownload(
+        {...basicModel, id: 'model-2', size: 4 * 1000 ** 3},
+        '/path/to/model-2.bin',
+      ),
+    ).rejects.toThrow('Not enough storage space to download the model');
+  });
+
+  describe('download mirror', () => {
+    afterEach(() => {
+      hfStore.mirrorUrl = '';
+    });
+
+    it('fetches huggingface.co files through the mirror without the token', async () => {
+      hfStore.mirrorUrl = 'http://cache.local:8080/hf/';
+      NativeModules.DownloadModule.startDownload.mockResolvedValue({
+        downloadId: 'download123',
+      });
+
+      await downloadManager.startDownload(
+        basicModel,
+        '/path/to/model.bin',
+        'secret-token',
+      );
+
+      const [url, config] =
+        NativeModules.DownloadModule.startDownload.mock.calls[0];
+      expect(url).toBe('http://cache.local:8080/hf/test/test-model-1');
+      expect(config.authToken).toBeUndefined();
+    });
   });
 });
@@ -18,18 +18,29 @@ export interface DownloadState {
 
 export interface DownloadJob {
   model: Model;
-  jobId?: number; // For iOS downloads - RNFS uses number for jobId
-  downloadId?: string; // For Android downloads - UUID returned by WorkManager
+  downloadId?: string; // UUID returned by the native download module
   state: {
     isDownloading: boolean;
     progress: DownloadProgress | null;
     error: Error | null;
   };
-  destination: string;
+  destination: string; // Of the file being downloaded
+  // Files of the model, downloaded one after another. A split model has one
+  // per part; progress covers all of them.
+  parts?: DownloadPart[];
+  partIndex?: number;
+  // Extra request headers, e.g. the auth of a model imported from a URL
+  headers?: Record<string, string>;
   lastBytesWritten: number;
   lastUpdateTime: number;
 }
 
+export interface DownloadPart {
+  url: string;
+  destination: string;
+  size: number;
+}
+
 export type DownloadMap = Map<string, DownloadJob>;
 
 export interface DownloadEventCallbacks {
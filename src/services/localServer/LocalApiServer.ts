@@ -0,0 +1,353 @@
+import {
+  LocalServerError,
+  SSE_DONE,
+  errorBody,
+  formatSSE,
+  parseChatCompletionRequest,
+  parseEmbeddingRequest,
+  parseJsonBody,
+  toChatCompletion,
+  toChatCompletionChunk,
+  toEmbeddingResponse,
+  toFinalChunks,
+  toModelList,
+  type CompletionMeta,
+} from './openaiProtocol';
+import type {
+  LocalServerBackend,
+  LocalServerRequest,
+  ServerTransport,
+} from './types';
+
+import type {CompletionEngine} from '../../utils/completionTypes';
+
+/** Requests waiting behind the one being served before new ones get a 503. */
+export const MAX_QUEUED_REQUESTS = 8;
+
+const CORS_HEADERS = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'authorization, content-type',
+  'access-control-allow-methods': 'GET, POST, OPTIONS',
+};
+
+const JSON_HEADERS = {...CORS_HEADERS, 'content-type': 'application/json'};
+
+const SSE_HEADERS = {
+  ...CORS_HEADERS,
+  'content-type': 'text/event-stream',
+  'cache-control': 'no-cache',
+};
+
+export interface LocalServerActivity {
+  active: number; // 0 or 1: requests reach the model one at a time
+  queued: number;
+}
+
+const modelNotLoaded = () =>
+  new LocalServerError(
+    'No model is loaded on the device',
+    503,
+    'server_error',
+    'model_not_loaded',
+  );
+
+const unixSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Serves the loaded model over the OpenAI HTTP API: /v1/models,
+ * /v1/chat/completions (plain and SSE) and /v1/embeddings.
+ *
+ * Every /v1 request needs `Authorization: Bearer <api key>`. Model work runs
+ * through a single queue, so requests are served one after another and each
+ * waits until the app itself is not generating. A client that disconnects
+ * is dropped from the queue, or has its completion stopped if it is running.
+ */
+export class LocalApiServer {
+  private queue: Promise<void> = Promise.resolve();
+  private queued = 0;
+  private active = 0;
+  private closed = new Set<string>();
+  private running: {requestId: string; engine: CompletionEngine} | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private startedAt = unixSeconds();
+  private completionCount = 0;
+
+  constructor(
+    private transport: ServerTransport,
+    private backend: LocalServerBackend,
+    private onActivity?: (activity: LocalServerActivity) => void,
+  ) {}
+
+  async start(port: number) {
+    this.unsubscribers = [
+      this.transport.onRequest(request => {
+        this.handleRequest(request);
+      }),
+      this.transport.onClientClosed(requestId => {
+        this.handleClientClosed(requestId);
+      }),
+    ];
+    this.startedAt = unixSeconds();
+    try {
+      return await this.transport.start(port, this.backend.getApiKey() ?? '');
+    } catch (error) {
+      this.detach();
+      throw error;
+    }
+  }
+
+  async stop() {
+    this.detach();
+    await this.stopCompletion();
+    await this.transport.stop();
+  }
+
+  /** Stops the running completion; its client gets what was generated. */
+  async stopCompletion() {
+    await this.running?.engine.stopCompletion();
+  }
+
+  /** Hands a new API key to the listener; the old one is refused from now on. */
+  async setApiKey(apiKey: string) {
+    await this.transport.setApiKey(apiKey);
+  }
+
+  private detach() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  private handleClientClosed(requestId: string) {
+    this.closed.add(requestId);
+    if (this.running?.requestId === requestId) {
+      this.running.engine.stopCompletion().catch(error => {
+        console.warn('[LocalApiServer] Failed to stop completion:', error);
+      });
+    }
+  }
+
+  /** Answers one request; never rejects. */
+  async handleRequest(request: LocalServerRequest): Promise<void> {
+    try {
+      await this.route(request);
+    } catch (error) {
+      const serverError =
+        error instanceof LocalServerError
+          ? error
+          : new LocalServerError(
+              error instanceof Error ? error.message : String(error),
+              500,
+              'server_error',
+            );
+      await this.sendJson(
+        request.id,
+        serverError.status,
+        errorBody(serverError),
+      );
+    } finally {
+      this.closed.delete(request.id);
+    }
+  }
+
+  private async route(request: LocalServerRequest) {
+    const path = request.path.split('?')[0].replace(/\/+$/, '');
+    const method = request.method.toUpperCase();
+
+    if (method === 'OPTIONS') {
+      await this.transport.sendResponse(request.id, 204, CORS_HEADERS, '');
+      return;
+    }
+
+    const endpoints: Record<string, [string, () => Promise<void>]> = {
+      '/v1/models': ['GET', () => this.listModels(request)],
+      '/v1/chat/completions': ['POST', () => this.chatCompletion(request)],
+      '/v1/embeddings': ['POST', () => this.embeddings(request)],
+    };
+    const endpoint = endpoints[path];
+    if (!endpoint) {
+      throw new LocalServerError(`Unknown endpoint ${path}`, 404);
+    }
+    this.authorize(request);
+    if (method !== endpoint[0]) {
+      throw new LocalServerError(`Use ${endpoint[0]} for ${path}`, 405);
+    }
+    await endpoint[1]();
+  }
+
+  private authorize(request: LocalServerRequest) {
+    const apiKey = this.backend.getApiKey();
+    const header = request.headers.authorization ?? '';
+    const token = header.replace(/^Bearer\s+/i, '');
+    if (!apiKey || token !== apiKey) {
+      throw new LocalServerError(
+        'Invalid API key',
+        401,
+        'authentication_error',
+        'invalid_api_key',
+      );
+    }
+  }
+
+  private requireModel(): string {
+    const modelId = this.backend.getModelId();
+    if (!modelId) {
+      throw modelNotLoaded();
+    }
+    return modelId;
+  }
+
+  private async listModels(request: LocalServerRequest) {
+    await this.sendJson(
+      request.id,
+      200,
+      toModelList(this.backend.getModelId(), this.startedAt),
+    );
+  }
+
+  private async chatCompletion(request: LocalServerRequest) {
+    const model = this.requireModel();
+    const parsed = parseChatCompletionRequest(parseJsonBody(request.body));
+
+    await this.enqueue(request.id, async engine => {
+      const defaults = await this.backend.getDefaultParams();
+      const params = {
+        ...defaults,
+        ...parsed.params,
+        stop: [...(defaults.stop ?? []), ...(parsed.params.stop ?? [])],
+      };
+      const meta: CompletionMeta = {
+        id: `chatcmpl-${this.startedAt.toString(36)}${++this.completionCount}`,
+        model,
+        created: unixSeconds(),
+      };
+
+      if (!parsed.stream) {
+        const result = await engine.completion(params);
+        await this.sendJson(request.id, 200, toChatCompletion(meta, result));
+        return;
+      }
+
+      await this.transport.beginStream(request.id, 200, SSE_HEADERS);
+      // Writes are chained so chunks leave in the order they were produced.
+      let writes = Promise.resolve();
+      const write = (data: object | string) => {
+        const chunk = typeof data === 'string' ? data : formatSSE(data);
+        writes = writes.then(() =>
+          this.transport.writeStream(request.id, chunk),
+        );
+      };
+
+      write(toChatCompletionChunk(meta, {role: 'assistant', content: ''}));
+      try {
+        const result = await engine.completion(params, data => {
+          if (data.reasoning_content) {
+            write(
+              toChatCompletionChunk(meta, {
+                reasoning_content: data.reasoning_content,
+              }),
+            );
+          }
+          if (data.content) {
+            write(toChatCompletionChunk(meta, {content: data.content}));
+          }
+        });
+        toFinalChunks(meta, result, parsed.includeUsage).forEach(write);
+        write(SSE_DONE);
+      } catch (error) {
+        // Headers are out, so the error can only travel as an event.
+        write(
+          formatSSE(
+            errorBody(
+              new LocalServerError(
+                error instanceof Error ? error.message : String(error),
+                500,
+                'server_error',
+              ),
+            ),
+          ),
+        );
+      }
+      await writes.catch(() => {});
+      await this.transport.endStream(request.id);
+    });
+  }
+
+  private async embeddings(request: LocalServerRequest) {
+    const model = this.requireModel();
+    const inputs = parseEmbeddingRequest(parseJsonBody(request.body));
+
+    await this.enqueue(request.id, async () => {
+      const vectors: number[][] = [];
+      for (const input of inputs) {
+        vectors.push(await this.backend.embed(input));
+      }
+      await this.sendJson(request.id, 200, toEmbeddingResponse(model, vectors));
+    });
+  }
+
+  /**
+   * Runs `task` once every request queued before it is done and the app is
+   * idle. Settles when the task does; a full queue rejects right away.
+   */
+  private enqueue(
+    requestId: string,
+    task: (engine: CompletionEngine) => Promise<void>,
+  ): Promise<void> {
+    if (this.queued >= MAX_QUEUED_REQUESTS) {
+      throw new LocalServerError(
+        'Too many requests are waiting for the model',
+        503,
+        'server_error',
+        'server_busy',
+      );
+    }
+    this.queued++;
+    this.notify();
+
+    const run = this.queue.then(async () => {
+      this.queued--;
+      if (this.closed.has(requestId)) {
+        this.notify();
+        return;
+      }
+      this.active++;
+      this.notify();
+      try {
+        await this.backend.waitUntilIdle();
+        const engine = this.backend.getEngine();
+        // The model may have been unloaded while the request waited.
+        if (!engine) {
+          throw modelNotLoaded();
+        }
+        this.running = {requestId, engine};
+        // Claimed before anything else can await, so a chat started in the
+        // app can't slip in between the idle check and the request.
+        await this.backend.runExclusive(() => task(engine));
+      } finally {
+        this.running = null;
+        this.active--;
+        this.notify();
+      }
+    });
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private notify() {
+    this.onActivity?.({active: this.active, queued: this.queued});
+  }
+
+  private async sendJson(requestId: string, status: number, body: object) {
+    try {
+      await this.transport.sendResponse(
+        requestId,
+        status,
+        JSON_HEADERS,
+        JSON.stringify(body),
+      );
+    } catch (error) {
+      // The client is gone; nobody is left to tell.
+      console.warn('[LocalApiServer] Failed to send response:', error);
+    }
+  }
+}
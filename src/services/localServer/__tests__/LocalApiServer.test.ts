@@ -0,0 +1,406 @@
+import {LocalApiServer, MAX_QUEUED_REQUESTS} from '../LocalApiServer';
+import type {LocalServerBackend} from '../types';
+import {LoopbackTransport} from './loopbackTransport';
+
+import {SSEParser} from '../../../api/sseParser';
+import type {
+  CompletionResult,
+  CompletionStreamData,
+} from '../../../utils/completionTypes';
+
+const API_KEY = 'pp-test';
+const MODEL_ID = 'author/model-GGUF/model.Q4_K_M.gguf';
+
+const result = (
+  overrides: Partial<CompletionResult> = {},
+): CompletionResult => ({
+  text: 'Hello there',
+  content: 'Hello there',
+  tokens_evaluated: 12,
+  tokens_predicted: 3,
+  stopped_eos: true,
+  ...overrides,
+});
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => {
+    resolve = r;
+  });
+  return {promise, resolve};
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const chat = (overrides: object = {}) => ({
+  model: 'anything',
+  messages: [{role: 'user', content: 'Hi'}],
+  ...overrides,
+});
+
+describe('LocalApiServer', () => {
+  let transport: LoopbackTransport;
+  let engine: {completion: jest.Mock; stopCompletion: jest.Mock};
+  let backend: LocalServerBackend;
+  let modelId: string | undefined;
+  let server: LocalApiServer;
+
+  beforeEach(async () => {
+    transport = new LoopbackTransport();
+    engine = {
+      completion: jest.fn().mockResolvedValue(result()),
+      stopCompletion: jest.fn().mockResolvedValue(undefined),
+    };
+    modelId = MODEL_ID;
+    backend = {
+      getApiKey: () => API_KEY,
+      getModelId: () => modelId,
+      getEngine: () => (modelId ? engine : undefined),
+      getDefaultParams: jest
+        .fn()
+        .mockResolvedValue({temperature: 0.7, n_predict: 512, stop: ['</s>']}),
+      embed: jest.fn().mockResolvedValue([0.6, 0.8]),
+      waitUntilIdle: jest.fn().mockResolvedValue(undefined),
+      runExclusive: jest.fn((task: () => Promise<unknown>) => task()) as any,
+    };
+    server = new LocalApiServer(transport, backend);
+    await server.start(8080);
+  });
+
+  describe('auth and routing', () => {
+    it('refuses requests without the API key', async () => {
+      const missing = await transport.request('GET', '/v1/models');
+      const wrong = await transport.request('GET', '/v1/models', {
+        apiKey: 'nope',
+      });
+
+      expect(missing.status).toBe(401);
+      expect(wrong.status).toBe(401);
+      expect(JSON.parse(wrong.body).error.code).toBe('invalid_api_key');
+    });
+
+    it('hands the API key to the listener', async () => {
+      expect(transport.apiKey).toBe(API_KEY);
+
+      await server.setApiKey('pp-new');
+
+      expect(transport.apiKey).toBe('pp-new');
+    });
+
+    it('answers unknown paths and wrong methods with an error', async () => {
+      const unknown = await transport.request('GET', '/v1/nope', {
+        apiKey: API_KEY,
+      });
+      const wrongMethod = await transport.request(
+        'GET',
+        '/v1/chat/completions',
+        {
+          apiKey: API_KEY,
+        },
+      );
+
+      expect(unknown.status).toBe(404);
+      expect(wrongMethod.status).toBe(405);
+    });
+
+    it('rejects a malformed body', async () => {
+      const response = await transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: '{not json',
+      });
+
+      expect(response.status).toBe(400);
+      expect(engine.completion).not.toHaveBeenCalled();
+    });
+
+    it('stops listening after stop()', async () => {
+      await server.stop();
+
+      expect(transport.running).toBe(false);
+    });
+  });
+
+  describe('/v1/models', () => {
+    it('lists the loaded model, and nothing without one', async () => {
+      const loaded = await transport.request('GET', '/v1/models', {
+        apiKey: API_KEY,
+      });
+      modelId = undefined;
+      const empty = await transport.request('GET', '/v1/models?x=1', {
+        apiKey: API_KEY,
+      });
+
+      expect(JSON.parse(loaded.body).data).toEqual([
+        expect.objectContaining({id: MODEL_ID, object: 'model'}),
+      ]);
+      expect(JSON.parse(empty.body).data).toEqual([]);
+    });
+  });
+
+  describe('/v1/chat/completions', () => {
+    it('returns a completion built over the app settings', async () => {
+      const response = await transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat({temperature: 0.2, stop: 'END'}),
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/json');
+      expect(engine.completion).toHaveBeenCalledWith({
+        temperature: 0.2,
+        n_predict: 512,
+        stop: ['</s>', 'END'],
+        messages: [{role: 'user', content: 'Hi'}],
+      });
+      const body = JSON.parse(response.body);
+      expect(body).toMatchObject({
+        object: 'chat.completion',
+        model: MODEL_ID,
+        choices: [
+          {
+            message: {role: 'assistant', content: 'Hello there'},
+            finish_reason: 'stop',
+          },
+        ],
+        usage: {prompt_tokens: 12, completion_tokens: 3, total_tokens: 15},
+      });
+      expect(backend.runExclusive).toHaveBeenCalledTimes(1);
+    });
+
+    it('streams chunks over SSE, ending with usage and [DONE]', async () => {
+      engine.completion.mockImplementation(
+        async (_params, onData: (data: CompletionStreamData) => void) => {
+          onData({reasoning_content: 'Hmm'});
+          onData({token: 'Hel', content: 'Hel'});
+          onData({token: 'lo', content: 'lo'});
+          return result({content: 'Hello', stopped_limit: 1});
+        },
+      );
+
+      const response = await transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat({stream: true, stream_options: {include_usage: true}}),
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('text/event-stream');
+      const events = [...new SSEParser().feed(response.body)];
+      expect(events[events.length - 1]).toBe('done');
+      const chunks = events.slice(0, -1) as any[];
+      expect(chunks[0].choices[0].delta).toEqual({
+        role: 'assistant',
+        content: '',
+      });
+      expect(chunks[1].choices[0].delta).toEqual({reasoning_content: 'Hmm'});
+      const content = chunks
+        .map(c => c.choices[0]?.delta.content ?? '')
+        .join('');
+      expect(content).toBe('Hello');
+      expect(chunks[chunks.length - 2].choices[0].finish_reason).toBe('length');
+      expect(chunks[chunks.length - 1]).toMatchObject({
+        choices: [],
+        usage: {total_tokens: 15},
+      });
+    });
+
+    it('sends tool calls in the closing chunks', async () => {
+      engine.completion.mockResolvedValue(
+        result({
+          content: '',
+          tool_calls: [
+            {type: 'function', function: {name: 'get_time', arguments: '{}'}},
+          ],
+        }),
+      );
+
+      const response = await transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat({stream: true}),
+      });
+
+      const chunks = [...new SSEParser().feed(response.body)].slice(
+        0,
+        -1,
+      ) as any[];
+      expect(chunks[1].choices[0].delta.tool_calls).toEqual([
+        expect.objectContaining({
+          index: 0,
+          type: 'function',
+          function: {name: 'get_time', arguments: '{}'},
+        }),
+      ]);
+      expect(chunks[2].choices[0].finish_reason).toBe('tool_calls');
+    });
+
+    it('reports a failure mid-stream as an error event', async () => {
+      engine.completion.mockRejectedValue(new Error('decode failed'));
+
+      const response = await transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat({stream: true}),
+      });
+
+      const events = [...new SSEParser().feed(response.body)] as any[];
+      expect(events[events.length - 1].error.message).toBe('decode failed');
+    });
+
+    it('answers 503 when no local model is loaded', async () => {
+      modelId = undefined;
+
+      const response = await transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat(),
+      });
+
+      expect(response.status).toBe(503);
+      expect(JSON.parse(response.body).error.code).toBe('model_not_loaded');
+    });
+  });
+
+  describe('queue', () => {
+    it('serves one request at a time, after the app is idle', async () => {
+      const idle = deferred<void>();
+      (backend.waitUntilIdle as jest.Mock).mockReturnValueOnce(idle.promise);
+      const first = deferred<CompletionResult>();
+      engine.completion
+        .mockReturnValueOnce(first.promise)
+        .mockResolvedValueOnce(result({content: 'second'}));
+
+      const one = transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat(),
+      });
+      const two = transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat(),
+      });
+      await flush();
+      expect(engine.completion).not.toHaveBeenCalled();
+
+      idle.resolve();
+      await flush();
+      expect(engine.completion).toHaveBeenCalledTimes(1);
+
+      first.resolve(result({content: 'first'}));
+      expect(JSON.parse((await one).body).choices[0].message.content).toBe(
+        'first',
+      );
+      expect(JSON.parse((await two).body).choices[0].message.content).toBe(
+        'second',
+      );
+    });
+
+    it('claims the model as soon as the app is idle', async () => {
+      const defaults = deferred<object>();
+      (backend.getDefaultParams as jest.Mock).mockReturnValueOnce(
+        defaults.promise,
+      );
+
+      const response = transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat(),
+      });
+      await flush();
+      expect(backend.runExclusive).toHaveBeenCalledTimes(1);
+      expect(engine.completion).not.toHaveBeenCalled();
+
+      defaults.resolve({});
+      expect((await response).status).toBe(200);
+    });
+
+    it('turns requests away once the queue is full', async () => {
+      const activity = jest.fn();
+      await server.stop();
+      server = new LocalApiServer(transport, backend, activity);
+      await server.start(8080);
+      engine.completion.mockReturnValue(new Promise(() => {}));
+
+      transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat(),
+      });
+      await flush();
+      for (let i = 0; i < MAX_QUEUED_REQUESTS; i++) {
+        transport.request('POST', '/v1/embeddings', {
+          apiKey: API_KEY,
+          body: {input: 'x'},
+        });
+      }
+      const rejected = await transport.request('POST', '/v1/embeddings', {
+        apiKey: API_KEY,
+        body: {input: 'x'},
+      });
+
+      expect(rejected.status).toBe(503);
+      expect(JSON.parse(rejected.body).error.code).toBe('server_busy');
+      expect(activity).toHaveBeenLastCalledWith({
+        active: 1,
+        queued: MAX_QUEUED_REQUESTS,
+      });
+    });
+
+    it('stops the completion of a client that hangs up', async () => {
+      engine.completion.mockImplementation(
+        () =>
+          new Promise(resolve => {
+            engine.stopCompletion.mockImplementation(async () =>
+              resolve(result({interrupted: true})),
+            );
+          }),
+      );
+
+      const {id} = transport.send('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat({stream: true}),
+      });
+      await flush();
+      transport.disconnect(id);
+      await flush();
+
+      expect(engine.stopCompletion).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops a queued request whose client hung up', async () => {
+      const first = deferred<CompletionResult>();
+      engine.completion.mockReturnValueOnce(first.promise);
+
+      const one = transport.request('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat(),
+      });
+      const two = transport.send('POST', '/v1/chat/completions', {
+        apiKey: API_KEY,
+        body: chat(),
+      });
+      await flush();
+      transport.disconnect(two.id);
+      first.resolve(result());
+      await one;
+      await flush();
+
+      expect(engine.completion).toHaveBeenCalledTimes(1);
+      expect(engine.stopCompletion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/v1/embeddings', () => {
+    it('embeds each input in order', async () => {
+      const response = await transport.request('POST', '/v1/embeddings', {
+        apiKey: API_KEY,
+        body: {model: 'x', input: ['a', 'b']},
+      });
+
+      expect(backend.embed).toHaveBeenNthCalledWith(1, 'a');
+      expect(backend.embed).toHaveBeenNthCalledWith(2, 'b');
+      expect(backend.runExclusive).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(response.body)).toMatchObject({
+        object: 'list',
+        model: MODEL_ID,
+        data: [
+          {index: 0, embedding: [0.6, 0.8]},
+          {index: 1, embedding: [0.6, 0.8]},
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * An in-memory ServerTransport plus an HTTP-ish client for it, so the server
+ * can be exercised end to end without a socket: `request` resolves with the
+ * status, headers and full body once the response ends, the way a client
+ * reading until the connection closes would see it.
+ */
+
+import type {LocalServerRequest, ServerTransport} from '../types';
+
+export interface LoopbackResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface PendingResponse {
+  status?: number;
+  headers: Record<string, string>;
+  chunks: string[];
+  resolve: (response: LoopbackResponse) => void;
+}
+
+export class LoopbackTransport implements ServerTransport {
+  running = false;
+  apiKey = '';
+  private requestHandlers = new Set<(request: LocalServerRequest) => void>();
+  private closedHandlers = new Set<(requestId: string) => void>();
+  private pending = new Map<string, PendingResponse>();
+  private nextId = 0;
+
+  async start(port: number, apiKey: string) {
+    this.running = true;
+    this.apiKey = apiKey;
+    return {port, addresses: ['127.0.0.1']};
+  }
+
+  async stop() {
+    this.running = false;
+  }
+
+  async setApiKey(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  onRequest(handler: (request: LocalServerRequest) => void) {
+    this.requestHandlers.add(handler);
+    return () => this.requestHandlers.delete(handler);
+  }
+
+  onClientClosed(handler: (requestId: string) => void) {
+    this.closedHandlers.add(handler);
+    return () => this.closedHandlers.delete(handler);
+  }
+
+  async sendResponse(
+    requestId: string,
+    status: number,
+    headers: Record<string, string>,
+    body: string,
+  ) {
+    const pending = this.take(requestId);
+    pending?.resolve({status, headers, body});
+  }
+
+  async beginStream(
+    requestId: string,
+    status: number,
+    headers: Record<string, string>,
+  ) {
+    const pending = this.pending.get(requestId);
+    if (pending) {
+      pending.status = status;
+      pending.headers = headers;
+    }
+  }
+
+  async writeStream(requestId: string, chunk: string) {
+    this.pending.get(requestId)?.chunks.push(chunk);
+  }
+
+  async endStream(requestId: string) {
+    const pending = this.take(requestId);
+    pending?.resolve({
+      status: pending.status ?? 0,
+      headers: pending.headers,
+      body: pending.chunks.join(''),
+    });
+  }
+
+  /** Sends a request and returns its id and the eventual response. */
+  send(
+    method: string,
+    path: string,
+    options: {body?: object | string; apiKey?: string} = {},
+  ): {id: string; response: Promise<LoopbackResponse>} {
+    const id = `req-${++this.nextId}`;
+    const response = new Promise<LoopbackResponse>(resolve => {
+      this.pending.set(id, {headers: {}, chunks: [], resolve});
+    });
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+    };
+    if (options.apiKey) {
+      headers.authorization = `Bearer ${options.apiKey}`;
+    }
+    const body =
+      typeof options.body === 'string'
+        ? options.body
+        : options.body
+          ? JSON.stringify(options.body)
+          : '';
+    this.requestHandlers.forEach(handler =>
+      handler({id, method, path, headers, body}),
+    );
+    return {id, response};
+  }
+
+  request(
+    method: string,
+    path: string,
+    options: {body?: object | string; apiKey?: string} = {},
+  ): Promise<LoopbackResponse> {
+    return this.send(method, path, options).response;
+  }
+
+  /** The client hangs up; its response is dropped. */
+  disconnect(requestId: string) {
+    const pending = this.take(requestId);
+    pending?.resolve({status: 0, headers: {}, body: ''});
+    this.closedHandlers.forEach(handler => handler(requestId));
+  }
+
+  private take(requestId: string) {
+    const pending = this.pending.get(requestId);
+    this.pending.delete(requestId);
+    return pending;
+  }
+}
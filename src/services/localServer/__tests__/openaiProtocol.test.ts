@@ -0,0 +1,183 @@
+import {
+  LocalServerError,
+  finishReason,
+  parseChatCompletionRequest,
+  parseEmbeddingRequest,
+  parseJsonBody,
+  toChatCompletion,
+  toFinalChunks,
+} from '../openaiProtocol';
+
+const meta = {id: 'chatcmpl-1', model: 'm', created: 1700000000};
+
+describe('parseChatCompletionRequest', () => {
+  it('maps OpenAI fields onto engine params', () => {
+    const tools = [{type: 'function', function: {name: 'f', parameters: {}}}];
+
+    expect(
+      parseChatCompletionRequest({
+        model: 'ignored',
+        messages: [{role: 'user', content: 'Hi'}],
+        temperature: 0.3,
+        top_p: 0.9,
+        max_tokens: 100,
+        max_completion_tokens: 64,
+        stop: ['a', 1, 'b'],
+        seed: 42,
+        presence_penalty: 0.5,
+        frequency_penalty: 0.25,
+        tools,
+        tool_choice: 'auto',
+        response_format: {type: 'json_object'},
+        stream: true,
+        stream_options: {include_usage: true},
+      }),
+    ).toEqual({
+      params: {
+        messages: [{role: 'user', content: 'Hi'}],
+        temperature: 0.3,
+        top_p: 0.9,
+        n_predict: 64,
+        stop: ['a', 'b'],
+        seed: 42,
+        penalty_present: 0.5,
+        penalty_freq: 0.25,
+        tools,
+        tool_choice: 'auto',
+        jinja: true,
+        response_format: {type: 'json_object'},
+      },
+      stream: true,
+      includeUsage: true,
+    });
+  });
+
+  it('leaves unset fields to the app settings', () => {
+    expect(
+      parseChatCompletionRequest({
+        messages: [{role: 'user', content: 'Hi'}],
+        stop: 'END',
+        temperature: null,
+      }),
+    ).toEqual({
+      params: {messages: [{role: 'user', content: 'Hi'}], stop: ['END']},
+      stream: false,
+      includeUsage: false,
+    });
+  });
+
+  it('rejects missing messages and n > 1', () => {
+    expect(() => parseChatCompletionRequest({})).toThrow(LocalServerError);
+    expect(() => parseChatCompletionRequest({messages: [{}]})).toThrow(
+      /messages/,
+    );
+    expect(() =>
+      parseChatCompletionRequest({
+        messages: [{role: 'user', content: 'Hi'}],
+        n: 2,
+      }),
+    ).toThrow(/n=1/);
+  });
+});
+
+describe('parseJsonBody', () => {
+  it('accepts only a JSON object', () => {
+    expect(parseJsonBody('{"a":1}')).toEqual({a: 1});
+    expect(() => parseJsonBody('[1]')).toThrow(LocalServerError);
+    expect(() => parseJsonBody('')).toThrow(LocalServerError);
+  });
+});
+
+describe('responses', () => {
+  it('derives the finish reason', () => {
+    expect(finishReason({text: '', content: '', stopped_eos: true})).toBe(
+      'stop',
+    );
+    expect(finishReason({text: '', content: '', stopped_limit: 1})).toBe(
+      'length',
+    );
+    expect(finishReason({text: '', content: '', context_full: true})).toBe(
+      'length',
+    );
+    expect(
+      finishReason({
+        text: '',
+        content: '',
+        tool_calls: [{type: 'function', function: {name: 'f', arguments: ''}}],
+      }),
+    ).toBe('tool_calls');
+  });
+
+  it('gives tool calls an id and a null content', () => {
+    const completion = toChatCompletion(meta, {
+      text: '',
+      content: '',
+      tool_calls: [
+        {type: 'function', function: {name: 'f', arguments: '{"x":1}'}},
+        {
+          type: 'function',
+          id: 'own-id',
+          function: {name: 'g', arguments: '{}'},
+        },
+      ],
+    });
+
+    expect(completion.choices[0].message).toEqual({
+      role: 'assistant',
+      content: null,
+      tool_calls: [
+        {
+          id: 'call_chatcmpl-1_0',
+          type: 'function',
+          function: {name: 'f', arguments: '{"x":1}'},
+        },
+        {
+          id: 'own-id',
+          type: 'function',
+          function: {name: 'g', arguments: '{}'},
+        },
+      ],
+    });
+  });
+
+  it('keeps reasoning separate from content', () => {
+    const completion = toChatCompletion(meta, {
+      text: '<think>Hmm</think>Yes',
+      content: 'Yes',
+      reasoning_content: 'Hmm',
+    });
+
+    expect(completion.choices[0].message).toEqual({
+      role: 'assistant',
+      content: 'Yes',
+      reasoning_content: 'Hmm',
+    });
+  });
+
+  it('adds a usage chunk only when asked for', () => {
+    const done = {text: 'a', content: 'a', tokens_evaluated: 2};
+
+    expect(toFinalChunks(meta, done, false)).toHaveLength(1);
+    expect(toFinalChunks(meta, done, true)[1]).toMatchObject({
+      choices: [],
+      usage: {prompt_tokens: 2, completion_tokens: 0, total_tokens: 2},
+    });
+  });
+});
+
+describe('parseEmbeddingRequest', () => {
+  it('accepts a string or a list of strings', () => {
+    expect(parseEmbeddingRequest({input: 'a'})).toEqual(['a']);
+    expect(parseEmbeddingRequest({input: ['a', 'b']})).toEqual(['a', 'b']);
+  });
+
+  it('rejects token arrays and other encodings', () => {
+    expect(() => parseEmbeddingRequest({input: [[1, 2]]})).toThrow(
+      LocalServerError,
+    );
+    expect(() => parseEmbeddingRequest({input: []})).toThrow(LocalServerError);
+    expect(() =>
+      parseEmbeddingRequest({input: 'a', encoding_format: 'base64'}),
+    ).toThrow(/float/);
+  });
+});
@@ -0,0 +1,9 @@
+export type {
+  LocalServerBackend,
+  LocalServerRequest,
+  ServerTransport,
+} from './types';
+export {LocalApiServer, MAX_QUEUED_REQUESTS} from './LocalApiServer';
+export type {LocalServerActivity} from './LocalApiServer';
+export {LocalServerError} from './openaiProtocol';
+export {createNativeTransport} from './nativeTransport';
@@ -0,0 +1,74 @@
+import {NativeEventEmitter} from 'react-native';
+
+import type {LocalServerRequest, ServerTransport} from './types';
+
+import NativeLocalServer from '../../specs/NativeLocalServer';
+
+const requireModule = () => {
+  if (!NativeLocalServer) {
+    throw new Error('The local server is not available on this device');
+  }
+  return NativeLocalServer;
+};
+
+const parseHeaders = (json: string): Record<string, string> => {
+  try {
+    const headers = JSON.parse(json);
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        String(value),
+      ]),
+    );
+  } catch {
+    return {};
+  }
+};
+
+/** The device's HTTP listener (LocalServerModule) as a ServerTransport. */
+export const createNativeTransport = (): ServerTransport => {
+  const emitter = NativeLocalServer
+    ? new NativeEventEmitter(NativeLocalServer as any)
+    : null;
+
+  return {
+    start: (port, apiKey) => requireModule().start(port, apiKey),
+    stop: () => requireModule().stop(),
+    setApiKey: apiKey => requireModule().setApiKey(apiKey),
+    onRequest: handler => {
+      const subscription = emitter?.addListener(
+        'onLocalServerRequest',
+        event => {
+          const request: LocalServerRequest = {
+            id: event.requestId,
+            method: event.method,
+            path: event.path,
+            headers: parseHeaders(event.headers),
+            body: event.body ?? '',
+          };
+          handler(request);
+        },
+      );
+      return () => subscription?.remove();
+    },
+    onClientClosed: handler => {
+      const subscription = emitter?.addListener(
+        'onLocalServerClientClosed',
+        event => handler(event.requestId),
+      );
+      return () => subscription?.remove();
+    },
+    sendResponse: (requestId, status, headers, body) =>
+      requireModule().sendResponse(
+        requestId,
+        status,
+        JSON.stringify(headers),
+        body,
+      ),
+    beginStream: (requestId, status, headers) =>
+      requireModule().beginStream(requestId, status, JSON.stringify(headers)),
+    writeStream: (requestId, chunk) =>
+      requireModule().writeStream(requestId, chunk),
+    endStream: requestId => requireModule().endStream(requestId),
+  };
+};
@@ -0,0 +1,285 @@
+/**
+ * Translation between the OpenAI HTTP API and the app's completion engine.
+ * Pure functions over plain objects; nothing here touches the network.
+ */
+
+import type {
+  ApiCompletionParams,
+  CompletionResult,
+  ToolCall,
+} from '../../utils/completionTypes';
+
+/** An OpenAI-style error the server answers with instead of a result. */
+export class LocalServerError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly type: string = 'invalid_request_error',
+    public readonly code: string | null = null,
+  ) {
+    super(message);
+    this.name = 'LocalServerError';
+  }
+}
+
+export const errorBody = (error: LocalServerError) => ({
+  error: {
+    message: error.message,
+    type: error.type,
+    param: null,
+    code: error.code,
+  },
+});
+
+export interface ChatCompletionRequest {
+  params: Partial<ApiCompletionParams>;
+  stream: boolean;
+  includeUsage: boolean;
+}
+
+export const parseJsonBody = (body: string): any => {
+  try {
+    const parsed = JSON.parse(body);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    return parsed;
+  } catch {
+    throw new LocalServerError('Request body must be a JSON object', 400);
+  }
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Reads a /v1/chat/completions body into engine params. Only the fields
+ * present are set, so the app's own settings stay in effect for the rest.
+ * `model` is accepted and ignored: there is one loaded model.
+ */
+export const parseChatCompletionRequest = (
+  body: any,
+): ChatCompletionRequest => {
+  const {messages} = body;
+  if (
+    !Array.isArray(messages) ||
+    messages.length === 0 ||
+    messages.some(m => !m || typeof m.role !== 'string')
+  ) {
+    throw new LocalServerError(
+      '`messages` must be a non-empty array of messages with a role',
+      400,
+    );
+  }
+  if (body.n !== undefined && body.n !== 1) {
+    throw new LocalServerError('Only n=1 is supported', 400);
+  }
+
+  const params: Partial<ApiCompletionParams> = {messages};
+  if (isNumber(body.temperature)) {
+    params.temperature = body.temperature;
+  }
+  if (isNumber(body.top_p)) {
+    params.top_p = body.top_p;
+  }
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens;
+  if (isNumber(maxTokens)) {
+    params.n_predict = maxTokens;
+  }
+  if (typeof body.stop === 'string') {
+    params.stop = [body.stop];
+  } else if (Array.isArray(body.stop)) {
+    params.stop = body.stop.filter((s: unknown) => typeof s === 'string');
+  }
+  if (isNumber(body.seed)) {
+    params.seed = body.seed;
+  }
+  if (isNumber(body.presence_penalty)) {
+    params.penalty_present = body.presence_penalty;
+  }
+  if (isNumber(body.frequency_penalty)) {
+    params.penalty_freq = body.frequency_penalty;
+  }
+  if (Array.isArray(body.tools) && body.tools.length > 0) {
+    params.tools = body.tools;
+    params.tool_choice = body.tool_choice;
+    params.jinja = true;
+  }
+  if (body.response_format) {
+    params.response_format = body.response_format;
+  }
+
+  return {
+    params,
+    stream: body.stream === true,
+    includeUsage: body.stream_options?.include_usage === true,
+  };
+};
+
+export const finishReason = (
+  result: CompletionResult,
+): 'stop' | 'length' | 'tool_calls' => {
+  if (result.tool_calls?.length) {
+    return 'tool_calls';
+  }
+  if (result.stopped_limit || result.context_full) {
+    return 'length';
+  }
+  return 'stop';
+};
+
+export const toUsage = (result: CompletionResult) => {
+  const prompt = result.tokens_evaluated ?? 0;
+  const completion = result.tokens_predicted ?? 0;
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: prompt + completion,
+  };
+};
+
+// OpenAI clients match tool results to calls by id, which llama.rn leaves
+// out for templates that do not produce one.
+const toToolCalls = (toolCalls: ToolCall[], completionId: string) =>
+  toolCalls.map((call, index) => ({
+    id: call.id || `call_${completionId}_${index}`,
+    type: 'function' as const,
+    function: {
+      name: call.function.name,
+      arguments: call.function.arguments,
+    },
+  }));
+
+type OpenAIToolCall = ReturnType<typeof toToolCalls>[number];
+
+/** Identifies one completion across its response or chunks. */
+export interface CompletionMeta {
+  id: string;
+  model: string;
+  created: number; // Unix seconds
+}
+
+export const toChatCompletion = (
+  meta: CompletionMeta,
+  result: CompletionResult,
+) => {
+  const toolCalls = result.tool_calls?.length
+    ? toToolCalls(result.tool_calls, meta.id)
+    : undefined;
+  return {
+    id: meta.id,
+    object: 'chat.completion',
+    created: meta.created,
+    model: meta.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: toolCalls && !result.content ? null : result.content,
+          ...(result.reasoning_content
+            ? {reasoning_content: result.reasoning_content}
+            : {}),
+          ...(toolCalls ? {tool_calls: toolCalls} : {}),
+        },
+        finish_reason: finishReason(result),
+      },
+    ],
+    usage: toUsage(result),
+  };
+};
+
+export interface ChunkDelta {
+  role?: 'assistant';
+  content?: string;
+  reasoning_content?: string;
+  tool_calls?: (OpenAIToolCall & {index: number})[];
+}
+
+export const toChatCompletionChunk = (
+  meta: CompletionMeta,
+  delta: ChunkDelta,
+  finish: string | null = null,
+) => ({
+  id: meta.id,
+  object: 'chat.completion.chunk',
+  created: meta.created,
+  model: meta.model,
+  choices: [{index: 0, delta, finish_reason: finish}],
+});
+
+/**
+ * The chunks that close a stream once the completion has returned: the
+ * tool calls in one delta (they are only complete at the end), the finish
+ * reason and, when asked for, a usage chunk with no choices.
+ */
+export const toFinalChunks = (
+  meta: CompletionMeta,
+  result: CompletionResult,
+  includeUsage: boolean,
+) => {
+  const chunks: object[] = [];
+  if (result.tool_calls?.length) {
+    chunks.push(
+      toChatCompletionChunk(meta, {
+        tool_calls: toToolCalls(result.tool_calls, meta.id).map(
+          (call, index) => ({index, ...call}),
+        ),
+      }),
+    );
+  }
+  chunks.push(toChatCompletionChunk(meta, {}, finishReason(result)));
+  if (includeUsage) {
+    chunks.push({
+      ...toChatCompletionChunk(meta, {}),
+      choices: [],
+      usage: toUsage(result),
+    });
+  }
+  return chunks;
+};
+
+export const formatSSE = (data: object): string =>
+  `data: ${JSON.stringify(data)}\n\n`;
+
+export const SSE_DONE = 'data: [DONE]\n\n';
+
+export const toModelList = (modelId: string | undefined, created: number) => ({
+  object: 'list',
+  data: modelId
+    ? [{id: modelId, object: 'model', created, owned_by: 'pocketpal'}]
+    : [],
+});
+
+/** Embedding inputs as strings; pre-tokenized input is not supported. */
+export const parseEmbeddingRequest = (body: any): string[] => {
+  const input = typeof body.input === 'string' ? [body.input] : body.input;
+  if (
+    !Array.isArray(input) ||
+    input.length === 0 ||
+    input.some((item: unknown) => typeof item !== 'string')
+  ) {
+    throw new LocalServerError(
+      '`input` must be a string or a non-empty array of strings',
+      400,
+    );
+  }
+  if (body.encoding_format && body.encoding_format !== 'float') {
+    throw new LocalServerError(
+      'Only the float encoding_format is supported',
+      400,
+    );
+  }
+  return input;
+};
+
+export const toEmbeddingResponse = (model: string, vectors: number[][]) => ({
+  object: 'list',
+  data: vectors.map((embedding, index) => ({
+    object: 'embedding',
+    index,
+    embedding,
+  })),
+  model,
+  usage: {prompt_tokens: 0, total_tokens: 0},
+});
@@ -0,0 +1,62 @@
+/** Transport-agnostic types for the OpenAI-compatible local server. */
+
+import type {
+  ApiCompletionParams,
+  CompletionEngine,
+} from '../../utils/completionTypes';
+
+export interface LocalServerRequest {
+  id: string;
+  method: string;
+  /** Path and query, e.g. `/v1/models`. */
+  path: string;
+  /** Header names are lower-cased. */
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Moves requests and responses between clients and the server. The native
+ * listener implements it on device; tests drive the server through a
+ * loopback one.
+ */
+export interface ServerTransport {
+  /** Requests without the API key are refused before reaching handlers. */
+  start(
+    port: number,
+    apiKey: string,
+  ): Promise<{port: number; addresses: string[]}>;
+  stop(): Promise<void>;
+  setApiKey(apiKey: string): Promise<void>;
+  onRequest(handler: (request: LocalServerRequest) => void): () => void;
+  onClientClosed(handler: (requestId: string) => void): () => void;
+  sendResponse(
+    requestId: string,
+    status: number,
+    headers: Record<string, string>,
+    body: string,
+  ): Promise<void>;
+  beginStream(
+    requestId: string,
+    status: number,
+    headers: Record<string, string>,
+  ): Promise<void>;
+  writeStream(requestId: string, chunk: string): Promise<void>;
+  endStream(requestId: string): Promise<void>;
+}
+
+/** What the server needs from the app, read at request time. */
+export interface LocalServerBackend {
+  /** Bearer token clients must send. */
+  getApiKey(): string | undefined;
+  /** Id of the loaded local model, or undefined when none is. */
+  getModelId(): string | undefined;
+  getEngine(): CompletionEngine | undefined;
+  /** The app's settings that a request's own sampling fields override. */
+  getDefaultParams(): Promise<Partial<ApiCompletionParams>>;
+  embed(input: string): Promise<number[]>;
+  /** Resolves once nothing else (a chat in the app) is generating. */
+  waitUntilIdle(): Promise<void>;
+  /** Brackets each request's model work so the app sees the model as busy. */
+  runExclusive<T>(task: () => Promise<T>): Promise<T>;
+}
@@ -0,0 +1,70 @@
+import {
+  MEMORY_LINE_OVERHEAD_TOKENS,
+  rankMemories,
+  selectPromptMemories,
+} from '../relevance';
+import {estimateTokens} from '../../search/searchBudget';
+import type {PalMemoryEntry} from '../../../types/pal';
+
+const memory = (
+  id: string,
+  content: string,
+  updatedAt = 1,
+): PalMemoryEntry => ({
+  id,
+  palId: 'pal-1',
+  content,
+  createdAt: updatedAt,
+  updatedAt,
+});
+
+const memories = [
+  memory('m1', 'The user is vegetarian.', 1),
+  memory('m2', 'The user has a sister called Ana.', 2),
+  memory('m3', 'The user is learning Portuguese.', 3),
+];
+
+describe('rankMemories', () => {
+  it('returns only memories sharing a query term, best match first', () => {
+    expect(
+      rankMemories(memories, 'Any vegetarian recipes?', 5).map(m => m.id),
+    ).toEqual(['m1']);
+  });
+
+  it('weights rare terms above terms every memory shares', () => {
+    const ranked = rankMemories(memories, 'the user sister', 5);
+
+    expect(ranked[0].id).toBe('m2');
+    // Common terms still match, newest first on equal score.
+    expect(ranked.map(m => m.id)).toEqual(['m2', 'm3', 'm1']);
+  });
+
+  it('matches inside words and respects the limit', () => {
+    expect(rankMemories(memories, 'portug', 1).map(m => m.id)).toEqual(['m3']);
+    expect(rankMemories(memories, 'user', 2)).toHaveLength(2);
+    expect(rankMemories(memories, '', 5)).toEqual([]);
+  });
+});
+
+describe('selectPromptMemories', () => {
+  const cost = (m: PalMemoryEntry) =>
+    estimateTokens(m.content) + MEMORY_LINE_OVERHEAD_TOKENS;
+
+  it('puts relevant memories first, then the most recent', () => {
+    expect(
+      selectPromptMemories(memories, 'vegetarian dinner', 1000).map(m => m.id),
+    ).toEqual(['m1', 'm3', 'm2']);
+  });
+
+  it('stays within the token budget, skipping memories that do not fit', () => {
+    const long = memory('long', 'x '.repeat(200), 4);
+    const budget = cost(memories[2]) + cost(memories[1]);
+
+    const selected = selectPromptMemories([...memories, long], '', budget);
+
+    expect(selected.map(m => m.id)).toEqual(['m3', 'm2']);
+    expect(selected.reduce((sum, m) => sum + cost(m), 0)).toBeLessThanOrEqual(
+      budget,
+    );
+  });
+});
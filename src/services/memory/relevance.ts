@@ -0,0 +1,81 @@
+import type {PalMemoryEntry} from '../../types/pal';
+import {estimateTokens} from '../search/searchBudget';
+
+/** Tokens for the `- [id] ` prefix and newline around each memory. */
+export const MEMORY_LINE_OVERHEAD_TOKENS = 8;
+
+const TERM_SEPARATORS = /[\s.,;:!?'"()[\]{}<>/\\|*_~`@#$%^&+=-]+/;
+
+const termsOf = (text: string): string[] => [
+  ...new Set(
+    text
+      .toLowerCase()
+      .split(TERM_SEPARATORS)
+      .filter(term => term.length >= 2),
+  ),
+];
+
+/**
+ * Score each memory by the query terms it contains, weighting rare terms
+ * higher so words every memory shares count for little. Terms are matched
+ * as substrings, which also catches words inside space-less scripts.
+ */
+const scoreMemories = (
+  memories: PalMemoryEntry[],
+  query: string,
+): Array<{memory: PalMemoryEntry; score: number}> => {
+  const terms = termsOf(query);
+  const texts = memories.map(memory => memory.content.toLowerCase());
+  const weights = terms.map(term => {
+    const count = texts.filter(text => text.includes(term)).length;
+    return count > 0 ? Math.log(1 + memories.length / count) : 0;
+  });
+  return memories.map((memory, i) => ({
+    memory,
+    score: terms.reduce(
+      (sum, term, j) => (texts[i].includes(term) ? sum + weights[j] : sum),
+      0,
+    ),
+  }));
+};
+
+const byScoreThenRecency = (
+  a: {memory: PalMemoryEntry; score: number},
+  b: {memory: PalMemoryEntry; score: number},
+): number => b.score - a.score || b.memory.updatedAt - a.memory.updatedAt;
+
+/** Memories containing at least one query term, most relevant first. */
+export const rankMemories = (
+  memories: PalMemoryEntry[],
+  query: string,
+  limit: number,
+): PalMemoryEntry[] =>
+  scoreMemories(memories, query)
+    .filter(({score}) => score > 0)
+    .sort(byScoreThenRecency)
+    .slice(0, Math.max(0, limit))
+    .map(({memory}) => memory);
+
+/**
+ * Memories to show the model for `query` within `tokenBudget`: relevant
+ * ones first, then the most recently saved. A memory that does not fit is
+ * skipped so a shorter one after it can still be included.
+ */
+export const selectPromptMemories = (
+  memories: PalMemoryEntry[],
+  query: string,
+  tokenBudget: number,
+): PalMemoryEntry[] => {
+  const selected: PalMemoryEntry[] = [];
+  let remaining = tokenBudget;
+  for (const {memory} of scoreMemories(memories, query).sort(
+    byScoreThenRecency,
+  )) {
+    const cost = estimateTokens(memory.content) + MEMORY_LINE_OVERHEAD_TOKENS;
+    if (cost <= remaining) {
+      selected.push(memory);
+      remaining -= cost;
+    }
+  }
+  return selected;
+};
@@ -1,4 +1,9 @@
-import type {SearchProvider, SearchProviderId, PageContent} from './types';
+import type {
+  SearchProvider,
+  SearchProviderId,
+  PageContent,
+  ReadOptions,
+} from './types';
 import {fetchText} from './providers/http';
 import {TavilyProvider} from './providers/tavily';
 import {BraveProvider} from './providers/brave';
@@ -12,6 +17,7 @@ export type {
   PageContent,
   SearchBudget,
   SearchOptions,
+  ReadOptions,
 } from './types';
 export {
   budgetHits,
@@ -41,9 +47,11 @@ export const createSearchProvider = (
 /** Fallback reader for providers without native read(): r.jina.ai returns clean plain text, no key. */
 export const readWithDefaultReader = async (
   url: string,
+  opts?: ReadOptions,
 ): Promise<PageContent> => {
   const text = await fetchText(`https://r.jina.ai/${encodeURI(url)}`, {
     method: 'GET',
+    signal: opts?.signal,
   });
   return {url, text};
 };
@@ -95,3 +95,49 @@ describe('response body cap', () => {
     ).toEqual({a: 1});
   });
 });
+
+describe('caller cancellation', () => {
+  const abortingFetch = jest.fn(
+    (_input: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const err = new Error('Aborted');
+          err.name = 'AbortError';
+          reject(err);
+        });
+      }),
+  );
+
+  beforeEach(() => {
+    abortingFetch.mockClear();
+    global.fetch = abortingFetch as unknown as typeof fetch;
+  });
+
+  it('aborts the request and reports "cancelled" when the caller signal fires', async () => {
+    const controller = new AbortController();
+    const pending = fetchJson('https://api.example.com/s', {
+      method: 'GET',
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(pending).rejects.toThrow('cancelled');
+  });
+
+  it('does not send the request when the caller signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      fetchText('https://r.jina.ai/x', {
+        method: 'GET',
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow('cancelled');
+    expect(abortingFetch).not.toHaveBeenCalled();
+  });
+
+  it('still reports "timed out" when its own deadline fires', async () => {
+    await expect(
+      fetchJson('https://api.example.com/s', {method: 'GET'}, 1),
+    ).rejects.toThrow('timed out');
+  });
+});
@@ -28,6 +28,7 @@ export class BraveProvider implements SearchProvider {
         Accept: 'application/json',
         'X-Subscription-Token': key,
       },
+      signal: opts.signal,
     });
     return (data.web?.results ?? []).map(r => ({
       title: r.title ?? '',
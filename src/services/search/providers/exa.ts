@@ -3,6 +3,7 @@ import type {
   SearchHit,
   SearchOptions,
   PageContent,
+  ReadOptions,
 } from '../types';
 import {fetchJson, requireKey} from './http';
 
@@ -42,6 +43,7 @@ export class ExaProvider implements SearchProvider {
         numResults: opts.maxResults,
         contents: {highlights: true, summary: true},
       }),
+      signal: opts.signal,
     });
     return (data.results ?? []).map(r => ({
       title: r.title ?? '',
@@ -51,12 +53,13 @@ export class ExaProvider implements SearchProvider {
     }));
   }
 
-  async read(url: string): Promise<PageContent> {
+  async read(url: string, opts?: ReadOptions): Promise<PageContent> {
     const key = requireKey(this.getKey(), 'Exa');
     const data = await fetchJson<ExaResponse>('https://api.exa.ai/contents', {
       method: 'POST',
       headers: {'Content-Type': 'application/json', 'x-api-key': key},
       body: JSON.stringify({urls: [url], text: true}),
+      signal: opts?.signal,
     });
     const first = data.results?.[0];
     return {
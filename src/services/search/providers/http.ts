@@ -19,17 +19,25 @@ const withTimeout = async (
   init: RequestInit,
   timeoutMs: number,
 ): Promise<Response> => {
+  // A caller signal (the talent's cancellation) aborts the same request.
+  const external = init.signal ?? undefined;
+  if (external?.aborted) {
+    throw new Error('cancelled');
+  }
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onExternalAbort = () => controller.abort();
+  external?.addEventListener('abort', onExternalAbort);
   try {
     return await fetch(input, {...init, signal: controller.signal});
   } catch (e) {
     if (e instanceof Error && e.name === 'AbortError') {
-      throw new Error('timed out');
+      throw new Error(external?.aborted ? 'cancelled' : 'timed out');
     }
     throw e;
   } finally {
     clearTimeout(timer);
+    external?.removeEventListener('abort', onExternalAbort);
   }
 };
 
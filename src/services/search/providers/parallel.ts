@@ -32,6 +32,7 @@ export class ParallelProvider implements SearchProvider {
           objective: query,
           max_results: opts.maxResults,
         }),
+        signal: opts.signal,
       },
     );
     return (data.results ?? []).map(r => ({
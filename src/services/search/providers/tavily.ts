@@ -30,6 +30,7 @@ export class TavilyProvider implements SearchProvider {
           max_results: opts.maxResults,
           search_depth: 'basic',
         }),
+        signal: opts.signal,
       },
     );
     return (data.results ?? []).map(r => ({
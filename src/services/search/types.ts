@@ -21,6 +21,12 @@ export interface PageContent {
 
 export interface SearchOptions {
   maxResults: number;
+  /** Cancels the request when the calling talent is stopped or times out. */
+  signal?: AbortSignal;
+}
+
+export interface ReadOptions {
+  signal?: AbortSignal;
 }
 
 /**
@@ -31,7 +37,7 @@ export interface SearchProvider {
   readonly id: SearchProviderId;
   search(query: string, opts: SearchOptions): Promise<SearchHit[]>;
   /** Optional native deep-read; absent → read_url uses the default reader. */
-  read?(url: string): Promise<PageContent>;
+  read?(url: string, opts?: ReadOptions): Promise<PageContent>;
 }
 
 export interface SearchBudget {
@@ -0,0 +1,22 @@
+import React from 'react';
+
+import {DocumentSearchResultBubble} from '../../components/DocumentSearchResultCard';
+
+import {TalentUI} from './TalentUIRegistry';
+import {TalentResult} from './types';
+
+export class DocumentSearchTalentUI implements TalentUI {
+  readonly name = 'search_documents';
+
+  renderResult(result: TalentResult): React.ReactNode {
+    if (result.type !== 'documents') {
+      return null;
+    }
+    return (
+      <DocumentSearchResultBubble
+        query={result.query}
+        passages={result.passages}
+      />
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  TalentEngine,
+  TalentExecuteOptions,
+  TalentResult,
+  ToolDefinition,
+} from './types';
+import {noPalError} from './memoryAccess';
+import type {MemoryAccess} from './memoryAccess';
+
+/** `forget` talent. Deletes one memory of the calling Pal by id. */
+export class ForgetEngine implements TalentEngine {
+  readonly name = 'forget';
+
+  constructor(private access: MemoryAccess) {}
+
+  async execute(
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<TalentResult> {
+    const id = typeof args.id === 'string' ? args.id.trim() : '';
+    if (!id) {
+      return {
+        type: 'error',
+        summary: 'forget: missing or empty "id" argument',
+        errorMessage: 'id argument is required and must be a non-empty string',
+      };
+    }
+    if (!options?.palId) {
+      return noPalError('forget');
+    }
+    try {
+      if (!(await this.access.forget(options.palId, id))) {
+        const summary = `forget: no memory with id "${id}"`;
+        return {type: 'error', summary, errorMessage: summary};
+      }
+      return {type: 'text', summary: `Forgot memory [${id}].`};
+    } catch (e) {
+      const errMsg = e instanceof Error ? e.message : String(e);
+      return {
+        type: 'error',
+        summary: `forget: ${errMsg}`,
+        errorMessage: errMsg,
+      };
+    }
+  }
+
+  toToolDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: 'forget',
+        description:
+          'Delete one memory saved about the user, by the id shown in brackets next to it.',
+        parameters: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Id of the memory to delete.',
+            },
+          },
+          required: ['id'],
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  TalentEngine,
+  TalentExecuteOptions,
+  TalentResult,
+  ToolDefinition,
+} from './types';
+import type {McpCallToolResult, McpContent, McpTool} from '../../api/mcp';
+import {wrapUntrusted} from './untrustedContent';
+
+/**
+ * Injected per server so the engine never imports `McpStore` or holds the
+ * client — the store owns the connection and its reconnects.
+ */
+export interface McpToolCaller {
+  callTool(
+    name: string,
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<McpCallToolResult>;
+}
+
+// Remote output goes straight into the context window; bound it like a
+// read_url page. Images are only described to the model.
+const MAX_TEXT_CHARS = 12000;
+
+/** OpenAI function names: `^[a-zA-Z0-9_-]{1,64}$`. */
+const sanitize = (value: string): string =>
+  value.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Registry name for a server's tool. The `mcp_` prefix keeps dynamic tools
+ * from shadowing built-ins, and the server slug keeps two servers exposing
+ * the same tool apart. Stable for a given server name + tool name, so a
+ * Pal's `pact.talents` keeps resolving across reconnects.
+ */
+export const mcpTalentName = (serverName: string, toolName: string): string =>
+  `mcp_${sanitize(serverName) || 'server'}_${sanitize(toolName)}`.slice(0, 64);
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const describeContent = (part: McpContent): string => {
+  switch (part.type) {
+    case 'text':
+      return part.text;
+    case 'image':
+      return `[image: ${part.mimeType}]`;
+    case 'audio':
+      return `[audio: ${part.mimeType}]`;
+    case 'resource':
+      return part.resource.text ?? `[resource: ${part.resource.uri}]`;
+    case 'resource_link':
+      return `[resource: ${part.name ?? part.uri}]`;
+    default:
+      return '';
+  }
+};
+
+const clamp = (text: string): string =>
+  text.length > MAX_TEXT_CHARS
+    ? `${text.slice(0, MAX_TEXT_CHARS)}\n[truncated]`
+    : text;
+
+/**
+ * Map an MCP `tools/call` result onto a `TalentResult`. Everything the
+ * server returns is untrusted, so text and image placeholders reach the
+ * model only inside `wrapUntrusted` markers. Images additionally render
+ * as an inline HTML preview.
+ */
+export function mcpResultToTalentResult(
+  talentName: string,
+  result: McpCallToolResult,
+): TalentResult {
+  const text = clamp(
+    result.content
+      .map(describeContent)
+      .filter(part => part.length > 0)
+      .join('\n\n'),
+  );
+
+  if (result.isError) {
+    const errorMessage = text || 'The tool reported an error';
+    return {
+      type: 'error',
+      summary: `${talentName}: ${wrapUntrusted(errorMessage)}`,
+      errorMessage,
+    };
+  }
+
+  const images = result.content.filter(
+    (part): part is Extract<McpContent, {type: 'image'}> =>
+      part.type === 'image' && /^image\/[\w.+-]+$/.test(part.mimeType),
+  );
+  const summary = wrapUntrusted(text || '(no content)');
+  if (images.length === 0) {
+    return {type: 'text', summary};
+  }
+
+  const textParts = result.content
+    .filter(
+      (part): part is Extract<McpContent, {type: 'text'}> =>
+        part.type === 'text',
+    )
+    .map(part => `<pre>${escapeHtml(part.text)}</pre>`);
+  const imageTags = images.map(
+    image =>
+      `<img src="data:${image.mimeType};base64,${image.data.replace(/[^A-Za-z0-9+/=]/g, '')}" style="max-width:100%" />`,
+  );
+  return {
+    type: 'html',
+    html: [...textParts, ...imageTags].join('\n'),
+    title: talentName,
+    summary,
+  };
+}
+
+/** One tool of a connected MCP server, exposed as a talent. */
+export class McpToolEngine implements TalentEngine {
+  readonly name: string;
+  readonly title: string;
+  // Calls leave the device, so the Pal editor offers an approval policy.
+  readonly sensitive = true;
+
+  constructor(
+    serverName: string,
+    private readonly tool: McpTool,
+    private readonly caller: McpToolCaller,
+  ) {
+    this.name = mcpTalentName(serverName, tool.name);
+    this.title = `${tool.title ?? tool.name} (${serverName})`;
+  }
+
+  async execute(
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<TalentResult> {
+    let result: McpCallToolResult;
+    try {
+      result = await this.caller.callTool(this.tool.name, args, options);
+    } catch (e) {
+      const errMsg = e instanceof Error ? e.message : String(e);
+      return {
+        type: 'error',
+        summary: `${this.name}: ${errMsg}`,
+        errorMessage: errMsg,
+      };
+    }
+    return mcpResultToTalentResult(this.name, result);
+  }
+
+  toToolDefinition(): ToolDefinition {
+    const schema = this.tool.inputSchema ?? {};
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.tool.description ?? this.tool.title ?? this.tool.name,
+        // Tools with no arguments may omit or under-specify the schema.
+        parameters:
+          schema.type === 'object' ? schema : {type: 'object', properties: {}},
+      },
+    };
+  }
+}
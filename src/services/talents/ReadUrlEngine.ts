@@ -1,4 +1,9 @@
-import {TalentEngine, TalentResult, ToolDefinition} from './types';
+import {
+  TalentEngine,
+  TalentExecuteOptions,
+  TalentResult,
+  ToolDefinition,
+} from './types';
 import type {SearchAccess} from './searchAccess';
 import type {PageContent} from '../search/types';
 import {budgetPage} from '../search/searchBudget';
@@ -28,10 +33,18 @@ const isAllowedReadUrl = (raw: string): boolean => {
 export class ReadUrlEngine implements TalentEngine {
   readonly name = 'read_url';
   readonly recommendedContextTokens = 1200;
+  readonly maxConcurrency = 2;
+  // A same-step web_search must land its hits in the allowlist first.
+  readonly dependsOn = ['web_search'];
+  readonly timeoutMs = 30000;
+  readonly sensitive = true;
 
   constructor(private access: SearchAccess) {}
 
-  async execute(args: Record<string, any>): Promise<TalentResult> {
+  async execute(
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<TalentResult> {
     const url = typeof args.url === 'string' ? args.url.trim() : '';
     if (!url) {
       return {
@@ -74,9 +87,10 @@ export class ReadUrlEngine implements TalentEngine {
 
     let page: PageContent;
     try {
+      const readOptions = {signal: options?.signal};
       page = provider.read
-        ? await provider.read(targetUrl)
-        : await this.access.readWithDefaultReader(targetUrl);
+        ? await provider.read(targetUrl, readOptions)
+        : await this.access.readWithDefaultReader(targetUrl, readOptions);
     } catch (e) {
       const errMsg = e instanceof Error ? e.message : String(e);
       return {
@@ -0,0 +1,65 @@
+import {
+  TalentEngine,
+  TalentExecuteOptions,
+  TalentResult,
+  ToolDefinition,
+} from './types';
+import {formatMemory, noPalError} from './memoryAccess';
+import type {MemoryAccess} from './memoryAccess';
+
+const RESULT_COUNT = 10;
+
+/** `recall` talent. Searches the calling Pal's long-term memory. */
+export class RecallEngine implements TalentEngine {
+  readonly name = 'recall';
+
+  constructor(private access: MemoryAccess) {}
+
+  async execute(
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<TalentResult> {
+    if (!options?.palId) {
+      return noPalError('recall');
+    }
+    const query = typeof args.query === 'string' ? args.query.trim() : '';
+    const memories = query
+      ? this.access.search(options.palId, query, RESULT_COUNT)
+      : this.access.list(options.palId).slice(-RESULT_COUNT).reverse();
+    if (memories.length === 0) {
+      return {
+        type: 'text',
+        summary: query
+          ? `No saved memories match "${query}".`
+          : 'No memories saved yet.',
+      };
+    }
+    const header = query
+      ? `Saved memories matching "${query}":`
+      : 'Most recently saved memories:';
+    return {
+      type: 'text',
+      summary: [header, ...memories.map(formatMemory)].join('\n'),
+    };
+  }
+
+  toToolDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: 'recall',
+        description:
+          'Search long-term memory for facts saved about the user in earlier chats. Omit the query to list the most recent memories.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Keywords to look for, e.g. "diet" or "sister".',
+            },
+          },
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  TalentEngine,
+  TalentExecuteOptions,
+  TalentResult,
+  ToolDefinition,
+  SystemPromptContext,
+} from './types';
+import {formatMemory, noPalError} from './memoryAccess';
+import type {MemoryAccess} from './memoryAccess';
+import {selectPromptMemories} from '../memory';
+
+/** Prompt space for saved memories; the rest stay reachable via `recall`. */
+export const MEMORY_PROMPT_TOKENS = 400;
+
+/**
+ * `remember` talent. Saves a fact about the user to the calling Pal's
+ * long-term memory, and puts the saved memories most relevant to the
+ * current message into the system prompt.
+ */
+export class RememberEngine implements TalentEngine {
+  readonly name = 'remember';
+  readonly recommendedContextTokens = MEMORY_PROMPT_TOKENS;
+
+  constructor(private access: MemoryAccess) {}
+
+  async execute(
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<TalentResult> {
+    const content = typeof args.content === 'string' ? args.content : '';
+    if (!content.trim()) {
+      return {
+        type: 'error',
+        summary: 'remember: missing or empty "content" argument',
+        errorMessage:
+          'content argument is required and must be a non-empty string',
+      };
+    }
+    if (!options?.palId) {
+      return noPalError('remember');
+    }
+    try {
+      const memory = await this.access.remember(options.palId, content);
+      return {
+        type: 'text',
+        summary: `Saved to memory:\n${formatMemory(memory)}`,
+      };
+    } catch (e) {
+      const errMsg = e instanceof Error ? e.message : String(e);
+      return {
+        type: 'error',
+        summary: `remember: ${errMsg}`,
+        errorMessage: errMsg,
+      };
+    }
+  }
+
+  systemPromptFragment(ctx: SystemPromptContext): string | null {
+    if (!ctx.palId) {
+      return null;
+    }
+    const lines = [
+      'You have a long-term memory that persists across chats with this user. ' +
+        'When the user shares a lasting fact or preference (their name, goals, likes, ' +
+        'ongoing projects), save it with remember as one short, self-contained sentence. ' +
+        'Do not save passing details or anything the user asks you not to keep.',
+    ];
+    const memories = selectPromptMemories(
+      this.access.list(ctx.palId),
+      ctx.userMessage ?? '',
+      MEMORY_PROMPT_TOKENS,
+    );
+    if (memories.length > 0) {
+      lines.push(
+        'What you remember about the user:',
+        ...memories.map(formatMemory),
+      );
+    }
+    const followUps = [
+      ctx.activeTalents.has('recall')
+        ? 'Use recall to look up other saved memories.'
+        : '',
+      ctx.activeTalents.has('forget')
+        ? 'Use forget with a memory id when something is wrong or the user asks you to forget it.'
+        : '',
+    ].filter(Boolean);
+    if (followUps.length > 0) {
+      lines.push(followUps.join(' '));
+    }
+    return lines.join('\n');
+  }
+
+  toToolDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: 'remember',
+        description:
+          'Save a lasting fact or preference about the user to long-term memory, so it is available in future chats.',
+        parameters: {
+          type: 'object',
+          properties: {
+            content: {
+              type: 'string',
+              description:
+                'One short, self-contained sentence, e.g. "The user is vegetarian."',
+            },
+          },
+          required: ['content'],
+        },
+      },
+    };
+  }
+}
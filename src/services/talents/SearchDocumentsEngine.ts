@@ -0,0 +1,131 @@
+import {
+  TalentEngine,
+  TalentExecuteOptions,
+  TalentResult,
+  ToolDefinition,
+  SystemPromptContext,
+} from './types';
+import type {DocumentAccess} from './documentAccess';
+import type {DocumentHit} from '../documents/types';
+import {wrapUntrusted} from './untrustedContent';
+
+/** Four ~300-token chunks fit the recommended context budget. */
+const RESULT_COUNT = 4;
+const SNIPPET_CHARS = 200;
+
+const formatHit = (hit: DocumentHit, index: number): string =>
+  [
+    `### [${index + 1}] ${hit.title} (collection: ${hit.collectionName}, passage ${hit.position + 1})`,
+    hit.text,
+  ].join('\n');
+
+const snippet = (text: string): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > SNIPPET_CHARS
+    ? `${flat.slice(0, SNIPPET_CHARS).trimEnd()}…`
+    : flat;
+};
+
+/**
+ * `search_documents` talent. Searches only the collections the Pal opted
+ * into (`TalentRef.collections`); the model can't name others.
+ */
+export class SearchDocumentsEngine implements TalentEngine {
+  readonly name = 'search_documents';
+  readonly recommendedContextTokens = 1200;
+  // Loading the embedding model on first use can take a while.
+  readonly timeoutMs = 60000;
+  readonly usesDocumentCollections = true;
+
+  constructor(private access: DocumentAccess) {}
+
+  async execute(
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<TalentResult> {
+    const query = typeof args.query === 'string' ? args.query.trim() : '';
+    if (!query) {
+      return {
+        type: 'error',
+        summary: 'search_documents: missing or empty "query" argument',
+        errorMessage:
+          'query argument is required and must be a non-empty string',
+      };
+    }
+
+    const collectionIds = options?.talentRef?.collections ?? [];
+    if (collectionIds.length === 0) {
+      const summary =
+        'search_documents: no document collections are enabled for this Pal';
+      return {type: 'error', summary, errorMessage: summary};
+    }
+
+    let hits: DocumentHit[];
+    try {
+      hits = await this.access.search(
+        query,
+        collectionIds,
+        RESULT_COUNT,
+        options?.signal,
+      );
+    } catch (e) {
+      const errMsg = e instanceof Error ? e.message : String(e);
+      return {
+        type: 'error',
+        summary: `search_documents: ${errMsg}`,
+        errorMessage: errMsg,
+      };
+    }
+
+    if (hits.length === 0) {
+      const summary = `search_documents: no passages found for "${query}"`;
+      return {type: 'error', summary, errorMessage: summary};
+    }
+
+    return {
+      type: 'documents',
+      query,
+      passages: hits.map(hit => ({
+        title: hit.title,
+        collection: hit.collectionName,
+        snippet: snippet(hit.text),
+      })),
+      summary: wrapUntrusted(
+        [
+          `## Passages from the user's documents for "${query}"`,
+          ...hits.map(formatHit),
+        ].join('\n\n'),
+      ),
+    };
+  }
+
+  systemPromptFragment(_ctx: SystemPromptContext): string {
+    return (
+      "You can search the user's own documents with search_documents. " +
+      'Use it for questions about their files or notes, answer from the returned passages, ' +
+      'and cite the document titles you used. If the passages do not contain the answer, say so.'
+    );
+  }
+
+  toToolDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: 'search_documents',
+        description:
+          "Search the user's imported documents and notes. Returns the most relevant passages with the title of the document each one comes from.",
+        parameters: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description:
+                'What to look for, phrased as a short question or keywords.',
+            },
+          },
+          required: ['query'],
+        },
+      },
+    };
+  }
+}
@@ -14,6 +14,11 @@ export class TalentRegistry {
     this.engines.set(engine.name, engine);
   }
 
+  /** Drop a dynamic engine (e.g. an MCP tool whose server went away). */
+  unregister(name: string): void {
+    this.engines.delete(name);
+  }
+
   get(name: string): TalentEngine | undefined {
     return this.engines.get(name);
   }
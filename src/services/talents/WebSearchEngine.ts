@@ -1,5 +1,6 @@
 import {
   TalentEngine,
+  TalentExecuteOptions,
   TalentResult,
   ToolDefinition,
   SystemPromptContext,
@@ -37,10 +38,16 @@ const formatMenu = (query: string, hits: SearchHit[]): string => {
 export class WebSearchEngine implements TalentEngine {
   readonly name = 'web_search';
   readonly recommendedContextTokens = 1000;
+  readonly maxConcurrency = 3;
+  readonly timeoutMs = 20000;
+  readonly sensitive = true;
 
   constructor(private access: SearchAccess) {}
 
-  async execute(args: Record<string, any>): Promise<TalentResult> {
+  async execute(
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<TalentResult> {
     const query = typeof args.query === 'string' ? args.query.trim() : '';
     if (!query) {
       return {
@@ -69,7 +76,10 @@ export class WebSearchEngine implements TalentEngine {
       if (cached) {
         hits = cached;
       } else {
-        hits = await provider.search(query, {maxResults});
+        hits = await provider.search(query, {
+          maxResults,
+          signal: options?.signal,
+        });
       }
     } catch (e) {
       const errMsg = e instanceof Error ? e.message : String(e);
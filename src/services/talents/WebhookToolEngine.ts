@@ -0,0 +1,212 @@
+import {
+  TalentEngine,
+  TalentExecuteOptions,
+  TalentResult,
+  ToolDefinition,
+} from './types';
+import type {WebhookToolConfig} from '../../utils/types';
+import {wrapUntrusted} from './untrustedContent';
+
+/** OpenAI function names: `^[a-zA-Z0-9_-]{1,64}$`. */
+export const WEBHOOK_TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Same bound as an MCP tool result: the response goes straight into the
+// context window.
+const MAX_TEXT_CHARS = 12000;
+
+const PLACEHOLDER = /\{([a-zA-Z0-9_]+)\}/g;
+
+const BODY_METHODS = ['POST', 'PUT', 'PATCH'];
+
+export type WebhookToolProblem = 'name' | 'url' | 'parameters';
+
+/** Scheme, host and port of an http(s) URL; undefined for anything else. */
+const httpOrigin = (raw: string): string | undefined => {
+  try {
+    const parsed = new URL(raw);
+    const isHttp =
+      (parsed.protocol === 'http:' || parsed.protocol === 'https:') &&
+      parsed.hostname.length > 0;
+    return isHttp ? parsed.origin : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * First thing wrong with a tool definition, if any. Name uniqueness is the
+ * store's concern — it depends on what else is registered.
+ */
+export function validateWebhookTool(
+  config: Omit<WebhookToolConfig, 'id'>,
+): WebhookToolProblem | undefined {
+  if (!WEBHOOK_TOOL_NAME_PATTERN.test(config.name)) {
+    return 'name';
+  }
+  // Arguments must not pick the server a call goes to: filled in two
+  // different ways, the template has to parse to the same origin. Judging
+  // the parsed URL catches forms like `https:/{host}` that URL accepts.
+  const origin = httpOrigin(config.urlTemplate.replace(PLACEHOLDER, 'x'));
+  if (
+    !origin ||
+    httpOrigin(config.urlTemplate.replace(PLACEHOLDER, 'y')) !== origin
+  ) {
+    return 'url';
+  }
+  const schema = config.parameters;
+  if (
+    !schema ||
+    typeof schema !== 'object' ||
+    Array.isArray(schema) ||
+    schema.type !== 'object'
+  ) {
+    return 'parameters';
+  }
+  return undefined;
+}
+
+const stringify = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Turn a tool call into a request. Arguments named in the URL template are
+ * URL-encoded into its path or query, which validateWebhookTool keeps them
+ * to, so they can't change the scheme or host the user configured; the rest
+ * go in the query string (GET, DELETE) or a JSON body.
+ */
+export function buildWebhookRequest(
+  config: WebhookToolConfig,
+  args: Record<string, any>,
+  secrets: Record<string, string>,
+): {url: string; init: RequestInit} {
+  const used = new Set<string>();
+  const url = new URL(
+    config.urlTemplate.replace(PLACEHOLDER, (_match, key: string) => {
+      const value = args[key];
+      if (value === undefined || value === null) {
+        throw new Error(`missing argument "${key}"`);
+      }
+      used.add(key);
+      return encodeURIComponent(stringify(value));
+    }),
+  );
+  const rest = Object.fromEntries(
+    Object.entries(args).filter(
+      ([key, value]) => !used.has(key) && value !== undefined && value !== null,
+    ),
+  );
+
+  const headers: Record<string, string> = {};
+  for (const header of config.headers) {
+    const value = header.secret ? secrets[header.name] : header.value;
+    if (value) {
+      headers[header.name] = value;
+    }
+  }
+
+  let body: string | undefined;
+  if (BODY_METHODS.includes(config.method)) {
+    body = JSON.stringify(rest);
+    const hasContentType = Object.keys(headers).some(
+      name => name.toLowerCase() === 'content-type',
+    );
+    if (!hasContentType) {
+      headers['Content-Type'] = 'application/json';
+    }
+  } else {
+    Object.entries(rest).forEach(([key, value]) =>
+      url.searchParams.append(key, stringify(value)),
+    );
+  }
+
+  return {
+    url: url.toString(),
+    init: {method: config.method, headers, body},
+  };
+}
+
+/**
+ * The part of a response the model sees. With a path, the body must be JSON
+ * and the path must resolve; without one, the body is returned as is.
+ */
+export function extractWebhookResponse(body: string, path?: string): string {
+  const trimmed = path?.trim();
+  if (!trimmed) {
+    return body;
+  }
+  let value: any;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    throw new Error('response is not JSON');
+  }
+  for (const key of trimmed.match(/[^.[\]]+/g) ?? []) {
+    if (value === null || typeof value !== 'object' || !(key in value)) {
+      throw new Error(`"${trimmed}" not found in response`);
+    }
+    value = value[key];
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/** A user-configured HTTP endpoint, exposed as a talent. */
+export class WebhookToolEngine implements TalentEngine {
+  readonly name: string;
+  readonly timeoutMs = 30000;
+  // Calls leave the device, so the Pal editor offers an approval policy.
+  readonly sensitive = true;
+
+  constructor(
+    private readonly config: WebhookToolConfig,
+    private readonly getSecrets: () => Promise<Record<string, string>>,
+  ) {
+    this.name = config.name;
+  }
+
+  async execute(
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<TalentResult> {
+    let text: string;
+    try {
+      const {url, init} = buildWebhookRequest(
+        this.config,
+        args,
+        await this.getSecrets(),
+      );
+      const response = await fetch(url, {...init, signal: options?.signal});
+      if (!response.ok) {
+        const summary = `${this.name}: HTTP ${response.status}`;
+        return {type: 'error', summary, errorMessage: summary};
+      }
+      text = extractWebhookResponse(
+        await response.text(),
+        this.config.responsePath,
+      );
+    } catch (e) {
+      const errMsg = e instanceof Error ? e.message : String(e);
+      return {
+        type: 'error',
+        summary: `${this.name}: ${errMsg}`,
+        errorMessage: errMsg,
+      };
+    }
+
+    const clipped =
+      text.length > MAX_TEXT_CHARS
+        ? `${text.slice(0, MAX_TEXT_CHARS)}\n[truncated]`
+        : text;
+    return {type: 'text', summary: wrapUntrusted(clipped || '(empty)')};
+  }
+
+  toToolDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.config.description || this.name,
+        parameters: this.config.parameters,
+      },
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import {ForgetEngine} from '../ForgetEngine';
+import type {MemoryAccess} from '../memoryAccess';
+
+const makeAccess = (found = true): MemoryAccess => ({
+  list: jest.fn(),
+  search: jest.fn(),
+  remember: jest.fn(),
+  forget: jest.fn().mockResolvedValue(found),
+});
+
+const signal = new AbortController().signal;
+
+describe('ForgetEngine', () => {
+  it('deletes the memory of the calling Pal', async () => {
+    const access = makeAccess();
+
+    const result = await new ForgetEngine(access).execute(
+      {id: ' m1 '},
+      {signal, palId: 'pal-1'},
+    );
+
+    expect(access.forget).toHaveBeenCalledWith('pal-1', 'm1');
+    expect(result).toEqual({type: 'text', summary: 'Forgot memory [m1].'});
+  });
+
+  it('reports unknown ids, missing ids and calls outside a Pal', async () => {
+    const engine = new ForgetEngine(makeAccess(false));
+
+    expect(
+      await engine.execute({id: 'm7'}, {signal, palId: 'pal-1'}),
+    ).toMatchObject({type: 'error', summary: 'forget: no memory with id "m7"'});
+    expect(await engine.execute({}, {signal, palId: 'pal-1'})).toMatchObject({
+      type: 'error',
+      summary: 'forget: missing or empty "id" argument',
+    });
+    expect(await engine.execute({id: 'm1'}, {signal})).toMatchObject({
+      type: 'error',
+      summary: "forget: memory is only available in a Pal's chat",
+    });
+  });
+});
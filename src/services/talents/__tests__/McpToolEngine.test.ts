@@ -0,0 +1,209 @@
+import {
+  McpToolEngine,
+  mcpResultToTalentResult,
+  mcpTalentName,
+} from '../McpToolEngine';
+import {removeMcpServerTalents, syncMcpServerTalents} from '../mcpTalents';
+import {talentRegistry} from '../TalentRegistry';
+import {CalculateEngine} from '../CalculateEngine';
+import type {McpToolCaller} from '../McpToolEngine';
+import type {McpCallToolResult, McpTool} from '../../../api/mcp';
+
+const tool = (name: string, extra: Partial<McpTool> = {}): McpTool => ({
+  name,
+  description: `${name} tool`,
+  inputSchema: {
+    type: 'object',
+    properties: {path: {type: 'string'}},
+    required: ['path'],
+  },
+  ...extra,
+});
+
+const caller = (impl?: McpToolCaller['callTool']): McpToolCaller => ({
+  callTool: jest.fn(
+    impl ??
+      (async (): Promise<McpCallToolResult> => ({
+        content: [{type: 'text', text: 'ok'}],
+      })),
+  ),
+});
+
+describe('mcpTalentName', () => {
+  it('prefixes with the server slug and keeps names function-safe', () => {
+    expect(mcpTalentName('Home NAS', 'read.file')).toBe(
+      'mcp_Home_NAS_read_file',
+    );
+    expect(mcpTalentName('!!!', 'x')).toBe('mcp_server_x');
+    expect(mcpTalentName('s', 'y'.repeat(100))).toHaveLength(64);
+  });
+});
+
+describe('McpToolEngine', () => {
+  it('builds its tool definition from the MCP input schema', () => {
+    const engine = new McpToolEngine('nas', tool('read_file'), caller());
+
+    expect(engine.name).toBe('mcp_nas_read_file');
+    expect(engine.title).toBe('read_file (nas)');
+    expect(engine.sensitive).toBe(true);
+    expect(engine.toToolDefinition()).toEqual({
+      type: 'function',
+      function: {
+        name: 'mcp_nas_read_file',
+        description: 'read_file tool',
+        parameters: {
+          type: 'object',
+          properties: {path: {type: 'string'}},
+          required: ['path'],
+        },
+      },
+    });
+  });
+
+  it('falls back to an empty object schema', () => {
+    const engine = new McpToolEngine(
+      'nas',
+      tool('ping', {inputSchema: {}}),
+      caller(),
+    );
+    expect(engine.toToolDefinition().function.parameters).toEqual({
+      type: 'object',
+      properties: {},
+    });
+  });
+
+  it('calls the server tool by its original name and forwards the signal', async () => {
+    const call = caller();
+    const engine = new McpToolEngine('nas', tool('read_file'), call);
+    const signal = new AbortController().signal;
+
+    await engine.execute({path: '/a'}, {signal});
+
+    expect(call.callTool).toHaveBeenCalledWith(
+      'read_file',
+      {path: '/a'},
+      {signal},
+    );
+  });
+
+  it('turns a transport failure into an error result', async () => {
+    const engine = new McpToolEngine(
+      'nas',
+      tool('read_file'),
+      caller(async () => {
+        throw new Error('Connection timed out');
+      }),
+    );
+
+    const result = await engine.execute({path: '/a'});
+
+    expect(result).toEqual({
+      type: 'error',
+      summary: 'mcp_nas_read_file: Connection timed out',
+      errorMessage: 'Connection timed out',
+    });
+  });
+});
+
+describe('mcpResultToTalentResult', () => {
+  it('wraps text content as untrusted', () => {
+    const result = mcpResultToTalentResult('mcp_nas_read', {
+      content: [
+        {type: 'text', text: 'line one'},
+        {type: 'resource', resource: {uri: 'file:///a', text: 'line two'}},
+      ],
+    });
+
+    expect(result.type).toBe('text');
+    expect(result.summary).toContain('BEGIN UNTRUSTED WEB CONTENT');
+    expect(result.summary).toContain('line one\n\nline two');
+  });
+
+  it('renders images as an html preview and describes them to the model', () => {
+    const result = mcpResultToTalentResult('mcp_cam_snap', {
+      content: [
+        {type: 'text', text: '<b>front door</b>'},
+        {type: 'image', data: 'AAAA', mimeType: 'image/png'},
+      ],
+    });
+
+    expect(result.type).toBe('html');
+    if (result.type !== 'html') {
+      return;
+    }
+    expect(result.html).toContain('<pre>&lt;b&gt;front door&lt;/b&gt;</pre>');
+    expect(result.html).toContain('src="data:image/png;base64,AAAA"');
+    expect(result.summary).toContain('BEGIN UNTRUSTED WEB CONTENT');
+    expect(result.summary).toContain('[image: image/png]');
+    expect(result.summary).not.toContain('AAAA');
+  });
+
+  it('maps isError onto an error result with wrapped summary', () => {
+    const result = mcpResultToTalentResult('mcp_nas_read', {
+      content: [{type: 'text', text: 'no such file'}],
+      isError: true,
+    });
+
+    expect(result.type).toBe('error');
+    if (result.type !== 'error') {
+      return;
+    }
+    expect(result.errorMessage).toBe('no such file');
+    expect(result.summary).toMatch(/^mcp_nas_read: .*UNTRUSTED/s);
+  });
+
+  it('clips oversized text', () => {
+    const result = mcpResultToTalentResult('t', {
+      content: [{type: 'text', text: 'x'.repeat(20000)}],
+    });
+    expect(result.summary).toContain('[truncated]');
+    expect(result.summary.length).toBeLessThan(13000);
+  });
+});
+
+describe('syncMcpServerTalents', () => {
+  beforeEach(() => {
+    talentRegistry.reset();
+    removeMcpServerTalents('s1');
+    removeMcpServerTalents('s2');
+  });
+
+  afterAll(() => {
+    talentRegistry.reset();
+  });
+
+  it('registers tools and drops ones that disappeared on resync', () => {
+    const call = caller();
+    expect(
+      syncMcpServerTalents('s1', 'nas', [tool('a'), tool('b')], call),
+    ).toEqual(['mcp_nas_a', 'mcp_nas_b']);
+    expect(talentRegistry.has('mcp_nas_b')).toBe(true);
+
+    syncMcpServerTalents('s1', 'nas', [tool('a')], call);
+    expect(talentRegistry.has('mcp_nas_a')).toBe(true);
+    expect(talentRegistry.has('mcp_nas_b')).toBe(false);
+  });
+
+  it('never shadows a name registered by another server or a built-in', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    talentRegistry.register(new CalculateEngine());
+    syncMcpServerTalents('s1', 'nas', [tool('a')], caller());
+    const second = caller();
+
+    const names = syncMcpServerTalents('s2', 'nas', [tool('a')], second);
+
+    expect(names).toEqual([]);
+    expect(talentRegistry.has('calculate')).toBe(true);
+    warn.mockRestore();
+  });
+
+  it('removeMcpServerTalents unregisters only that server', () => {
+    syncMcpServerTalents('s1', 'one', [tool('a')], caller());
+    syncMcpServerTalents('s2', 'two', [tool('a')], caller());
+
+    removeMcpServerTalents('s1');
+
+    expect(talentRegistry.has('mcp_one_a')).toBe(false);
+    expect(talentRegistry.has('mcp_two_a')).toBe(true);
+  });
+});
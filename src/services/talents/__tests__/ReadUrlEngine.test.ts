@@ -44,7 +44,7 @@ describe('ReadUrlEngine', () => {
     const result = await new ReadUrlEngine(access).execute({
       url: 'https://e.com/p',
     });
-    expect(read).toHaveBeenCalledWith('https://e.com/p');
+    expect(read).toHaveBeenCalledWith('https://e.com/p', {signal: undefined});
     expect(result.type).toBe('text');
     if (result.type === 'text') {
       expect(result.summary).toContain('full page body');
@@ -64,10 +64,26 @@ describe('ReadUrlEngine', () => {
     const result = await new ReadUrlEngine(access).execute({
       url: 'https://e.com/x',
     });
-    expect(readWithDefaultReader).toHaveBeenCalledWith('https://e.com/x');
+    expect(readWithDefaultReader).toHaveBeenCalledWith('https://e.com/x', {
+      signal: undefined,
+    });
     expect(result.type).toBe('text');
   });
 
+  it('forwards the cancellation signal to the reader', async () => {
+    const read = jest
+      .fn()
+      .mockResolvedValue({url: 'https://e.com/p', text: 'body'});
+    const provider: SearchProvider = {id: 'exa', search: jest.fn(), read};
+    const controller = new AbortController();
+    await new ReadUrlEngine(
+      makeAccess({getActiveProvider: () => provider}),
+    ).execute({url: 'https://e.com/p'}, {signal: controller.signal});
+    expect(read).toHaveBeenCalledWith('https://e.com/p', {
+      signal: controller.signal,
+    });
+  });
+
   it('bounds the page by its own recommendedContextTokens ceiling', async () => {
     const spy = jest.spyOn(budget, 'budgetPage');
     const longBody = 'word '.repeat(4000).trim(); // far past the 1200-tok ceiling
@@ -214,7 +230,9 @@ describe('ReadUrlEngine', () => {
         url: 'https://e.com/p#conversation-secret',
       });
       expect(result.type).toBe('text');
-      expect(read).toHaveBeenCalledWith('https://e.com/p');
+      expect(read).toHaveBeenCalledWith('https://e.com/p', {
+        signal: undefined,
+      });
       expect(read).not.toHaveBeenCalledWith(
         expect.stringContaining('conversation-secret'),
       );
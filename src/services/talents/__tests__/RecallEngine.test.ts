@@ -0,0 +1,71 @@
+import {RecallEngine} from '../RecallEngine';
+import type {MemoryAccess} from '../memoryAccess';
+import type {PalMemoryEntry} from '../../../types/pal';
+
+const memory = (id: string, content: string): PalMemoryEntry => ({
+  id,
+  palId: 'pal-1',
+  content,
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+const makeAccess = (
+  memories: PalMemoryEntry[],
+  matches: PalMemoryEntry[] = [],
+): MemoryAccess => ({
+  list: jest.fn().mockReturnValue(memories),
+  search: jest.fn().mockReturnValue(matches),
+  remember: jest.fn(),
+  forget: jest.fn(),
+});
+
+const signal = new AbortController().signal;
+
+describe('RecallEngine', () => {
+  it('searches the calling Pal memory', async () => {
+    const access = makeAccess([], [memory('m2', 'Has a sister called Ana.')]);
+
+    const result = await new RecallEngine(access).execute(
+      {query: ' sister '},
+      {signal, palId: 'pal-1'},
+    );
+
+    expect(access.search).toHaveBeenCalledWith('pal-1', 'sister', 10);
+    expect(result).toEqual({
+      type: 'text',
+      summary:
+        'Saved memories matching "sister":\n- [m2] Has a sister called Ana.',
+    });
+  });
+
+  it('lists the most recent memories without a query', async () => {
+    const access = makeAccess([
+      memory('m1', 'First.'),
+      memory('m2', 'Second.'),
+    ]);
+
+    const result = await new RecallEngine(access).execute(
+      {},
+      {signal, palId: 'pal-1'},
+    );
+
+    expect(result).toEqual({
+      type: 'text',
+      summary: 'Most recently saved memories:\n- [m2] Second.\n- [m1] First.',
+    });
+  });
+
+  it('says when nothing is found', async () => {
+    const engine = new RecallEngine(makeAccess([]));
+
+    expect(
+      await engine.execute({query: 'cats'}, {signal, palId: 'pal-1'}),
+    ).toEqual({type: 'text', summary: 'No saved memories match "cats".'});
+    expect(await engine.execute({}, {signal, palId: 'pal-1'})).toEqual({
+      type: 'text',
+      summary: 'No memories saved yet.',
+    });
+    expect(await engine.execute({}, {signal})).toMatchObject({type: 'error'});
+  });
+});
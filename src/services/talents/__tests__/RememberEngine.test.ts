@@ -0,0 +1,111 @@
+import {RememberEngine} from '../RememberEngine';
+import type {MemoryAccess} from '../memoryAccess';
+import type {PalMemoryEntry} from '../../../types/pal';
+
+const memory = (id: string, content: string): PalMemoryEntry => ({
+  id,
+  palId: 'pal-1',
+  content,
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+const makeAccess = (memories: PalMemoryEntry[] = []): MemoryAccess => ({
+  list: jest.fn().mockReturnValue(memories),
+  search: jest.fn().mockReturnValue([]),
+  remember: jest.fn(async (_palId: string, content: string) =>
+    memory('m9', content),
+  ),
+  forget: jest.fn().mockResolvedValue(true),
+});
+
+const signal = new AbortController().signal;
+
+const ctx = {now: new Date('2026-07-15T12:00:00Z'), maxToolTurns: 5};
+
+describe('RememberEngine', () => {
+  it('saves the memory for the calling Pal', async () => {
+    const access = makeAccess();
+    const engine = new RememberEngine(access);
+
+    const result = await engine.execute(
+      {content: 'The user is vegetarian.'},
+      {signal, palId: 'pal-1'},
+    );
+
+    expect(access.remember).toHaveBeenCalledWith(
+      'pal-1',
+      'The user is vegetarian.',
+    );
+    expect(result).toEqual({
+      type: 'text',
+      summary: 'Saved to memory:\n- [m9] The user is vegetarian.',
+    });
+  });
+
+  it('rejects missing content and calls outside a Pal', async () => {
+    const access = makeAccess();
+    const engine = new RememberEngine(access);
+
+    expect(await engine.execute({}, {signal, palId: 'pal-1'})).toMatchObject({
+      type: 'error',
+      summary: 'remember: missing or empty "content" argument',
+    });
+    expect(await engine.execute({content: 'x'}, {signal})).toMatchObject({
+      type: 'error',
+      summary: "remember: memory is only available in a Pal's chat",
+    });
+    expect(access.remember).not.toHaveBeenCalled();
+  });
+
+  it('reports store errors', async () => {
+    const access = makeAccess();
+    (access.remember as jest.Mock).mockRejectedValue(
+      new Error('Memory is full (200 entries); forget something first'),
+    );
+
+    const result = await new RememberEngine(access).execute(
+      {content: 'x'},
+      {signal, palId: 'pal-1'},
+    );
+
+    expect(result).toMatchObject({
+      type: 'error',
+      summary: 'remember: Memory is full (200 entries); forget something first',
+    });
+  });
+
+  it('puts relevant memories into the system prompt', () => {
+    const engine = new RememberEngine(
+      makeAccess([
+        memory('m1', 'The user is vegetarian.'),
+        memory('m2', 'The user has a dog.'),
+      ]),
+    );
+
+    const fragment = engine.systemPromptFragment({
+      ...ctx,
+      activeTalents: new Set(['remember', 'forget']),
+      palId: 'pal-1',
+      userMessage: 'Suggest a vegetarian dinner',
+    });
+
+    expect(fragment).toContain('What you remember about the user:');
+    expect(fragment).toContain(
+      '- [m1] The user is vegetarian.\n- [m2] The user has a dog.',
+    );
+    expect(fragment).toContain('Use forget');
+    expect(fragment).not.toContain('Use recall');
+  });
+
+  it('adds nothing outside a Pal chat', () => {
+    const engine = new RememberEngine(makeAccess());
+
+    expect(
+      engine.systemPromptFragment({
+        ...ctx,
+        activeTalents: new Set(['remember']),
+      }),
+    ).toBeNull();
+  });
+});
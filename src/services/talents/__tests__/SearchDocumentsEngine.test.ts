@@ -0,0 +1,120 @@
+import {SearchDocumentsEngine} from '../SearchDocumentsEngine';
+import type {DocumentAccess} from '../documentAccess';
+import type {DocumentHit} from '../../documents/types';
+
+const hit = (overrides: Partial<DocumentHit> = {}): DocumentHit => ({
+  documentId: 'doc-1',
+  title: 'Tea guide',
+  collectionName: 'Notes',
+  position: 2,
+  text: 'Green tea is steamed, black tea is oxidised.',
+  score: 0.8,
+  ...overrides,
+});
+
+const makeAccess = (hits: DocumentHit[] = [hit()]): DocumentAccess => ({
+  search: jest.fn().mockResolvedValue(hits),
+});
+
+const withCollections = (collections?: string[]) => ({
+  talentRef: {
+    name: 'search_documents',
+    necessity: 'required' as const,
+    collections,
+  },
+});
+
+describe('SearchDocumentsEngine', () => {
+  it('exposes the search_documents schema and opts into collections', () => {
+    const engine = new SearchDocumentsEngine(makeAccess());
+
+    expect(engine.usesDocumentCollections).toBe(true);
+    expect(engine.toToolDefinition().function).toMatchObject({
+      name: 'search_documents',
+      parameters: {required: ['query']},
+    });
+  });
+
+  it('searches only the collections enabled on the talent', async () => {
+    const access = makeAccess();
+    const engine = new SearchDocumentsEngine(access);
+    const signal = new AbortController().signal;
+
+    const result = await engine.execute(
+      {query: ' tea kinds '},
+      {signal, ...withCollections(['c1', 'c2'])},
+    );
+
+    expect(access.search).toHaveBeenCalledWith(
+      'tea kinds',
+      ['c1', 'c2'],
+      4,
+      signal,
+    );
+    expect(result).toMatchObject({
+      type: 'documents',
+      query: 'tea kinds',
+      passages: [
+        {
+          title: 'Tea guide',
+          collection: 'Notes',
+          snippet: 'Green tea is steamed, black tea is oxidised.',
+        },
+      ],
+    });
+    expect(result.summary).toContain('BEGIN UNTRUSTED WEB CONTENT');
+    expect(result.summary).toContain(
+      '### [1] Tea guide (collection: Notes, passage 3)',
+    );
+  });
+
+  it('shortens long snippets for the result card', async () => {
+    const engine = new SearchDocumentsEngine(
+      makeAccess([hit({text: 'word '.repeat(100)})]),
+    );
+
+    const result = await engine.execute(
+      {query: 'word'},
+      withCollections(['c1']),
+    );
+
+    if (result.type !== 'documents') {
+      throw new Error('expected documents');
+    }
+    expect(result.passages[0].snippet).toHaveLength(200);
+    expect(result.passages[0].snippet.endsWith('…')).toBe(true);
+  });
+
+  it.each([
+    [{}, ['c1'], 'missing or empty "query" argument'],
+    [{query: 'tea'}, undefined, 'no document collections are enabled'],
+    [{query: 'tea'}, [], 'no document collections are enabled'],
+  ])('rejects %j with collections %j', async (args, collections, message) => {
+    const access = makeAccess();
+    const engine = new SearchDocumentsEngine(access);
+
+    const result = await engine.execute(args, withCollections(collections));
+
+    expect(result.type).toBe('error');
+    expect(result.summary).toContain(message);
+    expect(access.search).not.toHaveBeenCalled();
+  });
+
+  it('reports search failures and empty results as errors', async () => {
+    const failing = new SearchDocumentsEngine({
+      search: jest.fn().mockRejectedValue(new Error('No embedding model')),
+    });
+    const empty = new SearchDocumentsEngine(makeAccess([]));
+
+    expect(
+      await failing.execute({query: 'tea'}, withCollections(['c1'])),
+    ).toEqual({
+      type: 'error',
+      summary: 'search_documents: No embedding model',
+      errorMessage: 'No embedding model',
+    });
+    expect(
+      (await empty.execute({query: 'tea'}, withCollections(['c1']))).summary,
+    ).toBe('search_documents: no passages found for "tea"');
+  });
+});
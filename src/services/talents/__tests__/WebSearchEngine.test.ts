@@ -36,6 +36,19 @@ describe('WebSearchEngine', () => {
     expect(def.function.parameters.properties).not.toHaveProperty('maxResults');
   });
 
+  it('forwards the cancellation signal to the provider', async () => {
+    const search = jest.fn().mockResolvedValue([hit()]);
+    const provider: SearchProvider = {id: 'tavily', search};
+    const controller = new AbortController();
+    await new WebSearchEngine(
+      makeAccess({getActiveProvider: () => provider}),
+    ).execute({query: 'mars'}, {signal: controller.signal});
+    expect(search).toHaveBeenCalledWith('mars', {
+      maxResults: 3,
+      signal: controller.signal,
+    });
+  });
+
   it('returns a structured search result of budgeted hits on success', async () => {
     const provider: SearchProvider = {
       id: 'tavily',
@@ -0,0 +1,213 @@
+import {
+  WebhookToolEngine,
+  buildWebhookRequest,
+  extractWebhookResponse,
+  validateWebhookTool,
+} from '../WebhookToolEngine';
+import type {WebhookToolConfig} from '../../../utils/types';
+
+const config = (
+  overrides: Partial<WebhookToolConfig> = {},
+): WebhookToolConfig => ({
+  id: 'webhook-1',
+  name: 'lookup_order',
+  description: 'Look up an order by id',
+  parameters: {
+    type: 'object',
+    properties: {id: {type: 'string'}, verbose: {type: 'boolean'}},
+    required: ['id'],
+  },
+  urlTemplate: 'https://api.example.com/orders/{id}',
+  method: 'GET',
+  headers: [
+    {name: 'Accept', value: 'application/json'},
+    {name: 'Authorization', secret: true},
+  ],
+  ...overrides,
+});
+
+const mockResponse = (status: number, body: string) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: () => Promise.resolve(body),
+});
+
+describe('validateWebhookTool', () => {
+  it('accepts a well-formed tool', () => {
+    expect(validateWebhookTool(config())).toBeUndefined();
+  });
+
+  it('accepts placeholders in the query', () => {
+    expect(
+      validateWebhookTool(
+        config({urlTemplate: 'https://api.example.com/search?q={id}'}),
+      ),
+    ).toBeUndefined();
+  });
+
+  it.each([
+    ['name', {name: 'lookup order'}],
+    ['name', {name: ''}],
+    ['url', {urlTemplate: 'ftp://example.com/{id}'}],
+    ['url', {urlTemplate: '/orders/{id}'}],
+    ['url', {urlTemplate: 'https://{host}/orders/{id}'}],
+    ['url', {urlTemplate: 'https://api.example.com:{port}/orders'}],
+    ['url', {urlTemplate: 'https://{sub}.example.com/orders'}],
+    ['url', {urlTemplate: '{scheme}://api.example.com/orders'}],
+    ['url', {urlTemplate: 'https:/{host}/x'}],
+    ['url', {urlTemplate: 'http:{host}/api'}],
+    ['url', {urlTemplate: 'http:\\\\{host}/x'}],
+    ['parameters', {parameters: {type: 'string'}}],
+  ])('reports a bad %s', (problem, overrides) => {
+    expect(validateWebhookTool(config(overrides as any))).toBe(problem);
+  });
+});
+
+describe('buildWebhookRequest', () => {
+  it('encodes template arguments and sends the rest as query params', () => {
+    const {url, init} = buildWebhookRequest(
+      config(),
+      {id: 'a/b?c', verbose: true},
+      {Authorization: 'Bearer s3cret'},
+    );
+
+    expect(url).toBe('https://api.example.com/orders/a%2Fb%3Fc?verbose=true');
+    expect(init).toEqual({
+      method: 'GET',
+      headers: {Accept: 'application/json', Authorization: 'Bearer s3cret'},
+      body: undefined,
+    });
+  });
+
+  it('sends the remaining arguments as a JSON body for POST', () => {
+    const {url, init} = buildWebhookRequest(
+      config({method: 'POST', headers: []}),
+      {id: '42', note: 'rush', tags: ['a']},
+      {},
+    );
+
+    expect(url).toBe('https://api.example.com/orders/42');
+    expect(init.headers).toEqual({'Content-Type': 'application/json'});
+    expect(JSON.parse(init.body as string)).toEqual({
+      note: 'rush',
+      tags: ['a'],
+    });
+  });
+
+  it('omits a secret header whose value is not set', () => {
+    const {init} = buildWebhookRequest(config(), {id: '1'}, {});
+    expect(init.headers).toEqual({Accept: 'application/json'});
+  });
+
+  it('rejects a call missing a template argument', () => {
+    expect(() => buildWebhookRequest(config(), {}, {})).toThrow(
+      'missing argument "id"',
+    );
+  });
+});
+
+describe('extractWebhookResponse', () => {
+  const body = JSON.stringify({data: {items: [{title: 'Shipped', n: 2}]}});
+
+  it('returns the body unchanged without a path', () => {
+    expect(extractWebhookResponse('plain text')).toBe('plain text');
+  });
+
+  it('follows dot and bracket paths', () => {
+    expect(extractWebhookResponse(body, 'data.items[0].title')).toBe('Shipped');
+    expect(extractWebhookResponse(body, 'data.items[0]')).toBe(
+      JSON.stringify({title: 'Shipped', n: 2}, null, 2),
+    );
+  });
+
+  it('throws when the path does not resolve or the body is not JSON', () => {
+    expect(() => extractWebhookResponse(body, 'data.missing')).toThrow(
+      '"data.missing" not found in response',
+    );
+    expect(() => extractWebhookResponse('<html>', 'data')).toThrow(
+      'response is not JSON',
+    );
+  });
+});
+
+describe('WebhookToolEngine', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('exposes the configured schema under the tool name', () => {
+    const engine = new WebhookToolEngine(config(), async () => ({}));
+
+    expect(engine.name).toBe('lookup_order');
+    expect(engine.sensitive).toBe(true);
+    expect(engine.toToolDefinition()).toEqual({
+      type: 'function',
+      function: {
+        name: 'lookup_order',
+        description: 'Look up an order by id',
+        parameters: config().parameters,
+      },
+    });
+  });
+
+  it('calls the endpoint with secrets and returns the extracted, wrapped answer', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValue(
+        mockResponse(200, JSON.stringify({status: 'shipped'})),
+      ) as any;
+    const signal = new AbortController().signal;
+    const engine = new WebhookToolEngine(
+      config({responsePath: 'status'}),
+      async () => ({Authorization: 'Bearer s3cret'}),
+    );
+
+    const result = await engine.execute({id: '42'}, {signal});
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.example.com/orders/42',
+      expect.objectContaining({
+        method: 'GET',
+        headers: {
+          Accept: 'application/json',
+          Authorization: 'Bearer s3cret',
+        },
+        signal,
+      }),
+    );
+    expect(result.type).toBe('text');
+    expect(result.summary).toContain('BEGIN UNTRUSTED WEB CONTENT');
+    expect(result.summary).toContain('\nshipped\n');
+  });
+
+  it('reports HTTP failures without the response body', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValue(mockResponse(500, 'stack trace')) as any;
+    const engine = new WebhookToolEngine(config(), async () => ({}));
+
+    const result = await engine.execute({id: '42'});
+
+    expect(result).toEqual({
+      type: 'error',
+      summary: 'lookup_order: HTTP 500',
+      errorMessage: 'lookup_order: HTTP 500',
+    });
+  });
+
+  it('turns request errors into error results', async () => {
+    global.fetch = jest.fn().mockRejectedValue(new Error('offline')) as any;
+    const engine = new WebhookToolEngine(config(), async () => ({}));
+
+    expect(await engine.execute({id: '42'})).toEqual({
+      type: 'error',
+      summary: 'lookup_order: offline',
+      errorMessage: 'offline',
+    });
+    expect((await engine.execute({})).summary).toBe(
+      'lookup_order: missing argument "id"',
+    );
+  });
+});
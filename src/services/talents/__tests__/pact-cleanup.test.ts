@@ -142,14 +142,18 @@ describe('PACT cleanup: deriveToolSchemas()', () => {
     expect(talentRegistry.getAll()).toHaveLength(0);
 
     const schemas = deriveToolSchemas();
-    expect(schemas).toHaveLength(5);
+    expect(schemas).toHaveLength(9);
 
     const names = schemas.map(s => s.function.name).sort();
     expect(names).toEqual([
       'calculate',
       'datetime',
+      'forget',
       'read_url',
+      'recall',
+      'remember',
       'render_html',
+      'search_documents',
       'web_search',
     ]);
   });
@@ -175,7 +179,7 @@ describe('PACT cleanup: deriveToolSchemas()', () => {
       tool_choice: 'auto' as const,
       jinja: true,
     };
-    expect(completionSettings.tools).toHaveLength(5);
+    expect(completionSettings.tools).toHaveLength(9);
     expect(completionSettings.tools[0].type).toBe('function');
   });
 });
@@ -126,13 +126,17 @@ describe('PACT vocabulary audit', () => {
 
     it('returns ToolDefinition array for all registered engines', () => {
       const schemas = deriveToolSchemas();
-      expect(schemas).toHaveLength(5);
+      expect(schemas).toHaveLength(9);
       const names = schemas.map(s => s.function.name);
       expect(names).toContain('render_html');
       expect(names).toContain('calculate');
       expect(names).toContain('datetime');
       expect(names).toContain('web_search');
       expect(names).toContain('read_url');
+      expect(names).toContain('search_documents');
+      expect(names).toContain('remember');
+      expect(names).toContain('recall');
+      expect(names).toContain('forget');
     });
 
     it('works without prior registerDefaultTalents call', () => {
@@ -140,7 +144,7 @@ describe('PACT vocabulary audit', () => {
       // registerDefaultTalents internally.
       expect(talentRegistry.has('render_html')).toBe(false);
       const schemas = deriveToolSchemas();
-      expect(schemas).toHaveLength(5);
+      expect(schemas).toHaveLength(9);
       expect(talentRegistry.has('render_html')).toBe(true);
     });
   });
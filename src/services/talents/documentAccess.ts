@@ -0,0 +1,15 @@
+import type {DocumentHit} from '../documents/types';
+
+/**
+ * Injected at `registerDefaultTalents()` so `SearchDocumentsEngine` never
+ * imports `DocumentStore` — same split as `SearchAccess`.
+ */
+export interface DocumentAccess {
+  /** Ranked passages from `collectionIds`; unknown ids are ignored. */
+  search(
+    query: string,
+    collectionIds: string[],
+    limit: number,
+    signal?: AbortSignal,
+  ): Promise<DocumentHit[]>;
+}
@@ -3,10 +3,18 @@ import {CalculateEngine} from './CalculateEngine';
 import {DatetimeEngine} from './DatetimeEngine';
 import {WebSearchEngine} from './WebSearchEngine';
 import {ReadUrlEngine} from './ReadUrlEngine';
+import {SearchDocumentsEngine} from './SearchDocumentsEngine';
+import {RememberEngine} from './RememberEngine';
+import {RecallEngine} from './RecallEngine';
+import {ForgetEngine} from './ForgetEngine';
 import {talentRegistry} from './TalentRegistry';
 import type {SearchAccess} from './searchAccess';
+import type {DocumentAccess} from './documentAccess';
+import type {MemoryAccess} from './memoryAccess';
 import type {ToolDefinition, SystemPromptContext} from './types';
 import {searchProviderStore} from '../../store/SearchProviderStore';
+import {documentStore} from '../../store/DocumentStore';
+import {palMemoryStore} from '../../store/PalMemoryStore';
 import {createSearchProvider, readWithDefaultReader} from '../search';
 
 export {TalentRegistry, talentRegistry} from './TalentRegistry';
@@ -17,7 +25,29 @@ export {CalculateEngine} from './CalculateEngine';
 export {DatetimeEngine} from './DatetimeEngine';
 export {WebSearchEngine} from './WebSearchEngine';
 export {ReadUrlEngine} from './ReadUrlEngine';
+export {SearchDocumentsEngine} from './SearchDocumentsEngine';
+export {RememberEngine} from './RememberEngine';
+export {RecallEngine} from './RecallEngine';
+export {ForgetEngine} from './ForgetEngine';
+export {MEMORY_TALENT_NAMES} from './memoryAccess';
+export {
+  McpToolEngine,
+  mcpTalentName,
+  mcpResultToTalentResult,
+} from './McpToolEngine';
+export type {McpToolCaller} from './McpToolEngine';
+export {syncMcpServerTalents, removeMcpServerTalents} from './mcpTalents';
+export {
+  WebhookToolEngine,
+  WEBHOOK_TOOL_NAME_PATTERN,
+  validateWebhookTool,
+  buildWebhookRequest,
+  extractWebhookResponse,
+} from './WebhookToolEngine';
+export type {WebhookToolProblem} from './WebhookToolEngine';
 export type {SearchAccess} from './searchAccess';
+export type {DocumentAccess} from './documentAccess';
+export type {MemoryAccess} from './memoryAccess';
 // Deliberately narrow: the raw allowlist writers stay module-internal so all
 // writes happen inside services/talents (seed at run start, WebSearchEngine
 // per search).
@@ -25,6 +55,9 @@ export {seedReadUrlAllowlist, isReadUrlAllowed} from './readUrlAllowlist';
 export type {
   TalentEngine,
   TalentResult,
+  DocumentSearchResultItem,
+  TalentErrorReason,
+  TalentExecuteOptions,
   ToolDefinition,
   SystemPromptContext,
 } from './types';
@@ -45,6 +78,28 @@ function createSearchAccess(): SearchAccess {
   };
 }
 
+function createDocumentAccess(): DocumentAccess {
+  return {
+    search: (query, collectionIds, limit, signal) =>
+      documentStore.search(query, collectionIds, limit, signal),
+  };
+}
+
+function createMemoryAccess(): MemoryAccess {
+  return {
+    list: palId => palMemoryStore.memoriesFor(palId),
+    search: (palId, query, limit) => palMemoryStore.search(palId, query, limit),
+    remember: (palId, content) => palMemoryStore.remember(palId, content),
+    forget: async (palId, id) => {
+      if (!palMemoryStore.memoriesFor(palId).some(m => m.id === id)) {
+        return false;
+      }
+      await palMemoryStore.forget(id);
+      return true;
+    },
+  };
+}
+
 let registered = false;
 
 /**
@@ -62,6 +117,11 @@ export function registerDefaultTalents(): void {
   const searchAccess = createSearchAccess();
   talentRegistry.register(new WebSearchEngine(searchAccess));
   talentRegistry.register(new ReadUrlEngine(searchAccess));
+  talentRegistry.register(new SearchDocumentsEngine(createDocumentAccess()));
+  const memoryAccess = createMemoryAccess();
+  talentRegistry.register(new RememberEngine(memoryAccess));
+  talentRegistry.register(new RecallEngine(memoryAccess));
+  talentRegistry.register(new ForgetEngine(memoryAccess));
   registered = true;
 }
 
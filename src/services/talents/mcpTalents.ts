@@ -0,0 +1,59 @@
+import type {McpTool} from '../../api/mcp';
+import {McpToolEngine, McpToolCaller} from './McpToolEngine';
+import {talentRegistry} from './TalentRegistry';
+
+/** Talent names each MCP server currently has in the registry. */
+const serverTalents = new Map<string, string[]>();
+
+/**
+ * Replace a server's tools in the registry with `tools`. Tools that
+ * disappeared since the last sync are unregistered; a name already held
+ * by a built-in or another server is skipped rather than shadowed.
+ * Returns the talent names now registered for the server.
+ */
+export function syncMcpServerTalents(
+  serverId: string,
+  serverName: string,
+  tools: McpTool[],
+  caller: McpToolCaller,
+): string[] {
+  const previous = new Set(serverTalents.get(serverId) ?? []);
+  const owners = new Map<string, string>();
+  serverTalents.forEach((names, id) =>
+    names.forEach(name => owners.set(name, id)),
+  );
+
+  const registered: string[] = [];
+  for (const tool of tools) {
+    const engine = new McpToolEngine(serverName, tool, caller);
+    const owner = owners.get(engine.name);
+    const taken =
+      registered.includes(engine.name) ||
+      (owner !== undefined && owner !== serverId) ||
+      (owner === undefined && talentRegistry.has(engine.name));
+    if (taken) {
+      console.warn(
+        `[mcp] skipping tool "${tool.name}": "${engine.name}" is already registered`,
+      );
+      continue;
+    }
+    talentRegistry.register(engine);
+    registered.push(engine.name);
+  }
+
+  previous.forEach(name => {
+    if (!registered.includes(name)) {
+      talentRegistry.unregister(name);
+    }
+  });
+  serverTalents.set(serverId, registered);
+  return registered;
+}
+
+/** Unregister every tool a server contributed. */
+export function removeMcpServerTalents(serverId: string): void {
+  for (const name of serverTalents.get(serverId) ?? []) {
+    talentRegistry.unregister(name);
+  }
+  serverTalents.delete(serverId);
+}
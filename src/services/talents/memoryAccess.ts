@@ -0,0 +1,32 @@
+import type {PalMemoryEntry} from '../../types/pal';
+
+/**
+ * Injected at `registerDefaultTalents()` so the memory talents never import
+ * `PalMemoryStore` — same split as `SearchAccess`.
+ */
+export interface MemoryAccess {
+  /** A Pal's memories, oldest first. */
+  list(palId: string): PalMemoryEntry[];
+  /** A Pal's memories matching `query`, most relevant first. */
+  search(palId: string, query: string, limit: number): PalMemoryEntry[];
+  /** Save a memory; returns the existing entry for a duplicate. */
+  remember(palId: string, content: string): Promise<PalMemoryEntry>;
+  /** Delete a memory; `false` when `id` is not one of this Pal's. */
+  forget(palId: string, id: string): Promise<boolean>;
+}
+
+/** Talent names that read or write Pal memory. */
+export const MEMORY_TALENT_NAMES: readonly string[] = [
+  'remember',
+  'recall',
+  'forget',
+];
+
+export const formatMemory = (memory: PalMemoryEntry): string =>
+  `- [${memory.id}] ${memory.content}`;
+
+/** Error result for a memory talent called outside a Pal's chat. */
+export const noPalError = (talent: string) => {
+  const summary = `${talent}: memory is only available in a Pal's chat`;
+  return {type: 'error' as const, summary, errorMessage: summary};
+};
@@ -1,4 +1,4 @@
-import type {SearchProvider, PageContent} from '../search/types';
+import type {SearchProvider, PageContent, ReadOptions} from '../search/types';
 
 /**
  * Injected at `registerDefaultTalents()` so the search engines never import
@@ -12,5 +12,5 @@ export interface SearchAccess {
    */
   canSearch(): boolean;
   getResultCount(): number;
-  readWithDefaultReader(url: string): Promise<PageContent>;
+  readWithDefaultReader(url: string, opts?: ReadOptions): Promise<PageContent>;
 }
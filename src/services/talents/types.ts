@@ -1,17 +1,31 @@
+import type {TalentRef} from '../../types/pal';
+
 export interface WebSearchResultItem {
   title: string;
   url: string;
   snippet: string;
 }
 
+/** One retrieved passage, cited back to the document it came from. */
+export interface DocumentSearchResultItem {
+  title: string;
+  collection: string;
+  snippet: string;
+}
+
 /**
  * Result shape returned by a TalentEngine.
  * - `type: 'html'` with `html` populated means a visual preview is available.
  * - `type: 'text'` means only a textual summary is produced.
  * - `type: 'search'` carries structured hits for the UI; the model still reads
  *   `summary` (the wrapped menu) exactly as it would a `text` result.
+ * - `type: 'documents'` is the local-document counterpart of `search`: cited
+ *   passages for the UI, with the wrapped passages in `summary`.
  * - `type: 'audio'` means an audio file was produced (future TTS support).
  * - `type: 'error'` means the engine failed; errorMessage describes what went wrong.
+ *   `reason` is set when the runner, not the talent, ended the call: the
+ *   talent's declared `timeoutMs` elapsed, the user stopped generation, or
+ *   the call was declined under the Pal's approval policy.
  * `summary` is always present and is what gets fed back to the model as the
  * `{role: 'tool', content}` payload on subsequent turns.
  */
@@ -24,8 +38,35 @@ export type TalentResult =
       results: WebSearchResultItem[];
       summary: string;
     }
+  | {
+      type: 'documents';
+      query: string;
+      passages: DocumentSearchResultItem[];
+      summary: string;
+    }
   | {type: 'audio'; audioUri: string; summary: string}
-  | {type: 'error'; summary: string; errorMessage: string};
+  | {
+      type: 'error';
+      summary: string;
+      errorMessage: string;
+      reason?: TalentErrorReason;
+    };
+
+export type TalentErrorReason = 'timeout' | 'cancelled' | 'declined';
+
+/**
+ * Per-call context handed to `TalentEngine.execute`. `signal` aborts when the
+ * user stops generation or the talent's `timeoutMs` elapses; talents forward
+ * it to their network calls so the request is torn down, not just ignored.
+ */
+export interface TalentExecuteOptions {
+  signal?: AbortSignal;
+  /** The Pal's declaration of this talent, for per-Pal settings such as
+   *  `collections`. */
+  talentRef?: TalentRef;
+  /** Pal whose chat made the call; absent outside a Pal's chat. */
+  palId?: string;
+}
 
 /** OpenAI function-calling tool schema shape. */
 export interface ToolDefinition {
@@ -47,17 +88,56 @@ export interface SystemPromptContext {
   /** Talents active for this request, so a fragment references a sibling tool
    *  (e.g. web_search → read_url) only when it is actually enabled. */
   activeTalents: ReadonlySet<string>;
+  /** Pal whose chat this is, for talents that keep per-Pal state. */
+  palId?: string;
+  /** The message being answered, to pick context relevant to it. */
+  userMessage?: string;
 }
 
 export interface TalentEngine {
   readonly name: string;
+  /**
+   * Display name for talents that have no localized one
+   * (`palSheet.talentNames`), e.g. tools discovered on an MCP server.
+   */
+  readonly title?: string;
   /**
    * Optional hint for the n_ctx this talent tends to need room for. Read only
    * by the pal-load hint and the heavy-talent banner sub-copy; never moves a
    * banner trigger threshold.
    */
   readonly recommendedContextTokens?: number;
-  execute(args: Record<string, any>): Promise<TalentResult>;
+  /**
+   * How many calls to this talent may run at once when a single step
+   * emits several. Omitted means 1 — calls to the same talent run one at a
+   * time, while calls to different talents still overlap.
+   */
+  readonly maxConcurrency?: number;
+  /**
+   * Talents whose earlier calls in the same step must finish before a call
+   * to this one starts (e.g. `read_url` waits on `web_search`, which seeds
+   * its allowlist).
+   */
+  readonly dependsOn?: readonly string[];
+  /**
+   * Deadline for one call, enforced by the runner. Omitted means the runner's
+   * default (`DEFAULT_TALENT_TIMEOUT_MS`).
+   */
+  readonly timeoutMs?: number;
+  /**
+   * Has side effects or network egress. Only sensitive talents offer the
+   * per-Pal approval policy (`TalentRef.approval`) in the Pal editor.
+   */
+  readonly sensitive?: boolean;
+  /**
+   * Reads the document collections the Pal opted into
+   * (`TalentRef.collections`); the Pal editor offers a collection picker.
+   */
+  readonly usesDocumentCollections?: boolean;
+  execute(
+    args: Record<string, any>,
+    options?: TalentExecuteOptions,
+  ): Promise<TalentResult>;
   toToolDefinition(): ToolDefinition;
   /**
    * Optional system-prompt fragment; folded into the single leading system
@@ -1,12 +1,14 @@
 import type {TurboModule} from 'react-native';
-import {Platform, TurboModuleRegistry} from 'react-native';
+import {TurboModuleRegistry} from 'react-native';
 
 export interface DownloadConfig {
   destination: string;
   authToken?: string;
+  headers?: string; // JSON object of extra request headers
   networkType?: 'WIFI' | 'ANY';
   progressInterval?: number;
   priority?: number;
+  background?: boolean; // iOS: keep downloading while the app is suspended
 }
 
 export interface DownloadResponse {
@@ -41,7 +43,4 @@ export interface Spec extends TurboModule {
   logDownloadDatabase(): Promise<boolean>;
 }
 
-// Only load the module on Android
-export default Platform.OS === 'android'
-  ? TurboModuleRegistry.getEnforcing<Spec>('DownloadModule')
-  : (null as any as Spec);
+export default TurboModuleRegistry.getEnforcing<Spec>('DownloadModule');
@@ -0,0 +1,42 @@
+import type {TurboModule} from 'react-native';
+import {TurboModuleRegistry} from 'react-native';
+
+export interface LocalServerInfo {
+  port: number;
+  addresses: string[]; // IPv4 addresses of the device's LAN interfaces
+}
+
+/**
+ * A plain HTTP/1.1 listener. Every request is handed to JS whole (event
+ * `onLocalServerRequest`: requestId, method, path, headers as a JSON object
+ * string, body) and answered either at once with sendResponse or as a stream
+ * (beginStream, writeStream..., endStream). Responses close the connection.
+ * `onLocalServerClientClosed` (requestId) fires when a client goes away
+ * before its response ended. Requests other than OPTIONS without
+ * `Authorization: Bearer <apiKey>` get a 401 before their body is read.
+ */
+export interface Spec extends TurboModule {
+  // Event emitter methods
+  addListener(eventName: string): void;
+  removeListeners(count: number): void;
+
+  start(port: number, apiKey: string): Promise<LocalServerInfo>;
+  stop(): Promise<void>;
+  setApiKey(apiKey: string): Promise<void>;
+
+  sendResponse(
+    requestId: string,
+    status: number,
+    headers: string, // JSON object
+    body: string,
+  ): Promise<void>;
+  beginStream(
+    requestId: string,
+    status: number,
+    headers: string,
+  ): Promise<void>;
+  writeStream(requestId: string, chunk: string): Promise<void>;
+  endStream(requestId: string): Promise<void>;
+}
+
+export default TurboModuleRegistry.get<Spec>('LocalServerModule');
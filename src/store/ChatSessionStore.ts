@@ -6,6 +6,8 @@ import {
   AgentStep,
   AgentToolCall,
   AgentToolOutcome,
+  MessageSearchFilters,
+  MessageSearchHit,
   MessageType,
 } from '../utils/types';
 import {
@@ -16,6 +18,15 @@ import {
 import {chatSessionRepository} from '../repositories/ChatSessionRepository';
 import {defaultCompletionParams} from '../utils/completionSettingsVersions';
 import {derivedText} from '../utils/chat';
+import {latestContextSummary} from '../utils/contextStrategy';
+import {
+  BranchPosition,
+  branchPositions,
+  latestLeafId,
+  siblingAt,
+  splitActivePath,
+  subtreeIds,
+} from '../utils/messageTree';
 import {palStore} from './PalStore';
 import {deriveToolSchemas} from '../services/talents';
 import {AgentUiState, initialAgentUiState} from '../services/agent';
@@ -41,6 +52,9 @@ export interface SessionMetaData {
   title: string;
   date: string;
   messages: MessageType.Any[];
+  /** Messages on branches other than the one shown; `messages` holds the
+   * active path. */
+  branchMessages?: MessageType.Any[];
   completionSettings: CompletionParams;
   activePalId?: string;
   pinned?: boolean;
@@ -126,6 +140,14 @@ class ChatSessionStore {
   // reads it.
   toolCallTokenCount: number = 0;
 
+  // The tool call the active run is paused on (`agentUiState.status ===
+  // 'awaiting_approval'`). TalentSurface renders the approval prompt for
+  // this call; the answer goes through `answerToolApproval`.
+  pendingToolApproval: {messageId: string; callId: string} | null = null;
+  // Resolver for `pendingToolApproval`. Not observable — only the store
+  // calls it.
+  private approvalResolver: ((approved: boolean) => void) | null = null;
+
   // Banner state for the context-limit warning. All ephemeral (MobX-only,
   // no DB column). The snapshot is mirrored from the newest finished turn's
   // metadata.completionResult; the rest track per-draft dismissals, the run
@@ -135,8 +157,14 @@ class ChatSessionStore {
   consecutiveFullFailures: number = 0;
   palLoadHintSeen: Set<string> = new Set();
 
+  // Message the chat scrolls to once it is on screen, set when a search
+  // result is opened. ChatView clears it after scrolling.
+  focusedMessageId: string | null = null;
+
   constructor() {
-    makeAutoObservable(this);
+    makeAutoObservable<ChatSessionStore, 'approvalResolver'>(this, {
+      approvalResolver: false,
+    });
     this.initialize();
   }
 
@@ -231,6 +259,37 @@ class ChatSessionStore {
     this.toolCallTokenCount = value;
   }
 
+  /**
+   * Pause on an `'ask'`-policy tool call until the user answers. Handed to
+   * the runner as `requestApproval`. A prompt still open from an earlier
+   * call is answered "deny" first so its run never hangs.
+   */
+  requestToolApproval(messageId: string, callId: string): Promise<boolean> {
+    this.cancelToolApproval();
+    return new Promise<boolean>(resolve => {
+      this.approvalResolver = resolve;
+      this.pendingToolApproval = {messageId, callId};
+    });
+  }
+
+  /** The user's answer from the inline approval prompt. */
+  answerToolApproval(callId: string, approved: boolean) {
+    if (this.pendingToolApproval?.callId !== callId) {
+      return;
+    }
+    const resolve = this.approvalResolver;
+    this.approvalResolver = null;
+    this.pendingToolApproval = null;
+    resolve?.(approved);
+  }
+
+  /** Drop an open approval prompt (stop, run failure) as "deny". */
+  cancelToolApproval() {
+    if (this.pendingToolApproval) {
+      this.answerToolApproval(this.pendingToolApproval.callId, false);
+    }
+  }
+
   // Mirror a finished turn's snapshot into the store and advance banner
   // bookkeeping: a fresh finished turn clears per-draft dismissals, and the
   // full-turn run either increments or resets.
@@ -355,7 +414,7 @@ class ChatSessionStore {
     if (session) {
       await this.createNewSession(
         `${session.title} - Copy`,
-        session.messages,
+        [...session.messages, ...(session.branchMessages ?? [])],
         session.completionSettings,
       );
     }
@@ -392,10 +451,13 @@ class ChatSessionStore {
         return;
       }
 
-      const messages = sessionData.messages.map(msg => msg.toMessageObject());
+      const {path, branches} = splitActivePath(
+        sessionData.messages.map(msg => msg.toMessageObject()),
+      );
 
       runInAction(() => {
-        session.messages = messages;
+        session.messages = path;
+        session.branchMessages = branches;
         session.messagesLoaded = true;
       });
     } catch (error) {
@@ -491,6 +553,8 @@ class ChatSessionStore {
     if (this.activeSessionId) {
       const session = this.sessions.find(s => s.id === this.activeSessionId);
       if (session) {
+        // Replies continue the branch that is shown
+        message.parentId = session.messages[0]?.id;
         // Add to database
         const newMessage = await chatSessionRepository.addMessageToSession(
           this.activeSessionId,
@@ -581,7 +645,9 @@ class ChatSessionStore {
         return;
       }
 
-      const messages = sessionData.messages.map(msg => msg.toMessageObject());
+      const {path, branches} = splitActivePath(
+        sessionData.messages.map(msg => msg.toMessageObject()),
+      );
 
       // Handle case where completionSettings might be null
       let settings = completionSettings; // Use the settings passed to createNewSession as fallback
@@ -598,7 +664,8 @@ class ChatSessionStore {
         id: newSession.id,
         title,
         date: newSession.date,
-        messages,
+        messages: path,
+        branchMessages: branches,
         completionSettings: settings,
         settingsSource: birthSource, // 'custom' if a thinking override was staged, else stored source
         pinned: false,
@@ -1248,12 +1315,12 @@ class ChatSessionStore {
   }
 
   /**
-   * Commits the edit by actually removing messages after the edited message
+   * Commits the edit by moving the edited message and everything after it
+   * to a side branch, so the edited message is sent as its sibling.
    */
   async commitEdit(): Promise<void> {
     if (this.editingMessageId) {
-      // Remove messages after the edited message including the edited message as well.
-      await this.removeMessagesFromId(this.editingMessageId, true);
+      this.branchFrom(this.editingMessageId);
       runInAction(() => {
         this.isEditMode = false;
         this.editingMessageId = null;
@@ -1261,9 +1328,132 @@ class ChatSessionStore {
     }
   }
 
+  /**
+   * Moves a message of the active path, and every newer message on it, to
+   * a side branch. The next message added replies to the message before it,
+   * becoming a sibling of `messageId`. Nothing is deleted.
+   */
+  branchFrom(messageId: string): void {
+    const session = this.sessions.find(s => s.id === this.activeSessionId);
+    if (!session) {
+      return;
+    }
+    const messageIndex = session.messages.findIndex(
+      msg => msg.id === messageId,
+    );
+    if (messageIndex < 0) {
+      return;
+    }
+    runInAction(() => {
+      session.branchMessages = [
+        ...session.messages.slice(0, messageIndex + 1),
+        ...(session.branchMessages ?? []),
+      ];
+      session.messages = session.messages.slice(messageIndex + 1);
+      // The frozen completion snapshot described the conversation that was
+      // just set aside; clear it and let the next turn re-evaluate.
+      this.lastCompletionResult = undefined;
+      this.dismissedBannerVariants = new Set();
+      this.consecutiveFullFailures = 0;
+    });
+  }
+
+  /**
+   * Shows the previous (-1) or next (1) sibling of a message on the active
+   * path, continuing down that branch to its newest reply.
+   */
+  switchBranch(messageId: string, direction: -1 | 1): void {
+    const session = this.sessions.find(s => s.id === this.activeSessionId);
+    if (!session || this.isGenerating) {
+      return;
+    }
+    const tree = [...session.messages, ...(session.branchMessages ?? [])];
+    const sibling = siblingAt(tree, messageId, direction);
+    if (!sibling) {
+      return;
+    }
+    const {path, branches} = splitActivePath(
+      tree,
+      latestLeafId(tree, sibling.id),
+    );
+    runInAction(() => {
+      this.exitEditMode();
+      session.messages = path;
+      session.branchMessages = branches;
+      this.lastCompletionResult = this.hydrateCompletionSnapshot(session);
+      this.dismissedBannerVariants = new Set();
+      this.consecutiveFullFailures = 0;
+    });
+  }
+
+  /**
+   * Opens the session a search result belongs to and asks the chat to
+   * scroll to the message, switching to its branch if another one is
+   * showing.
+   */
+  async openMessage(sessionId: string, messageId: string): Promise<void> {
+    await this.setActiveSession(sessionId);
+    const session = this.sessions.find(s => s.id === sessionId);
+    if (!session) {
+      return;
+    }
+    const tree = [...session.messages, ...(session.branchMessages ?? [])];
+    runInAction(() => {
+      if (
+        !this.isGenerating &&
+        !session.messages.some(msg => msg.id === messageId) &&
+        tree.some(msg => msg.id === messageId)
+      ) {
+        const {path, branches} = splitActivePath(
+          tree,
+          latestLeafId(tree, messageId),
+        );
+        session.messages = path;
+        session.branchMessages = branches;
+        this.lastCompletionResult = this.hydrateCompletionSnapshot(session);
+      }
+      this.focusedMessageId = messageId;
+    });
+  }
+
+  clearFocusedMessage(): void {
+    this.focusedMessageId = null;
+  }
+
+  /** Messages across all chats that match `query`, newest first. */
+  async searchMessages(
+    query: string,
+    filters?: MessageSearchFilters,
+  ): Promise<MessageSearchHit[]> {
+    try {
+      return await chatSessionRepository.searchMessages(query, filters);
+    } catch (error) {
+      console.error('Failed to search messages:', error);
+      return [];
+    }
+  }
+
+  /** Sibling position of each message on the active path that has
+   * alternate branches. */
+  get activeBranchPositions(): Map<string, BranchPosition> {
+    const session = this.sessions.find(s => s.id === this.activeSessionId);
+    if (!session?.branchMessages?.length) {
+      return new Map();
+    }
+    return branchPositions([...session.messages, ...session.branchMessages]);
+  }
+
+  /** Newest message covered by the latest context summary on the active
+   * path; the chat marks the boundary under it. */
+  get contextSummaryBoundaryId(): string | undefined {
+    const summary = latestContextSummary(this.currentSessionMessages);
+    return summary?.metadata?.contextSummary?.throughId;
+  }
+
   /**
    * Removes messages from the current active session starting from a specific message ID.
    * If includeMessage is true, the message with the given ID is also removed.
+   * Branches below a removed message are removed with it.
    *
    * @param messageId - The ID of the message to start removal from.
    * @param includeMessage - Whether to include the message with the given ID in the removal.
@@ -1282,11 +1472,15 @@ class ChatSessionStore {
           // Get messages to remove
           const endIndex = includeMessage ? messageIndex + 1 : messageIndex;
           // Slice from the start to the end index, since messages are in reverse order, ie 0 is the latest.
-          const messagesToRemove = session.messages.slice(0, endIndex);
+          const tree = [...session.messages, ...(session.branchMessages ?? [])];
+          const idsToRemove = new Set<string>();
+          for (const msg of session.messages.slice(0, endIndex)) {
+            subtreeIds(tree, msg.id).forEach(id => idsToRemove.add(id));
+          }
 
           // Remove from database
-          for (const msg of messagesToRemove) {
-            await chatSessionRepository.deleteMessage(msg.id);
+          for (const id of idsToRemove) {
+            await chatSessionRepository.deleteMessage(id);
           }
 
           const updatedSession = await chatSessionRepository.getSessionById(
@@ -1294,9 +1488,13 @@ class ChatSessionStore {
           );
 
           // Update local state
+          const {path, branches} = splitActivePath(
+            updatedSession?.messages?.map(msg => msg.toMessageObject()) || [],
+            session.messages[endIndex]?.id,
+          );
           runInAction(() => {
-            session.messages =
-              updatedSession?.messages?.map(msg => msg.toMessageObject()) || [];
+            session.messages = path;
+            session.branchMessages = branches;
             // The frozen completion snapshot described the pre-edit
             // conversation; editing/regenerating shortens the context, so the
             // banner state is stale. Clear it and let the next turn re-evaluate.
@@ -0,0 +1,280 @@
+import {makeAutoObservable, runInAction} from 'mobx';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {makePersistable} from 'mobx-persist-store';
+import * as RNFS from '@dr.pogodin/react-native-fs';
+
+import {documentRepository} from '../repositories/DocumentRepository';
+import {
+  chunkText,
+  DocumentEmbedder,
+  rankChunks,
+  type DocumentHit,
+  type EmbeddedChunk,
+} from '../services/documents';
+import {
+  DocumentCollection,
+  DocumentInfo,
+  Model,
+  ModelOrigin,
+  ModelType,
+} from '../utils/types';
+
+import {modelStore} from '.';
+
+/** Largest document accepted, so one import can't stall the device. */
+export const MAX_DOCUMENT_CHARS = 2_000_000;
+
+/** Chunks embedded between progress updates. */
+const EMBED_BATCH_SIZE = 8;
+
+/** Progress of the document being embedded, for the Settings UI. */
+export interface DocumentIndexingProgress {
+  collectionId: string;
+  title: string;
+  done: number;
+  total: number;
+}
+
+class DocumentStore {
+  collections: DocumentCollection[] = [];
+  /** Model used to embed new documents and search queries. */
+  embeddingModelId: string | undefined = undefined;
+  /** Every imported document; loaded from the database after hydration. */
+  documents: DocumentInfo[] = [];
+  indexing: DocumentIndexingProgress | null = null;
+
+  private embedder = new DocumentEmbedder();
+
+  constructor() {
+    makeAutoObservable<DocumentStore, 'embedder'>(this, {embedder: false});
+
+    makePersistable(this, {
+      name: 'DocumentStore',
+      properties: ['collections', 'embeddingModelId'],
+      storage: AsyncStorage,
+    }).then(() => {
+      this.loadDocuments();
+    });
+  }
+
+  /** Downloaded local models, which are the ones llama.rn can embed with. */
+  get embeddingModelOptions(): Model[] {
+    return modelStore.availableModels.filter(
+      model =>
+        model.origin !== ModelOrigin.REMOTE &&
+        model.modelType !== ModelType.PROJECTION,
+    );
+  }
+
+  get embeddingModel(): Model | undefined {
+    return this.embeddingModelOptions.find(
+      model => model.id === this.embeddingModelId,
+    );
+  }
+
+  documentsIn(collectionId: string): DocumentInfo[] {
+    return this.documents.filter(doc => doc.collectionId === collectionId);
+  }
+
+  /** Documents embedded with another model; search skips them. */
+  get staleDocuments(): DocumentInfo[] {
+    return this.documents.filter(
+      doc => doc.embeddingModel !== this.embeddingModelId,
+    );
+  }
+
+  async loadDocuments(): Promise<void> {
+    try {
+      const documents = await documentRepository.getDocuments();
+      runInAction(() => {
+        this.documents = documents;
+      });
+    } catch (error) {
+      console.error('Failed to load documents:', error);
+    }
+  }
+
+  setEmbeddingModel(modelId: string | undefined): void {
+    this.embeddingModelId = modelId;
+    this.embedder.release();
+  }
+
+  createCollection(name: string): string {
+    const id = `collection-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    this.collections.push({id, name: name.trim(), createdAt: Date.now()});
+    return id;
+  }
+
+  renameCollection(id: string, name: string): void {
+    const collection = this.collections.find(c => c.id === id);
+    if (collection) {
+      collection.name = name.trim();
+    }
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await documentRepository.deleteCollection(id);
+    runInAction(() => {
+      this.collections = this.collections.filter(c => c.id !== id);
+      this.documents = this.documents.filter(doc => doc.collectionId !== id);
+    });
+  }
+
+  /** Chunk, embed and store a document's text. */
+  async addDocument(
+    collectionId: string,
+    {title, text, source}: {title: string; text: string; source?: string},
+  ): Promise<DocumentInfo> {
+    if (!this.collections.some(c => c.id === collectionId)) {
+      throw new Error('Collection not found');
+    }
+    const trimmed = text.trim();
+    if (!trimmed) {
+      throw new Error('The document has no text');
+    }
+    if (trimmed.length > MAX_DOCUMENT_CHARS) {
+      throw new Error('The document is too large');
+    }
+    const {model, path} = await this.resolveEmbeddingModel();
+    const chunks = await this.embedChunks(
+      collectionId,
+      title,
+      chunkText(trimmed),
+      path,
+    );
+    const document = await documentRepository.addDocument(
+      {
+        collectionId,
+        title: title.trim() || source || 'Untitled',
+        source,
+        charCount: trimmed.length,
+        embeddingModel: model.id,
+      },
+      chunks,
+    );
+    runInAction(() => {
+      this.documents.push(document);
+    });
+    return document;
+  }
+
+  /** Read a picked text or markdown file and add it. */
+  async importFile(
+    collectionId: string,
+    file: {uri: string; name: string},
+  ): Promise<DocumentInfo> {
+    const text = await RNFS.readFile(file.uri, 'utf8');
+    return this.addDocument(collectionId, {
+      title: file.name.replace(/\.(txt|md|markdown)$/i, ''),
+      text,
+      source: file.name,
+    });
+  }
+
+  async removeDocument(id: string): Promise<void> {
+    await documentRepository.deleteDocument(id);
+    runInAction(() => {
+      this.documents = this.documents.filter(doc => doc.id !== id);
+    });
+  }
+
+  /** Embed stale documents again with the current model, one at a time. */
+  async reindexStaleDocuments(): Promise<void> {
+    const {model, path} = await this.resolveEmbeddingModel();
+    for (const document of this.staleDocuments) {
+      const texts = await documentRepository.getChunkTexts(document.id);
+      const chunks = await this.embedChunks(
+        document.collectionId,
+        document.title,
+        texts,
+        path,
+      );
+      await documentRepository.replaceChunks(document.id, chunks, model.id);
+      runInAction(() => {
+        const stored = this.documents.find(doc => doc.id === document.id);
+        if (stored) {
+          stored.embeddingModel = model.id;
+          stored.chunkCount = chunks.length;
+        }
+      });
+    }
+  }
+
+  /**
+   * The `limit` passages in `collectionIds` closest to `query`. Unknown
+   * collection ids (e.g. from an imported Pal) are ignored.
+   */
+  async search(
+    query: string,
+    collectionIds: string[],
+    limit: number,
+    signal?: AbortSignal,
+  ): Promise<DocumentHit[]> {
+    const collections = this.collections.filter(c =>
+      collectionIds.includes(c.id),
+    );
+    if (collections.length === 0) {
+      return [];
+    }
+    const {model, path} = await this.resolveEmbeddingModel();
+    const candidates = await documentRepository.getChunks(
+      collections.map(c => c.id),
+      model.id,
+    );
+    if (candidates.length === 0) {
+      return [];
+    }
+    const [queryVector] = await this.embedder.embed(path, [query], signal);
+    return rankChunks(queryVector, candidates, limit).map(hit => ({
+      documentId: hit.documentId,
+      title: this.documents.find(doc => doc.id === hit.documentId)?.title ?? '',
+      collectionName:
+        collections.find(c => c.id === hit.collectionId)?.name ?? '',
+      position: hit.position,
+      text: hit.text,
+      score: hit.score,
+    }));
+  }
+
+  private async resolveEmbeddingModel(): Promise<{model: Model; path: string}> {
+    const model = this.embeddingModel;
+    if (!model) {
+      throw new Error(
+        'No embedding model selected. Choose one in Settings → Documents.',
+      );
+    }
+    return {model, path: await modelStore.getModelFullPath(model)};
+  }
+
+  private async embedChunks(
+    collectionId: string,
+    title: string,
+    texts: string[],
+    modelPath: string,
+  ): Promise<EmbeddedChunk[]> {
+    const chunks: EmbeddedChunk[] = [];
+    runInAction(() => {
+      this.indexing = {collectionId, title, done: 0, total: texts.length};
+    });
+    try {
+      for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+        const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await this.embedder.embed(modelPath, batch);
+        batch.forEach((text, j) => chunks.push({text, embedding: vectors[j]}));
+        runInAction(() => {
+          if (this.indexing) {
+            this.indexing.done = chunks.length;
+          }
+        });
+      }
+      return chunks;
+    } finally {
+      runInAction(() => {
+        this.indexing = null;
+      });
+    }
+  }
+}
+
+export const documentStore = new DocumentStore();
+export {DocumentStore};
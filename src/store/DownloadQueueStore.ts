@@ -0,0 +1,254 @@
+import {makeAutoObservable, runInAction} from 'mobx';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {makePersistable} from 'mobx-persist-store';
+import DeviceInfo from 'react-native-device-info';
+
+import {downloadManager} from '../services/downloads';
+
+export const DEFAULT_MAX_CONCURRENT_DOWNLOADS = 2;
+export const MAX_CONCURRENT_DOWNLOADS_LIMIT = 3;
+
+// How often a queue waiting for a charger checks again.
+const CHARGING_RECHECK_MS = 60 * 1000;
+
+export interface QueuedDownload {
+  modelId: string;
+  /** Paused items keep their place but are skipped when a slot frees up. */
+  paused: boolean;
+  queuedAt: number;
+}
+
+/** Starts the download of a model; rejects if it fails to start. */
+export type DownloadStarter = (modelId: string) => Promise<void>;
+
+/**
+ * Orders model downloads and starts them as slots free up. Downloads run
+ * through `DownloadManager` as before; this store only decides when. The
+ * queue order is the priority. Both the waiting items and the ids of
+ * started downloads are persisted, so the queue picks up again after a
+ * restart.
+ */
+class DownloadQueueStore {
+  /** Downloads waiting for a free slot, highest priority first. */
+  queue: QueuedDownload[] = [];
+  /** Started downloads that have not completed, failed or been cancelled. */
+  inFlight: string[] = [];
+  maxConcurrent = DEFAULT_MAX_CONCURRENT_DOWNLOADS;
+  /** Start queued downloads only on Wi-Fi or another unmetered network. */
+  unmeteredOnly = false;
+  /** Start queued downloads only while the device is charging. */
+  chargingOnly = false;
+  /** Whether the queue is held back until the device is charging. */
+  waitingForCharger = false;
+
+  private starter: DownloadStarter | null = null;
+  // Start calls that have not settled yet. On iOS that is the whole download.
+  private starts = new Map<string, Promise<void>>();
+  private chargingRecheck: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+    makePersistable(this, {
+      name: 'DownloadQueueStore',
+      properties: [
+        'queue',
+        'inFlight',
+        'maxConcurrent',
+        'unmeteredOnly',
+        'chargingOnly',
+      ],
+      storage: AsyncStorage,
+    });
+  }
+
+  setStarter(starter: DownloadStarter) {
+    this.starter = starter;
+  }
+
+  /** Ids of downloads taking a slot. */
+  get runningIds(): string[] {
+    const ids = new Set(downloadManager.activeJobs.map(job => job.model.id));
+    for (const id of this.starts.keys()) {
+      ids.add(id);
+    }
+    return [...ids];
+  }
+
+  isQueued(modelId: string): boolean {
+    return this.queue.some(item => item.modelId === modelId);
+  }
+
+  /** 1-based place of a waiting download, or undefined if not queued. */
+  positionOf(modelId: string): number | undefined {
+    const index = this.queue.findIndex(item => item.modelId === modelId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  isPaused(modelId: string): boolean {
+    return !!this.queue.find(item => item.modelId === modelId)?.paused;
+  }
+
+  /**
+   * Adds a download to the end of the queue. Returns false if it is
+   * already queued or running.
+   */
+  enqueue(modelId: string): boolean {
+    if (this.isQueued(modelId) || this.runningIds.includes(modelId)) {
+      return false;
+    }
+    this.queue.push({modelId, paused: false, queuedAt: Date.now()});
+    return true;
+  }
+
+  remove(modelId: string) {
+    this.queue = this.queue.filter(item => item.modelId !== modelId);
+  }
+
+  /** Moves a waiting download to `index`, clamped to the queue. */
+  move(modelId: string, index: number) {
+    const from = this.queue.findIndex(item => item.modelId === modelId);
+    if (from === -1) {
+      return;
+    }
+    const to = Math.max(0, Math.min(this.queue.length - 1, index));
+    const queue = [...this.queue];
+    const [item] = queue.splice(from, 1);
+    queue.splice(to, 0, item);
+    this.queue = queue;
+  }
+
+  pause(modelId: string) {
+    this.setPaused(modelId, true);
+  }
+
+  resume(modelId: string) {
+    this.setPaused(modelId, false);
+    this.pump();
+  }
+
+  private setPaused(modelId: string, paused: boolean) {
+    this.queue = this.queue.map(item =>
+      item.modelId === modelId ? {...item, paused} : item,
+    );
+  }
+
+  setMaxConcurrent(value: number) {
+    this.maxConcurrent = Math.max(
+      1,
+      Math.min(MAX_CONCURRENT_DOWNLOADS_LIMIT, Math.round(value)),
+    );
+    this.pump();
+  }
+
+  setUnmeteredOnly(value: boolean) {
+    this.unmeteredOnly = value;
+  }
+
+  setChargingOnly(value: boolean) {
+    this.chargingOnly = value;
+    this.pump();
+  }
+
+  /** Marks a started download as done, whatever the outcome. */
+  finish(modelId: string) {
+    this.inFlight = this.inFlight.filter(id => id !== modelId);
+  }
+
+  /**
+   * Picks the queue back up after a restart, once `syncWithActiveDownloads`
+   * has restored the downloads still running natively. Started downloads
+   * that did not survive go back to the front of the queue and resume from
+   * their partial files. Items whose model no longer needs downloading are
+   * dropped.
+   */
+  restore(needsDownload: (modelId: string) => boolean) {
+    const interrupted = this.inFlight.filter(
+      id => !downloadManager.isDownloading(id) && !this.isQueued(id),
+    );
+    this.inFlight = this.inFlight.filter(id =>
+      downloadManager.isDownloading(id),
+    );
+    this.queue = [
+      ...interrupted.map(modelId => ({
+        modelId,
+        paused: false,
+        queuedAt: Date.now(),
+      })),
+      ...this.queue,
+    ].filter(item => needsDownload(item.modelId));
+    this.pump();
+  }
+
+  /**
+   * Resolves once the start of a download settles, and rejects if it fails.
+   * Resolves straight away for a download that is still waiting.
+   */
+  started(modelId: string): Promise<void> {
+    return this.starts.get(modelId) ?? Promise.resolve();
+  }
+
+  /** Starts waiting downloads while there are free slots. */
+  pump = async () => {
+    if (!this.starter || !this.queue.some(item => !item.paused)) {
+      return;
+    }
+    if (this.chargingOnly && !(await this.isCharging())) {
+      this.scheduleChargingRecheck();
+      return;
+    }
+    runInAction(() => {
+      this.waitingForCharger = false;
+    });
+
+    while (this.runningIds.length < this.maxConcurrent) {
+      const next = this.queue.find(item => !item.paused);
+      if (!next) {
+        break;
+      }
+      this.startItem(next.modelId);
+    }
+  };
+
+  private startItem(modelId: string) {
+    const starter = this.starter!;
+    runInAction(() => {
+      this.remove(modelId);
+      if (!this.inFlight.includes(modelId)) {
+        this.inFlight.push(modelId);
+      }
+    });
+    const start = Promise.resolve().then(() => starter(modelId));
+    this.starts.set(modelId, start);
+    start
+      // The starter surfaces its own failures.
+      .catch(() => this.finish(modelId))
+      .finally(() => {
+        runInAction(() => {
+          this.starts.delete(modelId);
+        });
+        this.pump();
+      });
+  }
+
+  private async isCharging(): Promise<boolean> {
+    try {
+      return await DeviceInfo.isBatteryCharging();
+    } catch (error) {
+      console.warn('[DownloadQueueStore] charging state unavailable:', error);
+      return true;
+    }
+  }
+
+  private scheduleChargingRecheck() {
+    this.waitingForCharger = true;
+    if (this.chargingRecheck) {
+      return;
+    }
+    this.chargingRecheck = setTimeout(() => {
+      this.chargingRecheck = null;
+      this.pump();
+    }, CHARGING_RECHECK_MS);
+  }
+}
+
+export const downloadQueueStore = new DownloadQueueStore();
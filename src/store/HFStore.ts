@@ -6,10 +6,10 @@ import * as Keychain from 'react-native-keychain';
 import {fetchGGUFSpecs, fetchModelFilesDetails, fetchModels} from '../api/hf';
 
 import {enrichSiblingsWithStorage} from '../utils';
-import {processHFSearchResults} from '../utils/hf';
+import {isValidMirrorUrl, processHFSearchResults} from '../utils/hf';
 import {ErrorState, createErrorState} from '../utils/errors';
 
-import {HuggingFaceModel} from '../utils/types';
+import {HuggingFaceModel, ModelFile} from '../utils/types';
 
 // Service name for keychain storage
 const HF_TOKEN_SERVICE = 'hf_token_service';
@@ -36,6 +36,9 @@ class HFStore {
   queryConfig = true;
   hfToken: string | null = null;
   useHfToken: boolean = true; // Only applies when token is set
+  // Base URL that model downloads from huggingface.co are fetched through
+  // instead, e.g. a company proxy or a local cache. Empty for none.
+  mirrorUrl: string = '';
 
   // search filters
   searchFilters: SearchFilters = {
@@ -48,7 +51,7 @@ class HFStore {
 
     makePersistable(this, {
       name: 'HFStore',
-      properties: ['useHfToken'],
+      properties: ['useHfToken', 'mirrorUrl'],
       storage: AsyncStorage,
     });
 
@@ -87,6 +90,21 @@ class HFStore {
     });
   }
 
+  /**
+   * Sets the download mirror. Returns false and keeps the current mirror
+   * when the URL is not a plain http(s) URL; an empty string clears it.
+   */
+  setMirrorUrl(url: string): boolean {
+    const trimmed = url.trim();
+    if (trimmed && !isValidMirrorUrl(trimmed)) {
+      return false;
+    }
+    runInAction(() => {
+      this.mirrorUrl = trimmed;
+    });
+    return true;
+  }
+
   async setToken(token: string) {
     try {
       // Save token in secure storage
@@ -183,7 +201,7 @@ class HFStore {
     model: HuggingFaceModel,
     fileDetails: any[],
   ) {
-    const mergedSiblings = model.siblings.map(file => {
+    const merge = (file: ModelFile): ModelFile => {
       const details = fileDetails.find(
         detail => detail.path === file.rfilename,
       );
@@ -196,6 +214,21 @@ class HFStore {
         oid: details.oid,
         lfs: details.lfs,
       };
+    };
+    const mergedSiblings = model.siblings.map(file => {
+      if (!file.shards) {
+        return merge(file);
+      }
+      // A split model is as large as all of its parts.
+      const shards = file.shards.map(merge);
+      const sizes = shards.map(part => part.size);
+      return {
+        ...merge(file),
+        size: sizes.every(size => size !== undefined)
+          ? sizes.reduce((sum: number, size) => sum + size!, 0)
+          : undefined,
+        shards,
+      };
     });
 
     return enrichSiblingsWithStorage(model, mergedSiblings);
@@ -0,0 +1,228 @@
+import {makeAutoObservable, runInAction, toJS, when} from 'mobx';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {makePersistable} from 'mobx-persist-store';
+import * as Keychain from 'react-native-keychain';
+import 'react-native-get-random-values';
+import {v4 as uuidv4} from 'uuid';
+
+import {modelStore} from './ModelStore';
+
+import {LocalCompletionEngine} from '../api/completionEngines';
+import {chatSessionRepository} from '../repositories/ChatSessionRepository';
+import {
+  LocalApiServer,
+  createNativeTransport,
+  type LocalServerActivity,
+  type LocalServerBackend,
+} from '../services/localServer';
+import {DocumentEmbedder} from '../services/documents';
+import {
+  CompletionParams,
+  toApiCompletionParams,
+} from '../utils/completionTypes';
+
+const KEYCHAIN_SERVICE = 'pocketpal-local-server-api-key';
+
+export const DEFAULT_LOCAL_SERVER_PORT = 8080;
+
+const generateApiKey = () => `pp-${uuidv4().replace(/-/g, '')}`;
+
+// Only a model running on this device is served; a remote one would just be
+// proxied through the phone.
+const localEngine = () =>
+  modelStore.engine instanceof LocalCompletionEngine
+    ? modelStore.engine
+    : undefined;
+
+// The chat context is not opened in embedding mode, so /v1/embeddings gets a
+// context of its own on the same model file.
+const embedder = new DocumentEmbedder();
+
+const backend: LocalServerBackend = {
+  getApiKey: () => localServerStore.apiKey,
+  getModelId: () => (localEngine() ? modelStore.activeModelId : undefined),
+  getEngine: localEngine,
+  getDefaultParams: async () => {
+    const settings = await chatSessionRepository.getGlobalCompletionSettings();
+    const params = toApiCompletionParams({
+      ...settings,
+      stop: toJS(modelStore.activeModel?.stopWords),
+    } as CompletionParams);
+    // Same as chats in the app: reasoning goes to reasoning_content.
+    params.reasoning_format = 'auto';
+    return params;
+  },
+  embed: async input => {
+    const model = localEngine() && modelStore.activeModel;
+    if (!model) {
+      throw new Error('No model is loaded on the device');
+    }
+    const modelPath = await modelStore.getModelFullPath(model);
+    const [embedding] = await embedder.embed(modelPath, [input]);
+    return embedding;
+  },
+  waitUntilIdle: () => when(() => !modelStore.inferencing),
+  runExclusive: async task => {
+    modelStore.setInferencing(true);
+    const promise = task();
+    // Lets releaseContext wait for the request like it does for a chat.
+    modelStore.registerCompletionPromise(promise);
+    try {
+      return await promise;
+    } finally {
+      modelStore.clearCompletionPromise();
+      modelStore.setInferencing(false);
+    }
+  },
+};
+
+/**
+ * "Serve on LAN": the loaded model behind an OpenAI-compatible API on the
+ * local network. Off on every launch; only the port is remembered. The API
+ * key lives in the Keychain and is created on first start.
+ */
+class LocalServerStore {
+  port: number = DEFAULT_LOCAL_SERVER_PORT;
+
+  isRunning: boolean = false;
+  isStarting: boolean = false;
+  addresses: string[] = [];
+  activeRequests: number = 0;
+  queuedRequests: number = 0;
+  apiKey: string | undefined = undefined;
+  error: string | undefined = undefined;
+
+  private server: LocalApiServer | null = null;
+
+  constructor() {
+    makeAutoObservable<LocalServerStore, 'server'>(this, {server: false});
+
+    makePersistable(this, {
+      name: 'LocalServerStore',
+      properties: ['port'],
+      storage: AsyncStorage,
+    });
+
+    this.loadApiKey();
+  }
+
+  /** Base URL clients point at, for the first LAN address. */
+  get baseUrl(): string | undefined {
+    return this.addresses.length > 0
+      ? `http://${this.addresses[0]}:${this.port}/v1`
+      : undefined;
+  }
+
+  setPort(port: number) {
+    this.port = port;
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning || this.isStarting) {
+      return;
+    }
+    runInAction(() => {
+      this.isStarting = true;
+      this.error = undefined;
+    });
+    try {
+      if (!this.apiKey) {
+        await this.saveApiKey(generateApiKey());
+      }
+      const server = new LocalApiServer(
+        createNativeTransport(),
+        backend,
+        this.setActivity,
+      );
+      const info = await server.start(this.port);
+      this.server = server;
+      runInAction(() => {
+        this.isRunning = true;
+        this.addresses = info.addresses;
+      });
+    } catch (error) {
+      console.error('Failed to start local server:', error);
+      runInAction(() => {
+        this.error = error instanceof Error ? error.message : String(error);
+      });
+    } finally {
+      runInAction(() => {
+        this.isStarting = false;
+      });
+    }
+  }
+
+  /** The kill switch: closes the listener and stops a running completion. */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    runInAction(() => {
+      this.isRunning = false;
+      this.addresses = [];
+      this.activeRequests = 0;
+      this.queuedRequests = 0;
+    });
+    try {
+      await server?.stop();
+      await embedder.release();
+    } catch (error) {
+      console.error('Failed to stop local server:', error);
+    }
+  }
+
+  /** Stops the request the model is busy with, leaving the server up. */
+  async stopCompletion(): Promise<void> {
+    try {
+      await this.server?.stopCompletion();
+    } catch (error) {
+      console.error('Failed to stop local server completion:', error);
+    }
+  }
+
+  /** Replaces the API key; clients using the old one are refused from now on. */
+  async regenerateApiKey(): Promise<void> {
+    const apiKey = generateApiKey();
+    await this.saveApiKey(apiKey);
+    try {
+      await this.server?.setApiKey(apiKey);
+    } catch (error) {
+      console.error('Failed to update the local server API key:', error);
+    }
+  }
+
+  setActivity = ({active, queued}: LocalServerActivity) => {
+    this.activeRequests = active;
+    this.queuedRequests = queued;
+  };
+
+  private async loadApiKey(): Promise<void> {
+    try {
+      const credentials = await Keychain.getGenericPassword({
+        service: KEYCHAIN_SERVICE,
+      });
+      if (credentials) {
+        runInAction(() => {
+          this.apiKey = credentials.password;
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load local server API key:', error);
+    }
+  }
+
+  private async saveApiKey(apiKey: string): Promise<void> {
+    runInAction(() => {
+      this.apiKey = apiKey;
+    });
+    try {
+      await Keychain.setGenericPassword('apiKey', apiKey, {
+        service: KEYCHAIN_SERVICE,
+      });
+    } catch (error) {
+      console.error('Failed to save local server API key:', error);
+    }
+  }
+}
+
+export const localServerStore = new LocalServerStore();
+export {LocalServerStore};
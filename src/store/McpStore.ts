@@ -0,0 +1,202 @@
+import {makeAutoObservable, runInAction} from 'mobx';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {makePersistable} from 'mobx-persist-store';
+import * as Keychain from 'react-native-keychain';
+import DeviceInfo from 'react-native-device-info';
+
+import {McpClient, McpUnsupportedTransportError} from '../api/mcp';
+import {
+  removeMcpServerTalents,
+  syncMcpServerTalents,
+} from '../services/talents/mcpTalents';
+import type {McpToolCaller} from '../services/talents/McpToolEngine';
+import {McpServerConfig} from '../utils/types';
+
+const KEYCHAIN_SERVICE_PREFIX = 'pocketpal-mcp-';
+
+export type McpConnectionState = 'connecting' | 'connected' | 'error';
+
+/** Runtime state of one server. Not persisted — rebuilt on every connect. */
+export interface McpServerStatus {
+  state: McpConnectionState;
+  /** Talent names registered for this server's tools. */
+  toolNames: string[];
+  error?: string;
+  /** The URL is a legacy HTTP+SSE server; editing the URL is the only fix. */
+  unsupportedTransport?: boolean;
+}
+
+class McpStore {
+  servers: McpServerConfig[] = [];
+  status: Record<string, McpServerStatus> = {};
+
+  private clients = new Map<string, McpClient>();
+
+  constructor() {
+    makeAutoObservable<McpStore, 'clients'>(this, {clients: false});
+
+    makePersistable(this, {
+      name: 'McpStore',
+      properties: ['servers'],
+      storage: AsyncStorage,
+    }).then(() => {
+      // Tools only exist while connected, so discover them on every launch.
+      this.connectAll();
+    });
+  }
+
+  async addServer(
+    config: Omit<McpServerConfig, 'id' | 'enabled'>,
+    token?: string,
+  ): Promise<string> {
+    const id = `mcp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    if (token) {
+      await this.setToken(id, token);
+    }
+    runInAction(() => {
+      this.servers.push({...config, id, enabled: true});
+    });
+    await this.connectServer(id);
+    return id;
+  }
+
+  /**
+   * A new name renames every tool's talent (`mcp_<name>_<tool>`) and a new
+   * url points at different tools, so both reconnect.
+   */
+  async updateServer(
+    id: string,
+    updates: Partial<Omit<McpServerConfig, 'id'>>,
+  ): Promise<void> {
+    const server = this.servers.find(s => s.id === id);
+    if (!server) {
+      return;
+    }
+    runInAction(() => {
+      Object.assign(server, updates);
+    });
+    this.disconnectServer(id);
+    if (server.enabled) {
+      await this.connectServer(id);
+    }
+  }
+
+  async setServerEnabled(id: string, enabled: boolean): Promise<void> {
+    await this.updateServer(id, {enabled});
+  }
+
+  async removeServer(id: string): Promise<void> {
+    this.disconnectServer(id);
+    runInAction(() => {
+      this.servers = this.servers.filter(s => s.id !== id);
+    });
+    await this.removeToken(id);
+  }
+
+  // Token management (Keychain)
+  async setToken(serverId: string, token: string): Promise<void> {
+    try {
+      await Keychain.setGenericPassword('token', token, {
+        service: `${KEYCHAIN_SERVICE_PREFIX}${serverId}`,
+      });
+    } catch (error) {
+      console.error('Failed to save MCP token:', error);
+    }
+  }
+
+  async getToken(serverId: string): Promise<string | undefined> {
+    try {
+      const credentials = await Keychain.getGenericPassword({
+        service: `${KEYCHAIN_SERVICE_PREFIX}${serverId}`,
+      });
+      return credentials ? credentials.password : undefined;
+    } catch (error) {
+      console.error('Failed to load MCP token:', error);
+      return undefined;
+    }
+  }
+
+  async removeToken(serverId: string): Promise<void> {
+    try {
+      await Keychain.resetGenericPassword({
+        service: `${KEYCHAIN_SERVICE_PREFIX}${serverId}`,
+      });
+    } catch (error) {
+      console.error('Failed to remove MCP token:', error);
+    }
+  }
+
+  /**
+   * Connect, list the server's tools and register them as talents. Never
+   * throws; a failure lands in `status[id].error` and leaves no tools
+   * registered for the server.
+   */
+  async connectServer(id: string): Promise<void> {
+    const server = this.servers.find(s => s.id === id);
+    if (!server || !server.enabled) {
+      return;
+    }
+    this.disconnectServer(id);
+    runInAction(() => {
+      this.status[id] = {state: 'connecting', toolNames: []};
+    });
+
+    const client = new McpClient({
+      url: server.url,
+      token: await this.getToken(id),
+      clientName: 'PocketPal',
+      clientVersion: DeviceInfo.getVersion(),
+    });
+    this.clients.set(id, client);
+
+    try {
+      await client.connect();
+      const tools = await client.listTools();
+      // A disconnect or edit while we were listing supersedes this attempt.
+      if (this.clients.get(id) !== client) {
+        return;
+      }
+      const caller: McpToolCaller = {
+        callTool: (name, args, options) =>
+          client.callTool(name, args, {signal: options?.signal}),
+      };
+      const toolNames = syncMcpServerTalents(id, server.name, tools, caller);
+      runInAction(() => {
+        this.status[id] = {state: 'connected', toolNames};
+      });
+    } catch (error: any) {
+      if (this.clients.get(id) !== client) {
+        return;
+      }
+      this.clients.delete(id);
+      runInAction(() => {
+        this.status[id] = {
+          state: 'error',
+          toolNames: [],
+          error: error?.message || 'Failed to connect',
+          unsupportedTransport: error instanceof McpUnsupportedTransportError,
+        };
+      });
+    }
+  }
+
+  /** Unregister the server's tools and end its session. */
+  disconnectServer(id: string): void {
+    removeMcpServerTalents(id);
+    const client = this.clients.get(id);
+    this.clients.delete(id);
+    client?.close();
+    runInAction(() => {
+      delete this.status[id];
+    });
+  }
+
+  async connectAll(): Promise<void> {
+    await Promise.all(
+      this.servers.filter(s => s.enabled).map(s => this.connectServer(s.id)),
+    );
+  }
+}
+
+export const mcpStore = new McpStore();
+export {McpStore};
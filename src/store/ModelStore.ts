@@ -5,8 +5,15 @@ import {v4 as uuidv4} from 'uuid';
 import 'react-native-get-random-values';
 import {makePersistable} from 'mobx-persist-store';
 import * as RNFS from '@dr.pogodin/react-native-fs';
-import {computed, makeAutoObservable, runInAction, toJS} from 'mobx';
+import {
+  computed,
+  makeAutoObservable,
+  observable,
+  runInAction,
+  toJS,
+} from 'mobx';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Keychain from 'react-native-keychain';
 import {ContextParams, LlamaContext, initLlama} from 'llama.rn';
 import {
   CompletionParams,
@@ -16,13 +23,17 @@ import {
 
 import {fetchModelFilesDetails} from '../api/hf';
 import {
+  AnthropicCompletionEngine,
+  CompletionRoute,
   LocalCompletionEngine,
+  ModelGroupCompletionEngine,
   OpenAICompletionEngine,
 } from '../api/completionEngines';
 
-import {uiStore, hfStore} from '.';
+import {uiStore, hfStore, palStore, documentStore} from '.';
 import {serverStore} from './ServerStore';
 import {chatSessionStore} from './ChatSessionStore';
+import {downloadQueueStore} from './DownloadQueueStore';
 import {
   draftCacheDefaults,
   effectiveDraftModeOf,
@@ -34,6 +45,7 @@ import {checkGpuSupport} from '../utils/deviceCapabilities';
 import {
   deepMerge,
   getSHA256Hash,
+  hasEnoughSpace,
   hfAsModel,
   getMmprojFiles,
   filterProjectionModels,
@@ -41,8 +53,20 @@ import {
   parseSizeLabel,
 } from '../utils';
 import {getRecommendedProjectionModel} from '../utils/multimodalHelpers';
+import {modelFilePaths} from '../utils/hf';
 import {isDraftOnlyModel} from '../utils/mtp';
+import {
+  getCompatibleLoraAdapters,
+  resolveLoraAdapters,
+} from '../utils/loraAdapters';
 import {getOriginalModelName} from '../utils/formatters';
+import type {UrlModelProbe} from '../utils/urlImport';
+import {
+  MODEL_UPDATE_CHECK_INTERVAL_MS,
+  findModelUpdates,
+  isUpdatableModel,
+} from '../utils/modelUpdates';
+import {checkConnectivity} from '../utils/network';
 import type {OnboardingPalModelEntry} from './onboarding/onboardingPals';
 
 import {downloadManager, DownloadCancelledError} from '../services/downloads';
@@ -76,14 +100,25 @@ import {
   ContextInitParams,
   DraftConfig,
   HuggingFaceModel,
+  LoadProfile,
+  LoraAdapterSetting,
   Model,
   ModelFile,
   ModelOrigin,
   ModelType,
+  ModelUpdate,
   RemoteSessionBinding,
+  ServerConfig,
+  StorageIssue,
+  StorageReport,
+  WarmContext,
 } from '../utils/types';
 
-import {ErrorState, createErrorState} from '../utils/errors';
+import {
+  DownloadCorruptedError,
+  ErrorState,
+  createErrorState,
+} from '../utils/errors';
 import {chatSessionRepository} from '../repositories/ChatSessionRepository';
 import {hasEnoughMemory} from '../hooks/useMemoryCheck';
 import {
@@ -94,16 +129,25 @@ import {
 import {detectThinkingCapability} from '../utils/thinkingCapabilityDetection';
 import {ReasoningCapability} from '../utils/reasoningCapability';
 import {capsMatchBinding} from '../utils/remoteCaps';
+import {groupBackends, orderBackends} from '../utils/modelRouting';
 import {resolveModelCaps} from '../utils/modelCaps';
 import type {CapabilityEnv, ModelCapabilityView} from '../utils/modelCaps';
 import {t} from '../locales';
 import {resolveUseMmap} from '../utils/memorySettings';
 import {
+  applyLoadProfile,
   createContextInitParams,
   createDefaultContextInitParams,
+  createLoadProfile,
+  CURRENT_CONTEXT_INIT_PARAMS_VERSION,
+  migrateLoadProfile,
 } from '../utils/contextInitParamsVersions';
 import NativeHardwareInfo from '../specs/NativeHardwareInfo';
-import {getModelMemoryRequirement} from '../utils/memoryEstimator';
+import {
+  getModelMemoryRequirement,
+  ggufMetadataFromKVs,
+  pickWarmContextEvictions,
+} from '../utils/memoryEstimator';
 import {loadLlamaModelInfo} from 'llama.rn';
 
 /**
@@ -150,9 +194,64 @@ function createRemoteModel(params: {
   };
 }
 
+/**
+ * The completion engine for a remote model: Anthropic Messages or OpenAI chat
+ * completions, by server type.
+ */
+function createRemoteEngine(
+  server: ServerConfig,
+  remoteModelId: string,
+  apiKey: string | undefined,
+): CompletionEngine {
+  return server.serverType === 'Anthropic'
+    ? new AnthropicCompletionEngine(
+        server.url,
+        remoteModelId,
+        apiKey,
+        server.requestTimeoutMs,
+      )
+    : new OpenAICompletionEngine(
+        server.url,
+        remoteModelId,
+        apiKey,
+        server.requestTimeoutMs,
+        server.serverType,
+      );
+}
+
 const pairedDraftModel = (config?: DraftConfig): Model | undefined =>
   config?.mode === 'paired' ? config.draftModel : undefined;
 
+// Files an interrupted download leaves next to its destination (see
+// partialDownloadPath in the DownloadManager).
+const RE_PARTIAL_DOWNLOAD = /\.part(\.resume)?$/;
+
+// Auth headers of a URL import, one Keychain entry per model.
+const URL_HEADERS_KEYCHAIN_PREFIX = 'pocketpal-model-url-';
+
+// Where updateModel keeps a file of the revision it replaces. Still a .gguf,
+// so one left behind by a crash shows up as an orphan in the storage scan.
+const previousRevisionPath = (path: string) =>
+  path.replace(/(\.gguf)?$/i, '.previous$1');
+
+/** A downloaded revision updateModel replaces, kept until the new one is in. */
+interface ReplacedRevision {
+  update: ModelUpdate;
+  fields: Pick<
+    Model,
+    | 'size'
+    | 'params'
+    | 'downloadUrl'
+    | 'hfModel'
+    | 'hfModelFile'
+    | 'shards'
+    | 'hash'
+    | 'ggufMetadata'
+  >;
+  // Each old file's path and where it waits meanwhile
+  files: Array<{path: string; previousPath: string}>;
+}
+
 class ModelStore {
   models: Model[] = [];
   version: number | undefined = undefined; // Persisted version
@@ -160,10 +259,16 @@ class ModelStore {
   rulesVersion: string | null = null; // provenance of the preset list
 
   /**
-   * Returns models with projection models filtered out for display purposes
+   * Returns models with projection models and LoRA adapters filtered out for
+   * display purposes
    */
   get displayModels(): Model[] {
-    return [...filterProjectionModels(this.models), ...this.remoteModels];
+    return [
+      ...filterProjectionModels(this.models).filter(
+        m => m.modelType !== ModelType.LORA,
+      ),
+      ...this.remoteModels,
+    ];
   }
 
   appState: AppStateStatus = AppState.currentState;
@@ -187,6 +292,18 @@ class ModelStore {
   activeContextSettings: ContextInitParams | undefined = undefined;
 
   context: LlamaContext | undefined = undefined;
+  // memoryEstimator estimate for the active context
+  activeContextMemoryBytes: number | undefined = undefined;
+  // LoRA adapters applied to the active context, and the Pal pins they were
+  // resolved with (undefined = the model's own selection)
+  activeLoraAdapters: LoraAdapterSetting[] = [];
+  private loraPins: LoraAdapterSetting[] | undefined = undefined;
+
+  // Hot switching: contexts of models switched away from stay loaded (up to
+  // maxWarmContexts, within the memory ceiling) so switching back is instant
+  keepModelsWarm: boolean = false;
+  maxWarmContexts: number = 1;
+  warmContexts: WarmContext[] = []; // runtime-only
 
   engine: CompletionEngine | undefined = undefined;
 
@@ -223,6 +340,10 @@ class ModelStore {
   // Not in the persist list, so it is never serialized itself.
   private pendingLocalPathRecoveries: Map<Model, string> = new Map();
 
+  // Revisions replaced by updateModel whose successor is still downloading,
+  // by model id. Runtime-only.
+  private replacedRevisions: Map<string, ReplacedRevision> = new Map();
+
   // When true, the e2e benchmark runner owns the native context lifecycle.
   // Other callers (ChatView auto-load, selectModel, initContext) must defer
   // to keep the matrix's per-cell devices/n_gpu_layers from being shadowed
@@ -241,6 +362,9 @@ class ModelStore {
   // Projection models orphaned by the vision heal, awaiting deletion; drained
   // every launch (see drainPendingProjectionCleanup).
   pendingProjectionCleanupIds: string[] = [];
+  // Newer uploads of downloaded HF models, by model id (persisted)
+  modelUpdates: Record<string, ModelUpdate> = {};
+  lastModelUpdateCheck: number | undefined = undefined;
 
   constructor() {
     makeAutoObservable(this, {
@@ -249,6 +373,8 @@ class ModelStore {
       contextId: computed,
       remoteModels: computed,
       activeDownloads: computed,
+      // Entries are replaced, never mutated; keep the native contexts as-is
+      warmContexts: observable.shallow,
     });
     makePersistable(this, {
       name: 'ModelStore',
@@ -258,6 +384,8 @@ class ModelStore {
         'deviceTier',
         'rulesVersion',
         'useAutoRelease',
+        'keepModelsWarm',
+        'maxWarmContexts',
         'contextInitParams',
         'lastUsedModelId',
         'wasAutoReleased',
@@ -265,6 +393,8 @@ class ModelStore {
         'availableMemoryCeiling',
         'largestSuccessfulLoad',
         'pendingProjectionCleanupIds',
+        'modelUpdates',
+        'lastModelUpdateCheck',
       ],
       storage: AsyncStorage,
     }).then(async () => {
@@ -274,6 +404,8 @@ class ModelStore {
 
     this.setupAppStateListener();
 
+    downloadQueueStore.setStarter(this.startQueuedDownload);
+
     // Set up download manager callbacks
     downloadManager.setCallbacks({
       onProgress: (modelId, progress) => {
@@ -286,6 +418,8 @@ class ModelStore {
         }
       },
       onComplete: async modelId => {
+        downloadQueueStore.finish(modelId);
+        downloadQueueStore.pump();
         const model = this.models.find(m => m.id === modelId);
         if (model) {
           runInAction(() => {
@@ -293,15 +427,26 @@ class ModelStore {
             model.isDownloaded = true;
           });
 
+          const verified = await this.verifyDownloadedModel(model);
+          await this.settleModelUpdate(modelId, verified);
+          if (!verified) {
+            return;
+          }
+
           // Fetch and persist GGUF metadata after download completes
           // Skip for projection models (CLIP) - they have different metadata structure
-          if (model.modelType !== ModelType.PROJECTION) {
+          // LoRA adapters only need the architecture they apply to
+          if (model.modelType === ModelType.LORA) {
+            await this.fetchAndPersistLoraArchitecture(model);
+          } else if (model.modelType !== ModelType.PROJECTION) {
             await this.fetchAndPersistGGUFMetadata(model);
           }
         }
       },
       onError: (modelId, error) => {
         console.error('Download error for model', modelId, error);
+        downloadQueueStore.finish(modelId);
+        downloadQueueStore.pump();
         const model = this.models.find(m => m.id === modelId);
         if (model) {
           runInAction(() => {
@@ -317,6 +462,7 @@ class ModelStore {
         runInAction(() => {
           this.downloadError = errorState;
         });
+        this.settleModelUpdate(modelId, false);
       },
     });
   }
@@ -518,20 +664,23 @@ class ModelStore {
   getEffectiveContextInitParams = async (
     filePath?: string,
     draftConfig?: DraftConfig,
+    modelId?: string,
   ): Promise<Omit<ContextParams, 'model'>> => {
+    const contextInitParams = this.getModelContextInitParams(modelId);
+
     // Apply batch constraints
-    const effectiveContext = this.contextInitParams.n_ctx;
+    const effectiveContext = contextInitParams.n_ctx;
     const effectiveBatch = Math.min(
-      this.contextInitParams.n_batch,
+      contextInitParams.n_batch,
       effectiveContext,
     );
     const effectiveUBatch = Math.min(
-      this.contextInitParams.n_ubatch,
+      contextInitParams.n_ubatch,
       effectiveBatch,
     );
 
     // Resolve the effective use_mmap value based on the setting
-    const currentUseMmap = this.contextInitParams.use_mmap;
+    const currentUseMmap = contextInitParams.use_mmap;
     let effectiveUseMmap: boolean;
 
     if (currentUseMmap === 'smart') {
@@ -561,24 +710,24 @@ class ModelStore {
             ? 'auto'
             : 'off';
     const flash_attn_type =
-      this.contextInitParams.flash_attn_type ?? flashAttnModeDefault;
+      contextInitParams.flash_attn_type ?? flashAttnModeDefault;
 
     // Build the params object, filtering out undefined values
     const params: Partial<Omit<ContextParams, 'model'>> = {
       n_ctx: effectiveContext,
       n_batch: effectiveBatch,
       n_ubatch: effectiveUBatch,
-      n_threads: this.contextInitParams.n_threads,
+      n_threads: contextInitParams.n_threads,
       flash_attn_type, // NEW: replaces flash_attn boolean
-      cache_type_k: this.contextInitParams.cache_type_k,
-      cache_type_v: this.contextInitParams.cache_type_v,
-      n_gpu_layers: this.contextInitParams.n_gpu_layers ?? 99,
-      devices: this.contextInitParams.devices, // NEW
-      kv_unified: this.contextInitParams.kv_unified ?? true, // NEW (default true!)
-      n_parallel: this.contextInitParams.n_parallel ?? 1, // NEW (1 for blocking mode only)
-      use_mlock: this.contextInitParams.use_mlock,
+      cache_type_k: contextInitParams.cache_type_k,
+      cache_type_v: contextInitParams.cache_type_v,
+      n_gpu_layers: contextInitParams.n_gpu_layers ?? 99,
+      devices: contextInitParams.devices, // NEW
+      kv_unified: contextInitParams.kv_unified ?? true, // NEW (default true!)
+      n_parallel: contextInitParams.n_parallel ?? 1, // NEW (1 for blocking mode only)
+      use_mlock: contextInitParams.use_mlock,
       use_mmap: effectiveUseMmap,
-      no_extra_bufts: this.contextInitParams.no_extra_bufts,
+      no_extra_bufts: contextInitParams.no_extra_bufts,
     };
 
     if (speculative) {
@@ -587,20 +736,20 @@ class ModelStore {
 
       // llama.rn throws on spec_draft_n_max <= 0 with DRAFT_MTP.
       params.spec_draft_n_max =
-        this.contextInitParams.spec_draft_n_max !== undefined
-          ? Math.max(1, this.contextInitParams.spec_draft_n_max)
+        contextInitParams.spec_draft_n_max !== undefined
+          ? Math.max(1, contextInitParams.spec_draft_n_max)
           : undefined;
-      params.spec_draft_n_min = this.contextInitParams.spec_draft_n_min;
-      params.spec_draft_p_min = this.contextInitParams.spec_draft_p_min;
-      params.spec_draft_p_split = this.contextInitParams.spec_draft_p_split;
+      params.spec_draft_n_min = contextInitParams.spec_draft_n_min;
+      params.spec_draft_p_min = contextInitParams.spec_draft_p_min;
+      params.spec_draft_p_split = contextInitParams.spec_draft_p_split;
 
       const cacheDefaults = draftCacheDefaults(mode, flash_attn_type === 'on');
       params.spec_draft_cache_type_k =
-        this.contextInitParams.spec_draft_cache_type_k ?? cacheDefaults.k;
+        contextInitParams.spec_draft_cache_type_k ?? cacheDefaults.k;
       // With flash attention explicitly off a quantized draft V cache can
       // never load (llama.cpp hard-refuses it) — clamp even an explicit pick.
       const draftV =
-        this.contextInitParams.spec_draft_cache_type_v ?? cacheDefaults.v;
+        contextInitParams.spec_draft_cache_type_v ?? cacheDefaults.v;
       params.spec_draft_cache_type_v =
         flash_attn_type === 'off' && draftV !== CacheType.F16
           ? CacheType.F16
@@ -610,10 +759,10 @@ class ModelStore {
         params.model_draft = draftConfig.resolvedDraftPath;
         params.is_model_draft_asset = false;
         params.spec_draft_n_gpu_layers =
-          this.contextInitParams.spec_draft_n_gpu_layers ?? 99;
+          contextInitParams.spec_draft_n_gpu_layers ?? 99;
       } else {
         params.spec_draft_n_gpu_layers =
-          this.contextInitParams.spec_draft_n_gpu_layers;
+          contextInitParams.spec_draft_n_gpu_layers;
       }
     }
 
@@ -623,6 +772,178 @@ class ModelStore {
     ) as Omit<ContextParams, 'model'>;
   };
 
+  /**
+   * The global contextInitParams with the model's active load profile, if
+   * any, layered on top.
+   */
+  getModelContextInitParams = (modelId?: string): ContextInitParams => {
+    const model = modelId ? this.models.find(m => m.id === modelId) : undefined;
+    const profile = model?.loadProfiles?.find(
+      p => p.id === model.activeLoadProfileId,
+    );
+    return applyLoadProfile(this.contextInitParams, profile);
+  };
+
+  /**
+   * Save the current global load settings as a named profile of the model.
+   * Selecting it is left to setActiveLoadProfile.
+   */
+  addLoadProfile = (modelId: string, name: string): LoadProfile | undefined => {
+    const model = this.models.find(m => m.id === modelId);
+    if (!model) {
+      return undefined;
+    }
+    const profile = createLoadProfile(name, this.contextInitParams);
+    runInAction(() => {
+      model.loadProfiles = [...(model.loadProfiles ?? []), profile];
+    });
+    return profile;
+  };
+
+  removeLoadProfile = (modelId: string, profileId: string) => {
+    const model = this.models.find(m => m.id === modelId);
+    if (!model?.loadProfiles) {
+      return;
+    }
+    runInAction(() => {
+      model.loadProfiles = model.loadProfiles?.filter(p => p.id !== profileId);
+      if (model.activeLoadProfileId === profileId) {
+        model.activeLoadProfileId = undefined;
+      }
+    });
+  };
+
+  /** Pass undefined to go back to the global settings. */
+  setActiveLoadProfile = (modelId: string, profileId?: string) => {
+    const model = this.models.find(m => m.id === modelId);
+    if (
+      model &&
+      (!profileId || model.loadProfiles?.some(p => p.id === profileId))
+    ) {
+      runInAction(() => {
+        model.activeLoadProfileId = profileId;
+      });
+    }
+  };
+
+  private migrateLoadProfiles = () => {
+    runInAction(() => {
+      this.models.forEach(model => {
+        if (
+          model.loadProfiles?.some(
+            p => p.version !== CURRENT_CONTEXT_INIT_PARAMS_VERSION,
+          )
+        ) {
+          model.loadProfiles = model.loadProfiles.map(migrateLoadProfile);
+        }
+      });
+    });
+  };
+
+  /** Downloaded LoRA adapters that apply to the model's architecture. */
+  getCompatibleLoraAdapters = (modelId: string): Model[] => {
+    const model = this.models.find(m => m.id === modelId);
+    return model ? getCompatibleLoraAdapters(model, this.models) : [];
+  };
+
+  /**
+   * Set the adapters applied whenever the model loads. Takes effect right
+   * away when the model is active and no Pal pins replace them.
+   */
+  setModelLoraAdapters = async (
+    modelId: string,
+    settings: LoraAdapterSetting[],
+  ) => {
+    const model = this.models.find(m => m.id === modelId);
+    if (!model) {
+      return;
+    }
+    runInAction(() => {
+      model.loraAdapters = settings;
+    });
+    if (this.activeModelId === modelId) {
+      await this.syncLoraAdapters(this.loraPins);
+    }
+  };
+
+  /** Drop a deleted adapter from every model and from the active context. */
+  private detachLoraAdapter = async (adapterId: string) => {
+    runInAction(() => {
+      this.models.forEach(model => {
+        if (model.loraAdapters?.some(a => a.id === adapterId)) {
+          model.loraAdapters = model.loraAdapters.filter(
+            a => a.id !== adapterId,
+          );
+        }
+      });
+    });
+    if (this.activeLoraAdapters.some(a => a.id === adapterId)) {
+      await this.syncLoraAdapters(
+        this.loraPins?.filter(a => a.id !== adapterId),
+      );
+    }
+  };
+
+  /**
+   * Acquires mutex before applying the LoRA adapters the active model should
+   * run with: `pinned` (the active Pal's) or else the model's own selection.
+   * A no-op when those are already applied, so it is cheap per completion.
+   */
+  syncLoraAdapters = async (pinned?: LoraAdapterSetting[]): Promise<void> => {
+    const operationPromise = this.contextOperationMutex.then(() =>
+      this._syncLoraAdaptersInternal(pinned),
+    );
+
+    // Swallow errors to keep mutex chain intact
+    this.contextOperationMutex = operationPromise
+      .then(() => {})
+      .catch(() => {});
+
+    return operationPromise;
+  };
+
+  /** Internal sync - caller must already hold the mutex. */
+  private _syncLoraAdaptersInternal = async (pinned?: LoraAdapterSetting[]) => {
+    runInAction(() => {
+      this.loraPins = pinned;
+    });
+    const ctx = this.context;
+    const model = this.models.find(m => m.id === this.activeModelId);
+    if (!ctx || !model) {
+      return;
+    }
+
+    const wanted = resolveLoraAdapters(model, this.models, pinned);
+    if (JSON.stringify(wanted) === JSON.stringify(this.activeLoraAdapters)) {
+      return;
+    }
+
+    try {
+      if (this.activeLoraAdapters.length > 0) {
+        await ctx.removeLoraAdapters();
+        runInAction(() => {
+          this.activeLoraAdapters = [];
+        });
+      }
+      const loraList: {path: string; scaled: number}[] = [];
+      for (const setting of wanted) {
+        const adapter = this.models.find(m => m.id === setting.id);
+        const path = adapter && (await this.getModelFullPath(adapter));
+        if (path) {
+          loraList.push({path, scaled: setting.scale});
+        }
+      }
+      if (loraList.length > 0) {
+        await ctx.applyLoraAdapters(loraList);
+      }
+      runInAction(() => {
+        this.activeLoraAdapters = wanted;
+      });
+    } catch (error) {
+      console.error('[ModelStore] Failed to apply LoRA adapters:', error);
+    }
+  };
+
   // Legacy methods for backward compatibility
 
   /** @deprecated Use getEffectiveContextInitParams instead */
@@ -734,9 +1055,14 @@ class ModelStore {
     console.log('models: ', this.models);
 
     this.healDraftVisionClassification();
+    this.migrateLoadProfiles();
 
     // Sync download manager with active downloads
     await downloadManager.syncWithActiveDownloads(this.models);
+    downloadQueueStore.restore(modelId => {
+      const model = this.models.find(m => m.id === modelId);
+      return !!model && !model.isDownloaded && !!model.downloadUrl;
+    });
 
     // After the sync so an in-flight mmproj download is visible and waits. A
     // failure retries next launch; it must not abort the rest of init.
@@ -806,6 +1132,9 @@ class ModelStore {
     // Load missing GGUF metadata for downloaded models (background, non-blocking)
     this.loadMissingGGUFMetadata();
 
+    // Look for newer uploads of downloaded HF models (background, throttled)
+    this.checkForModelUpdates();
+
     // Check if we need to reload an auto-released model (for app restarts)
     this.checkAndReloadAutoReleasedModel();
   };
@@ -1005,15 +1334,21 @@ class ModelStore {
       model => model.origin !== ModelOrigin.PRESET || model.isDownloaded,
     );
 
-    // Handle HF and LOCAL models
+    // Handle HF, LOCAL and URL models
     mergedModels.forEach(model => {
       if (
         model.origin === ModelOrigin.HF ||
         model.origin === ModelOrigin.LOCAL ||
+        model.origin === ModelOrigin.URL ||
         model.isLocal
       ) {
-        // Reset default settings
-        if (model.origin === ModelOrigin.LOCAL || model.isLocal) {
+        // Reset default settings. A URL import has no model card to read
+        // them from, like a local file.
+        if (
+          model.origin === ModelOrigin.LOCAL ||
+          model.origin === ModelOrigin.URL ||
+          model.isLocal
+        ) {
           const defaultSettings = getLocalModelDefaultSettings();
           model.defaultChatTemplate = {...defaultSettings.chatTemplate};
           model.defaultStopWords = defaultSettings.completionParams.stop;
@@ -1061,6 +1396,15 @@ class ModelStore {
 
   setupAppStateListener = () => {
     AppState.addEventListener('change', this.handleAppStateChange);
+    AppState.addEventListener('memoryWarning', this.handleMemoryWarning);
+  };
+
+  /** Warm contexts are the first thing to give back under memory pressure. */
+  handleMemoryWarning = async () => {
+    if (this.warmContexts.length > 0) {
+      console.log('Memory warning: Releasing warm contexts');
+      await this.releaseWarmContexts();
+    }
   };
 
   // Auto-release management methods
@@ -1154,6 +1498,10 @@ class ModelStore {
         this.markAutoReleased(this.activeModelId);
         await this.releaseContext();
       }
+      // Warm contexts are not reloaded on return, only the active one is
+      if (this.isAutoReleaseEnabled && this.warmContexts.length > 0) {
+        await this.releaseWarmContexts();
+      }
     } else if (this.appState === 'active' && nextAppState === 'background') {
       // active → background: release if enabled (direct transition)
       // Skip for remote models — same reason as above.
@@ -1166,6 +1514,10 @@ class ModelStore {
         this.markAutoReleased(this.activeModelId);
         await this.releaseContext();
       }
+      // Warm contexts are not reloaded on return, only the active one is
+      if (this.isAutoReleaseEnabled && this.warmContexts.length > 0) {
+        await this.releaseWarmContexts();
+      }
     }
 
     runInAction(() => {
@@ -1235,6 +1587,8 @@ class ModelStore {
    * - PRESET: Checks both legacy path (DocumentDirectoryPath/filename) and
    *          new path (DocumentDirectoryPath/models/preset/author/filename)
    * - HF: Uses DocumentDirectoryPath/models/hf/author/filename
+   * - URL: Uses DocumentDirectoryPath/models/url/id/filename, since two links
+   *        can serve files of the same name
    *
    * IMPORTANT: This logic is duplicated in native Swift code for iOS Shortcuts
    * See: ios/PocketPal/AppIntents/PalDataProvider.swift - parseModelPath() method
@@ -1323,6 +1677,10 @@ class ModelStore {
       return newPath;
     }
 
+    if (model.origin === ModelOrigin.URL) {
+      return `${RNFS.DocumentDirectoryPath}/models/url/${model.id}/${model.filename}`;
+    }
+
     // Fallback (shouldn't reach here)
     console.error('should not reach here. model: ', model);
     return `${RNFS.DocumentDirectoryPath}/${model.filename}`;
@@ -1419,9 +1777,19 @@ class ModelStore {
     });
   };
 
+  /**
+   * Paths of every file of a model. A split model has one per part, starting
+   * with the first part that gets loaded.
+   */
+  getModelFilePaths = async (model: Model): Promise<string[]> =>
+    modelFilePaths(model, await this.getModelFullPath(model));
+
   async checkFileExists(model: Model) {
-    const filePath = await this.getModelFullPath(model);
-    const exists = await RNFS.exists(filePath);
+    const filePaths = await this.getModelFilePaths(model);
+    // A split model is only usable with all of its parts.
+    const exists = (
+      await Promise.all(filePaths.map(path => RNFS.exists(path)))
+    ).every(Boolean);
 
     // Don't mark as downloaded if currently downloading
     if (exists && !downloadManager.isDownloading(model.id)) {
@@ -1542,14 +1910,13 @@ class ModelStore {
   };
 
   private _downloadDraftModelIfNeeded = async (model: Model) => {
-    const draftModelId = resolveDraftModelId(
-      model,
-      this.contextInitParams.selectedDraftModelId,
-    );
+    const {selectedDraftModelId, speculativeEnabled} =
+      this.getModelContextInitParams(model.id);
+    const draftModelId = resolveDraftModelId(model, selectedDraftModelId);
     if (
       !draftModelId ||
       model.modelType === ModelType.DRAFT ||
-      !this.contextInitParams.speculativeEnabled
+      !speculativeEnabled
     ) {
       return;
     }
@@ -1575,6 +1942,11 @@ class ModelStore {
     }
   };
 
+  /**
+   * Queues the download of a model; it starts once a slot is free and the
+   * queue's conditions allow. A download that starts right away is awaited,
+   * so its failure reaches the caller.
+   */
   checkSpaceAndDownload = async (modelId: string) => {
     const model = this.models.find(m => m.id === modelId);
     // Skip if model is undefined, already downloaded, local or doesn't have a download URL
@@ -1589,10 +1961,43 @@ class ModelStore {
       return;
     }
 
+    // DownloadManager checks the model on its own when it starts; this also
+    // counts what is already queued or running.
+    const pendingBytes = this.pendingDownloadBytes(modelId);
+    if (pendingBytes > 0 && !(await hasEnoughSpace(model, pendingBytes))) {
+      const err = new Error('Not enough storage space to download the model');
+      this.reportDownloadError(err, modelId);
+      throw err;
+    }
+
+    if (downloadQueueStore.enqueue(modelId)) {
+      await downloadQueueStore.pump();
+    }
+    await downloadQueueStore.started(modelId);
+  };
+
+  /** Starts a download taken off the queue. */
+  private startQueuedDownload = async (modelId: string) => {
+    const model = this.models.find(m => m.id === modelId);
+    if (!model || model.isDownloaded) {
+      downloadQueueStore.finish(modelId);
+      return;
+    }
+
     try {
       const destinationPath = await this.getModelFullPath(model);
       const authToken = hfStore.shouldUseToken ? hfStore.hfToken : null;
-      await downloadManager.startDownload(model, destinationPath, authToken);
+      if (model.origin === ModelOrigin.URL) {
+        const headers = await this.getUrlModelHeaders(model.id);
+        await downloadManager.startDownload(
+          model,
+          destinationPath,
+          authToken,
+          headers,
+        );
+      } else {
+        await downloadManager.startDownload(model, destinationPath, authToken);
+      }
 
       // For vision models, automatically download the projection model
       await this._downloadProjectionModelIfNeeded(model);
@@ -1605,23 +2010,60 @@ class ModelStore {
       }
 
       console.error('Failed to start download:', err);
-
-      // Create proper error state for the snackbar system
-      const errorState = createErrorState(err, 'download', 'huggingface', {
-        modelId,
-      });
-
-      runInAction(() => {
-        this.downloadError = errorState;
-      });
+      this.reportDownloadError(err, modelId);
 
       // Re-throw so the caller knows the download failed
       throw err;
     }
   };
 
+  private reportDownloadError(err: unknown, modelId: string) {
+    // Create proper error state for the snackbar system
+    const errorState = createErrorState(err, 'download', 'huggingface', {
+      modelId,
+    });
+
+    runInAction(() => {
+      this.downloadError = errorState;
+    });
+  }
+
+  /**
+   * Bytes that running and queued downloads, other than `modelId`, still
+   * have to write.
+   */
+  private pendingDownloadBytes(modelId: string): number {
+    const running = this.activeDownloads
+      .filter(download => download.modelId !== modelId)
+      .reduce(
+        (sum, download) =>
+          sum +
+          Math.max(
+            0,
+            (download.bytesTotal || download.model.size || 0) -
+              download.bytesDownloaded,
+          ),
+        0,
+      );
+    const queued = downloadQueueStore.queue
+      .filter(item => item.modelId !== modelId)
+      .reduce(
+        (sum, item) =>
+          sum + (this.models.find(m => m.id === item.modelId)?.size || 0),
+        0,
+      );
+    return running + queued;
+  }
+
   cancelDownload = async (modelId: string) => {
+    if (downloadQueueStore.isQueued(modelId)) {
+      downloadQueueStore.remove(modelId);
+      await this.settleModelUpdate(modelId, false);
+      return;
+    }
     await downloadManager.cancelDownload(modelId);
+    downloadQueueStore.finish(modelId);
+    downloadQueueStore.pump();
     const model = this.models.find(m => m.id === modelId);
     if (model) {
       runInAction(() => {
@@ -1629,6 +2071,7 @@ class ModelStore {
         model.progress = 0;
       });
     }
+    await this.settleModelUpdate(modelId, false);
     this.refreshDownloadStatuses();
   };
 
@@ -1680,6 +2123,9 @@ class ModelStore {
         runInAction(() => {
           this.models.splice(modelIndex, 1);
         });
+        if (_model.origin === ModelOrigin.URL) {
+          this.removeUrlModelHeaders(_model.id);
+        }
         return true;
       }
     }
@@ -1736,7 +2182,19 @@ class ModelStore {
       }
     }
 
-    const filePath = await this.getModelFullPath(_model);
+    // A warm context still holds the file open
+    await this.releaseWarmContexts(
+      warm =>
+        warm.modelId === _model.id ||
+        warm.projectionModelId === _model.id ||
+        warm.loraAdapters.some(a => a.id === _model.id),
+    );
+
+    if (_model.modelType === ModelType.LORA) {
+      await this.detachLoraAdapter(_model.id);
+    }
+
+    const [filePath, ...otherPartPaths] = await this.getModelFilePaths(_model);
     if (_model.isLocal || _model.origin === ModelOrigin.LOCAL) {
       // Local models are always removed from the list, when the file is deleted.
 
@@ -1765,7 +2223,16 @@ class ModelStore {
 
       try {
         if (filePath) {
+          // The other parts of a split model go first, so a failure below
+          // never leaves parts behind without the one that is loaded.
+          for (const partPath of otherPartPaths) {
+            if (await RNFS.exists(partPath)) {
+              await RNFS.unlink(partPath);
+            }
+            await downloadManager.discardPartialDownload(partPath);
+          }
           await RNFS.unlink(filePath);
+          await downloadManager.discardPartialDownload(filePath);
 
           // Check if we need to release context (if this model is currently active)
           const needsContextRelease = this.activeModelId === _model.id;
@@ -1824,91 +2291,14 @@ class ModelStore {
         return;
       }
 
-      // Default vocab sizes by architecture (matches Python memory_estimator.py)
-      const ARCH_DEFAULT_VOCAB: Record<string, number> = {
-        llama: 128256,
-        gemma2: 256000,
-        gemma3n: 262144,
-        qwen2: 151936,
-        qwen3: 151936,
-        lfm2: 65536,
-        phi3: 32064,
-        mistral: 32000,
-        deepseek2: 102400,
-        clip: 49408, // CLIP models have smaller vocab
-      };
-
-      // Get the architecture to determine the correct key prefix
-      const architecture: string =
-        (modelInfo as any)['general.architecture'] || 'llama';
-
-      // Helper to get architecture-specific value with fallback (matches Python get_arch_value)
-      const getArchValue = (
-        field: string,
-        defaultValue?: number,
-      ): number | undefined => {
-        const key = `${architecture}.${field}`;
-        const value = (modelInfo as any)[key];
-        if (value !== undefined && value !== null) {
-          // Handle string values (GGUF sometimes returns strings)
-          if (typeof value === 'string') {
-            const parsed = value.includes('.')
-              ? parseFloat(value)
-              : parseInt(value, 10);
-            return isNaN(parsed) ? defaultValue : parsed;
-          }
-          return typeof value === 'number' ? value : defaultValue;
-        }
-        return defaultValue;
-      };
-
-      // Extract core fields (these are required)
-      const n_layers = getArchValue('block_count');
-      const n_embd = getArchValue('embedding_length');
-      const n_head = getArchValue('attention.head_count');
-
-      // Validate core fields exist - without these we can't estimate memory
-      if (!n_layers || !n_embd || !n_head) {
+      const metadata = ggufMetadataFromKVs(
+        modelInfo as Record<string, unknown>,
+      );
+      // Without the core fields there is nothing to estimate memory from
+      if (!metadata) {
         return;
       }
 
-      // Extract optional fields with fallbacks (matches Python ModelInfo.__post_init__)
-      const n_head_kv = getArchValue('attention.head_count_kv', n_head); // fallback to n_head
-      const n_vocab =
-        getArchValue('vocab_size') ||
-        ARCH_DEFAULT_VOCAB[architecture] ||
-        128000;
-
-      // Derive head dimensions if not present (matches Python)
-      const n_embd_head_k =
-        getArchValue('attention.key_length') || Math.floor(n_embd / n_head);
-      const n_embd_head_v =
-        getArchValue('attention.value_length') || Math.floor(n_embd / n_head);
-
-      // SWA (Sliding Window Attention) - optional
-      const sliding_window = getArchValue('attention.sliding_window');
-
-      // Context length from GGUF
-      const context_length = getArchValue('context_length');
-
-      const nextn_predict_layers = getArchValue('nextn_predict_layers');
-      const embedding_length_out = getArchValue('embedding_length_out');
-
-      const metadata = {
-        architecture,
-        n_layers,
-        n_embd,
-        n_head,
-        n_head_kv: n_head_kv!,
-        n_vocab,
-        n_embd_head_k,
-        n_embd_head_v,
-        sliding_window,
-        context_length,
-        nextn_predict_layers,
-        embedding_length_out,
-      };
-
       const paramCount = parseSizeLabel(
         (modelInfo as any)['general.size_label'],
       );
@@ -1924,6 +2314,28 @@ class ModelStore {
     }
   };
 
+  /**
+   * Read the architecture a downloaded LoRA adapter applies to from its GGUF
+   * header. The HF repo specs only guess it before download.
+   */
+  fetchAndPersistLoraArchitecture = async (model: Model) => {
+    try {
+      const filePath = await this.getModelFullPath(model);
+      if (!filePath) {
+        return;
+      }
+      const modelInfo = await loadLlamaModelInfo(filePath);
+      const architecture = (modelInfo as any)?.['general.architecture'];
+      if (typeof architecture === 'string' && architecture) {
+        runInAction(() => {
+          model.adapterArchitecture = architecture;
+        });
+      }
+    } catch (error) {
+      console.warn('[ModelStore] Failed to read LoRA architecture:', error);
+    }
+  };
+
   /**
    * Load GGUF metadata for downloaded models that don't have it yet.
    * Runs in background, doesn't block startup.
@@ -1933,7 +2345,8 @@ class ModelStore {
       m =>
         m.isDownloaded &&
         !m.ggufMetadata &&
-        m.modelType !== ModelType.PROJECTION,
+        m.modelType !== ModelType.PROJECTION &&
+        m.modelType !== ModelType.LORA,
     );
 
     if (modelsNeedingMetadata.length === 0) {
@@ -2012,7 +2425,7 @@ class ModelStore {
     const candidate = resolveDraftCandidate(
       model,
       this.models,
-      this.contextInitParams,
+      this.getModelContextInitParams(model.id),
     );
     if (candidate.mode !== 'paired') {
       return candidate;
@@ -2121,6 +2534,7 @@ class ModelStore {
       // auto-load on cold launch). clearActiveModel:true so the queued
       // post-mutex callers see a clean slate if they ever run.
       await this._releaseContextInternal(true);
+      await this._releaseWarmContextsInternal();
     });
     this.contextOperationMutex = op.then(() => {}).catch(() => {});
     await op;
@@ -2234,8 +2648,32 @@ class ModelStore {
           return this.context;
         }
 
-        // Release existing context
-        await this._releaseContextInternal();
+        // Release existing context, or keep it warm for switching back
+        if (this.keepModelsWarm && this.context) {
+          await this._parkActiveContextInternal();
+        } else {
+          await this._releaseContextInternal();
+        }
+
+        const warmContext = await this._reuseWarmContextInternal(
+          model,
+          mmProjPath,
+          isMultimodalInit ? projectionModel : undefined,
+          draftConfig,
+        );
+        if (warmContext) {
+          return warmContext;
+        }
+
+        // Make room for the incoming context
+        await this._evictWarmContextsInternal(
+          getModelMemoryRequirement(
+            model,
+            projectionModel,
+            this.getModelContextInitParams(model.id),
+            pairedDraftModel(draftConfig),
+          ),
+        );
 
         // Small delay for native cleanup before loading next model
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -2289,6 +2727,7 @@ class ModelStore {
     const effectiveSettings = await this.getEffectiveContextInitParams(
       filePath,
       draftConfig,
+      model.id,
     );
 
     try {
@@ -2326,7 +2765,7 @@ class ModelStore {
             use_gpu: !this.contextInitParams.no_gpu_devices,
             image_max_tokens: Math.min(
               this.contextInitParams.image_max_tokens ?? 512,
-              this.contextInitParams.n_ctx,
+              effectiveSettings.n_ctx ?? this.contextInitParams.n_ctx,
             ),
           });
 
@@ -2361,6 +2800,9 @@ class ModelStore {
         this.pendingModelId = null;
       });
 
+      // The model's own adapters; a Pal's pins replace them on its next turn
+      await this._syncLoraAdaptersInternal();
+
       // Update largestSuccessfulLoad using GGUF estimator
       try {
         const estimated = getModelMemoryRequirement(
@@ -2370,6 +2812,7 @@ class ModelStore {
           pairedDraftModel(draftConfig),
         );
         runInAction(() => {
+          this.activeContextMemoryBytes = estimated;
           if (
             this.largestSuccessfulLoad === undefined ||
             estimated > this.largestSuccessfulLoad
@@ -2411,6 +2854,46 @@ class ModelStore {
     }
   }
 
+  /**
+   * Stop any running completion on `ctx` and wait for it to settle, so the
+   * context can be released or parked without a callback firing into it.
+   */
+  private stopActiveCompletion = async (ctx: LlamaContext) => {
+    // IMPORTANT: Stop-Await-Release Pattern
+    // This prevents race condition where completion callback fires after context is freed
+    // which causes SIGSEGV in isMultimodalEnabled/createCompletionResult
+    if (this.inferencing || this.isStreaming || this.activeCompletionPromise) {
+      console.log('Stopping active completion before context release');
+
+      // Step 1: Signal the completion to stop
+      try {
+        await ctx.stopCompletion();
+      } catch (stopError) {
+        console.warn('Error stopping completion:', stopError);
+        // Continue with release even if stop fails
+      }
+
+      // Step 2: Wait for the completion promise to actually finish
+      // This is critical - stopCompletion() only signals, it doesn't wait
+      if (this.activeCompletionPromise) {
+        console.log('Waiting for completion promise to finish...');
+        try {
+          // Wait for promise to settle (ignore errors, just wait for it to complete)
+          await this.activeCompletionPromise.catch(() => {});
+        } catch {
+          // Ignore any errors, we just need to wait
+        }
+        this.activeCompletionPromise = null;
+      }
+
+      // Clear inference flags
+      runInAction(() => {
+        this.inferencing = false;
+        this.isStreaming = false;
+      });
+    }
+  };
+
   /** Internal release - caller must already hold the mutex. */
   private _releaseContextInternal = async (
     clearActiveModel: boolean = false,
@@ -2445,43 +2928,7 @@ class ModelStore {
     }
 
     try {
-      // IMPORTANT: Stop-Await-Release Pattern
-      // This prevents race condition where completion callback fires after context is freed
-      // which causes SIGSEGV in isMultimodalEnabled/createCompletionResult
-      if (
-        this.inferencing ||
-        this.isStreaming ||
-        this.activeCompletionPromise
-      ) {
-        console.log('Stopping active completion before context release');
-
-        // Step 1: Signal the completion to stop
-        try {
-          await this.context.stopCompletion();
-        } catch (stopError) {
-          console.warn('Error stopping completion:', stopError);
-          // Continue with release even if stop fails
-        }
-
-        // Step 2: Wait for the completion promise to actually finish
-        // This is critical - stopCompletion() only signals, it doesn't wait
-        if (this.activeCompletionPromise) {
-          console.log('Waiting for completion promise to finish...');
-          try {
-            // Wait for promise to settle (ignore errors, just wait for it to complete)
-            await this.activeCompletionPromise.catch(() => {});
-          } catch {
-            // Ignore any errors, we just need to wait
-          }
-          this.activeCompletionPromise = null;
-        }
-
-        // Clear inference flags
-        runInAction(() => {
-          this.inferencing = false;
-          this.isStreaming = false;
-        });
-      }
+      await this.stopActiveCompletion(this.context);
 
       // Step 3: Now safe to release - First check if multimodal is enabled and release it if needed
       if (this.isMultimodalActive) {
@@ -2515,6 +2962,8 @@ class ModelStore {
         this.engine = undefined;
         this.activeRemoteBinding = undefined;
         this.activeContextSettings = undefined;
+        this.activeContextMemoryBytes = undefined;
+        this.activeLoraAdapters = [];
         // Ensure multimodal state is cleared even if something went wrong above
         this.isMultimodalActive = false;
         this.activeProjectionModelId = undefined;
@@ -2563,10 +3012,180 @@ class ModelStore {
     await this.releaseContext(true); // Clear active model for manual release
   };
 
-  get activeModel(): Model | undefined {
-    // Look in local models first, then remote models
-    return (
-      this.models.find(model => model.id === this.activeModelId) ||
+  /**
+   * Internal park - caller must already hold the mutex. Moves the active
+   * local context into warmContexts instead of releasing it.
+   */
+  private _parkActiveContextInternal = async () => {
+    const ctx = this.context;
+    const modelId = this.activeModelId;
+    if (!ctx || !modelId) {
+      await this._releaseContextInternal();
+      return;
+    }
+
+    chatSessionStore.exitEditMode();
+    await this.stopActiveCompletion(ctx);
+
+    runInAction(() => {
+      this.warmContexts.push({
+        modelId,
+        context: ctx,
+        contextSettings: this.activeContextSettings,
+        isMultimodalActive: this.isMultimodalActive,
+        projectionModelId: this.activeProjectionModelId,
+        memoryBytes: this.activeContextMemoryBytes ?? 0,
+        lastUsedAt: Date.now(),
+        loraAdapters: this.activeLoraAdapters,
+      });
+      this.context = undefined;
+      this.engine = undefined;
+      this.activeRemoteBinding = undefined;
+      this.activeContextSettings = undefined;
+      this.activeContextMemoryBytes = undefined;
+      this.activeLoraAdapters = [];
+      this.isMultimodalActive = false;
+      this.activeProjectionModelId = undefined;
+    });
+    console.log(`[ModelStore] Kept "${modelId}" warm`);
+  };
+
+  /** Acquires mutex before parking the active context. */
+  parkActiveContext = async (): Promise<void> => {
+    const operationPromise = this.contextOperationMutex.then(async () => {
+      await this._parkActiveContextInternal();
+      await this._evictWarmContextsInternal(0);
+    });
+
+    // Swallow errors to keep mutex chain intact
+    this.contextOperationMutex = operationPromise
+      .then(() => {})
+      .catch(() => {});
+
+    return operationPromise;
+  };
+
+  /**
+   * Internal reuse - caller must already hold the mutex. Makes the model's
+   * warm context active if it was created with the params this load would
+   * use; a stale one is released. An explicit projector path always loads
+   * fresh, since the warm context only records the projector model.
+   */
+  private _reuseWarmContextInternal = async (
+    model: Model,
+    mmProjPath: string | undefined,
+    projectionModel: Model | undefined,
+    draftConfig: DraftConfig,
+  ): Promise<LlamaContext | null> => {
+    const warm = this.warmContexts.find(w => w.modelId === model.id);
+    if (!warm) {
+      return null;
+    }
+
+    const filePath = await this.getModelFullPath(model);
+    const settings = createContextInitParams(
+      await this.getEffectiveContextInitParams(filePath, draftConfig, model.id),
+    );
+    const warmProjectionModelId = warm.isMultimodalActive
+      ? warm.projectionModelId
+      : undefined;
+    if (
+      mmProjPath ||
+      JSON.stringify(settings) !== JSON.stringify(warm.contextSettings) ||
+      projectionModel?.id !== warmProjectionModelId
+    ) {
+      console.log(
+        `[ModelStore] Warm context for "${model.name}" is stale, reloading`,
+      );
+      await this._releaseWarmContextInternal(warm);
+      return null;
+    }
+
+    runInAction(() => {
+      this.warmContexts = this.warmContexts.filter(w => w.modelId !== model.id);
+      this.context = warm.context;
+      this.engine = new LocalCompletionEngine(warm.context);
+      this.activeRemoteBinding = undefined;
+      this.activeContextSettings = warm.contextSettings;
+      this.activeContextMemoryBytes = warm.memoryBytes;
+      this.activeLoraAdapters = warm.loraAdapters;
+      this.isMultimodalActive = warm.isMultimodalActive;
+      this.activeProjectionModelId = warm.projectionModelId;
+      this.setActiveModel(model.id);
+      this.pendingModelId = null;
+      this.lastUsedModelId = model.id;
+    });
+    console.log(`[ModelStore] Reused warm context for "${model.name}"`);
+    return warm.context;
+  };
+
+  /**
+   * Internal eviction - caller must already hold the mutex. Releases least
+   * recently used warm contexts until at most maxWarmContexts remain and they
+   * fit the calibrated memory ceiling alongside `incomingBytes`.
+   */
+  private _evictWarmContextsInternal = async (incomingBytes: number) => {
+    const budget = Math.max(
+      this.largestSuccessfulLoad ?? 0,
+      this.availableMemoryCeiling ?? 0,
+    );
+    const evicted = pickWarmContextEvictions(
+      this.warmContexts,
+      incomingBytes,
+      budget,
+      this.keepModelsWarm ? this.maxWarmContexts : 0,
+    );
+    await this._releaseWarmContextsInternal(warm =>
+      evicted.includes(warm.modelId),
+    );
+  };
+
+  private _releaseWarmContextInternal = async (warm: WarmContext) => {
+    runInAction(() => {
+      this.warmContexts = this.warmContexts.filter(
+        w => w.modelId !== warm.modelId,
+      );
+    });
+    try {
+      if (warm.isMultimodalActive) {
+        await warm.context.releaseMultimodal();
+      }
+      await warm.context.release();
+      console.log(`[ModelStore] Released warm context for "${warm.modelId}"`);
+    } catch (error) {
+      console.error('Error releasing warm context:', error);
+    }
+  };
+
+  /** Internal release of warm contexts - caller must already hold the mutex. */
+  private _releaseWarmContextsInternal = async (
+    filter: (warm: WarmContext) => boolean = () => true,
+  ) => {
+    for (const warm of this.warmContexts.filter(filter)) {
+      await this._releaseWarmContextInternal(warm);
+    }
+  };
+
+  /** Acquires mutex before releasing the warm contexts matching `filter`. */
+  releaseWarmContexts = async (
+    filter?: (warm: WarmContext) => boolean,
+  ): Promise<void> => {
+    const operationPromise = this.contextOperationMutex.then(() =>
+      this._releaseWarmContextsInternal(filter),
+    );
+
+    // Swallow errors to keep mutex chain intact
+    this.contextOperationMutex = operationPromise
+      .then(() => {})
+      .catch(() => {});
+
+    return operationPromise;
+  };
+
+  get activeModel(): Model | undefined {
+    // Look in local models first, then remote models
+    return (
+      this.models.find(model => model.id === this.activeModelId) ||
       this.remoteModels.find(model => model.id === this.activeModelId)
     );
   }
@@ -2649,16 +3268,26 @@ class ModelStore {
   }
 
   /**
-   * Set a remote model as the active model and create an OpenAI completion engine.
+   * Set a remote model as the active model and create the completion engine
+   * for its server type (Anthropic Messages or OpenAI chat completions).
    * Releases any active local context first.
+   *
+   * A model with a model group gets a group engine around it instead. The
+   * binding, and with it caps and sampler mapping, still describes this
+   * model's own server; the backend that answered is recorded per turn.
    */
   setRemoteModel = async (model: Model): Promise<void> => {
     if (!model.serverId || !model.remoteModelId) {
       throw new Error('Model is missing remote configuration');
     }
 
-    // Release any existing context (local or remote)
-    await this.releaseContext();
+    // Release any existing context (local or remote); in hot switching mode
+    // a local one stays warm for switching back
+    if (this.keepModelsWarm) {
+      await this.parkActiveContext();
+    } else {
+      await this.releaseContext();
+    }
 
     const apiKey = await serverStore.getApiKey(model.serverId);
     const server = serverStore.servers.find(s => s.id === model.serverId);
@@ -2666,14 +3295,19 @@ class ModelStore {
       throw new Error('Server not found');
     }
 
+    const engine = createRemoteEngine(server, model.remoteModelId!, apiKey);
+
     runInAction(() => {
-      this.engine = new OpenAICompletionEngine(
-        server.url,
-        model.remoteModelId!,
-        apiKey,
-        server.requestTimeoutMs,
-        server.serverType,
-      );
+      this.engine = serverStore.modelGroups[model.id]
+        ? new ModelGroupCompletionEngine(
+            () => this.modelGroupRoutes(model, engine),
+            backend => {
+              if (backend.serverId) {
+                serverStore.recordServerFailure(backend.serverId);
+              }
+            },
+          )
+        : engine;
       this.activeRemoteBinding = {
         modelId: model.id,
         serverId: model.serverId!,
@@ -2690,6 +3324,77 @@ class ModelStore {
       .catch(() => {});
   };
 
+  /**
+   * The backends a model group's turn tries, in order. The model itself reuses
+   * the engine built when it was selected; other servers get theirs on first
+   * use. Under 'latency' each server is checked first (the check is cached);
+   * under 'priority' only a failed check or turn reorders them. The local
+   * fallback comes last and, once loaded, replaces the remote session.
+   */
+  private modelGroupRoutes = async (
+    model: Model,
+    modelEngine: CompletionEngine,
+  ): Promise<CompletionRoute[]> => {
+    const group = serverStore.modelGroups[model.id];
+    const policy = group?.policy ?? 'priority';
+    const backends = groupBackends(
+      {serverId: model.serverId!, remoteModelId: model.remoteModelId!},
+      group,
+    );
+
+    if (policy === 'latency') {
+      const perServer = new Map(backends.map(b => [b.serverId, b]));
+      await Promise.all(
+        [...perServer.values()].map(b =>
+          serverStore.checkServerHealth(b.serverId, b.remoteModelId),
+        ),
+      );
+    }
+
+    const routes: CompletionRoute[] = orderBackends(
+      backends,
+      policy,
+      serverStore.serverHealth,
+    ).map(ref => {
+      const modelId = `${ref.serverId}/${ref.remoteModelId}`;
+      const server = serverStore.servers.find(s => s.id === ref.serverId);
+      return {
+        backend: {
+          modelId,
+          name: server?.name ?? ref.serverId,
+          serverId: ref.serverId,
+          isLocal: false,
+        },
+        createEngine: async () => {
+          if (modelId === model.id) {
+            return modelEngine;
+          }
+          if (!server) {
+            return undefined;
+          }
+          const apiKey = await serverStore.getApiKey(ref.serverId);
+          return createRemoteEngine(server, ref.remoteModelId, apiKey);
+        },
+      };
+    });
+
+    const localModel = group?.localModelId
+      ? this.availableModels.find(
+          m => m.id === group.localModelId && m.origin !== ModelOrigin.REMOTE,
+        )
+      : undefined;
+    if (localModel) {
+      routes.push({
+        backend: {modelId: localModel.id, name: localModel.name, isLocal: true},
+        createEngine: async () => {
+          const ctx = await this.initContext(localModel);
+          return ctx ? new LocalCompletionEngine(ctx) : undefined;
+        },
+      });
+    }
+    return routes;
+  };
+
   /**
    * Public method that routes model selection to the appropriate handler.
    * All callsites should use selectModel() instead of initContext() directly.
@@ -2968,6 +3673,95 @@ class ModelStore {
     }
   };
 
+  /**
+   * Adds a model probed by the add-from-URL sheet and starts its download.
+   * Headers (e.g. `Authorization`) go to the Keychain and are sent with every
+   * request for the file, including resumes after a restart. Adding a link
+   * that is already in the list reuses its entry.
+   */
+  addUrlModel = async (
+    probe: UrlModelProbe,
+    headers: Record<string, string> = {},
+  ): Promise<Model> => {
+    let model = this.models.find(
+      m => m.origin === ModelOrigin.URL && m.downloadUrl === probe.downloadUrl,
+    );
+    if (!model) {
+      const defaultSettings = getLocalModelDefaultSettings();
+      const newModel: Model = {
+        id: uuidv4(),
+        author: probe.host,
+        name: probe.filename,
+        size: probe.size,
+        params: 0, // Will be updated after GGUF metadata read
+        isDownloaded: false,
+        isLocal: false,
+        downloadUrl: probe.downloadUrl,
+        hfUrl: '',
+        progress: 0,
+        filename: probe.filename,
+        origin: ModelOrigin.URL,
+        defaultChatTemplate: {...defaultSettings.chatTemplate},
+        chatTemplate: {...defaultSettings.chatTemplate},
+        defaultStopWords: [...(defaultSettings?.completionParams?.stop || [])],
+        stopWords: [...(defaultSettings?.completionParams?.stop || [])],
+        defaultCompletionSettings: defaultSettings.completionParams,
+        completionSettings: {...defaultSettings.completionParams},
+      };
+      runInAction(() => {
+        this.models.push(newModel);
+      });
+      model = this.models.find(m => m.id === newModel.id)!;
+    }
+
+    await this.setUrlModelHeaders(model.id, headers);
+    // Not awaited: on iOS the start resolves only once the file is in place.
+    // Failures reach the user through downloadError.
+    this.checkSpaceAndDownload(model.id);
+    return model;
+  };
+
+  getUrlModelHeaders = async (
+    modelId: string,
+  ): Promise<Record<string, string>> => {
+    try {
+      const credentials = await Keychain.getGenericPassword({
+        service: `${URL_HEADERS_KEYCHAIN_PREFIX}${modelId}`,
+      });
+      return credentials ? JSON.parse(credentials.password) : {};
+    } catch (error) {
+      console.error('Failed to load model URL headers:', error);
+      return {};
+    }
+  };
+
+  private setUrlModelHeaders = async (
+    modelId: string,
+    headers: Record<string, string>,
+  ): Promise<void> => {
+    if (Object.keys(headers).length === 0) {
+      await this.removeUrlModelHeaders(modelId);
+      return;
+    }
+    try {
+      await Keychain.setGenericPassword('headers', JSON.stringify(headers), {
+        service: `${URL_HEADERS_KEYCHAIN_PREFIX}${modelId}`,
+      });
+    } catch (error) {
+      console.error('Failed to save model URL headers:', error);
+    }
+  };
+
+  private removeUrlModelHeaders = async (modelId: string): Promise<void> => {
+    try {
+      await Keychain.resetGenericPassword({
+        service: `${URL_HEADERS_KEYCHAIN_PREFIX}${modelId}`,
+      });
+    } catch (error) {
+      console.error('Failed to remove model URL headers:', error);
+    }
+  };
+
   updateModelChatTemplate = (
     modelId: string,
     newConfig: ChatTemplateConfig,
@@ -3002,8 +3796,12 @@ class ModelStore {
   };
 
   resetModels = async () => {
+    // URL imports are kept like local files: nothing would bring them back.
     const localModels = this.models.filter(
-      model => model.isLocal || model.origin === ModelOrigin.LOCAL,
+      model =>
+        model.isLocal ||
+        model.origin === ModelOrigin.LOCAL ||
+        model.origin === ModelOrigin.URL,
     );
     localModels.forEach(model => {
       const defaultSettings = getLocalModelDefaultSettings();
@@ -3169,6 +3967,30 @@ class ModelStore {
     });
   };
 
+  setKeepModelsWarm = (keepModelsWarm: boolean) => {
+    runInAction(() => {
+      this.keepModelsWarm = keepModelsWarm;
+    });
+    if (!keepModelsWarm) {
+      this.releaseWarmContexts();
+    }
+  };
+
+  setMaxWarmContexts = (maxWarmContexts: number) => {
+    runInAction(() => {
+      this.maxWarmContexts = maxWarmContexts;
+    });
+    const evicted = pickWarmContextEvictions(
+      this.warmContexts,
+      0,
+      Infinity,
+      maxWarmContexts,
+    );
+    if (evicted.length > 0) {
+      this.releaseWarmContexts(warm => evicted.includes(warm.modelId));
+    }
+  };
+
   /**
    * Updates stop tokens for a model based on its context and chat template
    * @param ctx - The LlamaContext instance
@@ -3331,17 +4153,18 @@ class ModelStore {
   };
 
   /**
-   * Returns available (i.e. downloaded models) models with projection models filtered out,
-   * plus remote models from configured servers.
+   * Returns available (i.e. downloaded models) models with projection models and
+   * LoRA adapters filtered out, plus remote models from configured servers.
    */
   get availableModels(): Model[] {
     const localAvailable = filterProjectionModels(
       this.models.filter(
         model =>
           // Include models that are either local or downloaded
-          model.isLocal ||
-          model.origin === ModelOrigin.LOCAL ||
-          model.isDownloaded,
+          (model.isLocal ||
+            model.origin === ModelOrigin.LOCAL ||
+            model.isDownloaded) &&
+          model.modelType !== ModelType.LORA,
       ),
     );
     return [...localAvailable, ...this.remoteModels];
@@ -3647,6 +4470,200 @@ class ModelStore {
     }
   };
 
+  /**
+   * Scans the models directory against the model list for space taken for
+   * nothing: GGUFs no model points to, leftovers of interrupted downloads,
+   * duplicate downloads, unused projection and draft models, and local models
+   * whose file is gone. A dry run: nothing is changed, reclaimStorage fixes
+   * the issues picked from the report.
+   */
+  scanStorage = async (): Promise<StorageReport> => {
+    const files = await this.listModelFiles();
+    const fileSizes = new Map(files.map(file => [file.path, file.size]));
+
+    const modelPaths = new Map<string, string[]>();
+    const pathOwners = new Map<string, Model>();
+    for (const model of this.models) {
+      if (model.origin === ModelOrigin.REMOTE) {
+        continue;
+      }
+      try {
+        const paths = await this.getModelFilePaths(model);
+        modelPaths.set(model.id, paths);
+        paths.forEach(path => pathOwners.set(path, model));
+      } catch (error) {
+        // A local model without a fullPath has no file to look for.
+        console.warn('[ModelStore] No file path for model:', model.id, error);
+      }
+    }
+    const sizeOf = (model: Model) =>
+      (modelPaths.get(model.id) ?? []).reduce(
+        (sum, path) => sum + (fileSizes.get(path) ?? 0),
+        0,
+      ) || model.size;
+
+    // Old revisions waiting for an update to finish
+    const updatingPaths = new Set(
+      [...this.replacedRevisions.values()].flatMap(revision =>
+        revision.files.map(file => file.previousPath),
+      ),
+    );
+
+    const issues: StorageIssue[] = [];
+    for (const file of files) {
+      if (RE_PARTIAL_DOWNLOAD.test(file.path)) {
+        const owner = pathOwners.get(
+          file.path.replace(RE_PARTIAL_DOWNLOAD, ''),
+        );
+        // Running and queued downloads resume from their partial file.
+        if (
+          owner &&
+          (downloadManager.isDownloading(owner.id) ||
+            downloadQueueStore.isQueued(owner.id))
+        ) {
+          continue;
+        }
+        issues.push({kind: 'partial', path: file.path, size: file.size});
+      } else if (
+        /\.gguf$/i.test(file.path) &&
+        !pathOwners.has(file.path) &&
+        !updatingPaths.has(file.path)
+      ) {
+        issues.push({kind: 'orphan', path: file.path, size: file.size});
+      }
+    }
+
+    const downloaded = this.models.filter(
+      m => m.isDownloaded && m.origin !== ModelOrigin.REMOTE,
+    );
+    // Models picked elsewhere in the app: a Pal's model and the one that
+    // embeds documents.
+    const referenced = new Set(
+      [
+        ...palStore.pals.flatMap(pal => [
+          pal.defaultModel?.id,
+          pal.promptGenerationModel?.id,
+        ]),
+        documentStore.embeddingModelId,
+      ].filter(Boolean),
+    );
+    const isInUse = (model: Model) =>
+      model.id === this.activeModelId ||
+      referenced.has(model.id) ||
+      (model.modelType === ModelType.PROJECTION &&
+        this.getDownloadedLLMsUsingProjectionModel(model.id).length > 0) ||
+      this.contextInitParams.selectedDraftModelId === model.id ||
+      downloaded.some(m => m.defaultDraftModel === model.id);
+
+    const duplicates = new Map<string, Model[]>();
+    for (const model of downloaded) {
+      const isDraft =
+        model.modelType === ModelType.DRAFT ||
+        (model.modelType !== ModelType.PROJECTION && isDraftOnlyModel(model));
+      if (
+        !isInUse(model) &&
+        (model.modelType === ModelType.PROJECTION || isDraft)
+      ) {
+        issues.push({
+          kind: isDraft ? 'unusedDraft' : 'unusedProjection',
+          modelId: model.id,
+          size: sizeOf(model),
+        });
+      } else if (model.hash) {
+        const hash = model.hash.toLowerCase();
+        duplicates.set(hash, [...(duplicates.get(hash) ?? []), model]);
+      }
+    }
+    for (const copies of duplicates.values()) {
+      const kept = copies.find(isInUse) ?? copies[0];
+      copies
+        .filter(model => model !== kept && !isInUse(model))
+        .forEach(model =>
+          issues.push({
+            kind: 'duplicate',
+            modelId: model.id,
+            size: sizeOf(model),
+            duplicateOf: kept.id,
+          }),
+        );
+    }
+
+    for (const model of this.models) {
+      if (!(model.isLocal || model.origin === ModelOrigin.LOCAL)) {
+        continue;
+      }
+      const paths = modelPaths.get(model.id) ?? [];
+      const exists = await Promise.all(paths.map(path => RNFS.exists(path)));
+      if (!exists.length || !exists.every(Boolean)) {
+        issues.push({kind: 'missing', modelId: model.id, size: 0});
+      }
+    }
+
+    return {
+      issues,
+      reclaimableBytes: issues.reduce((sum, issue) => sum + issue.size, 0),
+    };
+  };
+
+  /**
+   * Fixes issues picked from a scanStorage report: deletes their files or
+   * models, and drops local models whose file is gone from the list.
+   * @returns The bytes reclaimed
+   */
+  reclaimStorage = async (issues: StorageIssue[]): Promise<number> => {
+    let reclaimed = 0;
+    for (const issue of issues) {
+      try {
+        if (issue.path) {
+          await RNFS.unlink(issue.path);
+        } else {
+          const model = this.models.find(m => m.id === issue.modelId);
+          if (!model) {
+            continue;
+          }
+          if (issue.kind === 'missing') {
+            runInAction(() => {
+              this.models = this.models.filter(m => m !== model);
+            });
+          } else {
+            await this.deleteModel(model);
+          }
+        }
+        reclaimed += issue.size;
+      } catch (error) {
+        console.error('Failed to reclaim storage:', {issue, error});
+      }
+    }
+    return reclaimed;
+  };
+
+  // Every file under the models directory, plus the GGUFs the oldest preset
+  // downloads left directly in the documents directory.
+  private listModelFiles = async (): Promise<
+    {path: string; size: number}[]
+  > => {
+    const walk = async (dirPath: string, recursive: boolean) => {
+      const files: {path: string; size: number}[] = [];
+      if (!(await RNFS.exists(dirPath))) {
+        return files;
+      }
+      for (const item of await RNFS.readDir(dirPath)) {
+        if (!item.isDirectory()) {
+          files.push({path: item.path, size: Number(item.size)});
+        } else if (recursive) {
+          files.push(...(await walk(item.path, true)));
+        }
+      }
+      return files;
+    };
+
+    const legacyFiles = await walk(RNFS.DocumentDirectoryPath, false);
+    return [
+      ...(await walk(`${RNFS.DocumentDirectoryPath}/models`, true)),
+      ...legacyFiles.filter(file => /\.gguf$/i.test(file.path)),
+    ];
+  };
+
   /**
    * Set vision preference for a model
    * @param modelId The ID of the model
@@ -3852,6 +4869,199 @@ class ModelStore {
     }
   };
 
+  /**
+   * Compares the downloaded HF models against their repos and records the
+   * ones with a newer upload in modelUpdates. Runs at most once per
+   * MODEL_UPDATE_CHECK_INTERVAL_MS unless forced, and not at all offline.
+   */
+  checkForModelUpdates = async (force: boolean = false): Promise<void> => {
+    if (
+      !force &&
+      this.lastModelUpdateCheck !== undefined &&
+      Date.now() - this.lastModelUpdateCheck < MODEL_UPDATE_CHECK_INTERVAL_MS
+    ) {
+      return;
+    }
+    const candidates = this.models.filter(isUpdatableModel);
+    if (candidates.length === 0 || !(await checkConnectivity())) {
+      return;
+    }
+    runInAction(() => {
+      this.lastModelUpdateCheck = Date.now();
+    });
+
+    try {
+      const authToken = hfStore.shouldUseToken ? hfStore.hfToken : null;
+      const {updates, lastModified} = await findModelUpdates(
+        candidates,
+        authToken,
+      );
+      runInAction(() => {
+        // Remember the revision seen, so an unchanged file is not looked up
+        // again until the repo moves on.
+        for (const [modelId, seen] of Object.entries(lastModified)) {
+          const model = this.models.find(m => m.id === modelId);
+          if (model?.hfModel) {
+            model.hfModel = {...model.hfModel, lastModified: seen};
+          }
+        }
+        const kept = Object.values(this.modelUpdates).filter(update => {
+          const model = this.models.find(m => m.id === update.modelId);
+          return !!model && isUpdatableModel(model);
+        });
+        this.modelUpdates = Object.fromEntries(
+          [...kept, ...updates].map(update => [update.modelId, update]),
+        );
+      });
+    } catch (error) {
+      console.warn('[ModelStore] model update check failed:', error);
+    }
+  };
+
+  /**
+   * Replaces a downloaded model's file with the newer upload found by
+   * checkForModelUpdates. The model keeps its id, so Pals bound to it stay
+   * bound, and its chat template, stop words and completion settings are
+   * left as the user set them. The old files are set aside rather than
+   * deleted: they are dropped once the new revision is downloaded and
+   * verified, and put back if the download fails or is cancelled.
+   */
+  updateModel = async (modelId: string): Promise<void> => {
+    const model = this.models.find(m => m.id === modelId);
+    const update = this.modelUpdates[modelId];
+    if (!model || !update || this.replacedRevisions.has(modelId)) {
+      return;
+    }
+
+    // A loaded context still holds the old file open
+    const holdsModel = (id?: string, loras: LoraAdapterSetting[] = []) =>
+      id === modelId || loras.some(a => a.id === modelId);
+    await this.releaseWarmContexts(
+      warm =>
+        holdsModel(warm.modelId, warm.loraAdapters) ||
+        warm.projectionModelId === modelId,
+    );
+    if (
+      holdsModel(this.activeModelId, this.activeLoraAdapters) ||
+      this.activeProjectionModelId === modelId
+    ) {
+      await this.releaseContext(true);
+    }
+
+    const previous: ReplacedRevision = {
+      update,
+      fields: {
+        size: model.size,
+        params: model.params,
+        downloadUrl: model.downloadUrl,
+        hfModel: model.hfModel,
+        hfModelFile: model.hfModelFile,
+        shards: model.shards,
+        hash: model.hash,
+        ggufMetadata: model.ggufMetadata,
+      },
+      files: [],
+    };
+    try {
+      for (const path of await this.getModelFilePaths(model)) {
+        await downloadManager.discardPartialDownload(path);
+        if (await RNFS.exists(path)) {
+          const previousPath = previousRevisionPath(path);
+          await RNFS.moveFile(path, previousPath);
+          previous.files.push({path, previousPath});
+        }
+      }
+    } catch (error) {
+      console.error('Failed to set the outdated model file aside:', error);
+      await this.restoreRevisionFiles(previous);
+      return;
+    }
+
+    const latest = hfAsModel(update.hfModel, update.modelFile);
+    runInAction(() => {
+      model.size = latest.size;
+      model.params = latest.params || model.params;
+      model.downloadUrl = latest.downloadUrl;
+      model.hfModel = latest.hfModel;
+      model.hfModelFile = latest.hfModelFile;
+      model.shards = latest.shards;
+      model.hash = undefined;
+      model.ggufMetadata = undefined;
+      model.progress = 0;
+      model.isDownloaded = false;
+      delete this.modelUpdates[modelId];
+      this.replacedRevisions.set(modelId, previous);
+    });
+
+    try {
+      await this.checkSpaceAndDownload(modelId);
+    } catch {
+      // Already reported by the download path
+      await this.settleModelUpdate(modelId, false);
+    }
+  };
+
+  /**
+   * Ends an update started by updateModel once its download is over. A
+   * verified download drops the old revision's files; otherwise whatever
+   * the new revision left is deleted and the old revision put back, update
+   * offer included, so the user can try again.
+   */
+  private settleModelUpdate = async (
+    modelId: string,
+    verified: boolean,
+  ): Promise<void> => {
+    const previous = this.replacedRevisions.get(modelId);
+    if (!previous) {
+      return;
+    }
+    runInAction(() => {
+      this.replacedRevisions.delete(modelId);
+    });
+
+    const model = this.models.find(m => m.id === modelId);
+    if (verified || !model) {
+      for (const {previousPath} of previous.files) {
+        try {
+          await RNFS.unlink(previousPath);
+        } catch (error) {
+          console.error('Failed to delete outdated model file:', error);
+        }
+      }
+      return;
+    }
+
+    for (const path of await this.getModelFilePaths(model)) {
+      try {
+        if (await RNFS.exists(path)) {
+          await RNFS.unlink(path);
+        }
+        await downloadManager.discardPartialDownload(path);
+      } catch (error) {
+        console.error('Failed to delete incomplete model update:', error);
+      }
+    }
+    await this.restoreRevisionFiles(previous);
+    runInAction(() => {
+      Object.assign(model, previous.fields);
+      model.isDownloaded = previous.files.length > 0;
+      model.progress = model.isDownloaded ? 100 : 0;
+      this.modelUpdates[modelId] = previous.update;
+    });
+  };
+
+  private restoreRevisionFiles = async (
+    previous: ReplacedRevision,
+  ): Promise<void> => {
+    for (const {path, previousPath} of previous.files) {
+      try {
+        await RNFS.moveFile(previousPath, path);
+      } catch (error) {
+        console.error('Failed to restore model file:', error);
+      }
+    }
+  };
+
   /**
    * Fetches and updates model file details from HuggingFace.
    * This is used when we need to get the lfs.oid for integrity checks.
@@ -3876,6 +5086,16 @@ class ModelStore {
           }
         });
       }
+      runInAction(() => {
+        model.shards?.forEach(shard => {
+          const details = fileDetails.find(
+            file => file.path === shard.filename,
+          );
+          if (details?.lfs) {
+            shard.sha256 = details.lfs.oid;
+          }
+        });
+      });
     } catch (error) {
       console.error('Failed to fetch model file details:', error);
     }
@@ -3900,6 +5120,87 @@ class ModelStore {
     }
   };
 
+  /**
+   * Checks a finished download against the sha256 Hugging Face publishes for
+   * the file (its LFS oid), and each part of a split model against its own.
+   * On a mismatch the files are deleted and a corrupted download error is
+   * surfaced. Files without a published hash pass.
+   */
+  private verifyDownloadedModel = async (model: Model): Promise<boolean> => {
+    if (model.origin === ModelOrigin.HF && !model.hfModelFile?.lfs?.oid) {
+      await this.fetchAndUpdateModelFileDetails(model);
+    }
+    const expectedHash = model.hfModelFile?.lfs?.oid?.toLowerCase();
+    if (!expectedHash) {
+      return true;
+    }
+
+    try {
+      await this.updateModelHash(model.id, true);
+    } catch (error) {
+      // Not being able to hash is not evidence of corruption.
+      console.error('Failed to verify downloaded model:', error);
+      return true;
+    }
+
+    const actualHash = model.hash?.toLowerCase();
+    const mismatch =
+      actualHash && actualHash !== expectedHash
+        ? {expected: expectedHash, actual: actualHash}
+        : await this.findCorruptedShard(model);
+    if (!mismatch) {
+      return true;
+    }
+
+    console.error(`Checksum mismatch for downloaded model ${model.id}`);
+    for (const path of await this.getModelFilePaths(model)) {
+      try {
+        await RNFS.unlink(path);
+      } catch (error) {
+        console.error('Failed to delete corrupted model file:', error);
+      }
+    }
+    runInAction(() => {
+      model.progress = 0;
+      model.isDownloaded = false;
+      model.hash = undefined;
+      this.downloadError = createErrorState(
+        new DownloadCorruptedError(
+          model.id,
+          mismatch.expected,
+          mismatch.actual,
+        ),
+        'download',
+        'huggingface',
+        {modelId: model.id},
+      );
+    });
+    return false;
+  };
+
+  // Hashes the parts of a split model after the first, which the model hash
+  // covers, and returns the first that does not match.
+  private findCorruptedShard = async (
+    model: Model,
+  ): Promise<{expected: string; actual: string} | undefined> => {
+    const paths = await this.getModelFilePaths(model);
+    for (let index = 1; index < paths.length; index++) {
+      const expected = model.shards?.[index]?.sha256?.toLowerCase();
+      if (!expected) {
+        continue;
+      }
+      try {
+        const actual = (await getSHA256Hash(paths[index])).toLowerCase();
+        if (actual !== expected) {
+          return {expected, actual};
+        }
+      } catch (error) {
+        console.error('Failed to verify model part:', error);
+      }
+    }
+    return undefined;
+  };
+
   isModelAvailable = (modelId?: string): boolean => {
     if (!modelId) {
       return false;
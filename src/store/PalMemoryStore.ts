@@ -0,0 +1,174 @@
+import {makeAutoObservable, runInAction} from 'mobx';
+
+import {palMemoryRepository} from '../repositories/PalMemoryRepository';
+import {rankMemories} from '../services/memory';
+import type {PalMemoryEntry} from '../types/pal';
+
+/** Longest memory accepted; memories are facts, not documents. */
+export const MAX_MEMORY_CHARS = 500;
+
+/** Memories one Pal may keep, so the store never grows unbounded. */
+export const MAX_MEMORIES_PER_PAL = 200;
+
+/** A memory as written to a Pal export file. */
+export interface PalMemoryExport {
+  content: string;
+  createdAt?: number;
+}
+
+const normalize = (content: string): string =>
+  content.replace(/\s+/g, ' ').trim();
+
+/**
+ * Long-term memory of each Pal, written by the `remember` talent and
+ * editable in Settings. Kept in WatermelonDB and mirrored here so prompt
+ * assembly can read it synchronously.
+ */
+class PalMemoryStore {
+  memories: PalMemoryEntry[] = [];
+
+  constructor() {
+    makeAutoObservable(this);
+    this.loadMemories();
+  }
+
+  async loadMemories(): Promise<void> {
+    try {
+      const memories = await palMemoryRepository.getMemories();
+      runInAction(() => {
+        this.memories = memories;
+      });
+    } catch (error) {
+      console.error('Failed to load Pal memories:', error);
+    }
+  }
+
+  /** A Pal's memories, oldest first. */
+  memoriesFor(palId: string): PalMemoryEntry[] {
+    return this.memories.filter(memory => memory.palId === palId);
+  }
+
+  /** Memories of `palId` matching `query`, most relevant first. */
+  search(palId: string, query: string, limit: number): PalMemoryEntry[] {
+    return rankMemories(this.memoriesFor(palId), query, limit);
+  }
+
+  /**
+   * Save `content` for a Pal. Saving a memory it already has returns the
+   * existing one instead of a duplicate.
+   */
+  async remember(palId: string, content: string): Promise<PalMemoryEntry> {
+    const text = this.validate(content);
+    const existing = this.memoriesFor(palId).find(
+      memory => memory.content.toLowerCase() === text.toLowerCase(),
+    );
+    if (existing) {
+      return existing;
+    }
+    if (this.memoriesFor(palId).length >= MAX_MEMORIES_PER_PAL) {
+      throw new Error(
+        `Memory is full (${MAX_MEMORIES_PER_PAL} entries); forget something first`,
+      );
+    }
+    const [memory] = await palMemoryRepository.addMemories(palId, [
+      {content: text},
+    ]);
+    runInAction(() => {
+      this.memories.push(memory);
+    });
+    return memory;
+  }
+
+  async updateMemory(id: string, content: string): Promise<void> {
+    const text = this.validate(content);
+    const updated = await palMemoryRepository.updateMemory(id, text);
+    runInAction(() => {
+      const index = this.memories.findIndex(memory => memory.id === id);
+      if (index !== -1) {
+        this.memories[index] = updated;
+      }
+    });
+  }
+
+  async forget(id: string): Promise<void> {
+    await palMemoryRepository.deleteMemory(id);
+    runInAction(() => {
+      this.memories = this.memories.filter(memory => memory.id !== id);
+    });
+  }
+
+  async forgetAll(palId: string): Promise<void> {
+    await palMemoryRepository.deletePalMemories(palId);
+    runInAction(() => {
+      this.memories = this.memories.filter(memory => memory.palId !== palId);
+    });
+  }
+
+  exportMemories(palId: string): PalMemoryExport[] {
+    return this.memoriesFor(palId).map(({content, createdAt}) => ({
+      content,
+      createdAt,
+    }));
+  }
+
+  /**
+   * Add memories from an export file to a Pal. Malformed, oversized and
+   * duplicate entries are skipped, as is anything past the per-Pal limit.
+   * Returns how many were added.
+   */
+  async importMemories(palId: string, entries: unknown[]): Promise<number> {
+    const known = new Set(
+      this.memoriesFor(palId).map(memory => memory.content.toLowerCase()),
+    );
+    const room = MAX_MEMORIES_PER_PAL - known.size;
+    const accepted: PalMemoryExport[] = [];
+    for (const entry of entries) {
+      const content =
+        typeof (entry as PalMemoryExport)?.content === 'string'
+          ? normalize((entry as PalMemoryExport).content)
+          : '';
+      if (
+        !content ||
+        content.length > MAX_MEMORY_CHARS ||
+        known.has(content.toLowerCase())
+      ) {
+        console.warn('Skipping invalid or duplicate Pal memory on import');
+        continue;
+      }
+      if (accepted.length >= room) {
+        console.warn('Pal memory is full; skipping remaining imports');
+        break;
+      }
+      const createdAt = (entry as PalMemoryExport).createdAt;
+      known.add(content.toLowerCase());
+      accepted.push({
+        content,
+        createdAt: typeof createdAt === 'number' ? createdAt : undefined,
+      });
+    }
+    if (accepted.length === 0) {
+      return 0;
+    }
+    const added = await palMemoryRepository.addMemories(palId, accepted);
+    runInAction(() => {
+      this.memories.push(...added);
+    });
+    return added.length;
+  }
+
+  private validate(content: string): string {
+    const text = normalize(content);
+    if (!text) {
+      throw new Error('Memory is empty');
+    }
+    if (text.length > MAX_MEMORY_CHARS) {
+      throw new Error(
+        `Memory is too long (max ${MAX_MEMORY_CHARS} characters)`,
+      );
+    }
+    return text;
+  }
+}
+
+export const palMemoryStore = new PalMemoryStore();
+export {PalMemoryStore};
@@ -30,6 +30,7 @@ import {isUSStorefront} from '../utils/region';
 import NativeExternalContentLink from '../specs/NativeExternalContentLink';
 import {palsHubService} from '../services';
 import {registerDefaultTalents} from '../services/talents';
+import {palMemoryStore} from './PalMemoryStore';
 import {LOOKIE_DEFAULT_MODEL} from './builtinPalModels';
 import {chatTemplates} from '../utils/chat';
 import {defaultCompletionParams} from '../utils/completionSettingsVersions';
@@ -228,6 +229,12 @@ class PalStore {
           }
         }
 
+        try {
+          await palMemoryStore.forgetAll(id);
+        } catch (memoryError) {
+          console.warn('Failed to delete pal memories:', memoryError);
+        }
+
         runInAction(() => {
           if (palIndex !== -1) {
             this.pals.splice(palIndex, 1);
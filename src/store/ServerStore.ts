@@ -11,7 +11,12 @@ import {
   PROPS_TIMEOUT_MS,
   RemoteModelInfo,
 } from '../api/openai';
-import {RemoteModelCaps, ServerConfig} from '../utils/types';
+import {
+  ModelGroup,
+  RemoteModelCaps,
+  ServerConfig,
+  ServerHealth,
+} from '../utils/types';
 import {ReasoningCapability} from '../utils/reasoningCapability';
 import {deriveListCapsMap} from '../utils/listCaps';
 import type {ListDerivedCaps} from '../utils/listCaps';
@@ -21,6 +26,9 @@ const KEYCHAIN_SERVICE_PREFIX = 'pocketpal-server-';
 /** Minimum interval between auto-fetch cycles (ms) */
 const FETCH_THROTTLE_MS = 60000;
 
+/** How long a server health check answers for before it is re-run (ms) */
+const HEALTH_TTL_MS = 30000;
+
 /**
  * The capability fields of a `RemoteModelCaps` entry — everything except the
  * provenance the entry carries. Enumerated once so the usability check and the
@@ -51,6 +59,10 @@ class ServerStore {
   // Server-reported capabilities keyed by the same full model id. /props
   // answers per model on a multi-model server, so caps cannot live per server.
   remoteCaps: Record<string, RemoteModelCaps> = {};
+  // Failover backends keyed by the full id of the remote model they extend.
+  modelGroups: Record<string, ModelGroup> = {};
+  // Last health check per server id. Not persisted.
+  serverHealth: Record<string, ServerHealth> = {};
   serverModels: Map<string, RemoteModelInfo[]> = observable.map();
   userSelectedModels: Array<{serverId: string; remoteModelId: string}> = [];
   isLoading = false;
@@ -73,6 +85,7 @@ class ServerStore {
         'userSelectedModels',
         'remoteReasoning',
         'remoteCaps',
+        'modelGroups',
       ],
       storage: AsyncStorage,
     }).then(() => {
@@ -116,6 +129,7 @@ class ServerStore {
     if (invalidatesDiscovery) {
       this.remoteCaps = dropServerEntries(this.remoteCaps, id);
       this.serverModels.delete(id);
+      delete this.serverHealth[id];
     }
   }
 
@@ -128,6 +142,17 @@ class ServerStore {
     );
     this.remoteReasoning = dropServerEntries(this.remoteReasoning, id);
     this.remoteCaps = dropServerEntries(this.remoteCaps, id);
+    // Groups extending this server's models go; other groups lose it as a
+    // backend
+    this.modelGroups = Object.fromEntries(
+      Object.entries(dropServerEntries(this.modelGroups, id)).map(
+        ([modelId, group]) => [
+          modelId,
+          {...group, backends: group.backends.filter(b => b.serverId !== id)},
+        ],
+      ),
+    );
+    delete this.serverHealth[id];
     // Clean up API key from keychain
     this.removeApiKey(id);
   }
@@ -145,6 +170,23 @@ class ServerStore {
     this.userSelectedModels = this.userSelectedModels.filter(
       m => !(m.serverId === serverId && m.remoteModelId === remoteModelId),
     );
+    delete this.modelGroups[`${serverId}/${remoteModelId}`];
+  }
+
+  /**
+   * Sets the failover backends of a remote model. A group with neither a
+   * backend nor a local fallback routes nothing, so it is removed instead.
+   */
+  setModelGroup(modelId: string, group: ModelGroup): void {
+    if (group.backends.length === 0 && !group.localModelId) {
+      this.removeModelGroup(modelId);
+      return;
+    }
+    this.modelGroups[modelId] = group;
+  }
+
+  removeModelGroup(modelId: string): void {
+    delete this.modelGroups[modelId];
   }
 
   /**
@@ -260,6 +302,7 @@ class ServerStore {
         server.url,
         apiKey,
         server.requestTimeoutMs,
+        server.serverType,
       );
 
       runInAction(() => {
@@ -411,7 +454,88 @@ class ServerStore {
     }
 
     const apiKey = await this.getApiKey(serverId);
-    return testConnection(server.url, apiKey, server.requestTimeoutMs);
+    return testConnection(
+      server.url,
+      apiKey,
+      server.requestTimeoutMs,
+      server.serverType,
+    );
+  }
+
+  /**
+   * Health check behind model-group routing; a result younger than
+   * HEALTH_TTL_MS is returned as is unless `force`. Never rejects.
+   *
+   * On llama.cpp, a /props answer that describes `remoteModelId` is enough:
+   * it is the cheaper request and it proves the model is there. A router
+   * placeholder or any other server type falls through to testConnection,
+   * and only that request's round trip counts as the server's latency.
+   * Bounded by PROPS_TIMEOUT_MS like the caps probe, whatever the server's
+   * own timeout.
+   */
+  async checkServerHealth(
+    serverId: string,
+    remoteModelId?: string,
+    force = false,
+  ): Promise<ServerHealth> {
+    const cached = this.serverHealth[serverId];
+    if (!force && cached && Date.now() - cached.checkedAt < HEALTH_TTL_MS) {
+      return cached;
+    }
+    const server = this.servers.find(s => s.id === serverId);
+    if (!server) {
+      return {ok: false, checkedAt: Date.now()};
+    }
+
+    const checkedUrl = server.url;
+    const timeoutMs = Math.min(
+      server.requestTimeoutMs ?? PROPS_TIMEOUT_MS,
+      PROPS_TIMEOUT_MS,
+    );
+    const apiKey = await this.getApiKey(serverId);
+
+    let startedAt = Date.now();
+    let ok = false;
+    if (server.serverType === 'llama.cpp' && remoteModelId) {
+      const caps = await fetchServerProps(
+        checkedUrl,
+        apiKey,
+        timeoutMs,
+        remoteModelId,
+      );
+      ok = CAPS_FIELDS.some(f => caps[f] !== undefined);
+    }
+    if (!ok) {
+      startedAt = Date.now();
+      const result = await testConnection(
+        checkedUrl,
+        apiKey,
+        timeoutMs,
+        server.serverType,
+      );
+      ok = result.ok;
+    }
+
+    const checkedAt = Date.now();
+    const health: ServerHealth = ok
+      ? {ok, latencyMs: checkedAt - startedAt, checkedAt}
+      : {ok, checkedAt};
+    runInAction(() => {
+      // Same reasoning as the caps probe: an answer about a url the server
+      // no longer points at must not be recorded against it.
+      if (this.servers.find(s => s.id === serverId)?.url === checkedUrl) {
+        this.serverHealth[serverId] = health;
+      }
+    });
+    return health;
+  }
+
+  /**
+   * A turn on this server failed before it streamed anything. Routing puts
+   * the server last until a check says otherwise.
+   */
+  recordServerFailure(serverId: string): void {
+    this.serverHealth[serverId] = {ok: false, checkedAt: Date.now()};
   }
 
   acknowledgePrivacyNotice(): void {
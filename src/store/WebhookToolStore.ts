@@ -0,0 +1,243 @@
+import {makeAutoObservable, runInAction} from 'mobx';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {makePersistable} from 'mobx-persist-store';
+import * as Keychain from 'react-native-keychain';
+
+import {
+  registerDefaultTalents,
+  talentRegistry,
+  validateWebhookTool,
+  WebhookToolEngine,
+} from '../services/talents';
+import {WebhookToolConfig} from '../utils/types';
+
+const KEYCHAIN_SERVICE_PREFIX = 'pocketpal-webhook-';
+
+/** A tool as it travels in a Pal export: no id, no secret values. */
+export type WebhookToolExport = Omit<WebhookToolConfig, 'id'>;
+
+class WebhookToolStore {
+  tools: WebhookToolConfig[] = [];
+
+  constructor() {
+    makeAutoObservable(this);
+
+    makePersistable(this, {
+      name: 'WebhookToolStore',
+      properties: ['tools'],
+      storage: AsyncStorage,
+    }).then(() => {
+      this.registerAll();
+    });
+  }
+
+  /**
+   * Whether a tool may use `name`: not taken by another webhook tool, a
+   * built-in or an MCP tool.
+   */
+  isNameAvailable(name: string, exceptId?: string): boolean {
+    registerDefaultTalents();
+    const owner = this.tools.find(t => t.name === name);
+    if (owner) {
+      return owner.id === exceptId;
+    }
+    return !talentRegistry.has(name);
+  }
+
+  async addTool(
+    config: WebhookToolExport,
+    secrets: Record<string, string> = {},
+  ): Promise<string> {
+    if (!this.isNameAvailable(config.name)) {
+      throw new Error(`A talent named "${config.name}" already exists`);
+    }
+    const id = `webhook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    await this.setSecrets(id, secrets);
+    const tool = {...config, id};
+    runInAction(() => {
+      this.tools.push(tool);
+    });
+    this.registerTool(tool);
+    return id;
+  }
+
+  /** `secrets` replaces every stored secret value when given. */
+  async updateTool(
+    id: string,
+    updates: Partial<WebhookToolExport>,
+    secrets?: Record<string, string>,
+  ): Promise<void> {
+    const tool = this.tools.find(t => t.id === id);
+    if (!tool) {
+      return;
+    }
+    if (updates.name && !this.isNameAvailable(updates.name, id)) {
+      throw new Error(`A talent named "${updates.name}" already exists`);
+    }
+    if (secrets) {
+      await this.setSecrets(id, secrets);
+    }
+    this.unregisterTool(tool.name);
+    runInAction(() => {
+      Object.assign(tool, updates);
+    });
+    this.registerTool(tool);
+  }
+
+  async removeTool(id: string): Promise<void> {
+    const tool = this.tools.find(t => t.id === id);
+    if (!tool) {
+      return;
+    }
+    this.unregisterTool(tool.name);
+    runInAction(() => {
+      this.tools = this.tools.filter(t => t.id !== id);
+    });
+    await this.removeSecrets(id);
+  }
+
+  /** Definitions of the tools among `talentNames`, ready to export. */
+  exportTools(talentNames: string[]): WebhookToolExport[] {
+    return this.tools
+      .filter(tool => talentNames.includes(tool.name))
+      .map(({id: _id, ...tool}) => ({
+        ...tool,
+        headers: tool.headers.map(header =>
+          header.secret ? {name: header.name, secret: true} : header,
+        ),
+      }));
+  }
+
+  /**
+   * The tools of an imported Pal that can be added, in the form they would
+   * be stored. A name already in use keeps its local definition; invalid
+   * entries are skipped. Secret headers arrive without values, so the user
+   * fills them in under Settings.
+   */
+  importableTools(tools: WebhookToolExport[]): WebhookToolExport[] {
+    const importable: WebhookToolExport[] = [];
+    for (const raw of tools) {
+      const tool: WebhookToolExport = {
+        name: raw?.name,
+        description:
+          typeof raw?.description === 'string' ? raw.description : '',
+        parameters: raw?.parameters,
+        urlTemplate:
+          typeof raw?.urlTemplate === 'string' ? raw.urlTemplate : '',
+        method: raw?.method,
+        headers: (Array.isArray(raw?.headers) ? raw.headers : [])
+          .filter(header => typeof header?.name === 'string')
+          .map(header =>
+            header.secret
+              ? {name: header.name, secret: true}
+              : {name: header.name, value: String(header.value ?? '')},
+          ),
+        responsePath:
+          typeof raw?.responsePath === 'string' ? raw.responsePath : undefined,
+      };
+      const validMethod = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(
+        tool.method,
+      );
+      if (
+        typeof tool.name !== 'string' ||
+        !validMethod ||
+        validateWebhookTool(tool) ||
+        !this.isNameAvailable(tool.name) ||
+        importable.some(t => t.name === tool.name)
+      ) {
+        console.warn(`[webhook] skipping imported tool "${raw?.name}"`);
+        continue;
+      }
+      importable.push(tool);
+    }
+    return importable;
+  }
+
+  /**
+   * Add the importable tools of an imported Pal, all or none: a failure
+   * removes the ones already added. Returns how many tools were added.
+   */
+  async importTools(tools: WebhookToolExport[]): Promise<number> {
+    const added: string[] = [];
+    try {
+      for (const tool of this.importableTools(tools)) {
+        added.push(await this.addTool(tool));
+      }
+    } catch (error) {
+      for (const id of added) {
+        await this.removeTool(id);
+      }
+      throw error;
+    }
+    return added.length;
+  }
+
+  // Secret header values (Keychain), one JSON entry per tool
+  async setSecrets(
+    toolId: string,
+    secrets: Record<string, string>,
+  ): Promise<void> {
+    if (Object.keys(secrets).length === 0) {
+      await this.removeSecrets(toolId);
+      return;
+    }
+    try {
+      await Keychain.setGenericPassword('headers', JSON.stringify(secrets), {
+        service: `${KEYCHAIN_SERVICE_PREFIX}${toolId}`,
+      });
+    } catch (error) {
+      console.error('Failed to save webhook secrets:', error);
+    }
+  }
+
+  async getSecrets(toolId: string): Promise<Record<string, string>> {
+    try {
+      const credentials = await Keychain.getGenericPassword({
+        service: `${KEYCHAIN_SERVICE_PREFIX}${toolId}`,
+      });
+      return credentials ? JSON.parse(credentials.password) : {};
+    } catch (error) {
+      console.error('Failed to load webhook secrets:', error);
+      return {};
+    }
+  }
+
+  async removeSecrets(toolId: string): Promise<void> {
+    try {
+      await Keychain.resetGenericPassword({
+        service: `${KEYCHAIN_SERVICE_PREFIX}${toolId}`,
+      });
+    } catch (error) {
+      console.error('Failed to remove webhook secrets:', error);
+    }
+  }
+
+  /** Register every configured tool, after the built-ins. */
+  registerAll(): void {
+    registerDefaultTalents();
+    this.tools.forEach(tool => this.registerTool(tool));
+  }
+
+  private registerTool(tool: WebhookToolConfig): void {
+    const existing = talentRegistry.get(tool.name);
+    if (existing && !(existing instanceof WebhookToolEngine)) {
+      console.warn(
+        `[webhook] not registering "${tool.name}": the name is already taken`,
+      );
+      return;
+    }
+    talentRegistry.register(
+      new WebhookToolEngine(tool, () => this.getSecrets(tool.id)),
+    );
+  }
+
+  /** Leaves a same-named built-in or MCP tool alone. */
+  private unregisterTool(name: string): void {
+    if (talentRegistry.get(name) instanceof WebhookToolEngine) {
+      talentRegistry.unregister(name);
+    }
+  }
+}
+
+export const webhookToolStore = new WebhookToolStore();
+export {WebhookToolStore};
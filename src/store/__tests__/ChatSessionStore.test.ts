@@ -18,6 +18,7 @@ jest.spyOn(chatSessionRepository, 'deleteSession');
 jest.spyOn(chatSessionRepository, 'deleteSessions');
 jest.spyOn(chatSessionRepository, 'exportSessions');
 jest.spyOn(chatSessionRepository, 'addMessageToSession');
+jest.spyOn(chatSessionRepository, 'deleteMessage');
 jest.spyOn(chatSessionRepository, 'updateMessage');
 jest.spyOn(chatSessionRepository, 'updateSessionTitle');
 jest.spyOn(chatSessionRepository, 'updateSessionCompletionSettings');
@@ -225,6 +226,28 @@ describe('chatSessionStore', () => {
       expect(chatSessionStore.sessions[0].messages.length).toBe(1);
       expect(chatSessionStore.sessions[0].messages[0]).toEqual(mockMessage);
     });
+
+    it('links a new message to the newest message on the active path', async () => {
+      chatSessionStore.sessions = [
+        {
+          id: 'session1',
+          title: 'Session 1',
+          date: new Date().toISOString(),
+          messages: [{...mockMessage, id: 'previous'}],
+          completionSettings: defaultCompletionSettings,
+          settingsSource: 'pal',
+        },
+      ];
+      chatSessionStore.activeSessionId = 'session1';
+      const reply = {...mockMessage, id: ''};
+
+      await chatSessionStore.addMessageToCurrentSession(reply);
+
+      expect(chatSessionRepository.addMessageToSession).toHaveBeenCalledWith(
+        'session1',
+        expect.objectContaining({parentId: 'previous'}),
+      );
+    });
   });
 
   describe('updateMessage', () => {
@@ -738,6 +761,39 @@ describe('chatSessionStore', () => {
     });
   });
 
+  describe('tool approval', () => {
+    it('resolves the pending request with the user answer', async () => {
+      const answer = chatSessionStore.requestToolApproval('m1', 'c1');
+      expect(chatSessionStore.pendingToolApproval).toEqual({
+        messageId: 'm1',
+        callId: 'c1',
+      });
+
+      chatSessionStore.answerToolApproval('c1', true);
+      await expect(answer).resolves.toBe(true);
+      expect(chatSessionStore.pendingToolApproval).toBeNull();
+    });
+
+    it('ignores answers for a call that is not pending', async () => {
+      const answer = chatSessionStore.requestToolApproval('m1', 'c1');
+      chatSessionStore.answerToolApproval('other', true);
+      expect(chatSessionStore.pendingToolApproval?.callId).toBe('c1');
+
+      chatSessionStore.cancelToolApproval();
+      await expect(answer).resolves.toBe(false);
+      expect(chatSessionStore.pendingToolApproval).toBeNull();
+    });
+
+    it('a new request denies the one still open', async () => {
+      const first = chatSessionStore.requestToolApproval('m1', 'c1');
+      const second = chatSessionStore.requestToolApproval('m1', 'c2');
+      await expect(first).resolves.toBe(false);
+
+      chatSessionStore.answerToolApproval('c2', true);
+      await expect(second).resolves.toBe(true);
+    });
+  });
+
   describe('updateSessionTitleBySessionId', () => {
     it('updates session title by ID', async () => {
       const session = {
@@ -995,6 +1051,176 @@ describe('chatSessionStore', () => {
     });
   });
 
+  describe('branches', () => {
+    const message = (
+      id: string,
+      parentId: string | undefined,
+      createdAt: number,
+    ): MessageType.Text => ({
+      id,
+      parentId,
+      createdAt,
+      text: id,
+      type: 'text',
+      author: {id: 'user1'},
+    });
+
+    // ask ─ reply-a
+    //     └ reply-b ─ follow-up
+    const ask = message('ask', undefined, 1);
+    const replyA = message('reply-a', 'ask', 2);
+    const replyB = message('reply-b', 'ask', 3);
+    const followUp = message('follow-up', 'reply-b', 4);
+
+    beforeEach(() => {
+      chatSessionStore.sessions = [
+        {
+          id: 'session1',
+          title: 'Session 1',
+          date: new Date().toISOString(),
+          messages: [followUp, replyB, ask],
+          branchMessages: [replyA],
+          completionSettings: defaultCompletionSettings,
+          settingsSource: 'pal',
+        },
+      ];
+      chatSessionStore.activeSessionId = 'session1';
+      chatSessionStore.isGenerating = false;
+    });
+
+    const shown = () =>
+      chatSessionStore.sessions[0].messages.map(msg => msg.id);
+
+    it('numbers the alternate versions on the active path', () => {
+      const positions = chatSessionStore.activeBranchPositions;
+      expect(positions.get('reply-b')).toEqual({index: 1, count: 2});
+      expect(positions.has('ask')).toBe(false);
+      expect(positions.has('follow-up')).toBe(false);
+    });
+
+    it('sets a message and everything after it aside without deleting', () => {
+      chatSessionStore.lastCompletionResult = {
+        used: 4096,
+        contextFull: true,
+        isRemote: false,
+      };
+
+      chatSessionStore.branchFrom('reply-b');
+
+      expect(shown()).toEqual(['ask']);
+      expect(
+        chatSessionStore.sessions[0].branchMessages?.map(msg => msg.id),
+      ).toEqual(['follow-up', 'reply-b', 'reply-a']);
+      expect(chatSessionRepository.deleteMessage).not.toHaveBeenCalled();
+      expect(chatSessionStore.lastCompletionResult).toBeUndefined();
+    });
+
+    it('switches to a sibling and follows it to its newest reply', () => {
+      chatSessionStore.switchBranch('reply-b', -1);
+      expect(shown()).toEqual(['reply-a', 'ask']);
+
+      chatSessionStore.switchBranch('reply-a', 1);
+      expect(shown()).toEqual(['follow-up', 'reply-b', 'ask']);
+    });
+
+    it('does not switch past the last sibling or while generating', () => {
+      chatSessionStore.switchBranch('reply-b', 1);
+      expect(shown()).toEqual(['follow-up', 'reply-b', 'ask']);
+
+      chatSessionStore.isGenerating = true;
+      chatSessionStore.switchBranch('reply-b', -1);
+      expect(shown()).toEqual(['follow-up', 'reply-b', 'ask']);
+    });
+
+    it('opens a search result on another branch and focuses it', async () => {
+      chatSessionStore.sessions[0].messagesLoaded = true;
+
+      await chatSessionStore.openMessage('session1', 'reply-a');
+
+      expect(shown()).toEqual(['reply-a', 'ask']);
+      expect(chatSessionStore.focusedMessageId).toBe('reply-a');
+
+      chatSessionStore.clearFocusedMessage();
+      expect(chatSessionStore.focusedMessageId).toBeNull();
+    });
+
+    it('keeps the shown branch when a search result is on it', async () => {
+      chatSessionStore.sessions[0].messagesLoaded = true;
+
+      await chatSessionStore.openMessage('session1', 'ask');
+
+      expect(shown()).toEqual(['follow-up', 'reply-b', 'ask']);
+      expect(chatSessionStore.focusedMessageId).toBe('ask');
+    });
+
+    it('keeps the edited message as a branch when committing an edit', async () => {
+      chatSessionStore.enterEditMode('reply-b');
+
+      await chatSessionStore.commitEdit();
+
+      expect(chatSessionStore.isEditMode).toBe(false);
+      expect(shown()).toEqual(['ask']);
+      expect(chatSessionRepository.deleteMessage).not.toHaveBeenCalled();
+    });
+
+    it('removes every branch below a removed message', async () => {
+      (chatSessionRepository.getSessionById as jest.Mock).mockResolvedValueOnce(
+        {messages: []},
+      );
+
+      await chatSessionStore.removeMessagesFromId('ask', true);
+
+      const deleted = (
+        chatSessionRepository.deleteMessage as jest.Mock
+      ).mock.calls.map(([id]) => id);
+      expect(deleted.sort()).toEqual(
+        ['ask', 'follow-up', 'reply-a', 'reply-b'].sort(),
+      );
+    });
+  });
+
+  describe('contextSummaryBoundaryId', () => {
+    const text = (id: string, metadata?: Record<string, any>) =>
+      ({
+        id,
+        createdAt: 0,
+        text: id,
+        type: 'text',
+        author: {id: 'user1'},
+        metadata,
+      }) as MessageType.Text;
+
+    const withMessages = (messages: MessageType.Any[]) => {
+      chatSessionStore.sessions = [
+        {
+          id: 'session1',
+          title: 'Session 1',
+          date: new Date().toISOString(),
+          messages,
+          completionSettings: defaultCompletionSettings,
+          settingsSource: 'pal',
+        },
+      ];
+      chatSessionStore.activeSessionId = 'session1';
+    };
+
+    it('points at the newest message the latest summary covers', () => {
+      withMessages([
+        text('new'),
+        text('s2', {contextSummary: {throughId: 'm2'}}),
+        text('m2'),
+        text('s1', {contextSummary: {throughId: 'm1'}}),
+        text('m1'),
+      ]);
+      expect(chatSessionStore.contextSummaryBoundaryId).toBe('m2');
+    });
+
+    it('is undefined without a summary', () => {
+      withMessages([text('m2'), text('m1')]);
+      expect(chatSessionStore.contextSummaryBoundaryId).toBeUndefined();
+    });
+  });
+
   describe('removeMessagesFromId', () => {
     const mockMessage2 = {
       id: 'message2',
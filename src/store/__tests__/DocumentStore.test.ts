@@ -0,0 +1,232 @@
+import {runInAction} from 'mobx';
+import {initLlama} from 'llama.rn';
+import * as RNFS from '@dr.pogodin/react-native-fs';
+
+jest.mock('mobx-persist-store', () => ({
+  makePersistable: jest.fn().mockReturnValue(Promise.resolve()),
+}));
+
+jest.mock('../../repositories/DocumentRepository', () => ({
+  documentRepository: {
+    getDocuments: jest.fn().mockResolvedValue([]),
+    addDocument: jest.fn(),
+    replaceChunks: jest.fn().mockResolvedValue(undefined),
+    getChunkTexts: jest.fn(),
+    getChunks: jest.fn(),
+    deleteDocument: jest.fn().mockResolvedValue(undefined),
+    deleteCollection: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import {documentStore} from '../DocumentStore';
+import {documentRepository} from '../../repositories/DocumentRepository';
+import {modelStore} from '..';
+import {downloadedModel} from '../../../jest/fixtures/models';
+
+const repo = documentRepository as jest.Mocked<typeof documentRepository>;
+
+// Texts mentioning "tea" point one way, everything else the other.
+const embedding = jest.fn(async (text: string) => ({
+  embedding: /tea/i.test(text) ? [1, 0] : [0, 1],
+}));
+
+describe('DocumentStore', () => {
+  let collectionId: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (initLlama as jest.Mock).mockResolvedValue({
+      embedding,
+      release: jest.fn().mockResolvedValue(undefined),
+    });
+    runInAction(() => {
+      modelStore.models = [downloadedModel];
+      documentStore.collections = [];
+      documentStore.documents = [];
+    });
+    documentStore.setEmbeddingModel(downloadedModel.id);
+    collectionId = documentStore.createCollection(' Notes ');
+    repo.addDocument.mockImplementation(async (doc, chunks) => ({
+      ...doc,
+      id: 'doc-1',
+      chunkCount: chunks.length,
+      createdAt: 1,
+    }));
+  });
+
+  it('creates and renames collections', () => {
+    expect(documentStore.collections).toEqual([
+      {id: collectionId, name: 'Notes', createdAt: expect.any(Number)},
+    ]);
+
+    documentStore.renameCollection(collectionId, 'Work');
+
+    expect(documentStore.collections[0].name).toBe('Work');
+  });
+
+  it('chunks, embeds and stores an added document', async () => {
+    const document = await documentStore.addDocument(collectionId, {
+      title: 'Drinks',
+      text: 'Green tea is steamed.\n\nCoffee is roasted.',
+    });
+
+    expect(initLlama).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: `/mock/path/${downloadedModel.filename}`,
+        embedding: true,
+      }),
+    );
+    expect(repo.addDocument).toHaveBeenCalledWith(
+      {
+        collectionId,
+        title: 'Drinks',
+        source: undefined,
+        charCount: 41,
+        embeddingModel: downloadedModel.id,
+      },
+      [
+        {
+          text: 'Green tea is steamed.\n\nCoffee is roasted.',
+          embedding: [1, 0],
+        },
+      ],
+    );
+    expect(documentStore.documents).toEqual([document]);
+    expect(documentStore.indexing).toBeNull();
+  });
+
+  it('imports a text file under its name without the extension', async () => {
+    (RNFS.readFile as jest.Mock).mockResolvedValueOnce('Oolong tea.');
+
+    await documentStore.importFile(collectionId, {
+      uri: 'file:///notes.md',
+      name: 'notes.md',
+    });
+
+    expect(repo.addDocument).toHaveBeenCalledWith(
+      expect.objectContaining({title: 'notes', source: 'notes.md'}),
+      expect.any(Array),
+    );
+  });
+
+  it.each([
+    ['an unknown collection', 'missing', 'text', 'Collection not found'],
+    ['blank text', undefined, '  \n ', 'The document has no text'],
+  ])('rejects %s', async (_label, id, text, message) => {
+    await expect(
+      documentStore.addDocument(id ?? collectionId, {title: 't', text}),
+    ).rejects.toThrow(message);
+    expect(repo.addDocument).not.toHaveBeenCalled();
+  });
+
+  it('requires an embedding model', async () => {
+    documentStore.setEmbeddingModel(undefined);
+
+    await expect(
+      documentStore.addDocument(collectionId, {title: 't', text: 'tea'}),
+    ).rejects.toThrow('No embedding model selected');
+  });
+
+  it('ranks passages from the requested collections only', async () => {
+    runInAction(() => {
+      documentStore.documents = [
+        {
+          id: 'doc-1',
+          collectionId,
+          title: 'Drinks',
+          charCount: 10,
+          chunkCount: 2,
+          embeddingModel: downloadedModel.id,
+          createdAt: 1,
+        },
+      ];
+    });
+    repo.getChunks.mockResolvedValue([
+      {
+        documentId: 'doc-1',
+        collectionId,
+        position: 0,
+        text: 'Coffee',
+        embedding: [0, 1],
+      },
+      {
+        documentId: 'doc-1',
+        collectionId,
+        position: 1,
+        text: 'Tea',
+        embedding: [1, 0],
+      },
+    ]);
+
+    const hits = await documentStore.search(
+      'which tea?',
+      [collectionId, 'gone'],
+      4,
+    );
+
+    expect(repo.getChunks).toHaveBeenCalledWith(
+      [collectionId],
+      downloadedModel.id,
+    );
+    expect(hits).toEqual([
+      {
+        documentId: 'doc-1',
+        title: 'Drinks',
+        collectionName: 'Notes',
+        position: 1,
+        text: 'Tea',
+        score: expect.closeTo(1),
+      },
+    ]);
+    expect(await documentStore.search('tea', ['gone'], 4)).toEqual([]);
+  });
+
+  it('re-embeds documents indexed with another model', async () => {
+    runInAction(() => {
+      documentStore.documents = [
+        {
+          id: 'doc-old',
+          collectionId,
+          title: 'Old',
+          charCount: 3,
+          chunkCount: 1,
+          embeddingModel: 'other-model',
+          createdAt: 1,
+        },
+      ];
+    });
+    repo.getChunkTexts.mockResolvedValue(['tea']);
+
+    expect(documentStore.staleDocuments).toHaveLength(1);
+    await documentStore.reindexStaleDocuments();
+
+    expect(repo.replaceChunks).toHaveBeenCalledWith(
+      'doc-old',
+      [{text: 'tea', embedding: [1, 0]}],
+      downloadedModel.id,
+    );
+    expect(documentStore.staleDocuments).toEqual([]);
+  });
+
+  it('deletes a collection with its documents', async () => {
+    runInAction(() => {
+      documentStore.documents = [
+        {
+          id: 'doc-1',
+          collectionId,
+          title: 'Drinks',
+          charCount: 3,
+          chunkCount: 1,
+          embeddingModel: downloadedModel.id,
+          createdAt: 1,
+        },
+      ];
+    });
+
+    await documentStore.deleteCollection(collectionId);
+
+    expect(repo.deleteCollection).toHaveBeenCalledWith(collectionId);
+    expect(documentStore.collections).toEqual([]);
+    expect(documentStore.documents).toEqual([]);
+  });
+});
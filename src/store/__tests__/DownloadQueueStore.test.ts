@@ -0,0 +1,187 @@
+import {runInAction} from 'mobx';
+import DeviceInfo from 'react-native-device-info';
+
+import {downloadQueueStore} from '../DownloadQueueStore';
+import {downloadManager} from '../../services/downloads';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('DownloadQueueStore', () => {
+  // Downloads started by the queue, settled by the test.
+  let pending: Record<
+    string,
+    {resolve: () => void; reject: (e: Error) => void}
+  >;
+  let starter: jest.Mock;
+
+  beforeEach(() => {
+    pending = {};
+    starter = jest.fn(
+      (modelId: string) =>
+        new Promise<void>((resolve, reject) => {
+          pending[modelId] = {resolve, reject};
+        }),
+    );
+    runInAction(() => {
+      downloadQueueStore.queue = [];
+      downloadQueueStore.inFlight = [];
+      downloadQueueStore.maxConcurrent = 2;
+      downloadQueueStore.chargingOnly = false;
+      downloadQueueStore.waitingForCharger = false;
+    });
+    downloadQueueStore.setStarter(starter);
+  });
+
+  afterEach(async () => {
+    runInAction(() => {
+      downloadQueueStore.queue = [];
+    });
+    Object.values(pending).forEach(download => download.resolve());
+    await flush();
+  });
+
+  const enqueueAll = async (...ids: string[]) => {
+    ids.forEach(id => downloadQueueStore.enqueue(id));
+    await downloadQueueStore.pump();
+  };
+
+  it('starts up to the concurrency limit and queues the rest', async () => {
+    await enqueueAll('a', 'b', 'c', 'd');
+
+    expect(starter.mock.calls.map(call => call[0])).toEqual(['a', 'b']);
+    expect(downloadQueueStore.positionOf('c')).toBe(1);
+    expect(downloadQueueStore.positionOf('d')).toBe(2);
+    expect(downloadQueueStore.positionOf('a')).toBeUndefined();
+    expect(downloadQueueStore.inFlight).toEqual(['a', 'b']);
+    // Running and queued downloads are not added twice.
+    expect(downloadQueueStore.enqueue('a')).toBe(false);
+    expect(downloadQueueStore.enqueue('c')).toBe(false);
+  });
+
+  it('starts the next download when one settles', async () => {
+    await enqueueAll('a', 'b', 'c');
+
+    pending.a.resolve();
+    await flush();
+
+    expect(starter).toHaveBeenLastCalledWith('c');
+    expect(downloadQueueStore.queue).toEqual([]);
+  });
+
+  it('counts downloads the manager is running', async () => {
+    (downloadManager as any).activeJobs = [{model: {id: 'native'}}];
+    try {
+      runInAction(() => {
+        downloadQueueStore.maxConcurrent = 1;
+      });
+      await enqueueAll('a');
+      expect(starter).not.toHaveBeenCalled();
+    } finally {
+      (downloadManager as any).activeJobs = [];
+    }
+  });
+
+  it('skips paused items until they are resumed', async () => {
+    runInAction(() => {
+      downloadQueueStore.maxConcurrent = 1;
+    });
+    await enqueueAll('a', 'b', 'c');
+    downloadQueueStore.pause('b');
+
+    pending.a.resolve();
+    await flush();
+    expect(starter).toHaveBeenLastCalledWith('c');
+    expect(downloadQueueStore.isPaused('b')).toBe(true);
+
+    pending.c.resolve();
+    await flush();
+    expect(starter).toHaveBeenCalledTimes(2);
+
+    downloadQueueStore.resume('b');
+    await flush();
+    expect(starter).toHaveBeenLastCalledWith('b');
+  });
+
+  it('reorders waiting items', async () => {
+    runInAction(() => {
+      downloadQueueStore.maxConcurrent = 1;
+    });
+    await enqueueAll('a', 'b', 'c', 'd');
+
+    downloadQueueStore.move('d', 0);
+    expect(downloadQueueStore.queue.map(item => item.modelId)).toEqual([
+      'd',
+      'b',
+      'c',
+    ]);
+    downloadQueueStore.move('d', 10);
+    expect(downloadQueueStore.positionOf('d')).toBe(3);
+  });
+
+  it('rejects started() with the failure and frees the slot', async () => {
+    await enqueueAll('a');
+    const started = downloadQueueStore.started('a');
+
+    pending.a.reject(new Error('boom'));
+
+    await expect(started).rejects.toThrow('boom');
+    await flush();
+    expect(downloadQueueStore.inFlight).toEqual([]);
+    await expect(downloadQueueStore.started('a')).resolves.toBeUndefined();
+  });
+
+  it('waits for a charger when asked to', async () => {
+    jest.useFakeTimers();
+    try {
+      (DeviceInfo.isBatteryCharging as jest.Mock).mockReturnValue(false);
+      downloadQueueStore.setChargingOnly(true);
+      await enqueueAll('a');
+
+      expect(starter).not.toHaveBeenCalled();
+      expect(downloadQueueStore.waitingForCharger).toBe(true);
+
+      (DeviceInfo.isBatteryCharging as jest.Mock).mockReturnValue(true);
+      await jest.runOnlyPendingTimersAsync();
+
+      expect(starter).toHaveBeenCalledWith('a');
+      expect(downloadQueueStore.waitingForCharger).toBe(false);
+    } finally {
+      (DeviceInfo.isBatteryCharging as jest.Mock).mockReturnValue(true);
+      jest.useRealTimers();
+    }
+  });
+
+  it('requeues downloads a restart interrupted', async () => {
+    downloadQueueStore.setStarter(jest.fn(() => new Promise<void>(() => {})));
+    runInAction(() => {
+      downloadQueueStore.maxConcurrent = 1;
+      downloadQueueStore.inFlight = ['interrupted', 'done'];
+      downloadQueueStore.queue = [
+        {modelId: 'waiting', paused: false, queuedAt: 0},
+        {modelId: 'deleted', paused: false, queuedAt: 0},
+      ];
+    });
+    // The first model is still downloading natively, restored by the sync.
+    (downloadManager as any).activeJobs = [{model: {id: 'native'}}];
+    (downloadManager.isDownloading as jest.Mock).mockImplementation(
+      (id: string) => id === 'native',
+    );
+    try {
+      runInAction(() => {
+        downloadQueueStore.inFlight.push('native');
+      });
+
+      downloadQueueStore.restore(id => id !== 'done' && id !== 'deleted');
+      await flush();
+
+      expect(downloadQueueStore.inFlight).toEqual(['native']);
+      expect(downloadQueueStore.queue.map(item => item.modelId)).toEqual([
+        'interrupted',
+        'waiting',
+      ]);
+    } finally {
+      (downloadManager as any).activeJobs = [];
+      (downloadManager.isDownloading as jest.Mock).mockReset();
+    }
+  });
+});
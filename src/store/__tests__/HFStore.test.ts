@@ -160,6 +160,29 @@ describe('HFStore', () => {
       expect(fetchGGUFSpecs).toHaveBeenCalledWith(modelId, null);
       expect(fetchModelFilesDetails).toHaveBeenCalledWith(modelId, null);
     });
+
+    it('sizes a split model from all of its parts', async () => {
+      const parts = [1, 2].map(n => ({
+        rfilename: `model-0000${n}-of-00002.gguf`,
+      }));
+      hfStore.models = [
+        {...mockHFModel1, siblings: [{...parts[0], shards: parts}]},
+      ];
+      (fetchModelFilesDetails as jest.Mock).mockResolvedValueOnce(
+        parts.map((part, index) => ({
+          type: 'file',
+          oid: `oid-${index}`,
+          size: 1000 * (index + 1),
+          path: part.rfilename,
+        })),
+      );
+
+      await hfStore.fetchModelFileDetails(mockHFModel1.id);
+
+      const [sibling] = hfStore.models[0].siblings;
+      expect(sibling.size).toBe(3000);
+      expect(sibling.shards?.map(part => part.size)).toEqual([1000, 2000]);
+    });
   });
 
   describe('getModelById', () => {
@@ -191,6 +214,25 @@ describe('HFStore', () => {
     });
   });
 
+  describe('setMirrorUrl', () => {
+    afterEach(() => {
+      hfStore.setMirrorUrl('');
+    });
+
+    it('stores a trimmed http(s) mirror', () => {
+      expect(hfStore.setMirrorUrl(' https://hf-mirror.com ')).toBe(true);
+      expect(hfStore.mirrorUrl).toBe('https://hf-mirror.com');
+    });
+
+    it('keeps the current mirror when the URL is invalid', () => {
+      hfStore.setMirrorUrl('http://cache.local:8080/hf');
+
+      expect(hfStore.setMirrorUrl('ftp://cache.local')).toBe(false);
+      expect(hfStore.setMirrorUrl('cache.local')).toBe(false);
+      expect(hfStore.mirrorUrl).toBe('http://cache.local:8080/hf');
+    });
+  });
+
   describe('pagination protection', () => {
     it('should reset pagination guards on fresh search', async () => {
       // Set some state that should be reset
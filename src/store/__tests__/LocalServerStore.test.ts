@@ -0,0 +1,86 @@
+import {initLlama} from 'llama.rn';
+
+import {LocalCompletionEngine} from '../../api/completionEngines';
+import {LoopbackTransport} from '../../services/localServer/__tests__/loopbackTransport';
+
+jest.mock('mobx-persist-store', () => ({
+  makePersistable: jest.fn().mockReturnValue(Promise.resolve()),
+}));
+
+let mockTransport: LoopbackTransport;
+jest.mock('../../services/localServer', () => ({
+  ...jest.requireActual('../../services/localServer'),
+  createNativeTransport: () => mockTransport,
+}));
+
+// The chat context, which llama.rn opened without embedding support.
+jest.mock('../ModelStore', () => ({
+  modelStore: {
+    engine: undefined,
+    activeModelId: 'model-1',
+    activeModel: {id: 'model-1', stopWords: []},
+    inferencing: false,
+    context: {
+      embedding: jest
+        .fn()
+        .mockRejectedValue(new Error('Embedding is not enabled')),
+    },
+    getModelFullPath: jest.fn().mockResolvedValue('/models/model-1.gguf'),
+    setInferencing: jest.fn(),
+    registerCompletionPromise: jest.fn(),
+    clearCompletionPromise: jest.fn(),
+  },
+}));
+
+import {modelStore} from '../ModelStore';
+import {localServerStore} from '../LocalServerStore';
+
+describe('LocalServerStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTransport = new LoopbackTransport();
+    modelStore.engine = Object.create(LocalCompletionEngine.prototype);
+  });
+
+  afterEach(async () => {
+    await localServerStore.stop();
+  });
+
+  it('serves embeddings from an embedding-enabled context', async () => {
+    const embeddingContext = {
+      embedding: jest.fn().mockResolvedValue({embedding: [0.6, 0.8]}),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+    (initLlama as jest.Mock).mockResolvedValue(embeddingContext);
+    await localServerStore.start();
+
+    const response = await mockTransport.request('POST', '/v1/embeddings', {
+      apiKey: localServerStore.apiKey,
+      body: {model: 'anything', input: 'hello'},
+    });
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body).data[0].embedding).toEqual([0.6, 0.8]);
+    expect(initLlama).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: '/models/model-1.gguf',
+        embedding: true,
+      }),
+    );
+    expect(modelStore.context!.embedding).not.toHaveBeenCalled();
+    expect(modelStore.setInferencing).toHaveBeenCalledWith(true);
+  });
+
+  it('refuses embeddings when no local model is loaded', async () => {
+    modelStore.engine = undefined;
+    await localServerStore.start();
+
+    const response = await mockTransport.request('POST', '/v1/embeddings', {
+      apiKey: localServerStore.apiKey,
+      body: {model: 'anything', input: 'hello'},
+    });
+
+    expect(response.status).toBe(503);
+    expect(initLlama).not.toHaveBeenCalled();
+  });
+});
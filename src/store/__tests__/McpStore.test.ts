@@ -0,0 +1,135 @@
+import {runInAction} from 'mobx';
+
+import * as Keychain from 'react-native-keychain';
+
+jest.mock('mobx-persist-store', () => ({
+  makePersistable: jest.fn().mockReturnValue(Promise.resolve()),
+}));
+
+import {mcpStore} from '../McpStore';
+import {talentRegistry} from '../../services/talents/TalentRegistry';
+import {createStubMcpServer} from '../../../jest/fixtures/mcpServer';
+
+const URL = 'http://192.168.1.10:8000/mcp';
+
+const tools = [
+  {name: 'read_file', inputSchema: {type: 'object', properties: {}}},
+  {name: 'list_dir', inputSchema: {type: 'object', properties: {}}},
+];
+
+describe('McpStore', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mcpStore.servers.forEach(s => mcpStore.disconnectServer(s.id));
+    runInAction(() => {
+      mcpStore.servers = [];
+    });
+    global.fetch = createStubMcpServer({tools}).fetch as any;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('registers the server tools as talents on add', async () => {
+    const id = await mcpStore.addServer({name: 'nas', url: URL}, 'secret');
+
+    expect(Keychain.setGenericPassword).toHaveBeenCalledWith(
+      'token',
+      'secret',
+      {service: `pocketpal-mcp-${id}`},
+    );
+    expect(mcpStore.status[id]).toEqual({
+      state: 'connected',
+      toolNames: ['mcp_nas_read_file', 'mcp_nas_list_dir'],
+    });
+    expect(talentRegistry.has('mcp_nas_read_file')).toBe(true);
+  });
+
+  it('routes talent calls through the server connection', async () => {
+    await mcpStore.addServer({name: 'nas', url: URL});
+
+    const result = await talentRegistry.get('mcp_nas_list_dir')!.execute({});
+
+    expect(result.type).toBe('text');
+    expect(result.summary).toContain('list_dir ok');
+  });
+
+  it('records a connection failure without registering tools', async () => {
+    global.fetch = createStubMcpServer({tools, token: 'other'}).fetch as any;
+
+    const id = await mcpStore.addServer({name: 'nas', url: URL}, 'secret');
+
+    expect(mcpStore.status[id]).toEqual({
+      state: 'error',
+      toolNames: [],
+      error: 'Unauthorized: invalid or missing token',
+      unsupportedTransport: false,
+    });
+    expect(talentRegistry.has('mcp_nas_read_file')).toBe(false);
+  });
+
+  it('flags a legacy HTTP+SSE server', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      status: 405,
+      headers: {get: () => null},
+      text: () => Promise.resolve(''),
+    }) as any;
+
+    const id = await mcpStore.addServer({name: 'nas', url: URL});
+
+    expect(mcpStore.status[id]).toMatchObject({
+      state: 'error',
+      unsupportedTransport: true,
+    });
+  });
+
+  it('unregisters tools when disabled and registers them again when enabled', async () => {
+    const id = await mcpStore.addServer({name: 'nas', url: URL});
+
+    await mcpStore.setServerEnabled(id, false);
+    expect(talentRegistry.has('mcp_nas_read_file')).toBe(false);
+    expect(mcpStore.status[id]).toBeUndefined();
+
+    await mcpStore.setServerEnabled(id, true);
+    expect(talentRegistry.has('mcp_nas_read_file')).toBe(true);
+  });
+
+  it('renames talents when the server is renamed', async () => {
+    const id = await mcpStore.addServer({name: 'nas', url: URL});
+
+    await mcpStore.updateServer(id, {name: 'home'});
+
+    expect(talentRegistry.has('mcp_nas_read_file')).toBe(false);
+    expect(talentRegistry.has('mcp_home_read_file')).toBe(true);
+  });
+
+  it('removes the server, its talents and its token', async () => {
+    const id = await mcpStore.addServer({name: 'nas', url: URL});
+
+    await mcpStore.removeServer(id);
+
+    expect(mcpStore.servers).toEqual([]);
+    expect(talentRegistry.has('mcp_nas_read_file')).toBe(false);
+    expect(Keychain.resetGenericPassword).toHaveBeenCalledWith({
+      service: `pocketpal-mcp-${id}`,
+    });
+  });
+
+  it('connectAll skips disabled servers', async () => {
+    runInAction(() => {
+      mcpStore.servers = [
+        {id: 'a', name: 'on', url: URL, enabled: true},
+        {id: 'b', name: 'off', url: URL, enabled: false},
+      ];
+    });
+
+    await mcpStore.connectAll();
+
+    expect(mcpStore.status.a?.state).toBe('connected');
+    expect(mcpStore.status.b).toBeUndefined();
+    expect(talentRegistry.has('mcp_off_read_file')).toBe(false);
+  });
+});
@@ -19,8 +19,10 @@ jest.mock('../../services/downloads', () => ({
     isDownloading: jest.fn().mockReturnValue(false),
     startDownload: jest.fn(),
     cancelDownload: jest.fn(),
+    discardPartialDownload: jest.fn().mockResolvedValue(undefined),
     setCallbacks: jest.fn(),
     syncWithActiveDownloads: jest.fn().mockResolvedValue(undefined),
+    activeJobs: [],
   },
 }));
 
@@ -24,8 +24,23 @@ import {
   mockHFModel1,
 } from '../../../jest/fixtures/models';
 import * as RNFS from '@dr.pogodin/react-native-fs';
+import * as Keychain from 'react-native-keychain';
+import {checkConnectivity} from '../../utils/network';
+import {findModelUpdates} from '../../utils/modelUpdates';
+import {
+  AnthropicCompletionEngine,
+  ModelGroupCompletionEngine,
+  OpenAICompletionEngine,
+} from '../../api/completionEngines';
 
-import {modelStore, uiStore, serverStore} from '..';
+import {
+  documentStore,
+  downloadQueueStore,
+  modelStore,
+  palStore,
+  serverStore,
+  uiStore,
+} from '..';
 import {LOOKIE_DEFAULT_MODEL} from '../builtinPalModels';
 import {classify} from '../../services/deviceRules/classify';
 import {getVisionModelSizeBreakdown} from '../../utils/multimodalHelpers';
@@ -41,6 +56,10 @@ import {
   getRecommendedThreadCount,
 } from '../../utils/deviceCapabilities';
 
+// What the store registered with the download manager when it was created
+const downloadCallbacks = (downloadManager.setCallbacks as jest.Mock).mock
+  .calls[0][0];
+
 // Mock deviceCapabilities
 jest.mock('../../utils/deviceCapabilities', () => ({
   ...jest.requireActual('../../utils/deviceCapabilities'),
@@ -55,6 +74,16 @@ jest.mock('../../api/hf', () => ({
   fetchModelFilesDetails: jest.fn(),
 }));
 
+// Offline unless a test says otherwise; the update lookup itself is stubbed
+jest.mock('../../utils/network', () => ({
+  ...jest.requireActual('../../utils/network'),
+  checkConnectivity: jest.fn().mockResolvedValue(false),
+}));
+jest.mock('../../utils/modelUpdates', () => ({
+  ...jest.requireActual('../../utils/modelUpdates'),
+  findModelUpdates: jest.fn(),
+}));
+
 // Mock the download manager
 jest.mock('../../services/downloads', () => {
   class MockDownloadCancelledError extends Error {
@@ -71,8 +100,10 @@ jest.mock('../../services/downloads', () => {
       isDownloading: jest.fn(),
       startDownload: jest.fn(),
       cancelDownload: jest.fn(),
+      discardPartialDownload: jest.fn().mockResolvedValue(undefined),
       setCallbacks: jest.fn(),
       syncWithActiveDownloads: jest.fn().mockResolvedValue(undefined),
+      activeJobs: [],
     },
   };
 });
@@ -2016,6 +2047,91 @@ describe('ModelStore', () => {
       // Contrast with the cancel case: a genuine failure DOES surface an error.
       expect(modelStore.downloadError).not.toBeNull();
     });
+
+    describe('download queue', () => {
+      const queueable = (id: string, size: number) => ({
+        ...presetModelFixture,
+        id,
+        size,
+        downloadUrl: `https://example.com/${id}.gguf`,
+        isDownloaded: false,
+        isLocal: false,
+        origin: ModelOrigin.PRESET,
+      });
+      let finishFirst: () => void;
+
+      beforeEach(() => {
+        (downloadManager.isDownloading as jest.Mock).mockReturnValue(false);
+        (downloadManager.startDownload as jest.Mock)
+          .mockImplementationOnce(
+            () =>
+              new Promise<void>(resolve => {
+                finishFirst = resolve;
+              }),
+          )
+          .mockResolvedValue(undefined);
+        downloadQueueStore.setMaxConcurrent(1);
+      });
+
+      afterEach(async () => {
+        runInAction(() => {
+          downloadQueueStore.queue = [];
+        });
+        finishFirst?.();
+        await new Promise(setImmediate);
+        downloadQueueStore.setMaxConcurrent(2);
+      });
+
+      it('queues a download until a slot frees up', async () => {
+        modelStore.models = [queueable('q1', 1e9), queueable('q2', 1e9)];
+
+        const first = modelStore.checkSpaceAndDownload('q1');
+        // Resolves straight away, leaving the download queued.
+        await modelStore.checkSpaceAndDownload('q2');
+        expect(downloadQueueStore.positionOf('q2')).toBe(1);
+        await new Promise(setImmediate);
+        expect(downloadManager.startDownload).toHaveBeenCalledTimes(1);
+
+        finishFirst();
+        await first;
+        await new Promise(setImmediate);
+
+        expect(downloadManager.startDownload).toHaveBeenCalledTimes(2);
+        expect(downloadManager.startDownload).toHaveBeenLastCalledWith(
+          expect.objectContaining({id: 'q2'}),
+          expect.anything(),
+          expect.anything(),
+        );
+      });
+
+      it('counts queued downloads in the storage check', async () => {
+        // 8 GB free: each model fits alone, not on top of the queue.
+        modelStore.models = [
+          queueable('q1', 1e9),
+          queueable('q2', 5e9),
+          queueable('q3', 4e9),
+        ];
+        modelStore.checkSpaceAndDownload('q1');
+        await modelStore.checkSpaceAndDownload('q2');
+
+        await expect(modelStore.checkSpaceAndDownload('q3')).rejects.toThrow(
+          'Not enough storage space to download the model',
+        );
+        expect(downloadQueueStore.isQueued('q3')).toBe(false);
+        expect(modelStore.downloadError).not.toBeNull();
+      });
+
+      it('drops a queued download on cancel', async () => {
+        modelStore.models = [queueable('q1', 1e9), queueable('q2', 1e9)];
+        modelStore.checkSpaceAndDownload('q1');
+        await modelStore.checkSpaceAndDownload('q2');
+
+        await modelStore.cancelDownload('q2');
+
+        expect(downloadQueueStore.isQueued('q2')).toBe(false);
+        expect(downloadManager.cancelDownload).not.toHaveBeenCalledWith('q2');
+      });
+    });
   });
 
   describe('computed properties', () => {
@@ -2480,6 +2596,88 @@ describe('ModelStore', () => {
     });
   });
 
+  describe('load profiles', () => {
+    const model = () => modelStore.models[0];
+
+    beforeEach(() => {
+      runInAction(() => {
+        modelStore.models = [createModel({id: 'small-1b'}) as Model];
+        modelStore.contextInitParams = {
+          ...modelStore.contextInitParams,
+          n_ctx: 4096,
+          n_batch: 512,
+          cache_type_k: CacheType.F16,
+          n_threads: 4,
+        };
+      });
+    });
+
+    it('saves the current globals as a named profile without activating it', () => {
+      const profile = modelStore.addLoadProfile('small-1b', 'Default 4k');
+
+      expect(model().loadProfiles).toEqual([profile]);
+      expect(profile?.overrides.n_ctx).toBe(4096);
+      expect(model().activeLoadProfileId).toBeUndefined();
+      expect(modelStore.addLoadProfile('missing', 'x')).toBeUndefined();
+    });
+
+    it('applies the active profile over the globals for that model only', async () => {
+      runInAction(() => {
+        modelStore.contextInitParams.n_ctx = 32768;
+      });
+      const profile = modelStore.addLoadProfile('small-1b', '32k')!;
+      runInAction(() => {
+        modelStore.contextInitParams.n_ctx = 4096;
+        modelStore.contextInitParams.n_threads = 6;
+      });
+
+      modelStore.setActiveLoadProfile('small-1b', profile.id);
+
+      const forModel = await modelStore.getEffectiveContextInitParams(
+        undefined,
+        undefined,
+        'small-1b',
+      );
+      expect(forModel.n_ctx).toBe(32768);
+      expect(forModel.n_threads).toBe(6);
+
+      const global = await modelStore.getEffectiveContextInitParams();
+      expect(global.n_ctx).toBe(4096);
+    });
+
+    it('still clamps the batch sizes to a profile n_ctx', async () => {
+      runInAction(() => {
+        modelStore.contextInitParams.n_ctx = 256;
+      });
+      const profile = modelStore.addLoadProfile('small-1b', 'tiny')!;
+      runInAction(() => {
+        modelStore.contextInitParams.n_ctx = 4096;
+      });
+      modelStore.setActiveLoadProfile('small-1b', profile.id);
+
+      const params = await modelStore.getEffectiveContextInitParams(
+        undefined,
+        undefined,
+        'small-1b',
+      );
+      expect(params.n_ctx).toBe(256);
+      expect(params.n_batch).toBe(256);
+      expect(params.n_ubatch).toBe(256);
+    });
+
+    it('ignores an unknown profile id and falls back when the active one is removed', () => {
+      const profile = modelStore.addLoadProfile('small-1b', 'p')!;
+
+      modelStore.setActiveLoadProfile('small-1b', 'nope');
+      expect(model().activeLoadProfileId).toBeUndefined();
+
+      modelStore.setActiveLoadProfile('small-1b', profile.id);
+      modelStore.removeLoadProfile('small-1b', profile.id);
+      expect(model().loadProfiles).toEqual([]);
+      expect(model().activeLoadProfileId).toBeUndefined();
+    });
+  });
+
   describe('speculative / MTP capability resolution', () => {
     const mtpMeta = (over: Partial<GGUFMetadata> = {}): GGUFMetadata =>
       ({
@@ -3182,6 +3380,17 @@ describe('ModelStore', () => {
       expect(path).toContain('/models/hf/test-author/model.gguf');
     });
 
+    it('should get a per-model path for URL model', async () => {
+      const urlModel = {
+        id: 'url-1',
+        origin: ModelOrigin.URL,
+        filename: 'model.gguf',
+      };
+
+      const path = await modelStore.getModelFullPath(urlModel as any);
+      expect(path).toBe('/path/to/documents/models/url/url-1/model.gguf');
+    });
+
     it('should construct new path with repo for HF model', async () => {
       const hfModel = {
         origin: ModelOrigin.HF,
@@ -3460,6 +3669,237 @@ describe('ModelStore', () => {
     });
   });
 
+  describe('split GGUF models', () => {
+    const shards = [1, 2].map(n => ({
+      filename: `Q4_K_M/split-0000${n}-of-00002.gguf`,
+      downloadUrl: `https://huggingface.co/org/split/resolve/main/Q4_K_M/split-0000${n}-of-00002.gguf`,
+      size: 1000,
+    }));
+    const splitModel = () =>
+      createModel({
+        id: 'org/split/Q4_K_M/split-00001-of-00002.gguf',
+        origin: ModelOrigin.HF,
+        isLocal: false,
+        author: 'org',
+        repo: 'split',
+        filename: shards[0].filename,
+        size: 2000,
+        shards,
+      }) as Model;
+    const partPath = (n: number) =>
+      `${RNFS.DocumentDirectoryPath}/models/hf/org/split/Q4_K_M/split-0000${n}-of-00002.gguf`;
+    // Only files under the current layout, not the legacy one without the repo.
+    const inRepoDir = (path: string) => path.includes('/org/split/');
+
+    it('is only downloaded with every part in place', async () => {
+      modelStore.models = [splitModel()];
+      const exists = RNFS.exists as jest.Mock;
+      exists.mockImplementation(
+        async (path: string) => inRepoDir(path) && path !== partPath(2),
+      );
+      try {
+        await modelStore.checkFileExists(modelStore.models[0]);
+        expect(modelStore.models[0].isDownloaded).toBe(false);
+
+        exists.mockImplementation(async (path: string) => inRepoDir(path));
+        await modelStore.checkFileExists(modelStore.models[0]);
+        expect(modelStore.models[0].isDownloaded).toBe(true);
+      } finally {
+        exists.mockReset();
+        exists.mockResolvedValue(false);
+      }
+    });
+
+    it('deletes every part', async () => {
+      modelStore.models = [{...splitModel(), isDownloaded: true}];
+      (RNFS.exists as jest.Mock).mockImplementation(async (path: string) =>
+        inRepoDir(path),
+      );
+      (RNFS.unlink as jest.Mock).mockClear();
+
+      await modelStore.deleteModel(modelStore.models[0]);
+
+      expect(RNFS.unlink).toHaveBeenCalledWith(partPath(1));
+      expect(RNFS.unlink).toHaveBeenCalledWith(partPath(2));
+      expect(downloadManager.discardPartialDownload).toHaveBeenCalledWith(
+        partPath(2),
+      );
+      expect(modelStore.models[0].isDownloaded).toBe(false);
+    });
+  });
+
+  describe('storage scan', () => {
+    const docs = RNFS.DocumentDirectoryPath;
+    const repoDir = `${docs}/models/hf/org/repo`;
+    const hfModel = (filename: string, overrides = {}) =>
+      createModel({
+        id: `org/repo/${filename}`,
+        origin: ModelOrigin.HF,
+        isLocal: false,
+        author: 'org',
+        repo: 'repo',
+        filename,
+        isDownloaded: true,
+        ...overrides,
+      }) as Model;
+    const localModel = (filename: string, overrides = {}) =>
+      createModel({
+        id: `local/${filename}`,
+        origin: ModelOrigin.LOCAL,
+        isLocal: true,
+        filename,
+        fullPath: `${docs}/models/local/${filename}`,
+        isDownloaded: true,
+        ...overrides,
+      }) as Model;
+
+    // A fake filesystem of the given files and sizes, and their directories.
+    const mockFileSystem = (files: Record<string, number>) => {
+      const dirs = new Set<string>();
+      for (const path of Object.keys(files)) {
+        let dir = path;
+        while ((dir = dir.substring(0, dir.lastIndexOf('/')))) {
+          dirs.add(dir);
+        }
+      }
+      const parentOf = (path: string) =>
+        path.substring(0, path.lastIndexOf('/'));
+      (RNFS.exists as jest.Mock).mockImplementation(
+        async (path: string) => path in files || dirs.has(path),
+      );
+      (RNFS.readDir as jest.Mock).mockImplementation(async (dirPath: string) =>
+        [...Object.keys(files), ...dirs]
+          .filter(path => parentOf(path) === dirPath)
+          .map(path => ({
+            path,
+            name: path.split('/').pop(),
+            size: files[path] ?? 0,
+            isFile: () => !dirs.has(path),
+            isDirectory: () => dirs.has(path),
+          })),
+      );
+    };
+
+    let originalExists: any;
+
+    beforeEach(() => {
+      originalExists = (RNFS.exists as jest.Mock).getMockImplementation();
+      (downloadManager.isDownloading as jest.Mock).mockImplementation(
+        (modelId: string) => modelId === 'org/repo/busy.gguf',
+      );
+      mockFileSystem({
+        [`${repoDir}/llm.gguf`]: 100,
+        [`${repoDir}/mmproj.gguf`]: 10,
+        [`${repoDir}/mtp-llm.gguf`]: 20,
+        [`${repoDir}/README.md`]: 5,
+        [`${repoDir}/next.gguf.part`]: 30,
+        [`${repoDir}/busy.gguf.part`]: 40,
+        [`${docs}/models/hf/org/old/stale.gguf`]: 50,
+        [`${docs}/models/local/copy.gguf`]: 100,
+      });
+      modelStore.models = [
+        hfModel('llm.gguf', {hash: 'abc'}),
+        hfModel('mmproj.gguf', {modelType: ModelType.PROJECTION}),
+        hfModel('mtp-llm.gguf', {modelType: ModelType.DRAFT}),
+        hfModel('busy.gguf', {isDownloaded: false}),
+        localModel('copy.gguf', {hash: 'ABC'}),
+        localModel('gone.gguf', {isDownloaded: false}),
+      ];
+    });
+
+    afterEach(() => {
+      (RNFS.exists as jest.Mock).mockImplementation(originalExists);
+      (RNFS.readDir as jest.Mock).mockResolvedValue([]);
+      (downloadManager.isDownloading as jest.Mock).mockReset();
+    });
+
+    it('classifies the files and models without touching them', async () => {
+      const report = await modelStore.scanStorage();
+
+      expect(report.issues).toHaveLength(6);
+      expect(report.issues).toEqual(
+        expect.arrayContaining([
+          {kind: 'partial', path: `${repoDir}/next.gguf.part`, size: 30},
+          {
+            kind: 'orphan',
+            path: `${docs}/models/hf/org/old/stale.gguf`,
+            size: 50,
+          },
+          {kind: 'unusedProjection', modelId: 'org/repo/mmproj.gguf', size: 10},
+          {kind: 'unusedDraft', modelId: 'org/repo/mtp-llm.gguf', size: 20},
+          {
+            kind: 'duplicate',
+            modelId: 'local/copy.gguf',
+            size: 100,
+            duplicateOf: 'org/repo/llm.gguf',
+          },
+          {kind: 'missing', modelId: 'local/gone.gguf', size: 0},
+        ]),
+      );
+      expect(report.reclaimableBytes).toBe(210);
+      expect(RNFS.unlink).not.toHaveBeenCalled();
+      expect(modelStore.models).toHaveLength(6);
+    });
+
+    it('keeps models that are in use', async () => {
+      modelStore.activeModelId = 'local/copy.gguf';
+      modelStore.setSelectedDraftModel('org/repo/mtp-llm.gguf');
+
+      const {issues} = await modelStore.scanStorage();
+
+      expect(issues.map(issue => issue.kind)).not.toContain('unusedDraft');
+      expect(issues).toContainEqual(
+        expect.objectContaining({
+          kind: 'duplicate',
+          modelId: 'org/repo/llm.gguf',
+          duplicateOf: 'local/copy.gguf',
+        }),
+      );
+      modelStore.setSelectedDraftModel(undefined);
+    });
+
+    it('keeps models picked for a Pal or for document embedding', async () => {
+      const savedPals = palStore.pals;
+      runInAction(() => {
+        palStore.pals = [
+          {id: 'pal', defaultModel: {id: 'local/copy.gguf'}} as any,
+        ];
+        documentStore.embeddingModelId = 'org/repo/mtp-llm.gguf';
+      });
+
+      const {issues} = await modelStore.scanStorage();
+
+      expect(issues.map(issue => issue.kind)).not.toContain('unusedDraft');
+      expect(issues).toContainEqual(
+        expect.objectContaining({
+          kind: 'duplicate',
+          modelId: 'org/repo/llm.gguf',
+          duplicateOf: 'local/copy.gguf',
+        }),
+      );
+      runInAction(() => {
+        palStore.pals = savedPals;
+        documentStore.embeddingModelId = undefined;
+      });
+    });
+
+    it('reclaims the picked issues', async () => {
+      const {issues} = await modelStore.scanStorage();
+      const picked = issues.filter(issue =>
+        ['orphan', 'unusedProjection', 'missing'].includes(issue.kind),
+      );
+
+      await expect(modelStore.reclaimStorage(picked)).resolves.toBe(60);
+
+      expect(RNFS.unlink).toHaveBeenCalledWith(
+        `${docs}/models/hf/org/old/stale.gguf`,
+      );
+      expect(RNFS.unlink).toHaveBeenCalledWith(`${repoDir}/mmproj.gguf`);
+      expect(RNFS.unlink).not.toHaveBeenCalledWith(`${repoDir}/next.gguf.part`);
+      expect(modelStore.models.map(m => m.id)).not.toContain('local/gone.gguf');
+    });
+  });
+
   describe('mergeModelLists - repo inference for HF models', () => {
     it('should infer and set repo field for existing HF models', async () => {
       // Set up store with existing HF model (no repo field)
@@ -4181,6 +4621,492 @@ describe('ModelStore', () => {
     });
   });
 
+  describe('hot model switching', () => {
+    let initLlamaMock: jest.Mock;
+    const originalInitContext = modelStore.initContext;
+    const modelA = {...basicModel, id: 'model-a', name: 'Model A'};
+    const modelB = {...basicModel, id: 'model-b', name: 'Model B'};
+    const modelC = {...basicModel, id: 'model-c', name: 'Model C'};
+
+    // A class instance like the real LlamaContext, so MobX keeps it by reference
+    class MockLlamaContext {
+      release = jest.fn().mockResolvedValue(undefined);
+      releaseMultimodal = jest.fn().mockResolvedValue(undefined);
+    }
+    const mockContext = () => new MockLlamaContext() as unknown as LlamaContext;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      modelStore.initContext = originalInitContext;
+      runInAction(() => {
+        modelStore.models = [];
+        modelStore.context = undefined;
+        modelStore.activeModelId = undefined;
+        modelStore.warmContexts = [];
+        modelStore.keepModelsWarm = true;
+        modelStore.maxWarmContexts = 1;
+        modelStore.availableMemoryCeiling = 10 * 1e9;
+        modelStore.largestSuccessfulLoad = undefined;
+      });
+
+      const {initLlama} = require('llama.rn');
+      initLlamaMock = initLlama;
+      initLlamaMock.mockReset();
+      initLlamaMock.mockImplementation(async () => mockContext());
+    });
+
+    afterEach(() => {
+      runInAction(() => {
+        modelStore.keepModelsWarm = false;
+        modelStore.warmContexts = [];
+      });
+    });
+
+    it('keeps the previous context warm and switches back without reloading', async () => {
+      const ctxA = await modelStore.initContext(modelA);
+      await modelStore.initContext(modelB);
+
+      expect(ctxA!.release).not.toHaveBeenCalled();
+      expect(modelStore.warmContexts.map(w => w.modelId)).toEqual(['model-a']);
+      expect(modelStore.warmContexts[0].memoryBytes).toBeGreaterThan(0);
+
+      const result = await modelStore.initContext(modelA);
+
+      expect(result).toBe(ctxA);
+      expect(modelStore.activeModelId).toBe('model-a');
+      expect(initLlamaMock).toHaveBeenCalledTimes(2);
+      expect(modelStore.warmContexts.map(w => w.modelId)).toEqual(['model-b']);
+    });
+
+    it('evicts the least recently used context past the warm limit', async () => {
+      const ctxA = await modelStore.initContext(modelA);
+      const ctxB = await modelStore.initContext(modelB);
+      await modelStore.initContext(modelC);
+
+      expect(ctxA!.release).toHaveBeenCalled();
+      expect(ctxB!.release).not.toHaveBeenCalled();
+      expect(modelStore.warmContexts.map(w => w.modelId)).toEqual(['model-b']);
+    });
+
+    it('evicts warm contexts the incoming model would not fit beside', async () => {
+      runInAction(() => {
+        modelStore.availableMemoryCeiling = 4 * 1e9; // 2.4 GB per model
+      });
+
+      const ctxA = await modelStore.initContext(modelA);
+      await modelStore.initContext(modelB);
+
+      expect(ctxA!.release).toHaveBeenCalled();
+      expect(modelStore.warmContexts).toHaveLength(0);
+    });
+
+    it('reloads a warm context created with different settings', async () => {
+      const originalNCtx = modelStore.contextInitParams.n_ctx;
+      const ctxA = await modelStore.initContext(modelA);
+      await modelStore.initContext(modelB);
+
+      modelStore.setNContext(originalNCtx * 2);
+      const result = await modelStore.initContext(modelA);
+
+      expect(ctxA!.release).toHaveBeenCalled();
+      expect(result).not.toBe(ctxA);
+      expect(initLlamaMock).toHaveBeenCalledTimes(3);
+
+      modelStore.setNContext(originalNCtx);
+    });
+
+    it('releases the active context instead when the mode is off', async () => {
+      runInAction(() => {
+        modelStore.keepModelsWarm = false;
+      });
+
+      const ctxA = await modelStore.initContext(modelA);
+      await modelStore.initContext(modelB);
+
+      expect(ctxA!.release).toHaveBeenCalled();
+      expect(modelStore.warmContexts).toHaveLength(0);
+    });
+
+    it('releases warm contexts on a memory warning', async () => {
+      const ctxA = await modelStore.initContext(modelA);
+      await modelStore.initContext(modelB);
+
+      await modelStore.handleMemoryWarning();
+
+      expect(ctxA!.release).toHaveBeenCalled();
+      expect(modelStore.warmContexts).toHaveLength(0);
+      expect(modelStore.activeModelId).toBe('model-b');
+    });
+
+    it('releases warm contexts along with the active one on auto-release', async () => {
+      runInAction(() => {
+        modelStore.useAutoRelease = true;
+        modelStore.appState = 'active';
+      });
+      const ctxA = await modelStore.initContext(modelA);
+      const ctxB = await modelStore.initContext(modelB);
+
+      await modelStore.handleAppStateChange('background');
+
+      expect(ctxA!.release).toHaveBeenCalled();
+      expect(ctxB!.release).toHaveBeenCalled();
+      expect(modelStore.warmContexts).toHaveLength(0);
+      expect(modelStore.lastAutoReleasedModelId).toBe('model-b');
+    });
+
+    it('releases warm contexts when the mode is turned off', async () => {
+      const ctxA = await modelStore.initContext(modelA);
+      await modelStore.initContext(modelB);
+
+      modelStore.setKeepModelsWarm(false);
+      await modelStore.releaseWarmContexts();
+
+      expect(ctxA!.release).toHaveBeenCalled();
+      expect(modelStore.warmContexts).toHaveLength(0);
+    });
+  });
+
+  describe('model updates', () => {
+    const hfFile = {rfilename: 'model.gguf', lfs: {oid: 'sha1'}} as any;
+    const hfDownloaded = {
+      ...basicModel,
+      id: 'author/repo/model.gguf',
+      origin: ModelOrigin.HF,
+      isDownloaded: true,
+      filename: 'model.gguf',
+      author: 'author',
+      repo: 'repo',
+      size: 1000,
+      hfModel: {id: 'author/repo', lastModified: '2025-01-01'} as any,
+      hfModelFile: hfFile,
+    };
+    const newFile = {
+      rfilename: 'model.gguf',
+      size: 1200,
+      url: 'https://huggingface.co/author/repo/resolve/main/model.gguf',
+      lfs: {oid: 'sha2'},
+    } as any;
+    const update = {
+      modelId: hfDownloaded.id,
+      hfModel: {
+        id: 'author/repo',
+        author: 'author',
+        lastModified: '2025-03-01',
+        siblings: [newFile],
+      } as any,
+      modelFile: newFile,
+      sizeDelta: 200,
+    };
+
+    beforeEach(() => {
+      (checkConnectivity as jest.Mock).mockResolvedValue(true);
+      (findModelUpdates as jest.Mock).mockResolvedValue({
+        updates: [update],
+        lastModified: {[hfDownloaded.id]: '2025-03-01'},
+      });
+      runInAction(() => {
+        modelStore.models = [{...hfDownloaded}];
+        modelStore.modelUpdates = {};
+        modelStore.lastModelUpdateCheck = undefined;
+      });
+    });
+
+    afterEach(() => {
+      (checkConnectivity as jest.Mock).mockResolvedValue(false);
+    });
+
+    it('records newer uploads of downloaded HF models', async () => {
+      await modelStore.checkForModelUpdates();
+
+      expect(modelStore.modelUpdates[hfDownloaded.id]).toEqual(update);
+      expect(modelStore.models[0].hfModel?.lastModified).toBe('2025-03-01');
+      expect(modelStore.lastModelUpdateCheck).toBeDefined();
+    });
+
+    it('is skipped offline and throttled unless forced', async () => {
+      (checkConnectivity as jest.Mock).mockResolvedValueOnce(false);
+      await modelStore.checkForModelUpdates();
+      expect(findModelUpdates).not.toHaveBeenCalled();
+
+      runInAction(() => {
+        modelStore.lastModelUpdateCheck = Date.now();
+      });
+      await modelStore.checkForModelUpdates();
+      expect(findModelUpdates).not.toHaveBeenCalled();
+
+      await modelStore.checkForModelUpdates(true);
+      expect(findModelUpdates).toHaveBeenCalledTimes(1);
+    });
+
+    const filePath = '/path/to/documents/models/hf/author/repo/model.gguf';
+    const previousPath =
+      '/path/to/documents/models/hf/author/repo/model.previous.gguf';
+
+    it('updates in place, keeping the id and the user settings', async () => {
+      const customTemplate = {...basicModel.chatTemplate, template: 'custom'};
+      runInAction(() => {
+        Object.assign(modelStore.models[0], {
+          chatTemplate: customTemplate,
+          stopWords: ['<custom>'],
+          completionSettings: {
+            ...basicModel.completionSettings,
+            temperature: 0.1,
+          },
+          hash: 'old-hash',
+        });
+      });
+      (RNFS.exists as jest.Mock).mockImplementation(
+        async (path: string) => path === filePath,
+      );
+      await modelStore.checkForModelUpdates();
+
+      await modelStore.updateModel(hfDownloaded.id);
+
+      const model = modelStore.models[0];
+      expect(RNFS.moveFile).toHaveBeenCalledWith(filePath, previousPath);
+      expect(RNFS.unlink).not.toHaveBeenCalledWith(filePath);
+      expect(model).toMatchObject({
+        id: hfDownloaded.id,
+        size: 1200,
+        downloadUrl: newFile.url,
+        hfModelFile: newFile,
+        isDownloaded: false,
+        hash: undefined,
+        chatTemplate: customTemplate,
+        stopWords: ['<custom>'],
+        completionSettings: expect.objectContaining({temperature: 0.1}),
+      });
+      expect(modelStore.modelUpdates[hfDownloaded.id]).toBeUndefined();
+      await modelStore.cancelDownload(hfDownloaded.id);
+    });
+
+    it('puts the old revision back when the download fails', async () => {
+      (RNFS.exists as jest.Mock).mockImplementation(
+        async (path: string) => path === filePath,
+      );
+      (downloadManager.startDownload as jest.Mock).mockRejectedValueOnce(
+        new Error('offline'),
+      );
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+      await modelStore.checkForModelUpdates();
+
+      await modelStore.updateModel(hfDownloaded.id);
+
+      expect(RNFS.moveFile).toHaveBeenLastCalledWith(previousPath, filePath);
+      expect(modelStore.models[0]).toMatchObject({
+        size: 1000,
+        hfModelFile: hfFile,
+        isDownloaded: true,
+      });
+      expect(modelStore.modelUpdates[hfDownloaded.id]).toEqual(update);
+      error.mockRestore();
+    });
+
+    it('drops the old revision once the new one is verified', async () => {
+      (RNFS.exists as jest.Mock).mockImplementation(
+        async (path: string) => path === filePath,
+      );
+      await modelStore.checkForModelUpdates();
+      await modelStore.updateModel(hfDownloaded.id);
+      const originalHash = (RNFS as any).hash;
+      (RNFS as any).hash = jest.fn().mockResolvedValue('sha2');
+
+      await downloadCallbacks.onComplete(hfDownloaded.id);
+
+      expect(RNFS.unlink).toHaveBeenCalledWith(previousPath);
+      expect(modelStore.models[0]).toMatchObject({
+        size: 1200,
+        isDownloaded: true,
+      });
+      (RNFS as any).hash = originalHash;
+    });
+  });
+
+  describe('URL imports', () => {
+    const probe = {
+      downloadUrl: 'http://nas.local/models/tiny-Q8_0.gguf',
+      filename: 'tiny-Q8_0.gguf',
+      host: 'nas.local',
+      size: 1000,
+      architecture: 'llama',
+    };
+    const headers = {Authorization: 'Bearer abc'};
+
+    afterEach(() => {
+      (Keychain.getGenericPassword as jest.Mock).mockImplementation(() =>
+        Promise.resolve({password: 'mockPass', username: 'mockUser'}),
+      );
+      runInAction(() => {
+        modelStore.models = modelStore.models.filter(
+          m => m.origin !== ModelOrigin.URL,
+        );
+      });
+    });
+
+    it('adds the model, keeps its headers and starts the download', async () => {
+      (RNFS.exists as jest.Mock).mockResolvedValue(false);
+      // Only the header entry answers with the headers; the HF token read
+      // keeps the default mock.
+      (Keychain.getGenericPassword as jest.Mock).mockImplementation(
+        async (options?: {service?: string}) => ({
+          username: 'headers',
+          password: options?.service?.startsWith('pocketpal-model-url-')
+            ? JSON.stringify(headers)
+            : 'mockPass',
+        }),
+      );
+
+      const model = await modelStore.addUrlModel(probe, headers);
+      // checkSpaceAndDownload is not awaited by addUrlModel
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(model).toMatchObject({
+        origin: ModelOrigin.URL,
+        author: 'nas.local',
+        filename: 'tiny-Q8_0.gguf',
+        downloadUrl: probe.downloadUrl,
+        isDownloaded: false,
+      });
+      expect(Keychain.setGenericPassword).toHaveBeenCalledWith(
+        'headers',
+        JSON.stringify(headers),
+        {service: `pocketpal-model-url-${model.id}`},
+      );
+      expect(downloadManager.startDownload).toHaveBeenCalledWith(
+        expect.objectContaining({id: model.id}),
+        `/path/to/documents/models/url/${model.id}/tiny-Q8_0.gguf`,
+        expect.anything(),
+        headers,
+      );
+    });
+
+    it('reuses the model already added for the same link', async () => {
+      const first = await modelStore.addUrlModel(probe);
+      const second = await modelStore.addUrlModel(probe);
+
+      expect(second.id).toBe(first.id);
+      expect(
+        modelStore.models.filter(m => m.origin === ModelOrigin.URL),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('LoRA adapters', () => {
+    let initLlamaMock: jest.Mock;
+    const originalInitContext = modelStore.initContext;
+    const llama = {architecture: 'llama'} as GGUFMetadata;
+    const base = {
+      ...basicModel,
+      id: 'base',
+      isDownloaded: true,
+      ggufMetadata: llama,
+    };
+    const adapterA = {
+      ...basicModel,
+      id: 'lora-a',
+      filename: 'pirate.gguf',
+      isDownloaded: true,
+      modelType: ModelType.LORA,
+      adapterArchitecture: 'llama',
+    };
+    const adapterB = {
+      ...adapterA,
+      id: 'lora-b',
+      filename: 'poet.gguf',
+    };
+
+    const mockContext = () =>
+      ({
+        release: jest.fn().mockResolvedValue(undefined),
+        applyLoraAdapters: jest.fn().mockResolvedValue(undefined),
+        removeLoraAdapters: jest.fn().mockResolvedValue(undefined),
+      }) as unknown as LlamaContext;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      modelStore.initContext = originalInitContext;
+      runInAction(() => {
+        modelStore.models = [
+          {...base, loraAdapters: [{id: 'lora-a', scale: 0.8}]},
+          {...adapterA},
+          {...adapterB},
+        ];
+        modelStore.context = undefined;
+        modelStore.activeModelId = undefined;
+        modelStore.activeLoraAdapters = [];
+      });
+
+      const {initLlama} = require('llama.rn');
+      initLlamaMock = initLlama;
+      initLlamaMock.mockReset();
+      initLlamaMock.mockImplementation(async () => mockContext());
+    });
+
+    it('keeps adapters out of the model lists', () => {
+      expect(modelStore.displayModels.map(m => m.id)).not.toContain('lora-a');
+      expect(modelStore.availableModels.map(m => m.id)).not.toContain('lora-a');
+      expect(
+        modelStore.getCompatibleLoraAdapters('base').map(m => m.id),
+      ).toEqual(['lora-a', 'lora-b']);
+    });
+
+    it("applies the model's adapters when it loads", async () => {
+      const ctx = await modelStore.initContext(modelStore.models[0]);
+
+      expect(ctx!.applyLoraAdapters).toHaveBeenCalledWith([
+        {path: expect.stringContaining('pirate.gguf'), scaled: 0.8},
+      ]);
+      expect(modelStore.activeLoraAdapters).toEqual([
+        {id: 'lora-a', scale: 0.8},
+      ]);
+    });
+
+    it('lets pinned adapters replace them, once', async () => {
+      const ctx = await modelStore.initContext(modelStore.models[0]);
+      (ctx!.applyLoraAdapters as jest.Mock).mockClear();
+
+      await modelStore.syncLoraAdapters([{id: 'lora-b', scale: 1}]);
+      await modelStore.syncLoraAdapters([{id: 'lora-b', scale: 1}]);
+
+      expect(ctx!.removeLoraAdapters).toHaveBeenCalledTimes(1);
+      expect(ctx!.applyLoraAdapters).toHaveBeenCalledTimes(1);
+      expect(ctx!.applyLoraAdapters).toHaveBeenCalledWith([
+        {path: expect.stringContaining('poet.gguf'), scaled: 1},
+      ]);
+    });
+
+    it('re-applies when the active model selection changes', async () => {
+      const ctx = await modelStore.initContext(modelStore.models[0]);
+
+      await modelStore.setModelLoraAdapters('base', []);
+
+      expect(ctx!.removeLoraAdapters).toHaveBeenCalled();
+      expect(modelStore.activeLoraAdapters).toEqual([]);
+      expect(modelStore.models[0].loraAdapters).toEqual([]);
+    });
+
+    it('detaches a deleted adapter', async () => {
+      const ctx = await modelStore.initContext(modelStore.models[0]);
+
+      await modelStore.deleteModel(modelStore.models[1]);
+
+      expect(modelStore.models[0].loraAdapters).toEqual([]);
+      expect(ctx!.removeLoraAdapters).toHaveBeenCalled();
+      expect(modelStore.activeLoraAdapters).toEqual([]);
+    });
+
+    it('reads the adapter architecture from the downloaded file', async () => {
+      const {loadLlamaModelInfo} = require('llama.rn');
+      loadLlamaModelInfo.mockResolvedValueOnce({
+        'general.architecture': 'qwen2',
+      });
+
+      await modelStore.fetchAndPersistLoraArchitecture(modelStore.models[1]);
+
+      expect(modelStore.models[1].adapterArchitecture).toBe('qwen2');
+    });
+  });
+
   describe('checkSpaceAndDownload vision model auto-download', () => {
     beforeEach(() => {
       jest.clearAllMocks();
@@ -4833,6 +5759,171 @@ describe('ModelStore', () => {
 
       expect((modelStore.engine as any).serverType).toBe('Ollama');
     });
+
+    it('builds the Anthropic engine for an Anthropic server', async () => {
+      runInAction(() => {
+        serverStore.servers = [
+          {
+            id: 'srv-1',
+            name: 'Gateway',
+            url: 'http://localhost:4000',
+            requestTimeoutMs: 45000,
+            serverType: 'Anthropic',
+          },
+        ];
+      });
+
+      await modelStore.setRemoteModel(remoteModel);
+
+      expect(modelStore.engine).toBeInstanceOf(AnthropicCompletionEngine);
+      expect((modelStore.engine as any).timeoutMs).toBe(45000);
+    });
+  });
+
+  describe('setRemoteModel model groups', () => {
+    const remoteModel = {
+      id: 'lan/qwen3-8b',
+      name: 'qwen3-8b',
+      origin: ModelOrigin.REMOTE,
+      serverId: 'lan',
+      remoteModelId: 'qwen3-8b',
+    } as any;
+
+    const routesOf = async () =>
+      (modelStore.engine as any).resolveRoutes() as Promise<any[]>;
+
+    beforeEach(() => {
+      runInAction(() => {
+        modelStore.context = undefined;
+        serverStore.servers = [
+          {id: 'lan', name: 'LAN box', url: 'http://lan:8080'},
+          {
+            id: 'cloud',
+            name: 'Cloud',
+            url: 'http://cloud:11434',
+            serverType: 'Ollama',
+          },
+        ];
+        serverStore.modelGroups = {};
+        serverStore.serverHealth = {};
+      });
+      jest
+        .spyOn(serverStore, 'fetchRemoteModelCaps')
+        .mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      runInAction(() => {
+        serverStore.modelGroups = {};
+      });
+    });
+
+    it('keeps the plain engine for a model without a group', async () => {
+      await modelStore.setRemoteModel(remoteModel);
+
+      expect(modelStore.engine).toBeInstanceOf(OpenAICompletionEngine);
+    });
+
+    it('routes a grouped model through its backends in priority order', async () => {
+      runInAction(() => {
+        serverStore.modelGroups = {
+          'lan/qwen3-8b': {
+            backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+            policy: 'priority',
+          },
+        };
+      });
+
+      await modelStore.setRemoteModel(remoteModel);
+
+      expect(modelStore.engine).toBeInstanceOf(ModelGroupCompletionEngine);
+      // The binding still describes the model's own server
+      expect(modelStore.activeRemoteBinding?.serverId).toBe('lan');
+      const routes = await routesOf();
+      expect(routes.map(r => r.backend.name)).toEqual(['LAN box', 'Cloud']);
+      const cloudEngine = await routes[1].createEngine();
+      expect(cloudEngine).toBeInstanceOf(OpenAICompletionEngine);
+      expect(cloudEngine.serverType).toBe('Ollama');
+    });
+
+    it('checks every server and puts the fastest first under latency', async () => {
+      runInAction(() => {
+        serverStore.modelGroups = {
+          'lan/qwen3-8b': {
+            backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+            policy: 'latency',
+          },
+        };
+      });
+      const check = jest
+        .spyOn(serverStore, 'checkServerHealth')
+        .mockImplementation(async serverId => {
+          const health = {
+            ok: true,
+            latencyMs: serverId === 'lan' ? 400 : 30,
+            checkedAt: Date.now(),
+          };
+          runInAction(() => {
+            serverStore.serverHealth[serverId] = health;
+          });
+          return health;
+        });
+
+      await modelStore.setRemoteModel(remoteModel);
+      const routes = await routesOf();
+
+      expect(check).toHaveBeenCalledTimes(2);
+      expect(routes.map(r => r.backend.serverId)).toEqual(['cloud', 'lan']);
+    });
+
+    it('ends with the local fallback when it is downloaded', async () => {
+      const localModel = {
+        id: 'local-qwen',
+        name: 'Qwen3 8B',
+        origin: ModelOrigin.LOCAL,
+        isLocal: true,
+        isDownloaded: true,
+      } as any;
+      runInAction(() => {
+        modelStore.models = [localModel];
+        serverStore.modelGroups = {
+          'lan/qwen3-8b': {
+            backends: [],
+            policy: 'priority',
+            localModelId: 'local-qwen',
+          },
+        };
+      });
+
+      await modelStore.setRemoteModel(remoteModel);
+      const routes = await routesOf();
+
+      expect(routes[routes.length - 1].backend).toEqual({
+        modelId: 'local-qwen',
+        name: 'Qwen3 8B',
+        isLocal: true,
+      });
+    });
+
+    it('marks a server down when its turn fails to connect', async () => {
+      runInAction(() => {
+        serverStore.modelGroups = {
+          'lan/qwen3-8b': {
+            backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+            policy: 'priority',
+          },
+        };
+      });
+
+      await modelStore.setRemoteModel(remoteModel);
+      (modelStore.engine as any).onRouteFailed(
+        {modelId: 'lan/qwen3-8b', name: 'LAN box', serverId: 'lan'},
+        new Error('Network error'),
+      );
+
+      expect(serverStore.serverHealth.lan.ok).toBe(false);
+    });
   });
 
   describe('setRemoteModel capability probe', () => {
@@ -5088,6 +6179,61 @@ describe('ModelStore', () => {
     });
   });
 
+  describe('download verification', () => {
+    // setCallbacks runs once, when the store is created.
+    const {onComplete} = (downloadManager.setCallbacks as jest.Mock).mock
+      .calls[0][0];
+    const {loadLlamaModelInfo} = require('llama.rn');
+    const downloaded = () =>
+      ({
+        ...presetModelFixture,
+        origin: ModelOrigin.HF,
+        isDownloaded: false,
+        hfModelFile: {
+          rfilename: 'gemma-2-2b-it-Q6_K.gguf',
+          lfs: {oid: 'ABC123', size: 10, pointerSize: 1},
+        },
+      }) as Model;
+
+    beforeEach(() => {
+      (downloadManager.isDownloading as jest.Mock).mockReturnValue(false);
+      (loadLlamaModelInfo as jest.Mock).mockReset().mockResolvedValue(null);
+      modelStore.clearDownloadError();
+    });
+
+    it('keeps a download whose sha256 matches the LFS oid', async () => {
+      modelStore.models = [downloaded()];
+      const model = modelStore.models[0];
+      (RNFS.hash as jest.Mock).mockResolvedValueOnce('abc123');
+
+      await onComplete(model.id);
+
+      expect(model.isDownloaded).toBe(true);
+      expect(model.hash).toBe('abc123');
+      expect(modelStore.downloadError).toBeNull();
+      // Metadata is read once the file checks out.
+      expect(loadLlamaModelInfo).toHaveBeenCalled();
+    });
+
+    it('deletes a corrupted download and reports it', async () => {
+      modelStore.models = [downloaded()];
+      const model = modelStore.models[0];
+      (RNFS.hash as jest.Mock).mockResolvedValueOnce('deadbeef');
+      const filePath = await modelStore.getModelFullPath(model);
+
+      await onComplete(model.id);
+
+      expect(model.isDownloaded).toBe(false);
+      expect(model.hash).toBeUndefined();
+      expect(RNFS.unlink).toHaveBeenCalledWith(filePath);
+      expect(modelStore.downloadError).toMatchObject({
+        code: 'corrupted',
+        metadata: {modelId: model.id},
+      });
+      expect(loadLlamaModelInfo).not.toHaveBeenCalled();
+    });
+  });
+
   describe('fetchAndPersistGGUFMetadata error handling', () => {
     const {loadLlamaModelInfo} = require('llama.rn');
 
@@ -0,0 +1,145 @@
+import {runInAction} from 'mobx';
+
+jest.mock('../../repositories/PalMemoryRepository', () => ({
+  palMemoryRepository: {
+    getMemories: jest.fn().mockResolvedValue([]),
+    addMemories: jest.fn(),
+    updateMemory: jest.fn(),
+    deleteMemory: jest.fn().mockResolvedValue(undefined),
+    deletePalMemories: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import {
+  palMemoryStore,
+  MAX_MEMORIES_PER_PAL,
+  MAX_MEMORY_CHARS,
+} from '../PalMemoryStore';
+import {palMemoryRepository} from '../../repositories/PalMemoryRepository';
+import type {PalMemoryEntry} from '../../types/pal';
+
+const repo = palMemoryRepository as jest.Mocked<typeof palMemoryRepository>;
+
+const memory = (
+  id: string,
+  content: string,
+  palId = 'pal-1',
+): PalMemoryEntry => ({id, palId, content, createdAt: 1, updatedAt: 1});
+
+describe('PalMemoryStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runInAction(() => {
+      palMemoryStore.memories = [
+        memory('m1', 'The user is vegetarian.'),
+        memory('m2', 'Likes hiking.', 'pal-2'),
+      ];
+    });
+    let next = 0;
+    repo.addMemories.mockImplementation(async (palId, entries) =>
+      entries.map(({content, createdAt}) => ({
+        id: `new-${++next}`,
+        palId,
+        content,
+        createdAt: createdAt ?? 5,
+        updatedAt: 5,
+      })),
+    );
+  });
+
+  it('keeps memories per Pal', () => {
+    expect(palMemoryStore.memoriesFor('pal-1').map(m => m.id)).toEqual(['m1']);
+    expect(palMemoryStore.search('pal-2', 'hiking', 5)).toHaveLength(1);
+    expect(palMemoryStore.search('pal-1', 'hiking', 5)).toEqual([]);
+  });
+
+  it('saves a normalized memory', async () => {
+    const saved = await palMemoryStore.remember(
+      'pal-1',
+      '  Has a   sister\ncalled Ana. ',
+    );
+
+    expect(repo.addMemories).toHaveBeenCalledWith('pal-1', [
+      {content: 'Has a sister called Ana.'},
+    ]);
+    expect(saved.content).toBe('Has a sister called Ana.');
+    expect(palMemoryStore.memoriesFor('pal-1')).toHaveLength(2);
+  });
+
+  it('returns the existing memory instead of saving a duplicate', async () => {
+    const saved = await palMemoryStore.remember(
+      'pal-1',
+      'the user is VEGETARIAN.',
+    );
+
+    expect(saved.id).toBe('m1');
+    expect(repo.addMemories).not.toHaveBeenCalled();
+  });
+
+  it('rejects empty, oversized and overflowing memories', async () => {
+    await expect(palMemoryStore.remember('pal-1', '  ')).rejects.toThrow(
+      'Memory is empty',
+    );
+    await expect(
+      palMemoryStore.remember('pal-1', 'x'.repeat(MAX_MEMORY_CHARS + 1)),
+    ).rejects.toThrow('Memory is too long');
+
+    runInAction(() => {
+      palMemoryStore.memories = Array.from(
+        {length: MAX_MEMORIES_PER_PAL},
+        (_, i) => memory(`m${i}`, `Fact ${i}`),
+      );
+    });
+    await expect(palMemoryStore.remember('pal-1', 'One more')).rejects.toThrow(
+      'Memory is full',
+    );
+    expect(repo.addMemories).not.toHaveBeenCalled();
+  });
+
+  it('edits and forgets memories', async () => {
+    repo.updateMemory.mockResolvedValue({
+      ...memory('m1', 'The user is vegan.'),
+      updatedAt: 9,
+    });
+
+    await palMemoryStore.updateMemory('m1', 'The user is vegan.');
+    expect(palMemoryStore.memoriesFor('pal-1')[0].content).toBe(
+      'The user is vegan.',
+    );
+
+    await palMemoryStore.forget('m1');
+    expect(repo.deleteMemory).toHaveBeenCalledWith('m1');
+    expect(palMemoryStore.memoriesFor('pal-1')).toEqual([]);
+  });
+
+  it('forgets everything a Pal saved', async () => {
+    await palMemoryStore.forgetAll('pal-2');
+
+    expect(repo.deletePalMemories).toHaveBeenCalledWith('pal-2');
+    expect(palMemoryStore.memories.map(m => m.id)).toEqual(['m1']);
+  });
+
+  it('round-trips memories through export and import', async () => {
+    const exported = palMemoryStore.exportMemories('pal-1');
+    expect(exported).toEqual([
+      {content: 'The user is vegetarian.', createdAt: 1},
+    ]);
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const added = await palMemoryStore.importMemories('pal-3', [
+      ...exported,
+      {content: 'the user is vegetarian.'},
+      {content: 42},
+      null,
+      {content: 'Speaks French.', createdAt: 'yesterday'},
+    ]);
+    warn.mockRestore();
+
+    expect(added).toBe(2);
+    expect(repo.addMemories).toHaveBeenCalledWith('pal-3', [
+      {content: 'The user is vegetarian.', createdAt: 1},
+      {content: 'Speaks French.', createdAt: undefined},
+    ]);
+    expect(palMemoryStore.memoriesFor('pal-3')).toHaveLength(2);
+  });
+});
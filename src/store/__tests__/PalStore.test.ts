@@ -1,6 +1,7 @@
 import {runInAction} from 'mobx';
 import {Platform} from 'react-native';
 import {palStore} from '../PalStore';
+import {palMemoryStore} from '../PalMemoryStore';
 import {palsHubService} from '../../services';
 import {isUSStorefront} from '../../utils/region';
 import {palRepository} from '../../repositories/PalRepository';
@@ -46,7 +47,7 @@ jest.mock('../../services', () => ({
 
 // Mock MobX persist
 jest.mock('mobx-persist-store', () => ({
-  makePersistable: jest.fn(),
+  makePersistable: jest.fn().mockReturnValue(Promise.resolve()),
 }));
 
 // Eligibility writer dependencies: iOS StoreKit storefront + Android probe.
@@ -526,6 +527,18 @@ describe('PalStore', () => {
         expect(palStore.pals).not.toContain(mockPal);
       });
 
+      it("should delete the pal's memories", async () => {
+        (palRepository.deletePal as jest.Mock).mockResolvedValue(true);
+        const forgetAll = jest
+          .spyOn(palMemoryStore, 'forgetAll')
+          .mockResolvedValue(undefined);
+
+        await palStore.deletePal(mockPal.id);
+
+        expect(forgetAll).toHaveBeenCalledWith(mockPal.id);
+        forgetAll.mockRestore();
+      });
+
       it('should handle deletion errors gracefully', async () => {
         const error = new Error('Deletion failed');
         (palRepository.deletePal as jest.Mock).mockRejectedValue(error);
@@ -53,6 +53,8 @@ describe('ServerStore', () => {
       serverStore.privacyNoticeAcknowledged = false;
       serverStore.remoteReasoning = {};
       serverStore.remoteCaps = {};
+      serverStore.modelGroups = {};
+      serverStore.serverHealth = {};
     });
   });
 
@@ -518,6 +520,7 @@ describe('ServerStore', () => {
         'userSelectedModels',
         'remoteReasoning',
         'remoteCaps',
+        'modelGroups',
       ]);
     });
   });
@@ -719,6 +722,7 @@ describe('ServerStore', () => {
         'http://localhost:1234',
         undefined,
         600000,
+        undefined,
       );
     });
 
@@ -740,6 +744,7 @@ describe('ServerStore', () => {
         'http://localhost:1234',
         undefined,
         undefined,
+        undefined,
       );
       expect(serverStore.error).toBeNull();
     });
@@ -834,6 +839,7 @@ describe('ServerStore', () => {
         'http://localhost:1234',
         undefined,
         undefined,
+        undefined,
       );
     });
 
@@ -863,6 +869,7 @@ describe('ServerStore', () => {
         'http://localhost:1234',
         undefined,
         600000,
+        undefined,
       );
     });
 
@@ -884,8 +891,183 @@ describe('ServerStore', () => {
         'http://localhost:1234',
         'sk-key',
         undefined,
+        undefined,
+      );
+    });
+  });
+
+  describe('model groups', () => {
+    it('sets and removes a group under the model id', () => {
+      serverStore.setModelGroup('lan/qwen3-8b', {
+        backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+        policy: 'latency',
+      });
+      expect(serverStore.modelGroups['lan/qwen3-8b'].policy).toBe('latency');
+
+      serverStore.removeModelGroup('lan/qwen3-8b');
+      expect(serverStore.modelGroups['lan/qwen3-8b']).toBeUndefined();
+    });
+
+    it('drops a group that routes nothing', () => {
+      serverStore.setModelGroup('lan/qwen3-8b', {
+        backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+        policy: 'priority',
+      });
+      serverStore.setModelGroup('lan/qwen3-8b', {
+        backends: [],
+        policy: 'priority',
+      });
+      expect(serverStore.modelGroups).toEqual({});
+    });
+
+    it('keeps a group with only a local fallback', () => {
+      serverStore.setModelGroup('lan/qwen3-8b', {
+        backends: [],
+        policy: 'priority',
+        localModelId: 'local-qwen',
+      });
+      expect(serverStore.modelGroups['lan/qwen3-8b'].localModelId).toBe(
+        'local-qwen',
       );
     });
+
+    it('removing a server drops its groups and its backends elsewhere', () => {
+      const lan = serverStore.addServer({name: 'LAN', url: 'http://lan:8080'});
+      const cloud = serverStore.addServer({
+        name: 'Cloud',
+        url: 'http://cloud:8080',
+      });
+      serverStore.setModelGroup(`${lan}/qwen3-8b`, {
+        backends: [{serverId: cloud, remoteModelId: 'qwen3:8b'}],
+        policy: 'priority',
+      });
+      serverStore.setModelGroup(`${cloud}/qwen3:8b`, {
+        backends: [{serverId: lan, remoteModelId: 'qwen3-8b'}],
+        policy: 'priority',
+        localModelId: 'local-qwen',
+      });
+
+      serverStore.removeServer(lan);
+
+      expect(serverStore.modelGroups).toEqual({
+        [`${cloud}/qwen3:8b`]: {
+          backends: [],
+          policy: 'priority',
+          localModelId: 'local-qwen',
+        },
+      });
+    });
+
+    it('removing the model drops its group', () => {
+      serverStore.addUserSelectedModel('lan', 'qwen3-8b');
+      serverStore.setModelGroup('lan/qwen3-8b', {
+        backends: [{serverId: 'cloud', remoteModelId: 'qwen3:8b'}],
+        policy: 'priority',
+      });
+
+      serverStore.removeUserSelectedModel('lan', 'qwen3-8b');
+
+      expect(serverStore.modelGroups).toEqual({});
+    });
+  });
+
+  describe('checkServerHealth', () => {
+    beforeEach(() => {
+      (Keychain.getGenericPassword as jest.Mock).mockResolvedValue(false);
+    });
+
+    it('records a reachable server with its latency', async () => {
+      const id = serverStore.addServer({
+        name: 'Ollama',
+        url: 'http://localhost:11434',
+        serverType: 'Ollama',
+      });
+      mockedTestConnection.mockResolvedValueOnce({ok: true, modelCount: 2});
+
+      const health = await serverStore.checkServerHealth(id, 'qwen3:8b');
+
+      expect(health.ok).toBe(true);
+      expect(health.latencyMs).toBeGreaterThanOrEqual(0);
+      expect(serverStore.serverHealth[id]).toEqual(health);
+      expect(mockedFetchServerProps).not.toHaveBeenCalled();
+      expect(mockedTestConnection).toHaveBeenCalledWith(
+        'http://localhost:11434',
+        undefined,
+        PROPS_TIMEOUT_MS,
+        'Ollama',
+      );
+    });
+
+    it('records an unreachable server without a latency', async () => {
+      const id = serverStore.addServer({name: 'LAN', url: 'http://lan:8080'});
+      mockedTestConnection.mockResolvedValueOnce({
+        ok: false,
+        modelCount: 0,
+        error: 'Network error',
+      });
+
+      const health = await serverStore.checkServerHealth(id);
+
+      expect(health).toEqual({ok: false, checkedAt: expect.any(Number)});
+    });
+
+    it('takes a llama.cpp /props answer for the model as healthy', async () => {
+      const id = serverStore.addServer({
+        name: 'llama',
+        url: 'http://localhost:8080',
+        serverType: 'llama.cpp',
+      });
+      mockedFetchServerProps.mockResolvedValueOnce({contextLength: 8192});
+
+      const health = await serverStore.checkServerHealth(id, 'qwen3-8b');
+
+      expect(health.ok).toBe(true);
+      expect(mockedTestConnection).not.toHaveBeenCalled();
+    });
+
+    it('falls back to testConnection when /props describes no model', async () => {
+      const id = serverStore.addServer({
+        name: 'llama router',
+        url: 'http://localhost:8080',
+        serverType: 'llama.cpp',
+      });
+      mockedFetchServerProps.mockResolvedValueOnce({});
+      mockedTestConnection.mockResolvedValueOnce({ok: true, modelCount: 4});
+
+      const health = await serverStore.checkServerHealth(id, 'qwen3-8b');
+
+      expect(health.ok).toBe(true);
+      expect(mockedTestConnection).toHaveBeenCalledTimes(1);
+    });
+
+    it('answers from a recent check unless forced', async () => {
+      const id = serverStore.addServer({name: 'LAN', url: 'http://lan:8080'});
+      mockedTestConnection.mockResolvedValue({ok: true, modelCount: 1});
+
+      await serverStore.checkServerHealth(id);
+      await serverStore.checkServerHealth(id);
+      expect(mockedTestConnection).toHaveBeenCalledTimes(1);
+
+      await serverStore.checkServerHealth(id, undefined, true);
+      expect(mockedTestConnection).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not record a check against a server repointed meanwhile', async () => {
+      const id = serverStore.addServer({name: 'LAN', url: 'http://lan:8080'});
+      mockedTestConnection.mockImplementationOnce(async () => {
+        serverStore.updateServer(id, {url: 'http://other:8080'});
+        return {ok: true, modelCount: 1};
+      });
+
+      await serverStore.checkServerHealth(id);
+
+      expect(serverStore.serverHealth[id]).toBeUndefined();
+    });
+
+    it('recordServerFailure marks the server down', () => {
+      serverStore.recordServerFailure('lan');
+      expect(serverStore.serverHealth.lan.ok).toBe(false);
+    });
   });
 
   describe('acknowledgePrivacyNotice', () => {
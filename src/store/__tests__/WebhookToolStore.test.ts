@@ -0,0 +1,134 @@
+import {runInAction} from 'mobx';
+
+import * as Keychain from 'react-native-keychain';
+
+jest.mock('mobx-persist-store', () => ({
+  makePersistable: jest.fn().mockReturnValue(Promise.resolve()),
+}));
+
+import {webhookToolStore} from '../WebhookToolStore';
+import type {WebhookToolExport} from '../WebhookToolStore';
+import {talentRegistry} from '../../services/talents/TalentRegistry';
+import {WebhookToolEngine} from '../../services/talents/WebhookToolEngine';
+
+const lookup: WebhookToolExport = {
+  name: 'lookup_order',
+  description: 'Look up an order',
+  parameters: {type: 'object', properties: {id: {type: 'string'}}},
+  urlTemplate: 'https://api.example.com/orders/{id}',
+  method: 'GET',
+  headers: [
+    {name: 'Accept', value: 'application/json'},
+    {name: 'Authorization', secret: true},
+  ],
+};
+
+describe('WebhookToolStore', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    for (const tool of [...webhookToolStore.tools]) {
+      await webhookToolStore.removeTool(tool.id);
+    }
+    runInAction(() => {
+      webhookToolStore.tools = [];
+    });
+  });
+
+  it('registers an added tool and keeps its secrets in Keychain', async () => {
+    const id = await webhookToolStore.addTool(lookup, {
+      Authorization: 'Bearer s3cret',
+    });
+
+    expect(talentRegistry.get('lookup_order')).toBeInstanceOf(
+      WebhookToolEngine,
+    );
+    expect(Keychain.setGenericPassword).toHaveBeenCalledWith(
+      'headers',
+      JSON.stringify({Authorization: 'Bearer s3cret'}),
+      {service: `pocketpal-webhook-${id}`},
+    );
+    expect(JSON.stringify(webhookToolStore.tools)).not.toContain('s3cret');
+  });
+
+  it('refuses names taken by built-ins or other tools', async () => {
+    await webhookToolStore.addTool(lookup);
+
+    expect(webhookToolStore.isNameAvailable('calculate')).toBe(false);
+    expect(webhookToolStore.isNameAvailable('lookup_order')).toBe(false);
+    await expect(webhookToolStore.addTool(lookup)).rejects.toThrow(
+      'A talent named "lookup_order" already exists',
+    );
+  });
+
+  it('re-registers under the new name on rename', async () => {
+    const id = await webhookToolStore.addTool(lookup);
+
+    await webhookToolStore.updateTool(id, {name: 'find_order'});
+
+    expect(talentRegistry.has('lookup_order')).toBe(false);
+    expect(talentRegistry.get('find_order')).toBeInstanceOf(WebhookToolEngine);
+    expect(webhookToolStore.isNameAvailable('find_order', id)).toBe(true);
+  });
+
+  it('removes the tool, its talent and its secrets', async () => {
+    const id = await webhookToolStore.addTool(lookup);
+
+    await webhookToolStore.removeTool(id);
+
+    expect(webhookToolStore.tools).toEqual([]);
+    expect(talentRegistry.has('lookup_order')).toBe(false);
+    expect(Keychain.resetGenericPassword).toHaveBeenCalledWith({
+      service: `pocketpal-webhook-${id}`,
+    });
+  });
+
+  it('exports only the named tools, without ids or secret values', async () => {
+    await webhookToolStore.addTool(lookup);
+    await webhookToolStore.addTool({...lookup, name: 'other_tool'});
+
+    expect(webhookToolStore.exportTools(['lookup_order', 'calculate'])).toEqual(
+      [lookup],
+    );
+  });
+
+  it('imports valid tools and skips taken names and malformed entries', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await webhookToolStore.addTool({...lookup, name: 'existing'});
+
+    const added = await webhookToolStore.importTools([
+      {
+        ...lookup,
+        headers: [{name: 'Authorization', secret: true, value: 'leaked'}],
+      },
+      {...lookup, name: 'existing', description: 'different'},
+      {...lookup, name: 'bad_url', urlTemplate: 'file:///etc/passwd'},
+      {...lookup, name: 'bad_method', method: 'TRACE' as any},
+    ]);
+
+    expect(added).toBe(1);
+    expect(webhookToolStore.tools.map(t => t.name)).toEqual([
+      'existing',
+      'lookup_order',
+    ]);
+    expect(webhookToolStore.tools[0].description).toBe('Look up an order');
+    expect(webhookToolStore.tools[1].headers).toEqual([
+      {name: 'Authorization', secret: true},
+    ]);
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+
+  it('removes the tools it added when one of them fails', async () => {
+    const setSecrets = jest
+      .spyOn(webhookToolStore, 'setSecrets')
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('keychain unavailable'));
+
+    await expect(
+      webhookToolStore.importTools([lookup, {...lookup, name: 'second'}]),
+    ).rejects.toThrow('keychain unavailable');
+
+    expect(webhookToolStore.tools).toEqual([]);
+    setSecrets.mockRestore();
+  });
+});
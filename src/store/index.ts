@@ -10,3 +10,9 @@ export * from './ServerStore';
 export * from './TTSStore';
 export * from './CheckoutFlowStore';
 export * from './SearchProviderStore';
+export * from './McpStore';
+export * from './WebhookToolStore';
+export * from './DocumentStore';
+export * from './PalMemoryStore';
+export * from './DownloadQueueStore';
+export * from './LocalServerStore';
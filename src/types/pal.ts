@@ -1,10 +1,23 @@
-import type {Model} from '../utils/types';
+import type {LoraAdapterSetting, Model} from '../utils/types';
 
 export type ParameterType = 'text' | 'select' | 'combobox' | 'datetime_tag';
 
+/**
+ * Whether a talent call runs without asking. `'ask'` pauses the agent loop
+ * until the user answers; `'never'` answers every call with a decline.
+ */
+export type TalentApprovalPolicy = 'always' | 'ask' | 'never';
+
 export interface TalentRef {
   name: string;
   necessity: 'required' | 'optional';
+  /** Omitted means `'always'`. Only offered for sensitive talents. */
+  approval?: TalentApprovalPolicy;
+  /**
+   * Document collections the talent may read. Only offered for talents that
+   * search documents (`TalentEngine.usesDocumentCollections`).
+   */
+  collections?: string[];
 }
 
 export interface ParameterDefinition {
@@ -28,6 +41,18 @@ export interface PalCapabilities {
   tools?: boolean; // Function calling
 }
 
+/**
+ * Something a Pal saved about the user with the `remember` talent. Stored
+ * per Pal; only that Pal's chats see it.
+ */
+export interface PalMemoryEntry {
+  id: string;
+  palId: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 /**
  * Local Pal - A pal that exists on the device
  *
@@ -80,6 +105,8 @@ export interface Pal {
   promptGenerationModel?: Model;
   /** The prompt used to generate the system prompt by AI */
   generatingPrompt?: string;
+  /** LoRA adapters applied while this pal is active, replacing the model's own */
+  loraAdapters?: LoraAdapterSetting[];
 
   // ============================================================================
   // VISUAL CUSTOMIZATION
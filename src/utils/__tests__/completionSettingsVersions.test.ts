@@ -74,7 +74,7 @@ describe('migrateCompletionSettings', () => {
     };
     const migrated = migrateCompletionSettings(settings);
 
-    expect(migrated.version).toBe(4);
+    expect(migrated.version).toBe(5);
     expect(migrated.n_predict).toBe(-1);
     expect(migrated.temperature).toBe(0.7);
   });
@@ -90,7 +90,7 @@ describe('migrateCompletionSettings', () => {
     };
     const migrated = migrateCompletionSettings(settings);
 
-    expect(migrated.version).toBe(4);
+    expect(migrated.version).toBe(5);
     expect(migrated.n_predict).toBe(2048);
   });
 
@@ -101,10 +101,24 @@ describe('migrateCompletionSettings', () => {
     };
     const migrated = migrateCompletionSettings(settings);
 
-    expect(migrated.version).toBe(4);
+    expect(migrated.version).toBe(5);
     expect(migrated.n_predict).toBe(500);
   });
 
+  it('should add context management settings when migrating from version 4', () => {
+    const settings = {
+      version: 4,
+      temperature: 0.7,
+      n_predict: 2048,
+    };
+    const migrated = migrateCompletionSettings(settings);
+
+    expect(migrated.version).toBe(5);
+    expect(migrated.context_strategy).toBe('off');
+    expect(migrated.context_threshold).toBe(0.8);
+    expect(migrated.n_predict).toBe(2048);
+  });
+
   it('should migrate through multiple versions', () => {
     const settings = {
       version: 0,
@@ -125,7 +139,7 @@ describe('migrateCompletionSettings', () => {
     expect(migrated.top_p).toBe(0.9);
   });
 
-  it('should migrate from v0 to v4 applying all migrations including conditional n_predict', () => {
+  it('should migrate from v0 to v5 applying all migrations including conditional n_predict', () => {
     const settings = {
       version: 0,
       temperature: 0.5,
@@ -133,7 +147,7 @@ describe('migrateCompletionSettings', () => {
     };
     const migrated = migrateCompletionSettings(settings);
 
-    expect(migrated.version).toBe(4);
+    expect(migrated.version).toBe(5);
     expect(migrated.include_thinking_in_context).toBe(
       defaultCompletionParams.include_thinking_in_context,
     );
@@ -145,7 +159,7 @@ describe('migrateCompletionSettings', () => {
     expect(migrated.temperature).toBe(0.5);
   });
 
-  it('should migrate from v0 to v4 preserving custom n_predict', () => {
+  it('should migrate from v0 to v5 preserving custom n_predict', () => {
     const settings = {
       version: 0,
       temperature: 0.5,
@@ -153,7 +167,7 @@ describe('migrateCompletionSettings', () => {
     };
     const migrated = migrateCompletionSettings(settings);
 
-    expect(migrated.version).toBe(4);
+    expect(migrated.version).toBe(5);
     expect(migrated.n_predict).toBe(2048);
   });
 
@@ -178,7 +192,7 @@ describe('migrateCompletionSettings', () => {
     };
     const migrated = migrateCompletionSettings(settings);
 
-    expect(migrated.version).toBe(4);
+    expect(migrated.version).toBe(5);
     expect(migrated.n_predict).toBe(1024);
   });
 
@@ -251,7 +265,12 @@ describe('defaultCompletionParams', () => {
     expect(defaultCompletionParams.n_predict).toBe(-1);
   });
 
-  it('should have CURRENT_COMPLETION_SETTINGS_VERSION equal to 4', () => {
-    expect(CURRENT_COMPLETION_SETTINGS_VERSION).toBe(4);
+  it('should leave context management off by default', () => {
+    expect(defaultCompletionParams.context_strategy).toBe('off');
+    expect(defaultCompletionParams.context_threshold).toBe(0.8);
+  });
+
+  it('should have CURRENT_COMPLETION_SETTINGS_VERSION equal to 5', () => {
+    expect(CURRENT_COMPLETION_SETTINGS_VERSION).toBe(5);
   });
 });
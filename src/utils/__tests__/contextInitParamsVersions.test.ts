@@ -4,6 +4,9 @@ import {
   migrateContextInitParams,
   validateContextInitParams,
   createDefaultContextInitParams,
+  createLoadProfile,
+  migrateLoadProfile,
+  applyLoadProfile,
 } from '../contextInitParamsVersions';
 import {CacheType} from '../types';
 
@@ -302,4 +305,56 @@ describe('contextInitParamsVersions', () => {
       expect(defaultSettings.version).toBe(CURRENT_CONTEXT_INIT_PARAMS_VERSION);
     });
   });
+
+  describe('load profiles', () => {
+    it('snapshots only the overridable fields', () => {
+      const params = {
+        ...createDefaultContextInitParams(),
+        n_ctx: 32768,
+        n_threads: 8,
+      };
+
+      const profile = createLoadProfile('Long context', params);
+
+      expect(profile.name).toBe('Long context');
+      expect(profile.version).toBe(CURRENT_CONTEXT_INIT_PARAMS_VERSION);
+      expect(profile.overrides.n_ctx).toBe(32768);
+      expect(profile.overrides.cache_type_k).toBe('f16');
+      expect(profile.overrides).not.toHaveProperty('n_threads');
+      expect(profile.overrides).not.toHaveProperty('version');
+    });
+
+    it('overrides the globals without touching the other fields', () => {
+      const globals = {...createDefaultContextInitParams(), n_threads: 6};
+
+      const applied = applyLoadProfile(globals, {
+        id: 'p1',
+        name: '8B',
+        version: CURRENT_CONTEXT_INIT_PARAMS_VERSION,
+        overrides: {
+          n_ctx: 4096,
+          cache_type_k: CacheType.Q8_0,
+          cache_type_v: CacheType.Q8_0,
+        },
+      });
+
+      expect(applied.n_ctx).toBe(4096);
+      expect(applied.cache_type_k).toBe('q8_0');
+      expect(applied.n_threads).toBe(6);
+      expect(applied.n_batch).toBe(globals.n_batch);
+      expect(applyLoadProfile(globals, undefined)).toBe(globals);
+    });
+
+    it('migrates legacy fields without filling in defaults', () => {
+      const migrated = migrateLoadProfile({
+        id: 'p1',
+        name: 'Old',
+        version: '1.0',
+        overrides: {n_context: 4096, use_mmap: false, n_threads: 2},
+      });
+
+      expect(migrated.version).toBe(CURRENT_CONTEXT_INIT_PARAMS_VERSION);
+      expect(migrated.overrides).toEqual({n_ctx: 4096, use_mmap: 'false'});
+    });
+  });
 });
@@ -0,0 +1,206 @@
+import {assistant, user} from '../chat';
+import {
+  applyContextStrategy,
+  buildSummaryPrompt,
+  ELIDED_TOOL_OUTPUT,
+  isOverThreshold,
+  pickMessagesToSummarize,
+  withContextSummary,
+} from '../contextStrategy';
+import type {CompletionResultSnapshot} from '../completionTypes';
+import type {ChatMessage, MessageType} from '../types';
+
+const text = (
+  id: string,
+  author: typeof user,
+  extra: Partial<MessageType.Text> = {},
+): MessageType.Text => ({
+  id,
+  author,
+  createdAt: 0,
+  type: 'text',
+  text: `${id} text`,
+  ...extra,
+});
+
+const summaryRow = (id: string, throughId: string) =>
+  text(id, assistant, {
+    text: 'the summary',
+    metadata: {system: true, contextSummary: {throughId}},
+  });
+
+// Newest first, as the store keeps them.
+const history = [
+  text('a4', assistant),
+  text('u4', user),
+  text('a3', assistant),
+  text('u3', user),
+  text('a2', assistant),
+  text('u2', user),
+  text('a1', assistant),
+  text('u1', user),
+];
+
+const ids = (messages: MessageType.Any[]) => messages.map(m => m.id);
+
+const snapshot = (used: number): CompletionResultSnapshot => ({
+  content: '',
+  used,
+  contextFull: false,
+  isRemote: false,
+});
+
+describe('contextStrategy', () => {
+  describe('isOverThreshold', () => {
+    it('compares the last reply against the context window', () => {
+      expect(isOverThreshold(snapshot(800), 1000, 0.8)).toBe(true);
+      expect(isOverThreshold(snapshot(799), 1000, 0.8)).toBe(false);
+    });
+
+    it('needs both a snapshot and a known n_ctx', () => {
+      expect(isOverThreshold(undefined, 1000, 0.8)).toBe(false);
+      expect(isOverThreshold(snapshot(5000), undefined, 0.8)).toBe(false);
+    });
+  });
+
+  describe('withContextSummary', () => {
+    it('keeps the full history when there is no summary', () => {
+      expect(withContextSummary(history)).toEqual({history});
+    });
+
+    it('replaces the covered messages with the latest summary', () => {
+      const messages = [
+        text('u5', user),
+        summaryRow('s2', 'a2'),
+        ...history.slice(0, 4),
+        summaryRow('s1', 'a1'),
+        ...history.slice(4),
+      ];
+      const result = withContextSummary(messages);
+      expect(ids(result.history)).toEqual(['u5', 'a4', 'u4', 'a3', 'u3']);
+      expect(result.summary).toBe('the summary');
+    });
+  });
+
+  describe('pickMessagesToSummarize', () => {
+    it('covers everything but the recent turns, oldest first', () => {
+      const picked = pickMessagesToSummarize(history);
+      expect(picked?.throughId).toBe('a2');
+      expect(ids(picked!.messages)).toEqual(['u1', 'a1', 'u2', 'a2']);
+    });
+
+    it('starts the kept turns with a user message', () => {
+      const picked = pickMessagesToSummarize([
+        text('a5', assistant),
+        ...history,
+      ]);
+      // Keeping four messages would start on a3, so u3 stays too.
+      expect(picked?.throughId).toBe('a2');
+    });
+
+    it('only covers messages after the previous summary', () => {
+      const messages = [
+        ...history.slice(0, 6),
+        summaryRow('s1', 'a1'),
+        ...history.slice(6),
+      ];
+      expect(ids(pickMessagesToSummarize(messages)!.messages)).toEqual([
+        'u2',
+        'a2',
+      ]);
+    });
+
+    it('returns nothing for a short chat', () => {
+      expect(pickMessagesToSummarize(history.slice(0, 4))).toBeUndefined();
+    });
+  });
+
+  describe('buildSummaryPrompt', () => {
+    it('folds the previous summary and a transcript into one request', () => {
+      const prompt = buildSummaryPrompt('before', [
+        text('u1', user),
+        text('a1', assistant),
+      ]);
+      expect(prompt[0].role).toBe('system');
+      expect(prompt[1]).toEqual({
+        role: 'user',
+        content:
+          'Summary of what came before:\nbefore\n\n' +
+          'Conversation:\nUser: u1 text\n\nAssistant: a1 text',
+      });
+    });
+  });
+
+  describe('applyContextStrategy', () => {
+    // 30 characters is 10 estimated tokens.
+    const chunk = 'x'.repeat(30);
+    const prompt: ChatMessage[] = [
+      {role: 'system', content: chunk},
+      {role: 'user', content: chunk},
+      {role: 'assistant', content: chunk},
+      {role: 'tool', content: chunk.repeat(5)},
+      {role: 'assistant', content: chunk},
+      {role: 'user', content: chunk},
+      {role: 'assistant', content: chunk},
+      {role: 'user', content: chunk},
+    ];
+    const roles = (messages: ChatMessage[]) => messages.map(m => m.role);
+
+    it('leaves the prompt alone for off and summarize', () => {
+      for (const strategy of ['off', 'summarize'] as const) {
+        expect(
+          applyContextStrategy(prompt, {strategy, nCtx: 10, threshold: 0.8}),
+        ).toBe(prompt);
+      }
+    });
+
+    it('leaves a prompt that fits alone', () => {
+      expect(
+        applyContextStrategy(prompt, {
+          strategy: 'sliding_window',
+          nCtx: 1000,
+          threshold: 0.8,
+        }),
+      ).toBe(prompt);
+    });
+
+    it('drops the oldest turns but keeps the system message', () => {
+      const result = applyContextStrategy(prompt, {
+        strategy: 'sliding_window',
+        nCtx: 100,
+        threshold: 0.8,
+      });
+      expect(roles(result)).toEqual(['system', 'user', 'assistant', 'user']);
+    });
+
+    it('always keeps the newest user message', () => {
+      const result = applyContextStrategy(prompt, {
+        strategy: 'sliding_window',
+        nCtx: 10,
+        threshold: 0.8,
+      });
+      expect(roles(result)).toEqual(['system', 'user']);
+    });
+
+    it('drops tool outputs before whole turns', () => {
+      const result = applyContextStrategy(prompt, {
+        strategy: 'drop_tool_outputs',
+        nCtx: 120,
+        threshold: 0.8,
+      });
+      expect(result).toHaveLength(prompt.length);
+      expect(result[3].content).toBe(ELIDED_TOOL_OUTPUT);
+      expect(prompt[3].content).toBe(chunk.repeat(5));
+    });
+
+    it('does nothing without a known n_ctx', () => {
+      expect(
+        applyContextStrategy(prompt, {
+          strategy: 'sliding_window',
+          nCtx: undefined,
+          threshold: 0.8,
+        }),
+      ).toBe(prompt);
+    });
+  });
+});
@@ -58,7 +58,7 @@ jest.mock('date-fns', () => ({
 
 // Import the actual repository to spy on it
 import {chatSessionRepository} from '../../repositories/ChatSessionRepository';
-import {palStore} from '../../store';
+import {palStore, webhookToolStore, palMemoryStore} from '../../store';
 import {
   getAbsoluteThumbnailPath,
   getFullThumbnailUri,
@@ -253,6 +253,38 @@ describe('exportUtils', () => {
       // derivedText joins step.content with two newlines.
       expect(parsed.messages[0].text).toBe('Let me check\n\nThe answer is 42');
     });
+
+    it('exports the parent of each message so branches survive', async () => {
+      const message = (id: string, parentId?: string) => ({
+        id,
+        author: 'user',
+        text: id,
+        type: 'text',
+        metadata: '{}',
+        createdAt: 1704067200000,
+        parentId,
+        toMessageObject: () => ({
+          id,
+          type: 'text',
+          text: id,
+          author: {id: 'user'},
+          createdAt: 1704067200000,
+          parentId,
+        }),
+      });
+      chatSessionRepository.getSessionById = jest.fn().mockResolvedValue({
+        session: mockSessionData.session,
+        messages: [message('reply-b', 'root'), message('root')],
+        completionSettings: null,
+      } as any);
+
+      await exportChatSession('session-1');
+
+      const writtenJson = (RNFS.writeFile as jest.Mock).mock.calls[0][1];
+      const parsed = JSON.parse(writtenJson);
+      expect(parsed.messages[0].parentId).toBe('root');
+      expect(parsed.messages[1]).not.toHaveProperty('parentId');
+    });
   });
 
   describe('exportAllChatSessions', () => {
@@ -546,6 +578,61 @@ describe('exportUtils', () => {
         expect(exportedData.pact).toEqual(palWithTalents.pact);
         expect(exportedData.greeting).toEqual(palWithTalents.greeting);
       });
+
+      it('exports the webhook tools the pact uses, without secrets', async () => {
+        const tool = {
+          name: 'lookup_order',
+          description: 'Look up an order',
+          parameters: {type: 'object', properties: {}},
+          urlTemplate: 'https://api.example.com/orders/{id}',
+          method: 'GET',
+          headers: [{name: 'Authorization', secret: true}],
+        };
+        (webhookToolStore.exportTools as jest.Mock).mockReturnValueOnce([tool]);
+        palStore.pals = [
+          {
+            ...mockPal,
+            pact: {
+              talents: [
+                {name: 'calculate', necessity: 'optional'},
+                {name: 'lookup_order', necessity: 'optional'},
+              ],
+            },
+          } as any,
+        ];
+
+        await exportPal('pal-1');
+
+        expect(webhookToolStore.exportTools).toHaveBeenCalledWith([
+          'calculate',
+          'lookup_order',
+        ]);
+        const writeCall = (RNFS.writeFile as jest.Mock).mock.calls[0];
+        expect(JSON.parse(writeCall[1]).webhook_tools).toEqual([tool]);
+      });
+
+      it('omits webhook_tools when the pact uses none', async () => {
+        palStore.pals = [mockPal as any];
+
+        await exportPal('pal-1');
+
+        const writeCall = (RNFS.writeFile as jest.Mock).mock.calls[0];
+        expect(JSON.parse(writeCall[1])).not.toHaveProperty('webhook_tools');
+      });
+
+      it("exports the pal's saved memories", async () => {
+        const memories = [{content: 'The user is vegetarian.', createdAt: 1}];
+        (palMemoryStore.exportMemories as jest.Mock).mockReturnValueOnce(
+          memories,
+        );
+        palStore.pals = [mockPal as any];
+
+        await exportPal('pal-1');
+
+        expect(palMemoryStore.exportMemories).toHaveBeenCalledWith('pal-1');
+        const writeCall = (RNFS.writeFile as jest.Mock).mock.calls[0];
+        expect(JSON.parse(writeCall[1]).memories).toEqual(memories);
+      });
     });
 
     describe('exportAllPals', () => {
@@ -22,6 +22,7 @@ export const enum FixtureType {
 }
 
 type KVValue =
+  | {type: FixtureType.UINT16; value: number}
   | {type: FixtureType.UINT32; value: number}
   | {type: FixtureType.INT32; value: number}
   | {type: FixtureType.UINT64; value: number}
@@ -88,6 +89,9 @@ export class GGUFFixture {
     };
     const pushValue = (value: KVValue) => {
       switch (value.type) {
+        case FixtureType.UINT16:
+          parts.push(value.value & 0xff, (value.value >>> 8) & 0xff);
+          break;
         case FixtureType.UINT32:
         case FixtureType.INT32:
           pushU32(value.value >>> 0);
@@ -160,9 +164,14 @@ export const rangeFetchFor = (bytes: Uint8Array): jest.Mock =>
     const from = Number(match?.[1] ?? 0);
     const to = match?.[2] !== undefined ? Number(match[2]) : bytes.length - 1;
     const slice = bytes.slice(from, Math.min(to + 1, bytes.length));
+    const contentRange = `bytes ${from}-${from + slice.length - 1}/${bytes.length}`;
     return {
       ok: true,
       status: 206,
+      headers: {
+        get: (name: string) =>
+          name.toLowerCase() === 'content-range' ? contentRange : null,
+      },
       arrayBuffer: async () =>
         slice.buffer.slice(
           slice.byteOffset,
@@ -1,4 +1,8 @@
-import {readGGUFHeaderForMTP} from '../ggufHeader';
+import {
+  readGGUFHeaderForMTP,
+  readGGUFHeaderInfo,
+  readGGUFModelMetadata,
+} from '../ggufHeader';
 import {FixtureType, GGUFFixture, rangeFetchFor} from './ggufFixture';
 
 const URL = 'https://host/file.gguf';
@@ -131,6 +135,21 @@ describe('readGGUFHeaderForMTP', () => {
     expect(fetchImpl.mock.calls.length).toBeGreaterThan(1);
   });
 
+  it('reads the split KVs of the first part of a split model', async () => {
+    const fixture = new GGUFFixture()
+      .kv('general.architecture', {type: FixtureType.STRING, value: 'llama'})
+      .kv('split.no', {type: FixtureType.UINT16, value: 0})
+      .kv('split.count', {type: FixtureType.UINT16, value: 3})
+      .kv('split.tensors.count', {type: FixtureType.INT32, value: 291})
+      .tensor('blk.0.attn_q.weight');
+
+    await expect(read(fixture)).resolves.toEqual({
+      nextnPredictLayers: 0,
+      hasNextnTensor: false,
+      split: {no: 0, count: 3, tensorsCount: 291},
+    });
+  });
+
   it('rejects a non-GGUF payload', async () => {
     const junk = new TextEncoder().encode('PK definitely a zip');
     await expect(
@@ -172,3 +191,142 @@ describe('readGGUFHeaderForMTP', () => {
     }
   });
 });
+
+describe('readGGUFHeaderInfo', () => {
+  it('reads the architecture and the file size', async () => {
+    const bytes = new GGUFFixture()
+      .kv('general.architecture', {type: FixtureType.STRING, value: 'qwen3'})
+      .kv('qwen3.context_length', {type: FixtureType.UINT32, value: 40960})
+      .tensor('blk.0.attn_q.weight')
+      .build();
+
+    await expect(
+      readGGUFHeaderInfo(URL, {
+        fetchImpl: rangeFetchFor(bytes) as unknown as typeof fetch,
+      }),
+    ).resolves.toEqual({architecture: 'qwen3', fileSize: bytes.length});
+  });
+
+  it('reports the split KVs', async () => {
+    const fixture = new GGUFFixture()
+      .kv('split.no', {type: FixtureType.UINT16, value: 0})
+      .kv('split.count', {type: FixtureType.UINT16, value: 2})
+      .kv('general.architecture', {type: FixtureType.STRING, value: 'llama'});
+
+    const info = await readGGUFHeaderInfo(URL, {
+      fetchImpl: rangeFetchFor(fixture.build()) as unknown as typeof fetch,
+    });
+    expect(info.architecture).toBe('llama');
+    expect(info.split).toEqual({no: 0, count: 2});
+  });
+
+  it('sends the given headers with every range request', async () => {
+    const fixture = new GGUFFixture()
+      .kv('tokenizer.ggml.tokens', {
+        type: FixtureType.ARRAY,
+        elemType: FixtureType.STRING,
+        values: Array.from({length: 500}, (_, i) => `token_${i}`),
+      })
+      .kv('general.architecture', {type: FixtureType.STRING, value: 'llama'});
+    const fetchImpl = rangeFetchFor(fixture.build());
+
+    await readGGUFHeaderInfo(URL, {
+      fetchImpl: fetchImpl as unknown as typeof fetch,
+      chunkSize: 64,
+      headers: {Authorization: 'Bearer secret'},
+    });
+
+    expect(fetchImpl.mock.calls.length).toBeGreaterThan(1);
+    fetchImpl.mock.calls.forEach(([, init]) => {
+      expect(init.headers).toEqual(
+        expect.objectContaining({Authorization: 'Bearer secret'}),
+      );
+    });
+  });
+
+  it('refuses a server that ignores the range', async () => {
+    const fetchImpl = jest.fn(async () => ({
+      ok: true,
+      status: 200,
+      headers: {
+        get: (name: string) =>
+          name.toLowerCase() === 'content-length' ? '4000000000' : null,
+      },
+      arrayBuffer: async () => new ArrayBuffer(0),
+    }));
+
+    await expect(
+      readGGUFHeaderInfo(URL, {
+        fetchImpl: fetchImpl as unknown as typeof fetch,
+      }),
+    ).rejects.toThrow(/range requests/);
+  });
+});
+
+describe('readGGUFModelMetadata', () => {
+  const u32 = (value: number) => ({type: FixtureType.UINT32 as const, value});
+  const qwen3 = () =>
+    new GGUFFixture()
+      .kv('general.architecture', {type: FixtureType.STRING, value: 'qwen3'})
+      .kv('general.name', {type: FixtureType.STRING, value: 'Qwen3 8B'})
+      .kv('qwen3.block_count', u32(36))
+      .kv('qwen3.context_length', u32(40960))
+      .kv('qwen3.embedding_length', u32(4096))
+      .kv('qwen3.attention.head_count', u32(32))
+      .kv('qwen3.attention.head_count_kv', u32(8))
+      .kv('qwen3.attention.key_length', u32(128))
+      .kv('qwen3.attention.value_length', u32(128));
+
+  it('reads the architecture KVs and counts the vocab', async () => {
+    const fixture = qwen3().kv('tokenizer.ggml.tokens', {
+      type: FixtureType.ARRAY,
+      elemType: FixtureType.STRING,
+      values: Array.from({length: 3000}, (_, i) => `token_${i}`),
+    });
+
+    await expect(
+      readGGUFModelMetadata(URL, {
+        fetchImpl: rangeFetchFor(fixture.build()) as unknown as typeof fetch,
+      }),
+    ).resolves.toEqual({
+      architecture: 'qwen3',
+      n_layers: 36,
+      n_embd: 4096,
+      n_head: 32,
+      n_head_kv: 8,
+      n_vocab: 3000,
+      n_embd_head_k: 128,
+      n_embd_head_v: 128,
+      context_length: 40960,
+    });
+  });
+
+  it('stops at the vocab once the core KVs are in', async () => {
+    const fixture = qwen3().kv('tokenizer.ggml.tokens', {
+      type: FixtureType.ARRAY,
+      elemType: FixtureType.STRING,
+      values: Array.from({length: 20000}, (_, i) => `token_${i}`),
+    });
+    const fetchImpl = rangeFetchFor(fixture.build());
+
+    await readGGUFModelMetadata(URL, {
+      fetchImpl: fetchImpl as unknown as typeof fetch,
+      chunkSize: 1024,
+    });
+
+    expect(fetchImpl.mock.calls.length).toBe(1);
+  });
+
+  it('is undefined without the core KVs', async () => {
+    const fixture = new GGUFFixture().kv('general.architecture', {
+      type: FixtureType.STRING,
+      value: 'clip',
+    });
+
+    await expect(
+      readGGUFModelMetadata(URL, {
+        fetchImpl: rangeFetchFor(fixture.build()) as unknown as typeof fetch,
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  applyHfMirror,
+  isValidMirrorUrl,
+  modelFilePaths,
+  normalizeModelSiblings,
+} from '../hf';
+
+describe('hf', () => {
+  describe('applyHfMirror', () => {
+    const url =
+      'https://huggingface.co/org/repo/resolve/main/model.gguf?download=true';
+
+    it('rewrites huggingface.co URLs onto the mirror', () => {
+      expect(applyHfMirror(url, 'https://hf-mirror.com')).toBe(
+        'https://hf-mirror.com/org/repo/resolve/main/model.gguf?download=true',
+      );
+      expect(applyHfMirror(url, 'http://cache.local:8080/hf/')).toBe(
+        'http://cache.local:8080/hf/org/repo/resolve/main/model.gguf?download=true',
+      );
+    });
+
+    it('leaves other URLs and an empty or invalid mirror alone', () => {
+      const other = 'https://example.com/model.gguf';
+      expect(applyHfMirror(other, 'https://hf-mirror.com')).toBe(other);
+      expect(applyHfMirror(url, '')).toBe(url);
+      expect(applyHfMirror(url, 'not a url')).toBe(url);
+    });
+  });
+
+  describe('normalizeModelSiblings', () => {
+    const shard = (n: number, total = 3) => ({
+      rfilename: `Q4_K_M/model-Q4_K_M-0000${n}-of-0000${total}.gguf`,
+      size: 100 * n,
+    });
+
+    it('groups a complete set of split files into one sibling', () => {
+      const siblings = normalizeModelSiblings('org/repo', [
+        {rfilename: 'README.md'},
+        shard(2),
+        {rfilename: 'model-Q8_0.gguf', size: 50},
+        shard(1),
+        shard(3),
+      ]);
+
+      expect(siblings.map(file => [file.rfilename, file.size])).toEqual([
+        ['model-Q8_0.gguf', 50],
+        ['Q4_K_M/model-Q4_K_M-00001-of-00003.gguf', 600],
+      ]);
+      expect(siblings[1].shards?.map(part => part.url)).toEqual([
+        expect.stringContaining('model-Q4_K_M-00001-of-00003.gguf'),
+        expect.stringContaining('model-Q4_K_M-00002-of-00003.gguf'),
+        expect.stringContaining('model-Q4_K_M-00003-of-00003.gguf'),
+      ]);
+    });
+
+    it('drops a set with missing parts', () => {
+      expect(normalizeModelSiblings('org/repo', [shard(1), shard(3)])).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('modelFilePaths', () => {
+    it('puts the parts of a split model next to the first one', () => {
+      const shards = [1, 2].map(n => ({
+        filename: `Q4_K_M/model-0000${n}-of-00002.gguf`,
+        downloadUrl: '',
+        size: 0,
+      }));
+      expect(
+        modelFilePaths(
+          {shards},
+          '/models/repo/Q4_K_M/model-00001-of-00002.gguf',
+        ),
+      ).toEqual([
+        '/models/repo/Q4_K_M/model-00001-of-00002.gguf',
+        '/models/repo/Q4_K_M/model-00002-of-00002.gguf',
+      ]);
+      expect(modelFilePaths({}, '/models/model.gguf')).toEqual([
+        '/models/model.gguf',
+      ]);
+    });
+  });
+
+  describe('isValidMirrorUrl', () => {
+    it('accepts plain http(s) URLs only', () => {
+      expect(isValidMirrorUrl('https://hf-mirror.com')).toBe(true);
+      expect(isValidMirrorUrl('http://10.0.0.2:8080/hf')).toBe(true);
+      expect(isValidMirrorUrl('ftp://hf-mirror.com')).toBe(false);
+      expect(isValidMirrorUrl('https://hf-mirror.com/?token=1')).toBe(false);
+      expect(isValidMirrorUrl('hf-mirror.com')).toBe(false);
+    });
+  });
+});
@@ -1,10 +1,12 @@
 import * as RNFS from '@dr.pogodin/react-native-fs';
 import {pick} from '@react-native-documents/picker';
-import {palStore} from '../../store';
+import {palStore, webhookToolStore, palMemoryStore} from '../../store';
+import {chatSessionRepository} from '../../repositories/ChatSessionRepository';
 import {
   readJsonFile,
   validateImportedData,
   ImportedChatSession,
+  importChatSessions,
   importPals,
 } from '../importUtils';
 
@@ -74,6 +76,37 @@ describe('importUtils', () => {
     });
   });
 
+  describe('importChatSessions', () => {
+    it('keeps the parent of each message so branches survive', async () => {
+      (pick as jest.Mock).mockResolvedValue([
+        {uri: 'file://path/to/chat.json', name: 'chat.json'},
+      ]);
+      (RNFS.readFile as jest.Mock).mockResolvedValue(
+        JSON.stringify({
+          id: 'session-1',
+          title: 'Branched',
+          date: '2024-01-01T00:00:00Z',
+          messages: [
+            {id: 'reply-b', author: 'assistant', text: 'B', parentId: 'ask'},
+            {id: 'reply-a', author: 'assistant', text: 'A', parentId: 'ask'},
+            {id: 'ask', author: 'user', text: 'Question'},
+          ],
+          completionSettings: {},
+        }),
+      );
+      const createSession = jest.spyOn(chatSessionRepository, 'createSession');
+
+      await expect(importChatSessions()).resolves.toBe(1);
+
+      const messages = createSession.mock.calls[0][1]!;
+      expect(messages.map(m => [m.id, m.parentId])).toEqual([
+        ['reply-b', 'ask'],
+        ['reply-a', 'ask'],
+        ['ask', undefined],
+      ]);
+    });
+  });
+
   describe('Pal Import Functions', () => {
     const mockImportedPal = {
       version: '2.0',
@@ -228,6 +261,111 @@ describe('importUtils', () => {
         expect(created.pact).toEqual(palWithTalents.pact);
         expect(created.greeting).toEqual(palWithTalents.greeting);
       });
+
+      describe('bundled webhook tools', () => {
+        const tool = {
+          name: 'lookup_order',
+          description: 'Look up an order',
+          parameters: {type: 'object', properties: {}},
+          urlTemplate: 'https://api.example.com/orders/{id}',
+          method: 'GET',
+          headers: [{name: 'Authorization', secret: true}],
+        };
+        const palWithTool = {
+          ...mockImportedPal,
+          pact: {
+            talents: [
+              {name: 'calculate', necessity: 'optional'},
+              {name: 'lookup_order', necessity: 'optional', approval: 'always'},
+            ],
+          },
+          webhook_tools: [tool],
+        };
+
+        beforeEach(() => {
+          (RNFS.readFile as jest.Mock).mockResolvedValue(
+            JSON.stringify(palWithTool),
+          );
+        });
+
+        it('adds them after confirmation, once the pal exists, asking before each call', async () => {
+          const confirm = jest.fn().mockResolvedValue(true);
+
+          await importPals(confirm);
+
+          expect(confirm).toHaveBeenCalledWith('Imported Pal', [tool]);
+          expect(webhookToolStore.importTools).toHaveBeenCalledWith([tool]);
+          expect(
+            (palStore.createPal as jest.Mock).mock.invocationCallOrder[0],
+          ).toBeLessThan(
+            (webhookToolStore.importTools as jest.Mock).mock
+              .invocationCallOrder[0],
+          );
+          const created = (palStore.createPal as jest.Mock).mock.calls[0][0];
+          expect(created.pact.talents).toEqual([
+            {name: 'calculate', necessity: 'optional'},
+            {name: 'lookup_order', necessity: 'optional', approval: 'ask'},
+          ]);
+        });
+
+        it('leaves the tools and their talents out when declined', async () => {
+          await importPals(jest.fn().mockResolvedValue(false));
+
+          expect(webhookToolStore.importTools).not.toHaveBeenCalled();
+          const created = (palStore.createPal as jest.Mock).mock.calls[0][0];
+          expect(created.pact.talents).toEqual([
+            {name: 'calculate', necessity: 'optional'},
+          ]);
+        });
+
+        it('leaves talents alone when their tool name is taken locally', async () => {
+          (webhookToolStore.importableTools as jest.Mock).mockReturnValueOnce(
+            [],
+          );
+          const confirm = jest.fn();
+
+          await importPals(confirm);
+
+          expect(confirm).not.toHaveBeenCalled();
+          expect(webhookToolStore.importTools).not.toHaveBeenCalled();
+          const created = (palStore.createPal as jest.Mock).mock.calls[0][0];
+          expect(created.pact.talents).toEqual(palWithTool.pact.talents);
+        });
+
+        it('removes the new pal when adding the tools fails', async () => {
+          (webhookToolStore.importTools as jest.Mock).mockRejectedValueOnce(
+            new Error('keychain unavailable'),
+          );
+          const error = jest
+            .spyOn(console, 'error')
+            .mockImplementation(() => {});
+
+          await expect(
+            importPals(jest.fn().mockResolvedValue(true)),
+          ).rejects.toThrow('keychain unavailable');
+
+          const created = await (palStore.createPal as jest.Mock).mock
+            .results[0].value;
+          expect(palStore.deletePal).toHaveBeenCalledWith(created.id);
+          error.mockRestore();
+        });
+      });
+
+      it('restores bundled memories onto the created pal', async () => {
+        const memories = [{content: 'The user is vegetarian.', createdAt: 1}];
+        (RNFS.readFile as jest.Mock).mockResolvedValue(
+          JSON.stringify({...mockImportedPal, memories}),
+        );
+
+        await importPals();
+
+        const created = await (palStore.createPal as jest.Mock).mock.results[0]
+          .value;
+        expect(palMemoryStore.importMemories).toHaveBeenCalledWith(
+          created.id,
+          memories,
+        );
+      });
     });
   });
 });
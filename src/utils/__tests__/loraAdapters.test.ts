@@ -0,0 +1,107 @@
+import {createModel} from '../../../jest/fixtures/models';
+
+import {
+  getCompatibleLoraAdapters,
+  getLoraBaseModel,
+  isLoraAdapterRepo,
+  isLoraCompatible,
+  resolveLoraAdapters,
+} from '../loraAdapters';
+import {GGUFMetadata, HuggingFaceModel, Model, ModelType} from '../types';
+
+const llamaMetadata = {architecture: 'llama'} as GGUFMetadata;
+
+const base = createModel({
+  id: 'base',
+  isDownloaded: true,
+  ggufMetadata: llamaMetadata,
+}) as Model;
+
+const adapter = (id: string, overrides: Partial<Model> = {}): Model =>
+  createModel({
+    id,
+    isDownloaded: true,
+    modelType: ModelType.LORA,
+    adapterArchitecture: 'llama',
+    ...overrides,
+  }) as Model;
+
+describe('isLoraAdapterRepo', () => {
+  it('recognises the lora and adapter tags', () => {
+    expect(isLoraAdapterRepo({tags: ['gguf', 'lora']})).toBe(true);
+    expect(
+      isLoraAdapterRepo({tags: ['base_model:adapter:meta-llama/Llama-3-8B']}),
+    ).toBe(true);
+    expect(
+      isLoraAdapterRepo({tags: ['base_model:quantized:meta-llama/Llama-3']}),
+    ).toBe(false);
+    expect(isLoraAdapterRepo({})).toBe(false);
+  });
+
+  it('reads the base model from the adapter tag', () => {
+    expect(
+      getLoraBaseModel({
+        tags: ['lora', 'base_model:adapter:meta-llama/Llama-3-8B'],
+      } as HuggingFaceModel),
+    ).toBe('meta-llama/Llama-3-8B');
+  });
+});
+
+describe('isLoraCompatible', () => {
+  it('matches architectures case-insensitively', () => {
+    expect(isLoraCompatible({adapterArchitecture: 'LLaMA'}, base)).toBe(true);
+    expect(isLoraCompatible({adapterArchitecture: 'qwen2'}, base)).toBe(false);
+  });
+
+  it('never matches without an architecture on both sides', () => {
+    expect(isLoraCompatible({}, base)).toBe(false);
+    expect(isLoraCompatible({adapterArchitecture: 'llama'}, {})).toBe(false);
+  });
+});
+
+describe('getCompatibleLoraAdapters', () => {
+  it('lists downloaded adapters of the base architecture only', () => {
+    const models = [
+      base,
+      adapter('a'),
+      adapter('b', {isDownloaded: false}),
+      adapter('c', {adapterArchitecture: 'qwen2'}),
+      createModel({id: 'd', isDownloaded: true, ggufMetadata: llamaMetadata}),
+    ] as Model[];
+
+    expect(getCompatibleLoraAdapters(base, models).map(m => m.id)).toEqual([
+      'a',
+    ]);
+  });
+});
+
+describe('resolveLoraAdapters', () => {
+  const models = [base, adapter('a'), adapter('b')];
+
+  it("uses the model's own selection by default", () => {
+    const model = {...base, loraAdapters: [{id: 'a', scale: 0.5}]};
+    expect(resolveLoraAdapters(model, models)).toEqual([{id: 'a', scale: 0.5}]);
+  });
+
+  it('lets pinned adapters replace the selection', () => {
+    const model = {...base, loraAdapters: [{id: 'a', scale: 0.5}]};
+    expect(resolveLoraAdapters(model, models, [{id: 'b', scale: 1}])).toEqual([
+      {id: 'b', scale: 1},
+    ]);
+    expect(resolveLoraAdapters(model, models, [])).toEqual([
+      {id: 'a', scale: 0.5},
+    ]);
+  });
+
+  it('drops missing, incompatible and zero-scaled adapters', () => {
+    const model = {
+      ...base,
+      loraAdapters: [
+        {id: 'a', scale: 0},
+        {id: 'b', scale: 1},
+        {id: 'gone', scale: 1},
+      ],
+    };
+    expect(resolveLoraAdapters(model, models)).toEqual([{id: 'b', scale: 1}]);
+  });
+});
@@ -1,4 +1,7 @@
-import {getModelMemoryRequirement} from '../memoryEstimator';
+import {
+  getModelMemoryRequirement,
+  pickWarmContextEvictions,
+} from '../memoryEstimator';
 import {Model} from '../types';
 import {createDefaultContextInitParams} from '../contextInitParamsVersions';
 
@@ -299,4 +302,35 @@ describe('memoryEstimator', () => {
       expect(a).toBe(b);
     });
   });
+
+  describe('pickWarmContextEvictions', () => {
+    const GB = 1e9;
+    const warm = [
+      {modelId: 'recent', memoryBytes: 2 * GB, lastUsedAt: 300},
+      {modelId: 'oldest', memoryBytes: 1 * GB, lastUsedAt: 100},
+      {modelId: 'middle', memoryBytes: 1 * GB, lastUsedAt: 200},
+    ];
+
+    it('keeps everything that fits the budget and the count', () => {
+      expect(pickWarmContextEvictions(warm, 2 * GB, 6 * GB, 3)).toEqual([]);
+    });
+
+    it('evicts least recently used first until the incoming load fits', () => {
+      expect(pickWarmContextEvictions(warm, 3 * GB, 5 * GB, 3)).toEqual([
+        'oldest',
+        'middle',
+      ]);
+    });
+
+    it('evicts down to the maximum count even with memory to spare', () => {
+      expect(pickWarmContextEvictions(warm, 0, 100 * GB, 1)).toEqual([
+        'oldest',
+        'middle',
+      ]);
+    });
+
+    it('evicts everything when the incoming load alone exceeds the budget', () => {
+      expect(pickWarmContextEvictions(warm, 8 * GB, 6 * GB, 3)).toHaveLength(3);
+    });
+  });
 });
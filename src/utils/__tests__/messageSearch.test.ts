@@ -0,0 +1,120 @@
+import {assistant, user} from '../chat';
+import {
+  buildSnippet,
+  matchesAllTerms,
+  normalizeForSearch,
+  queryTerms,
+  searchableText,
+} from '../messageSearch';
+import type {MessageType} from '../types';
+
+const turn: MessageType.AssistantTurn = {
+  id: 't1',
+  author: assistant,
+  createdAt: 0,
+  type: 'assistant_turn',
+  steps: [
+    {
+      content: 'Let me check.',
+      toolCalls: [{id: 'c1', function: {name: 'web_search', arguments: '{}'}}],
+      toolOutcomes: [
+        {
+          callId: 'c1',
+          toolName: 'web_search',
+          result: {type: 'text', summary: 'Lisbon: 21°C, sunny'},
+          responseContent: 'Lisbon: 21°C, sunny',
+        },
+      ],
+    },
+    {content: 'It is sunny in Lisbon.'},
+  ],
+};
+
+const joined = (parts: {text: string; match: boolean}[]) =>
+  parts.map(part => (part.match ? `[${part.text}]` : part.text)).join('');
+
+describe('messageSearch', () => {
+  describe('searchableText', () => {
+    it('includes step content and tool results of an assistant turn', () => {
+      expect(searchableText(turn)).toBe(
+        'Let me check.\n\nIt is sunny in Lisbon.\n\nLisbon: 21°C, sunny',
+      );
+    });
+
+    it('uses the text of a text message', () => {
+      expect(
+        searchableText({
+          id: 'u1',
+          author: user,
+          createdAt: 0,
+          type: 'text',
+          text: '  Weather in Lisbon?  ',
+        }),
+      ).toBe('Weather in Lisbon?');
+    });
+
+    it('leaves out context summaries', () => {
+      expect(
+        searchableText({
+          id: 's1',
+          author: assistant,
+          createdAt: 0,
+          type: 'text',
+          text: 'Earlier the user asked about Lisbon.',
+          metadata: {system: true, contextSummary: {throughId: 'a1'}},
+        }),
+      ).toBe('');
+    });
+  });
+
+  describe('normalizeForSearch', () => {
+    it('folds case, diacritics and punctuation', () => {
+      expect(normalizeForSearch("Crème Brûlée, s'il-vous-plaît!")).toBe(
+        'creme brulee s il vous plait',
+      );
+    });
+
+    it('keeps non-Latin scripts', () => {
+      expect(normalizeForSearch('Привет, 世界')).toBe('привет 世界');
+    });
+  });
+
+  describe('queryTerms', () => {
+    it('splits a query into distinct folded terms', () => {
+      expect(queryTerms('  Café  cafe LATTE ')).toEqual(['cafe', 'latte']);
+      expect(queryTerms(' ?! ')).toEqual([]);
+    });
+  });
+
+  describe('matchesAllTerms', () => {
+    it('needs every term', () => {
+      expect(matchesAllTerms('sunny in lisbon', ['lisb', 'sun'])).toBe(true);
+      expect(matchesAllTerms('sunny in lisbon', ['lisbon', 'rain'])).toBe(
+        false,
+      );
+      expect(matchesAllTerms('sunny in lisbon', [])).toBe(false);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('highlights every match, ignoring case and diacritics', () => {
+      expect(joined(buildSnippet('Café or CAFE?', ['cafe']))).toBe(
+        '[Café] or [CAFE]?',
+      );
+    });
+
+    it('cuts a window around the first match', () => {
+      const content = `${'lorem '.repeat(30)}target ${'ipsum '.repeat(30)}`;
+      const parts = buildSnippet(content, ['target'], 60);
+      expect(parts[0]).toEqual({text: '…', match: false});
+      expect(parts[parts.length - 1]).toEqual({text: '…', match: false});
+      expect(parts.find(part => part.match)?.text).toBe('target');
+      // Starts on a whole word.
+      expect(parts[1].text.startsWith('lorem')).toBe(true);
+    });
+
+    it('collapses line breaks', () => {
+      expect(joined(buildSnippet('one\n\ntwo', ['two']))).toBe('one [two]');
+    });
+  });
+});
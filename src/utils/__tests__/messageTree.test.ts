@@ -0,0 +1,114 @@
+import {
+  branchPositions,
+  latestLeafId,
+  parentsFirst,
+  pathTo,
+  siblingAt,
+  splitActivePath,
+  subtreeIds,
+} from '../messageTree';
+import type {MessageType} from '../types';
+
+const message = (
+  id: string,
+  parentId: string | undefined,
+  createdAt: number,
+): MessageType.Any => ({
+  id,
+  parentId,
+  createdAt,
+  type: 'text',
+  text: id,
+  author: {id: 'user'},
+});
+
+/**
+ * u1 ─ a1 ─ u2 ─ a2
+ *    └ a1b ─ u3
+ *    └ a1c
+ * Newest first, as the store keeps them.
+ */
+const tree = [
+  message('a1c', 'u1', 7),
+  message('u3', 'a1b', 6),
+  message('a1b', 'u1', 5),
+  message('a2', 'u2', 4),
+  message('u2', 'a1', 3),
+  message('a1', 'u1', 2),
+  message('u1', undefined, 1),
+];
+
+const ids = (messages: MessageType.Any[]) => messages.map(m => m.id);
+
+describe('messageTree', () => {
+  it('walks from a leaf back to the root, newest first', () => {
+    expect(ids(pathTo(tree, 'a2'))).toEqual(['a2', 'u2', 'a1', 'u1']);
+  });
+
+  it('stops on a parent cycle', () => {
+    const looped = [message('x', 'y', 1), message('y', 'x', 2)];
+    expect(ids(pathTo(looped, 'x'))).toEqual(['x', 'y']);
+  });
+
+  it('follows the newest reply down to a leaf', () => {
+    expect(latestLeafId(tree, 'u1')).toBe('a1c');
+    expect(latestLeafId(tree, 'a1b')).toBe('u3');
+    expect(latestLeafId(tree, 'a2')).toBe('a2');
+  });
+
+  it('splits the active path from the other branches', () => {
+    const {path, branches} = splitActivePath(tree, 'u3');
+    expect(ids(path)).toEqual(['u3', 'a1b', 'u1']);
+    expect(ids(branches)).toEqual(['a1c', 'a2', 'u2', 'a1']);
+  });
+
+  it('ends the active path at the first message by default', () => {
+    expect(ids(splitActivePath(tree).path)).toEqual(['a1c', 'u1']);
+    expect(splitActivePath([])).toEqual({path: [], branches: []});
+  });
+
+  it('treats a linear history without parents as one path', () => {
+    const linear = [message('b', undefined, 2), message('a', undefined, 1)];
+    expect(ids(splitActivePath(linear).path)).toEqual(['b', 'a']);
+    expect(ids(splitActivePath(linear, 'a').path)).toEqual(['a']);
+    expect(branchPositions(linear).size).toBe(0);
+  });
+
+  it('numbers siblings oldest first', () => {
+    const positions = branchPositions(tree);
+    expect(positions.get('a1')).toEqual({index: 0, count: 3});
+    expect(positions.get('a1b')).toEqual({index: 1, count: 3});
+    expect(positions.get('a1c')).toEqual({index: 2, count: 3});
+    expect(positions.has('u1')).toBe(false);
+    expect(positions.has('u2')).toBe(false);
+  });
+
+  it('counts messages with a missing parent as roots', () => {
+    const orphaned = [message('b', 'gone', 2), message('a', undefined, 1)];
+    expect(branchPositions(orphaned).get('b')).toEqual({index: 1, count: 2});
+  });
+
+  it('finds the neighbouring sibling', () => {
+    expect(siblingAt(tree, 'a1b', -1)?.id).toBe('a1');
+    expect(siblingAt(tree, 'a1b', 1)?.id).toBe('a1c');
+    expect(siblingAt(tree, 'a1c', 1)).toBeUndefined();
+    expect(siblingAt(tree, 'missing', 1)).toBeUndefined();
+  });
+
+  it('orders every message after the one it replies to', () => {
+    const order = ids(parentsFirst(tree));
+    expect(order).toHaveLength(tree.length);
+    for (const m of tree) {
+      if (m.parentId) {
+        expect(order.indexOf(m.parentId)).toBeLessThan(order.indexOf(m.id));
+      }
+    }
+    const looped = [message('x', 'y', 1), message('y', 'x', 2)];
+    expect(ids(parentsFirst(looped))).toEqual(['x', 'y']);
+  });
+
+  it('collects a message and everything below it', () => {
+    expect([...subtreeIds(tree, 'a1')].sort()).toEqual(['a1', 'a2', 'u2']);
+    expect(subtreeIds(tree, 'a1c')).toEqual(new Set(['a1c']));
+  });
+});
@@ -0,0 +1,199 @@
+import {rankModelFiles} from '../modelRecommendation';
+import {getModelMemoryRequirement} from '../memoryEstimator';
+import {createDefaultContextInitParams} from '../contextInitParamsVersions';
+import {GGUFMetadata, Model, ModelFile} from '../types';
+
+describe('rankModelFiles', () => {
+  const GB = 1e9;
+  const contextSettings = {...createDefaultContextInitParams(), n_ctx: 4096};
+
+  // Llama-3-8B shaped: 32 layers, GQA 8 kv heads of 128 → 128 KiB/token at f16.
+  const metadata: GGUFMetadata = {
+    architecture: 'llama',
+    n_layers: 32,
+    n_embd: 4096,
+    n_head: 32,
+    n_head_kv: 8,
+    n_vocab: 128256,
+    n_embd_head_k: 128,
+    n_embd_head_v: 128,
+    context_length: 8192,
+  };
+
+  const files: ModelFile[] = [
+    {rfilename: 'model-Q2_K.gguf', size: 3 * GB},
+    {rfilename: 'model-Q4_K_M.gguf', size: 4.9 * GB},
+    {rfilename: 'model-Q8_0.gguf', size: 8.5 * GB},
+    {rfilename: 'model-F16.gguf', size: 16 * GB},
+  ];
+
+  const names = (fits: {file: ModelFile}[]) => fits.map(f => f.file.rfilename);
+
+  it('recommends the largest quant that fits and marks files above RAM', () => {
+    const {ranked, best} = rankModelFiles({
+      files,
+      metadata,
+      contextSettings,
+      availableBytes: 7 * GB,
+      totalBytes: 12 * GB,
+    });
+
+    expect(best?.file.rfilename).toBe('model-Q4_K_M.gguf');
+    expect(names(ranked)).toEqual([
+      'model-Q4_K_M.gguf',
+      'model-Q2_K.gguf',
+      'model-Q8_0.gguf',
+      'model-F16.gguf',
+    ]);
+    expect(ranked.map(f => f.status)).toEqual([
+      'fits',
+      'fits',
+      'tight',
+      'wont_fit',
+    ]);
+  });
+
+  it('prices the KV cache at the user n_ctx and cache types', () => {
+    const input = {
+      files: [files[1]],
+      metadata,
+      availableBytes: 16 * GB,
+      totalBytes: 16 * GB,
+    };
+    const f16 = rankModelFiles({...input, contextSettings}).ranked[0];
+    const q8 = rankModelFiles({
+      ...input,
+      contextSettings: {
+        ...contextSettings,
+        cache_type_k: 'q8_0',
+        cache_type_v: 'q8_0',
+      },
+    }).ranked[0];
+
+    expect(f16.requiredBytes).toBe(
+      getModelMemoryRequirement(
+        {size: 4.9 * GB, ggufMetadata: metadata} as Model,
+        undefined,
+        contextSettings,
+      ),
+    );
+    expect(q8.requiredBytes).toBeLessThan(f16.requiredBytes);
+  });
+
+  it('adds the projector to every file', () => {
+    const base = {
+      files: [files[0]],
+      metadata,
+      contextSettings,
+      availableBytes: 16 * GB,
+      totalBytes: 16 * GB,
+    };
+    const withoutProjector = rankModelFiles(base).ranked[0].requiredBytes;
+    const withProjector = rankModelFiles({...base, projectorSize: GB}).ranked[0]
+      .requiredBytes;
+
+    expect(withProjector - withoutProjector).toBeCloseTo(GB * 1.1);
+  });
+
+  it('suggests the largest safe context within the trained length', () => {
+    const {ranked} = rankModelFiles({
+      files: [files[1]],
+      metadata,
+      contextSettings,
+      availableBytes: 6.5 * GB,
+      totalBytes: 12 * GB,
+    });
+    const safe = ranked[0].safeContextLength as number;
+
+    expect(safe).toBeGreaterThanOrEqual(2048);
+    expect(safe).toBeLessThanOrEqual(8192);
+    const atSafe = getModelMemoryRequirement(
+      {size: 4.9 * GB, ggufMetadata: metadata} as Model,
+      undefined,
+      {...contextSettings, n_ctx: safe},
+    );
+    expect(atSafe).toBeLessThanOrEqual(6.5 * GB);
+
+    const roomy = rankModelFiles({
+      files: [files[0]],
+      metadata,
+      contextSettings,
+      availableBytes: 64 * GB,
+      totalBytes: 64 * GB,
+    });
+    expect(roomy.ranked[0].safeContextLength).toBe(8192);
+  });
+
+  it('caps the KV cost of sliding-window models at the window', () => {
+    const swa = {...metadata, sliding_window: 1024, context_length: 131072};
+    const {ranked} = rankModelFiles({
+      files: [files[1]],
+      metadata: swa,
+      contextSettings,
+      availableBytes: 6 * GB,
+      totalBytes: 12 * GB,
+    });
+
+    expect(ranked[0].safeContextLength).toBe(131072);
+  });
+
+  it('falls back to the size-only estimate without metadata', () => {
+    const {ranked, best} = rankModelFiles({
+      files,
+      contextSettings,
+      availableBytes: 7 * GB,
+      totalBytes: 12 * GB,
+    });
+
+    expect(best?.file.rfilename).toBe('model-Q4_K_M.gguf');
+    expect(ranked[0].requiredBytes).toBe(4.9 * GB * 1.2);
+    expect(ranked.every(f => f.safeContextLength === undefined)).toBe(true);
+  });
+
+  it('has no recommendation when nothing fits the ceiling', () => {
+    const {ranked, best} = rankModelFiles({
+      files,
+      metadata,
+      contextSettings,
+      availableBytes: 2 * GB,
+      totalBytes: 6 * GB,
+    });
+
+    expect(best).toBeUndefined();
+    expect(ranked[0].status).toBe('tight');
+    expect(ranked[0].safeContextLength).toBeUndefined();
+  });
+
+  it('trusts what the device rules expect to load over a low calibration', () => {
+    const input = {
+      files,
+      metadata,
+      contextSettings,
+      availableBytes: 2 * GB,
+      totalBytes: 12 * GB,
+    };
+
+    expect(rankModelFiles(input).best).toBeUndefined();
+    expect(
+      rankModelFiles({...input, ruleBackedBytes: 7 * GB}).best?.file.rfilename,
+    ).toBe('model-Q4_K_M.gguf');
+  });
+
+  it('ignores projector files and files without a known size', () => {
+    const {ranked} = rankModelFiles({
+      files: [
+        ...files,
+        {rfilename: 'mmproj-model-f16.gguf', size: 0.6 * GB},
+        {rfilename: 'model-Q5_K_M.gguf'},
+      ],
+      metadata,
+      contextSettings,
+      availableBytes: 7 * GB,
+      totalBytes: 12 * GB,
+    });
+
+    expect(names(ranked)).not.toContain('mmproj-model-f16.gguf');
+    expect(names(ranked)).not.toContain('model-Q5_K_M.gguf');
+    expect(ranked).toHaveLength(files.length);
+  });
+});
@@ -0,0 +1,73 @@
+import {groupBackends, orderBackends} from '../modelRouting';
+import {RemoteModelRef} from '../types';
+
+const lan: RemoteModelRef = {serverId: 'lan', remoteModelId: 'qwen3-8b'};
+const cloud: RemoteModelRef = {serverId: 'cloud', remoteModelId: 'qwen3:8b'};
+const backup: RemoteModelRef = {serverId: 'backup', remoteModelId: 'qwen3-8b'};
+
+describe('groupBackends', () => {
+  it('puts the extended model first', () => {
+    expect(
+      groupBackends(lan, {backends: [cloud, backup], policy: 'priority'}),
+    ).toEqual([lan, cloud, backup]);
+  });
+
+  it('drops duplicates, including the extended model itself', () => {
+    expect(
+      groupBackends(lan, {backends: [lan, cloud, cloud], policy: 'priority'}),
+    ).toEqual([lan, cloud]);
+  });
+
+  it('returns the model alone without a group', () => {
+    expect(groupBackends(lan, undefined)).toEqual([lan]);
+  });
+});
+
+describe('orderBackends', () => {
+  const now = Date.now();
+
+  it('keeps the configured order under priority', () => {
+    const health = {
+      lan: {ok: true, latencyMs: 300, checkedAt: now},
+      cloud: {ok: true, latencyMs: 20, checkedAt: now},
+    };
+    expect(orderBackends([lan, cloud, backup], 'priority', health)).toEqual([
+      lan,
+      cloud,
+      backup,
+    ]);
+  });
+
+  it('moves servers that failed their last check to the end', () => {
+    const health = {lan: {ok: false, checkedAt: now}};
+    expect(orderBackends([lan, cloud, backup], 'priority', health)).toEqual([
+      cloud,
+      backup,
+      lan,
+    ]);
+  });
+
+  it('sorts by latency with unchecked servers after measured ones', () => {
+    const health = {
+      lan: {ok: true, latencyMs: 300, checkedAt: now},
+      backup: {ok: true, latencyMs: 40, checkedAt: now},
+    };
+    expect(orderBackends([lan, cloud, backup], 'latency', health)).toEqual([
+      backup,
+      lan,
+      cloud,
+    ]);
+  });
+
+  it('still puts a down server last under latency', () => {
+    const health = {
+      lan: {ok: false, checkedAt: now},
+      cloud: {ok: true, latencyMs: 90, checkedAt: now},
+    };
+    expect(orderBackends([lan, cloud, backup], 'latency', health)).toEqual([
+      cloud,
+      backup,
+      lan,
+    ]);
+  });
+});
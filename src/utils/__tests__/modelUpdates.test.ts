@@ -0,0 +1,143 @@
+import {findModelUpdates, isFileChanged} from '../modelUpdates';
+import {fetchModelInfo, fetchModelFilesDetails} from '../../api/hf';
+import {Model, ModelOrigin} from '../types';
+import {basicModel} from '../../../jest/fixtures/models';
+
+jest.mock('../../api/hf', () => ({
+  fetchModelInfo: jest.fn(),
+  fetchModelFilesDetails: jest.fn(),
+}));
+
+const mockFetchModelInfo = fetchModelInfo as jest.Mock;
+const mockFetchModelFilesDetails = fetchModelFilesDetails as jest.Mock;
+
+const REPO = 'author/model-GGUF';
+const FILE = 'model.Q4_K_M.gguf';
+
+const downloaded = (overrides: Partial<Model> = {}): Model => ({
+  ...basicModel,
+  id: `${REPO}/${FILE}`,
+  origin: ModelOrigin.HF,
+  isDownloaded: true,
+  size: 1000,
+  hfModel: {
+    id: REPO,
+    lastModified: '2025-01-01T00:00:00.000Z',
+    siblings: [],
+  } as any,
+  hfModelFile: {rfilename: FILE, oid: 'blob1', lfs: {oid: 'sha1'} as any},
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('isFileChanged', () => {
+  it('compares the sha256 when the stored file has one', () => {
+    expect(
+      isFileChanged(
+        {rfilename: FILE, oid: 'blob1', lfs: {oid: 'sha1'} as any},
+        {rfilename: FILE, oid: 'blob2', lfs: {oid: 'sha1'} as any},
+      ),
+    ).toBe(false);
+    expect(
+      isFileChanged(
+        {rfilename: FILE, lfs: {oid: 'sha1'} as any},
+        {rfilename: FILE, lfs: {oid: 'sha2'} as any},
+      ),
+    ).toBe(true);
+  });
+
+  it('falls back to the blob oid, and to unchanged without one', () => {
+    expect(
+      isFileChanged({rfilename: FILE, oid: 'a'}, {rfilename: FILE, oid: 'b'}),
+    ).toBe(true);
+    expect(isFileChanged({rfilename: FILE}, {rfilename: FILE, oid: 'b'})).toBe(
+      false,
+    );
+  });
+
+  it('notices a changed part of a split model', () => {
+    const part = (oid: string) => ({rfilename: FILE, lfs: {oid} as any});
+    expect(
+      isFileChanged(
+        {rfilename: FILE, shards: [part('a'), part('b')]},
+        {rfilename: FILE, shards: [part('a'), part('c')]},
+      ),
+    ).toBe(true);
+  });
+});
+
+describe('findModelUpdates', () => {
+  it('skips the file list while the repo has not moved', async () => {
+    mockFetchModelInfo.mockResolvedValue({
+      lastModified: '2025-01-01T00:00:00.000Z',
+    });
+
+    const result = await findModelUpdates([downloaded()]);
+
+    expect(result).toEqual({updates: [], lastModified: {}});
+    expect(mockFetchModelFilesDetails).not.toHaveBeenCalled();
+  });
+
+  it('reports a re-uploaded file with its size delta', async () => {
+    mockFetchModelInfo.mockResolvedValue({
+      id: REPO,
+      lastModified: '2025-03-01T00:00:00.000Z',
+    });
+    mockFetchModelFilesDetails.mockResolvedValue([
+      {path: FILE, size: 1200, oid: 'blob2', lfs: {oid: 'sha2'}},
+    ]);
+
+    const result = await findModelUpdates([downloaded()], 'token');
+
+    expect(mockFetchModelInfo).toHaveBeenCalledWith({
+      repoId: REPO,
+      authToken: 'token',
+    });
+    expect(result.lastModified).toEqual({
+      [`${REPO}/${FILE}`]: '2025-03-01T00:00:00.000Z',
+    });
+    expect(result.updates).toHaveLength(1);
+    expect(result.updates[0]).toMatchObject({
+      modelId: `${REPO}/${FILE}`,
+      sizeDelta: 200,
+      modelFile: {rfilename: FILE, lfs: {oid: 'sha2'}},
+    });
+    expect(result.updates[0].modelFile.url).toContain('/resolve/');
+  });
+
+  it('only records the revision when the file itself is unchanged', async () => {
+    mockFetchModelInfo.mockResolvedValue({
+      lastModified: '2025-03-01T00:00:00.000Z',
+    });
+    mockFetchModelFilesDetails.mockResolvedValue([
+      {path: FILE, size: 1000, oid: 'blob1', lfs: {oid: 'sha1'}},
+    ]);
+
+    const result = await findModelUpdates([downloaded()]);
+
+    expect(result.updates).toEqual([]);
+    expect(Object.keys(result.lastModified)).toEqual([`${REPO}/${FILE}`]);
+  });
+
+  it('ignores models that are not downloaded from Hugging Face', async () => {
+    await findModelUpdates([
+      downloaded({isDownloaded: false}),
+      downloaded({origin: ModelOrigin.LOCAL}),
+    ]);
+
+    expect(mockFetchModelInfo).not.toHaveBeenCalled();
+  });
+
+  it('skips a repo that fails to fetch', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockFetchModelInfo.mockRejectedValue(new Error('offline'));
+
+    await expect(findModelUpdates([downloaded()])).resolves.toEqual({
+      updates: [],
+      lastModified: {},
+    });
+  });
+});
@@ -122,6 +122,19 @@ describe('mtp utils', () => {
       await expect(probeRemoteMTPCapability(URL)).resolves.toBe('not-capable');
     });
 
+    it('is unknown when a split model has neither in its first part', async () => {
+      serveFixture(
+        new GGUFFixture()
+          .kv('general.architecture', {
+            type: FixtureType.STRING,
+            value: 'qwen35',
+          })
+          .kv('split.count', {type: FixtureType.UINT16, value: 2})
+          .tensor('blk.0.attn_q.weight'),
+      );
+      await expect(probeRemoteMTPCapability(URL)).resolves.toBe('unknown');
+    });
+
     it('is unknown, not not-capable, when the fetch rejects', async () => {
       (globalThis.fetch as jest.Mock).mockRejectedValue(new Error('network'));
       await expect(probeRemoteMTPCapability(URL)).resolves.toBe('unknown');
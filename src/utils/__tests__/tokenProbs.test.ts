@@ -0,0 +1,94 @@
+import {
+  MAX_STORED_ALTERNATIVES,
+  MAX_STORED_TOKEN_PROBS,
+  boundTokenProbs,
+  fromCompletionProbabilities,
+  fromLogprobs,
+  tokenConfidence,
+} from '../tokenProbs';
+
+describe('fromCompletionProbabilities', () => {
+  it('takes the sampled token probability from its alternatives', () => {
+    expect(
+      fromCompletionProbabilities([
+        {
+          content: ' cat',
+          probs: [
+            {tok_str: ' dog', prob: 0.6},
+            {tok_str: ' cat', prob: 0.3},
+          ],
+        },
+        {content: '!', probs: [{tok_str: '.', prob: 0.9}]},
+      ]),
+    ).toEqual([
+      {
+        token: ' cat',
+        prob: 0.3,
+        top: [
+          {token: ' dog', prob: 0.6},
+          {token: ' cat', prob: 0.3},
+        ],
+      },
+      {token: '!', prob: 0, top: [{token: '.', prob: 0.9}]},
+    ]);
+  });
+
+  it('returns undefined when nothing was captured', () => {
+    expect(fromCompletionProbabilities(undefined)).toBeUndefined();
+    expect(fromCompletionProbabilities([])).toBeUndefined();
+  });
+});
+
+describe('fromLogprobs', () => {
+  it('turns log probabilities into probabilities', () => {
+    expect(
+      fromLogprobs([
+        {
+          token: 'a',
+          logprob: Math.log(0.5),
+          top_logprobs: [{token: 'b', logprob: Math.log(0.25)}],
+        },
+      ]),
+    ).toEqual([
+      {
+        token: 'a',
+        prob: expect.closeTo(0.5),
+        top: [{token: 'b', prob: expect.closeTo(0.25)}],
+      },
+    ]);
+  });
+});
+
+describe('boundTokenProbs', () => {
+  it('keeps the first tokens and their likeliest alternatives', () => {
+    const top = Array.from({length: 8}, (_, i) => ({
+      token: `t${i}`,
+      prob: (i + 1) / 100,
+    }));
+    const probs = Array.from({length: MAX_STORED_TOKEN_PROBS + 10}, () => ({
+      token: 'x',
+      prob: 0.123456,
+      top,
+    }));
+
+    const bounded = boundTokenProbs(probs)!;
+
+    expect(bounded).toHaveLength(MAX_STORED_TOKEN_PROBS);
+    expect(bounded[0].prob).toBe(0.1235);
+    expect(bounded[0].top).toHaveLength(MAX_STORED_ALTERNATIVES);
+    expect(bounded[0].top[0]).toEqual({token: 't7', prob: 0.08});
+  });
+
+  it('returns undefined for nothing to store', () => {
+    expect(boundTokenProbs(undefined)).toBeUndefined();
+    expect(boundTokenProbs([])).toBeUndefined();
+  });
+});
+
+describe('tokenConfidence', () => {
+  it('buckets probabilities', () => {
+    expect(tokenConfidence(0.9)).toBe('high');
+    expect(tokenConfidence(0.5)).toBe('medium');
+    expect(tokenConfidence(0.1)).toBe('low');
+  });
+});
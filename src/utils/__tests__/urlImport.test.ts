@@ -0,0 +1,105 @@
+import {
+  normalizeModelUrl,
+  parseHeaderLines,
+  probeModelUrl,
+  urlModelFilename,
+} from '../urlImport';
+import {FixtureType, GGUFFixture, rangeFetchFor} from './ggufFixture';
+
+describe('normalizeModelUrl', () => {
+  it('keeps a direct link, query included', () => {
+    expect(
+      normalizeModelUrl('  http://192.168.1.20:8080/models/qwen3-4b.gguf  '),
+    ).toBe('http://192.168.1.20:8080/models/qwen3-4b.gguf');
+    expect(
+      normalizeModelUrl('https://cdn.example.com/m.gguf?sig=abc&exp=1'),
+    ).toBe('https://cdn.example.com/m.gguf?sig=abc&exp=1');
+  });
+
+  it('rewrites hub page links to their download form', () => {
+    expect(
+      normalizeModelUrl(
+        'https://modelscope.cn/models/Qwen/Qwen3-4B-GGUF/file/view/master/Qwen3-4B-Q4_K_M.gguf?status=2',
+      ),
+    ).toBe(
+      'https://modelscope.cn/models/Qwen/Qwen3-4B-GGUF/resolve/master/Qwen3-4B-Q4_K_M.gguf',
+    );
+    expect(
+      normalizeModelUrl(
+        'https://huggingface.co/Qwen/Qwen3-4B-GGUF/blob/main/Qwen3-4B-Q4_K_M.gguf',
+      ),
+    ).toBe(
+      'https://huggingface.co/Qwen/Qwen3-4B-GGUF/resolve/main/Qwen3-4B-Q4_K_M.gguf',
+    );
+  });
+
+  it('rejects links that are not http(s) or not a GGUF', () => {
+    expect(normalizeModelUrl('ftp://host/model.gguf')).toBeUndefined();
+    expect(normalizeModelUrl('https://host/model.bin')).toBeUndefined();
+    expect(normalizeModelUrl('not a url')).toBeUndefined();
+  });
+
+  it('decodes the file name', () => {
+    expect(urlModelFilename('https://host/dir/my%20model.gguf?x=1')).toBe(
+      'my model.gguf',
+    );
+  });
+});
+
+describe('parseHeaderLines', () => {
+  it('reads one header per line, skipping blank lines', () => {
+    expect(
+      parseHeaderLines('Authorization: Bearer abc\n\n  X-Token:  t:1 '),
+    ).toEqual({Authorization: 'Bearer abc', 'X-Token': 't:1'});
+    expect(parseHeaderLines('')).toEqual({});
+  });
+
+  it('rejects a malformed line', () => {
+    expect(parseHeaderLines('Bearer abc')).toBeUndefined();
+    expect(parseHeaderLines('Bad Name: x')).toBeUndefined();
+  });
+});
+
+describe('probeModelUrl', () => {
+  const URL = 'http://nas.local/models/tiny-Q8_0.gguf';
+
+  it('reports the file, its host, size and architecture', async () => {
+    const bytes = new GGUFFixture()
+      .kv('general.architecture', {type: FixtureType.STRING, value: 'llama'})
+      .build();
+    const fetchImpl = rangeFetchFor(bytes);
+
+    await expect(
+      probeModelUrl(
+        URL,
+        {Authorization: 'Bearer abc'},
+        fetchImpl as unknown as typeof fetch,
+      ),
+    ).resolves.toEqual({
+      downloadUrl: URL,
+      filename: 'tiny-Q8_0.gguf',
+      host: 'nas.local',
+      size: bytes.length,
+      architecture: 'llama',
+    });
+    expect(fetchImpl.mock.calls[0][1].headers.Authorization).toBe('Bearer abc');
+  });
+
+  it('refuses split models', async () => {
+    const bytes = new GGUFFixture()
+      .kv('split.no', {type: FixtureType.UINT16, value: 0})
+      .kv('split.count', {type: FixtureType.UINT16, value: 3})
+      .kv('split.tensors.count', {type: FixtureType.INT32, value: 291})
+      .build();
+
+    await expect(
+      probeModelUrl(URL, {}, rangeFetchFor(bytes) as unknown as typeof fetch),
+    ).rejects.toThrow(/Split models/);
+  });
+
+  it('refuses what is not a GGUF link', async () => {
+    await expect(probeModelUrl('https://host/readme.md')).rejects.toThrow(
+      /\.gguf/,
+    );
+  });
+});
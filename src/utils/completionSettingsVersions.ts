@@ -14,7 +14,7 @@ import {CompletionParams} from './completionTypes';
 
 // Current version of the completion settings schema
 // Increment this when adding new settings or changing existing ones
-export const CURRENT_COMPLETION_SETTINGS_VERSION = 4;
+export const CURRENT_COMPLETION_SETTINGS_VERSION = 5;
 
 /**
  * Default completion parameters used throughout the app
@@ -23,6 +23,8 @@ export const defaultCompletionParams: CompletionParams = {
   // App-specific properties
   version: CURRENT_COMPLETION_SETTINGS_VERSION, // Schema version for migrations
   include_thinking_in_context: true, // Whether to include thinking parts in the context sent to the model
+  context_strategy: 'off', // How to shorten the prompt once the chat nears the context window
+  context_threshold: 0.8, // Share of n_ctx at which context_strategy kicks in
 
   // llama.rn API properties
   prompt: '',
@@ -93,6 +95,15 @@ export function migrateCompletionSettings(settings: any): any {
     migratedSettings.version = 4;
   }
 
+  if (migratedSettings.version < 5) {
+    // Migration to version 5: Add context window management
+    migratedSettings.context_strategy =
+      defaultCompletionParams.context_strategy;
+    migratedSettings.context_threshold =
+      defaultCompletionParams.context_threshold;
+    migratedSettings.version = 5;
+  }
+
   // Add future migrations here as needed
 
   return migratedSettings;
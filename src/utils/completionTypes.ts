@@ -14,16 +14,28 @@ export type ApiCompletionParams = LlamaRNCompletionParams & {
   reasoning?: ReasoningIntent;
 };
 
+// How a long chat is kept inside the context window (see contextStrategy.ts).
+export type ContextStrategy =
+  | 'off'
+  | 'summarize'
+  | 'sliding_window'
+  | 'drop_tool_outputs';
+
 // Stripped before the params reach llama.rn.
 export type AppOnlyCompletionParams = {
   version?: number;
   // False drops prior thinking parts from the sent context to save space.
   include_thinking_in_context?: boolean;
+  context_strategy?: ContextStrategy;
+  // Share of n_ctx at which context_strategy starts shortening the prompt.
+  context_threshold?: number;
 };
 
 const APP_ONLY_KEYS: (keyof AppOnlyCompletionParams)[] = [
   'version',
   'include_thinking_in_context',
+  'context_strategy',
+  'context_threshold',
 ];
 
 export type CompletionParams = ApiCompletionParams & AppOnlyCompletionParams;
@@ -48,8 +60,17 @@ export interface CompletionStreamData {
   accumulated_text?: string;
 }
 
+// A generated token, how likely the model found it and the alternatives it
+// weighed at that position. Captured only when n_probs > 0.
+export interface TokenProbability {
+  token: string;
+  prob: number; // 0–1
+  top: Array<{token: string; prob: number}>;
+}
+
 // Mirrors llama.rn's NativeCompletionResult minus the local-only fields
-// (chat_format, tokens_cached, completion_probabilities).
+// (chat_format, tokens_cached). completion_probabilities comes back as
+// token_probs, which remote servers fill from logprobs.
 export interface CompletionResult {
   text: string;
   content: string;
@@ -75,6 +96,18 @@ export interface CompletionResult {
   stopping_word?: string;
   context_full?: boolean;
   interrupted?: boolean;
+  token_probs?: TokenProbability[];
+  // Set by a model group's engine to the backend that produced this result.
+  backend?: CompletionBackend;
+}
+
+// Where a model group's turn actually ran: a server's copy of the model, or the
+// local fallback GGUF. `name` is the server name, or the model name for local.
+export interface CompletionBackend {
+  modelId: string;
+  name: string;
+  serverId?: string;
+  isLocal: boolean;
 }
 
 // `used` is tokens_evaluated + tokens_predicted; tokens_cached is not exposed at
@@ -2,9 +2,17 @@
 // 1. Add it to createContextInitParams
 // 2. Increment CURRENT_CONTEXT_INIT_PARAMS_VERSION
 // 3. Add a migration step in migrateContextInitParams
+// 4. If per-model load profiles may override it, add it to LOAD_PROFILE_FIELDS
+//    (and to migrateLoadProfile if the migration renames or reshapes it)
 
 import {ContextParams} from 'llama.rn';
-import {ContextInitParams, LegacyContextInitParams} from './types';
+import {v4 as uuidv4} from 'uuid';
+import {
+  ContextInitParams,
+  LegacyContextInitParams,
+  LoadProfile,
+  LoadProfileField,
+} from './types';
 import {Platform} from 'react-native';
 
 export const CURRENT_CONTEXT_INIT_PARAMS_VERSION = '2.3';
@@ -239,3 +247,92 @@ export function createDefaultContextInitParams(): ContextInitParams {
     speculativeEnabled: false,
   };
 }
+
+export const LOAD_PROFILE_FIELDS: LoadProfileField[] = [
+  'n_ctx',
+  'n_batch',
+  'n_ubatch',
+  'cache_type_k',
+  'cache_type_v',
+  'n_gpu_layers',
+  'flash_attn_type',
+  'use_mmap',
+  'speculativeEnabled',
+  'selectedDraftModelId',
+];
+
+/**
+ * Snapshot the overridable fields of `params` into a new named profile.
+ */
+export function createLoadProfile(
+  name: string,
+  params: ContextInitParams,
+): LoadProfile {
+  const overrides: LoadProfile['overrides'] = {};
+  for (const field of LOAD_PROFILE_FIELDS) {
+    if (params[field] !== undefined) {
+      (overrides as any)[field] = params[field];
+    }
+  }
+  return {
+    id: uuidv4(),
+    name,
+    version: CURRENT_CONTEXT_INIT_PARAMS_VERSION,
+    overrides,
+  };
+}
+
+/**
+ * Bring a persisted profile up to the current schema. Unlike
+ * migrateContextInitParams this never fills defaults: a field the profile
+ * does not set must keep falling through to the global value.
+ */
+export function migrateLoadProfile(profile: LoadProfile | any): LoadProfile {
+  const overrides = {...profile.overrides};
+
+  // Same renames and reshapes migrateContextInitParams applies to the globals.
+  if ('n_context' in overrides && !('n_ctx' in overrides)) {
+    overrides.n_ctx = overrides.n_context;
+  }
+  if (typeof overrides.use_mmap === 'boolean') {
+    overrides.use_mmap = overrides.use_mmap ? 'true' : 'false';
+  } else if (Platform.OS === 'android' && overrides.use_mmap === 'smart') {
+    overrides.use_mmap = 'false';
+  }
+  if (
+    typeof overrides.flash_attn === 'boolean' &&
+    overrides.flash_attn_type === undefined
+  ) {
+    overrides.flash_attn_type =
+      overrides.flash_attn && Platform.OS === 'ios' ? 'auto' : 'off';
+  }
+
+  // Drop anything a profile is not allowed to override (including the legacy
+  // names handled above).
+  const migratedOverrides: LoadProfile['overrides'] = {};
+  for (const field of LOAD_PROFILE_FIELDS) {
+    if (overrides[field] !== undefined) {
+      (migratedOverrides as any)[field] = overrides[field];
+    }
+  }
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    version: CURRENT_CONTEXT_INIT_PARAMS_VERSION,
+    overrides: migratedOverrides,
+  };
+}
+
+/**
+ * Layer a profile's overrides on top of the global params.
+ */
+export function applyLoadProfile(
+  params: ContextInitParams,
+  profile?: LoadProfile,
+): ContextInitParams {
+  if (!profile) {
+    return params;
+  }
+  return {...params, ...profile.overrides};
+}
@@ -0,0 +1,208 @@
+import {derivedText, user} from './chat';
+import {CompletionResultSnapshot, ContextStrategy} from './completionTypes';
+import {ChatMessage, MessageType} from './types';
+
+/**
+ * Keeping a long chat inside the context window. Each session picks a
+ * `context_strategy`; `context_threshold` is the share of n_ctx at which it
+ * starts shortening the prompt:
+ *
+ * - `summarize`: once the last reply used that much of the context, the
+ *   older messages are summarized by the active model and stored as a
+ *   summary message. Later prompts send the summary plus the turns after it.
+ * - `sliding_window`: the oldest turns are left out of the prompt until it
+ *   fits under the threshold.
+ * - `drop_tool_outputs`: old tool results are replaced by a short note
+ *   first, then the oldest turns are left out if that is still not enough.
+ *
+ * Nothing is deleted from the chat; only the prompt changes.
+ */
+
+/** Messages kept verbatim after a summary, on top of the new message. */
+export const RECENT_MESSAGES_KEPT = 4;
+/** Upper bound for the length of a generated summary. */
+export const SUMMARY_MAX_TOKENS = 512;
+/** Rough and on the safe side for most tokenizers. */
+export const CHARS_PER_TOKEN = 3;
+export const ELIDED_TOOL_OUTPUT = '[Tool output omitted to save context.]';
+
+const SUMMARY_INSTRUCTIONS =
+  'You condense conversations. Summarize the conversation below so it can ' +
+  'replace the original messages. Keep facts, names, numbers, decisions, ' +
+  'open questions and anything the user asked to remember. Write in the ' +
+  'language of the conversation. Reply with the summary only.';
+
+export interface ContextSummaryMetadata {
+  /** Newest message the summary covers. */
+  throughId: string;
+}
+
+export function isContextSummary(
+  message: MessageType.Any,
+): message is MessageType.Text {
+  return message.type === 'text' && !!message.metadata?.contextSummary;
+}
+
+/** Whether the last reply used at least `threshold` of the context window. */
+export function isOverThreshold(
+  snapshot: CompletionResultSnapshot | undefined,
+  nCtx: number | undefined,
+  threshold: number,
+): boolean {
+  if (!snapshot || !nCtx) {
+    return false;
+  }
+  return snapshot.used / nCtx >= threshold;
+}
+
+/** The newest summary on a path of messages, newest first. */
+export function latestContextSummary(
+  messages: MessageType.Any[],
+): MessageType.Text | undefined {
+  return messages.find(isContextSummary);
+}
+
+/**
+ * The messages to send after the latest summary, newest first, and the
+ * summary itself. Summary rows never go to the model as chat messages.
+ */
+export function withContextSummary(messages: MessageType.Any[]): {
+  history: MessageType.Any[];
+  summary?: string;
+} {
+  const summary = latestContextSummary(messages);
+  if (!summary) {
+    return {history: messages.filter(message => !isContextSummary(message))};
+  }
+  const {throughId} = summary.metadata!
+    .contextSummary as ContextSummaryMetadata;
+  const boundary = messages.findIndex(message => message.id === throughId);
+  const newer = boundary === -1 ? messages : messages.slice(0, boundary);
+  return {
+    history: newer.filter(message => !isContextSummary(message)),
+    summary: summary.text,
+  };
+}
+
+/**
+ * The messages a new summary should cover, oldest first: everything after
+ * the previous summary except the most recent turns. The kept part always
+ * starts with a user message, which strict chat templates require. Returns
+ * undefined when there is nothing old enough to summarize.
+ */
+export function pickMessagesToSummarize(
+  messages: MessageType.Any[],
+): {messages: MessageType.Any[]; throughId: string} | undefined {
+  const {history} = withContextSummary(messages);
+  let kept = RECENT_MESSAGES_KEPT;
+  while (kept < history.length && history[kept - 1].author.id !== user.id) {
+    kept++;
+  }
+  const older = history.slice(kept);
+  if (older.length === 0) {
+    return undefined;
+  }
+  return {messages: [...older].reverse(), throughId: older[0].id};
+}
+
+/** Prompt asking the model to fold `messages` into the previous summary. */
+export function buildSummaryPrompt(
+  previousSummary: string | undefined,
+  messages: MessageType.Any[],
+): ChatMessage[] {
+  const transcript = messages
+    .map(message => {
+      const text = derivedText(message).trim();
+      if (!text) {
+        return '';
+      }
+      return `${message.author.id === user.id ? 'User' : 'Assistant'}: ${text}`;
+    })
+    .filter(line => line.length > 0)
+    .join('\n\n');
+  const earlier = previousSummary
+    ? `Summary of what came before:\n${previousSummary}\n\n`
+    : '';
+  return [
+    {role: 'system', content: SUMMARY_INSTRUCTIONS},
+    {role: 'user', content: `${earlier}Conversation:\n${transcript}`},
+  ];
+}
+
+/** System prompt fragment that puts a summary in front of the recent turns. */
+export function summaryPromptFragment(summary: string): string {
+  return `Summary of the earlier conversation:\n${summary}`;
+}
+
+// Loose enough for both API messages and what assembleMessages returns.
+type PromptMessage = {role: string; content?: unknown; tool_calls?: unknown};
+
+const estimateTokens = (message: PromptMessage): number => {
+  const text =
+    typeof message.content === 'string'
+      ? message.content
+      : Array.isArray(message.content)
+        ? message.content.map(part => part?.text ?? '').join('')
+        : '';
+  const toolCalls = message.tool_calls
+    ? JSON.stringify(message.tool_calls)
+    : '';
+  return Math.ceil((text.length + toolCalls.length) / CHARS_PER_TOKEN);
+};
+
+const totalTokens = (messages: PromptMessage[]): number =>
+  messages.reduce((sum, message) => sum + estimateTokens(message), 0);
+
+/**
+ * Shorten an assembled prompt (optional leading system message, history,
+ * then the new user message) until its estimated size fits in `threshold`
+ * of `nCtx`. The system message and the newest user turn are always kept.
+ * `summarize` and `off` leave the prompt as it is.
+ */
+export function applyContextStrategy<T extends PromptMessage>(
+  messages: T[],
+  {
+    strategy,
+    nCtx,
+    threshold,
+  }: {strategy: ContextStrategy; nCtx: number | undefined; threshold: number},
+): T[] {
+  if (
+    !nCtx ||
+    (strategy !== 'sliding_window' && strategy !== 'drop_tool_outputs')
+  ) {
+    return messages;
+  }
+  const budget = Math.floor(nCtx * threshold);
+  let result = messages;
+
+  if (strategy === 'drop_tool_outputs') {
+    result = [...messages];
+    let size = totalTokens(result);
+    for (let i = 0; i < result.length && size > budget; i++) {
+      const message = result[i];
+      if (message.role === 'tool' && message.content !== ELIDED_TOOL_OUTPUT) {
+        const elided = {...message, content: ELIDED_TOOL_OUTPUT};
+        size += estimateTokens(elided) - estimateTokens(message);
+        result[i] = elided;
+      }
+    }
+  }
+
+  const first = result[0]?.role === 'system' ? 1 : 0;
+  const lastUser = result.map(message => message.role).lastIndexOf('user');
+  let size = totalTokens(result);
+  let start = first;
+  while (size > budget && start < lastUser) {
+    // Drop the oldest turn: its user message and everything up to the next.
+    let next = start + 1;
+    while (next < lastUser && result[next].role !== 'user') {
+      next++;
+    }
+    size -= totalTokens(result.slice(start, next));
+    start = next;
+  }
+  return start === first
+    ? result
+    : [...result.slice(0, first), ...result.slice(start)];
+}
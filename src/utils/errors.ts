@@ -37,6 +37,24 @@ export class ServerError extends Error {
   }
 }
 
+/**
+ * DownloadCorruptedError - Used when a downloaded file does not match its
+ * published checksum
+ * Examples: truncated transfer, a mirror serving a different file, etc.
+ */
+export class DownloadCorruptedError extends Error {
+  constructor(
+    public readonly modelId: string,
+    public readonly expectedHash: string,
+    public readonly actualHash: string,
+  ) {
+    super(
+      `Checksum mismatch for ${modelId}: expected ${expectedHash}, got ${actualHash}`,
+    );
+    this.name = 'DownloadCorruptedError';
+  }
+}
+
 /**
  * Standardized error state interface for consistent error handling across the app
  */
@@ -48,6 +66,7 @@ export interface ErrorState {
     | 'storage'
     | 'server'
     | 'multimodal'
+    | 'corrupted'
     | 'unknown';
   service?: 'huggingface' | 'firebase' | 'localapi';
   message: string;
@@ -126,6 +145,9 @@ export function createErrorState(
   } else if (error instanceof ServerError) {
     code = 'server';
     message = error.message;
+  } else if (error instanceof DownloadCorruptedError) {
+    code = 'corrupted';
+    message = l10nObject.errors.downloadCorrupted;
   } else if (error instanceof Error) {
     // Handle error messages containing HTTP status codes (e.g., 'Client error: 403')
     if (typeof error.message === 'string') {
@@ -6,7 +6,7 @@ import * as RNFS from '@dr.pogodin/react-native-fs';
 
 import {chatSessionRepository} from '../repositories/ChatSessionRepository';
 
-import {uiStore, palStore} from '../store';
+import {uiStore, palStore, webhookToolStore, palMemoryStore} from '../store';
 import {ensureLegacyStoragePermission} from './androidPermission';
 import {derivedText, userId} from './chat';
 import {getAbsoluteThumbnailPath, isLocalThumbnailPath} from './imageUtils';
@@ -28,6 +28,7 @@ const toExportedMessage = (msg: Message) => {
     type: msg.type,
     metadata: msg.metadata ? JSON.parse(msg.metadata) : {},
     createdAt: msg.createdAt,
+    parentId: msg.parentId || undefined,
   };
 };
 /**
@@ -197,6 +198,11 @@ const transformExportPal = async (pal: Pal) => {
     }
   }
 
+  const webhookTools = webhookToolStore.exportTools(
+    (pal.pact?.talents ?? []).map(talent => talent.name),
+  );
+  const memories = palMemoryStore.exportMemories(pal.id);
+
   const exportData = {
     // Export format version for future compatibility
     version: '2.0',
@@ -221,6 +227,11 @@ const transformExportPal = async (pal: Pal) => {
     // them is required so backups + share-and-reimport don't silently drop
     // a Pal's tool configuration or greeting.
     pact: pal.pact,
+    // Definitions of the HTTP tools the pact names, so the Pal works on
+    // another device. Secret header values stay in this device's Keychain.
+    webhook_tools: webhookTools.length > 0 ? webhookTools : undefined,
+    // What the Pal remembered about the user (the memory talents).
+    memories: memories.length > 0 ? memories : undefined,
     greeting: pal.greeting,
     parameters: pal.parameters,
     parameterSchema: pal.parameterSchema,
@@ -1,10 +1,15 @@
 /**
- * Minimal GGUF header reader for the remote MTP capability probe.
+ * Minimal GGUF header reader for the remote MTP capability probe, the
+ * add-from-URL probe and the quant recommender.
  *
  * Reads just enough of a remote GGUF file, over plain HTTP range requests, to
  * answer one question: does this model carry MTP draft layers (the
  * `<arch>.nextn_predict_layers` KV, or `nextn.*` tensors from converters that
- * write the layers but omit the KV)?
+ * write the layers but omit the KV)? Along the way it picks up the `split.*`
+ * KVs of a split model, since only the first part's tensors can be scanned.
+ * `readGGUFHeaderInfo` walks the same KVs for the architecture of a file about
+ * to be imported from an arbitrary URL, and `readGGUFModelMetadata` for the
+ * architecture KVs that price the KV cache of a file not yet downloaded.
  *
  * A general-purpose parser must materialize every metadata value — including
  * the ~10^5-string tokenizer vocab that dominates a header — before the caller
@@ -19,6 +24,9 @@
  * throws — the probe maps that to `unknown`, never to a false negative.
  */
 
+import {ggufMetadataFromKVs} from './memoryEstimator';
+import {GGUFMetadata} from './types';
+
 const GGUF_MAGIC = 0x46554747; // "GGUF" read as LE u32
 
 const HTTP_CHUNK_SIZE = 2 * 1024 * 1024;
@@ -61,14 +69,30 @@ const FIXED_SIZES: Partial<Record<number, number>> = {
   [GGUFType.FLOAT64]: 8,
 };
 
+export interface GGUFSplitInfo {
+  no: number; // 0-based number of this file in the set
+  count: number;
+  tensorsCount?: number; // Tensors across all files
+}
+
 export interface GGUFHeaderProbeResult {
   nextnPredictLayers: number;
   hasNextnTensor: boolean;
+  // Set for a file of a split model (`split.*` KVs written by gguf-split),
+  // when read before the probe could stop early.
+  split?: GGUFSplitInfo;
+}
+
+export interface GGUFHeaderInfo {
+  architecture?: string; // `general.architecture`
+  fileSize?: number; // From the Content-Range of the first response
+  split?: GGUFSplitInfo;
 }
 
 export interface ReadGGUFHeaderOptions {
   fetchImpl?: typeof fetch;
   chunkSize?: number;
+  headers?: Record<string, string>; // Sent with every range request
 }
 
 /** Sequential-prefix buffer over HTTP range requests. */
@@ -76,11 +100,13 @@ class ChunkedReader {
   private bytes = new Uint8Array(0);
   private view = new DataView(new ArrayBuffer(0));
   private eof = false;
+  totalSize?: number;
 
   constructor(
     private readonly url: string,
     private readonly fetchImpl: typeof fetch,
     private readonly chunkSize: number,
+    private readonly headers: Record<string, string> = {},
   ) {}
 
   private async ensure(end: number): Promise<void> {
@@ -91,11 +117,24 @@ class ChunkedReader {
       const from = this.bytes.byteLength;
       const to = from + this.chunkSize - 1;
       const res = await this.fetchImpl(this.url, {
-        headers: {Range: `bytes=${from}-${to}`},
+        headers: {...this.headers, Range: `bytes=${from}-${to}`},
       });
       if (!res.ok) {
         throw new Error(`gguf range request failed: HTTP ${res.status}`);
       }
+      // A server that ignores the range sends the whole file; reading that
+      // body would pull gigabytes into memory.
+      const length = Number(res.headers?.get('content-length'));
+      if (res.status !== 206 && length > this.chunkSize) {
+        throw new Error('server does not support range requests');
+      }
+      const range = res.headers?.get('content-range');
+      const total = range ? /\/(\d+)\s*$/.exec(range) : null;
+      if (total) {
+        this.totalSize = Number(total[1]);
+      } else if (res.status === 200 && length) {
+        this.totalSize = length;
+      }
       const chunk = new Uint8Array(await res.arrayBuffer());
       if (chunk.byteLength === 0) {
         this.eof = true;
@@ -190,15 +229,22 @@ const decodeUtf8 = (bytes: Uint8Array): string => {
 
 const NEXTN_KV_SUFFIX = '.nextn_predict_layers';
 const NEXTN_TENSOR = /(^|\.)nextn\./;
+const SPLIT_KEYS: Record<string, keyof GGUFSplitInfo> = {
+  'split.no': 'no',
+  'split.count': 'count',
+  'split.tensors.count': 'tensorsCount',
+};
 
-export const readGGUFHeaderForMTP = async (
-  url: string,
-  options?: ReadGGUFHeaderOptions,
-): Promise<GGUFHeaderProbeResult> => {
+/**
+ * Checks the magic and version and reads the counts. Returns the readers the
+ * KV and tensor walks share, positioned at the first KV.
+ */
+const openGGUFHeader = async (url: string, options?: ReadGGUFHeaderOptions) => {
   const reader = new ChunkedReader(
     url,
     options?.fetchImpl ?? fetch,
     options?.chunkSize ?? HTTP_CHUNK_SIZE,
+    options?.headers,
   );
 
   if ((await reader.u32(0)) !== GGUF_MAGIC) {
@@ -214,11 +260,8 @@ export const readGGUFHeaderForMTP = async (
       ? [await reader.u32(offset), offset + 4]
       : [await reader.u64(offset), offset + 8];
 
-  let offset = 8;
-  let tensorCount: number;
-  let kvCount: number;
-  [tensorCount, offset] = await len(offset);
-  [kvCount, offset] = await len(offset);
+  const [tensorCount, afterTensorCount] = await len(8);
+  const [kvCount, offset] = await len(afterTensorCount);
   if (kvCount > MAX_KV_COUNT || tensorCount > MAX_TENSOR_COUNT) {
     throw new Error('gguf header counts out of range');
   }
@@ -295,7 +338,34 @@ export const readGGUFHeaderForMTP = async (
     throw new Error(`unknown gguf value type ${type}`);
   };
 
+  return {
+    reader,
+    version,
+    len,
+    readNumber,
+    skipValue,
+    tensorCount,
+    kvCount,
+    offset,
+  };
+};
+
+export const readGGUFHeaderForMTP = async (
+  url: string,
+  options?: ReadGGUFHeaderOptions,
+): Promise<GGUFHeaderProbeResult> => {
+  const header = await openGGUFHeader(url, options);
+  const {reader, version, len, readNumber, skipValue, tensorCount, kvCount} =
+    header;
+  let offset = header.offset;
+
   let nextnPredictLayers = 0;
+  const split: Partial<GGUFSplitInfo> = {};
+  const withSplit = (result: GGUFHeaderProbeResult): GGUFHeaderProbeResult =>
+    split.count !== undefined
+      ? {...result, split: {no: split.no ?? 0, ...split} as GGUFSplitInfo}
+      : result;
+
   for (let i = 0; i < kvCount; i++) {
     const [keyLen, afterLen] = await len(offset);
     if (keyLen > MAX_KEY_LENGTH) {
@@ -309,10 +379,14 @@ export const readGGUFHeaderForMTP = async (
     if (key.endsWith(NEXTN_KV_SUFFIX) && valueType !== GGUFType.ARRAY) {
       const [value, next] = await readNumber(valueType, valueAt);
       if (Number.isFinite(value) && value > 0) {
-        return {nextnPredictLayers: value, hasNextnTensor: false};
+        return withSplit({nextnPredictLayers: value, hasNextnTensor: false});
       }
       nextnPredictLayers = 0;
       offset = next;
+    } else if (key in SPLIT_KEYS && valueType !== GGUFType.ARRAY) {
+      const [value, next] = await readNumber(valueType, valueAt);
+      split[SPLIT_KEYS[key]] = value;
+      offset = next;
     } else {
       offset = await skipValue(valueType, valueAt, 0);
     }
@@ -327,7 +401,7 @@ export const readGGUFHeaderForMTP = async (
     }
     const name = decodeUtf8(await reader.slice(afterLen, nameLen));
     if (NEXTN_TENSOR.test(name)) {
-      return {nextnPredictLayers, hasNextnTensor: true};
+      return withSplit({nextnPredictLayers, hasNextnTensor: true});
     }
     let at = afterLen + nameLen;
     const nDims = await reader.u32(at);
@@ -341,5 +415,123 @@ export const readGGUFHeaderForMTP = async (
     offset = at;
   }
 
-  return {nextnPredictLayers, hasNextnTensor: false};
+  return withSplit({nextnPredictLayers, hasNextnTensor: false});
+};
+
+const ARCHITECTURE_KEY = 'general.architecture';
+
+/**
+ * What the add-from-URL flow shows before committing to a download. Walks the
+ * KVs only; the tensor infos say nothing the user needs here.
+ */
+export const readGGUFHeaderInfo = async (
+  url: string,
+  options?: ReadGGUFHeaderOptions,
+): Promise<GGUFHeaderInfo> => {
+  const {
+    reader,
+    len,
+    readNumber,
+    skipValue,
+    kvCount,
+    offset: first,
+  } = await openGGUFHeader(url, options);
+
+  const info: GGUFHeaderInfo = {};
+  const split: Partial<GGUFSplitInfo> = {};
+  let offset = first;
+  for (let i = 0; i < kvCount; i++) {
+    const [keyLen, afterLen] = await len(offset);
+    if (keyLen > MAX_KEY_LENGTH) {
+      throw new Error('gguf key length out of range');
+    }
+    const key = decodeUtf8(await reader.slice(afterLen, keyLen));
+    const typeAt = afterLen + keyLen;
+    const valueType = await reader.u32(typeAt);
+    const valueAt = typeAt + 4;
+
+    if (key === ARCHITECTURE_KEY && valueType === GGUFType.STRING) {
+      const [strLen, strAt] = await len(valueAt);
+      if (strLen > MAX_KEY_LENGTH) {
+        throw new Error('gguf string length out of range');
+      }
+      info.architecture = decodeUtf8(await reader.slice(strAt, strLen));
+      offset = strAt + strLen;
+    } else if (key in SPLIT_KEYS && valueType !== GGUFType.ARRAY) {
+      const [value, next] = await readNumber(valueType, valueAt);
+      split[SPLIT_KEYS[key]] = value;
+      offset = next;
+    } else {
+      offset = await skipValue(valueType, valueAt, 0);
+    }
+  }
+
+  if (split.count !== undefined) {
+    info.split = {no: split.no ?? 0, ...split} as GGUFSplitInfo;
+  }
+  info.fileSize = reader.totalSize;
+  return info;
+};
+
+const TOKENS_KEY = 'tokenizer.ggml.tokens';
+
+/**
+ * The estimator metadata of a remote file, or `undefined` when its header
+ * lacks the core architecture KVs. Keeps scalar KVs only and stops at the
+ * tokenizer vocab once those are in, so the vocab is counted, not walked.
+ */
+export const readGGUFModelMetadata = async (
+  url: string,
+  options?: ReadGGUFHeaderOptions,
+): Promise<GGUFMetadata | undefined> => {
+  const {
+    reader,
+    len,
+    readNumber,
+    skipValue,
+    kvCount,
+    offset: first,
+  } = await openGGUFHeader(url, options);
+
+  const kvs: Record<string, unknown> = {};
+  let vocabSize: number | undefined;
+  let offset = first;
+  for (let i = 0; i < kvCount; i++) {
+    const [keyLen, afterLen] = await len(offset);
+    if (keyLen > MAX_KEY_LENGTH) {
+      throw new Error('gguf key length out of range');
+    }
+    const key = decodeUtf8(await reader.slice(afterLen, keyLen));
+    const typeAt = afterLen + keyLen;
+    const valueType = await reader.u32(typeAt);
+    const valueAt = typeAt + 4;
+
+    if (key === ARCHITECTURE_KEY && valueType === GGUFType.STRING) {
+      const [strLen, strAt] = await len(valueAt);
+      if (strLen > MAX_KEY_LENGTH) {
+        throw new Error('gguf string length out of range');
+      }
+      kvs[key] = decodeUtf8(await reader.slice(strAt, strLen));
+      offset = strAt + strLen;
+    } else if (key === TOKENS_KEY && valueType === GGUFType.ARRAY) {
+      [vocabSize] = await len(valueAt + 4);
+      if (ggufMetadataFromKVs(kvs)) {
+        break;
+      }
+      offset = await skipValue(valueType, valueAt, 0);
+    } else if (valueType !== GGUFType.ARRAY && valueType !== GGUFType.STRING) {
+      const [value, next] = await readNumber(valueType, valueAt);
+      kvs[key] = value;
+      offset = next;
+    } else {
+      offset = await skipValue(valueType, valueAt, 0);
+    }
+  }
+
+  const architecture = kvs[ARCHITECTURE_KEY];
+  const vocabKey = `${architecture}.vocab_size`;
+  if (vocabSize && kvs[vocabKey] === undefined) {
+    kvs[vocabKey] = vocabSize;
+  }
+  return ggufMetadataFromKVs(kvs);
 };
@@ -4,26 +4,95 @@
  */
 
 import {urls} from '../config';
-import type {HuggingFaceModel, ModelFile} from './types';
+import type {HuggingFaceModel, Model, ModelFile} from './types';
 
 // Regex pattern for detecting sharded GGUF files
 const RE_GGUF_SHARD_FILE =
   /^(?<prefix>.*?)-(?<shard>\d{5})-of-(?<total>\d{5})\.gguf$/;
 
 /**
- * Filters out non-GGUF and sharded GGUF files from model siblings
+ * Filters out non-GGUF files and shards that are not grouped into a set
  * @param siblings - Array of model files/siblings
  * @returns Filtered array containing only valid GGUF files
  */
 export function filterValidGGUFFiles(siblings: any[]): any[] {
   return (
     siblings?.filter(sibling => {
+      if (sibling.shards?.length) {
+        return true;
+      }
       const filename = sibling.rfilename?.toLowerCase() || '';
       return filename.endsWith('.gguf') && !RE_GGUF_SHARD_FILE.test(filename);
     }) || []
   );
 }
 
+/**
+ * Parses a split GGUF filename such as "model-00001-of-00003.gguf"
+ * @param filename - The filename to parse
+ * @returns The shared prefix, 1-based part number and part count, or null
+ */
+export function parseGGUFShardFilename(
+  filename: string,
+): {prefix: string; shard: number; total: number} | null {
+  const match = RE_GGUF_SHARD_FILE.exec(filename);
+  if (!match?.groups) {
+    return null;
+  }
+  return {
+    prefix: match.groups.prefix,
+    shard: Number(match.groups.shard),
+    total: Number(match.groups.total),
+  };
+}
+
+/**
+ * Collapses each complete set of split GGUF files into one sibling, in place
+ * of its first part. The grouped sibling keeps the first part's name and lfs,
+ * sums the sizes and lists every part in `shards`. Incomplete sets are dropped.
+ * @param siblings - Array of model files/siblings
+ * @returns Siblings with shard sets grouped; other files are left as they are
+ */
+export function groupShardedGGUFFiles(siblings: any[]): any[] {
+  const sets = new Map<string, any[]>();
+  const keyOf = (parsed: {prefix: string; total: number}) =>
+    `${parsed.prefix}|${parsed.total}`;
+  for (const sibling of siblings) {
+    const parsed = parseGGUFShardFilename(sibling.rfilename ?? '');
+    if (parsed) {
+      const parts = sets.get(keyOf(parsed)) ?? [];
+      parts[parsed.shard - 1] = sibling;
+      sets.set(keyOf(parsed), parts);
+    }
+  }
+
+  return siblings.flatMap(sibling => {
+    const parsed = parseGGUFShardFilename(sibling.rfilename ?? '');
+    if (!parsed) {
+      return [sibling];
+    }
+    const parts = sets.get(keyOf(parsed))!;
+    // Array.from turns the holes of missing parts into undefined.
+    const complete =
+      parsed.total > 1 &&
+      parts.length === parsed.total &&
+      Array.from(parts).every(Boolean);
+    if (parsed.shard !== 1 || !complete) {
+      return [];
+    }
+    const sizes = parts.map(part => part.size);
+    return [
+      {
+        ...sibling,
+        size: sizes.every(size => typeof size === 'number')
+          ? sizes.reduce((sum, size) => sum + size, 0)
+          : undefined,
+        shards: parts,
+      },
+    ];
+  });
+}
+
 /**
  * Adds proper download URLs to model files based on modelId
  * @param modelId - The HuggingFace model ID (e.g., "microsoft/DialoGPT-medium")
@@ -37,12 +106,15 @@ export function addModelFileDownloadUrls(
   return siblings.map(sibling => ({
     ...sibling,
     url: urls.modelDownloadFile(modelId, sibling.rfilename),
+    ...(sibling.shards
+      ? {shards: addModelFileDownloadUrls(modelId, sibling.shards)}
+      : {}),
   }));
 }
 
 /**
  * Normalizes model siblings array to ensure consistent format
- * Filters GGUF files and adds download URLs
+ * Groups split GGUF files, filters GGUF files and adds download URLs
  * @param modelId - The HuggingFace model ID
  * @param siblings - Raw siblings array from HF API
  * @returns Normalized siblings array with consistent format
@@ -51,7 +123,9 @@ export function normalizeModelSiblings(
   modelId: string,
   siblings: any[],
 ): ModelFile[] {
-  const filteredSiblings = filterValidGGUFFiles(siblings);
+  const filteredSiblings = filterValidGGUFFiles(
+    groupShardedGGUFFiles(siblings),
+  );
   return addModelFileDownloadUrls(modelId, filteredSiblings);
 }
 
@@ -94,6 +168,26 @@ export function createSiblingsFromFileDetails(
   return normalizeModelSiblings(modelId, siblings);
 }
 
+/**
+ * Lists the local files of a model: the parts of a split model are stored
+ * next to the first one
+ * @param model - The model
+ * @param fullPath - Path of the model's own file (its first part)
+ * @returns Every file path, starting with `fullPath`
+ */
+export function modelFilePaths(
+  model: Pick<Model, 'shards'>,
+  fullPath: string,
+): string[] {
+  if (!model.shards?.length) {
+    return [fullPath];
+  }
+  const dirPath = fullPath.substring(0, fullPath.lastIndexOf('/'));
+  return model.shards.map((shard, index) =>
+    index === 0 ? fullPath : `${dirPath}/${shard.filename.split('/').pop()}`,
+  );
+}
+
 /**
  * Checks if a filename represents a sharded GGUF file
  * @param filename - The filename to check
@@ -112,3 +206,42 @@ export function isValidGGUFFile(filename: string): boolean {
   const lowerFilename = filename.toLowerCase();
   return lowerFilename.endsWith('.gguf') && !isShardedGGUFFile(filename);
 }
+
+/**
+ * Checks if a string is usable as a Hugging Face mirror base URL
+ * @param url - The mirror base URL, e.g. "https://hf-mirror.com"
+ * @returns True for an http(s) URL without a query or fragment
+ */
+export function isValidMirrorUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (
+      (parsed.protocol === 'https:' || parsed.protocol === 'http:') &&
+      !parsed.search &&
+      !parsed.hash
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Points a huggingface.co download URL at a mirror, keeping the repo path
+ * @param url - The download URL
+ * @param mirrorUrl - Mirror base URL (may include a path prefix); empty for none
+ * @returns The mirrored URL, or the URL unchanged for other hosts or no mirror
+ */
+export function applyHfMirror(url: string, mirrorUrl?: string | null): string {
+  if (!mirrorUrl || !isValidMirrorUrl(mirrorUrl)) {
+    return url;
+  }
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' || parsed.host !== 'huggingface.co') {
+      return url;
+    }
+    return `${mirrorUrl.replace(/\/+$/, '')}${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
@@ -159,6 +159,7 @@ export const resolveHFModelForDownload = async (
     url: matched?.url || fallback?.downloadUrl,
     oid: matched?.oid,
     lfs: matched?.lfs,
+    shards: matched?.shards,
   };
 
   return {hfModel, modelFile};
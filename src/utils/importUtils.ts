@@ -13,7 +13,8 @@ import {chatSessionRepository} from '../repositories/ChatSessionRepository';
 import {MessageType} from './types';
 import {CompletionParams} from './completionTypes';
 import {migrateCompletionSettings} from './completionSettingsVersions';
-import {palStore} from '../store';
+import {palStore, webhookToolStore, palMemoryStore} from '../store';
+import type {PalMemoryExport, WebhookToolExport} from '../store';
 import type {Pal, ParameterDefinition} from '../types/pal';
 
 /**
@@ -38,8 +39,32 @@ export interface ImportedMessage {
   type: string;
   metadata?: Record<string, any>;
   createdAt?: number;
+  /** Message this one replies to; absent in files from before branching. */
+  parentId?: string;
 }
 
+/** Cancellation resolves to `null`; anything else is rethrown. */
+const handlePickerError = (err: any): null => {
+  if (isErrorWithCode(err)) {
+    switch (err.code) {
+      case errorCodes.IN_PROGRESS:
+        console.warn(
+          'user attempted to present a picker, but a previous one was already presented',
+        );
+        break;
+      case errorCodes.UNABLE_TO_OPEN_FILE_TYPE:
+        throw new Error('unable to open file type');
+      case errorCodes.OPERATION_CANCELED:
+        // ignore
+        return null;
+      default:
+        console.error(err);
+        throw new Error('unknown error');
+    }
+  }
+  throw err;
+};
+
 /**
  * Pick a JSON file using document picker
  */
@@ -64,24 +89,39 @@ export const pickJsonFile = async (): Promise<string | null> => {
     }
     return null;
   } catch (err: any) {
-    if (isErrorWithCode(err)) {
-      switch (err.code) {
-        case errorCodes.IN_PROGRESS:
-          console.warn(
-            'user attempted to present a picker, but a previous one was already presented',
-          );
-          break;
-        case errorCodes.UNABLE_TO_OPEN_FILE_TYPE:
-          throw new Error('unable to open file type');
-        case errorCodes.OPERATION_CANCELED:
-          // ignore
-          return null;
-        default:
-          console.error(err);
-          throw new Error('unknown error');
+    return handlePickerError(err);
+  }
+};
+
+/**
+ * Pick a plain-text or markdown file to add to a document collection
+ */
+export const pickTextDocument = async (): Promise<{
+  uri: string;
+  name: string;
+} | null> => {
+  try {
+    const res = await pick({
+      type:
+        Platform.OS === 'ios'
+          ? [types.plainText, 'net.daringfireball.markdown']
+          : [types.allFiles],
+    });
+
+    if (res && res.length > 0) {
+      const file = res[0];
+      const name = file.name ?? 'document.txt';
+      if (
+        !/\.(txt|md|markdown)$/i.test(name) &&
+        !file.type?.startsWith('text/')
+      ) {
+        throw new Error('Selected file is not a text or markdown file');
       }
+      return {uri: file.uri, name};
     }
-    throw err;
+    return null;
+  } catch (err: any) {
+    return handlePickerError(err);
   }
 };
 
@@ -225,6 +265,7 @@ const importSingleSession = async (
           type: msg.type as any,
           metadata: msg.metadata || {},
           createdAt: msg.createdAt || Date.now(),
+          parentId: msg.parentId,
         }) as MessageType.Any,
     );
 
@@ -264,6 +305,10 @@ export interface ImportedPal {
   // promoted them to first-class persisted state. Optional on read so legacy
   // exports without these fields still validate.
   pact?: Pal['pact'];
+  // HTTP tools the pact names, without secret header values.
+  webhook_tools?: WebhookToolExport[];
+  // Saved memories, restored onto the newly created Pal.
+  memories?: PalMemoryExport[];
   greeting?: Pal['greeting'];
   parameters: Record<string, any>;
   parameterSchema: ParameterDefinition[];
@@ -283,9 +328,21 @@ export interface ImportedPal {
 }
 
 /**
- * Import pals from a JSON file (single or multiple)
+ * Asks the user whether to add the HTTP tools an imported Pal brings along;
+ * they send requests to addresses the export chose.
+ */
+export type ConfirmWebhookTools = (
+  palName: string,
+  tools: WebhookToolExport[],
+) => Promise<boolean>;
+
+/**
+ * Import pals from a JSON file (single or multiple). Bundled HTTP tools are
+ * only added once `confirmWebhookTools` resolves true.
  */
-export const importPals = async (): Promise<number> => {
+export const importPals = async (
+  confirmWebhookTools?: ConfirmWebhookTools,
+): Promise<number> => {
   try {
     // Pick a JSON file
     const fileUri = await pickJsonFile();
@@ -299,12 +356,12 @@ export const importPals = async (): Promise<number> => {
     if (Array.isArray(validatedData)) {
       let importedCount = 0;
       for (const pal of validatedData) {
-        await importSinglePal(pal);
+        await importSinglePal(pal, confirmWebhookTools);
         importedCount++;
       }
       return importedCount;
     } else {
-      await importSinglePal(validatedData);
+      await importSinglePal(validatedData, confirmWebhookTools);
       return 1;
     }
   } catch (error) {
@@ -460,13 +517,55 @@ const transformImportPal = async (
 };
 
 /**
- * Import a single pal
+ * Import a single pal. Talents using the tools it brings along always ask
+ * before each call; when the user declines those tools, the talents that
+ * needed them are left out. A bundled tool whose name is taken locally is
+ * not imported, and its talent keeps using the local tool as it is.
  */
-const importSinglePal = async (pal: ImportedPal): Promise<void> => {
+const importSinglePal = async (
+  pal: ImportedPal,
+  confirmWebhookTools?: ConfirmWebhookTools,
+): Promise<void> => {
   try {
+    const bundled = Array.isArray(pal.webhook_tools) ? pal.webhook_tools : [];
+    const tools = webhookToolStore.importableTools(bundled);
+    const addTools =
+      tools.length > 0 &&
+      !!confirmWebhookTools &&
+      (await confirmWebhookTools(pal.name, tools));
+
     const palData = await transformImportPal(pal);
+    const talents = palData.pact?.talents;
+    if (Array.isArray(talents)) {
+      const names = tools.map(tool => tool.name);
+      const imported = new Set(addTools ? names : []);
+      const declined = new Set(addTools ? [] : names);
+      palData.pact = {
+        ...palData.pact,
+        talents: talents
+          .filter(talent => !declined.has(talent.name))
+          .map(talent =>
+            imported.has(talent.name)
+              ? {...talent, approval: 'ask' as const}
+              : talent,
+          ),
+      };
+    }
 
-    await palStore.createPal(palData);
+    // The Pal goes first so a failed Pal leaves no tools behind; tools
+    // that fail take the new Pal with them.
+    const created = await palStore.createPal(palData);
+    if (addTools) {
+      try {
+        await webhookToolStore.importTools(tools);
+      } catch (error) {
+        await palStore.deletePal(created.id);
+        throw error;
+      }
+    }
+    if (Array.isArray(pal.memories)) {
+      await palMemoryStore.importMemories(created.id, pal.memories);
+    }
   } catch (error) {
     console.error('Error importing single pal:', error);
     throw error;
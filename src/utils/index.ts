@@ -31,6 +31,8 @@ import {
   getVisionModelSizeBreakdown,
 } from './multimodalHelpers';
 import {isDraftOnlyFilename} from './mtp';
+import {parseGGUFShardFilename} from './hf';
+import {isLoraAdapterRepo} from './loraAdapters';
 
 export const L10nContext = React.createContext<
   (typeof l10n)[keyof typeof l10n]
@@ -335,7 +337,14 @@ export const getModelDescription = (
   return `${l10nData.models.modelDescription.size}${sizeString}${l10nData.models.modelDescription.separator}${l10nData.models.modelDescription.parameters}${paramsString}`;
 };
 
-export async function hasEnoughSpace(model: Model): Promise<boolean> {
+/**
+ * Whether the model fits in free storage, leaving `reservedBytes` for
+ * other downloads that are still to be written.
+ */
+export async function hasEnoughSpace(
+  model: Model,
+  reservedBytes: number = 0,
+): Promise<boolean> {
   try {
     let requiredSpaceBytes = model.size;
 
@@ -358,7 +367,7 @@ export async function hasEnoughSpace(model: Model): Promise<boolean> {
     const freeDiskBytes = await DeviceInfo.getFreeDiskStorage('important');
     // console.log('Free disk space:', freeDiskBytes);
 
-    return requiredSpaceBytes <= freeDiskBytes;
+    return requiredSpaceBytes + reservedBytes <= freeDiskBytes;
   } catch (error) {
     console.error('Error fetching free disk space:', error);
     return false;
@@ -429,8 +438,11 @@ export function hfAsModel(
   // nothing and offer image attach on a model that never loads.
   const isDraftOnly = isDraftOnlyFilename(modelFile.rfilename);
 
+  // LoRA adapters are tagged per repo; they never load on their own.
+  const isLora = isLoraAdapterRepo(hfModel) && !isProjModel;
+
   // Check if this is a vision LLM (in a vision repo but not a projection model)
-  const isVisionLLM = isVision && !isProjModel && !isDraftOnly;
+  const isVisionLLM = isVision && !isProjModel && !isDraftOnly && !isLora;
 
   // Get compatible projection models if this is a vision LLM
   let compatibleProjectionModels: string[] = [];
@@ -471,7 +483,11 @@ export function hfAsModel(
     type: extractHFModelType(hfModel.id),
     author: hfModel.author,
     repo: repo,
-    name: extractHFModelTitle(modelFile.rfilename),
+    name: extractHFModelTitle(
+      modelFile.shards?.length
+        ? `${parseGGUFShardFilename(modelFile.rfilename)?.prefix}.gguf`
+        : modelFile.rfilename,
+    ),
     size: modelFile.size ?? 0,
     params: hfModel.specs?.gguf?.total ?? 0,
     isDownloaded: false,
@@ -491,14 +507,24 @@ export function hfAsModel(
     stopWords: defaultSettings.completionParams.stop,
     hfModelFile: modelFile,
     hfModel: hfModel,
+    shards: modelFile.shards?.map(part => ({
+      filename: part.rfilename,
+      downloadUrl: part.url ?? '',
+      size: part.size ?? 0,
+      sha256: part.lfs?.oid,
+    })),
 
     // Set multimodal fields
     supportsMultimodal: isVisionLLM,
     modelType: isProjModel
       ? ModelType.PROJECTION
-      : isVisionLLM
-        ? ModelType.VISION
-        : undefined,
+      : isLora
+        ? ModelType.LORA
+        : isVisionLLM
+          ? ModelType.VISION
+          : undefined,
+    // Refined from the file header once downloaded
+    adapterArchitecture: isLora ? hfModel.specs?.gguf?.architecture : undefined,
     compatibleProjectionModels: isVisionLLM
       ? compatibleProjectionModels
       : undefined,
@@ -0,0 +1,64 @@
+import {HuggingFaceModel, LoraAdapterSetting, Model, ModelType} from './types';
+
+export const DEFAULT_LORA_SCALE = 1;
+
+/**
+ * HF tags LoRA repos with `lora`, and `base_model:adapter:<id>` when the card
+ * names the base model. GGUF conversions of adapters keep both tags.
+ */
+export const isLoraAdapterRepo = (hfModel: {tags?: string[]}): boolean =>
+  (hfModel.tags ?? []).some(
+    tag => tag === 'lora' || tag.startsWith('base_model:adapter:'),
+  );
+
+/**
+ * The base model a LoRA repo was trained on, from its adapter tag. Shown as a
+ * hint only; compatibility is decided by architecture.
+ */
+export const getLoraBaseModel = (
+  hfModel: HuggingFaceModel,
+): string | undefined =>
+  hfModel.tags
+    ?.find(tag => tag.startsWith('base_model:adapter:'))
+    ?.slice('base_model:adapter:'.length);
+
+/**
+ * An adapter only applies to a base model of the architecture it was trained
+ * for. Without an architecture on either side there is nothing to match, so
+ * the adapter is not offered.
+ */
+export const isLoraCompatible = (
+  adapter: Pick<Model, 'adapterArchitecture'>,
+  base: Pick<Model, 'ggufMetadata'>,
+): boolean => {
+  const adapterArch = adapter.adapterArchitecture?.toLowerCase();
+  const baseArch = base.ggufMetadata?.architecture?.toLowerCase();
+  return Boolean(adapterArch && baseArch && adapterArch === baseArch);
+};
+
+/** Downloaded adapters that can be applied to `base`. */
+export const getCompatibleLoraAdapters = (
+  base: Model,
+  models: Model[],
+): Model[] =>
+  models.filter(
+    m =>
+      m.modelType === ModelType.LORA &&
+      m.isDownloaded &&
+      isLoraCompatible(m, base),
+  );
+
+/**
+ * The adapters to apply when `base` is loaded: a Pal's pins replace the
+ * model's own selection. Settings for adapters that are gone, not compatible
+ * or scaled to zero are dropped.
+ */
+export const resolveLoraAdapters = (
+  base: Model,
+  models: Model[],
+  pinned?: LoraAdapterSetting[],
+): LoraAdapterSetting[] => {
+  const settings = pinned?.length ? pinned : (base.loraAdapters ?? []);
+  const compatible = getCompatibleLoraAdapters(base, models).map(m => m.id);
+  return settings.filter(s => s.scale > 0 && compatible.includes(s.id));
+};
@@ -1,4 +1,10 @@
-import {Model, GGUFMetadata, ContextInitParams, CacheType} from './types';
+import {
+  Model,
+  GGUFMetadata,
+  ContextInitParams,
+  CacheType,
+  WarmContext,
+} from './types';
 
 // Guards against corrupted metadata persisted by older app versions.
 function isValidGGUFMetadata(metadata: GGUFMetadata): boolean {
@@ -17,6 +23,80 @@ function isValidGGUFMetadata(metadata: GGUFMetadata): boolean {
   );
 }
 
+// Default vocab sizes by architecture (matches Python memory_estimator.py)
+const ARCH_DEFAULT_VOCAB: Record<string, number> = {
+  llama: 128256,
+  gemma2: 256000,
+  gemma3n: 262144,
+  qwen2: 151936,
+  qwen3: 151936,
+  lfm2: 65536,
+  phi3: 32064,
+  mistral: 32000,
+  deepseek2: 102400,
+  clip: 49408, // CLIP models have smaller vocab
+};
+
+/**
+ * Build the estimator's metadata from raw GGUF KVs, as returned by
+ * `loadLlamaModelInfo` for a local file or read from a remote header.
+ * Returns `undefined` when the core fields are missing.
+ */
+export function ggufMetadataFromKVs(
+  kvs: Record<string, unknown>,
+): GGUFMetadata | undefined {
+  // Get the architecture to determine the correct key prefix
+  const architecture =
+    typeof kvs['general.architecture'] === 'string'
+      ? (kvs['general.architecture'] as string)
+      : 'llama';
+
+  // Helper to get architecture-specific value with fallback (matches Python get_arch_value)
+  const getArchValue = (
+    field: string,
+    defaultValue?: number,
+  ): number | undefined => {
+    const value = kvs[`${architecture}.${field}`];
+    if (value !== undefined && value !== null) {
+      // Handle string values (GGUF sometimes returns strings)
+      if (typeof value === 'string') {
+        const parsed = value.includes('.')
+          ? parseFloat(value)
+          : parseInt(value, 10);
+        return isNaN(parsed) ? defaultValue : parsed;
+      }
+      return typeof value === 'number' ? value : defaultValue;
+    }
+    return defaultValue;
+  };
+
+  // Extract core fields (these are required)
+  const n_layers = getArchValue('block_count');
+  const n_embd = getArchValue('embedding_length');
+  const n_head = getArchValue('attention.head_count');
+  if (!n_layers || !n_embd || !n_head) {
+    return undefined;
+  }
+
+  // Derive head dimensions if not present (matches Python)
+  const headDim = Math.floor(n_embd / n_head);
+  return {
+    architecture,
+    n_layers,
+    n_embd,
+    n_head,
+    n_head_kv: getArchValue('attention.head_count_kv', n_head)!, // fallback to n_head
+    n_vocab:
+      getArchValue('vocab_size') || ARCH_DEFAULT_VOCAB[architecture] || 128000,
+    n_embd_head_k: getArchValue('attention.key_length') || headDim,
+    n_embd_head_v: getArchValue('attention.value_length') || headDim,
+    sliding_window: getArchValue('attention.sliding_window'),
+    context_length: getArchValue('context_length'),
+    nextn_predict_layers: getArchValue('nextn_predict_layers'),
+    embedding_length_out: getArchValue('embedding_length_out'),
+  };
+}
+
 // Sizes mirror llama.cpp's cache types.
 export function getKVCacheTypeBytes(cacheType: string): number {
   const typeMap: Record<string, number> = {
@@ -127,3 +207,35 @@ export function getModelMemoryRequirement(
 
   return estimated;
 }
+
+/**
+ * Warm contexts to release, least recently used first, so that at most
+ * `maxWarm` stay loaded and together with the context about to become active
+ * (`incomingBytes`) they fit `budgetBytes`.
+ */
+export function pickWarmContextEvictions(
+  warmContexts: Pick<WarmContext, 'modelId' | 'memoryBytes' | 'lastUsedAt'>[],
+  incomingBytes: number,
+  budgetBytes: number,
+  maxWarm: number,
+): string[] {
+  let totalBytes = warmContexts.reduce(
+    (sum, warm) => sum + warm.memoryBytes,
+    incomingBytes,
+  );
+  let count = warmContexts.length;
+  const evicted: string[] = [];
+
+  const leastRecentFirst = [...warmContexts].sort(
+    (a, b) => a.lastUsedAt - b.lastUsedAt,
+  );
+  for (const warm of leastRecentFirst) {
+    if (count <= maxWarm && totalBytes <= budgetBytes) {
+      break;
+    }
+    evicted.push(warm.modelId);
+    totalBytes -= warm.memoryBytes;
+    count--;
+  }
+  return evicted;
+}
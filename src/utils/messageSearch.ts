@@ -0,0 +1,132 @@
+import {derivedText} from './chat';
+import {MessageType} from './types';
+
+/**
+ * Full-text search over chat messages. Every message row has a companion
+ * row in `message_search` holding the text worth searching (visible text,
+ * agent step content and tool results) and a folded copy of it: lowercase,
+ * without diacritics and with punctuation turned into spaces. Queries are
+ * folded the same way and every query term must appear in the folded copy.
+ */
+
+/** Characters shown around the first match in a result snippet. */
+export const SNIPPET_LENGTH = 120;
+
+// Combining marks left behind by NFKD, e.g. the accent of "é".
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+// ASCII punctuation and whitespace.
+const SEPARATORS = /[\s!-/:-@[-`{-~]+/g;
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * The searchable text of a message: its visible text, plus the results of
+ * any tools an assistant turn called. Context summaries repeat earlier
+ * messages, so they are left out.
+ */
+export function searchableText(message: MessageType.Any): string {
+  if (message.metadata?.contextSummary) {
+    return '';
+  }
+  const parts = [derivedText(message)];
+  if (message.type === 'assistant_turn') {
+    for (const step of message.steps ?? []) {
+      for (const outcome of step.toolOutcomes ?? []) {
+        parts.push(outcome.responseContent);
+      }
+    }
+  }
+  return parts
+    .map(part => part?.trim())
+    .filter(part => !!part)
+    .join('\n\n');
+}
+
+const fold = (text: string): string =>
+  text.normalize('NFKD').replace(COMBINING_MARKS, '').toLowerCase();
+
+/** The folded form stored in `message_search.terms`. */
+export function normalizeForSearch(text: string): string {
+  return fold(text).replace(SEPARATORS, ' ').trim();
+}
+
+/** The distinct terms of a query, folded like the index. */
+export function queryTerms(query: string): string[] {
+  const terms = normalizeForSearch(query).split(' ');
+  return [...new Set(terms.filter(term => term.length > 0))];
+}
+
+/** Whether folded text contains every term. */
+export function matchesAllTerms(terms: string, queried: string[]): boolean {
+  return queried.length > 0 && queried.every(term => terms.includes(term));
+}
+
+/**
+ * A window of `content` around the first match, split into plain and
+ * matching parts for highlighting. Matching ignores case and diacritics.
+ */
+export function buildSnippet(
+  content: string,
+  terms: string[],
+  length: number = SNIPPET_LENGTH,
+): SnippetPart[] {
+  // Fold one character at a time so folded positions map back to content.
+  let folded = '';
+  const origin: number[] = [];
+  for (let i = 0; i < content.length; i++) {
+    const piece = fold(content[i]);
+    folded += piece;
+    for (let j = 0; j < piece.length; j++) {
+      origin.push(i);
+    }
+  }
+
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    let at = folded.indexOf(term);
+    while (term.length > 0 && at !== -1) {
+      ranges.push([origin[at], origin[at + term.length - 1] + 1]);
+      at = folded.indexOf(term, at + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const first = ranges[0]?.[0] ?? 0;
+  let start = Math.max(0, first - Math.floor(length / 3));
+  if (start > 0) {
+    // Begin on a word when one starts shortly before the match.
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < first) {
+      start = space + 1;
+    }
+  }
+  const end = Math.min(content.length, start + length);
+
+  const parts: SnippetPart[] = [];
+  const push = (text: string, match: boolean) => {
+    if (text.length > 0) {
+      parts.push({text: text.replace(/\s+/g, ' '), match});
+    }
+  };
+  let cursor = start;
+  for (const [from, to] of ranges) {
+    if (to <= cursor || from >= end) {
+      continue;
+    }
+    push(content.slice(cursor, Math.max(cursor, from)), false);
+    push(content.slice(Math.max(cursor, from), Math.min(to, end)), true);
+    cursor = Math.min(to, end);
+  }
+  push(content.slice(cursor, end), false);
+
+  if (start > 0) {
+    parts.unshift({text: '…', match: false});
+  }
+  if (end < content.length) {
+    parts.push({text: '…', match: false});
+  }
+  return parts;
+}
@@ -0,0 +1,178 @@
+import {MessageType} from './types';
+
+/**
+ * Helpers for the message tree of a chat session. Messages link to the
+ * message they reply to through `parentId`; regenerating a reply or editing
+ * a message adds a sibling instead of replacing it. The chat shows one path
+ * through the tree, newest message first, like `SessionMetaData.messages`.
+ */
+
+export interface BranchPosition {
+  /** Zero-based index among the message's siblings, oldest first. */
+  index: number;
+  count: number;
+}
+
+const ROOT_KEY = '';
+
+/** Sibling groups keyed by parent id, each sorted oldest first. Messages
+ * whose parent is missing count as roots. */
+const groupSiblings = (
+  messages: MessageType.Any[],
+): Map<string, MessageType.Any[]> => {
+  const ids = new Set(messages.map(message => message.id));
+  const groups = new Map<string, MessageType.Any[]>();
+  for (const message of messages) {
+    const key =
+      message.parentId && ids.has(message.parentId)
+        ? message.parentId
+        : ROOT_KEY;
+    const siblings = groups.get(key) ?? [];
+    siblings.push(message);
+    groups.set(key, siblings);
+  }
+  for (const siblings of groups.values()) {
+    siblings.sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0));
+  }
+  return groups;
+};
+
+/** The path from the root down to `leafId`, newest first. */
+export function pathTo(
+  messages: MessageType.Any[],
+  leafId: string,
+): MessageType.Any[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: MessageType.Any[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(leafId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/** The leaf reached from `messageId` by always following the newest reply. */
+export function latestLeafId(
+  messages: MessageType.Any[],
+  messageId: string,
+): string {
+  const groups = groupSiblings(messages);
+  const seen = new Set([messageId]);
+  let id = messageId;
+  for (;;) {
+    const children = groups.get(id) ?? [];
+    const newest = children[children.length - 1];
+    if (!newest || seen.has(newest.id)) {
+      return id;
+    }
+    seen.add(newest.id);
+    id = newest.id;
+  }
+}
+
+/**
+ * Split a session's messages into the path ending at `leafId` and the
+ * messages on every other branch. Without a leaf the path ends at the first
+ * message, which for rows loaded from the database is the newest one.
+ * Messages that carry no parent ids at all are read as one linear history.
+ */
+export function splitActivePath(
+  messages: MessageType.Any[],
+  leafId: string | undefined = messages[0]?.id,
+): {path: MessageType.Any[]; branches: MessageType.Any[]} {
+  if (!messages.some(message => message.parentId)) {
+    const leafIndex = Math.max(
+      messages.findIndex(message => message.id === leafId),
+      0,
+    );
+    return {
+      path: messages.slice(leafIndex),
+      branches: messages.slice(0, leafIndex),
+    };
+  }
+  const path = leafId ? pathTo(messages, leafId) : [];
+  const pathIds = new Set(path.map(message => message.id));
+  return {
+    path,
+    branches: messages.filter(message => !pathIds.has(message.id)),
+  };
+}
+
+/** Position of every message that has alternate branches. */
+export function branchPositions(
+  messages: MessageType.Any[],
+): Map<string, BranchPosition> {
+  const positions = new Map<string, BranchPosition>();
+  if (!messages.some(message => message.parentId)) {
+    return positions;
+  }
+  for (const siblings of groupSiblings(messages).values()) {
+    if (siblings.length < 2) {
+      continue;
+    }
+    siblings.forEach((message, index) => {
+      positions.set(message.id, {index, count: siblings.length});
+    });
+  }
+  return positions;
+}
+
+/** The sibling `offset` places away from `messageId`, if there is one. */
+export function siblingAt(
+  messages: MessageType.Any[],
+  messageId: string,
+  offset: number,
+): MessageType.Any | undefined {
+  for (const siblings of groupSiblings(messages).values()) {
+    const index = siblings.findIndex(message => message.id === messageId);
+    if (index !== -1) {
+      return siblings[index + offset];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Every message ordered so each one comes after the message it replies to,
+ * oldest root first. Messages caught in a parent cycle go last.
+ */
+export function parentsFirst(messages: MessageType.Any[]): MessageType.Any[] {
+  const groups = groupSiblings(messages);
+  const ordered: MessageType.Any[] = [];
+  const queue = [...(groups.get(ROOT_KEY) ?? [])];
+  const seen = new Set<string>();
+  while (queue.length > 0) {
+    const message = queue.shift()!;
+    if (seen.has(message.id)) {
+      continue;
+    }
+    seen.add(message.id);
+    ordered.push(message);
+    queue.push(...(groups.get(message.id) ?? []));
+  }
+  return ordered.concat(messages.filter(message => !seen.has(message.id)));
+}
+
+/** `messageId` and every message below it in the tree. */
+export function subtreeIds(
+  messages: MessageType.Any[],
+  messageId: string,
+): Set<string> {
+  const groups = groupSiblings(messages);
+  const ids = new Set<string>();
+  const pending = [messageId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (ids.has(id)) {
+      continue;
+    }
+    ids.add(id);
+    for (const child of groups.get(id) ?? []) {
+      pending.push(child.id);
+    }
+  }
+  return ids;
+}
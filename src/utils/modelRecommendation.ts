@@ -0,0 +1,133 @@
+import {CONTEXT_LADDER} from './bannerVariantResolver';
+import {getModelMemoryRequirement} from './memoryEstimator';
+import {MemoryFitStatus} from './memoryDisplay';
+import {isProjectionModel} from './multimodalHelpers';
+import {ContextInitParams, GGUFMetadata, Model, ModelFile} from './types';
+
+export interface ModelFileFit {
+  file: ModelFile;
+  // Estimated bytes to load the file at the user's n_ctx, projector included.
+  requiredBytes: number;
+  status: MemoryFitStatus;
+  // Largest CONTEXT_LADDER stop that still fits the available ceiling. Absent
+  // without usable metadata (KV cost unknown) or when no stop fits.
+  safeContextLength?: number;
+}
+
+export interface RecommendationInput {
+  files: ModelFile[];
+  // Architecture metadata is shared by every quant of a repo, so metadata
+  // read from any one of its files prices the KV cache for all of them.
+  metadata?: GGUFMetadata;
+  contextSettings: ContextInitParams;
+  projectorSize?: number;
+  // Calibrated ceiling: what the device has been seen to load.
+  availableBytes: number;
+  // What the device rules expect to load: their presets are picked for this
+  // device's RAM band and SoC class. Stands in for calibration that has not
+  // yet seen a large load.
+  ruleBackedBytes?: number;
+  // Physical RAM; anything above it cannot load at all.
+  totalBytes: number;
+}
+
+export interface Recommendation {
+  // Fitting files largest first, then tight ones smallest first, then files
+  // that would crash.
+  ranked: ModelFileFit[];
+  best?: ModelFileFit;
+}
+
+const STATUS_ORDER: Record<MemoryFitStatus, number> = {
+  fits: 0,
+  tight: 1,
+  wont_fit: 2,
+};
+
+const requirementFor = (
+  size: number,
+  input: RecommendationInput,
+  nCtx: number,
+): number =>
+  getModelMemoryRequirement(
+    {size, ggufMetadata: input.metadata} as Model,
+    input.projectorSize ? ({size: input.projectorSize} as Model) : undefined,
+    {...input.contextSettings, n_ctx: nCtx},
+  );
+
+const classify = (
+  requiredBytes: number,
+  availableBytes: number,
+  totalBytes: number,
+): MemoryFitStatus => {
+  if (requiredBytes <= availableBytes) {
+    return 'fits';
+  }
+  if (requiredBytes <= totalBytes) {
+    return 'tight';
+  }
+  return 'wont_fit';
+};
+
+const findSafeContextLength = (
+  size: number,
+  input: RecommendationInput,
+  ceiling: number,
+): number | undefined => {
+  if (!input.metadata) {
+    return undefined;
+  }
+  const maxCtx =
+    Number(input.metadata.context_length) ||
+    CONTEXT_LADDER[CONTEXT_LADDER.length - 1];
+  let safe: number | undefined;
+  for (const nCtx of CONTEXT_LADDER) {
+    if (nCtx > maxCtx) {
+      break;
+    }
+    if (requirementFor(size, input, nCtx) > ceiling) {
+      break;
+    }
+    safe = nCtx;
+  }
+  return safe;
+};
+
+/**
+ * Rank a repo's GGUF files by how well they fit this device at the user's
+ * context settings. The best pick is the largest (highest quality) quant that
+ * fits the calibrated (or rule-backed) ceiling; files above physical RAM are
+ * `wont_fit`.
+ * Pure: no store reads, no device calls.
+ */
+export function rankModelFiles(input: RecommendationInput): Recommendation {
+  const {files, contextSettings, totalBytes} = input;
+  const availableBytes = Math.max(
+    input.availableBytes,
+    input.ruleBackedBytes ?? 0,
+  );
+
+  const ranked = files
+    .filter(file => file.size && !isProjectionModel(file.rfilename))
+    .map(file => {
+      const size = file.size as number;
+      const requiredBytes = requirementFor(size, input, contextSettings.n_ctx);
+      return {
+        file,
+        requiredBytes,
+        status: classify(requiredBytes, availableBytes, totalBytes),
+        safeContextLength: findSafeContextLength(size, input, availableBytes),
+      };
+    })
+    .sort((a, b) => {
+      if (a.status !== b.status) {
+        return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+      }
+      return a.status === 'fits'
+        ? b.requiredBytes - a.requiredBytes
+        : a.requiredBytes - b.requiredBytes;
+    });
+
+  const best = ranked[0]?.status === 'fits' ? ranked[0] : undefined;
+  return {ranked, best};
+}
@@ -0,0 +1,54 @@
+import type {
+  ModelGroup,
+  ModelRoutingPolicy,
+  RemoteModelRef,
+  ServerHealth,
+} from './types';
+
+const sameRef = (a: RemoteModelRef, b: RemoteModelRef) =>
+  a.serverId === b.serverId && a.remoteModelId === b.remoteModelId;
+
+/**
+ * Every remote backend of a group, the model it extends first and duplicates
+ * dropped.
+ */
+export function groupBackends(
+  primary: RemoteModelRef,
+  group: ModelGroup | undefined,
+): RemoteModelRef[] {
+  const backends = [primary];
+  for (const ref of group?.backends ?? []) {
+    if (!backends.some(b => sameRef(b, ref))) {
+      backends.push(ref);
+    }
+  }
+  return backends;
+}
+
+/**
+ * Orders a group's backends for one turn. A server whose last check failed
+ * goes last rather than away: the check may be stale, and trying it again
+ * costs one fast connection error. Under 'latency' the healthy servers are
+ * sorted by their measured round trip, unchecked ones after them; ties keep
+ * the configured order.
+ */
+export function orderBackends(
+  backends: RemoteModelRef[],
+  policy: ModelRoutingPolicy,
+  health: Record<string, ServerHealth | undefined>,
+): RemoteModelRef[] {
+  const isDown = (ref: RemoteModelRef) =>
+    health[ref.serverId]?.ok === false ? 1 : 0;
+  const latency = (ref: RemoteModelRef) =>
+    health[ref.serverId]?.latencyMs ?? Number.MAX_SAFE_INTEGER;
+
+  return backends
+    .map((ref, index) => ({ref, index}))
+    .sort(
+      (a, b) =>
+        isDown(a.ref) - isDown(b.ref) ||
+        (policy === 'latency' ? latency(a.ref) - latency(b.ref) : 0) ||
+        a.index - b.index,
+    )
+    .map(entry => entry.ref);
+}
@@ -116,6 +116,10 @@ export const COMPLETION_PARAMS_METADATA: Partial<
     validation: {type: 'boolean', required: false},
     defaultValue: defaultCompletionParams.jinja,
   },
+  context_threshold: {
+    validation: {type: 'numeric', min: 0.5, max: 0.95, required: false},
+    defaultValue: defaultCompletionParams.context_threshold,
+  },
 };
 
 // Validation helpers
@@ -0,0 +1,106 @@
+import {fetchModelInfo} from '../api/hf';
+
+import {resolveHFRepo} from './hfResolve';
+import {Model, ModelFile, ModelOrigin, ModelUpdate} from './types';
+
+export const MODEL_UPDATE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** What one update check learned, per model. */
+export interface ModelUpdateCheck {
+  updates: ModelUpdate[];
+  // Repo lastModified seen for each checked model, update or not
+  lastModified: Record<string, string>;
+}
+
+/** Downloaded models that came from a Hugging Face repo. */
+export const isUpdatableModel = (model: Model): boolean =>
+  model.isDownloaded &&
+  (model.origin === ModelOrigin.HF || model.origin === ModelOrigin.PRESET) &&
+  !!model.hfModel?.id &&
+  !!model.hfModelFile;
+
+/**
+ * Whether `latest` is a different upload than `stored`. The sha256 (LFS oid)
+ * is compared when both sides have one, the git blob oid otherwise; a file
+ * without either cannot be told apart and counts as unchanged.
+ */
+export const isFileChanged = (
+  stored: ModelFile,
+  latest: ModelFile,
+): boolean => {
+  const storedOid = stored.lfs?.oid ?? stored.oid;
+  const latestOid = stored.lfs?.oid ? latest.lfs?.oid : latest.oid;
+  if (storedOid && latestOid && storedOid !== latestOid) {
+    return true;
+  }
+  const storedShards = stored.shards ?? [];
+  const latestShards = latest.shards ?? [];
+  if (storedShards.length !== latestShards.length) {
+    return storedShards.length > 0 || latestShards.length > 0;
+  }
+  return storedShards.some((shard, index) =>
+    isFileChanged(shard, latestShards[index]),
+  );
+};
+
+const isNewer = (latest?: string, stored?: string): boolean => {
+  if (!latest) {
+    return false;
+  }
+  if (!stored) {
+    return true;
+  }
+  return new Date(latest).getTime() > new Date(stored).getTime();
+};
+
+/**
+ * Looks for newer uploads of the given models' files. Each repo's info is
+ * fetched once and its file list only when its lastModified moved past the
+ * one stored with the model. A repo that fails to fetch is skipped; the next
+ * check tries it again.
+ */
+export const findModelUpdates = async (
+  models: Model[],
+  authToken?: string | null,
+): Promise<ModelUpdateCheck> => {
+  const result: ModelUpdateCheck = {updates: [], lastModified: {}};
+
+  const byRepo = new Map<string, Model[]>();
+  for (const model of models.filter(isUpdatableModel)) {
+    const repoId = model.hfModel!.id;
+    byRepo.set(repoId, [...(byRepo.get(repoId) ?? []), model]);
+  }
+
+  for (const [repoId, repoModels] of byRepo) {
+    try {
+      const info = await fetchModelInfo({repoId, authToken});
+      const changed = repoModels.filter(m =>
+        isNewer(info.lastModified, m.hfModel?.lastModified),
+      );
+      if (changed.length === 0) {
+        continue;
+      }
+
+      const hfModel = await resolveHFRepo(repoId, authToken);
+      for (const model of changed) {
+        result.lastModified[model.id] = hfModel.lastModified;
+        const latest = hfModel.siblings.find(
+          file => file.rfilename === model.hfModelFile!.rfilename,
+        );
+        // A file removed upstream has nothing to update to.
+        if (latest && isFileChanged(model.hfModelFile!, latest)) {
+          result.updates.push({
+            modelId: model.id,
+            hfModel,
+            modelFile: latest,
+            sizeDelta: (latest.size ?? 0) - model.size,
+          });
+        }
+      }
+    } catch (error) {
+      console.warn(`[modelUpdates] Failed to check ${repoId}:`, error);
+    }
+  }
+
+  return result;
+};
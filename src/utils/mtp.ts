@@ -53,7 +53,9 @@ const probeCache = new Map<string, MTPRemoteCapability>();
 const PROBE_CACHE_MAX = 64;
 
 // Range-fetches the GGUF header. Some converters omit the KV but still write
-// `nextn.*` tensors, hence the tensor-name fallback inside the reader.
+// `nextn.*` tensors, hence the tensor-name fallback inside the reader. For a
+// split model only the first part is read: its KVs cover the whole model, but
+// the tensors it lists do not, so a missing KV there is not a negative.
 export const probeRemoteMTPCapability = async (
   ggufUrl: string,
 ): Promise<MTPRemoteCapability> => {
@@ -62,8 +64,11 @@ export const probeRemoteMTPCapability = async (
     return cached;
   }
   try {
-    const {nextnPredictLayers, hasNextnTensor} =
+    const {nextnPredictLayers, hasNextnTensor, split} =
       await readGGUFHeaderForMTP(ggufUrl);
+    if (!nextnPredictLayers && !hasNextnTensor && (split?.count ?? 1) > 1) {
+      return 'unknown';
+    }
     const result: MTPRemoteCapability =
       nextnPredictLayers > 0 || hasNextnTensor ? 'capable' : 'not-capable';
     if (probeCache.size >= PROBE_CACHE_MAX) {
@@ -8,6 +8,9 @@ export const ROUTES = {
   SETTINGS: 'Settings',
   APP_INFO: 'App Info',
 
+  // Reached from the Models screen menu rather than the drawer sidebar.
+  STORAGE: 'Storage',
+
   // Dev tools route. Only available in debug mode.
   DEV_TOOLS: 'Dev Tools',
 
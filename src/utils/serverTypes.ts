@@ -1,13 +1,15 @@
 /**
  * User-selectable server types. Gates the per-server reasoning wire payload
- * (see api/openai.ts buildReasoningPayload). detectServerType seeds the value
- * best-effort; the user's selection wins.
+ * (see api/openai.ts buildReasoningPayload), and 'Anthropic' switches the
+ * server to the Messages API (api/anthropic.ts). detectServerType seeds the
+ * value best-effort; the user's selection wins.
  */
 export const SERVER_TYPE_OPTIONS = [
   'llama.cpp',
   'LM Studio',
   'Ollama',
   'OpenAI',
+  'Anthropic',
   'vLLM',
   'unknown',
 ] as const;
@@ -27,17 +29,22 @@ export const SERVER_TYPE_DROPDOWN_OPTIONS = SERVER_TYPE_OPTIONS.map(option => ({
 
 /**
  * Best-effort seed for a server's type from the detection result plus a host
- * heuristic (api.openai.com → OpenAI). detectServerType cannot classify
- * OpenAI or vLLM, so the user can correct it on the server sheet.
+ * heuristic (api.openai.com → OpenAI, api.anthropic.com → Anthropic).
+ * detectServerType cannot classify OpenAI or vLLM, so the user can correct it
+ * on the server sheet.
  */
 export function seedServerType(detected: string, url: string): string {
   if (detected) {
     return detected;
   }
   try {
-    if (new URL(url).hostname.endsWith('api.openai.com')) {
+    const {hostname} = new URL(url);
+    if (hostname.endsWith('api.openai.com')) {
       return 'OpenAI';
     }
+    if (hostname.endsWith('api.anthropic.com')) {
+      return 'Anthropic';
+    }
   } catch {
     // ignore malformed URL
   }
@@ -0,0 +1,83 @@
+import type {TokenProbability} from './completionTypes';
+
+// What a message keeps of its token probabilities. Metadata is persisted with
+// the message, so a long answer keeps only its first tokens and the likeliest
+// alternatives of each.
+export const MAX_STORED_TOKEN_PROBS = 1024;
+export const MAX_STORED_ALTERNATIVES = 5;
+
+export type TokenConfidence = 'high' | 'medium' | 'low';
+
+const round = (prob: number) => Math.round(prob * 10000) / 10000;
+
+/**
+ * Converts llama.rn's `completion_probabilities`. The sampled token is looked
+ * up among the alternatives; one that fell outside them counts as 0.
+ */
+export function fromCompletionProbabilities(
+  entries:
+    | Array<{content: string; probs?: Array<{tok_str: string; prob: number}>}>
+    | undefined,
+): TokenProbability[] | undefined {
+  if (!entries?.length) {
+    return undefined;
+  }
+  return entries.map(entry => {
+    const top = (entry.probs ?? []).map(p => ({
+      token: p.tok_str,
+      prob: p.prob,
+    }));
+    return {
+      token: entry.content,
+      prob: top.find(p => p.token === entry.content)?.prob ?? 0,
+      top,
+    };
+  });
+}
+
+/** Converts the OpenAI `logprobs.content` entries of a chat completion. */
+export function fromLogprobs(
+  entries:
+    | Array<{
+        token: string;
+        logprob: number;
+        top_logprobs?: Array<{token: string; logprob: number}>;
+      }>
+    | undefined,
+): TokenProbability[] {
+  return (entries ?? []).map(entry => ({
+    token: entry.token,
+    prob: Math.exp(entry.logprob),
+    top: (entry.top_logprobs ?? []).map(p => ({
+      token: p.token,
+      prob: Math.exp(p.logprob),
+    })),
+  }));
+}
+
+/**
+ * Trims token probabilities to what a message stores, or undefined when there
+ * is nothing to keep.
+ */
+export function boundTokenProbs(
+  probs: TokenProbability[] | undefined,
+): TokenProbability[] | undefined {
+  if (!probs?.length) {
+    return undefined;
+  }
+  return probs.slice(0, MAX_STORED_TOKEN_PROBS).map(entry => ({
+    token: entry.token,
+    prob: round(entry.prob),
+    top: [...entry.top]
+      .sort((a, b) => b.prob - a.prob)
+      .slice(0, MAX_STORED_ALTERNATIVES)
+      .map(p => ({token: p.token, prob: round(p.prob)})),
+  }));
+}
+
+export function tokenConfidence(prob: number): TokenConfidence {
+  if (prob >= 0.7) {
+    return 'high';
+  }
+  return prob >= 0.3 ? 'medium' : 'low';
+}
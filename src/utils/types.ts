@@ -3,13 +3,14 @@ import {ImageURISource, TextStyle} from 'react-native';
 
 import {MD3Theme} from 'react-native-paper';
 import {TemplateConfig} from 'chat-formatter';
-import {ContextParams, TokenData} from 'llama.rn';
+import {ContextParams, LlamaContext, TokenData} from 'llama.rn';
 import {CompletionParams} from './completionTypes';
 import {PreviewData} from '@flyerhq/react-native-link-preview';
 import {MD3Colors, MD3Typescale} from 'react-native-paper/lib/typescript/types';
 import type {TokenRadius, TokenStroke, TokenTypography} from '../theme/tokens';
 import {SkillKey} from '.';
 import type {TalentResult} from '../services/talents/types';
+import type {TalentApprovalPolicy} from '../types/pal';
 import type {ReasoningCapability} from './reasoningCapability';
 
 /**
@@ -51,6 +52,15 @@ export interface AgentToolOutcome {
   toolName: string;
   result: TalentResult;
   responseContent: string;
+  /** Present when the Pal's policy for this talent isn't `'always'`, so an
+   * exported chat shows what the user allowed or declined. */
+  approval?: AgentToolApproval;
+}
+
+/** The approval policy in force for a call and how it was resolved. */
+export interface AgentToolApproval {
+  policy: Exclude<TalentApprovalPolicy, 'always'>;
+  decision: 'approved' | 'declined';
 }
 
 /**
@@ -94,6 +104,9 @@ export namespace MessageType {
     createdAt?: number;
     id: string;
     metadata?: Record<string, any>;
+    /** Message this one replies to; messages sharing a parent are
+     * alternate branches. Unset on the first message of a branch tree. */
+    parentId?: string;
     roomId?: string;
     status?: 'delivered' | 'error' | 'seen' | 'sending' | 'sent';
     type:
@@ -461,6 +474,7 @@ export enum ModelOrigin {
   LOCAL = 'local',
   HF = 'hf',
   REMOTE = 'remote',
+  URL = 'url', // Downloaded from a direct link outside Hugging Face
 }
 
 export interface ServerConfig {
@@ -469,17 +483,100 @@ export interface ServerConfig {
   url: string; // Base URL e.g. "http://192.168.1.100:1234"
   lastConnected?: number; // Timestamp
   requestTimeoutMs?: number; // Per-server network timeout in ms; undefined = API default
-  // User-selectable server type; gates the per-server reasoning wire payload.
-  // detectServerType seeds it best-effort; user selection wins. undefined = unknown.
+  // User-selectable server type; gates the per-server reasoning wire payload,
+  // and 'Anthropic' selects the Messages API engine. detectServerType seeds it
+  // best-effort; user selection wins. undefined = unknown.
   serverType?:
     | 'llama.cpp'
     | 'LM Studio'
     | 'Ollama'
     | 'OpenAI'
+    | 'Anthropic'
     | 'vLLM'
     | string;
 }
 
+/**
+ * A user-configured Model Context Protocol server. Its tools are registered
+ * as talents while connected; the bearer token, if any, lives in Keychain.
+ */
+export interface McpServerConfig {
+  id: string;
+  name: string; // Also the talent-name prefix, e.g. "mcp_<name>_<tool>"
+  url: string; // Streamable HTTP endpoint e.g. "http://192.168.1.100:8000/mcp"
+  enabled: boolean;
+}
+
+export type WebhookMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/** A request header; a secret header's value lives in Keychain, not here. */
+export interface WebhookHeader {
+  name: string;
+  value?: string;
+  secret?: boolean;
+}
+
+/**
+ * A user-defined HTTP endpoint exposed as a talent. Contains no secrets, so
+ * it can be exported alongside the Pals that use it.
+ */
+export interface WebhookToolConfig {
+  id: string;
+  name: string; // Talent and function name, e.g. "lookup_order"
+  description: string;
+  /** JSON Schema for the arguments object. */
+  parameters: Record<string, any>;
+  /** `{param}` placeholders take URL-encoded argument values. */
+  urlTemplate: string;
+  method: WebhookMethod;
+  headers: WebhookHeader[];
+  /** Where the answer sits in a JSON response, e.g. "data.items[0].title". */
+  responsePath?: string;
+}
+
+/**
+ * A named group of imported documents. Pals opt into collections, not
+ * single documents (`TalentRef.collections`).
+ */
+export interface DocumentCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+/** An imported document as listed in Settings; its chunks stay in the DB. */
+export interface DocumentInfo {
+  id: string;
+  collectionId: string;
+  title: string;
+  source?: string; // File name the text came from
+  charCount: number;
+  chunkCount: number;
+  /** Model id the chunks were embedded with; search skips other models. */
+  embeddingModel: string;
+  createdAt: number;
+}
+
+/** A message matched by a search across chats. */
+export interface MessageSearchHit {
+  messageId: string;
+  sessionId: string;
+  /** Model that wrote the message, for assistant replies. */
+  modelId?: string;
+  /** The searchable text of the message, for the snippet. */
+  content: string;
+  createdAt: number;
+}
+
+/** Narrows a search across chats. Dates are epoch milliseconds. */
+export interface MessageSearchFilters {
+  palId?: string;
+  /** Only chats in which this model replied. */
+  modelId?: string;
+  from?: number;
+  to?: number;
+}
+
 /**
  * Capabilities a llama.cpp server reports for one model via GET /props.
  * Keyed per full model id (`${serverId}/${remoteModelId}`) in ServerStore.
@@ -514,11 +611,83 @@ export interface RemoteSessionBinding {
   serverType?: string;
 }
 
+/** A remote model on one server, as `serverStore.userSelectedModels` lists it. */
+export interface RemoteModelRef {
+  serverId: string;
+  remoteModelId: string;
+}
+
+/**
+ * How a model group orders its backends for a turn. 'priority' keeps the
+ * configured order; 'latency' puts the fastest healthy server first.
+ */
+export type ModelRoutingPolicy = 'priority' | 'latency';
+
+/**
+ * Extra backends for one logical remote model, keyed in ServerStore by the
+ * model they extend (`${serverId}/${remoteModelId}`). That model stays the
+ * first backend and keeps owning the session's caps and settings; `backends`
+ * are failover targets, on other servers and possibly other server types.
+ * `localModelId` names a downloaded GGUF to load when no server answers.
+ */
+export interface ModelGroup {
+  backends: RemoteModelRef[];
+  policy: ModelRoutingPolicy;
+  localModelId?: string;
+}
+
+/**
+ * The last health check of a server. Owned by ServerStore, not persisted:
+ * a LAN box that was off yesterday says nothing about today.
+ */
+export interface ServerHealth {
+  ok: boolean;
+  latencyMs?: number; // Round trip of the check; set only when ok
+  checkedAt: number;
+}
+
+/**
+ * A local context kept loaded after the user switched away from its model, so
+ * switching back skips initLlama. Owned by ModelStore, not persisted.
+ */
+export interface WarmContext {
+  modelId: string;
+  context: LlamaContext;
+  // Params the context was created with; a reuse must match them exactly.
+  contextSettings?: ContextInitParams;
+  isMultimodalActive: boolean;
+  projectionModelId?: string;
+  memoryBytes: number; // memoryEstimator estimate at load time
+  lastUsedAt: number;
+  loraAdapters: LoraAdapterSetting[]; // Adapters applied to the context
+}
+
+/**
+ * A newer upload of a downloaded Hugging Face model's file, found by the
+ * background update check. `sizeDelta` is the new size minus the old one.
+ */
+export interface ModelUpdate {
+  modelId: string;
+  hfModel: HuggingFaceModel; // Repo as of the check
+  modelFile: ModelFile; // The file's new revision
+  sizeDelta: number;
+}
+
 export enum ModelType {
   PROJECTION = 'projection',
   VISION = 'vision',
   LLM = 'llm',
   DRAFT = 'draft',
+  LORA = 'lora',
+}
+
+/**
+ * A LoRA adapter enabled on a base model (or pinned by a Pal). `id` is the
+ * adapter's Model id; `scale` is the strength llama.rn applies it with.
+ */
+export interface LoraAdapterSetting {
+  id: string;
+  scale: number;
 }
 
 /**
@@ -571,6 +740,15 @@ export interface Model {
 
   defaultDraftModel?: string; // Default draft model ID to auto-pair / auto-download
 
+  // Named context-init presets for this model; the active one overrides the
+  // global contextInitParams whenever this model loads.
+  loadProfiles?: LoadProfile[];
+  activeLoadProfileId?: string; // undefined = global settings only
+
+  // LoRA adapters
+  adapterArchitecture?: string; // On adapters: base architecture they were trained for
+  loraAdapters?: LoraAdapterSetting[]; // On base models: adapters applied on load
+
   // Thinking capabilities
   /** @deprecated Read via resolveReasoningCapability; kept as a fallback for old records. */
   supportsThinking?: boolean; // Whether this model supports thinking/reasoning mode
@@ -591,6 +769,9 @@ export interface Model {
   hfModelFile?: ModelFile;
   hfModel?: HuggingFaceModel;
   hash?: string;
+  // Split GGUF models: every part in order. The first one is `filename` and is
+  // what gets loaded; llama.cpp picks up the rest from the same directory.
+  shards?: ModelShard[];
 
   // Provenance marker: set on models materialized from the device-rule preset
   // list. Lets reconcile prune stale, non-downloaded rule stubs without touching
@@ -603,6 +784,43 @@ export interface Model {
   remoteModelId?: string; // The model ID as reported by the server's /v1/models
 }
 
+export interface ModelShard {
+  filename: string;
+  downloadUrl: string;
+  size: number;
+  sha256?: string; // LFS oid published by Hugging Face
+}
+
+/**
+ * What the storage scan found wrong with a file or model:
+ * - orphan: a GGUF in the models directory that no model points to
+ * - partial: what an interrupted download left behind
+ * - duplicate: a downloaded model with the same hash as another one
+ * - unusedProjection: a downloaded mmproj no downloaded model uses
+ * - unusedDraft: a downloaded draft model nothing pairs with
+ * - missing: a local model whose file no longer exists
+ */
+export type StorageIssueKind =
+  | 'orphan'
+  | 'partial'
+  | 'duplicate'
+  | 'unusedProjection'
+  | 'unusedDraft'
+  | 'missing';
+
+export interface StorageIssue {
+  kind: StorageIssueKind;
+  size: number; // Bytes reclaimed by fixing it
+  path?: string; // Set for orphan and partial files
+  modelId?: string; // Set for the others
+  duplicateOf?: string; // The model kept in place of a duplicate
+}
+
+export interface StorageReport {
+  issues: StorageIssue[];
+  reclaimableBytes: number;
+}
+
 export type DraftConfig =
   | {mode: 'off'}
   | {mode: 'embedded'}
@@ -630,6 +848,9 @@ export interface ModelFile {
     pointerSize: number;
   };
   canFitInStorage?: boolean;
+  // Set on the first part of a split GGUF (`name-00001-of-00003.gguf`), which
+  // stands for the whole set: `size` is the total and `shards` lists every part.
+  shards?: ModelFile[];
 }
 
 // Model data from HuggingFace search models
@@ -747,6 +968,28 @@ export interface ContextInitParams
   flash_attn?: boolean;
 }
 
+/** Context-init fields a load profile may override; the rest stay global. */
+export type LoadProfileField =
+  | 'n_ctx'
+  | 'n_batch'
+  | 'n_ubatch'
+  | 'cache_type_k'
+  | 'cache_type_v'
+  | 'n_gpu_layers'
+  | 'flash_attn_type'
+  | 'use_mmap'
+  | 'speculativeEnabled'
+  | 'selectedDraftModelId';
+
+export interface LoadProfile {
+  id: string;
+  name: string;
+  // contextInitParams schema version the overrides were written against, so
+  // migrateLoadProfile can bring them forward alongside the globals.
+  version: string;
+  overrides: Partial<Pick<ContextInitParams, LoadProfileField>>;
+}
+
 /**
  * Legacy context initialization parameters for migration purposes
  * Used to handle old data formats that may be missing fields or use old property names
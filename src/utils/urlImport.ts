@@ -0,0 +1,96 @@
+import {readGGUFHeaderInfo} from './ggufHeader';
+
+/** What the add-from-URL sheet shows before the download is started. */
+export interface UrlModelProbe {
+  downloadUrl: string;
+  filename: string;
+  host: string;
+  size: number;
+  architecture?: string;
+}
+
+// RFC 9110 token characters.
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * The direct file URL for what the user pasted, or `undefined` when it is not
+ * an http(s) link to a `.gguf` file. Hub page links are rewritten to their
+ * download form: `/blob/` (Hugging Face) and `/file/view/` (ModelScope) both
+ * serve the file at `/resolve/`.
+ */
+export const normalizeModelUrl = (input: string): string | undefined => {
+  let parsed: URL;
+  try {
+    parsed = new URL(input.trim());
+  } catch {
+    return undefined;
+  }
+  if (
+    (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') ||
+    !parsed.hostname
+  ) {
+    return undefined;
+  }
+  const pathname = parsed.pathname
+    .replace(/\/blob\//, '/resolve/')
+    .replace(/\/file\/view\//, '/resolve/');
+  if (!/\.gguf$/i.test(pathname)) {
+    return undefined;
+  }
+  // Page links carry UI state (`?status=1`) the download endpoint ignores.
+  const search = pathname === parsed.pathname ? parsed.search : '';
+  return `${parsed.protocol}//${parsed.host}${pathname}${search}`;
+};
+
+export const urlModelFilename = (url: string): string =>
+  decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+
+/** One `Name: value` per line; `undefined` when a line is malformed. */
+export const parseHeaderLines = (
+  text: string,
+): Record<string, string> | undefined => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    const colon = line.indexOf(':');
+    const name = colon > 0 ? line.slice(0, colon).trim() : '';
+    if (!HEADER_NAME.test(name)) {
+      return undefined;
+    }
+    headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+};
+
+/**
+ * Reads the GGUF header behind `url` over range requests, so a link that is
+ * not a model, or not reachable with the given headers, fails here instead of
+ * after a multi-gigabyte download. Split models are refused: their other
+ * parts have no URL to fetch them from.
+ */
+export const probeModelUrl = async (
+  url: string,
+  headers?: Record<string, string>,
+  fetchImpl?: typeof fetch,
+): Promise<UrlModelProbe> => {
+  const downloadUrl = normalizeModelUrl(url);
+  if (!downloadUrl) {
+    throw new Error('Not a link to a .gguf file');
+  }
+  const info = await readGGUFHeaderInfo(downloadUrl, {headers, fetchImpl});
+  if ((info.split?.count ?? 1) > 1) {
+    throw new Error('Split models cannot be imported from a URL');
+  }
+  if (!info.fileSize) {
+    throw new Error('The server did not report the file size');
+  }
+  return {
+    downloadUrl,
+    filename: urlModelFilename(downloadUrl),
+    host: new URL(downloadUrl).hostname,
+    size: info.fileSize,
+    architecture: info.architecture,
+  };
+};